@@ -9,8 +9,12 @@ import {
   OptionDropDown,
   PropertyMenu,
   MediaHost,
+  resolveMediaHostCategory,
   CustomPopup,
   MediaImportProgressOverlay,
+  SearchFilterPanel,
+  SmartFolderCreator,
+  ArchiveEntryPicker,
 } from "@/components";
 import React, { useMemo, useState, useEffect, useCallback } from "react";
 import {
@@ -19,25 +23,89 @@ import {
   ActivityIndicator,
   Keyboard,
   Pressable,
+  ScrollView,
+  TextInput,
 } from "react-native";
 import { TouchableOpacity } from "@/components/TouchableOpacity";
 import { useNavigationStore } from "@/stores";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
-import { FileModel, FolderModel } from "@/models";
+import {
+  ArchiveFileEntryModel,
+  FileModel,
+  FolderModel,
+  isArchiveEntryModel,
+  SmartFolderModel,
+} from "@/models";
 import type { MediaHostItem } from "@/types/media/viewers";
 import { useLibraryStyles } from "@/screenStyles/libraryStyle";
 import EmptyFolder from "@/components/svgIcons/emptyFolder";
 import { SortDropDown } from "@/components/SortDropDown";
 import {
+  useArchiveBrowser,
   useLibraryContent,
   useLibraryActions,
   useLibraryArchiveActions,
 } from "@/hooks/library";
-import { useFileSystem, useSearch, useSelection } from "@/hooks";
+import {
+  useFileSystem,
+  useRecentSearches,
+  useSearch,
+  useSearchSuggestions,
+  useSearchQueryTokens,
+  useSelection,
+} from "@/hooks";
 import { FlashList } from "@shopify/flash-list";
 import { router } from "expo-router";
-import { ArchiveFormat, OptionsIds, type OptionsType } from "@/types";
+import {
+  ArchiveFormat,
+  OptionsIds,
+  type ArchiveEncryptionMethod,
+  type ArchiveOverwriteMode,
+  type OptionsType,
+  type SupportedArchiveFormat,
+} from "@/types";
 import { openExternal } from "@/utils/other/sharing";
+import { toSearchSortOptions } from "@/utils/ui/sort";
+import { BottomSheet } from "@/animations";
+import type { SearchSuggestion } from "@/types/ui/search";
+import { ARCHIVE_VOLUME_SIZE_OPTIONS } from "@/constants/archive";
+import { parseArchiveVolumeName } from "@/services/archive/archiveVolumes";
+
+/** Comprimidos que se pueden explorar como una carpeta sin extraerlos */
+const BROWSABLE_ARCHIVE_EXTENSIONS: readonly string[] = [
+  "zip",
+  "tar",
+  "gz",
+  "tgz",
+];
+
+const ARCHIVE_FORMAT_OPTIONS: {
+  value: SupportedArchiveFormat;
+  label: string;
+}[] = [
+  { value: "zip", label: "ZIP" },
+  { value: "tar", label: "TAR" },
+  { value: "gz", label: "TAR.GZ" },
+];
+
+const ARCHIVE_ENCRYPTION_OPTIONS: {
+  value: ArchiveEncryptionMethod;
+  label: string;
+}[] = [
+  { value: "aes256", label: "AES-256" },
+  { value: "aes128", label: "AES-128" },
+  { value: "zipcrypto", label: "ZipCrypto" },
+];
+
+const ARCHIVE_OVERWRITE_OPTIONS: {
+  value: ArchiveOverwriteMode;
+  label: string;
+}[] = [
+  { value: "ask", label: "Preguntar" },
+  { value: "overwrite", label: "Sobrescribir" },
+  { value: "rename", label: "Renombrar" },
+  { value: "skip", label: "Omitir" },
+];
 
 export default function LibraryScreen() {
   const [creatorVisible, setCreatorVisible] = useState(false);
@@ -55,6 +123,11 @@ export default function LibraryScreen() {
   const [showItemPropertyMenu, setShowItemPropertyMenu] = useState(false);
   const [activeMedia, setActiveMedia] = useState<MediaHostItem[] | null>(null);
   const [isSearchExpanded, setIsSearchExpanded] = useState(false);
+  const [searchFilterPanelVisible, setSearchFilterPanelVisible] =
+    useState(false);
+  const [searchText, setSearchText] = useState("");
+  const [editingSmartFolder, setEditingSmartFolder] =
+    useState<SmartFolderModel | null>(null);
 
   const { currentFolderId, navigateTo, currentFolderName, navigateBack } =
     useNavigationStore();
@@ -68,6 +141,8 @@ export default function LibraryScreen() {
     sortValue,
     viewOptions,
     gridConfig,
+    isSmartFolder,
+    isArchiveFolder,
     folderService,
     fileService,
     handleSortItems,
@@ -91,13 +166,14 @@ export default function LibraryScreen() {
     handleDeleteElements,
     handleSaveFile,
     handleSaveFolder,
+    handleSaveSmartFolder,
+    handleUpdateSmartFolder,
     handleRename,
     handleCopy,
     handleCut,
     handlePaste,
     handleMakeFavorite,
     hasItems,
-    isPasting,
     isImporting,
   } = useLibraryActions({
     folderService,
@@ -110,17 +186,62 @@ export default function LibraryScreen() {
   const {
     archiveDialog,
     archiveLoading,
+    changeFormat,
+    changePassword,
     closeArchiveDialog,
+    closeEntryPicker,
     confirmArchiveAction,
+    confirmEntrySelection,
+    conflictPrompt,
+    entryPicker,
+    extractArchiveEntry,
+    openEntryPicker,
     requestCompressItem,
     requestExtractItem,
+    resolveConflict,
+    setEncryption,
     setExtractHere,
+    setOverwriteMode,
+    setVolumeSize,
+    toggleApplyToAllConflicts,
+    toggleProtectWithPassword,
   } = useLibraryArchiveActions();
+  const {
+    archivePasswordPrompt,
+    changeArchivePassword,
+    closeArchivePasswordPrompt,
+    isPreparingEntry,
+    openArchive,
+    openArchiveEntry,
+    shareArchiveEntry,
+    submitArchivePassword,
+  } = useArchiveBrowser();
 
   const styles = useLibraryStyles();
   const fs = useFileSystem();
-  const { handleSearch, clearSearch, isSearching, isSearchActive } =
-    useSearch("");
+  const searchSort = useMemo(
+    () => toSearchSortOptions(orderBy, sortValue),
+    [orderBy, sortValue],
+  );
+  const {
+    handleSearch,
+    applyFilters,
+    loadMoreResults,
+    clearSearch,
+    searchFilters,
+    activeFilterCount,
+    isSearching,
+    isLoadingMore,
+    isSearchActive,
+  } = useSearch("", { sort: searchSort });
+  const { suggestions } = useSearchSuggestions(searchText);
+  const { queryTokens } = useSearchQueryTokens(searchText);
+  const {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  } = useRecentSearches();
   const searchBoxKey = `${currentFolderId ?? "root"}:${selectionMode ? "selection" : "browse"}`;
 
   const dismissSearchFocus = useCallback(() => {
@@ -136,6 +257,7 @@ export default function LibraryScreen() {
 
   const resetSearchUi = useCallback(() => {
     clearSearch();
+    setSearchText("");
     setIsSearchExpanded(false);
   }, [clearSearch]);
 
@@ -163,10 +285,19 @@ export default function LibraryScreen() {
 
   useEffect(() => {
     clearSearch();
+    setSearchText("");
     setIsSearchExpanded(false);
   }, [currentFolderId, clearSearch]);
 
   const handleOpenItem = (item: FileModel | FolderModel) => {
+    // Las entradas de un comprimido se extraen a la caché antes de abrirlas
+    if (item instanceof ArchiveFileEntryModel) {
+      void openArchiveEntry(item).then(
+        (mediaItem) => mediaItem && setActiveMedia([mediaItem]),
+      );
+      return;
+    }
+
     if (item instanceof FolderModel) {
       navigateTo(item.id, item.name);
     } else {
@@ -180,10 +311,15 @@ export default function LibraryScreen() {
       }
 
       if (
-        item.category !== "image" &&
-        item.category !== "video" &&
-        item.category !== "audio"
+        BROWSABLE_ARCHIVE_EXTENSIONS.includes(item.extension) ||
+        parseArchiveVolumeName(item.name)
       ) {
+        void openArchive(item);
+        return;
+      }
+
+      const category = resolveMediaHostCategory(item);
+      if (!category) {
         void openExternal(uri, item.metadata.mimeType);
         return;
       }
@@ -206,13 +342,39 @@ export default function LibraryScreen() {
           mediaHeight: item.metadata.videoMetadata.height,
         }),
         displayName: item.name,
-        category: item.category,
+        category,
+        extension: item.extension,
+        isEditable: true,
       };
 
       setActiveMedia([mediaItem]);
     }
   };
 
+  const handleSuggestionPress = async (suggestion: SearchSuggestion) => {
+    switch (suggestion.type) {
+      case "tag":
+        router.push(
+          `/tags-content?tagId=${suggestion.value}&tagName=${suggestion.label}`,
+        );
+        break;
+      case "folder":
+        navigateTo(suggestion.value, suggestion.label);
+        break;
+      case "file":
+        if (!fileService) {
+          return;
+        }
+
+        try {
+          handleOpenItem(await fileService.getFile(suggestion.value));
+        } catch (error) {
+          console.error("[handleSuggestionPress] Error opening file:", error);
+        }
+        break;
+    }
+  };
+
   const validarComprimir = useCallback(
     (item: FileModel | FolderModel | null) => {
       if (!item) return false;
@@ -227,7 +389,11 @@ export default function LibraryScreen() {
         "gz",
       ];
 
-      return !archiveExtensions.includes(item.extension as ArchiveFormat);
+      // Las partes "fotos.zip.001" se descomprimen reuniendo todas.
+      return (
+        !archiveExtensions.includes(item.extension as ArchiveFormat) &&
+        !parseArchiveVolumeName(item.name)
+      );
     },
     [],
   );
@@ -290,7 +456,9 @@ export default function LibraryScreen() {
             setMenuPosition(position);
             setShowMenu(true);
           }}
-          onLongPress={() => handleEnterSelectionMode(item)}
+          onLongPress={() => {
+            !isArchiveFolder && handleEnterSelectionMode(item);
+          }}
         />
       </View>
     ),
@@ -299,6 +467,7 @@ export default function LibraryScreen() {
       handleEnterSelectionMode,
       handleOpenItem,
       handleRename,
+      isArchiveFolder,
       isRenaming,
       itemsSelected,
       selectedView,
@@ -309,6 +478,9 @@ export default function LibraryScreen() {
     ],
   );
 
+  const isSmartFolderItem = clickedItem instanceof SmartFolderModel;
+  const isArchiveEntryItem = isArchiveEntryModel(clickedItem);
+
   const menuOptions = useMemo(
     () => [
       {
@@ -331,10 +503,17 @@ export default function LibraryScreen() {
         hierarchy: "2",
         label: "Compartir con",
         onPress: () => {
+          if (clickedItem instanceof ArchiveFileEntryModel) {
+            void shareArchiveEntry(clickedItem);
+            return;
+          }
+
           clickedItem && handleShare(clickedItem);
         },
         disabled: false,
-        visible: true,
+        visible:
+          !isSmartFolderItem &&
+          (!isArchiveEntryItem || clickedItem instanceof ArchiveFileEntryModel),
         icon: (
           <MaterialCommunityIcons
             name="share"
@@ -350,7 +529,7 @@ export default function LibraryScreen() {
           clickedItem && handleMakeFavorite(clickedItem as FileModel);
         },
         disabled: false,
-        visible: clickedItem instanceof FileModel,
+        visible: clickedItem instanceof FileModel && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="star"
@@ -366,7 +545,7 @@ export default function LibraryScreen() {
           setIsRenaming(true);
         },
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="pencil"
@@ -375,6 +554,23 @@ export default function LibraryScreen() {
           />
         ),
       },
+      {
+        hierarchy: "4.1",
+        label: "Editar búsqueda",
+        onPress: () => {
+          clickedItem instanceof SmartFolderModel &&
+            setEditingSmartFolder(clickedItem);
+        },
+        disabled: false,
+        visible: isSmartFolderItem,
+        icon: (
+          <MaterialCommunityIcons
+            name="filter-cog"
+            size={20}
+            color={styles.iconColor.primaryColor}
+          />
+        ),
+      },
       {
         hierarchy: "5",
         label: "Copiar",
@@ -382,7 +578,7 @@ export default function LibraryScreen() {
           clickedItem && handleCopy([clickedItem]);
         },
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="content-copy"
@@ -398,7 +594,7 @@ export default function LibraryScreen() {
           clickedItem && handleCut([clickedItem]);
         },
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="content-cut"
@@ -414,7 +610,7 @@ export default function LibraryScreen() {
           handlePaste();
         },
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="content-paste"
@@ -428,7 +624,7 @@ export default function LibraryScreen() {
         label: validarComprimir(clickedItem) ? "Comprimir" : "Descomprimir",
         onPress: handleArchiveMenuAction,
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name={validarComprimir(clickedItem) ? "zip-box" : "folder-download"}
@@ -437,6 +633,24 @@ export default function LibraryScreen() {
           />
         ),
       },
+      {
+        hierarchy: "8.1",
+        label: "Extraer",
+        onPress: () => {
+          setShowMenu(false);
+          isArchiveEntryModel(clickedItem) &&
+            void extractArchiveEntry(clickedItem);
+        },
+        disabled: false,
+        visible: isArchiveEntryItem,
+        icon: (
+          <MaterialCommunityIcons
+            name="folder-download"
+            size={20}
+            color={styles.iconColor.primaryColor}
+          />
+        ),
+      },
       {
         hierarchy: "9",
         label: "Eliminar",
@@ -444,7 +658,7 @@ export default function LibraryScreen() {
           clickedItem && handleDeleteElements([clickedItem]);
         },
         disabled: false,
-        visible: true,
+        visible: !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="delete"
@@ -460,7 +674,7 @@ export default function LibraryScreen() {
           setShowItemPropertyMenu(true);
         },
         disabled: false,
-        visible: true,
+        visible: !isSmartFolderItem && !isArchiveEntryItem,
         icon: (
           <MaterialCommunityIcons
             name="information"
@@ -473,6 +687,8 @@ export default function LibraryScreen() {
     [
       clickedItem,
       handleArchiveMenuAction,
+      isArchiveEntryItem,
+      isSmartFolderItem,
       styles.iconColor.primaryColor,
       validarComprimir,
     ],
@@ -522,7 +738,9 @@ export default function LibraryScreen() {
             placeholder="Buscar en biblioteca..."
             iconSize={22}
             collapsible
+            onChangeText={setSearchText}
             onSearch={async (query) => {
+              addRecentSearch(query);
               const results = await handleSearch(query);
 
               return results.map((item) => ({
@@ -531,20 +749,34 @@ export default function LibraryScreen() {
                 type: item instanceof FolderModel ? "folder" : "file",
               }));
             }}
-            onClear={clearSearch}
+            onClear={() => {
+              void handleSearch("");
+            }}
             onExpandedChange={setIsSearchExpanded}
+            onFilterPress={() => setSearchFilterPanelVisible(true)}
+            activeFilterCount={activeFilterCount}
+            suggestions={suggestions}
+            recentSearches={recentSearches}
+            onSuggestionPress={(suggestion) => {
+              void handleSuggestionPress(suggestion);
+            }}
+            onRemoveRecentSearch={removeRecentSearch}
+            onClearRecentSearches={clearRecentSearches}
+            queryTokens={queryTokens}
           />
 
           {!isSearchExpanded && (
             <>
-              <MultiActionButton
-                icon={"add"}
-                backgroundColor="transparent"
-                iconColor={styles.iconColor.color}
-                size={42}
-                onPress={() => setCreatorVisible(true)}
-              />
-              {hasItems() === true && (
+              {!isSmartFolder && !isArchiveFolder && (
+                <MultiActionButton
+                  icon={"add"}
+                  backgroundColor="transparent"
+                  iconColor={styles.iconColor.color}
+                  size={42}
+                  onPress={() => setCreatorVisible(true)}
+                />
+              )}
+              {!isSmartFolder && !isArchiveFolder && hasItems() === true && (
                 <MultiActionButton
                   icon={"content-paste"}
                   backgroundColor="transparent"
@@ -573,7 +805,9 @@ export default function LibraryScreen() {
                 viewOptions={viewOptions}
                 onViewOptionsChange={handleViewOptionsChange}
               />
-              <OptionDropDown size={42} onSelect={handleSelectionOption} />
+              {!isArchiveFolder && (
+                <OptionDropDown size={42} onSelect={handleSelectionOption} />
+              )}
             </>
           )}
         </>
@@ -632,7 +866,40 @@ export default function LibraryScreen() {
           handleSaveFolder(data);
           setCreatorVisible(false);
         }}
+        onSaveSmartFolder={(data) => {
+          setCreatorVisible(false);
+          void handleSaveSmartFolder(data);
+        }}
+        currentFolderName={currentFolderName}
       />
+
+      <BottomSheet
+        visible={editingSmartFolder !== null}
+        onClose={() => setEditingSmartFolder(null)}
+        title="Editar carpeta inteligente"
+      >
+        <ScrollView
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+          contentContainerStyle={styles.smartFolderEditorContent}
+        >
+          {editingSmartFolder && (
+            <SmartFolderCreator
+              key={editingSmartFolder.id}
+              smartFolder={editingSmartFolder}
+              onSave={async (data) => {
+                const saved = await handleUpdateSmartFolder(
+                  editingSmartFolder.id,
+                  data,
+                );
+                if (saved) {
+                  setEditingSmartFolder(null);
+                }
+              }}
+            />
+          )}
+        </ScrollView>
+      </BottomSheet>
       {loading || isSearching ? (
         <View
           style={[styles.footerEmptyContainer, { justifyContent: "center" }]}
@@ -659,7 +926,11 @@ export default function LibraryScreen() {
             <Text style={styles.emptyFolderText}>
               {isSearchActive
                 ? "No se encontraron resultados"
-                : "La carpeta está vacía"}
+                : isSmartFolder
+                  ? "Ningún elemento coincide con esta carpeta inteligente"
+                  : isArchiveFolder
+                    ? "Esta carpeta del archivo comprimido está vacía"
+                    : "La carpeta está vacía"}
             </Text>
           </View>
           <TouchableOpacity
@@ -684,9 +955,27 @@ export default function LibraryScreen() {
           onScrollBeginDrag={handleListScrollBeginDrag}
           renderItem={renderLibraryItem}
           contentContainerStyle={styles.flatListContent}
+          onEndReached={isSearchActive ? loadMoreResults : undefined}
+          onEndReachedThreshold={0.5}
+          ListFooterComponent={
+            isLoadingMore ? (
+              <ActivityIndicator color={styles.iconColor.primaryColor} />
+            ) : null
+          }
         />
       )}
 
+      <SearchFilterPanel
+        visible={searchFilterPanelVisible}
+        onClose={() => setSearchFilterPanelVisible(false)}
+        filters={searchFilters}
+        onApply={(filters) => {
+          void applyFilters(filters);
+        }}
+        {...(!isSmartFolder &&
+          !isArchiveFolder && { currentFolderId, currentFolderName })}
+      />
+
       <ContextMenu
         options={menuOptions}
         visible={showMenu}
@@ -741,6 +1030,190 @@ export default function LibraryScreen() {
             />
             <Text style={styles.popupCheckboxLabel}>Extraer aquí</Text>
           </Pressable>
+        ) : (
+          <>
+            <Text style={styles.popupSectionLabel}>Formato:</Text>
+            <View style={styles.popupChipRow}>
+              {ARCHIVE_FORMAT_OPTIONS.map((option) => {
+                const isSelected = archiveDialog.format === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[
+                      styles.popupChip,
+                      isSelected && styles.popupChipSelected,
+                    ]}
+                    onPress={() => changeFormat(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.popupChipText,
+                        isSelected && styles.popupChipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+            <Text style={styles.popupSectionLabel}>Dividir en partes:</Text>
+            <View style={styles.popupChipRow}>
+              {ARCHIVE_VOLUME_SIZE_OPTIONS.map((option) => {
+                const isSelected = archiveDialog.volumeSize === option.value;
+                return (
+                  <Pressable
+                    key={option.label}
+                    style={[
+                      styles.popupChip,
+                      isSelected && styles.popupChipSelected,
+                    ]}
+                    onPress={() => setVolumeSize(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.popupChipText,
+                        isSelected && styles.popupChipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        {archiveDialog.action === "compress" &&
+        archiveDialog.format === "zip" ? (
+          <Pressable
+            style={styles.popupCheckboxRow}
+            onPress={toggleProtectWithPassword}
+          >
+            <MaterialCommunityIcons
+              name={
+                archiveDialog.protectWithPassword
+                  ? "checkbox-marked-outline"
+                  : "checkbox-blank-outline"
+              }
+              size={22}
+              color={styles.iconColor.primaryColor}
+            />
+            <Text style={styles.popupCheckboxLabel}>
+              Proteger con contraseña
+            </Text>
+          </Pressable>
+        ) : null}
+
+        {archiveDialog.action === "extract" &&
+        archiveDialog.passwordRequired ? (
+          <Text style={styles.popupMessage}>
+            El archivo está protegido. Introduce la contraseña para extraerlo.
+          </Text>
+        ) : null}
+
+        {(archiveDialog.action === "compress" &&
+          archiveDialog.protectWithPassword) ||
+        (archiveDialog.action === "extract" &&
+          archiveDialog.passwordRequired) ? (
+          <>
+            <TextInput
+              style={[
+                styles.popupPasswordInput,
+                archiveDialog.passwordError
+                  ? styles.popupPasswordInputError
+                  : null,
+              ]}
+              value={archiveDialog.password}
+              onChangeText={changePassword}
+              placeholder="Contraseña"
+              placeholderTextColor={styles.iconColor.mutedColor}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              autoFocus
+            />
+            {archiveDialog.passwordError ? (
+              <Text style={styles.popupErrorText}>
+                {archiveDialog.passwordError}
+              </Text>
+            ) : null}
+          </>
+        ) : null}
+
+        {archiveDialog.action === "extract" ? (
+          <>
+            <Text style={styles.popupSectionLabel}>Si ya existe:</Text>
+            <View style={styles.popupChipRow}>
+              {ARCHIVE_OVERWRITE_OPTIONS.map((option) => {
+                const isSelected = archiveDialog.overwriteMode === option.value;
+                return (
+                  <Pressable
+                    key={option.value}
+                    style={[
+                      styles.popupChip,
+                      isSelected && styles.popupChipSelected,
+                    ]}
+                    onPress={() => setOverwriteMode(option.value)}
+                  >
+                    <Text
+                      style={[
+                        styles.popupChipText,
+                        isSelected && styles.popupChipTextSelected,
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </>
+        ) : null}
+
+        {archiveDialog.action === "extract" ? (
+          <Pressable
+            style={styles.popupCheckboxRow}
+            onPress={() => {
+              void openEntryPicker();
+            }}
+          >
+            <MaterialCommunityIcons
+              name="file-tree-outline"
+              size={22}
+              color={styles.iconColor.primaryColor}
+            />
+            <Text style={styles.popupCheckboxLabel}>Elegir qué extraer…</Text>
+          </Pressable>
+        ) : null}
+
+        {archiveDialog.action === "compress" &&
+        archiveDialog.protectWithPassword ? (
+          <View style={styles.popupChipRow}>
+            {ARCHIVE_ENCRYPTION_OPTIONS.map((option) => {
+              const isSelected = archiveDialog.encryption === option.value;
+              return (
+                <Pressable
+                  key={option.value}
+                  style={[
+                    styles.popupChip,
+                    isSelected && styles.popupChipSelected,
+                  ]}
+                  onPress={() => setEncryption(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.popupChipText,
+                      isSelected && styles.popupChipTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
         ) : null}
 
         <View style={styles.popupFooterButtons}>
@@ -761,6 +1234,16 @@ export default function LibraryScreen() {
         </View>
       </CustomPopup>
 
+      <ArchiveEntryPicker
+        visible={entryPicker.isVisible}
+        archiveName={entryPicker.archiveName}
+        entries={entryPicker.entries}
+        onCancel={closeEntryPicker}
+        onConfirm={(selectedPaths) => {
+          void confirmEntrySelection(selectedPaths);
+        }}
+      />
+
       <MediaImportProgressOverlay
         visible={archiveLoading.isVisible}
         title={archiveLoading.title}
@@ -769,19 +1252,130 @@ export default function LibraryScreen() {
           total: Math.max(archiveLoading.progress?.totalEntries ?? 0, 1),
           currentFileName:
             archiveLoading.progress?.currentEntryName ?? archiveLoading.message,
+          ...(archiveLoading.progress?.totalBytes
+            ? {
+                completedBytes: archiveLoading.progress.processedBytes ?? 0,
+                totalBytes: archiveLoading.progress.totalBytes,
+              }
+            : {}),
         }}
         showProgress={archiveLoading.showProgress}
       />
 
       <CustomPopup
-        title="Pegando"
-        isVisible={isPasting}
+        title="Conflicto al extraer"
+        isVisible={conflictPrompt.isVisible}
+        onDismiss={() => resolveConflict("skip")}
+        dismissOnBackdropPress={false}
+      >
+        <Text style={styles.popupMessage}>
+          {conflictPrompt.conflict?.existingType === "directory"
+            ? `Ya existe una carpeta llamada ${conflictPrompt.conflict.name}. El archivo del ZIP solo puede extraerse con otro nombre u omitirse.`
+            : `Ya existe un archivo llamado ${conflictPrompt.conflict?.name ?? ""}. Si lo sobrescribes, el actual se enviará a la papelera.`}
+        </Text>
+
+        <Pressable
+          style={styles.popupCheckboxRow}
+          onPress={toggleApplyToAllConflicts}
+        >
+          <MaterialCommunityIcons
+            name={
+              conflictPrompt.applyToAll
+                ? "checkbox-marked-outline"
+                : "checkbox-blank-outline"
+            }
+            size={22}
+            color={styles.iconColor.primaryColor}
+          />
+          <Text style={styles.popupCheckboxLabel}>
+            Aplicar a todos los conflictos
+          </Text>
+        </Pressable>
+
+        <View style={styles.popupFooterButtons}>
+          <TouchableOpacity
+            style={styles.popupCancelButton}
+            onPress={() => resolveConflict("skip")}
+          >
+            <Text style={styles.popupCancelButtonText}>Omitir</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.popupCancelButton}
+            onPress={() => resolveConflict("rename")}
+          >
+            <Text style={styles.popupCancelButtonText}>Renombrar</Text>
+          </TouchableOpacity>
+          {conflictPrompt.conflict?.existingType === "file" ? (
+            <TouchableOpacity
+              style={styles.popupConfirmButton}
+              onPress={() => resolveConflict("overwrite")}
+            >
+              <Text style={styles.popupConfirmButtonText}>Sobrescribir</Text>
+            </TouchableOpacity>
+          ) : null}
+        </View>
+      </CustomPopup>
+
+      <CustomPopup
+        title="Archivo protegido"
+        isVisible={archivePasswordPrompt.isVisible}
+        onDismiss={closeArchivePasswordPrompt}
+      >
+        <Text style={styles.popupMessage}>
+          {`${archivePasswordPrompt.archiveName} está protegido. Introduce la contraseña para ver su contenido.`}
+        </Text>
+        <TextInput
+          style={[
+            styles.popupPasswordInput,
+            archivePasswordPrompt.error ? styles.popupPasswordInputError : null,
+          ]}
+          value={archivePasswordPrompt.password}
+          onChangeText={changeArchivePassword}
+          placeholder="Contraseña"
+          placeholderTextColor={styles.iconColor.mutedColor}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          autoFocus
+        />
+        {archivePasswordPrompt.error ? (
+          <Text style={styles.popupErrorText}>
+            {archivePasswordPrompt.error}
+          </Text>
+        ) : null}
+
+        <View style={styles.popupFooterButtons}>
+          <TouchableOpacity
+            style={styles.popupCancelButton}
+            onPress={closeArchivePasswordPrompt}
+          >
+            <Text style={styles.popupCancelButtonText}>Cancelar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.popupConfirmButton}
+            onPress={() => {
+              void submitArchivePassword();
+            }}
+          >
+            <Text style={styles.popupConfirmButtonText}>Abrir</Text>
+          </TouchableOpacity>
+        </View>
+      </CustomPopup>
+
+      <CustomPopup
+        title="Abriendo"
+        isVisible={isPreparingEntry}
         onDismiss={() => undefined}
         dismissOnBackdropPress={false}
       >
         <View style={{ alignItems: "center", gap: 12, paddingVertical: 8 }}>
-          <ActivityIndicator size="large" color={styles.iconColor.primaryColor} />
-          <Text style={styles.popupMessage}>Copiando el elemento…</Text>
+          <ActivityIndicator
+            size="large"
+            color={styles.iconColor.primaryColor}
+          />
+          <Text style={styles.popupMessage}>
+            Extrayendo el archivo del comprimido…
+          </Text>
         </View>
       </CustomPopup>
 
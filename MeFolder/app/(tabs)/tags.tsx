@@ -10,7 +10,6 @@ import {
   AlbumCard,
   AlbumEmptyState,
   FavoriteTagChip,
-  MediaImportProgressOverlay,
 } from "@/components";
 import { useTagsStyles } from "@/screenStyles/tagsStyle";
 import { useAlbumDailyCovers } from "@/hooks/tags/useAlbumDailyCovers";
@@ -25,8 +24,7 @@ export default function TagsScreen() {
   const [showTagCreator, setShowTagCreator] = useState(false);
   const { items, albums } = useTagsContent();
   const { albumDailyCovers } = useAlbumDailyCovers(albums);
-  const { handleImportZipAlbum, handleSaveTag, zipImportProgress } =
-    useTagsActions();
+  const { handleImportZipAlbum, handleSaveTag } = useTagsActions();
   const { showAlert } = useAlert();
   const styles = useTagsStyles();
   const { isLocked: isNavigationLocked, run: runSingleNavigation } =
@@ -211,10 +209,7 @@ export default function TagsScreen() {
           visible={showTagCreator}
           onClose={() => setShowTagCreator(false)}
           onImportZipAlbum={async () => {
-            const result = await handleImportZipAlbum();
-            if (result) {
-              setShowTagCreator(false);
-            }
+            await handleImportZipAlbum(() => setShowTagCreator(false));
           }}
           onSave={async (data) => {
             const result = await handleSaveTag(data);
@@ -224,17 +219,6 @@ export default function TagsScreen() {
           }}
         />
       )}
-
-      <MediaImportProgressOverlay
-        visible={zipImportProgress !== null}
-        title="Importando Álbum"
-        progress={
-          zipImportProgress ?? {
-            completed: 0,
-            total: 1,
-          }
-        }
-      />
     </View>
   );
 }
@@ -7,6 +7,7 @@ import {
   ContextMenu,
   MediaHost,
   PropertyMenu,
+  resolveMediaHostCategory,
 } from "@/components";
 import { FileModel, FolderModel } from "@/models";
 import {
@@ -119,11 +120,8 @@ export default function TrashScreen() {
         return;
       }
 
-      if (
-        item.category !== "image" &&
-        item.category !== "video" &&
-        item.category !== "audio"
-      ) {
+      const category = resolveMediaHostCategory(item);
+      if (!category) {
         void openExternal(uri, item.metadata.mimeType);
         return;
       }
@@ -146,7 +144,8 @@ export default function TrashScreen() {
           mediaHeight: item.metadata.videoMetadata.height,
         }),
         displayName: item.name,
-        category: item.category,
+        category,
+        extension: item.extension,
       };
 
       setActiveMedia([mediaItem]);
@@ -16,6 +16,7 @@ import {
   useColorScheme,
 } from "react-native";
 import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { JobsIndicator } from "@/components/JobsIndicator";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { MaterialCommunityIcons, Ionicons } from "@expo/vector-icons";
 import SplashLogo from "@/components/svgIcons/splashLogo";
@@ -90,6 +91,7 @@ export default function RootLayout() {
                     headerShown: false,
                   }}
                 />
+                <JobsIndicator />
               </AlertProvider>
             </KeyboardProvider>
           </AppBootstrap>
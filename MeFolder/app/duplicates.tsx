@@ -0,0 +1,443 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, FlatList, Text, View } from "react-native";
+import { router } from "expo-router";
+import { Image } from "expo-image";
+import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MultiActionButton } from "@/components";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { useStyles } from "@/hooks";
+import { useAlert, useServices } from "@/providers";
+import { formatDate, formatFileSize } from "@/utils/format";
+import { getIconByCategory } from "@/utils";
+import type {
+  DuplicateGroup,
+  DuplicateScanProgress,
+} from "@/services/DuplicateService";
+import type { UUID } from "@/types/common/base";
+
+const ROOT_LOCATION_LABEL = "Biblioteca";
+
+export default function DuplicatesScreen() {
+  const insets = useSafeAreaInsets();
+  const styles = useDuplicatesStyles();
+  const { services } = useServices();
+  const { showAlert } = useAlert();
+
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [keptFileIds, setKeptFileIds] = useState<Record<string, UUID>>({});
+  const [isScanning, setIsScanning] = useState(true);
+  const [progress, setProgress] = useState<DuplicateScanProgress | null>(null);
+  const [resolvingChecksum, setResolvingChecksum] = useState<string | null>(
+    null,
+  );
+
+  const scanDuplicates = useCallback(async () => {
+    setIsScanning(true);
+    setProgress(null);
+
+    try {
+      const result =
+        await services.duplicateService.findDuplicateGroups(setProgress);
+      setGroups(result);
+      // Por defecto se conserva la copia más antigua
+      setKeptFileIds(
+        Object.fromEntries(
+          result.map((group) => [group.checksum, group.copies[0]!.file.id]),
+        ),
+      );
+    } catch (error) {
+      showAlert({
+        title: "Error al buscar duplicados",
+        message:
+          error instanceof Error
+            ? error.message
+            : "No se pudieron analizar los archivos.",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  }, [services.duplicateService, showAlert]);
+
+  useEffect(() => {
+    void scanDuplicates();
+  }, [scanDuplicates]);
+
+  const resolveGroup = useCallback(
+    async (group: DuplicateGroup) => {
+      const keepFileId = keptFileIds[group.checksum];
+      if (!keepFileId) return;
+
+      const duplicateFileIds = group.copies
+        .map((copy) => copy.file.id)
+        .filter((fileId) => fileId !== keepFileId);
+
+      try {
+        setResolvingChecksum(group.checksum);
+        await services.duplicateService.resolveDuplicates(
+          keepFileId,
+          duplicateFileIds,
+        );
+        setGroups((current) =>
+          current.filter((item) => item.checksum !== group.checksum),
+        );
+      } catch (error) {
+        showAlert({
+          title: "Error al eliminar duplicados",
+          message:
+            error instanceof Error
+              ? error.message
+              : "No se pudieron mover las copias a la papelera.",
+        });
+      } finally {
+        setResolvingChecksum(null);
+      }
+    },
+    [keptFileIds, services.duplicateService, showAlert],
+  );
+
+  const confirmResolveGroup = useCallback(
+    (group: DuplicateGroup) => {
+      const removedCount = group.copies.length - 1;
+
+      showAlert({
+        title: "Eliminar duplicados",
+        message: `Se conservará la copia seleccionada con las etiquetas de todas las copias y ${removedCount === 1 ? "la otra se moverá" : `las otras ${removedCount} se moverán`} a la papelera.`,
+        buttons: [
+          { text: "Cancelar", style: "cancel" },
+          {
+            text: "Mover a la papelera",
+            style: "destructive",
+            onPress: () => {
+              void resolveGroup(group);
+            },
+          },
+        ],
+      });
+    },
+    [resolveGroup, showAlert],
+  );
+
+  const renderGroup = useCallback(
+    ({ item: group }: { item: DuplicateGroup }) => {
+      const keepFileId = keptFileIds[group.checksum];
+      const isResolving = resolvingChecksum === group.checksum;
+
+      return (
+        <View style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>
+              {`${group.copies.length} copias · ${formatFileSize(group.size)}`}
+            </Text>
+            <Text style={styles.groupSubtitle}>
+              {`Libera ${formatFileSize(group.wastedBytes)}`}
+            </Text>
+          </View>
+
+          {group.copies.map(({ file, folderPath }) => {
+            const isKept = file.id === keepFileId;
+
+            return (
+              <TouchableOpacity
+                key={file.id}
+                style={[styles.copyRow, isKept && styles.copyRowSelected]}
+                onPress={() =>
+                  setKeptFileIds((current) => ({
+                    ...current,
+                    [group.checksum]: file.id,
+                  }))
+                }
+                disabled={isResolving}
+              >
+                <View style={styles.thumbnail}>
+                  {file.thumbnailUrl ? (
+                    <Image
+                      source={{ uri: file.thumbnailUrl }}
+                      style={styles.thumbnailImage}
+                      contentFit="cover"
+                    />
+                  ) : (
+                    <Ionicons
+                      name={getIconByCategory(file.category)}
+                      size={24}
+                      color={styles.iconColor.color}
+                    />
+                  )}
+                </View>
+
+                <View style={styles.copyTextGroup}>
+                  <Text style={styles.copyName} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  <Text style={styles.copyLocation} numberOfLines={2}>
+                    {[ROOT_LOCATION_LABEL, ...folderPath].join(" / ")}
+                  </Text>
+                  <Text style={styles.copyDate}>
+                    {`Añadido el ${formatDate(file.createdAt)}`}
+                  </Text>
+                </View>
+
+                <MaterialCommunityIcons
+                  name={isKept ? "radiobox-marked" : "radiobox-blank"}
+                  size={22}
+                  color={
+                    isKept ? styles.primaryColor.color : styles.iconColor.color
+                  }
+                />
+              </TouchableOpacity>
+            );
+          })}
+
+          <TouchableOpacity
+            style={[
+              styles.resolveButton,
+              isResolving && styles.resolveButtonDisabled,
+            ]}
+            onPress={() => confirmResolveGroup(group)}
+            disabled={isResolving || resolvingChecksum !== null}
+          >
+            {isResolving ? (
+              <ActivityIndicator size="small" color={styles.errorColor.color} />
+            ) : (
+              <Text style={styles.resolveButtonText}>
+                {`Conservar la seleccionada y eliminar ${group.copies.length - 1}`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [confirmResolveGroup, keptFileIds, resolvingChecksum, styles],
+  );
+
+  const renderContent = () => {
+    if (isScanning) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator size="large" color={styles.primaryColor.color} />
+          <Text style={styles.helperText}>
+            {progress && progress.total > 0
+              ? `Calculando huellas de archivos (${progress.processed} de ${progress.total})…`
+              : "Buscando archivos duplicados…"}
+          </Text>
+        </View>
+      );
+    }
+
+    if (groups.length === 0) {
+      return (
+        <View style={styles.centerState}>
+          <MaterialCommunityIcons
+            name="check-circle-outline"
+            size={48}
+            color={styles.primaryColor.color}
+          />
+          <Text style={styles.helperText}>
+            No se han encontrado archivos duplicados.
+          </Text>
+        </View>
+      );
+    }
+
+    const totalWasted = groups.reduce(
+      (total, group) => total + group.wastedBytes,
+      0,
+    );
+
+    return (
+      <FlatList
+        data={groups}
+        keyExtractor={(group) => group.checksum}
+        renderItem={renderGroup}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingBottom: insets.bottom + styles.listContent.paddingBottom },
+        ]}
+        ListHeaderComponent={
+          <Text style={styles.summaryText}>
+            {`${groups.length} ${groups.length === 1 ? "grupo" : "grupos"} de duplicados · ${formatFileSize(totalWasted)} recuperables. Toca la copia que quieres conservar.`}
+          </Text>
+        }
+      />
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <MultiActionButton
+          icon="chevron-back"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => router.back()}
+        />
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle}>Archivos duplicados</Text>
+        </View>
+        <MultiActionButton
+          icon="refresh"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => {
+            void scanDuplicates();
+          }}
+          disabled={isScanning || resolvingChecksum !== null}
+        />
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+}
+
+const useDuplicatesStyles = () => {
+  return useStyles((theme) => ({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    headerTitleWrapper: {
+      flex: 1,
+      alignItems: "center",
+    },
+    headerTitle: {
+      fontSize: 22,
+      fontFamily: theme.typography.fontFamily.title.semiBold,
+      color: theme.colors.textPrimary,
+      textAlign: "center",
+    },
+    listContent: {
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.sm,
+      paddingBottom: theme.spacing.xl,
+      gap: theme.spacing.md,
+    },
+    summaryText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.sm,
+    },
+    groupCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.effects.radius.lg,
+      padding: theme.spacing.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      gap: theme.spacing.sm,
+    },
+    groupHeader: {
+      flexDirection: "row",
+      alignItems: "baseline",
+      justifyContent: "space-between",
+      gap: theme.spacing.sm,
+    },
+    groupTitle: {
+      fontSize: 16,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    groupSubtitle: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    copyRow: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.md,
+      padding: theme.spacing.sm,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.background,
+    },
+    copyRowSelected: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primarySoft,
+    },
+    thumbnail: {
+      width: 48,
+      height: 48,
+      borderRadius: theme.effects.radius.md,
+      overflow: "hidden",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: theme.colors.surface,
+    },
+    thumbnailImage: {
+      width: "100%",
+      height: "100%",
+    },
+    copyTextGroup: {
+      flex: 1,
+      gap: 2,
+    },
+    copyName: {
+      fontSize: 15,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    copyLocation: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+    },
+    copyDate: {
+      fontSize: 12,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textMuted,
+    },
+    resolveButton: {
+      alignItems: "center",
+      justifyContent: "center",
+      minHeight: 44,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.error,
+      backgroundColor: theme.colors.errorSoft,
+    },
+    resolveButtonDisabled: {
+      opacity: 0.65,
+    },
+    resolveButtonText: {
+      fontSize: 14,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.error,
+      textAlign: "center",
+    },
+    centerState: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      paddingHorizontal: theme.spacing.xl,
+      gap: theme.spacing.sm,
+    },
+    helperText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      textAlign: "center",
+    },
+    iconColor: {
+      color: theme.colors.textPrimary,
+    },
+    primaryColor: {
+      color: theme.colors.primary,
+    },
+    errorColor: {
+      color: theme.colors.error,
+    },
+  }));
+};
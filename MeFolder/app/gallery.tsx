@@ -6,6 +6,7 @@ import {
   usePressScaleAnimation,
   useAlert,
   useServices,
+  useTagsActions,
 } from "@/hooks";
 import {
   CustomPopup,
@@ -42,6 +43,7 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
 import { formatVideoDuration } from "@/utils/format/date";
 import { cardShadow } from "@/constants/styles/shadows";
+import { ARCHIVE_VOLUME_SIZE_OPTIONS } from "@/constants/archive";
 import {
   GestureDetector,
   GestureHandlerRootView,
@@ -65,6 +67,11 @@ const galleryOptions: OptionsType[] = [
     name: "Exportar álbum",
     icon: "share-outline",
   },
+  {
+    id: OptionsIds.IMPORT_INTO_ALBUM,
+    name: "Importar ZIP al álbum",
+    icon: "download-outline",
+  },
   {
     id: OptionsIds.DELETE_ALBUM,
     name: "Eliminar álbum",
@@ -203,9 +210,11 @@ export default function GalleryScreen() {
 
   const { width: screenWidth } = useWindowDimensions();
 
-  const { items, loadMore, isLoading, isLoadingMore } = useGalleryContent({
-    tagId: tagId as string,
-  });
+  const { items, loadMore, refresh, isLoading, isLoadingMore } =
+    useGalleryContent({
+      tagId: tagId as string,
+    });
+  const { handleMergeZipIntoAlbum } = useTagsActions();
   const {
     itemsSelected,
     selectionMode,
@@ -232,11 +241,8 @@ export default function GalleryScreen() {
   });
   const [isDeleteLoading, setIsDeleteLoading] = useState(false);
   const [isArchiveLoading, setIsArchiveLoading] = useState(false);
-  const [archiveLoadingTitle, setArchiveLoadingTitle] =
-    useState("Exportando álbum");
-  const [archiveLoadingText, setArchiveLoadingText] = useState(
-    "Preparando el ZIP del álbum...",
-  );
+  const [exportDialogVisible, setExportDialogVisible] = useState(false);
+  const [exportVolumeSize, setExportVolumeSize] = useState<number | null>(null);
 
   const mediaItems = useMemo<MediaHostItem[]>(
     () =>
@@ -439,62 +445,93 @@ export default function GalleryScreen() {
     tagId,
   ]);
 
-  const handleExportAlbum = useCallback(async () => {
-    if (!(await Sharing.isAvailableAsync())) {
-      showAlert({
-        title: "Compartir no disponible",
-        message:
-          "La función de compartir no está disponible en este dispositivo.",
-      });
-      return;
-    }
-
-    let temporaryArchiveId: string | null = null;
-
-    try {
-      setArchiveLoadingTitle("Exportando álbum");
-      setArchiveLoadingText("Preparando el ZIP del álbum...");
-      setIsArchiveLoading(true);
-
-      const exportResult = await services.albumArchiveService.exportAlbum({
-        albumId: tagId as string,
-      });
-
-      if (!exportResult.success || !exportResult.data) {
-        throw new Error(
-          exportResult.error?.message ?? "No se pudo exportar el álbum.",
-        );
+  const handleExportAlbum = useCallback(
+    async (volumeSize: number | null) => {
+      if (!(await Sharing.isAvailableAsync())) {
+        showAlert({
+          title: "Compartir no disponible",
+          message:
+            "La función de compartir no está disponible en este dispositivo.",
+        });
+        return;
       }
 
-      temporaryArchiveId = exportResult.data.archiveFile.id;
+      let temporaryArchiveIds: string[] = [];
 
-      await Sharing.shareAsync(exportResult.data.archiveUri, {
-        mimeType: "application/zip",
-        dialogTitle: `Exportar ${exportResult.data.albumName}`,
-      });
-    } catch (error) {
-      showAlert({
-        title: "Error al exportar",
-        message:
-          error instanceof Error
-            ? error.message
-            : "No se pudo exportar el álbum.",
-      });
-    } finally {
-      setIsArchiveLoading(false);
+      try {
+        const { completion } = await services.jobService.enqueue(
+          "album_export",
+          `Exportando el álbum ${(albumName as string) ?? ""}`.trim(),
+          {
+            albumId: tagId as string,
+            ...(volumeSize ? { volumeSize } : {}),
+          },
+        );
+        const exportResult = await completion;
 
-      if (temporaryArchiveId) {
-        try {
-          await services.fileService.permanentDeleteFile(temporaryArchiveId);
-        } catch (cleanupError) {
-          console.warn(
-            "No se pudo limpiar el ZIP temporal del álbum:",
-            cleanupError,
+        if (exportResult.error?.code === "cancelled") return;
+        if (!exportResult.success || !exportResult.data) {
+          throw new Error(
+            exportResult.error?.message ?? "No se pudo exportar el álbum.",
           );
         }
+
+        const {
+          archiveFile,
+          archiveUri,
+          albumName: exportedName,
+        } = exportResult.data;
+        const volumes = exportResult.data.volumes ?? [archiveFile];
+        const volumeUris = exportResult.data.volumeUris ?? [archiveUri];
+        temporaryArchiveIds = volumes.map((volume) => volume.id);
+
+        // Cada parte se comparte por separado: las apps de mensajería
+        // rechazan los adjuntos que superan su límite aunque vayan juntos.
+        for (const [index, uri] of volumeUris.entries()) {
+          await Sharing.shareAsync(uri, {
+            mimeType:
+              volumeUris.length > 1
+                ? "application/octet-stream"
+                : "application/zip",
+            dialogTitle:
+              volumeUris.length > 1
+                ? `Exportar ${exportedName} (parte ${index + 1} de ${volumeUris.length})`
+                : `Exportar ${exportedName}`,
+          });
+        }
+      } catch (error) {
+        showAlert({
+          title: "Error al exportar",
+          message:
+            error instanceof Error
+              ? error.message
+              : "No se pudo exportar el álbum.",
+        });
+      } finally {
+        for (const fileId of temporaryArchiveIds) {
+          try {
+            await services.fileService.permanentDeleteFile(fileId);
+          } catch (cleanupError) {
+            console.warn(
+              "No se pudo limpiar el ZIP temporal del álbum:",
+              cleanupError,
+            );
+          }
+        }
       }
-    }
-  }, [services, showAlert, tagId]);
+    },
+    [albumName, services, showAlert, tagId],
+  );
+
+  const openExportDialog = useCallback(() => {
+    setExportVolumeSize(null);
+    setExportDialogVisible(true);
+  }, []);
+
+  const confirmExportAlbum = useCallback(() => {
+    setExportDialogVisible(false);
+    void handleExportAlbum(exportVolumeSize);
+  }, [exportVolumeSize, handleExportAlbum]);
 
   const handleDeleteAlbum = useCallback(() => {
     if (!tagId) {
@@ -593,8 +630,6 @@ export default function GalleryScreen() {
     let temporaryArchiveId: string | null = null;
 
     try {
-      setArchiveLoadingTitle("Compartiendo selección");
-      setArchiveLoadingText("Preparando el ZIP de la selección...");
       setIsArchiveLoading(true);
 
       const archiveResult =
@@ -643,8 +678,6 @@ export default function GalleryScreen() {
       });
     } finally {
       setIsArchiveLoading(false);
-      setArchiveLoadingTitle("Exportando álbum");
-      setArchiveLoadingText("Preparando el ZIP del álbum...");
 
       if (temporaryArchiveId) {
         try {
@@ -668,7 +701,17 @@ export default function GalleryScreen() {
   const handleGalleryOptionSelect = useCallback(
     (option: OptionsType) => {
       if (option.id === OptionsIds.EXPORT_ALBUM) {
-        void handleExportAlbum();
+        openExportDialog();
+        return;
+      }
+
+      if (option.id === OptionsIds.IMPORT_INTO_ALBUM) {
+        void handleMergeZipIntoAlbum(
+          tagId as string,
+          (albumName as string) ?? "",
+        ).then((summary) => {
+          if (summary && summary.importedFileCount > 0) refresh();
+        });
         return;
       }
 
@@ -679,7 +722,15 @@ export default function GalleryScreen() {
 
       handleOnSelectOption(option);
     },
-    [handleDeleteAlbum, handleExportAlbum, handleOnSelectOption],
+    [
+      albumName,
+      handleDeleteAlbum,
+      handleMergeZipIntoAlbum,
+      handleOnSelectOption,
+      openExportDialog,
+      refresh,
+      tagId,
+    ],
   );
 
   const selectionActionBarOffset = insets.bottom + 12;
@@ -891,6 +942,58 @@ export default function GalleryScreen() {
           </View>
         </CustomPopup>
 
+        <CustomPopup
+          title="Exportar álbum"
+          isVisible={exportDialogVisible}
+          onDismiss={() => setExportDialogVisible(false)}
+        >
+          <Text style={styles.popupMessage}>
+            Si el ZIP va a superar el límite de la app con la que lo compartes,
+            divídelo en partes. Para abrirlo hacen falta todas.
+          </Text>
+
+          <Text style={styles.popupSectionLabel}>Dividir en partes:</Text>
+          <View style={styles.popupChipRow}>
+            {ARCHIVE_VOLUME_SIZE_OPTIONS.map((option) => {
+              const isSelected = exportVolumeSize === option.value;
+              return (
+                <Pressable
+                  key={option.label}
+                  style={[
+                    styles.popupChip,
+                    isSelected && styles.popupChipSelected,
+                  ]}
+                  onPress={() => setExportVolumeSize(option.value)}
+                >
+                  <Text
+                    style={[
+                      styles.popupChipText,
+                      isSelected && styles.popupChipTextSelected,
+                    ]}
+                  >
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+          </View>
+
+          <View style={styles.popupFooterButtons}>
+            <TouchableOpacity
+              style={styles.popupCancelButton}
+              onPress={() => setExportDialogVisible(false)}
+            >
+              <Text style={styles.popupCancelButtonText}>Cancelar</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.popupPrimaryButton}
+              onPress={confirmExportAlbum}
+            >
+              <Text style={styles.popupConfirmButtonText}>Exportar</Text>
+            </TouchableOpacity>
+          </View>
+        </CustomPopup>
+
         <CustomPopup
           title="Borrando"
           isVisible={isDeleteLoading}
@@ -910,11 +1013,11 @@ export default function GalleryScreen() {
 
         <MediaImportProgressOverlay
           visible={isArchiveLoading}
-          title={archiveLoadingTitle}
+          title="Compartiendo selección"
           progress={{
             completed: 0,
             total: 1,
-            currentFileName: archiveLoadingText,
+            currentFileName: "Preparando el ZIP de la selección...",
           }}
           showProgress={false}
         />
@@ -1096,6 +1199,37 @@ const useGalleryStyles = () => {
     popupCheckboxRowDisabled: {
       opacity: 0.6,
     },
+    popupSectionLabel: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      marginTop: theme.spacing.sm,
+    },
+    popupChipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.sm,
+    },
+    popupChip: {
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.borderSoft,
+    },
+    popupChipSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    popupChipText: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+    },
+    popupChipTextSelected: {
+      color: theme.colors.textOnColor,
+    },
     popupCheckboxLabel: {
       fontFamily: theme.typography.fontFamily.primary.medium,
       fontSize: 14,
@@ -1125,6 +1259,12 @@ const useGalleryStyles = () => {
     popupConfirmButtonDisabled: {
       opacity: 0.5,
     },
+    popupPrimaryButton: {
+      backgroundColor: theme.colors.primary,
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+    },
     popupConfirmButtonText: {
       fontFamily: theme.typography.fontFamily.primary.semiBold,
       color: theme.colors.textOnColor,
@@ -0,0 +1,327 @@
+import React, { useCallback } from "react";
+import { FlatList, Text, View } from "react-native";
+import { router } from "expo-router";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MultiActionButton } from "@/components";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { useStyles } from "@/hooks";
+import {
+  getJobProgressRatio,
+  isJobActive,
+  JOB_STATUS_LABELS,
+  useJobs,
+} from "@/hooks/jobs";
+import type { Job, JobType } from "@/types/entities/job";
+import { formatDate, formatFileSize } from "@/utils/format";
+
+const JOB_TYPE_ICONS: Record<
+  JobType,
+  keyof typeof MaterialCommunityIcons.glyphMap
+> = {
+  compress: "folder-zip-outline",
+  extract: "package-variant",
+  album_import: "import",
+  album_export: "export-variant",
+  media_import: "image-plus",
+  paste: "content-paste",
+};
+
+const formatJobTime = (date: Date) =>
+  `${formatDate(date)} ${date.toLocaleTimeString("es-ES", {
+    hour: "2-digit",
+    minute: "2-digit",
+  })}`;
+
+/**
+ * Panel de la cola de tareas: progreso de la tarea en curso, cancelación,
+ * reintento de las que fallaron o quedaron interrumpidas e historial.
+ */
+export default function JobsScreen() {
+  const insets = useSafeAreaInsets();
+  const styles = useJobsStyles();
+  const { jobs, cancelJob, retryJob, clearFinishedJobs } = useJobs();
+
+  const hasFinishedJobs = jobs.some((job) => !isJobActive(job));
+
+  const renderJob = useCallback(
+    ({ item: job }: { item: Job }) => {
+      const ratio = getJobProgressRatio(job.progress);
+      const isActive = isJobActive(job);
+      const canRetry =
+        job.status === "failed" ||
+        job.status === "cancelled" ||
+        job.status === "interrupted";
+      const statusStyle =
+        job.status === "failed" || job.status === "interrupted"
+          ? styles.statusError
+          : job.status === "completed"
+            ? styles.statusSuccess
+            : styles.statusNeutral;
+
+      return (
+        <View style={styles.jobCard}>
+          <View style={styles.jobHeader}>
+            <MaterialCommunityIcons
+              name={JOB_TYPE_ICONS[job.type]}
+              size={22}
+              color={styles.iconColor.color}
+            />
+            <View style={styles.jobTextGroup}>
+              <Text style={styles.jobTitle} numberOfLines={2}>
+                {job.title}
+              </Text>
+              <Text style={styles.jobDate}>{formatJobTime(job.createdAt)}</Text>
+            </View>
+            <Text style={[styles.statusLabel, statusStyle]}>
+              {JOB_STATUS_LABELS[job.status]}
+            </Text>
+          </View>
+
+          {job.status === "running" ? (
+            <>
+              <View style={styles.track}>
+                <View style={[styles.fill, { width: `${ratio * 100}%` }]} />
+              </View>
+              <Text style={styles.jobDetail} numberOfLines={1}>
+                {job.progress.totalBytes
+                  ? `${formatFileSize(job.progress.completedBytes ?? 0)} / ${formatFileSize(job.progress.totalBytes)}`
+                  : `${job.progress.completed} / ${job.progress.total}`}
+                {job.progress.currentItemName
+                  ? ` · ${job.progress.currentItemName}`
+                  : ""}
+              </Text>
+            </>
+          ) : null}
+
+          {job.resultMessage ? (
+            <Text style={styles.jobDetail}>{job.resultMessage}</Text>
+          ) : null}
+          {job.error && job.status !== "cancelled" ? (
+            <Text style={styles.jobError}>{job.error.message}</Text>
+          ) : null}
+
+          {isActive || canRetry ? (
+            <View style={styles.jobActions}>
+              {isActive ? (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => {
+                    void cancelJob(job.id);
+                  }}
+                >
+                  <Text style={styles.cancelText}>Cancelar</Text>
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={styles.actionButton}
+                  onPress={() => {
+                    void retryJob(job.id);
+                  }}
+                >
+                  <Text style={styles.retryText}>Reintentar</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ) : null}
+        </View>
+      );
+    },
+    [cancelJob, retryJob, styles],
+  );
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <MultiActionButton
+          icon="chevron-back"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => router.back()}
+        />
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle}>Tareas</Text>
+        </View>
+        <MultiActionButton
+          icon="trash-outline"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => {
+            void clearFinishedJobs();
+          }}
+          disabled={!hasFinishedJobs}
+        />
+      </View>
+
+      {jobs.length === 0 ? (
+        <View style={styles.centerState}>
+          <MaterialCommunityIcons
+            name="check-circle-outline"
+            size={48}
+            color={styles.primaryColor.color}
+          />
+          <Text style={styles.helperText}>No hay tareas pendientes.</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={jobs}
+          keyExtractor={(job) => job.id}
+          renderItem={renderJob}
+          contentContainerStyle={[
+            styles.listContent,
+            { paddingBottom: insets.bottom + styles.listContent.paddingBottom },
+          ]}
+          ListHeaderComponent={
+            <Text style={styles.summaryText}>
+              Las tareas se ejecutan de una en una. Puedes salir de esta
+              pantalla mientras terminan.
+            </Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const useJobsStyles = () => {
+  return useStyles((theme) => ({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    headerTitleWrapper: {
+      flex: 1,
+      alignItems: "center",
+    },
+    headerTitle: {
+      fontSize: 22,
+      fontFamily: theme.typography.fontFamily.title.semiBold,
+      color: theme.colors.textPrimary,
+      textAlign: "center",
+    },
+    listContent: {
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.sm,
+      paddingBottom: theme.spacing.xl,
+      gap: theme.spacing.md,
+    },
+    summaryText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.sm,
+    },
+    jobCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.effects.radius.lg,
+      padding: theme.spacing.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      gap: theme.spacing.sm,
+    },
+    jobHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.md,
+    },
+    jobTextGroup: {
+      flex: 1,
+      gap: 2,
+    },
+    jobTitle: {
+      fontSize: 15,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    jobDate: {
+      fontSize: 12,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textMuted,
+    },
+    statusLabel: {
+      fontSize: 12,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+    },
+    statusNeutral: {
+      color: theme.colors.textSecondary,
+    },
+    statusSuccess: {
+      color: theme.colors.success,
+    },
+    statusError: {
+      color: theme.colors.error,
+    },
+    jobDetail: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+    },
+    jobError: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.error,
+    },
+    track: {
+      width: "100%",
+      height: 8,
+      borderRadius: 999,
+      backgroundColor: theme.colors.borderSoft,
+      overflow: "hidden",
+    },
+    fill: {
+      height: "100%",
+      borderRadius: 999,
+      backgroundColor: theme.colors.primary,
+    },
+    jobActions: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+    },
+    actionButton: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+    },
+    cancelText: {
+      fontSize: 14,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.error,
+    },
+    retryText: {
+      fontSize: 14,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.primary,
+    },
+    centerState: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      gap: theme.spacing.md,
+      padding: theme.spacing.xl,
+    },
+    helperText: {
+      fontSize: 15,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      textAlign: "center",
+    },
+    iconColor: {
+      color: theme.colors.textPrimary,
+    },
+    primaryColor: {
+      color: theme.colors.primary,
+    },
+  }));
+};
@@ -1,4 +1,4 @@
-import React, { useCallback, useEffect } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { View, Text, ActivityIndicator } from "react-native";
 import { TouchableOpacity } from "@/components/TouchableOpacity";
 import { router, useLocalSearchParams } from "expo-router";
@@ -17,6 +17,24 @@ import {
   useMediaLibraryImport,
 } from "@/hooks/mediaLibrary";
 import { useAlert } from "@/providers";
+import type { ImportMediaFilesResult } from "@/services/media/MediaImportService";
+import type { MediaImportDuplicatePolicy } from "@/types/media";
+import { getFriendlyErrorMessage } from "@/utils";
+
+const DUPLICATE_POLICY_OPTIONS: {
+  value: MediaImportDuplicatePolicy;
+  label: string;
+}[] = [
+  { value: "skip", label: "Omitir" },
+  { value: "link", label: "Vincular" },
+  { value: "keepBoth", label: "Duplicar" },
+];
+
+const DUPLICATE_POLICY_HINTS: Record<MediaImportDuplicatePolicy, string> = {
+  skip: "Los archivos que ya están en la biblioteca no se importan.",
+  link: "No se copian de nuevo; se añaden al álbum destino.",
+  keepBoth: "Se crea una copia nueva aunque ya exista.",
+};
 
 export default function MediaLibraryImportScreen() {
   const insets = useSafeAreaInsets();
@@ -27,6 +45,8 @@ export default function MediaLibraryImportScreen() {
     albumId?: string;
     initialMode?: string;
   }>();
+  const [duplicatePolicy, setDuplicatePolicy] =
+    useState<MediaImportDuplicatePolicy>("skip");
 
   const {
     permission,
@@ -60,6 +80,7 @@ export default function MediaLibraryImportScreen() {
   } = useMediaLibraryImport({
     ...(folderId ? { folderId } : {}),
     ...(albumId ? { albumId } : {}),
+    duplicatePolicy,
   });
 
   useEffect(() => {
@@ -68,19 +89,33 @@ export default function MediaLibraryImportScreen() {
     }
   }, [permission, requestPermission]);
 
-  const closeWithSummary = useCallback(
-    (title: string, failed: { name: string; error: string }[]) => {
+  const showSummary = useCallback(
+    (title: string, result: ImportMediaFilesResult) => {
+      const { failed, skipped, linkedFiles } = result;
+      const lines: string[] = [];
+
+      if (skipped.length > 0) {
+        lines.push(`Ya estaban en la biblioteca (omitidos): ${skipped.length}`);
+      }
+
+      if (linkedFiles.length > 0) {
+        lines.push(
+          `Ya estaban en la biblioteca (vinculados): ${linkedFiles.length}`,
+        );
+      }
+
       if (failed.length > 0) {
+        lines.push(
+          ...failed.slice(0, 5).map((item) => `${item.name}: ${item.error}`),
+        );
+      }
+
+      if (lines.length > 0) {
         showAlert({
-          title,
-          message: failed
-            .slice(0, 5)
-            .map((item) => `${item.name}: ${item.error}`)
-            .join("\n"),
+          title: failed.length > 0 ? title : "Importación completada",
+          message: lines.join("\n"),
         });
       }
-
-      router.back();
     },
     [showAlert],
   );
@@ -90,18 +125,52 @@ export default function MediaLibraryImportScreen() {
       return;
     }
 
-    const result = await importSelectedAssets(selectedAssets);
-    closeWithSummary("Importación completada con incidencias", result.failed);
-  }, [closeWithSummary, importSelectedAssets, isImporting, selectedAssets]);
+    // La importación sigue en la cola de tareas: se cierra la pantalla en
+    // cuanto entra en la cola y el resumen se muestra al terminar.
+    try {
+      const result = await importSelectedAssets(selectedAssets, () =>
+        router.back(),
+      );
+      if (result) {
+        showSummary("Importación completada con incidencias", result);
+      }
+    } catch (error) {
+      showAlert({
+        title: "Error al importar",
+        message: getFriendlyErrorMessage(
+          error,
+          "No se pudieron importar los archivos.",
+        ),
+      });
+    }
+  }, [
+    importSelectedAssets,
+    isImporting,
+    selectedAssets,
+    showAlert,
+    showSummary,
+  ]);
 
   const handleImportAlbum = useCallback(async () => {
     if (!selectedAlbum || isImporting) {
       return;
     }
 
-    const result = await importAlbum(selectedAlbum);
-    closeWithSummary("Álbum importado con incidencias", result.failed);
-  }, [closeWithSummary, importAlbum, isImporting, selectedAlbum]);
+    try {
+      const result = await importAlbum(selectedAlbum, () => router.back());
+      if (result) {
+        showSummary("Álbum importado con incidencias", result);
+      }
+    } catch (error) {
+      showAlert({
+        title: "Error al importar",
+        message: getFriendlyErrorMessage(
+          error,
+          "No se pudo importar el álbum.",
+        ),
+      });
+    }
+  }, [importAlbum, isImporting, selectedAlbum, showAlert, showSummary]);
 
   const renderAssetItem = useCallback(
     ({ item }: { item: (typeof assets)[number] }) => (
@@ -330,6 +399,41 @@ export default function MediaLibraryImportScreen() {
           </View>
 
           <View style={[styles.footer, { paddingBottom: insets.bottom || 16 }]}>
+            <View style={styles.duplicatePolicy}>
+              <Text style={styles.duplicatePolicyLabel}>
+                Si ya existe en la biblioteca
+              </Text>
+              <View style={styles.duplicatePolicyOptions}>
+                {DUPLICATE_POLICY_OPTIONS.map((option) => {
+                  const isActive = duplicatePolicy === option.value;
+
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      style={[
+                        styles.duplicatePolicyOption,
+                        isActive && styles.duplicatePolicyOptionActive,
+                      ]}
+                      onPress={() => setDuplicatePolicy(option.value)}
+                      disabled={isImporting}
+                      activeOpacity={0.8}
+                    >
+                      <Text
+                        style={[
+                          styles.duplicatePolicyOptionText,
+                          isActive && styles.duplicatePolicyOptionTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={styles.duplicatePolicyHint}>
+                {DUPLICATE_POLICY_HINTS[duplicatePolicy]}
+              </Text>
+            </View>
             {mode === "assets" ? (
               <TouchableOpacity
                 style={[
@@ -495,6 +599,45 @@ const useMediaLibraryImportScreenStyles = () => {
       borderTopWidth: 1,
       borderTopColor: theme.colors.borderSoft,
     },
+    duplicatePolicy: {
+      gap: theme.spacing.xs,
+      marginBottom: theme.spacing.sm,
+    },
+    duplicatePolicyLabel: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textSecondary,
+    },
+    duplicatePolicyOptions: {
+      flexDirection: "row",
+      backgroundColor: theme.colors.subCard,
+      borderRadius: theme.effects.radius.md,
+      padding: 3,
+      gap: 3,
+    },
+    duplicatePolicyOption: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.xs,
+    },
+    duplicatePolicyOptionActive: {
+      backgroundColor: theme.colors.primarySoft,
+    },
+    duplicatePolicyOptionText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    duplicatePolicyOptionTextActive: {
+      color: theme.colors.primary,
+    },
+    duplicatePolicyHint: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textMuted,
+    },
     primaryButton: {
       alignItems: "center",
       justifyContent: "center",
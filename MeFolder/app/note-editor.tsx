@@ -0,0 +1,361 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { ActivityIndicator, Text, TextInput, View } from "react-native";
+import { router, useLocalSearchParams } from "expo-router";
+import { Ionicons } from "@expo/vector-icons";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import {
+  MarkdownView,
+  MultiActionButton,
+  type MarkdownPalette,
+} from "@/components";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { useAlert, useStyles, useTheme } from "@/hooks";
+import { type NoteDraft, useNoteEditor } from "@/hooks/notes";
+import type { NoteExtension } from "@/types/entities/file";
+import { parseMarkdown } from "@/utils/document";
+import { getFriendlyErrorMessage } from "@/utils/errors";
+
+const NOTE_FORMATS: { value: NoteExtension; label: string }[] = [
+  { value: "txt", label: "Texto" },
+  { value: "md", label: "Markdown" },
+];
+
+/**
+ * Editor de notas de texto plano y Markdown. Con `fileId` edita una nota
+ * existente; sin él crea una nueva en `folderId` al guardar.
+ */
+export default function NoteEditorScreen() {
+  const insets = useSafeAreaInsets();
+  const styles = useNoteEditorStyles();
+  const { theme } = useTheme();
+  const { showAlert } = useAlert();
+  const { fileId, folderId } = useLocalSearchParams<{
+    fileId?: string;
+    folderId?: string;
+  }>();
+  const {
+    file,
+    isNew,
+    name,
+    setName,
+    extension,
+    setExtension,
+    content,
+    setContent,
+    isDirty,
+    isLoading,
+    isSaving,
+    error,
+    pendingDraft,
+    restoreDraft,
+    discardDraft,
+    save,
+  } = useNoteEditor({
+    ...(fileId ? { fileId } : {}),
+    ...(folderId ? { folderId } : {}),
+  });
+  const [isPreview, setIsPreview] = useState(false);
+
+  const isMarkdown = extension === "md";
+  const showPreview = isMarkdown && isPreview;
+
+  const markdownPalette = useMemo<MarkdownPalette>(
+    () => ({
+      text: theme.colors.textPrimary,
+      muted: theme.colors.textSecondary,
+      link: theme.colors.primary,
+      codeBackground: theme.colors.surface,
+      border: theme.colors.divider,
+      highlight: theme.colors.primarySoft,
+    }),
+    [theme],
+  );
+
+  const markdownBlocks = useMemo(
+    () => (showPreview ? parseMarkdown(content) : []),
+    [content, showPreview],
+  );
+
+  // Solo se pregunta una vez por borrador encontrado
+  const promptedDraftRef = useRef<NoteDraft | null>(null);
+  useEffect(() => {
+    if (!pendingDraft || promptedDraftRef.current === pendingDraft) return;
+    promptedDraftRef.current = pendingDraft;
+    showAlert({
+      title: "Borrador sin guardar",
+      message: `Hay cambios sin guardar del ${new Date(
+        pendingDraft.savedAt,
+      ).toLocaleString("es-ES")}. ¿Quieres recuperarlos?`,
+      buttons: [
+        { text: "Descartar", style: "destructive", onPress: discardDraft },
+        { text: "Recuperar", onPress: restoreDraft },
+      ],
+    });
+  }, [discardDraft, pendingDraft, restoreDraft, showAlert]);
+
+  const handleSave = useCallback(async () => {
+    try {
+      await save();
+      return true;
+    } catch (saveError) {
+      showAlert({
+        title: "No se pudo guardar la nota",
+        message: getFriendlyErrorMessage(
+          saveError,
+          saveError instanceof Error ? saveError.message : undefined,
+        ),
+      });
+      return false;
+    }
+  }, [save, showAlert]);
+
+  const handleBack = useCallback(() => {
+    if (!isDirty) {
+      router.back();
+      return;
+    }
+
+    showAlert({
+      title: "Cambios sin guardar",
+      message: "El borrador se conserva y podrás recuperarlo al volver.",
+      buttons: [
+        { text: "Seguir editando", style: "cancel" },
+        { text: "Salir", style: "destructive", onPress: () => router.back() },
+        {
+          text: "Guardar",
+          onPress: async () => {
+            if (await handleSave()) router.back();
+          },
+        },
+      ],
+    });
+  }, [handleSave, isDirty, showAlert]);
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator size="large" color={styles.primaryColor.color} />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.centerState}>
+          <Ionicons
+            name="document-text-outline"
+            size={48}
+            color={styles.mutedColor.color}
+          />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      );
+    }
+
+    if (showPreview) {
+      return <MarkdownView blocks={markdownBlocks} palette={markdownPalette} />;
+    }
+
+    return (
+      <TextInput
+        style={styles.editor}
+        value={content}
+        onChangeText={setContent}
+        placeholder={isMarkdown ? "Escribe en Markdown…" : "Escribe tu nota…"}
+        placeholderTextColor={styles.mutedColor.color}
+        multiline
+        textAlignVertical="top"
+        autoFocus={isNew}
+        autoCorrect={!isMarkdown}
+        autoCapitalize={isMarkdown ? "none" : "sentences"}
+      />
+    );
+  };
+
+  return (
+    <KeyboardAvoidingView
+      behavior="padding"
+      style={[styles.container, { paddingTop: insets.top }]}
+    >
+      <View style={styles.header}>
+        <MultiActionButton
+          icon="chevron-back"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={handleBack}
+        />
+        <View style={styles.headerTitleWrapper}>
+          {isNew ? (
+            <TextInput
+              style={styles.nameInput}
+              value={name}
+              onChangeText={setName}
+              placeholder="Nombre de la nota"
+              placeholderTextColor={styles.mutedColor.color}
+              returnKeyType="done"
+            />
+          ) : (
+            <Text style={styles.headerTitle} numberOfLines={1}>
+              {file?.name ?? "Nota"}
+            </Text>
+          )}
+        </View>
+        {isMarkdown && (
+          <MultiActionButton
+            icon={isPreview ? "create-outline" : "eye-outline"}
+            backgroundColor="transparent"
+            iconColor={styles.iconColor.color}
+            size={42}
+            onPress={() => setIsPreview((prev) => !prev)}
+            disabled={isLoading || error !== null}
+          />
+        )}
+        <MultiActionButton
+          icon="checkmark"
+          backgroundColor="transparent"
+          iconColor={styles.primaryColor.color}
+          size={42}
+          onPress={() => {
+            void handleSave();
+          }}
+          disabled={
+            isSaving ||
+            isLoading ||
+            error !== null ||
+            (isNew ? !name.trim() : !isDirty)
+          }
+        />
+      </View>
+
+      {isNew && (
+        <View style={styles.formatRow}>
+          {NOTE_FORMATS.map((format) => {
+            const isActive = extension === format.value;
+            return (
+              <TouchableOpacity
+                key={format.value}
+                style={[styles.formatChip, isActive && styles.formatChipActive]}
+                onPress={() => setExtension(format.value)}
+              >
+                <Text
+                  style={[
+                    styles.formatChipText,
+                    isActive && styles.formatChipTextActive,
+                  ]}
+                >
+                  {`${format.label} (.${format.value})`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <View style={[styles.body, { paddingBottom: insets.bottom }]}>
+        {renderBody()}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const useNoteEditorStyles = () => {
+  return useStyles((theme) => ({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    headerTitleWrapper: {
+      flex: 1,
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontFamily: theme.typography.fontFamily.title.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    nameInput: {
+      height: 42,
+      fontSize: 18,
+      fontFamily: theme.typography.fontFamily.title.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    formatRow: {
+      flexDirection: "row",
+      paddingHorizontal: theme.spacing.md,
+      paddingBottom: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    formatChip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.surface,
+    },
+    formatChipActive: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primarySoft,
+    },
+    formatChipText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    formatChipTextActive: {
+      color: theme.colors.textPrimary,
+    },
+    body: {
+      flex: 1,
+      borderTopWidth: theme.effects.borderWidth.xs,
+      borderTopColor: theme.colors.divider,
+    },
+    editor: {
+      flex: 1,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.md,
+      fontSize: theme.typography.fontSize.md,
+      lineHeight:
+        theme.typography.fontSize.md * theme.typography.lineHeight.normal,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textPrimary,
+    },
+    centerState: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      paddingHorizontal: theme.spacing.xl,
+      gap: theme.spacing.md,
+    },
+    errorText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.error,
+      textAlign: "center",
+    },
+    iconColor: {
+      color: theme.colors.textPrimary,
+    },
+    primaryColor: {
+      color: theme.colors.primary,
+    },
+    mutedColor: {
+      color: theme.colors.textMuted,
+    },
+  }));
+};
@@ -5,7 +5,9 @@ import { formatFileSize } from "@/utils/format";
 import { useStyles } from "@/hooks/useStyles";
 import { useAlert, useServices, useTheme } from "@/providers";
 import { DatabaseDebugExportService } from "@/services/debug/DatabaseDebugExportService";
+import type { LibraryBackupProgress, LibraryRestoreMode } from "@/types";
 import Constants from "expo-constants";
+import { getDocumentAsync } from "expo-document-picker";
 import { Paths } from "expo-file-system";
 import { router } from "expo-router";
 import * as Sharing from "expo-sharing";
@@ -63,6 +65,13 @@ const EMPTY_STORAGE_USAGE: StorageUsageSummary = {
   },
 };
 
+const BACKUP_PHASE_LABELS: Record<LibraryBackupProgress["phase"], string> = {
+  collect: "Reuniendo archivos",
+  compress: "Comprimiendo copia",
+  validate: "Comprobando copia",
+  restore: "Restaurando archivos",
+};
+
 const SettingsOptionRow = ({
   title,
   description,
@@ -126,6 +135,10 @@ const SettingsScreen = () => {
   const [isStorageLoading, setIsStorageLoading] = useState(true);
   const [isDeletingContent, setIsDeletingContent] = useState(false);
   const [isExportingDatabase, setIsExportingDatabase] = useState(false);
+  const [backupTask, setBackupTask] = useState<{
+    title: string;
+    progress: LibraryBackupProgress | null;
+  } | null>(null);
 
   useEffect(() => {
     const loadStorageUsage = async () => {
@@ -230,6 +243,126 @@ const SettingsScreen = () => {
     });
   }, [exitApp, services.fileService, showAlert]);
 
+  const handleCreateBackup = useCallback(async () => {
+    setBackupTask({ title: "Creando copia de seguridad", progress: null });
+
+    const result = await services.libraryBackupService.createBackup({
+      onProgress: (progress) => {
+        setBackupTask({ title: "Creando copia de seguridad", progress });
+      },
+    });
+    setBackupTask(null);
+
+    if (!result.success || !result.data) {
+      showAlert({
+        title: "Error al crear la copia",
+        message:
+          result.error?.message ?? "No se pudo crear la copia de seguridad.",
+      });
+      return;
+    }
+
+    const { backupFileName, backupUri, manifest } = result.data;
+    const sharingAvailable = await Sharing.isAvailableAsync();
+    if (sharingAvailable) {
+      await Sharing.shareAsync(backupUri, {
+        mimeType: "application/zip",
+        dialogTitle: "Guardar copia de seguridad",
+      });
+    }
+
+    const missingMessage =
+      manifest.missingFileIds.length > 0
+        ? `\n\nNo se encontró el contenido de ${manifest.missingFileIds.length} archivos; se guardaron solo sus datos.`
+        : "";
+
+    showAlert({
+      title: "Copia de seguridad creada",
+      message: `${backupFileName}\nArchivos: ${manifest.files.length}\nCarpetas: ${manifest.tables.folders}\nTags: ${manifest.tables.tags}${missingMessage}`,
+    });
+  }, [services.libraryBackupService, showAlert]);
+
+  const restoreBackup = useCallback(
+    async (backupUri: string, mode: LibraryRestoreMode) => {
+      setBackupTask({ title: "Restaurando copia", progress: null });
+
+      const result = await services.libraryBackupService.restoreBackup({
+        backupUri,
+        mode,
+        onProgress: (progress) => {
+          setBackupTask({ title: "Restaurando copia", progress });
+        },
+      });
+      setBackupTask(null);
+
+      if (!result.success || !result.data) {
+        showAlert({
+          title: "No se pudo restaurar la copia",
+          message:
+            result.error?.message ??
+            "La biblioteca actual no se ha modificado.",
+        });
+        return;
+      }
+
+      const summary = result.data;
+      showAlert({
+        title: "Restauración completada",
+        message: `Archivos restaurados: ${summary.restoredFileCount}\nCarpetas restauradas: ${summary.restoredFolderCount}\nTags restaurados: ${summary.restoredTagCount}${
+          mode === "merge"
+            ? `\nYa existían en la biblioteca: ${summary.reusedCount}`
+            : ""
+        }\n\nEs necesario salir de la app para cargar la biblioteca restaurada.`,
+        buttons: [{ text: "Vale" }],
+        onDismiss: exitApp,
+      });
+    },
+    [exitApp, services.libraryBackupService, showAlert],
+  );
+
+  const handleRestoreBackup = useCallback(async () => {
+    const selection = await getDocumentAsync({
+      multiple: false,
+      copyToCacheDirectory: true,
+      type: "*/*",
+    });
+
+    if (selection.canceled) {
+      return;
+    }
+
+    const backupFile = selection.assets[0];
+    if (!backupFile?.uri) {
+      showAlert({
+        title: "Copia no válida",
+        message: "No se pudo acceder al archivo seleccionado.",
+      });
+      return;
+    }
+
+    showAlert({
+      title: "Restaurar copia de seguridad",
+      message:
+        "Reemplazar elimina la biblioteca actual y la sustituye por la copia. Combinar añade el contenido de la copia a la biblioteca actual.",
+      buttons: [
+        { text: "Cancelar", style: "cancel" },
+        {
+          text: "Combinar",
+          onPress: () => {
+            void restoreBackup(backupFile.uri, "merge");
+          },
+        },
+        {
+          text: "Reemplazar",
+          style: "destructive",
+          onPress: () => {
+            void restoreBackup(backupFile.uri, "replace");
+          },
+        },
+      ],
+    });
+  }, [restoreBackup, showAlert]);
+
   const handleExportDebugDatabase = useCallback(async () => {
     try {
       setIsExportingDatabase(true);
@@ -349,6 +482,86 @@ const SettingsScreen = () => {
           </TouchableOpacity>
         </View>
 
+        <View style={styles.sectionCard}>
+          <Text style={styles.sectionTitle}>Copia de seguridad</Text>
+          <Text style={styles.sectionDescription}>
+            Guarda carpetas, archivos, tags y ajustes de vista en un único
+            archivo .mefolder para trasladar la biblioteca a otro dispositivo.
+          </Text>
+
+          <TouchableOpacity
+            style={({ pressed }) => [
+              styles.optionRow,
+              pressed && styles.optionRowPressed,
+            ]}
+            onPress={() => {
+              void handleCreateBackup();
+            }}
+            accessibilityRole="button"
+            accessibilityLabel="Crear copia de seguridad"
+          >
+            <View style={styles.optionRowContent}>
+              <View style={styles.optionIconWrapper}>
+                <MaterialCommunityIcons
+                  name="archive-arrow-up-outline"
+                  size={20}
+                  color={styles.iconColor.primaryColor}
+                />
+              </View>
+              <View style={styles.optionTextGroup}>
+                <Text style={styles.optionTitle}>Crear copia de seguridad</Text>
+                <Text style={styles.optionDescription}>
+                  Exporta toda la biblioteca y compártela o guárdala donde
+                  quieras.
+                </Text>
+              </View>
+            </View>
+
+            <MaterialCommunityIcons
+              name="chevron-right"
+              size={20}
+              color={styles.iconColor.color}
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={({ pressed }) => [
+              styles.optionRow,
+              pressed && styles.optionRowPressed,
+            ]}
+            onPress={() => {
+              void handleRestoreBackup();
+            }}
+            accessibilityRole="button"
+            accessibilityLabel="Restaurar copia de seguridad"
+          >
+            <View style={styles.optionRowContent}>
+              <View style={styles.optionIconWrapper}>
+                <MaterialCommunityIcons
+                  name="archive-arrow-down-outline"
+                  size={20}
+                  color={styles.iconColor.primaryColor}
+                />
+              </View>
+              <View style={styles.optionTextGroup}>
+                <Text style={styles.optionTitle}>
+                  Restaurar copia de seguridad
+                </Text>
+                <Text style={styles.optionDescription}>
+                  Reemplaza la biblioteca actual o combínala con una copia
+                  .mefolder.
+                </Text>
+              </View>
+            </View>
+
+            <MaterialCommunityIcons
+              name="chevron-right"
+              size={20}
+              color={styles.iconColor.color}
+            />
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.sectionCard}>
           <Text style={styles.sectionTitle}>Almacenamiento</Text>
 
@@ -424,6 +637,72 @@ const SettingsScreen = () => {
             ))}
           </View>
 
+          <TouchableOpacity
+            style={({ pressed }) => [
+              styles.optionRow,
+              pressed && styles.optionRowPressed,
+            ]}
+            onPress={() => router.push("/duplicates")}
+            accessibilityRole="button"
+            accessibilityLabel="Buscar archivos duplicados"
+          >
+            <View style={styles.optionRowContent}>
+              <View style={styles.optionIconWrapper}>
+                <MaterialCommunityIcons
+                  name="content-duplicate"
+                  size={20}
+                  color={styles.iconColor.primaryColor}
+                />
+              </View>
+              <View style={styles.optionTextGroup}>
+                <Text style={styles.optionTitle}>Archivos duplicados</Text>
+                <Text style={styles.optionDescription}>
+                  Encuentra copias idénticas y libera espacio conservando solo
+                  una.
+                </Text>
+              </View>
+            </View>
+
+            <MaterialCommunityIcons
+              name="chevron-right"
+              size={20}
+              color={styles.iconColor.color}
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={({ pressed }) => [
+              styles.optionRow,
+              pressed && styles.optionRowPressed,
+            ]}
+            onPress={() => router.push("/similar-photos")}
+            accessibilityRole="button"
+            accessibilityLabel="Buscar fotos parecidas"
+          >
+            <View style={styles.optionRowContent}>
+              <View style={styles.optionIconWrapper}>
+                <MaterialCommunityIcons
+                  name="image-multiple-outline"
+                  size={20}
+                  color={styles.iconColor.primaryColor}
+                />
+              </View>
+              <View style={styles.optionTextGroup}>
+                <Text style={styles.optionTitle}>Fotos parecidas</Text>
+                <Text style={styles.optionDescription}>
+                  Agrupa ráfagas y copias redimensionadas o recomprimidas de la
+                  misma foto.
+                </Text>
+              </View>
+            </View>
+
+            <MaterialCommunityIcons
+              name="chevron-right"
+              size={20}
+              color={styles.iconColor.color}
+            />
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={[styles.optionRow, styles.destructiveOptionRow]}
             onPress={handleDeleteAllContent}
@@ -543,6 +822,29 @@ const SettingsScreen = () => {
         </View>
       </CustomPopup>
 
+      <CustomPopup
+        title={backupTask?.title ?? ""}
+        isVisible={backupTask !== null}
+        onDismiss={() => undefined}
+        dismissOnBackdropPress={false}
+      >
+        <View style={styles.popupLoadingContent}>
+          <ActivityIndicator
+            size="large"
+            color={styles.iconColor.primaryColor}
+          />
+          <Text style={styles.popupLoadingText}>
+            {backupTask?.progress
+              ? `${BACKUP_PHASE_LABELS[backupTask.progress.phase]} (${Math.round((backupTask.progress.processedEntries / Math.max(backupTask.progress.totalEntries, 1)) * 100)}%)`
+              : "Preparando\u2026"}
+          </Text>
+          <Text style={styles.popupLoadingHint}>
+            {backupTask?.progress?.currentEntryName ??
+              "La operación puede tardar varios minutos."}
+          </Text>
+        </View>
+      </CustomPopup>
+
       {/* DEV-ONLY TEST: feedback de progreso mientras se genera el snapshot */}
       <CustomPopup
         title="Exportando base de datos"
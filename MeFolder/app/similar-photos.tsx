@@ -0,0 +1,481 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { ActivityIndicator, FlatList, Text, View } from "react-native";
+import { router } from "expo-router";
+import { Image } from "expo-image";
+import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { MultiActionButton } from "@/components";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { useStyles } from "@/hooks";
+import { useAlert, useServices } from "@/providers";
+import { formatFileSize } from "@/utils/format";
+import { getIconByCategory } from "@/utils";
+import type { FileModel } from "@/models";
+import type {
+  DuplicateScanProgress,
+  SimilarPhotoGroup,
+} from "@/services/DuplicateService";
+import type { UUID } from "@/types/common/base";
+
+const ROOT_LOCATION_LABEL = "Biblioteca";
+
+const pixelCount = (file: FileModel): number =>
+  (file.metadata.imageMetadata?.width ?? 0) *
+  (file.metadata.imageMetadata?.height ?? 0);
+
+/**
+ * Por defecto se conserva la foto de mayor resolución del grupo;
+ * a igualdad, la más pesada (menos recomprimida)
+ */
+const pickBestPhoto = (group: SimilarPhotoGroup): UUID =>
+  group.photos.reduce((best, photo) => {
+    const pixelDiff = pixelCount(photo.file) - pixelCount(best.file);
+    return pixelDiff > 0 ||
+      (pixelDiff === 0 && photo.file.size > best.file.size)
+      ? photo
+      : best;
+  }).file.id;
+
+export default function SimilarPhotosScreen() {
+  const insets = useSafeAreaInsets();
+  const styles = useSimilarPhotosStyles();
+  const { services } = useServices();
+  const { showAlert } = useAlert();
+
+  const [groups, setGroups] = useState<SimilarPhotoGroup[]>([]);
+  const [keptFileIds, setKeptFileIds] = useState<Record<string, UUID[]>>({});
+  const [isScanning, setIsScanning] = useState(true);
+  const [progress, setProgress] = useState<DuplicateScanProgress | null>(null);
+  const [resolvingGroupId, setResolvingGroupId] = useState<string | null>(null);
+
+  const scanPhotos = useCallback(async () => {
+    setIsScanning(true);
+    setProgress(null);
+
+    try {
+      const result = await services.duplicateService.findSimilarPhotoGroups(
+        undefined,
+        setProgress,
+      );
+      setGroups(result);
+      setKeptFileIds(
+        Object.fromEntries(
+          result.map((group) => [group.id, [pickBestPhoto(group)]]),
+        ),
+      );
+    } catch (error) {
+      showAlert({
+        title: "Error al buscar fotos parecidas",
+        message:
+          error instanceof Error
+            ? error.message
+            : "No se pudieron analizar las fotos.",
+      });
+    } finally {
+      setIsScanning(false);
+    }
+  }, [services.duplicateService, showAlert]);
+
+  useEffect(() => {
+    void scanPhotos();
+  }, [scanPhotos]);
+
+  const toggleKept = useCallback((groupId: string, fileId: UUID) => {
+    setKeptFileIds((current) => {
+      const kept = current[groupId] ?? [];
+      return {
+        ...current,
+        [groupId]: kept.includes(fileId)
+          ? kept.filter((id) => id !== fileId)
+          : [...kept, fileId],
+      };
+    });
+  }, []);
+
+  const resolveGroup = useCallback(
+    async (group: SimilarPhotoGroup) => {
+      const keepIds = keptFileIds[group.id] ?? [];
+      const removeIds = group.photos
+        .map((photo) => photo.file.id)
+        .filter((fileId) => !keepIds.includes(fileId));
+
+      try {
+        setResolvingGroupId(group.id);
+        await services.duplicateService.resolveSimilarPhotos(
+          keepIds,
+          removeIds,
+        );
+        setGroups((current) => current.filter((item) => item.id !== group.id));
+      } catch (error) {
+        showAlert({
+          title: "Error al eliminar fotos",
+          message:
+            error instanceof Error
+              ? error.message
+              : "No se pudieron mover las fotos a la papelera.",
+        });
+      } finally {
+        setResolvingGroupId(null);
+      }
+    },
+    [keptFileIds, services.duplicateService, showAlert],
+  );
+
+  const confirmResolveGroup = useCallback(
+    (group: SimilarPhotoGroup) => {
+      const keptCount = keptFileIds[group.id]?.length ?? 0;
+      const removedCount = group.photos.length - keptCount;
+
+      showAlert({
+        title: "Eliminar fotos parecidas",
+        message: `Se ${removedCount === 1 ? "moverá 1 foto" : `moverán ${removedCount} fotos`} a la papelera. Sus etiquetas se añadirán a las fotos que conservas.`,
+        buttons: [
+          { text: "Cancelar", style: "cancel" },
+          {
+            text: "Mover a la papelera",
+            style: "destructive",
+            onPress: () => {
+              void resolveGroup(group);
+            },
+          },
+        ],
+      });
+    },
+    [keptFileIds, resolveGroup, showAlert],
+  );
+
+  const renderGroup = useCallback(
+    ({ item: group }: { item: SimilarPhotoGroup }) => {
+      const keepIds = keptFileIds[group.id] ?? [];
+      const removedCount = group.photos.length - keepIds.length;
+      const isResolving = resolvingGroupId === group.id;
+      const canResolve =
+        keepIds.length > 0 && removedCount > 0 && resolvingGroupId === null;
+
+      return (
+        <View style={styles.groupCard}>
+          <View style={styles.groupHeader}>
+            <Text style={styles.groupTitle}>
+              {`${group.photos.length} fotos parecidas`}
+            </Text>
+            <Text style={styles.groupSubtitle}>
+              {group.maxDistance === 0 ? "Idénticas" : "Casi idénticas"}
+            </Text>
+          </View>
+
+          <View style={styles.photoGrid}>
+            {group.photos.map(({ file, folderPath }) => {
+              const isKept = keepIds.includes(file.id);
+              const dimensions = file.metadata.imageMetadata;
+
+              return (
+                <TouchableOpacity
+                  key={file.id}
+                  style={[styles.photoTile, isKept && styles.photoTileKept]}
+                  onPress={() => toggleKept(group.id, file.id)}
+                  disabled={isResolving}
+                  accessibilityRole="checkbox"
+                  accessibilityState={{ checked: isKept }}
+                  accessibilityLabel={file.name}
+                >
+                  <View style={styles.photoPreview}>
+                    {file.thumbnailUrl ? (
+                      <Image
+                        source={{ uri: file.thumbnailUrl }}
+                        style={styles.photoImage}
+                        contentFit="cover"
+                      />
+                    ) : (
+                      <Ionicons
+                        name={getIconByCategory(file.category)}
+                        size={28}
+                        color={styles.iconColor.color}
+                      />
+                    )}
+                    <View style={styles.photoBadge}>
+                      <MaterialCommunityIcons
+                        name={
+                          isKept
+                            ? "checkbox-marked-circle"
+                            : "checkbox-blank-circle-outline"
+                        }
+                        size={22}
+                        color={
+                          isKept
+                            ? styles.primaryColor.color
+                            : styles.badgeIconColor.color
+                        }
+                      />
+                    </View>
+                  </View>
+                  <Text style={styles.photoName} numberOfLines={1}>
+                    {file.name}
+                  </Text>
+                  <Text style={styles.photoDetail} numberOfLines={1}>
+                    {dimensions
+                      ? `${dimensions.width}×${dimensions.height} · ${formatFileSize(file.size)}`
+                      : formatFileSize(file.size)}
+                  </Text>
+                  <Text style={styles.photoDetail} numberOfLines={1}>
+                    {[ROOT_LOCATION_LABEL, ...folderPath].join(" / ")}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[
+              styles.resolveButton,
+              (!canResolve || isResolving) && styles.resolveButtonDisabled,
+            ]}
+            onPress={() => confirmResolveGroup(group)}
+            disabled={!canResolve}
+          >
+            {isResolving ? (
+              <ActivityIndicator size="small" color={styles.errorColor.color} />
+            ) : (
+              <Text style={styles.resolveButtonText}>
+                {keepIds.length === 0
+                  ? "Selecciona al menos una foto para conservar"
+                  : `Conservar ${keepIds.length} y eliminar ${removedCount}`}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [confirmResolveGroup, keptFileIds, resolvingGroupId, styles, toggleKept],
+  );
+
+  const renderContent = () => {
+    if (isScanning) {
+      return (
+        <View style={styles.centerState}>
+          <ActivityIndicator size="large" color={styles.primaryColor.color} />
+          <Text style={styles.helperText}>
+            {progress && progress.total > 0
+              ? `Analizando fotos (${progress.processed} de ${progress.total})…`
+              : "Buscando fotos parecidas…"}
+          </Text>
+        </View>
+      );
+    }
+
+    if (groups.length === 0) {
+      return (
+        <View style={styles.centerState}>
+          <MaterialCommunityIcons
+            name="check-circle-outline"
+            size={48}
+            color={styles.primaryColor.color}
+          />
+          <Text style={styles.helperText}>
+            No se han encontrado fotos parecidas.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <FlatList
+        data={groups}
+        keyExtractor={(group) => group.id}
+        renderItem={renderGroup}
+        contentContainerStyle={[
+          styles.listContent,
+          { paddingBottom: insets.bottom + styles.listContent.paddingBottom },
+        ]}
+        ListHeaderComponent={
+          <Text style={styles.summaryText}>
+            {`${groups.length} ${groups.length === 1 ? "grupo" : "grupos"} de fotos parecidas. Marca las fotos que quieres conservar; el resto irá a la papelera.`}
+          </Text>
+        }
+      />
+    );
+  };
+
+  return (
+    <View style={[styles.container, { paddingTop: insets.top }]}>
+      <View style={styles.header}>
+        <MultiActionButton
+          icon="chevron-back"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => router.back()}
+        />
+        <View style={styles.headerTitleWrapper}>
+          <Text style={styles.headerTitle}>Fotos parecidas</Text>
+        </View>
+        <MultiActionButton
+          icon="refresh"
+          backgroundColor="transparent"
+          iconColor={styles.iconColor.color}
+          size={42}
+          onPress={() => {
+            void scanPhotos();
+          }}
+          disabled={isScanning || resolvingGroupId !== null}
+        />
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+}
+
+const useSimilarPhotosStyles = () => {
+  return useStyles((theme) => ({
+    container: {
+      flex: 1,
+      backgroundColor: theme.colors.background,
+    },
+    header: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      gap: theme.spacing.sm,
+    },
+    headerTitleWrapper: {
+      flex: 1,
+      alignItems: "center",
+    },
+    headerTitle: {
+      fontSize: 22,
+      fontFamily: theme.typography.fontFamily.title.semiBold,
+      color: theme.colors.textPrimary,
+      textAlign: "center",
+    },
+    listContent: {
+      paddingHorizontal: theme.spacing.md,
+      paddingTop: theme.spacing.sm,
+      paddingBottom: theme.spacing.xl,
+      gap: theme.spacing.md,
+    },
+    summaryText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      marginBottom: theme.spacing.sm,
+    },
+    groupCard: {
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.effects.radius.lg,
+      padding: theme.spacing.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      gap: theme.spacing.sm,
+    },
+    groupHeader: {
+      flexDirection: "row",
+      alignItems: "baseline",
+      justifyContent: "space-between",
+      gap: theme.spacing.sm,
+    },
+    groupTitle: {
+      fontSize: 16,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    groupSubtitle: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    photoGrid: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.sm,
+    },
+    photoTile: {
+      width: "48%",
+      padding: theme.spacing.xs,
+      gap: 2,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.background,
+    },
+    photoTileKept: {
+      borderColor: theme.colors.primary,
+      backgroundColor: theme.colors.primarySoft,
+    },
+    photoPreview: {
+      aspectRatio: 1,
+      borderRadius: theme.effects.radius.md,
+      overflow: "hidden",
+      alignItems: "center",
+      justifyContent: "center",
+      backgroundColor: theme.colors.surface,
+      marginBottom: theme.spacing.xs,
+    },
+    photoImage: {
+      width: "100%",
+      height: "100%",
+    },
+    photoBadge: {
+      position: "absolute",
+      top: theme.spacing.xs,
+      right: theme.spacing.xs,
+      borderRadius: 12,
+      backgroundColor: theme.colors.surface,
+    },
+    photoName: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    photoDetail: {
+      fontSize: 12,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textMuted,
+    },
+    resolveButton: {
+      alignItems: "center",
+      justifyContent: "center",
+      minHeight: 44,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.error,
+      backgroundColor: theme.colors.errorSoft,
+    },
+    resolveButtonDisabled: {
+      opacity: 0.65,
+    },
+    resolveButtonText: {
+      fontSize: 14,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.error,
+      textAlign: "center",
+    },
+    centerState: {
+      flex: 1,
+      alignItems: "center",
+      justifyContent: "center",
+      paddingHorizontal: theme.spacing.xl,
+      gap: theme.spacing.sm,
+    },
+    helperText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+      textAlign: "center",
+    },
+    iconColor: {
+      color: theme.colors.textPrimary,
+    },
+    badgeIconColor: {
+      color: theme.colors.textMuted,
+    },
+    primaryColor: {
+      color: theme.colors.primary,
+    },
+    errorColor: {
+      color: theme.colors.error,
+    },
+  }));
+};
@@ -13,6 +13,7 @@ import {
   SortDropDown,
   ViewCards,
   ViewDropDown,
+  resolveMediaHostCategory,
 } from "@/components";
 import { FileModel } from "@/models/file";
 import { MaterialCommunityIcons } from "@expo/vector-icons";
@@ -205,11 +206,8 @@ export default function TagsContent() {
       return;
     }
 
-    if (
-      item.category !== "image" &&
-      item.category !== "video" &&
-      item.category !== "audio"
-    ) {
+    const category = resolveMediaHostCategory(item);
+    if (!category) {
       void openExternal(uri, item.metadata.mimeType);
       return;
     }
@@ -232,7 +230,9 @@ export default function TagsContent() {
         mediaHeight: item.metadata.videoMetadata.height,
       }),
       displayName: item.name,
-      category: item.category,
+      category,
+      extension: item.extension,
+      isEditable: true,
     };
 
     setActiveMedia([mediaItem]);
@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { FlatList, Pressable, Text, View } from "react-native";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { CustomPopup } from "../CustomAlert";
+import type { ArchiveEntryDescriptor } from "@/types";
+import { formatFileSize } from "@/utils/format/bytes";
+import { useArchiveEntryPickerStyles } from "./styles";
+
+/** Sangría en píxeles por cada nivel de profundidad del árbol */
+const DEPTH_INDENT = 16;
+
+interface ArchiveEntryPickerProps {
+  visible: boolean;
+  archiveName: string;
+  entries: ArchiveEntryDescriptor[];
+  onCancel: () => void;
+  onConfirm: (selectedPaths: string[]) => void;
+}
+
+type SelectionState = "checked" | "partial" | "unchecked";
+
+const isWithin = (path: string, parentPath: string) =>
+  path === parentPath || path.startsWith(`${parentPath}/`);
+
+const getParentPath = (path: string) => {
+  const index = path.lastIndexOf("/");
+  return index > 0 ? path.slice(0, index) : undefined;
+};
+
+/**
+ * Selector de entradas de un archivo comprimido: muestra el árbol con casillas,
+ * tamaños y sangría por profundidad. Marcar una carpeta marca todo su subárbol.
+ */
+export const ArchiveEntryPicker = ({
+  visible,
+  archiveName,
+  entries,
+  onCancel,
+  onConfirm,
+}: ArchiveEntryPickerProps) => {
+  const styles = useArchiveEntryPickerStyles();
+  const [checkedFiles, setCheckedFiles] = useState<Set<string>>(new Set());
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  // El árbol se ordena en profundidad (carpeta seguida de su contenido) para
+  // poder pintarlo como una lista plana indentada.
+  const orderedEntries = useMemo(() => {
+    const childrenByParent = new Map<string, ArchiveEntryDescriptor[]>();
+    for (const entry of entries) {
+      const parentPath = getParentPath(entry.path) ?? "";
+      const siblings = childrenByParent.get(parentPath) ?? [];
+      siblings.push(entry);
+      childrenByParent.set(parentPath, siblings);
+    }
+
+    const ordered: ArchiveEntryDescriptor[] = [];
+    const visit = (parentPath: string) => {
+      const children = [...(childrenByParent.get(parentPath) ?? [])].sort(
+        (left, right) =>
+          left.type === right.type
+            ? left.name.localeCompare(right.name)
+            : left.type === "directory"
+              ? -1
+              : 1,
+      );
+      for (const child of children) {
+        ordered.push(child);
+        if (child.type === "directory") {
+          visit(child.path);
+        }
+      }
+    };
+    visit("");
+
+    return ordered;
+  }, [entries]);
+
+  // Trabajamos con archivos y carpetas vacías como "hojas": el estado de cada
+  // carpeta con contenido se deriva de sus descendientes.
+  const leafPaths = useMemo(() => {
+    const parentPaths = new Set(
+      entries
+        .map((entry) => getParentPath(entry.path))
+        .filter((path): path is string => Boolean(path)),
+    );
+    return entries
+      .filter((entry) => entry.type === "file" || !parentPaths.has(entry.path))
+      .map((entry) => entry.path);
+  }, [entries]);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    // Al abrir se marca todo el contenido del archivo.
+    setCheckedFiles(new Set(leafPaths));
+    setCollapsed(new Set());
+  }, [leafPaths, visible]);
+
+  const getSelectionState = (entry: ArchiveEntryDescriptor): SelectionState => {
+    const leaves = leafPaths.filter((path) => isWithin(path, entry.path));
+    const checkedCount = leaves.filter((path) => checkedFiles.has(path)).length;
+
+    if (checkedCount === 0) return "unchecked";
+    return checkedCount === leaves.length ? "checked" : "partial";
+  };
+
+  const toggleEntry = (entry: ArchiveEntryDescriptor) => {
+    const leaves = leafPaths.filter((path) => isWithin(path, entry.path));
+    const shouldCheck = getSelectionState(entry) !== "checked";
+
+    setCheckedFiles((current) => {
+      const next = new Set(current);
+      for (const path of leaves) {
+        if (shouldCheck) {
+          next.add(path);
+        } else {
+          next.delete(path);
+        }
+      }
+      return next;
+    });
+  };
+
+  const toggleCollapsed = (path: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const visibleEntries = orderedEntries.filter((entry) => {
+    for (
+      let parentPath = getParentPath(entry.path);
+      parentPath;
+      parentPath = getParentPath(parentPath)
+    ) {
+      if (collapsed.has(parentPath)) return false;
+    }
+    return true;
+  });
+
+  const selectedSize = entries
+    .filter((entry) => entry.type === "file" && checkedFiles.has(entry.path))
+    .reduce((total, entry) => total + (entry.size ?? 0), 0);
+  const selectedFileCount = entries.filter(
+    (entry) => entry.type === "file" && checkedFiles.has(entry.path),
+  ).length;
+
+  /**
+   * Reduce la selección a sus raíces: una carpeta totalmente marcada sustituye
+   * a todo su contenido, que el servicio vuelve a expandir al extraer.
+   */
+  const handleConfirm = () => {
+    const selectedPaths = orderedEntries
+      .filter((entry) => {
+        if (getSelectionState(entry) !== "checked") return false;
+
+        const parentPath = getParentPath(entry.path);
+        const parent = parentPath
+          ? entries.find((candidate) => candidate.path === parentPath)
+          : undefined;
+        return !parent || getSelectionState(parent) !== "checked";
+      })
+      .map((entry) => entry.path);
+
+    onConfirm(selectedPaths);
+  };
+
+  const hasSelection = checkedFiles.size > 0;
+
+  return (
+    <CustomPopup
+      title="Elegir contenido"
+      isVisible={visible}
+      onDismiss={onCancel}
+      footer={
+        <View style={styles.footerButtons}>
+          <TouchableOpacity style={styles.cancelButton} onPress={onCancel}>
+            <Text style={styles.cancelButtonText}>Cancelar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[
+              styles.confirmButton,
+              !hasSelection && styles.confirmButtonDisabled,
+            ]}
+            onPress={handleConfirm}
+            disabled={!hasSelection}
+          >
+            <Text style={styles.confirmButtonText}>Extraer</Text>
+          </TouchableOpacity>
+        </View>
+      }
+    >
+      <Text style={styles.summary} numberOfLines={2}>
+        {`${archiveName} · ${selectedFileCount} archivos seleccionados (${formatFileSize(selectedSize)})`}
+      </Text>
+
+      <View style={styles.toolbar}>
+        <Pressable onPress={() => setCheckedFiles(new Set(leafPaths))}>
+          <Text style={styles.toolbarButtonText}>Marcar todo</Text>
+        </Pressable>
+        <Pressable onPress={() => setCheckedFiles(new Set())}>
+          <Text style={styles.toolbarButtonText}>Desmarcar todo</Text>
+        </Pressable>
+      </View>
+
+      <FlatList
+        style={styles.list}
+        data={visibleEntries}
+        keyExtractor={(entry) => entry.path}
+        renderItem={({ item: entry }) => {
+          const selectionState = getSelectionState(entry);
+          const isDirectory = entry.type === "directory";
+          const isCollapsed = collapsed.has(entry.path);
+
+          return (
+            <View
+              style={[
+                styles.row,
+                { paddingLeft: (entry.depth - 1) * DEPTH_INDENT },
+              ]}
+            >
+              <Pressable
+                style={styles.expandButton}
+                onPress={() => isDirectory && toggleCollapsed(entry.path)}
+                disabled={!isDirectory}
+              >
+                {isDirectory ? (
+                  <MaterialCommunityIcons
+                    name={isCollapsed ? "chevron-right" : "chevron-down"}
+                    size={20}
+                    color={styles.iconColor.color}
+                  />
+                ) : null}
+              </Pressable>
+              <Pressable
+                style={styles.rowContent}
+                onPress={() => toggleEntry(entry)}
+              >
+                <MaterialCommunityIcons
+                  name={
+                    selectionState === "checked"
+                      ? "checkbox-marked-outline"
+                      : selectionState === "partial"
+                        ? "minus-box-outline"
+                        : "checkbox-blank-outline"
+                  }
+                  size={22}
+                  color={styles.iconColor.primaryColor}
+                />
+                <MaterialCommunityIcons
+                  name={isDirectory ? "folder-outline" : "file-outline"}
+                  size={18}
+                  color={styles.iconColor.color}
+                />
+                <Text style={styles.entryName} numberOfLines={1}>
+                  {entry.name}
+                </Text>
+                {entry.size !== undefined ? (
+                  <Text style={styles.entrySize}>
+                    {formatFileSize(entry.size)}
+                  </Text>
+                ) : null}
+              </Pressable>
+            </View>
+          );
+        }}
+      />
+    </CustomPopup>
+  );
+};
@@ -0,0 +1 @@
+export { ArchiveEntryPicker } from "./ArchiveEntryPicker";
@@ -0,0 +1,86 @@
+import { useStyles } from "@/hooks";
+
+export const useArchiveEntryPickerStyles = () => {
+  return useStyles((theme) => ({
+    summary: {
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+    },
+    toolbar: {
+      flexDirection: "row",
+      gap: theme.spacing.md,
+    },
+    toolbarButtonText: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      fontSize: 13,
+      color: theme.colors.primary,
+    },
+    list: {
+      maxHeight: 360,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.xs,
+      paddingVertical: theme.spacing.xs,
+      paddingRight: theme.spacing.sm,
+      minHeight: 40,
+    },
+    expandButton: {
+      width: 24,
+      alignItems: "center",
+    },
+    rowContent: {
+      flex: 1,
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.xs,
+    },
+    entryName: {
+      flex: 1,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      fontSize: 14,
+      color: theme.colors.textPrimary,
+    },
+    entrySize: {
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      fontSize: 12,
+      color: theme.colors.textMuted,
+    },
+    footerButtons: {
+      flexDirection: "row",
+      justifyContent: "flex-end",
+      gap: theme.spacing.sm,
+    },
+    cancelButton: {
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: 8,
+    },
+    confirmButton: {
+      backgroundColor: theme.colors.primary,
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: 8,
+    },
+    confirmButtonDisabled: {
+      opacity: 0.5,
+    },
+    cancelButtonText: {
+      color: theme.colors.textSecondary,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+    },
+    confirmButtonText: {
+      color: theme.colors.textOnColor,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+    },
+    iconColor: {
+      color: theme.colors.textSecondary,
+      primaryColor: theme.colors.primary,
+    },
+  }));
+};
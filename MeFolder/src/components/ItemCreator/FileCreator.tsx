@@ -23,7 +23,7 @@ import {
   stripInvalidNameCharacters,
 } from "@/utils/format/name";
 
-type FileSource = "gallery" | "document" | "camera";
+type FileSource = "gallery" | "document" | "camera" | "note";
 
 interface SelectedFile {
   id: string;
@@ -100,6 +100,17 @@ export default function FileCreator({
     });
   };
 
+  /** Abre el editor de notas para crear un .txt o .md en la carpeta actual */
+  const handleCreateNote = (): void => {
+    onStartExternalFlow?.();
+    setSelectedSource(null);
+    setSelectedFiles([]);
+    router.push({
+      pathname: "/note-editor",
+      ...(currentFolderId ? { params: { folderId: currentFolderId } } : {}),
+    });
+  };
+
   const handlePickDocument = async (): Promise<void> => {
     const result = await getDocumentAsync({
       multiple: true,
@@ -167,6 +178,9 @@ export default function FileCreator({
         setSelectedSource(source);
         await handleCaptureFromCamera();
         break;
+      case "note":
+        handleCreateNote();
+        break;
     }
   };
 
@@ -416,6 +430,22 @@ export default function FileCreator({
             Cámara
           </Text>
         </TouchableOpacity>
+
+        {/* Nueva nota */}
+        <TouchableOpacity
+          style={styles.sourceOption}
+          onPress={() => handleSourceSelect("note")}
+          activeOpacity={0.7}
+        >
+          <View style={styles.sourceIcon}>
+            <Ionicons
+              name="create-outline"
+              size={22}
+              color={theme.colors.textSecondary}
+            />
+          </View>
+          <Text style={styles.sourceOptionText}>Nota</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Archivos seleccionados */}
@@ -7,16 +7,20 @@ import { useItemCreatorStyles } from "./styles";
 import { BottomSheet } from "@/animations";
 import FileCreator from "./FileCreator";
 import FolderCreator from "./FolderCreator";
+import SmartFolderCreator from "./SmartFolderCreator";
 import { ROOT_FOLDER_ID } from "@/database/seeds/systemFolders";
 
-type CreatorType = "file" | "folder";
+type CreatorType = "file" | "folder" | "smartFolder";
 
 interface ItemCreatorProps {
   visible: boolean;
   onClose: () => void;
   onSaveFile?: (data: any) => Promise<void> | void;
   onSaveFolder?: (data: any) => Promise<void> | void;
+  /** Sin este callback no se ofrece la opción de carpeta inteligente */
+  onSaveSmartFolder?: (data: any) => Promise<void> | void;
   currentFolderId?: string;
+  currentFolderName?: string;
 }
 
 export default function ItemCreator({
@@ -24,7 +28,9 @@ export default function ItemCreator({
   onClose,
   onSaveFile,
   onSaveFolder,
+  onSaveSmartFolder,
   currentFolderId = ROOT_FOLDER_ID,
+  currentFolderName,
 }: ItemCreatorProps) {
   const { theme } = useTheme();
   const styles = useItemCreatorStyles();
@@ -47,6 +53,12 @@ export default function ItemCreator({
     }
   };
 
+  const handleSaveSmartFolder = async (data: any): Promise<void> => {
+    if (onSaveSmartFolder) {
+      await onSaveSmartFolder(data);
+    }
+  };
+
   return (
     <BottomSheet
       visible={visible}
@@ -108,6 +120,35 @@ export default function ItemCreator({
             Carpeta
           </Text>
         </TouchableOpacity>
+
+        {onSaveSmartFolder && (
+          <TouchableOpacity
+            style={[
+              styles.typeOption,
+              selectedType === "smartFolder" && styles.typeOptionActive,
+            ]}
+            onPress={() => setSelectedType("smartFolder")}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name="sparkles-outline"
+              size={22}
+              color={
+                selectedType === "smartFolder"
+                  ? theme.colors.primary
+                  : theme.colors.textSecondary
+              }
+            />
+            <Text
+              style={[
+                styles.typeOptionText,
+                selectedType === "smartFolder" && styles.typeOptionTextActive,
+              ]}
+            >
+              Inteligente
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       <ScrollView
@@ -121,11 +162,17 @@ export default function ItemCreator({
             currentFolderId={currentFolderId}
             onStartExternalFlow={onClose}
           />
-        ) : (
+        ) : selectedType === "folder" ? (
           <FolderCreator
             onSave={handleSaveFolder}
             currentFolderId={currentFolderId}
           />
+        ) : (
+          <SmartFolderCreator
+            onSave={handleSaveSmartFolder}
+            currentFolderId={currentFolderId}
+            {...(currentFolderName && { currentFolderName })}
+          />
         )}
       </ScrollView>
     </BottomSheet>
@@ -0,0 +1,346 @@
+import React, { useMemo, useState } from "react";
+import { View, Text, TextInput } from "react-native";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { Ionicons } from "@expo/vector-icons";
+import { useAlert, useTheme } from "@/providers";
+import { useColors } from "@/hooks";
+import { countActiveSearchFilters } from "@/hooks/useSearch";
+import { useFolderCreatorStyles, useSmartFolderCreatorStyles } from "./styles";
+import { SYSTEM_COLORS } from "@/constants/themes/colors";
+import { SMART_FOLDER_ICONS } from "@/constants/folderIcons";
+import { DEFAULT_SEARCH_SORT } from "@/constants/search";
+import { ColorList } from "@/components/ColorPicker/ColorList";
+import { SearchFilterPanel } from "@/components/SearchFilterPanel";
+import { SearchService } from "@/services/search/SearchService";
+import type { SmartFolderModel } from "@/models";
+import type { ColorInfo } from "@/types/common/colors";
+import type { SearchFilters, SortOptions } from "@/types/ui/search";
+import {
+  MAX_ITEM_DESCRIPTION_LENGTH,
+  MAX_WINDOWS_ITEM_NAME_LENGTH,
+} from "@/constants/validation";
+import { stripInvalidNameCharacters } from "@/utils/format/name";
+
+export interface NewSmartFolder {
+  name: string;
+  description: string | null;
+  color: ColorInfo;
+  icon: keyof typeof Ionicons.glyphMap | undefined;
+  parentId: string;
+  filters: SearchFilters;
+  sort: SortOptions;
+}
+
+interface SmartFolderCreatorProps {
+  onSave: (data: NewSmartFolder) => Promise<void> | void;
+  currentFolderId?: string;
+  currentFolderName?: string;
+  /** Carpeta inteligente a editar; sin ella el formulario crea una nueva en currentFolderId */
+  smartFolder?: SmartFolderModel;
+}
+
+const SORT_FIELD_OPTIONS: { id: SortOptions["field"]; label: string }[] = [
+  { id: "relevance", label: "Relevancia" },
+  { id: "name", label: "Nombre" },
+  { id: "createdAt", label: "Fecha de creación" },
+  { id: "updatedAt", label: "Modificación" },
+  { id: "size", label: "Tamaño" },
+];
+
+const SORT_ORDER_OPTIONS: { id: SortOptions["order"]; label: string }[] = [
+  { id: "asc", label: "Ascendente" },
+  { id: "desc", label: "Descendente" },
+];
+
+export default function SmartFolderCreator({
+  onSave,
+  currentFolderId,
+  currentFolderName,
+  smartFolder,
+}: SmartFolderCreatorProps) {
+  const { theme } = useTheme();
+  const { showAlert } = useAlert();
+  const styles = useFolderCreatorStyles();
+  const smartStyles = useSmartFolderCreatorStyles();
+  const {
+    colors,
+    selectedColor,
+    showColorPicker,
+    setSelectedColor,
+    setShowColorPicker,
+    handleSaveColor,
+    handleDeleteColor,
+  } = useColors(smartFolder?.color ?? SYSTEM_COLORS["purple"]);
+
+  const [name, setName] = useState(smartFolder?.name ?? "");
+  const [description, setDescription] = useState(
+    smartFolder?.description ?? "",
+  );
+  const [query, setQuery] = useState(smartFolder?.filters.query ?? "");
+  const [filters, setFilters] = useState<SearchFilters>(() => {
+    const initialFilters = { ...smartFolder?.filters };
+    delete initialFilters.query;
+    return initialFilters;
+  });
+  const [sort, setSort] = useState<SortOptions>(
+    smartFolder?.sort ?? DEFAULT_SEARCH_SORT,
+  );
+  const [selectedIcon, setSelectedIcon] = useState<
+    keyof typeof Ionicons.glyphMap
+  >(
+    (smartFolder?.icon as keyof typeof Ionicons.glyphMap | undefined) ??
+      SMART_FOLDER_ICONS[0]!,
+  );
+  const [filterPanelVisible, setFilterPanelVisible] = useState(false);
+  const [nameFocused, setNameFocused] = useState(false);
+  const [queryFocused, setQueryFocused] = useState(false);
+  const [descFocused, setDescFocused] = useState(false);
+
+  const parentId = smartFolder?.parentId ?? currentFolderId;
+  const activeFilterCount = useMemo(
+    () => countActiveSearchFilters(filters),
+    [filters],
+  );
+  const hasCriteria = !SearchService.isEmptyFilters({
+    ...filters,
+    query,
+  });
+  const canSave = name.trim().length > 0 && hasCriteria;
+
+  const handleSave = async (): Promise<void> => {
+    if (!canSave) return;
+
+    const trimmedDescription = description.trim();
+
+    if (trimmedDescription.length > MAX_ITEM_DESCRIPTION_LENGTH) {
+      showAlert({
+        title: "Descripción demasiado larga",
+        message: `No se puede crear o modificar la descripción si supera los ${MAX_ITEM_DESCRIPTION_LENGTH} caracteres.`,
+      });
+      return;
+    }
+
+    const trimmedQuery = query.trim();
+
+    await onSave({
+      name: name.trim(),
+      description: trimmedDescription || null,
+      color: selectedColor || SYSTEM_COLORS["purple"],
+      icon: selectedIcon,
+      parentId: parentId ?? "",
+      filters: {
+        ...filters,
+        ...(trimmedQuery && { query: trimmedQuery }),
+      },
+      sort,
+    });
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+  ): React.ReactNode => (
+    <TouchableOpacity
+      key={key}
+      style={[smartStyles.chip, selected && smartStyles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text
+        style={[smartStyles.chipText, selected && smartStyles.chipTextSelected]}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Nombre</Text>
+        <TextInput
+          style={[styles.textInput, nameFocused && styles.textInputFocused]}
+          value={name}
+          onChangeText={(text) =>
+            setName(
+              stripInvalidNameCharacters(text).slice(
+                0,
+                MAX_WINDOWS_ITEM_NAME_LENGTH,
+              ),
+            )
+          }
+          placeholder="Nombre de la carpeta inteligente"
+          placeholderTextColor={theme.colors.textMuted}
+          onFocus={() => setNameFocused(true)}
+          onBlur={() => setNameFocused(false)}
+          maxLength={MAX_WINDOWS_ITEM_NAME_LENGTH}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Texto de búsqueda (opcional)</Text>
+        <TextInput
+          style={[styles.textInput, queryFocused && styles.textInputFocused]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Nombre, etiqueta..."
+          placeholderTextColor={theme.colors.textMuted}
+          onFocus={() => setQueryFocused(true)}
+          onBlur={() => setQueryFocused(false)}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Filtros</Text>
+        <TouchableOpacity
+          style={[
+            smartStyles.filtersButton,
+            activeFilterCount > 0 && smartStyles.filtersButtonActive,
+          ]}
+          onPress={() => setFilterPanelVisible(true)}
+          activeOpacity={0.7}
+        >
+          <Ionicons
+            name={activeFilterCount > 0 ? "options" : "options-outline"}
+            size={20}
+            color={
+              activeFilterCount > 0
+                ? theme.colors.primary
+                : theme.colors.textSecondary
+            }
+          />
+          <Text
+            style={[
+              smartStyles.filtersButtonText,
+              activeFilterCount > 0 && smartStyles.filtersButtonTextActive,
+            ]}
+          >
+            {activeFilterCount > 0
+              ? `${activeFilterCount} filtro(s) aplicado(s)`
+              : "Añadir filtros"}
+          </Text>
+          <Ionicons
+            name="chevron-forward"
+            size={18}
+            color={theme.colors.textSecondary}
+          />
+        </TouchableOpacity>
+        {!hasCriteria && (
+          <Text style={smartStyles.hint}>
+            Escribe un texto o añade algún filtro para definir el contenido.
+          </Text>
+        )}
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Orden</Text>
+        <View style={smartStyles.chipList}>
+          {SORT_FIELD_OPTIONS.map((option) =>
+            renderChip(option.id, option.label, sort.field === option.id, () =>
+              setSort((prev) => ({ ...prev, field: option.id })),
+            ),
+          )}
+        </View>
+        {sort.field !== "relevance" && (
+          <View style={[smartStyles.chipList, smartStyles.sortOrderList]}>
+            {SORT_ORDER_OPTIONS.map((option) =>
+              renderChip(
+                option.id,
+                option.label,
+                sort.order === option.id,
+                () => setSort((prev) => ({ ...prev, order: option.id })),
+              ),
+            )}
+          </View>
+        )}
+      </View>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.label}>Descripción (opcional)</Text>
+        <TextInput
+          style={[
+            styles.textInput,
+            styles.descriptionInput,
+            descFocused && styles.textInputFocused,
+          ]}
+          value={description}
+          onChangeText={setDescription}
+          placeholder="Añade una descripción..."
+          placeholderTextColor={theme.colors.textMuted}
+          multiline
+          numberOfLines={3}
+          onFocus={() => setDescFocused(true)}
+          onBlur={() => setDescFocused(false)}
+          maxLength={MAX_ITEM_DESCRIPTION_LENGTH}
+        />
+      </View>
+
+      <View style={styles.colorSection}>
+        <Text style={styles.label}>Color</Text>
+        <ColorList
+          colors={colors}
+          selectedColor={selectedColor}
+          onSelect={setSelectedColor}
+          onAddColor={() => setShowColorPicker(true)}
+          showPicker={showColorPicker}
+          onClosePicker={() => setShowColorPicker(false)}
+          onSavePickerColor={handleSaveColor}
+          onDeletePickerColor={handleDeleteColor}
+        />
+      </View>
+
+      <View style={styles.iconSection}>
+        <Text style={styles.label}>Icono</Text>
+        <View style={styles.iconGridWrapper}>
+          <View style={styles.iconGrid}>
+            {SMART_FOLDER_ICONS.map((icon) => (
+              <TouchableOpacity
+                key={icon}
+                style={[
+                  styles.iconOption,
+                  selectedIcon === icon && styles.iconOptionSelected,
+                ]}
+                onPress={() => setSelectedIcon(icon)}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={icon}
+                  size={24}
+                  color={
+                    selectedIcon === icon
+                      ? theme.colors.primary
+                      : theme.colors.textSecondary
+                  }
+                />
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+
+      <TouchableOpacity
+        style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+        onPress={handleSave}
+        disabled={!canSave}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.saveButtonText}>
+          {smartFolder ? "Guardar cambios" : "Crear carpeta inteligente"}
+        </Text>
+      </TouchableOpacity>
+
+      <SearchFilterPanel
+        visible={filterPanelVisible}
+        onClose={() => setFilterPanelVisible(false)}
+        filters={filters}
+        onApply={setFilters}
+        {...(parentId && { currentFolderId: parentId })}
+        {...(currentFolderName && { currentFolderName })}
+      />
+    </View>
+  );
+}
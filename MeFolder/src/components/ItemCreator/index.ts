@@ -1,3 +1,4 @@
 export { default as ItemCreator } from "./ItemCreator";
 export { default as FileCreator } from "./FileCreator";
 export { default as FolderCreator } from "./FolderCreator";
+export { default as SmartFolderCreator } from "./SmartFolderCreator";
@@ -320,3 +320,65 @@ export const useFolderCreatorStyles = () => {
     },
   }));
 };
+
+export const useSmartFolderCreatorStyles = () => {
+  return useStyles((theme) => ({
+    filtersButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+      paddingVertical: theme.spacing.sm + 2,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.md,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.surface,
+    },
+    filtersButtonActive: {
+      borderColor: theme.colors.primary,
+    },
+    filtersButtonText: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    filtersButtonTextActive: {
+      color: theme.colors.textPrimary,
+    },
+    chipList: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.sm,
+    },
+    sortOrderList: {
+      marginTop: theme.spacing.sm,
+    },
+    chip: {
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.lg,
+      backgroundColor: theme.colors.subCard,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+    },
+    chipSelected: {
+      backgroundColor: theme.colors.primarySoft,
+      borderColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: theme.colors.primary,
+    },
+    hint: {
+      marginTop: theme.spacing.xs,
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textMuted,
+    },
+  }));
+};
@@ -0,0 +1,80 @@
+import React from "react";
+import { ActivityIndicator, Text, View } from "react-native";
+import { router, usePathname } from "expo-router";
+import { MaterialCommunityIcons } from "@expo/vector-icons";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { getJobProgressRatio, useJobs } from "@/hooks/jobs";
+import { useJobsIndicatorStyles } from "./styles";
+
+const JOBS_ROUTE = "/jobs";
+
+/**
+ * Aviso flotante de la cola de tareas: muestra la tarea en curso con su
+ * progreso, o las tareas que quedaron interrumpidas en la sesión anterior.
+ * Al tocarlo abre el panel de tareas.
+ */
+export const JobsIndicator = () => {
+  const styles = useJobsIndicatorStyles();
+  const pathname = usePathname();
+  const { activeJobs, interruptedJobs } = useJobs();
+
+  if (pathname === JOBS_ROUTE) {
+    return null;
+  }
+
+  const runningJob =
+    activeJobs.find((job) => job.status === "running") ?? activeJobs[0];
+
+  if (!runningJob && interruptedJobs.length === 0) {
+    return null;
+  }
+
+  const queuedCount = activeJobs.length - 1;
+  const ratio = runningJob ? getJobProgressRatio(runningJob.progress) : 0;
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.pill}
+        onPress={() => router.push(JOBS_ROUTE)}
+      >
+        {runningJob ? (
+          <>
+            <ActivityIndicator size="small" color={styles.primaryColor.color} />
+            <View style={styles.textGroup}>
+              <Text style={styles.title} numberOfLines={1}>
+                {runningJob.title}
+              </Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                {queuedCount > 0
+                  ? `${Math.round(ratio * 100)}% · ${queuedCount} en cola`
+                  : `${Math.round(ratio * 100)}%`}
+              </Text>
+              <View style={styles.track}>
+                <View style={[styles.fill, { width: `${ratio * 100}%` }]} />
+              </View>
+            </View>
+          </>
+        ) : (
+          <>
+            <MaterialCommunityIcons
+              name="alert-circle-outline"
+              size={20}
+              color={styles.warningColor.color}
+            />
+            <View style={styles.textGroup}>
+              <Text style={styles.title} numberOfLines={1}>
+                {interruptedJobs.length === 1
+                  ? "1 tarea interrumpida"
+                  : `${interruptedJobs.length} tareas interrumpidas`}
+              </Text>
+              <Text style={styles.subtitle} numberOfLines={1}>
+                Toca para revisarlas o reintentarlas
+              </Text>
+            </View>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+};
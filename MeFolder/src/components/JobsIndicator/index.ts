@@ -0,0 +1 @@
+export { JobsIndicator } from "./JobsIndicator";
@@ -0,0 +1,69 @@
+import { useStyles } from "@/hooks";
+import { cardShadow } from "@/constants/styles/shadows";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+/** Altura aproximada de la barra de pestañas flotante, para no taparla */
+const FLOATING_TAB_BAR_CLEARANCE = 76;
+
+export const useJobsIndicatorStyles = () => {
+  const insets = useSafeAreaInsets();
+  const bottomOffset =
+    Math.max(insets.bottom, 12) + 8 + FLOATING_TAB_BAR_CLEARANCE;
+
+  return useStyles((theme) => ({
+    container: {
+      position: "absolute",
+      bottom: bottomOffset,
+      left: theme.spacing.lg,
+      right: theme.spacing.lg,
+      alignItems: "center",
+      pointerEvents: "box-none",
+      zIndex: 900,
+    },
+    pill: {
+      ...cardShadow(theme),
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+      maxWidth: 420,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderRadius: 999,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.surface,
+    },
+    textGroup: {
+      flexShrink: 1,
+      gap: 2,
+    },
+    title: {
+      fontSize: 13,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+    },
+    subtitle: {
+      fontSize: 12,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textSecondary,
+    },
+    track: {
+      width: 120,
+      height: 4,
+      borderRadius: 999,
+      backgroundColor: theme.colors.borderSoft,
+      overflow: "hidden",
+    },
+    fill: {
+      height: "100%",
+      borderRadius: 999,
+      backgroundColor: theme.colors.primary,
+    },
+    primaryColor: {
+      color: theme.colors.primary,
+    },
+    warningColor: {
+      color: theme.colors.warning,
+    },
+  }));
+};
@@ -2,6 +2,7 @@ import React from "react";
 import { View, Text, ActivityIndicator, Modal } from "react-native";
 import type { MediaImportProgress } from "@/types/media";
 import { useStyles } from "@/hooks";
+import { formatFileSize } from "@/utils/format/bytes";
 
 interface MediaImportProgressOverlayProps {
   visible: boolean;
@@ -22,7 +23,13 @@ export function MediaImportProgressOverlay({
     return null;
   }
 
-  const ratio = progress.total > 0 ? progress.completed / progress.total : 0;
+  const totalBytes = progress.totalBytes ?? 0;
+  const hasByteProgress = totalBytes > 0;
+  const ratio = hasByteProgress
+    ? (progress.completedBytes ?? 0) / totalBytes
+    : progress.total > 0
+      ? progress.completed / progress.total
+      : 0;
 
   return (
     <Modal transparent animationType="none" visible statusBarTranslucent>
@@ -40,6 +47,12 @@ export function MediaImportProgressOverlay({
               {progress.currentFileName}
             </Text>
           ) : null}
+          {showProgress && hasByteProgress ? (
+            <Text style={styles.currentFile}>
+              {formatFileSize(progress.completedBytes ?? 0)} /{" "}
+              {formatFileSize(totalBytes)}
+            </Text>
+          ) : null}
           {showProgress ? (
             <View style={styles.track}>
               <View
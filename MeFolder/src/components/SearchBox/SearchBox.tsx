@@ -1,5 +1,7 @@
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import {
+  View,
+  Text,
   TextInput,
   TextInputSubmitEditingEvent,
   Animated,
@@ -10,6 +12,11 @@ import {
 import { TouchableOpacity } from "@/components/TouchableOpacity";
 import { Ionicons } from "@expo/vector-icons";
 import { useSearchBoxStyles } from "./styles";
+import type {
+  SearchQueryToken,
+  SearchQueryTokenKind,
+  SearchSuggestion,
+} from "@/types/ui/search";
 
 export interface SearchResultItem {
   id: string;
@@ -17,6 +24,21 @@ export interface SearchResultItem {
   type: "file" | "folder";
 }
 
+/** Icono del chip de cada clase de token del lenguaje de búsqueda */
+const TOKEN_ICONS: Record<
+  SearchQueryTokenKind,
+  keyof typeof Ionicons.glyphMap
+> = {
+  text: "text-outline",
+  phrase: "chatbox-ellipses-outline",
+  tag: "pricetag-outline",
+  ext: "document-outline",
+  type: "albums-outline",
+  size: "resize-outline",
+  date: "calendar-outline",
+  in: "folder-outline",
+};
+
 export type SearchHandler = (query: string) => Promise<SearchResultItem[]>;
 
 interface SearchBoxProps {
@@ -31,6 +53,26 @@ interface SearchBoxProps {
   iconSize?: number;
   autoFocus?: boolean;
   collapsible?: boolean;
+  /** Si se indica, muestra el botón de filtros junto al campo de texto */
+  onFilterPress?: () => void;
+  /** Número de filtros aplicados; se muestra como insignia */
+  activeFilterCount?: number;
+  /** Sugerencias para el texto actual; se muestran en un desplegable bajo el campo */
+  suggestions?: SearchSuggestion[];
+  /** Búsquedas recientes; se muestran con el campo enfocado y vacío */
+  recentSearches?: string[];
+  /**
+   * Sugerencia de etiqueta, carpeta o archivo pulsada.
+   * Las sugerencias de tipo "query" y las búsquedas recientes lanzan onSearch.
+   */
+  onSuggestionPress?: (suggestion: SearchSuggestion) => void;
+  onRemoveRecentSearch?: (query: string) => void;
+  onClearRecentSearches?: () => void;
+  /**
+   * Tokens del lenguaje de búsqueda del texto actual (useSearchQueryTokens).
+   * Se muestran como chips; si alguno tiene error no se lanza la búsqueda.
+   */
+  queryTokens?: SearchQueryToken[];
 }
 
 export default function SearchBox({
@@ -45,12 +87,21 @@ export default function SearchBox({
   iconSize = 22,
   autoFocus = false,
   collapsible = false,
+  onFilterPress,
+  activeFilterCount = 0,
+  suggestions = [],
+  recentSearches = [],
+  onSuggestionPress,
+  onRemoveRecentSearch,
+  onClearRecentSearches,
+  queryTokens = [],
 }: SearchBoxProps) {
   const styles = useSearchBoxStyles();
   const [query, setQuery] = useState("");
   const [isFocused, setIsFocused] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
   const [isExpanded, setIsExpanded] = useState(!collapsible);
+  const [isDropdownDismissed, setIsDropdownDismissed] = useState(false);
 
   const { width: screenWidth } = useWindowDimensions();
   const collapsedWidth = 42;
@@ -154,17 +205,21 @@ export default function SearchBox({
   const handleChangeText = useCallback(
     (text: string) => {
       setQuery(text);
+      setIsDropdownDismissed(false);
       onChangeText?.(text);
     },
     [onChangeText],
   );
 
-  /** Ejecuta la búsqueda al pulsar Enter */
-  const handleSubmit = useCallback(
-    async (_e: TextInputSubmitEditingEvent) => {
-      const trimmed = query.trim();
-      if (!trimmed || !onSearch) return;
+  /** Lanza la búsqueda del texto indicado y oculta el desplegable de sugerencias */
+  const submitQuery = useCallback(
+    async (text: string) => {
+      const trimmed = text.trim();
+      if (!trimmed || !onSearch) {
+        return;
+      }
 
+      setIsDropdownDismissed(true);
       setIsSearching(true);
       try {
         await onSearch(trimmed);
@@ -172,7 +227,59 @@ export default function SearchBox({
         setIsSearching(false);
       }
     },
-    [query, onSearch],
+    [onSearch],
+  );
+
+  const hasTokenErrors = queryTokens.some((token) => token.error);
+
+  /** Ejecuta la búsqueda al pulsar Enter, salvo que el texto tenga errores */
+  const handleSubmit = useCallback(
+    async (_e: TextInputSubmitEditingEvent) => {
+      if (hasTokenErrors) {
+        setIsDropdownDismissed(false);
+        return;
+      }
+
+      await submitQuery(query);
+    },
+    [hasTokenErrors, query, submitQuery],
+  );
+
+  /** Quita del texto el token de un chip */
+  const handleRemoveToken = useCallback(
+    (token: SearchQueryToken) => {
+      const text = `${query.slice(0, token.start)} ${query.slice(token.end)}`
+        .replace(/\s+/g, " ")
+        .trim();
+
+      setQuery(text);
+      onChangeText?.(text);
+      inputRef.current?.focus();
+    },
+    [query, onChangeText],
+  );
+
+  /** Rellena el campo con una búsqueda reciente o sugerida y la ejecuta */
+  const handleQueryPick = useCallback(
+    (text: string) => {
+      setQuery(text);
+      onChangeText?.(text);
+      void submitQuery(text);
+    },
+    [onChangeText, submitQuery],
+  );
+
+  const handleSuggestionPress = useCallback(
+    (suggestion: SearchSuggestion) => {
+      if (suggestion.type === "query") {
+        handleQueryPick(suggestion.value);
+        return;
+      }
+
+      setIsDropdownDismissed(true);
+      onSuggestionPress?.(suggestion);
+    },
+    [handleQueryPick, onSuggestionPress],
   );
 
   const handleClear = useCallback(() => {
@@ -197,90 +304,263 @@ export default function SearchBox({
 
   const showClear = query.length > 0;
   const showInput = !collapsible || isExpanded;
+  const hasActiveFilters = activeFilterCount > 0;
+  const hasQuery = query.trim().length > 0;
+  const showRecentSearches = !hasQuery && recentSearches.length > 0;
+  const showSuggestions = hasQuery && suggestions.length > 0;
+  const chipTokens = hasQuery
+    ? queryTokens.filter((token) => token.kind !== "text")
+    : [];
+  const showTokens = chipTokens.length > 0;
+  const showDropdown =
+    showInput &&
+    isFocused &&
+    !isDropdownDismissed &&
+    (showRecentSearches || showSuggestions || showTokens);
 
   return (
-    <Animated.View
-      style={[
-        styles.container,
-        !collapsible && styles.fullWidthContainer,
-        collapsible && styles.collapsibleContainer,
-        collapsible && !isExpanded && styles.collapsedContainer,
-        isFocused && styles.containerFocused,
-        collapsible && { width: widthAnim },
-      ]}
-    >
-      <TouchableOpacity
-        onPress={handleSearchPress}
+    <View style={[styles.wrapper, !collapsible && styles.fullWidthContainer]}>
+      <Animated.View
         style={[
-          styles.searchActivator,
-          collapsible && !isExpanded && styles.searchActivatorCollapsed,
-          showInput && styles.searchActivatorExpanded,
+          styles.container,
+          collapsible && styles.collapsibleContainer,
+          collapsible && !isExpanded && styles.collapsedContainer,
+          isFocused && styles.containerFocused,
+          collapsible && { width: widthAnim },
         ]}
-        hitSlop={8}
-        disabled={disabled || isSearching}
       >
-        <Ionicons
-          name="search-outline"
-          size={collapsible && !isExpanded ? iconSize : activeIconSize}
-          style={
-            collapsible && !isExpanded
-              ? styles.collapsedIcon
-              : isFocused
-                ? styles.iconFocused
-                : styles.icon
-          }
-        />
-      </TouchableOpacity>
-
-      {showInput && (
-        <Animated.View
+        <TouchableOpacity
+          onPress={handleSearchPress}
           style={[
-            styles.inputArea,
-            collapsible && {
-              opacity: inputOpacity,
-            },
+            styles.searchActivator,
+            collapsible && !isExpanded && styles.searchActivatorCollapsed,
+            showInput && styles.searchActivatorExpanded,
           ]}
+          hitSlop={8}
+          disabled={disabled || isSearching}
         >
-          <Animated.View style={styles.inputDivider} />
-
-          <TextInput
-            ref={inputRef}
-            style={styles.input}
-            value={query}
-            onChangeText={handleChangeText}
-            onSubmitEditing={handleSubmit}
-            onFocus={() => {
-              setIsFocused(true);
-              onFocus?.();
-            }}
-            onBlur={() => {
-              setIsFocused(false);
-              onBlur?.();
-              collapseSearch();
-            }}
-            placeholder={placeholder}
-            placeholderTextColor={styles.placeholder.color}
-            returnKeyType="search"
-            editable={!disabled && !isSearching}
-            numberOfLines={1}
-            autoFocus={autoFocus || (collapsible && isExpanded)}
+          <Ionicons
+            name="search-outline"
+            size={collapsible && !isExpanded ? iconSize : activeIconSize}
+            style={
+              collapsible && !isExpanded
+                ? styles.collapsedIcon
+                : isFocused
+                  ? styles.iconFocused
+                  : styles.icon
+            }
           />
+          {collapsible && !isExpanded && hasActiveFilters && (
+            <Animated.View style={styles.collapsedFilterDot} />
+          )}
+        </TouchableOpacity>
+
+        {showInput && (
+          <Animated.View
+            style={[
+              styles.inputArea,
+              collapsible && {
+                opacity: inputOpacity,
+              },
+            ]}
+          >
+            <Animated.View style={styles.inputDivider} />
+
+            <TextInput
+              ref={inputRef}
+              style={styles.input}
+              value={query}
+              onChangeText={handleChangeText}
+              onSubmitEditing={handleSubmit}
+              onFocus={() => {
+                setIsFocused(true);
+                setIsDropdownDismissed(false);
+                onFocus?.();
+              }}
+              onBlur={() => {
+                setIsFocused(false);
+                onBlur?.();
+                collapseSearch();
+              }}
+              placeholder={placeholder}
+              placeholderTextColor={styles.placeholder.color}
+              returnKeyType="search"
+              submitBehavior={hasTokenErrors ? "submit" : "blurAndSubmit"}
+              editable={!disabled && !isSearching}
+              numberOfLines={1}
+              autoFocus={autoFocus || (collapsible && isExpanded)}
+            />
+
+            {showClear && (
+              <TouchableOpacity
+                onPress={handleClear}
+                style={styles.clearButton}
+                hitSlop={8}
+              >
+                <Ionicons
+                  name="close-circle"
+                  size={clearIconSize}
+                  style={styles.clearIcon}
+                />
+              </TouchableOpacity>
+            )}
 
-          {showClear && (
-            <TouchableOpacity
-              onPress={handleClear}
-              style={styles.clearButton}
-              hitSlop={8}
-            >
-              <Ionicons
-                name="close-circle"
-                size={clearIconSize}
-                style={styles.clearIcon}
-              />
-            </TouchableOpacity>
+            {onFilterPress && (
+              <TouchableOpacity
+                onPress={onFilterPress}
+                style={[
+                  styles.filterButton,
+                  hasActiveFilters && styles.filterButtonActive,
+                ]}
+                hitSlop={8}
+                disabled={disabled || isSearching}
+              >
+                <Ionicons
+                  name={hasActiveFilters ? "options" : "options-outline"}
+                  size={clearIconSize}
+                  style={hasActiveFilters ? styles.iconFocused : styles.icon}
+                />
+                {hasActiveFilters && (
+                  <Text style={styles.filterBadge}>{activeFilterCount}</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </Animated.View>
+        )}
+      </Animated.View>
+
+      {showDropdown && (
+        <View
+          style={[
+            styles.dropdown,
+            collapsible ? { width: expandedWidth } : styles.dropdownFullWidth,
+          ]}
+        >
+          {showTokens && (
+            <>
+              <View style={styles.dropdownHeader}>
+                <Text style={styles.dropdownTitle}>Filtros escritos</Text>
+              </View>
+
+              <View style={styles.tokenList}>
+                {chipTokens.map((token) => (
+                  <TouchableOpacity
+                    key={`token:${token.start}`}
+                    style={[
+                      styles.tokenChip,
+                      token.error && styles.tokenChipError,
+                    ]}
+                    onPress={() => handleRemoveToken(token)}
+                    hitSlop={4}
+                  >
+                    <Ionicons
+                      name={
+                        token.error
+                          ? "alert-circle-outline"
+                          : TOKEN_ICONS[token.kind]
+                      }
+                      size={14}
+                      style={
+                        token.error ? styles.tokenErrorText : styles.iconFocused
+                      }
+                    />
+                    <Text
+                      style={[
+                        styles.tokenChipText,
+                        token.error && styles.tokenErrorText,
+                      ]}
+                      numberOfLines={1}
+                    >
+                      {token.label}
+                    </Text>
+                    <Ionicons
+                      name="close"
+                      size={14}
+                      style={
+                        token.error ? styles.tokenErrorText : styles.iconFocused
+                      }
+                    />
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {chipTokens
+                .filter((token) => token.error)
+                .map((token) => (
+                  <Text key={`hint:${token.start}`} style={styles.tokenHint}>
+                    {`${token.raw}: ${token.error}`}
+                  </Text>
+                ))}
+            </>
           )}
-        </Animated.View>
+
+          {showRecentSearches && (
+            <>
+              <View style={styles.dropdownHeader}>
+                <Text style={styles.dropdownTitle}>Búsquedas recientes</Text>
+                {onClearRecentSearches && (
+                  <TouchableOpacity onPress={onClearRecentSearches} hitSlop={8}>
+                    <Text style={styles.dropdownAction}>Borrar</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {recentSearches.map((recentQuery) => (
+                <TouchableOpacity
+                  key={`recent:${recentQuery}`}
+                  style={styles.dropdownItem}
+                  onPress={() => handleQueryPick(recentQuery)}
+                >
+                  <Ionicons name="time-outline" size={18} style={styles.icon} />
+                  <Text style={styles.dropdownLabel} numberOfLines={1}>
+                    {recentQuery}
+                  </Text>
+                  {onRemoveRecentSearch && (
+                    <TouchableOpacity
+                      onPress={() => onRemoveRecentSearch(recentQuery)}
+                      hitSlop={8}
+                    >
+                      <Ionicons name="close" size={16} style={styles.icon} />
+                    </TouchableOpacity>
+                  )}
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+
+          {showSuggestions &&
+            suggestions.map((suggestion) => (
+              <TouchableOpacity
+                key={`${suggestion.type}:${suggestion.value}`}
+                style={styles.dropdownItem}
+                onPress={() => handleSuggestionPress(suggestion)}
+              >
+                <Ionicons
+                  name={
+                    (suggestion.metadata?.icon ??
+                      "search-outline") as keyof typeof Ionicons.glyphMap
+                  }
+                  size={18}
+                  style={
+                    suggestion.type === "query"
+                      ? styles.iconFocused
+                      : styles.icon
+                  }
+                />
+                <Text style={styles.dropdownLabel} numberOfLines={1}>
+                  {suggestion.type === "query"
+                    ? `Buscar "${suggestion.label}"`
+                    : suggestion.label}
+                </Text>
+                {suggestion.metadata?.count !== undefined && (
+                  <Text style={styles.dropdownCount}>
+                    {suggestion.metadata.count}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+        </View>
       )}
-    </Animated.View>
+    </View>
   );
 }
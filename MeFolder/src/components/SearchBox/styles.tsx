@@ -3,6 +3,10 @@ import { cardShadow } from "@/constants/styles/shadows";
 
 export const useSearchBoxStyles = () => {
   return useStyles((theme) => ({
+    wrapper: {
+      position: "relative",
+      zIndex: 20,
+    },
     container: {
       flexDirection: "row",
       alignItems: "center",
@@ -92,5 +96,120 @@ export const useSearchBoxStyles = () => {
     clearIcon: {
       color: theme.colors.textSecondary,
     },
+    filterButton: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 2,
+      minWidth: 28,
+      height: 28,
+      paddingHorizontal: theme.spacing.xs,
+      borderRadius: 14,
+    },
+    filterButtonActive: {
+      backgroundColor: theme.colors.primarySoft,
+    },
+    filterBadge: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.bold,
+      color: theme.colors.primary,
+    },
+    collapsedFilterDot: {
+      position: "absolute",
+      top: 8,
+      right: 8,
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+      backgroundColor: theme.colors.primary,
+    },
+    dropdown: {
+      position: "absolute",
+      top: 46,
+      left: 0,
+      paddingVertical: theme.spacing.xs,
+      backgroundColor: theme.colors.surface,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+      zIndex: 20,
+      ...cardShadow(theme),
+    },
+    dropdownFullWidth: {
+      right: 0,
+    },
+    dropdownHeader: {
+      flexDirection: "row",
+      alignItems: "center",
+      justifyContent: "space-between",
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+    },
+    dropdownTitle: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textMuted,
+    },
+    dropdownAction: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.primary,
+    },
+    dropdownItem: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+    },
+    dropdownLabel: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textPrimary,
+    },
+    tokenList: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.md,
+      paddingBottom: theme.spacing.xs,
+    },
+    tokenChip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: 4,
+      paddingVertical: 2,
+      paddingLeft: theme.spacing.sm,
+      paddingRight: theme.spacing.xs,
+      borderRadius: theme.effects.radius.lg,
+      backgroundColor: theme.colors.primarySoft,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.primary,
+    },
+    tokenChipError: {
+      backgroundColor: theme.colors.errorSoft,
+      borderColor: theme.colors.error,
+    },
+    tokenChipText: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.primary,
+    },
+    tokenErrorText: {
+      color: theme.colors.error,
+    },
+    tokenHint: {
+      paddingHorizontal: theme.spacing.md,
+      paddingBottom: theme.spacing.xs,
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.error,
+    },
+    dropdownCount: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
   }));
 };
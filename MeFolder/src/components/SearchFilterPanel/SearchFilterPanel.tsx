@@ -0,0 +1,427 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { View, Text, TextInput, ScrollView } from "react-native";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { Ionicons } from "@expo/vector-icons";
+import { useTheme } from "@/providers";
+import { BottomSheet } from "@/animations";
+import { useTagsContent } from "@/hooks/tags/useTagsContent";
+import { getIconByCategory } from "@/utils/ui/icons";
+import {
+  CATEGORY_LABELS,
+  FileCategory,
+  FileExtension,
+  isFileExtension,
+} from "@/types/common/file-extensions";
+import type { SearchDatePreset, SearchFilters } from "@/types/ui/search";
+import type { UUID } from "@/types/common/base";
+import { useSearchFilterPanelStyles } from "./styles";
+
+type DatePreset = "any" | SearchDatePreset;
+type LocationScope = "library" | "folder" | "subtree";
+type TriState = "any" | "yes" | "no";
+
+interface SearchFilterPanelProps {
+  visible: boolean;
+  onClose: () => void;
+  filters: SearchFilters;
+  onApply: (filters: SearchFilters) => void;
+  /** Carpeta abierta en la biblioteca, usada para acotar la ubicación */
+  currentFolderId?: UUID;
+  currentFolderName?: string;
+}
+
+const BYTES_PER_MB = 1024 * 1024;
+
+const CATEGORY_OPTIONS: FileCategory[] = [
+  "image",
+  "video",
+  "audio",
+  "document",
+  "spreadsheet",
+  "code",
+  "archive",
+  "other",
+];
+
+const DATE_PRESETS: { id: DatePreset; label: string }[] = [
+  { id: "any", label: "Cualquiera" },
+  { id: "today", label: "Hoy" },
+  { id: "week", label: "7 días" },
+  { id: "month", label: "30 días" },
+  { id: "year", label: "Este año" },
+];
+
+const TRI_STATE_OPTIONS: { id: TriState; label: string }[] = [
+  { id: "any", label: "Indiferente" },
+  { id: "yes", label: "Sí" },
+  { id: "no", label: "No" },
+];
+
+const triStateToBoolean = (value: TriState): boolean | undefined =>
+  value === "any" ? undefined : value === "yes";
+
+const booleanToTriState = (value: boolean | undefined): TriState =>
+  value === undefined ? "any" : value ? "yes" : "no";
+
+const bytesToMbText = (bytes: number | undefined): string =>
+  bytes === undefined
+    ? ""
+    : String(Math.round((bytes / BYTES_PER_MB) * 100) / 100);
+
+const mbTextToBytes = (text: string): number | undefined => {
+  const value = Number.parseFloat(text.replace(",", "."));
+  return Number.isFinite(value) && value >= 0
+    ? Math.round(value * BYTES_PER_MB)
+    : undefined;
+};
+
+/** Separa una lista de extensiones escrita a mano ("pdf, .docx jpg") */
+const parseExtensionList = (
+  text: string,
+): { valid: FileExtension[]; invalid: string[] } => {
+  const tokens = text
+    .split(/[\s,;]+/)
+    .map((token) => token.trim().replace(/^\./, "").toLowerCase())
+    .filter(Boolean);
+
+  const valid: FileExtension[] = [];
+  const invalid: string[] = [];
+
+  for (const token of new Set(tokens)) {
+    if (isFileExtension(token)) {
+      valid.push(token);
+    } else {
+      invalid.push(token);
+    }
+  }
+
+  return { valid, invalid };
+};
+
+export default function SearchFilterPanel({
+  visible,
+  onClose,
+  filters,
+  onApply,
+  currentFolderId,
+  currentFolderName,
+}: SearchFilterPanelProps) {
+  const { theme } = useTheme();
+  const styles = useSearchFilterPanelStyles();
+  const { items: tags } = useTagsContent();
+
+  const [categories, setCategories] = useState<Set<FileCategory>>(new Set());
+  const [extensionsText, setExtensionsText] = useState("");
+  const [minSizeText, setMinSizeText] = useState("");
+  const [maxSizeText, setMaxSizeText] = useState("");
+  const [datePreset, setDatePreset] = useState<DatePreset>("any");
+  const [tagIds, setTagIds] = useState<Set<UUID>>(new Set());
+  const [tagMode, setTagMode] = useState<"any" | "all">("any");
+  const [location, setLocation] = useState<LocationScope>("library");
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [hasColor, setHasColor] = useState<TriState>("any");
+  const [hasTags, setHasTags] = useState<TriState>("any");
+
+  // Al abrir, o si cambian los filtros aplicados, el borrador parte de ellos
+  useEffect(() => {
+    if (!visible) {
+      return;
+    }
+
+    setCategories(new Set(filters.categories ?? []));
+    setExtensionsText((filters.extensions ?? []).join(", "));
+    setMinSizeText(bytesToMbText(filters.sizeRange?.min));
+    setMaxSizeText(bytesToMbText(filters.sizeRange?.max));
+    setDatePreset(filters.datePreset ?? "any");
+    setTagIds(new Set(filters.tagIds ?? []));
+    setTagMode(filters.tagMode ?? "any");
+    setLocation(
+      filters.folderIds?.length
+        ? filters.includeSubfolders
+          ? "subtree"
+          : "folder"
+        : "library",
+    );
+    setIncludeArchived(filters.statuses?.includes("archived") ?? false);
+    setHasColor(booleanToTriState(filters.hasColor));
+    setHasTags(booleanToTriState(filters.hasTags));
+  }, [filters, visible]);
+
+  const parsedExtensions = useMemo(
+    () => parseExtensionList(extensionsText),
+    [extensionsText],
+  );
+
+  const toggleInSet = <T,>(set: Set<T>, value: T): Set<T> => {
+    const next = new Set(set);
+    if (next.has(value)) {
+      next.delete(value);
+    } else {
+      next.add(value);
+    }
+    return next;
+  };
+
+  const handleReset = (): void => {
+    setCategories(new Set());
+    setExtensionsText("");
+    setMinSizeText("");
+    setMaxSizeText("");
+    setDatePreset("any");
+    setTagIds(new Set());
+    setTagMode("any");
+    setLocation("library");
+    setIncludeArchived(false);
+    setHasColor("any");
+    setHasTags("any");
+  };
+
+  const handleApply = (): void => {
+    const next: SearchFilters = {};
+
+    if (categories.size > 0) {
+      next.categories = Array.from(categories);
+    }
+    if (parsedExtensions.valid.length > 0) {
+      next.extensions = parsedExtensions.valid;
+    }
+
+    const min = mbTextToBytes(minSizeText);
+    const max = mbTextToBytes(maxSizeText);
+    if (min !== undefined || max !== undefined) {
+      next.sizeRange = {
+        ...(min !== undefined && { min }),
+        ...(max !== undefined && { max }),
+      };
+    }
+
+    if (datePreset !== "any") {
+      next.datePreset = datePreset;
+    }
+
+    if (tagIds.size > 0) {
+      next.tagIds = Array.from(tagIds);
+      next.tagMode = tagMode;
+    }
+
+    if (location !== "library" && currentFolderId) {
+      next.folderIds = [currentFolderId];
+      next.includeSubfolders = location === "subtree";
+    }
+
+    if (includeArchived) {
+      next.statuses = ["active", "archived"];
+    }
+
+    const color = triStateToBoolean(hasColor);
+    if (color !== undefined) {
+      next.hasColor = color;
+    }
+    const tagged = triStateToBoolean(hasTags);
+    if (tagged !== undefined) {
+      next.hasTags = tagged;
+    }
+
+    onApply(next);
+    onClose();
+  };
+
+  const renderChip = (
+    key: string,
+    label: string,
+    selected: boolean,
+    onPress: () => void,
+    leading?: React.ReactNode,
+  ): React.ReactNode => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      {leading}
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const folderLabel = currentFolderName ?? "Esta carpeta";
+
+  return (
+    <BottomSheet
+      visible={visible}
+      onClose={onClose}
+      title="Filtros de búsqueda"
+    >
+      <ScrollView
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.content}
+      >
+        <Text style={styles.sectionTitle}>Tipo</Text>
+        <View style={styles.chipList}>
+          {CATEGORY_OPTIONS.map((category) =>
+            renderChip(
+              category,
+              CATEGORY_LABELS[category],
+              categories.has(category),
+              () => setCategories((prev) => toggleInSet(prev, category)),
+              <Ionicons
+                name={getIconByCategory(category)}
+                size={14}
+                color={
+                  categories.has(category)
+                    ? theme.colors.primary
+                    : theme.colors.textSecondary
+                }
+              />,
+            ),
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Extensiones</Text>
+        <TextInput
+          style={styles.textInput}
+          value={extensionsText}
+          onChangeText={setExtensionsText}
+          placeholder="pdf, docx, jpg..."
+          placeholderTextColor={theme.colors.textMuted}
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {parsedExtensions.invalid.length > 0 && (
+          <Text style={styles.hintError}>
+            Extensiones no reconocidas: {parsedExtensions.invalid.join(", ")}
+          </Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Tamaño (MB)</Text>
+        <View style={styles.row}>
+          <TextInput
+            style={[styles.textInput, styles.rowInput]}
+            value={minSizeText}
+            onChangeText={setMinSizeText}
+            placeholder="Mínimo"
+            placeholderTextColor={theme.colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+          <Text style={styles.rowSeparator}>—</Text>
+          <TextInput
+            style={[styles.textInput, styles.rowInput]}
+            value={maxSizeText}
+            onChangeText={setMaxSizeText}
+            placeholder="Máximo"
+            placeholderTextColor={theme.colors.textMuted}
+            keyboardType="decimal-pad"
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Fecha de creación</Text>
+        <View style={styles.chipList}>
+          {DATE_PRESETS.map((preset) =>
+            renderChip(preset.id, preset.label, datePreset === preset.id, () =>
+              setDatePreset(preset.id),
+            ),
+          )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Etiquetas</Text>
+        <View style={styles.chipList}>
+          {tags.map((tag) =>
+            renderChip(
+              tag.id,
+              tag.name,
+              tagIds.has(tag.id),
+              () => setTagIds((prev) => toggleInSet(prev, tag.id)),
+              <View
+                style={[styles.tagDot, { backgroundColor: tag.color.hex }]}
+              />,
+            ),
+          )}
+        </View>
+        {tagIds.size > 1 && (
+          <View style={[styles.chipList, styles.subOptions]}>
+            {renderChip("any", "Cualquiera", tagMode === "any", () =>
+              setTagMode("any"),
+            )}
+            {renderChip("all", "Todas", tagMode === "all", () =>
+              setTagMode("all"),
+            )}
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Ubicación</Text>
+        <View style={styles.chipList}>
+          {renderChip(
+            "library",
+            "Toda la biblioteca",
+            location === "library",
+            () => setLocation("library"),
+          )}
+          {currentFolderId &&
+            renderChip("folder", folderLabel, location === "folder", () =>
+              setLocation("folder"),
+            )}
+          {currentFolderId &&
+            renderChip(
+              "subtree",
+              `${folderLabel} y subcarpetas`,
+              location === "subtree",
+              () => setLocation("subtree"),
+            )}
+        </View>
+
+        <Text style={styles.sectionTitle}>Otros</Text>
+        <View style={styles.optionRow}>
+          <Text style={styles.optionLabel}>Con color</Text>
+          <View style={styles.chipList}>
+            {TRI_STATE_OPTIONS.map((option) =>
+              renderChip(option.id, option.label, hasColor === option.id, () =>
+                setHasColor(option.id),
+              ),
+            )}
+          </View>
+        </View>
+        <View style={styles.optionRow}>
+          <Text style={styles.optionLabel}>Con etiquetas</Text>
+          <View style={styles.chipList}>
+            {TRI_STATE_OPTIONS.map((option) =>
+              renderChip(option.id, option.label, hasTags === option.id, () =>
+                setHasTags(option.id),
+              ),
+            )}
+          </View>
+        </View>
+        <View style={styles.optionRow}>
+          <Text style={styles.optionLabel}>Incluir archivados</Text>
+          <View style={styles.chipList}>
+            {renderChip("no", "No", !includeArchived, () =>
+              setIncludeArchived(false),
+            )}
+            {renderChip("yes", "Sí", includeArchived, () =>
+              setIncludeArchived(true),
+            )}
+          </View>
+        </View>
+
+        <View style={styles.footer}>
+          <TouchableOpacity
+            style={styles.resetButton}
+            onPress={handleReset}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.resetButtonText}>Limpiar</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.applyButton}
+            onPress={handleApply}
+            activeOpacity={0.8}
+          >
+            <Text style={styles.applyButtonText}>Aplicar</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+    </BottomSheet>
+  );
+}
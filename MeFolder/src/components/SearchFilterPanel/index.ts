@@ -0,0 +1 @@
+export { default as SearchFilterPanel } from "./SearchFilterPanel";
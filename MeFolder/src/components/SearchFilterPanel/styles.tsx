@@ -0,0 +1,122 @@
+import { useStyles } from "@/hooks";
+
+export const useSearchFilterPanelStyles = () => {
+  return useStyles((theme) => ({
+    content: {
+      paddingBottom: theme.spacing.xxl * 3,
+    },
+    sectionTitle: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textPrimary,
+      marginTop: theme.spacing.md,
+      marginBottom: theme.spacing.sm,
+    },
+    chipList: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.sm,
+    },
+    subOptions: {
+      marginTop: theme.spacing.sm,
+    },
+    chip: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.xs,
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.lg,
+      backgroundColor: theme.colors.subCard,
+      borderWidth: theme.effects.borderWidth.xs,
+      borderColor: theme.colors.borderSoft,
+    },
+    chipSelected: {
+      backgroundColor: theme.colors.primarySoft,
+      borderColor: theme.colors.primary,
+    },
+    chipText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    chipTextSelected: {
+      color: theme.colors.primary,
+    },
+    tagDot: {
+      width: 8,
+      height: 8,
+      borderRadius: 4,
+    },
+    textInput: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.textPrimary,
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.md,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.surface,
+    },
+    hintError: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: theme.colors.error,
+      marginTop: theme.spacing.xs,
+    },
+    row: {
+      flexDirection: "row",
+      alignItems: "center",
+      gap: theme.spacing.sm,
+    },
+    rowInput: {
+      flex: 1,
+    },
+    rowSeparator: {
+      fontSize: theme.typography.fontSize.md,
+      color: theme.colors.textMuted,
+    },
+    optionRow: {
+      gap: theme.spacing.xs,
+      marginBottom: theme.spacing.sm,
+    },
+    optionLabel: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.textSecondary,
+    },
+    footer: {
+      flexDirection: "row",
+      gap: theme.spacing.sm,
+      marginTop: theme.spacing.xl,
+    },
+    resetButton: {
+      flex: 1,
+      paddingVertical: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      borderWidth: theme.effects.borderWidth.md,
+      borderColor: theme.colors.borderSoft,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    resetButtonText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.textSecondary,
+    },
+    applyButton: {
+      flex: 2,
+      paddingVertical: theme.spacing.md,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: theme.colors.primary,
+      alignItems: "center",
+      justifyContent: "center",
+    },
+    applyButtonText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.bold,
+      color: theme.colors.textOnColor,
+    },
+  }));
+};
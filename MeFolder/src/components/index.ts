@@ -3,9 +3,15 @@ export { ColorPicker } from "./ColorPicker";
 export { FloatingTabBar } from "./FloatingTabBar";
 export { MultiActionButton } from "./MultiActionButton";
 export { SearchBox } from "./SearchBox";
+export { SearchFilterPanel } from "./SearchFilterPanel";
 export { ViewDropDown } from "./ViewDropDown";
 export { ViewCards } from "./ViewCards";
-export { ItemCreator, FileCreator, FolderCreator } from "./ItemCreator";
+export {
+  ItemCreator,
+  FileCreator,
+  FolderCreator,
+  SmartFolderCreator,
+} from "./ItemCreator";
 export { OptionDropDown } from "./OptionDropDown";
 export { CustomAlert } from "./CustomAlert";
 export { CustomPopup } from "./CustomAlert";
@@ -16,7 +22,20 @@ export { TagCard } from "./TagCard";
 export { FavoriteTagChip } from "./FavoriteTagChip";
 export { PriorityTagCard } from "./PriorityTagCard";
 export { AlbumCard, AlbumEmptyState } from "./AlbumCard";
-export { ImageViewer, AudioPlayer, VideoPlayer, MediaHost } from "./media";
+export {
+  ImageViewer,
+  AudioPlayer,
+  VideoPlayer,
+  MediaHost,
+  PdfViewer,
+  SpreadsheetViewer,
+  TextViewer,
+  MarkdownView,
+  resolveMediaHostCategory,
+} from "./media";
+export type { MarkdownPalette } from "./media";
 export { MediaImportProgressOverlay } from "./MediaLibraryImport";
 export { SortDropDown } from "./SortDropDown";
 export { TutorialPopup } from "./TutorialPopup";
+export { ArchiveEntryPicker } from "./ArchiveEntryPicker";
+export { JobsIndicator } from "./JobsIndicator";
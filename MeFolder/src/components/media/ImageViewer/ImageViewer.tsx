@@ -3,20 +3,15 @@ import { View, Text, ActivityIndicator } from "react-native";
 import { TouchableOpacity } from "@/components/TouchableOpacity";
 import { Image } from "expo-image";
 import { Ionicons } from "@expo/vector-icons";
-import { GestureDetector, Gesture } from "react-native-gesture-handler";
+import { GestureDetector } from "react-native-gesture-handler";
 import Animated, {
-  useSharedValue,
   useAnimatedStyle,
   withTiming,
 } from "react-native-reanimated";
 import type { ImageViewerProps } from "@/types/media/viewers";
 import { useSaveToMediaLibrary } from "@/hooks/mediaLibrary";
 import { useImageViewerStyles } from "./styles";
-import { scheduleOnRN } from "react-native-worklets";
-
-const MIN_SCALE = 1;
-const MAX_SCALE = 5;
-const SWIPE_SCALE_TOLERANCE = 0.05;
+import { useZoomGestures } from "./useZoomGestures";
 
 export default function ImageViewer({
   source,
@@ -32,135 +27,16 @@ export default function ImageViewer({
     useSaveToMediaLibrary();
   const [isLoading, setIsLoading] = useState(true);
   const [hasError, setHasError] = useState(false);
-  // Controla si el pan interno está activo: solo cuando hay zoom
-  const [isPanEnabled, setIsPanEnabled] = useState(false);
-
-  const notifySwipeAvailability = useCallback(
-    (enabled: boolean) => {
-      // swipeEnabled=true → zoom=1 → pan interno deshabilitado (carrusel gestiona el swipe)
-      setIsPanEnabled(!enabled);
-      onSwipeAvailabilityChange?.(enabled);
-    },
-    [onSwipeAvailabilityChange],
-  );
-
-  const scale = useSharedValue(1);
-  const savedScale = useSharedValue(1);
-  const translateX = useSharedValue(0);
-  const translateY = useSharedValue(0);
-  const savedTranslateX = useSharedValue(0);
-  const savedTranslateY = useSharedValue(0);
-
-  const resetTransform = useCallback(() => {
-    "worklet";
-    scale.value = withTiming(1);
-    savedScale.value = 1;
-    translateX.value = withTiming(0);
-    translateY.value = withTiming(0);
-    savedTranslateX.value = 0;
-    savedTranslateY.value = 0;
-    scheduleOnRN(notifySwipeAvailability, true);
-  }, [
+  const {
+    gesture: composedGesture,
+    animatedStyle: animatedImageStyle,
+    resetTransform,
     notifySwipeAvailability,
-    scale,
-    savedScale,
-    translateX,
-    translateY,
-    savedTranslateX,
-    savedTranslateY,
-  ]);
-
-  const clampTranslation = useCallback(
-    (tx: number, ty: number, s: number) => {
-      "worklet";
-      const maxX = ((s - 1) * viewportWidth) / 2;
-      const maxY = ((s - 1) * viewportHeight) / 2;
-      return {
-        x: Math.min(Math.max(tx, -maxX), maxX),
-        y: Math.min(Math.max(ty, -maxY), maxY),
-      };
-    },
-    [viewportWidth, viewportHeight],
-  );
-
-  const pinchGesture = Gesture.Pinch()
-    .onStart(() => {
-      savedScale.value = scale.value;
-    })
-    .onUpdate((e) => {
-      const newScale = savedScale.value * e.scale;
-      scale.value = Math.min(Math.max(newScale, MIN_SCALE), MAX_SCALE);
-    })
-    .onEnd(() => {
-      if (scale.value < MIN_SCALE) {
-        scale.value = withTiming(MIN_SCALE);
-        savedScale.value = MIN_SCALE;
-      } else {
-        savedScale.value = scale.value;
-      }
-      const clamped = clampTranslation(
-        translateX.value,
-        translateY.value,
-        scale.value,
-      );
-      translateX.value = withTiming(clamped.x);
-      translateY.value = withTiming(clamped.y);
-      savedTranslateX.value = clamped.x;
-      savedTranslateY.value = clamped.y;
-      scheduleOnRN(
-        notifySwipeAvailability,
-        scale.value <= MIN_SCALE + SWIPE_SCALE_TOLERANCE,
-      );
-    });
-
-  const panGesture = Gesture.Pan()
-    .minPointers(1)
-    .maxPointers(2)
-    // Deshabilitado a zoom=1 para que el carrusel reciba el gesto horizontal
-    .enabled(isPanEnabled)
-    .onStart(() => {
-      savedTranslateX.value = translateX.value;
-      savedTranslateY.value = translateY.value;
-    })
-    .onUpdate((e) => {
-      const clamped = clampTranslation(
-        savedTranslateX.value + e.translationX,
-        savedTranslateY.value + e.translationY,
-        scale.value,
-      );
-      translateX.value = clamped.x;
-      translateY.value = clamped.y;
-    })
-    .onEnd(() => {
-      savedTranslateX.value = translateX.value;
-      savedTranslateY.value = translateY.value;
-    });
-
-  const doubleTapGesture = Gesture.Tap()
-    .numberOfTaps(2)
-    .onEnd(() => {
-      if (scale.value > MIN_SCALE) {
-        resetTransform();
-      } else {
-        scale.value = withTiming(3);
-        savedScale.value = 3;
-        scheduleOnRN(notifySwipeAvailability, false);
-      }
-    });
-
-  const composedGesture = Gesture.Simultaneous(
-    pinchGesture,
-    panGesture,
-    doubleTapGesture,
-  );
-
-  const animatedImageStyle = useAnimatedStyle(() => ({
-    transform: [
-      { translateX: translateX.value },
-      { translateY: translateY.value },
-      { scale: scale.value },
-    ],
-  }));
+  } = useZoomGestures({
+    viewportWidth,
+    viewportHeight,
+    onSwipeAvailabilityChange,
+  });
 
   const headerDragStyle = useAnimatedStyle(() => ({
     opacity: withTiming(
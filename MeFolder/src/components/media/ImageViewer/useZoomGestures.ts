@@ -0,0 +1,171 @@
+import { useCallback, useState } from "react";
+import { Gesture } from "react-native-gesture-handler";
+import {
+  useAnimatedStyle,
+  useSharedValue,
+  withTiming,
+} from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+
+export const MIN_SCALE = 1;
+export const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 3;
+const SWIPE_SCALE_TOLERANCE = 0.05;
+
+interface UseZoomGesturesOptions {
+  /** Ancho visible del contenido ampliable */
+  viewportWidth: number;
+  /** Alto visible del contenido ampliable */
+  viewportHeight: number;
+  /** true cuando el contenido vuelve a escala 1 y el swipe exterior puede actuar */
+  onSwipeAvailabilityChange?: ((enabled: boolean) => void) | undefined;
+}
+
+/**
+ * Pinch, arrastre y doble toque para ampliar contenido, como en el visor de
+ * imágenes. El arrastre interno solo se activa con zoom, para que a escala 1
+ * el gesto horizontal llegue a quien esté fuera (carrusel, cambio de página).
+ */
+export function useZoomGestures({
+  viewportWidth,
+  viewportHeight,
+  onSwipeAvailabilityChange,
+}: UseZoomGesturesOptions) {
+  // Controla si el pan interno está activo: solo cuando hay zoom
+  const [isPanEnabled, setIsPanEnabled] = useState(false);
+
+  const notifySwipeAvailability = useCallback(
+    (enabled: boolean) => {
+      // swipeEnabled=true → zoom=1 → pan interno deshabilitado (carrusel gestiona el swipe)
+      setIsPanEnabled(!enabled);
+      onSwipeAvailabilityChange?.(enabled);
+    },
+    [onSwipeAvailabilityChange],
+  );
+
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const resetTransform = useCallback(() => {
+    "worklet";
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    scheduleOnRN(notifySwipeAvailability, true);
+  }, [
+    notifySwipeAvailability,
+    scale,
+    savedScale,
+    translateX,
+    translateY,
+    savedTranslateX,
+    savedTranslateY,
+  ]);
+
+  const clampTranslation = useCallback(
+    (tx: number, ty: number, s: number) => {
+      "worklet";
+      const maxX = ((s - 1) * viewportWidth) / 2;
+      const maxY = ((s - 1) * viewportHeight) / 2;
+      return {
+        x: Math.min(Math.max(tx, -maxX), maxX),
+        y: Math.min(Math.max(ty, -maxY), maxY),
+      };
+    },
+    [viewportWidth, viewportHeight],
+  );
+
+  const pinchGesture = Gesture.Pinch()
+    .onStart(() => {
+      savedScale.value = scale.value;
+    })
+    .onUpdate((e) => {
+      const newScale = savedScale.value * e.scale;
+      scale.value = Math.min(Math.max(newScale, MIN_SCALE), MAX_SCALE);
+    })
+    .onEnd(() => {
+      if (scale.value < MIN_SCALE) {
+        scale.value = withTiming(MIN_SCALE);
+        savedScale.value = MIN_SCALE;
+      } else {
+        savedScale.value = scale.value;
+      }
+      const clamped = clampTranslation(
+        translateX.value,
+        translateY.value,
+        scale.value,
+      );
+      translateX.value = withTiming(clamped.x);
+      translateY.value = withTiming(clamped.y);
+      savedTranslateX.value = clamped.x;
+      savedTranslateY.value = clamped.y;
+      scheduleOnRN(
+        notifySwipeAvailability,
+        scale.value <= MIN_SCALE + SWIPE_SCALE_TOLERANCE,
+      );
+    });
+
+  const panGesture = Gesture.Pan()
+    .minPointers(1)
+    .maxPointers(2)
+    // Deshabilitado a zoom=1 para que el carrusel reciba el gesto horizontal
+    .enabled(isPanEnabled)
+    .onStart(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    })
+    .onUpdate((e) => {
+      const clamped = clampTranslation(
+        savedTranslateX.value + e.translationX,
+        savedTranslateY.value + e.translationY,
+        scale.value,
+      );
+      translateX.value = clamped.x;
+      translateY.value = clamped.y;
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTapGesture = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (scale.value > MIN_SCALE) {
+        resetTransform();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+        scheduleOnRN(notifySwipeAvailability, false);
+      }
+    });
+
+  const gesture = Gesture.Simultaneous(
+    pinchGesture,
+    panGesture,
+    doubleTapGesture,
+  );
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value },
+      { scale: scale.value },
+    ],
+  }));
+
+  return {
+    gesture,
+    animatedStyle,
+    resetTransform,
+    notifySwipeAvailability,
+    isZoomed: isPanEnabled,
+  };
+}
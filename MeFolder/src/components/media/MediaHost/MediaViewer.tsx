@@ -5,6 +5,9 @@ import { Ionicons } from "@expo/vector-icons";
 import { ImageViewer } from "../ImageViewer";
 import { VideoPlayer } from "../VideoPlayer";
 import { AudioPlayer } from "../AudioPlayer";
+import { PdfViewer } from "../PdfViewer";
+import { TextViewer } from "../TextViewer";
+import { SpreadsheetViewer } from "../SpreadsheetViewer";
 import type { MediaHostItem } from "@/types/media/viewers";
 import type { SharedValue } from "react-native-reanimated";
 import { useTheme } from "@/providers/ThemeProvider";
@@ -234,6 +237,45 @@ export const MediaViewer = React.memo(function MediaViewer({
           autoPlay={autoPlay}
         />
       );
+    case "document":
+      if (item.extension === "pdf") {
+        return (
+          <PdfViewer
+            key={itemKey}
+            source={item}
+            onClose={onClose}
+            viewportWidth={viewportWidth}
+            viewportHeight={viewportHeight}
+          />
+        );
+      }
+      return (
+        <TextViewer
+          key={itemKey}
+          source={item}
+          extension={item.extension ?? "txt"}
+          isEditable={item.isEditable === true}
+          onClose={onClose}
+        />
+      );
+    case "code":
+      return (
+        <TextViewer
+          key={itemKey}
+          source={item}
+          extension={item.extension ?? ""}
+          onClose={onClose}
+        />
+      );
+    case "spreadsheet":
+      return (
+        <SpreadsheetViewer
+          key={itemKey}
+          source={item}
+          extension={item.extension ?? "csv"}
+          onClose={onClose}
+        />
+      );
     default:
       return null;
   }
@@ -1 +1,2 @@
 export { default as MediaHost } from "./MediaHost";
+export { resolveMediaHostCategory } from "./mediaHostModel";
@@ -1,6 +1,53 @@
-import type { MediaHostItem } from "@/types/media/viewers";
+import type { FileModel } from "@/models/file";
+import type { FileExtension } from "@/types/common/file-extensions";
+import type { MediaHostCategory, MediaHostItem } from "@/types/media/viewers";
 import type { MediaViewerSharedProps } from "./MediaViewer";
 
+/** Documentos con visor propio: el PDF y los de texto */
+const VIEWABLE_DOCUMENT_EXTENSIONS: ReadonlySet<FileExtension> = new Set([
+  "pdf",
+  "txt",
+  "md",
+]);
+
+/** Formatos de texto de "otros" que se muestran como código */
+const CODE_LIKE_EXTENSIONS: ReadonlySet<FileExtension> = new Set([
+  "json",
+  "xml",
+]);
+
+/** Hojas de cálculo que se leen en el visor de tablas */
+const VIEWABLE_SPREADSHEET_EXTENSIONS: ReadonlySet<FileExtension> = new Set([
+  "csv",
+  "xlsx",
+]);
+
+/**
+ * Categoría con la que se abre un archivo dentro de la app; null si no hay
+ * visor propio y hay que abrirlo con otra app.
+ */
+export function resolveMediaHostCategory(
+  file: Pick<FileModel, "category" | "extension">,
+): MediaHostCategory | null {
+  if (
+    file.category === "image" ||
+    file.category === "video" ||
+    file.category === "audio"
+  ) {
+    return file.category;
+  }
+
+  if (file.category === "code" || CODE_LIKE_EXTENSIONS.has(file.extension)) {
+    return "code";
+  }
+
+  if (VIEWABLE_SPREADSHEET_EXTENSIONS.has(file.extension)) {
+    return "spreadsheet";
+  }
+
+  return VIEWABLE_DOCUMENT_EXTENSIONS.has(file.extension) ? "document" : null;
+}
+
 export const isCarouselItem = (item: MediaHostItem) =>
   item.category === "image" || item.category === "video";
 
@@ -0,0 +1,417 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ActivityIndicator,
+  FlatList,
+  Keyboard,
+  Pressable,
+  Text,
+  TextInput,
+  View,
+} from "react-native";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import { Image } from "expo-image";
+import { Ionicons } from "@expo/vector-icons";
+import { Gesture, GestureDetector } from "react-native-gesture-handler";
+import Animated from "react-native-reanimated";
+import { scheduleOnRN } from "react-native-worklets";
+import type { PdfPageImage, PdfViewerProps } from "@/types/media/viewers";
+import { useZoomGestures } from "../ImageViewer/useZoomGestures";
+import {
+  PDF_THUMBNAIL_GAP,
+  PDF_THUMBNAIL_WIDTH,
+  usePdfViewerStyles,
+} from "./styles";
+import { usePdfDocument } from "./usePdfDocument";
+
+/** Desplazamiento horizontal mínimo para pasar de página con un swipe */
+const PAGE_SWIPE_THRESHOLD = 60;
+
+interface PdfThumbnailItemProps {
+  pageIndex: number;
+  image: PdfPageImage | undefined;
+  isSelected: boolean;
+  onRequest: (pageIndex: number) => void;
+  onPress: (pageIndex: number) => void;
+  styles: ReturnType<typeof usePdfViewerStyles>;
+}
+
+const PdfThumbnailItem = React.memo(function PdfThumbnailItem({
+  pageIndex,
+  image,
+  isSelected,
+  onRequest,
+  onPress,
+  styles,
+}: PdfThumbnailItemProps) {
+  // Las miniaturas se generan al entrar en pantalla, no todas al abrir
+  useEffect(() => {
+    onRequest(pageIndex);
+  }, [onRequest, pageIndex]);
+
+  return (
+    <Pressable
+      style={[styles.thumbnail, isSelected && styles.thumbnailSelected]}
+      onPress={() => onPress(pageIndex)}
+    >
+      {image ? (
+        <Image
+          source={{ uri: image.uri }}
+          style={styles.thumbnailImage}
+          contentFit="contain"
+          transition={0}
+        />
+      ) : null}
+      <Text style={styles.thumbnailLabel}>{pageIndex + 1}</Text>
+    </Pressable>
+  );
+});
+
+export default function PdfViewer({
+  source,
+  onClose,
+  viewportWidth,
+  viewportHeight,
+}: PdfViewerProps) {
+  const styles = usePdfViewerStyles();
+  const {
+    pageCount,
+    currentPage,
+    pages,
+    thumbnails,
+    error,
+    isSearchAvailable,
+    isSearching,
+    searchResults,
+    goToPage,
+    renderThumbnail,
+    prepareSearch,
+    search,
+    clearSearch,
+  } = usePdfDocument(source);
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [isEditingPage, setIsEditingPage] = useState(false);
+  const [pageInput, setPageInput] = useState("");
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const thumbnailListRef = useRef<FlatList<number>>(null);
+
+  const {
+    gesture: zoomGesture,
+    animatedStyle,
+    resetTransform,
+    isZoomed,
+  } = useZoomGestures({ viewportWidth, viewportHeight });
+
+  const changePage = useCallback(
+    (pageIndex: number) => {
+      resetTransform();
+      goToPage(pageIndex);
+    },
+    [goToPage, resetTransform],
+  );
+
+  const goToPreviousPage = useCallback(
+    () => changePage(currentPage - 1),
+    [changePage, currentPage],
+  );
+  const goToNextPage = useCallback(
+    () => changePage(currentPage + 1),
+    [changePage, currentPage],
+  );
+
+  // A escala 1 el arrastre horizontal pasa de página; con zoom lo usa el pan
+  const pageSwipeGesture = Gesture.Pan()
+    .enabled(!isZoomed)
+    .activeOffsetX([-20, 20])
+    .failOffsetY([-20, 20])
+    .onEnd((e) => {
+      if (e.translationX <= -PAGE_SWIPE_THRESHOLD) {
+        scheduleOnRN(goToNextPage);
+      } else if (e.translationX >= PAGE_SWIPE_THRESHOLD) {
+        scheduleOnRN(goToPreviousPage);
+      }
+    });
+
+  const pageGesture = Gesture.Simultaneous(zoomGesture, pageSwipeGesture);
+
+  useEffect(() => {
+    if (!showThumbnails || pageCount === 0) return;
+    thumbnailListRef.current?.scrollToIndex({
+      index: currentPage,
+      viewPosition: 0.5,
+      animated: true,
+    });
+  }, [currentPage, pageCount, showThumbnails]);
+
+  const pageIndexes = useMemo(
+    () => Array.from({ length: pageCount }, (_, index) => index),
+    [pageCount],
+  );
+
+  const handleSubmitSearch = useCallback(() => {
+    setSubmittedQuery(searchQuery.trim());
+    void search(searchQuery);
+  }, [search, searchQuery]);
+
+  const handleToggleSearch = useCallback(() => {
+    if (isSearchOpen) {
+      setSearchQuery("");
+      setSubmittedQuery("");
+      clearSearch();
+    } else {
+      void prepareSearch();
+    }
+    setIsSearchOpen((prev) => !prev);
+  }, [clearSearch, isSearchOpen, prepareSearch]);
+
+  const handleSelectResult = useCallback(
+    (pageIndex: number) => {
+      Keyboard.dismiss();
+      changePage(pageIndex);
+    },
+    [changePage],
+  );
+
+  const handleStartPageEdit = useCallback(() => {
+    setPageInput(String(currentPage + 1));
+    setIsEditingPage(true);
+  }, [currentPage]);
+
+  const handleSubmitPage = useCallback(() => {
+    const pageNumber = Number.parseInt(pageInput, 10);
+    if (Number.isInteger(pageNumber)) {
+      changePage(pageNumber - 1);
+    }
+    setIsEditingPage(false);
+  }, [changePage, pageInput]);
+
+  const currentPageImage = pages[currentPage];
+
+  const renderContent = () => {
+    if (error) {
+      return (
+        <View style={styles.errorContainer}>
+          <Ionicons name="document-text-outline" size={64} color="#666" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.pageContainer}>
+        {currentPageImage ? (
+          <GestureDetector gesture={pageGesture}>
+            <Animated.View style={[styles.page, animatedStyle]}>
+              <Image
+                source={{ uri: currentPageImage.uri }}
+                style={styles.page}
+                contentFit="contain"
+                transition={0}
+              />
+            </Animated.View>
+          </GestureDetector>
+        ) : null}
+        {!currentPageImage && (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#FFFFFF" />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {source.displayName ?? "Documento"}
+          </Text>
+
+          <TouchableOpacity
+            style={[
+              styles.headerButton,
+              !isSearchAvailable && styles.headerButtonDisabled,
+            ]}
+            onPress={handleToggleSearch}
+            activeOpacity={0.7}
+            disabled={!isSearchAvailable}
+          >
+            <Ionicons
+              name={isSearchOpen ? "close-circle-outline" : "search"}
+              size={24}
+              color="#FFFFFF"
+            />
+          </TouchableOpacity>
+        </View>
+
+        {isSearchOpen && (
+          <>
+            <View style={styles.searchBar}>
+              <Ionicons
+                name="search"
+                size={18}
+                color={styles.placeholderColor.color}
+              />
+              <TextInput
+                style={styles.searchInput}
+                value={searchQuery}
+                onChangeText={setSearchQuery}
+                onSubmitEditing={handleSubmitSearch}
+                placeholder="Buscar en el documento"
+                placeholderTextColor={styles.placeholderColor.color}
+                returnKeyType="search"
+                autoFocus
+                autoCorrect={false}
+              />
+              {isSearching ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : submittedQuery ? (
+                <Text style={styles.searchStatus}>
+                  {searchResults.length === 1
+                    ? "1 resultado"
+                    : `${searchResults.length} resultados`}
+                </Text>
+              ) : null}
+            </View>
+
+            {searchResults.length > 0 && (
+              <FlatList
+                style={styles.searchResults}
+                data={searchResults}
+                keyExtractor={(item, index) => `${item.pageIndex}:${index}`}
+                keyboardShouldPersistTaps="handled"
+                renderItem={({ item }) => (
+                  <Pressable
+                    style={styles.searchResult}
+                    onPress={() => handleSelectResult(item.pageIndex)}
+                  >
+                    <Text style={styles.searchResultPage}>
+                      Página {item.pageIndex + 1}
+                    </Text>
+                    <Text style={styles.searchResultSnippet} numberOfLines={2}>
+                      {item.snippet}
+                    </Text>
+                  </Pressable>
+                )}
+              />
+            )}
+          </>
+        )}
+      </View>
+
+      {renderContent()}
+
+      {pageCount > 0 && (
+        <View style={styles.footer}>
+          {showThumbnails && (
+            <FlatList
+              ref={thumbnailListRef}
+              horizontal
+              data={pageIndexes}
+              keyExtractor={(item) => String(item)}
+              contentContainerStyle={styles.thumbnailStrip}
+              showsHorizontalScrollIndicator={false}
+              initialScrollIndex={currentPage}
+              getItemLayout={(_, index) => ({
+                length: PDF_THUMBNAIL_WIDTH + PDF_THUMBNAIL_GAP,
+                offset: (PDF_THUMBNAIL_WIDTH + PDF_THUMBNAIL_GAP) * index,
+                index,
+              })}
+              onScrollToIndexFailed={() => undefined}
+              renderItem={({ item }) => (
+                <PdfThumbnailItem
+                  pageIndex={item}
+                  image={thumbnails[item]}
+                  isSelected={item === currentPage}
+                  onRequest={renderThumbnail}
+                  onPress={changePage}
+                  styles={styles}
+                />
+              )}
+            />
+          )}
+
+          <View style={styles.footerRow}>
+            <TouchableOpacity
+              style={[
+                styles.headerButton,
+                currentPage === 0 && styles.headerButtonDisabled,
+              ]}
+              onPress={goToPreviousPage}
+              disabled={currentPage === 0}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-back" size={26} color="#FFFFFF" />
+            </TouchableOpacity>
+
+            {isEditingPage ? (
+              <View style={styles.pageIndicator}>
+                <TextInput
+                  style={styles.pageInput}
+                  value={pageInput}
+                  onChangeText={setPageInput}
+                  onSubmitEditing={handleSubmitPage}
+                  onBlur={() => setIsEditingPage(false)}
+                  keyboardType="number-pad"
+                  returnKeyType="go"
+                  selectTextOnFocus
+                  autoFocus
+                />
+              </View>
+            ) : (
+              <Pressable
+                style={styles.pageIndicator}
+                onPress={handleStartPageEdit}
+              >
+                <Text style={styles.pageIndicatorText}>
+                  {currentPage + 1} / {pageCount}
+                </Text>
+              </Pressable>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.headerButton,
+                currentPage >= pageCount - 1 && styles.headerButtonDisabled,
+              ]}
+              onPress={goToNextPage}
+              disabled={currentPage >= pageCount - 1}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-forward" size={26} color="#FFFFFF" />
+            </TouchableOpacity>
+
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => setShowThumbnails((prev) => !prev)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={showThumbnails ? "albums" : "albums-outline"}
+                size={24}
+                color="#FFFFFF"
+              />
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
@@ -0,0 +1 @@
+export { default as PdfViewer } from "./PdfViewer";
@@ -0,0 +1,192 @@
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useStyles } from "@/hooks/useStyles";
+
+export const PDF_THUMBNAIL_WIDTH = 56;
+export const PDF_THUMBNAIL_HEIGHT = 76;
+export const PDF_THUMBNAIL_GAP = 8;
+
+export const usePdfViewerStyles = () => {
+  const insets = useSafeAreaInsets();
+
+  return useStyles((theme) => ({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.colors.mediaBackdrop,
+    },
+    header: {
+      paddingTop: Math.max(insets.top + theme.spacing.sm, 50),
+      paddingBottom: theme.spacing.sm,
+      zIndex: 10,
+    },
+    headerRow: {
+      width: "100%",
+      paddingHorizontal: theme.spacing.md,
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      justifyContent: "space-between" as const,
+      backgroundColor: "rgba(80, 80, 80, 0.45)",
+    },
+    headerButton: {
+      width: 44,
+      height: 44,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    headerButtonDisabled: {
+      opacity: 0.45,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: "#FFFFFF",
+      textAlign: "center" as const,
+      marginHorizontal: theme.spacing.sm,
+    },
+    searchBar: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      marginHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(255, 255, 255, 0.12)",
+      gap: theme.spacing.xs,
+    },
+    searchInput: {
+      flex: 1,
+      height: 40,
+      color: "#FFFFFF",
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+    },
+    searchStatus: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.7)",
+    },
+    searchResults: {
+      maxHeight: 220,
+      marginHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.xs,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(30, 30, 30, 0.92)",
+    },
+    searchResult: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.sm,
+      borderBottomWidth: 1,
+      borderBottomColor: "rgba(255, 255, 255, 0.08)",
+    },
+    searchResultPage: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: theme.colors.primary,
+    },
+    searchResultSnippet: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: "#FFFFFF",
+      marginTop: 2,
+    },
+    pageContainer: {
+      flex: 1,
+      overflow: "hidden" as const,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    page: {
+      width: "100%" as const,
+      height: "100%" as const,
+    },
+    footer: {
+      paddingBottom: Math.max(insets.bottom, theme.spacing.sm),
+      backgroundColor: "rgba(80, 80, 80, 0.45)",
+    },
+    footerRow: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      justifyContent: "space-between" as const,
+      paddingHorizontal: theme.spacing.md,
+    },
+    pageIndicator: {
+      minWidth: 120,
+      height: 44,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    pageIndicatorText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "#FFFFFF",
+    },
+    pageInput: {
+      minWidth: 64,
+      height: 36,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.xs,
+      backgroundColor: "rgba(255, 255, 255, 0.16)",
+      color: "#FFFFFF",
+      textAlign: "center" as const,
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+    },
+    thumbnailStrip: {
+      paddingHorizontal: theme.spacing.md,
+      paddingBottom: theme.spacing.sm,
+      gap: PDF_THUMBNAIL_GAP,
+    },
+    thumbnail: {
+      width: PDF_THUMBNAIL_WIDTH,
+      height: PDF_THUMBNAIL_HEIGHT,
+      borderRadius: theme.effects.radius.xs,
+      borderWidth: 2,
+      borderColor: "transparent",
+      overflow: "hidden" as const,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+      backgroundColor: "rgba(255, 255, 255, 0.1)",
+    },
+    thumbnailSelected: {
+      borderColor: theme.colors.primary,
+    },
+    thumbnailImage: {
+      width: "100%" as const,
+      height: "100%" as const,
+    },
+    thumbnailLabel: {
+      position: "absolute" as const,
+      bottom: 2,
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: "#FFFFFF",
+      textShadowColor: "rgba(0, 0, 0, 0.8)",
+      textShadowRadius: 2,
+    },
+    loadingContainer: {
+      position: "absolute" as const,
+      top: 0,
+      right: 0,
+      bottom: 0,
+      left: 0,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    errorContainer: {
+      flex: 1,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+      paddingHorizontal: theme.spacing.xl,
+    },
+    errorText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.error,
+      textAlign: "center" as const,
+      marginTop: theme.spacing.md,
+    },
+    placeholderColor: {
+      color: "rgba(255, 255, 255, 0.5)",
+    },
+  }));
+};
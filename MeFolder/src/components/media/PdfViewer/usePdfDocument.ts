@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import PdfThumbnail from "react-native-pdf-thumbnail";
+import { FileSystemService } from "@/services";
+import type {
+  MediaSource,
+  PdfPageImage,
+  PdfSearchResult,
+} from "@/types/media/viewers";
+import {
+  buildMatchSnippet,
+  findTextMatches,
+  openPdfDocument,
+  type PdfDocument,
+} from "@/utils/document";
+
+const LAST_PAGE_KEY_PREFIX = "mefolder:pdf-last-page:";
+const PAGE_QUALITY = 90;
+const THUMBNAIL_QUALITY = 30;
+/** Coincidencias por página como mucho, para que una palabra común no inunde la lista */
+const MAX_MATCHES_PER_PAGE = 20;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Estado de un PDF abierto en el visor. Las páginas las dibuja el renderizador
+ * nativo a imagen bajo demanda, sin esperar al lector JS de `utils/document`,
+ * que da el número de páginas y extrae el texto cuando se abre la búsqueda.
+ */
+export function usePdfDocument(source: MediaSource) {
+  const fsRef = useRef(new FileSystemService());
+  const documentRef = useRef<PdfDocument | null>(null);
+  // Texto de cada página, extraído la primera vez que se abre la búsqueda
+  const textIndexRef = useRef<Promise<string[]> | null>(null);
+  const generatedUrisRef = useRef(new Set<string>());
+  // Páginas y miniaturas ya pedidas, para no generarlas dos veces
+  const requestedPagesRef = useRef(new Set<number>());
+  const requestedThumbnailsRef = useRef(new Set<number>());
+  const searchIdRef = useRef(0);
+
+  const [pageCount, setPageCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [pages, setPages] = useState<Record<number, PdfPageImage>>({});
+  const [thumbnails, setThumbnails] = useState<Record<number, PdfPageImage>>(
+    {},
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isSearchAvailable, setIsSearchAvailable] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [searchResults, setSearchResults] = useState<PdfSearchResult[]>([]);
+
+  const storageKey = `${LAST_PAGE_KEY_PREFIX}${source.fileId ?? source.uri}`;
+
+  const trackGenerated = useCallback((image: PdfPageImage) => {
+    generatedUrisRef.current.add(image.uri);
+    return image;
+  }, []);
+
+  const renderPage = useCallback(
+    async (pageIndex: number) => {
+      if (requestedPagesRef.current.has(pageIndex)) return;
+      requestedPagesRef.current.add(pageIndex);
+      try {
+        const image = await PdfThumbnail.generate(
+          source.uri,
+          pageIndex,
+          PAGE_QUALITY,
+        );
+        setPages((prev) => ({ ...prev, [pageIndex]: trackGenerated(image) }));
+      } catch (renderError) {
+        requestedPagesRef.current.delete(pageIndex);
+        console.warn(
+          `[PdfViewer] No se pudo dibujar la página ${pageIndex + 1}:`,
+          renderError,
+        );
+      }
+    },
+    [source.uri, trackGenerated],
+  );
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      setIsLoading(true);
+      setError(null);
+
+      // El renderizador nativo no depende del lector JS: la página en la que se
+      // quedó el usuario se pide ya, mientras se cuentan las páginas.
+      const storedPage = await AsyncStorage.getItem(storageKey).catch(
+        () => null,
+      );
+      const lastPage = Number(storedPage);
+      const initialPage =
+        Number.isInteger(lastPage) && lastPage > 0 ? lastPage : 0;
+      if (isCancelled) return;
+      setCurrentPage(initialPage);
+      void renderPage(initialPage);
+
+      let count = 0;
+      const bytes = await fsRef.current.readAsBytes(source.uri);
+      if (bytes.success && bytes.data) {
+        try {
+          const document = await openPdfDocument(bytes.data);
+          documentRef.current = document;
+          textIndexRef.current = null;
+          count = document.pageCount;
+        } catch (parseError) {
+          console.warn(
+            "[PdfViewer] No se pudo leer el texto del PDF:",
+            parseError,
+          );
+        }
+      }
+
+      // PDF cifrado o con una estructura que el lector JS no entiende: el
+      // renderizador nativo todavía puede mostrarlo, aunque sin búsqueda.
+      if (count === 0) {
+        try {
+          const allPages = await PdfThumbnail.generateAllPages(
+            source.uri,
+            THUMBNAIL_QUALITY,
+          );
+          count = allPages.length;
+          if (!isCancelled) {
+            allPages.forEach((_, index) =>
+              requestedThumbnailsRef.current.add(index),
+            );
+            setThumbnails(
+              Object.fromEntries(
+                allPages.map((image, index) => [index, trackGenerated(image)]),
+              ),
+            );
+          }
+        } catch (renderError) {
+          console.warn("[PdfViewer] No se pudo abrir el PDF:", renderError);
+        }
+      }
+
+      if (isCancelled) return;
+      if (count === 0) {
+        setError("No se pudo abrir el PDF");
+        setIsLoading(false);
+        return;
+      }
+
+      setPageCount(count);
+      setIsSearchAvailable(documentRef.current !== null);
+      if (initialPage >= count) setCurrentPage(0);
+      setIsLoading(false);
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [renderPage, source.uri, storageKey, trackGenerated]);
+
+  // Las imágenes de las páginas son temporales: se borran al cerrar el visor
+  useEffect(() => {
+    const fs = fsRef.current;
+    const generatedUris = generatedUrisRef.current;
+    return () => {
+      searchIdRef.current++;
+      // Corta la extracción de texto que esté en marcha
+      documentRef.current = null;
+      generatedUris.forEach((uri) => {
+        if (fs.fileExists(uri)) fs.deleteFile(uri);
+      });
+      generatedUris.clear();
+    };
+  }, []);
+
+  const renderThumbnail = useCallback(
+    async (pageIndex: number) => {
+      if (requestedThumbnailsRef.current.has(pageIndex)) return;
+      requestedThumbnailsRef.current.add(pageIndex);
+      try {
+        const image = await PdfThumbnail.generate(
+          source.uri,
+          pageIndex,
+          THUMBNAIL_QUALITY,
+        );
+        setThumbnails((prev) => ({
+          ...prev,
+          [pageIndex]: trackGenerated(image),
+        }));
+      } catch {
+        // Sin miniatura se muestra solo el número de página.
+      }
+    },
+    [source.uri, trackGenerated],
+  );
+
+  // Dibuja la página actual y prepara las vecinas para pasar sin esperas
+  useEffect(() => {
+    if (pageCount === 0) return;
+    void renderPage(currentPage);
+    if (currentPage + 1 < pageCount) void renderPage(currentPage + 1);
+    if (currentPage > 0) void renderPage(currentPage - 1);
+  }, [currentPage, pageCount, renderPage]);
+
+  const goToPage = useCallback(
+    (pageIndex: number) => {
+      if (pageCount === 0) return;
+      const nextPage = Math.min(Math.max(pageIndex, 0), pageCount - 1);
+      setCurrentPage(nextPage);
+      void AsyncStorage.setItem(storageKey, String(nextPage)).catch(() => {});
+    },
+    [pageCount, storageKey],
+  );
+
+  /**
+   * Extrae el texto de todas las páginas la primera vez que se llama, cediendo
+   * el hilo entre páginas para no congelar la interfaz. El visor la llama al
+   * abrir la búsqueda para que el texto esté listo al escribir la consulta.
+   */
+  const prepareSearch = useCallback((): Promise<string[]> => {
+    const document = documentRef.current;
+    if (!document) return Promise.resolve([]);
+
+    textIndexRef.current ??= (async () => {
+      const texts: string[] = [];
+      for (let pageIndex = 0; pageIndex < document.pageCount; pageIndex++) {
+        try {
+          texts.push(document.getPageText(pageIndex));
+        } catch {
+          texts.push("");
+        }
+        await yieldToEventLoop();
+        if (documentRef.current !== document) break;
+      }
+      return texts;
+    })();
+    return textIndexRef.current;
+  }, []);
+
+  /** Busca `query` en todas las páginas, esperando al texto si aún se extrae */
+  const search = useCallback(
+    async (query: string) => {
+      const searchId = ++searchIdRef.current;
+      if (!documentRef.current || !query.trim()) {
+        setSearchResults([]);
+        setIsSearching(false);
+        return;
+      }
+
+      setIsSearching(true);
+      setSearchResults([]);
+      const texts = await prepareSearch();
+      if (searchId !== searchIdRef.current) return;
+
+      const results: PdfSearchResult[] = [];
+      texts.forEach((text, pageIndex) => {
+        for (const match of findTextMatches(
+          text,
+          query,
+          MAX_MATCHES_PER_PAGE,
+        )) {
+          results.push({ pageIndex, snippet: buildMatchSnippet(text, match) });
+        }
+      });
+
+      setSearchResults(results);
+      setIsSearching(false);
+    },
+    [prepareSearch],
+  );
+
+  const clearSearch = useCallback(() => {
+    searchIdRef.current++;
+    setSearchResults([]);
+    setIsSearching(false);
+  }, []);
+
+  return {
+    pageCount,
+    currentPage,
+    pages,
+    thumbnails,
+    isLoading,
+    error,
+    isSearchAvailable,
+    isSearching,
+    searchResults,
+    goToPage,
+    renderThumbnail,
+    prepareSearch,
+    search,
+    clearSearch,
+  };
+}
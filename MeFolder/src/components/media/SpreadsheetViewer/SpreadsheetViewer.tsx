@@ -0,0 +1,571 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ActivityIndicator,
+  type NativeScrollEvent,
+  type NativeSyntheticEvent,
+  ScrollView,
+  Text,
+  TextInput,
+  useWindowDimensions,
+  View,
+} from "react-native";
+import { FlashList, type FlashListRef } from "@shopify/flash-list";
+import { Ionicons } from "@expo/vector-icons";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import type { SpreadsheetViewerProps } from "@/types/media/viewers";
+import {
+  CSV_DELIMITER_LABELS,
+  CSV_DELIMITERS,
+  getColumnLabel,
+  MAX_SPREADSHEET_ROWS,
+  parseCellNumber,
+  TEXT_ENCODING_LABELS,
+} from "@/utils/document";
+import { useSpreadsheetViewerStyles } from "./styles";
+import {
+  type ColumnLayout,
+  type ColumnRange,
+  EMPTY_COLUMN_RANGE,
+  findVisibleColumns,
+  getRowNumberWidth,
+  isSameColumnRange,
+  measureColumns,
+} from "./spreadsheetViewerModel";
+import {
+  type SpreadsheetSort,
+  useSpreadsheetDocument,
+} from "./useSpreadsheetDocument";
+
+type SpreadsheetStyles = ReturnType<typeof useSpreadsheetViewerStyles>;
+
+interface GridRowProps {
+  row: string[];
+  /** Número de la fila en la hoja original, empezando en 1 */
+  rowNumber: number;
+  isAlternate: boolean;
+  layout: ColumnLayout;
+  range: ColumnRange;
+  rowNumberWidth: number;
+  matchedColumns: Set<number> | undefined;
+  activeColumn: number | null;
+  styles: SpreadsheetStyles;
+}
+
+/** Fila del cuerpo: solo pinta las celdas de las columnas visibles */
+const GridRow = React.memo(function GridRow({
+  row,
+  rowNumber,
+  isAlternate,
+  layout,
+  range,
+  rowNumberWidth,
+  matchedColumns,
+  activeColumn,
+  styles,
+}: GridRowProps) {
+  const cells: React.ReactNode[] = [];
+  for (let column = range.first; column <= range.last; column++) {
+    const value = row[column] ?? "";
+    const isActive = activeColumn === column;
+    cells.push(
+      <View
+        key={column}
+        style={[
+          styles.cell,
+          {
+            left: rowNumberWidth + layout.offsets[column]!,
+            width: layout.widths[column]!,
+          },
+          matchedColumns?.has(column) && styles.cellMatch,
+          isActive && styles.cellMatchActive,
+        ]}
+      >
+        <Text
+          style={[
+            styles.cellText,
+            value !== "" &&
+              parseCellNumber(value) !== null &&
+              styles.cellTextNumeric,
+            isActive && styles.cellTextMatchActive,
+          ]}
+          numberOfLines={1}
+        >
+          {value}
+        </Text>
+      </View>,
+    );
+  }
+
+  return (
+    <View
+      style={[
+        styles.gridRow,
+        { width: rowNumberWidth + layout.totalWidth },
+        isAlternate && styles.gridRowAlternate,
+      ]}
+    >
+      <View style={[styles.cell, { left: 0, width: rowNumberWidth }]}>
+        <Text style={styles.rowNumberText}>{rowNumber}</Text>
+      </View>
+      {cells}
+    </View>
+  );
+});
+
+interface GridHeaderProps {
+  header: string[];
+  layout: ColumnLayout;
+  range: ColumnRange;
+  rowNumberWidth: number;
+  sort: SpreadsheetSort | null;
+  matchedColumns: Set<number> | undefined;
+  activeColumn: number | null;
+  onSort: (columnIndex: number) => void;
+  styles: SpreadsheetStyles;
+}
+
+/** Cabecera fija: la primera fila de la hoja; al tocar una columna se ordena */
+function GridHeader({
+  header,
+  layout,
+  range,
+  rowNumberWidth,
+  sort,
+  matchedColumns,
+  activeColumn,
+  onSort,
+  styles,
+}: GridHeaderProps) {
+  const cells: React.ReactNode[] = [];
+  for (let column = range.first; column <= range.last; column++) {
+    const isSorted = sort?.columnIndex === column;
+    const isActive = activeColumn === column;
+    cells.push(
+      <TouchableOpacity
+        key={column}
+        style={[
+          styles.cell,
+          styles.headerCell,
+          {
+            left: rowNumberWidth + layout.offsets[column]!,
+            width: layout.widths[column]!,
+          },
+          matchedColumns?.has(column) && styles.cellMatch,
+          isActive && styles.cellMatchActive,
+        ]}
+        onPress={() => onSort(column)}
+        activeOpacity={0.7}
+      >
+        <Text
+          style={[
+            styles.headerCellText,
+            isActive && styles.cellTextMatchActive,
+          ]}
+          numberOfLines={1}
+        >
+          {header[column] || getColumnLabel(column)}
+        </Text>
+        {isSorted && (
+          <Ionicons
+            name={sort.direction === "asc" ? "arrow-up" : "arrow-down"}
+            size={14}
+            color={isActive ? "#1A1A17" : "#FFFFFF"}
+          />
+        )}
+      </TouchableOpacity>,
+    );
+  }
+
+  return (
+    <View
+      style={[styles.gridHeader, { width: rowNumberWidth + layout.totalWidth }]}
+    >
+      <View style={[styles.cell, { left: 0, width: rowNumberWidth }]}>
+        <Text style={styles.rowNumberText}>1</Text>
+      </View>
+      {cells}
+    </View>
+  );
+}
+
+export default function SpreadsheetViewer({
+  source,
+  extension,
+  onClose,
+}: SpreadsheetViewerProps) {
+  const styles = useSpreadsheetViewerStyles();
+  const { width: windowWidth } = useWindowDimensions();
+  const {
+    table,
+    header,
+    rowOrder,
+    positionByRow,
+    sheetNames,
+    activeSheetIndex,
+    selectSheet,
+    csvInfo,
+    changeDelimiter,
+    isLoading,
+    error,
+    sort,
+    toggleSort,
+    isSearching,
+    matches,
+    matchesByRow,
+    activeMatch,
+    activeMatchIndex,
+    search,
+    clearSearch,
+    stepMatch,
+  } = useSpreadsheetDocument(source, extension);
+
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const [viewportWidth, setViewportWidth] = useState(windowWidth);
+  const [visibleColumns, setVisibleColumns] =
+    useState<ColumnRange>(EMPTY_COLUMN_RANGE);
+  const listRef = useRef<FlashListRef<number>>(null);
+  const horizontalScrollRef = useRef<ScrollView>(null);
+  const scrollXRef = useRef(0);
+
+  const layout = useMemo(
+    () =>
+      table
+        ? measureColumns(table.rows, table.columnCount)
+        : measureColumns([], 0),
+    [table],
+  );
+  const rowNumberWidth = getRowNumberWidth(table?.rows.length ?? 0);
+
+  const updateVisibleColumns = useCallback(
+    (scrollX: number) => {
+      const next = findVisibleColumns(
+        layout,
+        scrollX - rowNumberWidth,
+        viewportWidth,
+      );
+      setVisibleColumns((prev) =>
+        isSameColumnRange(prev, next) ? prev : next,
+      );
+    },
+    [layout, rowNumberWidth, viewportWidth],
+  );
+
+  // Una tabla nueva (otra hoja u otro separador) empieza desde la izquierda
+  useEffect(() => {
+    scrollXRef.current = 0;
+    horizontalScrollRef.current?.scrollTo({ x: 0, animated: false });
+  }, [table]);
+
+  useEffect(() => {
+    updateVisibleColumns(scrollXRef.current);
+  }, [updateVisibleColumns]);
+
+  const handleHorizontalScroll = useCallback(
+    (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+      scrollXRef.current = event.nativeEvent.contentOffset.x;
+      updateVisibleColumns(scrollXRef.current);
+    },
+    [updateVisibleColumns],
+  );
+
+  // Lleva a la vista la celda de la coincidencia activa: su fila y su columna
+  useEffect(() => {
+    if (!activeMatch) return;
+    const position = positionByRow.get(activeMatch.rowIndex) ?? -1;
+    if (position >= 0) {
+      void listRef.current?.scrollToIndex({
+        index: position,
+        viewPosition: 0.3,
+        animated: true,
+      });
+    }
+    horizontalScrollRef.current?.scrollTo({
+      x: Math.max(
+        0,
+        rowNumberWidth +
+          (layout.offsets[activeMatch.columnIndex] ?? 0) -
+          viewportWidth / 3,
+      ),
+      animated: true,
+    });
+  }, [activeMatch, layout, positionByRow, rowNumberWidth, viewportWidth]);
+
+  const handleSubmitSearch = useCallback(() => {
+    setSubmittedQuery(searchQuery.trim());
+    void search(searchQuery);
+  }, [search, searchQuery]);
+
+  const handleToggleSearch = useCallback(() => {
+    if (isSearchOpen) {
+      setSearchQuery("");
+      setSubmittedQuery("");
+      clearSearch();
+    }
+    setIsSearchOpen((prev) => !prev);
+  }, [clearSearch, isSearchOpen]);
+
+  const handleCycleDelimiter = useCallback(() => {
+    if (!csvInfo) return;
+    const index = CSV_DELIMITERS.indexOf(csvInfo.delimiter);
+    changeDelimiter(CSV_DELIMITERS[(index + 1) % CSV_DELIMITERS.length]!);
+  }, [changeDelimiter, csvInfo]);
+
+  const renderSearchStatus = () => {
+    if (isSearching) {
+      return <ActivityIndicator size="small" color="#FFFFFF" />;
+    }
+    if (!submittedQuery) return null;
+    return (
+      <Text style={styles.searchStatus}>
+        {matches.length === 0
+          ? "Sin resultados"
+          : `${activeMatchIndex + 1} / ${matches.length}`}
+      </Text>
+    );
+  };
+
+  const renderGrid = () => {
+    if (!table) return null;
+    if (table.rows.length === 0) {
+      return (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.emptyText}>La hoja está vacía</Text>
+        </View>
+      );
+    }
+
+    // La cabecera va fuera de la lista vertical, así se queda fija arriba; las
+    // dos comparten el scroll horizontal y solo pintan las columnas visibles
+    return (
+      <ScrollView
+        ref={horizontalScrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        onScroll={handleHorizontalScroll}
+        scrollEventThrottle={16}
+        onLayout={(event) => setViewportWidth(event.nativeEvent.layout.width)}
+      >
+        <View style={{ width: rowNumberWidth + layout.totalWidth }}>
+          <GridHeader
+            header={header}
+            layout={layout}
+            range={visibleColumns}
+            rowNumberWidth={rowNumberWidth}
+            sort={sort}
+            matchedColumns={matchesByRow.get(0)}
+            activeColumn={
+              activeMatch?.rowIndex === 0 ? activeMatch.columnIndex : null
+            }
+            onSort={toggleSort}
+            styles={styles}
+          />
+          <FlashList
+            ref={listRef}
+            data={rowOrder}
+            keyExtractor={(rowIndex) => String(rowIndex)}
+            extraData={`${visibleColumns.first}:${visibleColumns.last}:${activeMatchIndex}:${matches.length}`}
+            renderItem={({ item: rowIndex, index }) => (
+              <GridRow
+                row={table.rows[rowIndex]!}
+                rowNumber={rowIndex + 1}
+                isAlternate={index % 2 === 1}
+                layout={layout}
+                range={visibleColumns}
+                rowNumberWidth={rowNumberWidth}
+                matchedColumns={matchesByRow.get(rowIndex)}
+                activeColumn={
+                  activeMatch?.rowIndex === rowIndex
+                    ? activeMatch.columnIndex
+                    : null
+                }
+                styles={styles}
+              />
+            )}
+          />
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#FFFFFF" />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.errorContainer}>
+          <Ionicons name="grid-outline" size={64} color="#666" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      );
+    }
+
+    return renderGrid();
+  };
+
+  const renderFooter = () => {
+    if (!table && sheetNames.length === 0) return null;
+
+    const summary = table
+      ? [
+          `${rowOrder.length.toLocaleString("es-ES")} filas`,
+          `${table.columnCount.toLocaleString("es-ES")} columnas`,
+          ...(table.isTruncated
+            ? [
+                `solo las primeras ${MAX_SPREADSHEET_ROWS.toLocaleString("es-ES")}`,
+              ]
+            : []),
+          ...(csvInfo ? [TEXT_ENCODING_LABELS[csvInfo.encoding]] : []),
+        ].join(" · ")
+      : "";
+
+    return (
+      <View style={styles.footer}>
+        {sheetNames.length > 1 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            contentContainerStyle={styles.sheetTabs}
+          >
+            {sheetNames.map((name, index) => {
+              const isActive = index === activeSheetIndex;
+              return (
+                <TouchableOpacity
+                  key={`${index}:${name}`}
+                  style={[styles.sheetTab, isActive && styles.sheetTabActive]}
+                  onPress={() => void selectSheet(index)}
+                  disabled={isLoading}
+                  activeOpacity={0.7}
+                >
+                  <Text
+                    style={[
+                      styles.sheetTabText,
+                      isActive && styles.sheetTabTextActive,
+                    ]}
+                    numberOfLines={1}
+                  >
+                    {name}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        )}
+
+        <View style={styles.footerRow}>
+          <Text style={styles.footerText} numberOfLines={1}>
+            {summary}
+          </Text>
+          {csvInfo && (
+            <TouchableOpacity
+              style={styles.footerButton}
+              onPress={handleCycleDelimiter}
+              disabled={isLoading}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="swap-horizontal" size={14} color="#FFFFFF" />
+              <Text style={styles.footerButtonText}>
+                {CSV_DELIMITER_LABELS[csvInfo.delimiter]}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {source.displayName ?? "Hoja de cálculo"}
+          </Text>
+
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleToggleSearch}
+            activeOpacity={0.7}
+            disabled={isLoading || error !== null}
+          >
+            <Ionicons
+              name={isSearchOpen ? "close-circle-outline" : "search"}
+              size={24}
+              color="#FFFFFF"
+            />
+          </TouchableOpacity>
+        </View>
+
+        {isSearchOpen && (
+          <View style={styles.searchBar}>
+            <Ionicons
+              name="search"
+              size={18}
+              color={styles.placeholderColor.color}
+            />
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              onSubmitEditing={handleSubmitSearch}
+              placeholder="Buscar en la hoja"
+              placeholderTextColor={styles.placeholderColor.color}
+              returnKeyType="search"
+              autoFocus
+              autoCorrect={false}
+              autoCapitalize="none"
+            />
+            {renderSearchStatus()}
+            <TouchableOpacity
+              style={[
+                styles.searchStepButton,
+                matches.length === 0 && styles.headerButtonDisabled,
+              ]}
+              onPress={() => stepMatch(-1)}
+              disabled={matches.length === 0}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-up" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.searchStepButton,
+                matches.length === 0 && styles.headerButtonDisabled,
+              ]}
+              onPress={() => stepMatch(1)}
+              disabled={matches.length === 0}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-down" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.body}>{renderContent()}</View>
+
+      {renderFooter()}
+    </View>
+  );
+}
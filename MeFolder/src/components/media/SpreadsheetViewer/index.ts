@@ -0,0 +1 @@
+export { default as SpreadsheetViewer } from "./SpreadsheetViewer";
@@ -0,0 +1,113 @@
+export const ROW_HEIGHT = 34;
+export const HEADER_HEIGHT = 40;
+/** Columnas de más que se pintan a cada lado de las visibles */
+export const COLUMN_OVERSCAN = 2;
+
+const MIN_COLUMN_WIDTH = 72;
+const MAX_COLUMN_WIDTH = 280;
+/** Ancho aproximado de un carácter del texto de las celdas */
+const CELL_CHAR_WIDTH = 7.6;
+const CELL_HORIZONTAL_PADDING = 20;
+/** Hueco que ocupa el icono de orden en la cabecera */
+const SORT_ICON_WIDTH = 18;
+/** Filas que se miran para calcular el ancho de cada columna */
+const WIDTH_SAMPLE_ROWS = 200;
+
+export interface ColumnLayout {
+  widths: number[];
+  /** Posición horizontal de cada columna, sin contar la de números de fila */
+  offsets: number[];
+  totalWidth: number;
+}
+
+export interface ColumnRange {
+  first: number;
+  last: number;
+}
+
+export const EMPTY_COLUMN_RANGE: ColumnRange = { first: 0, last: -1 };
+
+/** Ancho de la columna de números de fila según cuántas cifras tenga la última */
+export const getRowNumberWidth = (rowCount: number) =>
+  String(Math.max(rowCount, 1)).length * CELL_CHAR_WIDTH + 24;
+
+/**
+ * Ancho de cada columna según el texto más largo de la cabecera y de las
+ * primeras filas, entre un mínimo y un máximo: las celdas más largas se cortan.
+ */
+export function measureColumns(
+  rows: string[][],
+  columnCount: number,
+): ColumnLayout {
+  const longest = new Array<number>(columnCount).fill(0);
+  const sampleEnd = Math.min(rows.length, WIDTH_SAMPLE_ROWS + 1);
+
+  for (let rowIndex = 0; rowIndex < sampleEnd; rowIndex++) {
+    const row = rows[rowIndex]!;
+    for (let column = 0; column < row.length; column++) {
+      const length = row[column]!.length;
+      if (length > longest[column]!) longest[column] = length;
+    }
+  }
+
+  const widths: number[] = [];
+  const offsets: number[] = [];
+  let totalWidth = 0;
+  for (let column = 0; column < columnCount; column++) {
+    const width = Math.round(
+      Math.min(
+        MAX_COLUMN_WIDTH,
+        Math.max(
+          MIN_COLUMN_WIDTH,
+          longest[column]! * CELL_CHAR_WIDTH +
+            CELL_HORIZONTAL_PADDING +
+            SORT_ICON_WIDTH,
+        ),
+      ),
+    );
+    widths.push(width);
+    offsets.push(totalWidth);
+    totalWidth += width;
+  }
+
+  return { widths, offsets, totalWidth };
+}
+
+/** Primera columna cuyo borde derecho queda más allá de `x` */
+function findColumnAt(layout: ColumnLayout, x: number): number {
+  let low = 0;
+  let high = layout.offsets.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (layout.offsets[middle]! + layout.widths[middle]! <= x) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+  return low;
+}
+
+/**
+ * Columnas que caben en la ventana visible (más `overscan` a cada lado). Solo
+ * se pintan esas: una hoja de cientos de columnas no crea miles de vistas.
+ */
+export function findVisibleColumns(
+  layout: ColumnLayout,
+  scrollX: number,
+  viewportWidth: number,
+  overscan = COLUMN_OVERSCAN,
+): ColumnRange {
+  const columnCount = layout.widths.length;
+  if (columnCount === 0) return EMPTY_COLUMN_RANGE;
+
+  const first = findColumnAt(layout, Math.max(0, scrollX));
+  const last = findColumnAt(layout, scrollX + viewportWidth);
+  return {
+    first: Math.max(0, first - overscan),
+    last: Math.min(columnCount - 1, last + overscan),
+  };
+}
+
+export const isSameColumnRange = (a: ColumnRange, b: ColumnRange) =>
+  a.first === b.first && a.last === b.last;
@@ -0,0 +1,213 @@
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useStyles } from "@/hooks/useStyles";
+import { HEADER_HEIGHT, ROW_HEIGHT } from "./spreadsheetViewerModel";
+
+const GRID_LINE_COLOR = "rgba(255, 255, 255, 0.1)";
+
+export const useSpreadsheetViewerStyles = () => {
+  const insets = useSafeAreaInsets();
+
+  return useStyles((theme) => ({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.colors.mediaBackdrop,
+    },
+    header: {
+      paddingTop: Math.max(insets.top + theme.spacing.sm, 50),
+      paddingBottom: theme.spacing.sm,
+      zIndex: 10,
+    },
+    headerRow: {
+      width: "100%",
+      paddingHorizontal: theme.spacing.md,
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      backgroundColor: "rgba(80, 80, 80, 0.45)",
+    },
+    headerButton: {
+      width: 40,
+      height: 44,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    headerButtonDisabled: {
+      opacity: 0.45,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: "#FFFFFF",
+      marginHorizontal: theme.spacing.sm,
+    },
+    searchBar: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      marginHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(255, 255, 255, 0.12)",
+      gap: theme.spacing.xs,
+    },
+    searchInput: {
+      flex: 1,
+      height: 40,
+      color: "#FFFFFF",
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+    },
+    searchStatus: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.7)",
+    },
+    searchStepButton: {
+      width: 32,
+      height: 40,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    body: {
+      flex: 1,
+    },
+    gridHeader: {
+      height: HEADER_HEIGHT,
+      backgroundColor: "rgba(80, 80, 80, 0.6)",
+      borderBottomWidth: 1,
+      borderBottomColor: "rgba(255, 255, 255, 0.25)",
+    },
+    gridRow: {
+      height: ROW_HEIGHT,
+      borderBottomWidth: 1,
+      borderBottomColor: GRID_LINE_COLOR,
+    },
+    gridRowAlternate: {
+      backgroundColor: "rgba(255, 255, 255, 0.03)",
+    },
+    cell: {
+      position: "absolute" as const,
+      top: 0,
+      bottom: 0,
+      justifyContent: "center" as const,
+      paddingHorizontal: 10,
+      borderRightWidth: 1,
+      borderRightColor: GRID_LINE_COLOR,
+    },
+    headerCell: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      gap: 2,
+    },
+    headerCellText: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: "#FFFFFF",
+    },
+    rowNumberText: {
+      textAlign: "right" as const,
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.4)",
+    },
+    cellText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: "#E6E6E6",
+    },
+    cellTextNumeric: {
+      textAlign: "right" as const,
+      fontVariant: ["tabular-nums" as const],
+    },
+    cellMatch: {
+      backgroundColor: "rgba(242, 201, 76, 0.28)",
+    },
+    cellMatchActive: {
+      backgroundColor: theme.colors.primary,
+    },
+    cellTextMatchActive: {
+      color: "#1A1A17",
+    },
+    footer: {
+      paddingBottom: Math.max(insets.bottom, theme.spacing.sm),
+      paddingTop: theme.spacing.xs,
+      backgroundColor: "rgba(80, 80, 80, 0.45)",
+      gap: theme.spacing.xs,
+    },
+    footerRow: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      paddingHorizontal: theme.spacing.md,
+      gap: theme.spacing.sm,
+    },
+    footerText: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      color: "rgba(255, 255, 255, 0.6)",
+    },
+    footerButton: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      gap: 4,
+      paddingHorizontal: theme.spacing.sm,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(255, 255, 255, 0.12)",
+    },
+    footerButtonText: {
+      fontSize: theme.typography.fontSize.xs,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "#FFFFFF",
+    },
+    sheetTabs: {
+      paddingHorizontal: theme.spacing.md,
+      gap: theme.spacing.xs,
+    },
+    sheetTab: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(255, 255, 255, 0.08)",
+    },
+    sheetTabActive: {
+      backgroundColor: theme.colors.primary,
+    },
+    sheetTabText: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.8)",
+    },
+    sheetTabTextActive: {
+      color: "#1A1A17",
+    },
+    loadingContainer: {
+      flex: 1,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    errorContainer: {
+      flex: 1,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+      paddingHorizontal: theme.spacing.xl,
+    },
+    errorText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.error,
+      textAlign: "center" as const,
+      marginTop: theme.spacing.md,
+    },
+    emptyText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.6)",
+      textAlign: "center" as const,
+    },
+    placeholderColor: {
+      color: "rgba(255, 255, 255, 0.5)",
+    },
+  }));
+};
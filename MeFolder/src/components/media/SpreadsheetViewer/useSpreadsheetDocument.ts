@@ -0,0 +1,311 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FileSystemService } from "@/services";
+import type { MediaSource, SpreadsheetFindMatch } from "@/types/media/viewers";
+import {
+  decodeText,
+  detectCsvDelimiter,
+  normalizeSearchText,
+  openXlsxWorkbook,
+  parseCsv,
+  sortRowIndexes,
+  type CsvDelimiter,
+  type SortDirection,
+  type SpreadsheetTable,
+  type TextEncodingName,
+  type XlsxWorkbook,
+} from "@/utils/document";
+
+/** Tope de coincidencias: más no caben en una navegación anterior/siguiente útil */
+const MAX_FIND_MATCHES = 5000;
+/** Filas que se buscan entre cesión y cesión del hilo */
+const FIND_ROWS_PER_CHUNK = 2000;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+export interface SpreadsheetSort {
+  columnIndex: number;
+  direction: SortDirection;
+}
+
+interface CsvInfo {
+  delimiter: CsvDelimiter;
+  encoding: TextEncodingName;
+}
+
+/**
+ * Contenido de un CSV o de un libro XLSX abierto en el visor: hojas, orden
+ * por columna y búsqueda de celdas. La primera fila de cada hoja es la
+ * cabecera y no entra en el orden.
+ */
+export function useSpreadsheetDocument(source: MediaSource, extension: string) {
+  const fsRef = useRef(new FileSystemService());
+  const workbookRef = useRef<XlsxWorkbook | null>(null);
+  const csvTextRef = useRef("");
+  const searchIdRef = useRef(0);
+
+  const [table, setTable] = useState<SpreadsheetTable | null>(null);
+  const [sheetNames, setSheetNames] = useState<string[]>([]);
+  const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+  const [csvInfo, setCsvInfo] = useState<CsvInfo | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<SpreadsheetSort | null>(null);
+  const [matches, setMatches] = useState<SpreadsheetFindMatch[]>([]);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const isXlsx = extension.toLowerCase() === "xlsx";
+
+  /** Al cambiar de tabla, el orden y las coincidencias ya no valen */
+  const showTable = useCallback((next: SpreadsheetTable) => {
+    searchIdRef.current++;
+    setTable(next);
+    setSort(null);
+    setMatches([]);
+    setActiveMatchIndex(-1);
+    setIsSearching(false);
+  }, []);
+
+  useEffect(() => {
+    let isCancelled = false;
+    let workbook: XlsxWorkbook | null = null;
+
+    void (async () => {
+      setIsLoading(true);
+      setError(null);
+
+      // Cede el hilo para que se pinte el indicador antes de leer la tabla
+      await yieldToEventLoop();
+      if (isCancelled) return;
+
+      try {
+        if (isXlsx) {
+          // El libro se lee del disco según hace falta, no entero en memoria
+          const stream = fsRef.current.openFileStream(source.uri);
+          if (!stream.success || !stream.data) {
+            throw new Error(stream.error ?? "No se pudo leer el archivo");
+          }
+          workbook = await openXlsxWorkbook(stream.data);
+          if (isCancelled) {
+            workbook.close();
+            return;
+          }
+          const firstSheet = await workbook.readSheet(0);
+          if (isCancelled) return;
+          workbookRef.current = workbook;
+          setSheetNames(workbook.sheets.map((sheet) => sheet.name));
+          setActiveSheetIndex(0);
+          showTable(firstSheet);
+        } else {
+          const result = await fsRef.current.readAsBytes(source.uri);
+          if (isCancelled) return;
+          if (!result.success || !result.data) {
+            throw new Error(result.error ?? "No se pudo leer el archivo");
+          }
+          const { text, encoding } = decodeText(result.data);
+          const delimiter = detectCsvDelimiter(text);
+          csvTextRef.current = text;
+          setCsvInfo({ delimiter, encoding });
+          showTable(parseCsv(text, delimiter));
+        }
+      } catch (parseError) {
+        if (isCancelled) return;
+        console.warn(
+          "[SpreadsheetViewer] No se pudo leer la tabla:",
+          parseError,
+        );
+        setError(
+          parseError instanceof Error
+            ? parseError.message
+            : "No se pudo leer la hoja de cálculo",
+        );
+      }
+      setIsLoading(false);
+    })();
+
+    return () => {
+      isCancelled = true;
+      searchIdRef.current++;
+      workbookRef.current = null;
+      workbook?.close();
+    };
+  }, [isXlsx, showTable, source.uri]);
+
+  const selectSheet = useCallback(
+    async (index: number) => {
+      const workbook = workbookRef.current;
+      if (!workbook || index === activeSheetIndex) return;
+
+      setActiveSheetIndex(index);
+      setIsLoading(true);
+      setError(null);
+      try {
+        showTable(await workbook.readSheet(index));
+      } catch (sheetError) {
+        setError(
+          sheetError instanceof Error
+            ? sheetError.message
+            : "No se pudo leer la hoja",
+        );
+      }
+      setIsLoading(false);
+    },
+    [activeSheetIndex, showTable],
+  );
+
+  /** Vuelve a leer el CSV con otro separador, por si la detección falló */
+  const changeDelimiter = useCallback(
+    (delimiter: CsvDelimiter) => {
+      if (!csvInfo || delimiter === csvInfo.delimiter) return;
+      setCsvInfo({ ...csvInfo, delimiter });
+      showTable(parseCsv(csvTextRef.current, delimiter));
+    },
+    [csvInfo, showTable],
+  );
+
+  const rows = table?.rows;
+
+  /** Filas del cuerpo (sin la cabecera) en el orden en que se muestran */
+  const rowOrder = useMemo(() => {
+    if (!rows) return [];
+    const bodyRows = Array.from(
+      { length: Math.max(0, rows.length - 1) },
+      (_, i) => i + 1,
+    );
+    return sort
+      ? sortRowIndexes(rows, bodyRows, sort.columnIndex, sort.direction)
+      : bodyRows;
+  }, [rows, sort]);
+
+  /** Posición de cada fila en `rowOrder`; la cabecera queda en -1 */
+  const positionByRow = useMemo(() => {
+    const positions = new Map<number, number>([[0, -1]]);
+    rowOrder.forEach((rowIndex, position) => positions.set(rowIndex, position));
+    return positions;
+  }, [rowOrder]);
+
+  /** Coincidencias en el orden de la rejilla, para que avanzar baje por ella */
+  const orderedMatches = useMemo(
+    () =>
+      [...matches].sort(
+        (a, b) =>
+          positionByRow.get(a.rowIndex)! - positionByRow.get(b.rowIndex)! ||
+          a.columnIndex - b.columnIndex,
+      ),
+    [matches, positionByRow],
+  );
+
+  const matchesByRow = useMemo(() => {
+    const byRow = new Map<number, Set<number>>();
+    for (const match of matches) {
+      const columns = byRow.get(match.rowIndex);
+      if (columns) {
+        columns.add(match.columnIndex);
+      } else {
+        byRow.set(match.rowIndex, new Set([match.columnIndex]));
+      }
+    }
+    return byRow;
+  }, [matches]);
+
+  /** Ordena por la columna: ascendente, descendente y de nuevo sin ordenar */
+  const toggleSort = useCallback((columnIndex: number) => {
+    setSort((prev) => {
+      if (!prev || prev.columnIndex !== columnIndex) {
+        return { columnIndex, direction: "asc" };
+      }
+      return prev.direction === "asc"
+        ? { columnIndex, direction: "desc" }
+        : null;
+    });
+    setActiveMatchIndex((prev) => (prev >= 0 ? 0 : prev));
+  }, []);
+
+  /**
+   * Busca `query` celda a celda, cediendo el hilo cada pocos miles de filas
+   * para que una hoja grande no congele el visor mientras se recorre.
+   */
+  const search = useCallback(
+    async (query: string) => {
+      const searchId = ++searchIdRef.current;
+      const needle = normalizeSearchText(query.trim());
+      if (!rows || !needle) {
+        setMatches([]);
+        setActiveMatchIndex(-1);
+        setIsSearching(false);
+        return;
+      }
+
+      setIsSearching(true);
+      const found: SpreadsheetFindMatch[] = [];
+
+      for (
+        let rowIndex = 0;
+        rowIndex < rows.length && found.length < MAX_FIND_MATCHES;
+        rowIndex++
+      ) {
+        const row = rows[rowIndex]!;
+        for (let columnIndex = 0; columnIndex < row.length; columnIndex++) {
+          const value = row[columnIndex]!;
+          if (value && normalizeSearchText(value).includes(needle)) {
+            found.push({ rowIndex, columnIndex });
+          }
+        }
+
+        if ((rowIndex + 1) % FIND_ROWS_PER_CHUNK === 0) {
+          await yieldToEventLoop();
+          if (searchId !== searchIdRef.current) return;
+        }
+      }
+
+      setMatches(found);
+      setActiveMatchIndex(found.length > 0 ? 0 : -1);
+      setIsSearching(false);
+    },
+    [rows],
+  );
+
+  const clearSearch = useCallback(() => {
+    searchIdRef.current++;
+    setMatches([]);
+    setActiveMatchIndex(-1);
+    setIsSearching(false);
+  }, []);
+
+  /** Avanza (`1`) o retrocede (`-1`) a la siguiente coincidencia, dando la vuelta */
+  const stepMatch = useCallback(
+    (direction: 1 | -1) => {
+      if (matches.length === 0) return;
+      setActiveMatchIndex(
+        (prev) => (prev + direction + matches.length) % matches.length,
+      );
+    },
+    [matches.length],
+  );
+
+  return {
+    table,
+    header: rows?.[0] ?? [],
+    rowOrder,
+    positionByRow,
+    isXlsx,
+    sheetNames,
+    activeSheetIndex,
+    selectSheet,
+    csvInfo,
+    changeDelimiter,
+    isLoading,
+    error,
+    sort,
+    toggleSort,
+    isSearching,
+    matches: orderedMatches,
+    matchesByRow,
+    activeMatch: orderedMatches[activeMatchIndex] ?? null,
+    activeMatchIndex,
+    search,
+    clearSearch,
+    stepMatch,
+  };
+}
@@ -0,0 +1,316 @@
+import React, { useEffect, useRef } from "react";
+import { Linking, ScrollView, Text, View } from "react-native";
+import { FlashList, type FlashListRef } from "@shopify/flash-list";
+import { Ionicons } from "@expo/vector-icons";
+import { useStyles } from "@/hooks/useStyles";
+import type { MarkdownBlock, MarkdownInline } from "@/utils/document";
+import {
+  CODE_FONT_FAMILY,
+  CODE_FONT_SIZE,
+  CODE_LINE_HEIGHT,
+} from "./textViewerModel";
+
+/** Colores con los que se pinta el Markdown, según el fondo donde va */
+export interface MarkdownPalette {
+  text: string;
+  muted: string;
+  link: string;
+  codeBackground: string;
+  border: string;
+  /** Fondo del bloque donde está la coincidencia activa de la búsqueda */
+  highlight: string;
+}
+
+/** Paleta del visor a pantalla completa, sobre fondo oscuro */
+export const VIEWER_MARKDOWN_PALETTE: MarkdownPalette = {
+  text: "#E6E6E6",
+  muted: "rgba(255, 255, 255, 0.55)",
+  link: "#61AFEF",
+  codeBackground: "rgba(255, 255, 255, 0.08)",
+  border: "rgba(255, 255, 255, 0.16)",
+  highlight: "rgba(242, 201, 76, 0.18)",
+};
+
+const TABLE_COLUMN_WIDTH = 140;
+
+interface MarkdownViewProps {
+  blocks: MarkdownBlock[];
+  palette: MarkdownPalette;
+  /** Bloque resaltado y llevado a la vista, o null */
+  highlightedBlockIndex?: number | null;
+}
+
+const useMarkdownStyles = (palette: MarkdownPalette) =>
+  useStyles((theme) => ({
+    content: {
+      paddingHorizontal: theme.spacing.md,
+      paddingVertical: theme.spacing.md,
+    },
+    block: {
+      paddingVertical: theme.spacing.xs,
+      borderRadius: theme.effects.radius.xs,
+    },
+    blockHighlighted: {
+      backgroundColor: palette.highlight,
+    },
+    text: {
+      color: palette.text,
+      fontSize: theme.typography.fontSize.md,
+      lineHeight:
+        theme.typography.fontSize.md * theme.typography.lineHeight.normal,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+    },
+    heading: {
+      color: palette.text,
+      fontFamily: theme.typography.fontFamily.primary.bold,
+      marginTop: theme.spacing.sm,
+    },
+    strong: {
+      fontFamily: theme.typography.fontFamily.primary.bold,
+    },
+    emphasis: {
+      fontStyle: "italic" as const,
+    },
+    strike: {
+      textDecorationLine: "line-through" as const,
+    },
+    link: {
+      color: palette.link,
+      textDecorationLine: "underline" as const,
+    },
+    inlineCode: {
+      fontFamily: CODE_FONT_FAMILY,
+      fontSize: CODE_FONT_SIZE,
+      backgroundColor: palette.codeBackground,
+    },
+    listItem: {
+      flexDirection: "row" as const,
+      alignItems: "flex-start" as const,
+      gap: theme.spacing.sm,
+    },
+    listMarker: {
+      minWidth: 18,
+      color: palette.muted,
+      fontSize: theme.typography.fontSize.md,
+      lineHeight:
+        theme.typography.fontSize.md * theme.typography.lineHeight.normal,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+    },
+    listContent: {
+      flex: 1,
+    },
+    quote: {
+      borderLeftWidth: 3,
+      borderLeftColor: palette.border,
+      paddingLeft: theme.spacing.sm,
+    },
+    quoteText: {
+      color: palette.muted,
+    },
+    codeBlock: {
+      padding: theme.spacing.sm,
+      borderRadius: theme.effects.radius.xs,
+      backgroundColor: palette.codeBackground,
+    },
+    codeText: {
+      color: palette.text,
+      fontFamily: CODE_FONT_FAMILY,
+      fontSize: CODE_FONT_SIZE,
+      lineHeight: CODE_LINE_HEIGHT,
+    },
+    rule: {
+      height: 1,
+      marginVertical: theme.spacing.sm,
+      backgroundColor: palette.border,
+    },
+    tableRow: {
+      flexDirection: "row" as const,
+      borderBottomWidth: 1,
+      borderBottomColor: palette.border,
+    },
+    tableCell: {
+      width: TABLE_COLUMN_WIDTH,
+      paddingHorizontal: theme.spacing.xs,
+      paddingVertical: theme.spacing.xs,
+    },
+    tableHeader: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+    },
+  }));
+
+type MarkdownStyles = ReturnType<typeof useMarkdownStyles>;
+
+const HEADING_SIZES = [28, 24, 20, 18, 16, 15];
+
+function renderInline(
+  nodes: MarkdownInline[],
+  styles: MarkdownStyles,
+): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return node.text;
+      case "code":
+        return (
+          <Text key={index} style={styles.inlineCode}>
+            {node.text}
+          </Text>
+        );
+      case "strong":
+      case "emphasis":
+      case "strike":
+        return (
+          <Text key={index} style={styles[node.type]}>
+            {renderInline(node.children, styles)}
+          </Text>
+        );
+      case "link":
+        return (
+          <Text
+            key={index}
+            style={styles.link}
+            onPress={() => void Linking.openURL(node.href).catch(() => {})}
+          >
+            {renderInline(node.children, styles)}
+          </Text>
+        );
+    }
+  });
+}
+
+const MarkdownBlockView = React.memo(function MarkdownBlockView({
+  block,
+  isHighlighted,
+  palette,
+  styles,
+}: {
+  block: MarkdownBlock;
+  isHighlighted: boolean;
+  palette: MarkdownPalette;
+  styles: MarkdownStyles;
+}) {
+  const renderBody = () => {
+    switch (block.type) {
+      case "heading": {
+        const fontSize = HEADING_SIZES[block.level - 1] ?? 16;
+        return (
+          <Text
+            style={[styles.heading, { fontSize, lineHeight: fontSize * 1.3 }]}
+          >
+            {renderInline(block.content, styles)}
+          </Text>
+        );
+      }
+      case "paragraph":
+        return (
+          <Text style={styles.text}>{renderInline(block.content, styles)}</Text>
+        );
+      case "quote":
+        return (
+          <View style={styles.quote}>
+            <Text style={[styles.text, styles.quoteText]}>
+              {renderInline(block.content, styles)}
+            </Text>
+          </View>
+        );
+      case "list-item":
+        return (
+          <View style={[styles.listItem, { marginLeft: block.depth * 16 }]}>
+            {block.checked !== null ? (
+              <Ionicons
+                name={block.checked ? "checkbox" : "square-outline"}
+                size={18}
+                color={palette.muted}
+                style={{ marginTop: 3 }}
+              />
+            ) : (
+              <Text style={styles.listMarker}>
+                {block.order !== null ? `${block.order}.` : "•"}
+              </Text>
+            )}
+            <Text style={[styles.text, styles.listContent]}>
+              {renderInline(block.content, styles)}
+            </Text>
+          </View>
+        );
+      case "code":
+        return (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.codeBlock}
+          >
+            <Text style={styles.codeText}>{block.text}</Text>
+          </ScrollView>
+        );
+      case "rule":
+        return <View style={styles.rule} />;
+      case "table":
+        return (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View>
+              {[block.header, ...block.rows].map((row, rowIndex) => (
+                <View key={rowIndex} style={styles.tableRow}>
+                  {block.header.map((_, columnIndex) => (
+                    <View key={columnIndex} style={styles.tableCell}>
+                      <Text
+                        style={[
+                          styles.text,
+                          rowIndex === 0 && styles.tableHeader,
+                        ]}
+                      >
+                        {renderInline(row[columnIndex] ?? [], styles)}
+                      </Text>
+                    </View>
+                  ))}
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+        );
+    }
+  };
+
+  return (
+    <View style={[styles.block, isHighlighted && styles.blockHighlighted]}>
+      {renderBody()}
+    </View>
+  );
+});
+
+/** Markdown formateado y virtualizado por bloques */
+export function MarkdownView({
+  blocks,
+  palette,
+  highlightedBlockIndex = null,
+}: MarkdownViewProps) {
+  const styles = useMarkdownStyles(palette);
+  const listRef = useRef<FlashListRef<MarkdownBlock>>(null);
+
+  useEffect(() => {
+    if (highlightedBlockIndex === null || highlightedBlockIndex < 0) return;
+    void listRef.current?.scrollToIndex({
+      index: highlightedBlockIndex,
+      viewPosition: 0.3,
+      animated: true,
+    });
+  }, [highlightedBlockIndex]);
+
+  return (
+    <FlashList
+      ref={listRef}
+      data={blocks}
+      keyExtractor={(block) => String(block.startLine)}
+      contentContainerStyle={styles.content}
+      extraData={highlightedBlockIndex}
+      renderItem={({ item, index }) => (
+        <MarkdownBlockView
+          block={item}
+          isHighlighted={index === highlightedBlockIndex}
+          palette={palette}
+          styles={styles}
+        />
+      )}
+    />
+  );
+}
@@ -0,0 +1,398 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  Text,
+  TextInput,
+  useWindowDimensions,
+  View,
+} from "react-native";
+import { FlashList, type FlashListRef } from "@shopify/flash-list";
+import { Ionicons } from "@expo/vector-icons";
+import { router } from "expo-router";
+import { TouchableOpacity } from "@/components/TouchableOpacity";
+import type { TextFindMatch, TextViewerProps } from "@/types/media/viewers";
+import {
+  resolveSyntaxLanguage,
+  type SyntaxHighlighter,
+} from "@/utils/document";
+import { MarkdownView, VIEWER_MARKDOWN_PALETTE } from "./MarkdownView";
+import { useTextViewerStyles } from "./styles";
+import {
+  buildLineSegments,
+  CODE_CHAR_WIDTH,
+  findMarkdownBlockIndex,
+  SYNTAX_COLORS,
+} from "./textViewerModel";
+import { useTextDocument } from "./useTextDocument";
+
+const NO_MATCHES: TextFindMatch[] = [];
+
+interface CodeLineProps {
+  lineIndex: number;
+  line: string;
+  highlighter: SyntaxHighlighter | null;
+  matches: TextFindMatch[];
+  activeMatch: TextFindMatch | null;
+  isWrapped: boolean;
+  gutterWidth: number;
+  styles: ReturnType<typeof useTextViewerStyles>;
+}
+
+const CodeLine = React.memo(function CodeLine({
+  lineIndex,
+  line,
+  highlighter,
+  matches,
+  activeMatch,
+  isWrapped,
+  gutterWidth,
+  styles,
+}: CodeLineProps) {
+  const segments = useMemo(() => {
+    const tokens = highlighter
+      ? highlighter.getLineTokens(lineIndex)
+      : [{ type: "plain" as const, text: line }];
+    return buildLineSegments(tokens, matches, activeMatch);
+  }, [activeMatch, highlighter, line, lineIndex, matches]);
+
+  return (
+    <View style={styles.codeLine}>
+      <Text
+        style={[
+          styles.lineNumber,
+          { width: gutterWidth },
+          activeMatch !== null && styles.lineNumberActive,
+        ]}
+      >
+        {lineIndex + 1}
+      </Text>
+      <Text style={[styles.lineText, isWrapped && styles.lineTextWrapped]}>
+        {segments.length === 0
+          ? " "
+          : segments.map((segment, index) => (
+              <Text
+                key={index}
+                style={[
+                  { color: SYNTAX_COLORS[segment.type] },
+                  segment.match === "match" && styles.match,
+                  segment.match === "active" && styles.matchActive,
+                ]}
+              >
+                {segment.text}
+              </Text>
+            ))}
+      </Text>
+    </View>
+  );
+});
+
+export default function TextViewer({
+  source,
+  extension,
+  isEditable = false,
+  onClose,
+}: TextViewerProps) {
+  const styles = useTextViewerStyles();
+  const { width: windowWidth } = useWindowDimensions();
+  const {
+    lines,
+    maxLineLength,
+    isMarkdown,
+    markdownBlocks,
+    highlighter,
+    isLoading,
+    error,
+    isSearching,
+    matches,
+    matchesByLine,
+    activeMatch,
+    activeMatchIndex,
+    search,
+    clearSearch,
+    stepMatch,
+  } = useTextDocument(source, extension);
+
+  const [showSource, setShowSource] = useState(false);
+  // El texto plano se lee mejor ajustado; el código, con sus líneas intactas
+  const [isWrapped, setIsWrapped] = useState(
+    () => resolveSyntaxLanguage(extension) === null,
+  );
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [submittedQuery, setSubmittedQuery] = useState("");
+  const listRef = useRef<FlashListRef<string>>(null);
+  const horizontalScrollRef = useRef<ScrollView>(null);
+
+  const isFormatted = isMarkdown && !showSource;
+  const canEdit =
+    isEditable &&
+    source.fileId !== undefined &&
+    ["txt", "md"].includes(extension.toLowerCase());
+  const gutterWidth =
+    String(Math.max(lines.length, 1)).length * CODE_CHAR_WIDTH + 12;
+  const contentWidth = Math.max(
+    windowWidth,
+    gutterWidth + maxLineLength * CODE_CHAR_WIDTH + 32,
+  );
+
+  // Lleva a la vista la coincidencia activa: su línea y, sin ajuste, su columna
+  useEffect(() => {
+    if (!activeMatch || isFormatted) return;
+    void listRef.current?.scrollToIndex({
+      index: activeMatch.lineIndex,
+      viewPosition: 0.3,
+      animated: true,
+    });
+    if (!isWrapped) {
+      horizontalScrollRef.current?.scrollTo({
+        x: Math.max(
+          0,
+          gutterWidth + activeMatch.start * CODE_CHAR_WIDTH - windowWidth / 3,
+        ),
+        animated: true,
+      });
+    }
+  }, [activeMatch, gutterWidth, isFormatted, isWrapped, windowWidth]);
+
+  const highlightedBlockIndex = useMemo(
+    () =>
+      isFormatted && activeMatch && markdownBlocks.length > 0
+        ? findMarkdownBlockIndex(markdownBlocks, activeMatch.lineIndex)
+        : null,
+    [activeMatch, isFormatted, markdownBlocks],
+  );
+
+  const handleSubmitSearch = useCallback(() => {
+    setSubmittedQuery(searchQuery.trim());
+    void search(searchQuery);
+  }, [search, searchQuery]);
+
+  const handleToggleSearch = useCallback(() => {
+    if (isSearchOpen) {
+      setSearchQuery("");
+      setSubmittedQuery("");
+      clearSearch();
+    }
+    setIsSearchOpen((prev) => !prev);
+  }, [clearSearch, isSearchOpen]);
+
+  const handleEdit = useCallback(() => {
+    if (!source.fileId) return;
+    onClose();
+    router.push({
+      pathname: "/note-editor",
+      params: { fileId: source.fileId },
+    });
+  }, [onClose, source.fileId]);
+
+  const renderSearchStatus = () => {
+    if (isSearching) {
+      return <ActivityIndicator size="small" color="#FFFFFF" />;
+    }
+    if (!submittedQuery) return null;
+    return (
+      <Text style={styles.searchStatus}>
+        {matches.length === 0
+          ? "Sin resultados"
+          : `${activeMatchIndex + 1} / ${matches.length}`}
+      </Text>
+    );
+  };
+
+  const renderLines = () => {
+    const list = (
+      <FlashList
+        ref={listRef}
+        data={lines}
+        keyExtractor={(_, index) => String(index)}
+        contentContainerStyle={styles.codeContent}
+        extraData={`${isWrapped}:${activeMatchIndex}:${matches.length}`}
+        renderItem={({ item, index }) => (
+          <CodeLine
+            lineIndex={index}
+            line={item}
+            highlighter={highlighter}
+            matches={matchesByLine.get(index) ?? NO_MATCHES}
+            activeMatch={activeMatch?.lineIndex === index ? activeMatch : null}
+            isWrapped={isWrapped}
+            gutterWidth={gutterWidth}
+            styles={styles}
+          />
+        )}
+      />
+    );
+
+    if (isWrapped) return list;
+
+    // Sin ajuste de línea la lista vertical va dentro de un scroll horizontal
+    // con el ancho de la línea más larga, así todas las filas se desplazan juntas
+    return (
+      <ScrollView
+        ref={horizontalScrollRef}
+        horizontal
+        showsHorizontalScrollIndicator={false}
+      >
+        <View style={{ width: contentWidth }}>{list}</View>
+      </ScrollView>
+    );
+  };
+
+  const renderContent = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#FFFFFF" />
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.errorContainer}>
+          <Ionicons name="document-text-outline" size={64} color="#666" />
+          <Text style={styles.errorText}>{error}</Text>
+        </View>
+      );
+    }
+
+    if (isFormatted) {
+      return (
+        <MarkdownView
+          blocks={markdownBlocks}
+          palette={VIEWER_MARKDOWN_PALETTE}
+          highlightedBlockIndex={highlightedBlockIndex}
+        />
+      );
+    }
+
+    return renderLines();
+  };
+
+  return (
+    <View style={styles.overlay}>
+      <View style={styles.header}>
+        <View style={styles.headerRow}>
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={onClose}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="close" size={28} color="#FFFFFF" />
+          </TouchableOpacity>
+
+          <Text style={styles.headerTitle} numberOfLines={1}>
+            {source.displayName ?? "Documento"}
+          </Text>
+
+          {canEdit && (
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={handleEdit}
+              activeOpacity={0.7}
+              disabled={isLoading || error !== null}
+            >
+              <Ionicons name="create-outline" size={22} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+
+          {isMarkdown && (
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => setShowSource((prev) => !prev)}
+              activeOpacity={0.7}
+            >
+              <Ionicons
+                name={showSource ? "document-text-outline" : "code-slash"}
+                size={22}
+                color="#FFFFFF"
+              />
+            </TouchableOpacity>
+          )}
+
+          <TouchableOpacity
+            style={[
+              styles.headerButton,
+              isFormatted && styles.headerButtonDisabled,
+            ]}
+            onPress={() => setIsWrapped((prev) => !prev)}
+            disabled={isFormatted}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={isWrapped ? "return-down-back" : "arrow-forward"}
+              size={22}
+              color="#FFFFFF"
+            />
+          </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={handleToggleSearch}
+            activeOpacity={0.7}
+            disabled={isLoading || error !== null}
+          >
+            <Ionicons
+              name={isSearchOpen ? "close-circle-outline" : "search"}
+              size={24}
+              color="#FFFFFF"
+            />
+          </TouchableOpacity>
+        </View>
+
+        {isSearchOpen && (
+          <View style={styles.searchBar}>
+            <Ionicons
+              name="search"
+              size={18}
+              color={styles.placeholderColor.color}
+            />
+            <TextInput
+              style={styles.searchInput}
+              value={searchQuery}
+              onChangeText={setSearchQuery}
+              onSubmitEditing={handleSubmitSearch}
+              placeholder="Buscar en el archivo"
+              placeholderTextColor={styles.placeholderColor.color}
+              returnKeyType="search"
+              autoFocus
+              autoCorrect={false}
+              autoCapitalize="none"
+            />
+            {renderSearchStatus()}
+            <TouchableOpacity
+              style={[
+                styles.searchStepButton,
+                matches.length === 0 && styles.headerButtonDisabled,
+              ]}
+              onPress={() => stepMatch(-1)}
+              disabled={matches.length === 0}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-up" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[
+                styles.searchStepButton,
+                matches.length === 0 && styles.headerButtonDisabled,
+              ]}
+              onPress={() => stepMatch(1)}
+              disabled={matches.length === 0}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="chevron-down" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.body}>{renderContent()}</View>
+    </View>
+  );
+}
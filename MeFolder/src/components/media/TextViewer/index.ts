@@ -0,0 +1,6 @@
+export { default as TextViewer } from "./TextViewer";
+export {
+  MarkdownView,
+  VIEWER_MARKDOWN_PALETTE,
+  type MarkdownPalette,
+} from "./MarkdownView";
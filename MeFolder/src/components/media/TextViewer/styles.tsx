@@ -0,0 +1,134 @@
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useStyles } from "@/hooks/useStyles";
+import {
+  CODE_FONT_FAMILY,
+  CODE_FONT_SIZE,
+  CODE_LINE_HEIGHT,
+  SYNTAX_COLORS,
+} from "./textViewerModel";
+
+export const useTextViewerStyles = () => {
+  const insets = useSafeAreaInsets();
+
+  return useStyles((theme) => ({
+    overlay: {
+      flex: 1,
+      backgroundColor: theme.colors.mediaBackdrop,
+    },
+    header: {
+      paddingTop: Math.max(insets.top + theme.spacing.sm, 50),
+      paddingBottom: theme.spacing.sm,
+      zIndex: 10,
+    },
+    headerRow: {
+      width: "100%",
+      paddingHorizontal: theme.spacing.md,
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      backgroundColor: "rgba(80, 80, 80, 0.45)",
+    },
+    headerButton: {
+      width: 40,
+      height: 44,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    headerButtonDisabled: {
+      opacity: 0.45,
+    },
+    headerTitle: {
+      flex: 1,
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      color: "#FFFFFF",
+      marginHorizontal: theme.spacing.sm,
+    },
+    searchBar: {
+      flexDirection: "row" as const,
+      alignItems: "center" as const,
+      marginHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: theme.effects.radius.md,
+      backgroundColor: "rgba(255, 255, 255, 0.12)",
+      gap: theme.spacing.xs,
+    },
+    searchInput: {
+      flex: 1,
+      height: 40,
+      color: "#FFFFFF",
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.regular,
+    },
+    searchStatus: {
+      fontSize: theme.typography.fontSize.sm,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: "rgba(255, 255, 255, 0.7)",
+    },
+    searchStepButton: {
+      width: 32,
+      height: 40,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    body: {
+      flex: 1,
+    },
+    codeLine: {
+      flexDirection: "row" as const,
+      minHeight: CODE_LINE_HEIGHT,
+    },
+    lineNumber: {
+      paddingRight: theme.spacing.sm,
+      textAlign: "right" as const,
+      color: "rgba(255, 255, 255, 0.35)",
+      fontFamily: CODE_FONT_FAMILY,
+      fontSize: CODE_FONT_SIZE,
+      lineHeight: CODE_LINE_HEIGHT,
+    },
+    lineNumberActive: {
+      color: "rgba(255, 255, 255, 0.85)",
+    },
+    lineText: {
+      paddingRight: theme.spacing.md,
+      color: SYNTAX_COLORS.plain,
+      fontFamily: CODE_FONT_FAMILY,
+      fontSize: CODE_FONT_SIZE,
+      lineHeight: CODE_LINE_HEIGHT,
+    },
+    lineTextWrapped: {
+      flex: 1,
+    },
+    match: {
+      backgroundColor: "rgba(242, 201, 76, 0.35)",
+    },
+    matchActive: {
+      backgroundColor: theme.colors.primary,
+      color: "#1A1A17",
+    },
+    codeContent: {
+      paddingVertical: theme.spacing.sm,
+    },
+    loadingContainer: {
+      flex: 1,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+    },
+    errorContainer: {
+      flex: 1,
+      alignItems: "center" as const,
+      justifyContent: "center" as const,
+      paddingHorizontal: theme.spacing.xl,
+    },
+    errorText: {
+      fontSize: theme.typography.fontSize.md,
+      fontFamily: theme.typography.fontFamily.primary.medium,
+      color: theme.colors.error,
+      textAlign: "center" as const,
+      marginTop: theme.spacing.md,
+    },
+    placeholderColor: {
+      color: "rgba(255, 255, 255, 0.5)",
+    },
+  }));
+};
@@ -0,0 +1,114 @@
+import { Platform } from "react-native";
+import type { TextFindMatch } from "@/types/media/viewers";
+import type {
+  MarkdownBlock,
+  SyntaxToken,
+  SyntaxTokenType,
+} from "@/utils/document";
+
+export const CODE_FONT_FAMILY = Platform.select({
+  ios: "Menlo",
+  default: "monospace",
+});
+export const CODE_FONT_SIZE = 13;
+export const CODE_LINE_HEIGHT = 20;
+/** Ancho aproximado de un carácter monoespaciado a `CODE_FONT_SIZE` */
+export const CODE_CHAR_WIDTH = 7.9;
+/**
+ * Las líneas más largas (típico de archivos minificados) se cortan al pintar:
+ * un Text nativo con cientos de miles de caracteres bloquea el scroll.
+ */
+export const MAX_RENDERED_LINE_LENGTH = 5000;
+
+/** Colores del resaltado sobre el fondo oscuro del visor */
+export const SYNTAX_COLORS: Record<SyntaxTokenType, string> = {
+  plain: "#E6E6E6",
+  keyword: "#C678DD",
+  literal: "#D19A66",
+  type: "#E5C07B",
+  function: "#61AFEF",
+  string: "#98C379",
+  number: "#D19A66",
+  comment: "#7F848E",
+  tag: "#E06C75",
+  attribute: "#D19A66",
+};
+
+/** Extensiones que el visor de texto formatea como Markdown */
+export const isMarkdownExtension = (extension: string) =>
+  extension.toLowerCase() === "md";
+
+export type LineSegmentMatch = "none" | "match" | "active";
+
+export interface LineSegment {
+  type: SyntaxTokenType;
+  text: string;
+  match: LineSegmentMatch;
+}
+
+/**
+ * Parte los tokens de una línea en los bordes de las coincidencias de la
+ * búsqueda, para pintar el fondo resaltado sin perder los colores de sintaxis.
+ */
+export function buildLineSegments(
+  tokens: SyntaxToken[],
+  matches: TextFindMatch[],
+  activeMatch: TextFindMatch | null,
+  maxLength = MAX_RENDERED_LINE_LENGTH,
+): LineSegment[] {
+  const segments: LineSegment[] = [];
+  let column = 0;
+
+  for (const token of tokens) {
+    let offset = 0;
+    while (offset < token.text.length) {
+      if (column >= maxLength) {
+        segments.push({ type: "plain", text: " …", match: "none" });
+        return segments;
+      }
+
+      // `matches` viene ordenado por columna: la actual y la siguiente
+      const current = matches.find((m) => m.start <= column && m.end > column);
+      const next = matches.find((m) => m.start > column);
+      const boundary = Math.min(
+        current?.end ?? next?.start ?? Number.POSITIVE_INFINITY,
+        maxLength,
+      );
+      const length = Math.min(token.text.length - offset, boundary - column);
+      const text = token.text.slice(offset, offset + length);
+      const match: LineSegmentMatch = !current
+        ? "none"
+        : current === activeMatch
+          ? "active"
+          : "match";
+
+      const last = segments[segments.length - 1];
+      if (last && last.type === token.type && last.match === match) {
+        last.text += text;
+      } else {
+        segments.push({ type: token.type, text, match });
+      }
+      offset += length;
+      column += length;
+    }
+  }
+  return segments;
+}
+
+/** Índice del bloque de Markdown que contiene la línea `lineIndex` del original */
+export function findMarkdownBlockIndex(
+  blocks: MarkdownBlock[],
+  lineIndex: number,
+): number {
+  let low = 0;
+  let high = blocks.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (blocks[middle]!.startLine <= lineIndex) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
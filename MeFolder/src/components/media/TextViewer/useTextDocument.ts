@@ -0,0 +1,188 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { FileSystemService } from "@/services";
+import type { MediaSource, TextFindMatch } from "@/types/media/viewers";
+import {
+  findTextMatches,
+  parseMarkdown,
+  resolveSyntaxLanguage,
+  splitTextLines,
+  SyntaxHighlighter,
+  type MarkdownBlock,
+} from "@/utils/document";
+import {
+  isMarkdownExtension,
+  MAX_RENDERED_LINE_LENGTH,
+} from "./textViewerModel";
+
+/** Tope de coincidencias: más no caben en una navegación anterior/siguiente útil */
+const MAX_FIND_MATCHES = 5000;
+/** Líneas que se buscan entre cesión y cesión del hilo */
+const FIND_LINES_PER_CHUNK = 2000;
+
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+interface LoadedText {
+  lines: string[];
+  /** Longitud de la línea más larga, ya recortada a lo que se pinta */
+  maxLineLength: number;
+}
+
+/**
+ * Contenido de un archivo de texto abierto en el visor: líneas, resaltado
+ * perezoso, bloques de Markdown y búsqueda dentro del archivo.
+ */
+export function useTextDocument(source: MediaSource, extension: string) {
+  const fsRef = useRef(new FileSystemService());
+  const searchIdRef = useRef(0);
+
+  const [content, setContent] = useState<LoadedText | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [matches, setMatches] = useState<TextFindMatch[]>([]);
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const isMarkdown = isMarkdownExtension(extension);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      setIsLoading(true);
+      setError(null);
+
+      const result = await fsRef.current.readAsText(source.uri);
+      if (isCancelled) return;
+
+      if (!result.success || result.data === undefined) {
+        setError(result.error ?? "No se pudo leer el archivo");
+        setIsLoading(false);
+        return;
+      }
+
+      const { lines } = splitTextLines(result.data);
+      let maxLineLength = 0;
+      for (const line of lines) {
+        if (line.length > maxLineLength) maxLineLength = line.length;
+      }
+      setContent({
+        lines,
+        maxLineLength: Math.min(maxLineLength, MAX_RENDERED_LINE_LENGTH),
+      });
+      setIsLoading(false);
+    })();
+
+    return () => {
+      isCancelled = true;
+      searchIdRef.current++;
+    };
+  }, [source.uri]);
+
+  const highlighter = useMemo(() => {
+    const language = resolveSyntaxLanguage(extension);
+    return content && language
+      ? new SyntaxHighlighter(content.lines, language)
+      : null;
+  }, [content, extension]);
+
+  const markdownBlocks = useMemo<MarkdownBlock[]>(
+    () =>
+      content && isMarkdown ? parseMarkdown(content.lines.join("\n")) : [],
+    [content, isMarkdown],
+  );
+
+  /** Coincidencias agrupadas por línea, para que cada fila pinte las suyas */
+  const matchesByLine = useMemo(() => {
+    const byLine = new Map<number, TextFindMatch[]>();
+    for (const match of matches) {
+      const lineMatches = byLine.get(match.lineIndex);
+      if (lineMatches) {
+        lineMatches.push(match);
+      } else {
+        byLine.set(match.lineIndex, [match]);
+      }
+    }
+    return byLine;
+  }, [matches]);
+
+  /**
+   * Busca `query` línea a línea, cediendo el hilo cada pocos miles de líneas
+   * para que un archivo grande no congele el visor mientras se recorre.
+   */
+  const search = useCallback(
+    async (query: string) => {
+      const searchId = ++searchIdRef.current;
+      if (!content || !query.trim()) {
+        setMatches([]);
+        setActiveMatchIndex(-1);
+        setIsSearching(false);
+        return;
+      }
+
+      setIsSearching(true);
+      const found: TextFindMatch[] = [];
+
+      for (
+        let lineIndex = 0;
+        lineIndex < content.lines.length && found.length < MAX_FIND_MATCHES;
+        lineIndex++
+      ) {
+        const lineMatches = findTextMatches(
+          content.lines[lineIndex]!,
+          query,
+          MAX_FIND_MATCHES - found.length,
+        );
+        for (const match of lineMatches) {
+          found.push({ lineIndex, start: match.start, end: match.end });
+        }
+
+        if ((lineIndex + 1) % FIND_LINES_PER_CHUNK === 0) {
+          await yieldToEventLoop();
+          if (searchId !== searchIdRef.current) return;
+        }
+      }
+
+      setMatches(found);
+      setActiveMatchIndex(found.length > 0 ? 0 : -1);
+      setIsSearching(false);
+    },
+    [content],
+  );
+
+  const clearSearch = useCallback(() => {
+    searchIdRef.current++;
+    setMatches([]);
+    setActiveMatchIndex(-1);
+    setIsSearching(false);
+  }, []);
+
+  /** Avanza (`1`) o retrocede (`-1`) a la siguiente coincidencia, dando la vuelta */
+  const stepMatch = useCallback(
+    (direction: 1 | -1) => {
+      if (matches.length === 0) return;
+      setActiveMatchIndex(
+        (prev) => (prev + direction + matches.length) % matches.length,
+      );
+    },
+    [matches.length],
+  );
+
+  return {
+    lines: content?.lines ?? [],
+    maxLineLength: content?.maxLineLength ?? 0,
+    isMarkdown,
+    markdownBlocks,
+    highlighter,
+    isLoading,
+    error,
+    isSearching,
+    matches,
+    matchesByLine,
+    activeMatch: matches[activeMatchIndex] ?? null,
+    activeMatchIndex,
+    search,
+    clearSearch,
+    stepMatch,
+  };
+}
@@ -1,4 +1,8 @@
 export { AudioPlayer } from "./AudioPlayer";
 export { ImageViewer } from "./ImageViewer";
-export { MediaHost } from "./MediaHost";
+export { MediaHost, resolveMediaHostCategory } from "./MediaHost";
+export { PdfViewer } from "./PdfViewer";
+export { SpreadsheetViewer } from "./SpreadsheetViewer";
+export { TextViewer, MarkdownView } from "./TextViewer";
+export type { MarkdownPalette } from "./TextViewer";
 export { VideoPlayer } from "./VideoPlayer";
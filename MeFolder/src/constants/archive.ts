@@ -0,0 +1,15 @@
+const MB = 1024 * 1024;
+
+/**
+ * Tamaños de parte que se ofrecen al comprimir o exportar un álbum; `null`
+ * genera un único archivo. Pensados para los límites de adjuntos habituales.
+ */
+export const ARCHIVE_VOLUME_SIZE_OPTIONS: {
+  value: number | null;
+  label: string;
+}[] = [
+  { value: null, label: "No dividir" },
+  { value: 25 * MB, label: "25 MB" },
+  { value: 100 * MB, label: "100 MB" },
+  { value: 500 * MB, label: "500 MB" },
+];
@@ -18,3 +18,16 @@ export const FOLDER_ICONS: (keyof typeof Ionicons.glyphMap)[] = [
   "leaf",
   "planet",
 ];
+
+export const SMART_FOLDER_ICONS: (keyof typeof Ionicons.glyphMap)[] = [
+  "sparkles",
+  "funnel",
+  "search",
+  "time",
+  "calendar",
+  "images",
+  "videocam",
+  "musical-notes",
+  "document-text",
+  "pricetags",
+];
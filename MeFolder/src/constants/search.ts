@@ -0,0 +1,26 @@
+import type { SortOptions } from "@/types/ui/search";
+
+/** Tamaño de página por defecto de la búsqueda multicriterio */
+export const SEARCH_PAGE_SIZE = 100;
+
+/** Orden por defecto de los resultados de búsqueda: por relevancia cuando hay texto */
+export const DEFAULT_SEARCH_SORT: SortOptions = {
+  field: "relevance",
+  order: "asc",
+};
+
+/** Máximo de sugerencias por tipo que se muestran mientras se escribe */
+export const SEARCH_SUGGESTION_LIMITS = {
+  files: 3,
+  folders: 3,
+  tags: 3,
+} as const;
+
+/** Espera tras la última pulsación antes de pedir sugerencias */
+export const SEARCH_SUGGESTION_DEBOUNCE_MS = 200;
+
+/** Número de búsquedas recientes que se conservan */
+export const RECENT_SEARCHES_LIMIT = 10;
+
+/** Máximo de archivos que muestra una carpeta inteligente al abrirla */
+export const SMART_FOLDER_ITEM_LIMIT = 500;
@@ -2,14 +2,21 @@ import { Database } from "../sqlite/Database";
 
 const FILES_MIGRATION_LOG_PREFIX = "[Database]";
 
+/** Estados admitidos por la CHECK de files en el esquema original (versión 1) */
+const FILE_STATUSES_V1 = ["active", "archived", "deleted"] as const;
+
+/** Estados admitidos a partir de la versión 2, alineados con FileStatus */
+const FILE_STATUSES_V2 = [...FILE_STATUSES_V1, "processing"] as const;
+
 /**
- * Crea la tabla files con todas las columnas para metadatos de archivos e índices para optimizar búsquedas
+ * Construye el CREATE TABLE de files con la lista de estados indicada.
+ * Se comparte entre la creación inicial y la reconstrucción de la tabla en migraciones.
  */
-export const createFilesTable = async (): Promise<void> => {
-  const db = Database.getInstance();
-
-  const createTableSQL = `
-    CREATE TABLE IF NOT EXISTS files (
+const buildCreateFilesTableSQL = (
+  tableName: string,
+  statuses: readonly string[],
+): string => `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
       
       id TEXT PRIMARY KEY NOT NULL,
       created_at INTEGER NOT NULL,
@@ -25,7 +32,7 @@ export const createFilesTable = async (): Promise<void> => {
       path TEXT NOT NULL UNIQUE,
       
       status TEXT NOT NULL DEFAULT 'active' 
-        CHECK (status IN ('active', 'archived', 'deleted')),
+        CHECK (status IN (${statuses.map((status) => `'${status}'`).join(", ")})),
       visibility TEXT NOT NULL DEFAULT 'public' 
         CHECK (visibility IN ('private', 'shared', 'public')),
 
@@ -65,25 +72,31 @@ export const createFilesTable = async (): Promise<void> => {
     );
   `;
 
-  const createIndexesSQL = [
-    "CREATE INDEX IF NOT EXISTS idx_files_folder_id ON files(folder_id);",
-    "CREATE INDEX IF NOT EXISTS idx_files_status ON files(status);",
-    "CREATE INDEX IF NOT EXISTS idx_files_visibility ON files(visibility);",
-    "CREATE INDEX IF NOT EXISTS idx_files_name ON files(name);",
-    "CREATE INDEX IF NOT EXISTS idx_files_original_name ON files(original_name);",
-    "CREATE INDEX IF NOT EXISTS idx_files_created_at ON files(created_at);",
-    "CREATE INDEX IF NOT EXISTS idx_files_updated_at ON files(updated_at);",
-    "CREATE INDEX IF NOT EXISTS idx_files_metadata_size ON files(metadata_size);",
-    "CREATE INDEX IF NOT EXISTS idx_files_extension ON files(extension);",
-    "CREATE INDEX IF NOT EXISTS idx_files_category ON files(category);",
-  ];
+const FILES_INDEXES_SQL = [
+  "CREATE INDEX IF NOT EXISTS idx_files_folder_id ON files(folder_id);",
+  "CREATE INDEX IF NOT EXISTS idx_files_status ON files(status);",
+  "CREATE INDEX IF NOT EXISTS idx_files_visibility ON files(visibility);",
+  "CREATE INDEX IF NOT EXISTS idx_files_name ON files(name);",
+  "CREATE INDEX IF NOT EXISTS idx_files_original_name ON files(original_name);",
+  "CREATE INDEX IF NOT EXISTS idx_files_created_at ON files(created_at);",
+  "CREATE INDEX IF NOT EXISTS idx_files_updated_at ON files(updated_at);",
+  "CREATE INDEX IF NOT EXISTS idx_files_metadata_size ON files(metadata_size);",
+  "CREATE INDEX IF NOT EXISTS idx_files_extension ON files(extension);",
+  "CREATE INDEX IF NOT EXISTS idx_files_category ON files(category);",
+];
+
+/**
+ * Crea la tabla files con todas las columnas para metadatos de archivos e índices para optimizar búsquedas
+ */
+export const createFilesTable = async (): Promise<void> => {
+  const db = Database.getInstance();
 
   try {
     console.log(`${FILES_MIGRATION_LOG_PREFIX} Creando tabla files...`);
 
-    await db.execute(createTableSQL);
+    await db.execute(buildCreateFilesTableSQL("files", FILE_STATUSES_V1));
 
-    for (const indexSQL of createIndexesSQL) {
+    for (const indexSQL of FILES_INDEXES_SQL) {
       await db.execute(indexSQL);
     }
 
@@ -99,6 +112,84 @@ export const createFilesTable = async (): Promise<void> => {
   }
 };
 
+/**
+ * Reconstruye la tabla files para que la CHECK de status acepte 'processing'.
+ * SQLite no permite modificar una CHECK existente, así que se crea la tabla nueva,
+ * se copian las filas, se elimina la antigua y se renombra.
+ * Debe ejecutarse con las claves foráneas desactivadas para no vaciar file_tags.
+ */
+export const addProcessingStatusToFiles = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(
+      `${FILES_MIGRATION_LOG_PREFIX} Añadiendo estado 'processing' a files...`,
+    );
+
+    await db.execute("DROP TABLE IF EXISTS files_new;");
+    await db.execute(buildCreateFilesTableSQL("files_new", FILE_STATUSES_V2));
+    await db.execute("INSERT INTO files_new SELECT * FROM files;");
+    await db.execute("DROP TABLE files;");
+    await db.execute("ALTER TABLE files_new RENAME TO files;");
+
+    for (const indexSQL of FILES_INDEXES_SQL) {
+      await db.execute(indexSQL);
+    }
+
+    console.log(`${FILES_MIGRATION_LOG_PREFIX} Tabla files reconstruida`);
+  } catch (error) {
+    console.error(
+      `${FILES_MIGRATION_LOG_PREFIX} Error al reconstruir tabla files:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Índice sobre el checksum para agrupar duplicados y comprobar importaciones
+ * sin recorrer toda la tabla
+ */
+export const addChecksumIndexToFiles = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    await db.execute(
+      "CREATE INDEX IF NOT EXISTS idx_files_metadata_checksum ON files(metadata_checksum);",
+    );
+    console.log(`${FILES_MIGRATION_LOG_PREFIX} Índice de checksum creado`);
+  } catch (error) {
+    console.error(
+      `${FILES_MIGRATION_LOG_PREFIX} Error al crear índice de checksum:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Columna para el hash perceptual (dHash) de las imágenes, usado para
+ * encontrar fotos parecidas aunque estén redimensionadas o recomprimidas
+ */
+export const addPerceptualHashToFiles = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    await db.execute(
+      "ALTER TABLE files ADD COLUMN metadata_perceptual_hash TEXT;",
+    );
+    console.log(
+      `${FILES_MIGRATION_LOG_PREFIX} Columna de hash perceptual creada`,
+    );
+  } catch (error) {
+    console.error(
+      `${FILES_MIGRATION_LOG_PREFIX} Error al crear columna de hash perceptual:`,
+      error,
+    );
+    throw error;
+  }
+};
+
 /**
  * Elimina completamente la tabla files
  */
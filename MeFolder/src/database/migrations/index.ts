@@ -0,0 +1,72 @@
+import {
+  addChecksumIndexToFiles,
+  addPerceptualHashToFiles,
+  addProcessingStatusToFiles,
+  createFilesTable,
+} from "./files";
+import { createFoldersTable } from "./folders";
+import { createJobsTable } from "./jobs";
+import { createSearchIndex } from "./search";
+import { createSmartFoldersTable } from "./smartFolders";
+import { createTagsTable } from "./tags";
+import { createUserColorsTable } from "./userColors";
+import type { Migration } from "./runner";
+
+/**
+ * Historial de migraciones del esquema, en orden.
+ * Para cambiar el esquema se añade una entrada al final con la siguiente versión;
+ * las entradas existentes no se editan porque ya están aplicadas en instalaciones reales.
+ */
+export const MIGRATIONS: readonly Migration[] = [
+  {
+    // Esquema inicial. Usa CREATE ... IF NOT EXISTS para adoptar las
+    // instalaciones anteriores al control de versiones (user_version = 0)
+    version: 1,
+    name: "initial_schema",
+    up: async () => {
+      await createFoldersTable();
+      await createFilesTable();
+      await createTagsTable();
+      await createUserColorsTable();
+    },
+  },
+  {
+    version: 2,
+    name: "files_processing_status",
+    disableForeignKeys: true,
+    up: addProcessingStatusToFiles,
+  },
+  {
+    version: 3,
+    name: "full_text_search",
+    up: createSearchIndex,
+  },
+  {
+    version: 4,
+    name: "smart_folders",
+    up: createSmartFoldersTable,
+  },
+  {
+    version: 5,
+    name: "files_checksum_index",
+    up: addChecksumIndexToFiles,
+  },
+  {
+    version: 6,
+    name: "files_perceptual_hash",
+    up: addPerceptualHashToFiles,
+  },
+  {
+    version: 7,
+    name: "jobs",
+    up: createJobsTable,
+  },
+];
+
+export {
+  runMigrations,
+  getSchemaVersion,
+  getAppliedMigrations,
+  resetSchemaVersion,
+} from "./runner";
+export type { Migration, AppliedMigration } from "./runner";
@@ -0,0 +1,81 @@
+import { Database } from "../sqlite/Database";
+
+const JOBS_MIGRATION_LOG_PREFIX = "[Database]";
+
+/**
+ * Crea la tabla jobs con el historial de la cola de tareas en segundo plano.
+ * Los parámetros se guardan como JSON para poder reintentar una tarea interrumpida
+ */
+export const createJobsTable = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  const createTableSQL = `
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+
+      type TEXT NOT NULL
+        CHECK (type IN ('compress', 'extract', 'album_import', 'album_export', 'media_import', 'paste')),
+      status TEXT NOT NULL DEFAULT 'queued'
+        CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled', 'interrupted')),
+      title TEXT NOT NULL,
+      params_json TEXT NOT NULL DEFAULT '{}',
+
+      progress_completed INTEGER NOT NULL DEFAULT 0,
+      progress_total INTEGER NOT NULL DEFAULT 0,
+      progress_completed_bytes INTEGER,
+      progress_total_bytes INTEGER,
+      progress_current_item TEXT,
+
+      result_message TEXT,
+      error_code TEXT,
+      error_message TEXT,
+
+      started_at INTEGER,
+      finished_at INTEGER
+    );
+  `;
+
+  const createIndexesSQL = [
+    "CREATE INDEX IF NOT EXISTS idx_jobs_status ON jobs(status);",
+    "CREATE INDEX IF NOT EXISTS idx_jobs_created_at ON jobs(created_at);",
+  ];
+
+  try {
+    console.log(`${JOBS_MIGRATION_LOG_PREFIX} Creando tabla jobs...`);
+
+    await db.execute(createTableSQL);
+
+    for (const indexSQL of createIndexesSQL) {
+      await db.execute(indexSQL);
+    }
+
+    console.log(`${JOBS_MIGRATION_LOG_PREFIX} Tabla jobs creada exitosamente`);
+  } catch (error) {
+    console.error(
+      `${JOBS_MIGRATION_LOG_PREFIX} Error al crear tabla jobs:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Elimina completamente la tabla jobs
+ */
+export const dropJobsTable = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(`${JOBS_MIGRATION_LOG_PREFIX} Eliminando tabla jobs...`);
+    await db.execute("DROP TABLE IF EXISTS jobs;");
+    console.log(`${JOBS_MIGRATION_LOG_PREFIX} Tabla jobs eliminada`);
+  } catch (error) {
+    console.error(
+      `${JOBS_MIGRATION_LOG_PREFIX} Error al eliminar tabla jobs:`,
+      error,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,216 @@
+import { Database } from "../sqlite/Database";
+
+const MIGRATION_RUNNER_LOG_PREFIX = "[Database-Migrations]";
+
+/**
+ * Migración versionada del esquema.
+ * Las versiones deben ser enteros consecutivos empezando en 1 y nunca reutilizarse:
+ * una vez publicada, una migración no se modifica, se añade otra nueva.
+ */
+export interface Migration {
+  /** Versión que alcanza el esquema tras aplicar la migración (PRAGMA user_version) */
+  version: number;
+  /** Nombre corto y estable para el registro de migraciones aplicadas */
+  name: string;
+  /**
+   * Desactiva las claves foráneas mientras se aplica la migración.
+   * Necesario para reconstruir tablas (CREATE nueva + copiar + DROP + RENAME),
+   * ya que con las claves activas el DROP dispararía los ON DELETE CASCADE.
+   */
+  disableForeignKeys?: boolean;
+  /** Pasos de la migración. Se ejecutan dentro de una transacción */
+  up: (db: Database) => Promise<void>;
+}
+
+/** Registro de una migración aplicada */
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  appliedAt: number;
+}
+
+const createSchemaMigrationsTableSQL = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY NOT NULL,
+    name TEXT NOT NULL,
+    applied_at INTEGER NOT NULL
+  );
+`;
+
+/**
+ * Valida que la lista de migraciones esté ordenada y sin huecos.
+ * @throws Error si hay versiones repetidas, desordenadas o no consecutivas
+ */
+const validateMigrations = (migrations: readonly Migration[]): void => {
+  migrations.forEach((migration, index) => {
+    const expectedVersion = index + 1;
+    if (migration.version !== expectedVersion) {
+      throw new Error(
+        `Migración inválida "${migration.name}": se esperaba la versión ${expectedVersion} y se encontró ${migration.version}`,
+      );
+    }
+  });
+};
+
+/**
+ * Lee la versión actual del esquema desde PRAGMA user_version.
+ */
+export const getSchemaVersion = async (): Promise<number> => {
+  const db = Database.getInstance();
+  const rows = await db.query<{ user_version: number }>("PRAGMA user_version;");
+  return rows[0]?.user_version ?? 0;
+};
+
+/**
+ * Devuelve el registro de migraciones aplicadas, de la más antigua a la más reciente.
+ */
+export const getAppliedMigrations = async (): Promise<AppliedMigration[]> => {
+  const db = Database.getInstance();
+  await db.execute(createSchemaMigrationsTableSQL);
+
+  const rows = await db.query<{
+    version: number;
+    name: string;
+    applied_at: number;
+  }>(
+    "SELECT version, name, applied_at FROM schema_migrations ORDER BY version ASC",
+  );
+
+  return rows.map((row) => ({
+    version: row.version,
+    name: row.name,
+    appliedAt: row.applied_at,
+  }));
+};
+
+/**
+ * Comprueba que no queden referencias rotas tras una migración
+ * que se ejecutó con las claves foráneas desactivadas.
+ * @throws Error si PRAGMA foreign_key_check encuentra violaciones
+ */
+const assertForeignKeysIntact = async (
+  db: Database,
+  migration: Migration,
+): Promise<void> => {
+  const violations = await db.query<{ table: string; parent: string }>(
+    "PRAGMA foreign_key_check;",
+  );
+
+  if (violations.length > 0) {
+    const first = violations[0];
+    throw new Error(
+      `La migración "${migration.name}" dejó ${violations.length} referencias inválidas (${first?.table} -> ${first?.parent})`,
+    );
+  }
+};
+
+/**
+ * Aplica una migración en una transacción: los pasos, el registro en
+ * schema_migrations y el nuevo user_version se confirman juntos o no se confirma nada.
+ */
+const applyMigration = async (
+  db: Database,
+  migration: Migration,
+): Promise<void> => {
+  if (migration.disableForeignKeys) {
+    // PRAGMA foreign_keys no tiene efecto dentro de una transacción
+    await db.execute("PRAGMA foreign_keys = OFF;");
+  }
+
+  try {
+    await db.withTransaction(async () => {
+      await migration.up(db);
+
+      if (migration.disableForeignKeys) {
+        await assertForeignKeysIntact(db, migration);
+      }
+
+      await db.execute(
+        "INSERT OR REPLACE INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        [migration.version, migration.name, Date.now()],
+      );
+      await db.execute(`PRAGMA user_version = ${migration.version};`);
+    });
+  } finally {
+    if (migration.disableForeignKeys) {
+      await db.execute("PRAGMA foreign_keys = ON;");
+    }
+  }
+};
+
+/**
+ * Lleva el esquema hasta la última versión conocida aplicando en orden
+ * las migraciones pendientes.
+ *
+ * Si una migración falla, su transacción se revierte y se detiene el proceso:
+ * la base de datos queda en la última versión aplicada correctamente.
+ * Si la base de datos tiene una versión más reciente que la app (downgrade),
+ * no se toca nada y se lanza un error.
+ *
+ * @param migrations - Migraciones ordenadas por versión, empezando en 1
+ * @returns Versión final del esquema
+ * @throws Error si una migración falla o la versión es desconocida
+ */
+export const runMigrations = async (
+  migrations: readonly Migration[],
+): Promise<number> => {
+  const db = Database.getInstance();
+  validateMigrations(migrations);
+
+  const latestVersion = migrations.length;
+  const currentVersion = await getSchemaVersion();
+
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `La base de datos está en la versión ${currentVersion}, más reciente que la soportada por la app (${latestVersion})`,
+    );
+  }
+
+  if (currentVersion === latestVersion) {
+    console.log(
+      `${MIGRATION_RUNNER_LOG_PREFIX} Esquema actualizado (versión ${currentVersion})`,
+    );
+    return currentVersion;
+  }
+
+  await db.execute(createSchemaMigrationsTableSQL);
+
+  const pending = migrations.filter(
+    (migration) => migration.version > currentVersion,
+  );
+
+  console.log(
+    `${MIGRATION_RUNNER_LOG_PREFIX} Versión ${currentVersion} -> ${latestVersion} (${pending.length} pendientes)`,
+  );
+
+  for (const migration of pending) {
+    try {
+      console.log(
+        `${MIGRATION_RUNNER_LOG_PREFIX} Aplicando ${migration.version} "${migration.name}"...`,
+      );
+      await applyMigration(db, migration);
+    } catch (error) {
+      console.error(
+        `${MIGRATION_RUNNER_LOG_PREFIX} Error en la migración ${migration.version} "${migration.name}":`,
+        error,
+      );
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Error al aplicar la migración ${migration.version} "${migration.name}": ${reason}`,
+      );
+    }
+  }
+
+  return latestVersion;
+};
+
+/**
+ * Olvida el historial de migraciones para que el siguiente arranque
+ * vuelva a crear el esquema desde la versión 1.
+ * Solo debe usarse después de eliminar las tablas de la app.
+ */
+export const resetSchemaVersion = async (): Promise<void> => {
+  const db = Database.getInstance();
+  await db.execute("DROP TABLE IF EXISTS schema_migrations;");
+  await db.execute("PRAGMA user_version = 0;");
+};
@@ -0,0 +1,268 @@
+import { Database } from "../sqlite/Database";
+
+const SEARCH_MIGRATION_LOG_PREFIX = "[Database]";
+
+/**
+ * Tokenizador común: unicode61 sin diacríticos ("camión" y "camion" generan el mismo token).
+ * Los índices de prefijo de 2 y 3 caracteres aceleran las búsquedas mientras se escribe.
+ */
+const FTS_OPTIONS = `tokenize = "unicode61 remove_diacritics 2", prefix = '2 3'`;
+
+/** Nombres de las etiquetas de un archivo separados por espacios */
+const fileTagNamesSQL = (fileIdExpression: string): string => `(
+  SELECT COALESCE(GROUP_CONCAT(t.name, ' '), '')
+  FROM file_tags ft
+  JOIN tags t ON t.id = ft.tag_id
+  WHERE ft.file_id = ${fileIdExpression}
+)`;
+
+/**
+ * Tablas FTS5 de búsqueda. El rowid de cada fila coincide con el rowid de la fila
+ * origen, lo que permite que los triggers actualicen el índice sin recorrerlo.
+ */
+const CREATE_FTS_TABLES_SQL = [
+  `CREATE VIRTUAL TABLE IF NOT EXISTS files_fts USING fts5(
+    id UNINDEXED, name, original_name, tags, ${FTS_OPTIONS}
+  );`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS folders_fts USING fts5(
+    id UNINDEXED, name, description, ${FTS_OPTIONS}
+  );`,
+  `CREATE VIRTUAL TABLE IF NOT EXISTS tags_fts USING fts5(
+    id UNINDEXED, name, description, ${FTS_OPTIONS}
+  );`,
+];
+
+/**
+ * Triggers que mantienen sincronizadas las tablas FTS con files, folders, tags y file_tags
+ */
+const SEARCH_TRIGGERS_SQL = [
+  // Archivos
+  `CREATE TRIGGER IF NOT EXISTS trg_files_fts_insert
+   AFTER INSERT ON files
+   FOR EACH ROW
+   BEGIN
+     INSERT INTO files_fts (rowid, id, name, original_name, tags)
+     VALUES (NEW.rowid, NEW.id, NEW.name, NEW.original_name, ${fileTagNamesSQL("NEW.id")});
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_files_fts_update
+   AFTER UPDATE OF name, original_name ON files
+   FOR EACH ROW
+   BEGIN
+     UPDATE files_fts
+     SET name = NEW.name, original_name = NEW.original_name
+     WHERE rowid = NEW.rowid;
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_files_fts_delete
+   AFTER DELETE ON files
+   FOR EACH ROW
+   BEGIN
+     DELETE FROM files_fts WHERE rowid = OLD.rowid;
+   END;`,
+
+  // Asignaciones de etiquetas: recalculan los nombres de etiqueta del archivo
+  `CREATE TRIGGER IF NOT EXISTS trg_file_tags_fts_insert
+   AFTER INSERT ON file_tags
+   FOR EACH ROW
+   BEGIN
+     UPDATE files_fts
+     SET tags = ${fileTagNamesSQL("NEW.file_id")}
+     WHERE rowid = (SELECT rowid FROM files WHERE id = NEW.file_id);
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_file_tags_fts_delete
+   AFTER DELETE ON file_tags
+   FOR EACH ROW
+   BEGIN
+     UPDATE files_fts
+     SET tags = ${fileTagNamesSQL("OLD.file_id")}
+     WHERE rowid = (SELECT rowid FROM files WHERE id = OLD.file_id);
+   END;`,
+
+  // Carpetas
+  `CREATE TRIGGER IF NOT EXISTS trg_folders_fts_insert
+   AFTER INSERT ON folders
+   FOR EACH ROW
+   BEGIN
+     INSERT INTO folders_fts (rowid, id, name, description)
+     VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''));
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_folders_fts_update
+   AFTER UPDATE OF name, description ON folders
+   FOR EACH ROW
+   BEGIN
+     UPDATE folders_fts
+     SET name = NEW.name, description = COALESCE(NEW.description, '')
+     WHERE rowid = NEW.rowid;
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_folders_fts_delete
+   AFTER DELETE ON folders
+   FOR EACH ROW
+   BEGIN
+     DELETE FROM folders_fts WHERE rowid = OLD.rowid;
+   END;`,
+
+  // Etiquetas
+  `CREATE TRIGGER IF NOT EXISTS trg_tags_fts_insert
+   AFTER INSERT ON tags
+   FOR EACH ROW
+   BEGIN
+     INSERT INTO tags_fts (rowid, id, name, description)
+     VALUES (NEW.rowid, NEW.id, NEW.name, COALESCE(NEW.description, ''));
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_tags_fts_update
+   AFTER UPDATE OF name, description ON tags
+   FOR EACH ROW
+   BEGIN
+     UPDATE tags_fts
+     SET name = NEW.name, description = COALESCE(NEW.description, '')
+     WHERE rowid = NEW.rowid;
+   END;`,
+
+  // Al renombrar una etiqueta se reindexan los archivos que la tienen asignada
+  `CREATE TRIGGER IF NOT EXISTS trg_tags_fts_rename
+   AFTER UPDATE OF name ON tags
+   FOR EACH ROW
+   WHEN NEW.name != OLD.name
+   BEGIN
+     UPDATE files_fts
+     SET tags = ${fileTagNamesSQL("files_fts.id")}
+     WHERE rowid IN (
+       SELECT f.rowid FROM files f
+       JOIN file_tags ft ON ft.file_id = f.id
+       WHERE ft.tag_id = NEW.id
+     );
+   END;`,
+
+  `CREATE TRIGGER IF NOT EXISTS trg_tags_fts_delete
+   AFTER DELETE ON tags
+   FOR EACH ROW
+   BEGIN
+     DELETE FROM tags_fts WHERE rowid = OLD.rowid;
+   END;`,
+];
+
+const SEARCH_TRIGGER_NAMES = [
+  "trg_files_fts_insert",
+  "trg_files_fts_update",
+  "trg_files_fts_delete",
+  "trg_file_tags_fts_insert",
+  "trg_file_tags_fts_delete",
+  "trg_folders_fts_insert",
+  "trg_folders_fts_update",
+  "trg_folders_fts_delete",
+  "trg_tags_fts_insert",
+  "trg_tags_fts_update",
+  "trg_tags_fts_rename",
+  "trg_tags_fts_delete",
+];
+
+/**
+ * Vacía las tablas FTS y las vuelve a llenar desde files, folders y tags.
+ * Debe llamarse después de cualquier migración que reconstruya una de esas tablas,
+ * porque la reconstrucción cambia los rowid y elimina sus triggers.
+ */
+export const rebuildSearchIndex = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Reconstruyendo índice de búsqueda...`,
+    );
+
+    await db.execute("DELETE FROM files_fts;");
+    await db.execute("DELETE FROM folders_fts;");
+    await db.execute("DELETE FROM tags_fts;");
+
+    await db.execute(
+      `INSERT INTO files_fts (rowid, id, name, original_name, tags)
+       SELECT f.rowid, f.id, f.name, f.original_name, ${fileTagNamesSQL("f.id")}
+       FROM files f;`,
+    );
+    await db.execute(
+      `INSERT INTO folders_fts (rowid, id, name, description)
+       SELECT rowid, id, name, COALESCE(description, '') FROM folders;`,
+    );
+    await db.execute(
+      `INSERT INTO tags_fts (rowid, id, name, description)
+       SELECT rowid, id, name, COALESCE(description, '') FROM tags;`,
+    );
+
+    console.log(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Índice de búsqueda reconstruido`,
+    );
+  } catch (error) {
+    console.error(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Error al reconstruir índice de búsqueda:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Crea las tablas FTS5 de búsqueda de texto completo, sus triggers de sincronización
+ * y las llena con el contenido existente
+ */
+export const createSearchIndex = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Creando índice de búsqueda FTS5...`,
+    );
+
+    for (const tableSQL of CREATE_FTS_TABLES_SQL) {
+      await db.execute(tableSQL);
+    }
+
+    for (const triggerSQL of SEARCH_TRIGGERS_SQL) {
+      await db.execute(triggerSQL);
+    }
+
+    await rebuildSearchIndex();
+
+    console.log(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Índice de búsqueda creado exitosamente`,
+    );
+  } catch (error) {
+    console.error(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Error al crear índice de búsqueda:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Elimina las tablas FTS y sus triggers
+ */
+export const dropSearchIndex = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Eliminando índice de búsqueda...`,
+    );
+
+    for (const triggerName of SEARCH_TRIGGER_NAMES) {
+      await db.execute(`DROP TRIGGER IF EXISTS ${triggerName};`);
+    }
+
+    await db.execute("DROP TABLE IF EXISTS files_fts;");
+    await db.execute("DROP TABLE IF EXISTS folders_fts;");
+    await db.execute("DROP TABLE IF EXISTS tags_fts;");
+
+    console.log(`${SEARCH_MIGRATION_LOG_PREFIX} Índice de búsqueda eliminado`);
+  } catch (error) {
+    console.error(
+      `${SEARCH_MIGRATION_LOG_PREFIX} Error al eliminar índice de búsqueda:`,
+      error,
+    );
+    throw error;
+  }
+};
@@ -0,0 +1,101 @@
+import { Database } from "../sqlite/Database";
+
+const SMART_FOLDERS_MIGRATION_LOG_PREFIX = "[Database]";
+
+/**
+ * Crea la tabla smart_folders para las búsquedas guardadas como carpetas inteligentes.
+ * Los filtros se guardan como JSON; el orden y la configuración de vista en columnas, igual que en folders
+ */
+export const createSmartFoldersTable = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  const createTableSQL = `
+    CREATE TABLE IF NOT EXISTS smart_folders (
+      id TEXT PRIMARY KEY NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+
+      name TEXT NOT NULL,
+      description TEXT,
+
+      parent_id TEXT NOT NULL REFERENCES folders(id) ON DELETE CASCADE,
+
+      color_hex TEXT,
+      color_rgb_r INTEGER CHECK (color_rgb_r >= 0 AND color_rgb_r <= 255),
+      color_rgb_g INTEGER CHECK (color_rgb_g >= 0 AND color_rgb_g <= 255),
+      color_rgb_b INTEGER CHECK (color_rgb_b >= 0 AND color_rgb_b <= 255),
+      icon TEXT,
+
+      filters_json TEXT NOT NULL DEFAULT '{}',
+      sort_field TEXT NOT NULL DEFAULT 'relevance'
+        CHECK (sort_field IN ('relevance', 'name', 'createdAt', 'updatedAt', 'size', 'lastAccessedAt')),
+      sort_order TEXT NOT NULL DEFAULT 'asc'
+        CHECK (sort_order IN ('asc', 'desc')),
+
+      view_settings_sort_by TEXT NOT NULL DEFAULT 'name'
+        CHECK (view_settings_sort_by IN ('name', 'date', 'size', 'type')),
+      view_settings_sort_order TEXT NOT NULL DEFAULT 'asc'
+        CHECK (view_settings_sort_order IN ('asc', 'desc')),
+      view_settings_view_mode TEXT NOT NULL DEFAULT 'list'
+        CHECK (view_settings_view_mode IN ('grid', 'list', 'details', 'big_icon', 'medium_icon', 'small_icon', 'content')),
+      view_settings_show_hidden_files BOOLEAN NOT NULL DEFAULT FALSE,
+      view_settings_show_extension BOOLEAN NOT NULL DEFAULT TRUE,
+
+      CONSTRAINT color_complete 
+        CHECK (
+          (color_hex IS NULL AND color_rgb_r IS NULL AND color_rgb_g IS NULL AND color_rgb_b IS NULL) OR
+          (color_hex IS NOT NULL AND color_rgb_r IS NOT NULL AND color_rgb_g IS NOT NULL AND color_rgb_b IS NOT NULL)
+        )
+    );
+  `;
+
+  const createIndexesSQL = [
+    "CREATE INDEX IF NOT EXISTS idx_smart_folders_parent_id ON smart_folders(parent_id);",
+    "CREATE INDEX IF NOT EXISTS idx_smart_folders_name ON smart_folders(name);",
+  ];
+
+  try {
+    console.log(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Creando tabla smart_folders...`,
+    );
+
+    await db.execute(createTableSQL);
+
+    for (const indexSQL of createIndexesSQL) {
+      await db.execute(indexSQL);
+    }
+
+    console.log(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Tabla smart_folders creada exitosamente`,
+    );
+  } catch (error) {
+    console.error(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Error al crear tabla smart_folders:`,
+      error,
+    );
+    throw error;
+  }
+};
+
+/**
+ * Elimina completamente la tabla smart_folders
+ */
+export const dropSmartFoldersTable = async (): Promise<void> => {
+  const db = Database.getInstance();
+
+  try {
+    console.log(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Eliminando tabla smart_folders...`,
+    );
+    await db.execute("DROP TABLE IF EXISTS smart_folders;");
+    console.log(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Tabla smart_folders eliminada`,
+    );
+  } catch (error) {
+    console.error(
+      `${SMART_FOLDERS_MIGRATION_LOG_PREFIX} Error al eliminar tabla smart_folders:`,
+      error,
+    );
+    throw error;
+  }
+};
@@ -13,9 +13,18 @@ import {
   FileCategory,
 } from "../../types/common/file-extensions";
 import { UUID } from "../../types/common/base";
-import { FileRepository } from "../../types/repositories/file";
+import { FileRepository, FileSearchPage } from "../../types/repositories/file";
+import { SearchParams } from "../../types/ui/search";
 import { ROOT_FOLDER_ID } from "../seeds/systemFolders";
 import { ColorInfo } from "@/types/common/colors";
+import {
+  buildFileSearchFrom,
+  buildFileSearchOrderBy,
+  buildFileSearchWhere,
+  buildFtsJoin,
+  buildFtsMatchQuery,
+  FILES_FTS_WEIGHTS,
+} from "./searchQueryBuilder";
 
 /**
  * Implementación del repositorio de archivos.
@@ -345,6 +354,70 @@ export class FileRepositoryImplementation implements FileRepository {
     }
   }
 
+  /**
+   * Actualiza tamaño y fecha de un archivo cuyo contenido se ha reescrito.
+   * El checksum anterior ya no corresponde al contenido, así que se borra y
+   * se recalcula cuando lo necesite la detección de duplicados.
+   */
+  async updateContentInfo(id: UUID, size: number): Promise<File> {
+    try {
+      const existingFile = await this.findById(id);
+      if (!existingFile) {
+        throw new Error("Archivo no encontrado");
+      }
+
+      const updatedAt = new Date();
+
+      await this.db.execute(
+        "UPDATE files SET metadata_size = ?, metadata_checksum = NULL, updated_at = ? WHERE id = ?",
+        [size, updatedAt.getTime(), id],
+      );
+
+      const metadata = { ...existingFile.metadata, size };
+      delete metadata.checksum;
+      return {
+        ...existingFile,
+        metadata,
+        updatedAt,
+      };
+    } catch (error) {
+      console.error("Error updating file content info:", error);
+      throw new Error(`Error al actualizar el contenido del archivo: ${error}`);
+    }
+  }
+
+  /**
+   * Guarda el checksum (MD5) calculado para un archivo que no lo tenía
+   */
+  async updateChecksum(id: UUID, checksum: string): Promise<void> {
+    try {
+      await this.db.execute(
+        "UPDATE files SET metadata_checksum = ? WHERE id = ?",
+        [checksum, id],
+      );
+    } catch (error) {
+      console.error("Error updating file checksum:", error);
+      throw new Error(`Error al actualizar checksum del archivo: ${error}`);
+    }
+  }
+
+  /**
+   * Guarda el hash perceptual calculado a partir del thumbnail de una imagen
+   */
+  async updatePerceptualHash(id: UUID, perceptualHash: string): Promise<void> {
+    try {
+      await this.db.execute(
+        "UPDATE files SET metadata_perceptual_hash = ? WHERE id = ?",
+        [perceptualHash, id],
+      );
+    } catch (error) {
+      console.error("Error updating file perceptual hash:", error);
+      throw new Error(
+        `Error al actualizar hash perceptual del archivo: ${error}`,
+      );
+    }
+  }
+
   /**
    * Actualizar estado del archivo
    */
@@ -483,6 +556,82 @@ export class FileRepositoryImplementation implements FileRepository {
     }
   }
 
+  /**
+   * Archivos no eliminados que comparten tamaño con algún otro.
+   * Solo ellos pueden tener duplicados, así que es lo único que hace falta
+   * comparar por checksum. Ordenados por tamaño y, dentro de él, por antigüedad.
+   */
+  async findDuplicateCandidates(): Promise<File[]> {
+    try {
+      const rows = await this.db.query<any>(
+        `SELECT f.*, GROUP_CONCAT(DISTINCT ft.tag_id) as tag_ids
+         FROM files f
+         LEFT JOIN file_tags ft ON f.id = ft.file_id
+         WHERE f.status IN ('active', 'archived')
+           AND f.metadata_size > 0
+           AND f.metadata_size IN (
+             SELECT metadata_size FROM files
+             WHERE status IN ('active', 'archived')
+             GROUP BY metadata_size
+             HAVING COUNT(*) > 1
+           )
+         GROUP BY f.id
+         ORDER BY f.metadata_size DESC, f.created_at ASC`,
+      );
+
+      return rows.map((row) => this.mapRowToFile(row));
+    } catch (error) {
+      console.error("Error finding duplicate candidates:", error);
+      throw new Error(`Error al buscar posibles duplicados: ${error}`);
+    }
+  }
+
+  /**
+   * Imágenes no eliminadas que pueden compararse por hash perceptual,
+   * de la más antigua a la más reciente
+   */
+  async findSimilarPhotoCandidates(): Promise<File[]> {
+    try {
+      const rows = await this.db.query<any>(
+        `SELECT f.*, GROUP_CONCAT(DISTINCT ft.tag_id) as tag_ids
+         FROM files f
+         LEFT JOIN file_tags ft ON f.id = ft.file_id
+         WHERE f.status IN ('active', 'archived')
+           AND f.category = 'image'
+         GROUP BY f.id
+         ORDER BY f.created_at ASC`,
+      );
+
+      return rows.map((row) => this.mapRowToFile(row));
+    } catch (error) {
+      console.error("Error finding similar photo candidates:", error);
+      throw new Error(`Error al buscar fotos comparables: ${error}`);
+    }
+  }
+
+  /**
+   * Buscar archivos activos o archivados con un tamaño exacto
+   */
+  async findBySize(size: number): Promise<File[]> {
+    try {
+      const rows = await this.db.query<any>(
+        `SELECT f.*, GROUP_CONCAT(DISTINCT ft.tag_id) as tag_ids
+         FROM files f
+         LEFT JOIN file_tags ft ON f.id = ft.file_id
+         WHERE f.status IN ('active', 'archived')
+           AND f.metadata_size = ?
+         GROUP BY f.id
+         ORDER BY f.created_at ASC`,
+        [size],
+      );
+
+      return rows.map((row) => this.mapRowToFile(row));
+    } catch (error) {
+      console.error("Error finding files by size:", error);
+      throw new Error(`Error al buscar archivos por tamaño: ${error}`);
+    }
+  }
+
   /**
    * Buscar archivos por carpeta
    */
@@ -592,14 +741,26 @@ export class FileRepositoryImplementation implements FileRepository {
    */
   async search(query: string, filters?: any): Promise<File[]> {
     try {
+      const matchQuery = buildFtsMatchQuery(query);
+      if (!matchQuery) {
+        return [];
+      }
+
+      const ftsJoin = buildFtsJoin(
+        "files_fts",
+        "f",
+        FILES_FTS_WEIGHTS,
+        matchQuery,
+      );
+
       let sql = `
         SELECT f.*, GROUP_CONCAT(DISTINCT ft.tag_id) as tag_ids
         FROM files f
+        ${ftsJoin.sql}
         LEFT JOIN file_tags ft ON f.id = ft.file_id
-        WHERE f.status != 'deleted' 
-        AND (f.name LIKE ? OR f.description LIKE ?)
+        WHERE f.status != 'deleted'
       `;
-      const params: any[] = [`%${query}%`, `%${query}%`];
+      const params: any[] = [...ftsJoin.params];
 
       if (filters) {
         if (filters.folderId) {
@@ -613,7 +774,7 @@ export class FileRepositoryImplementation implements FileRepository {
       }
 
       sql += " GROUP BY f.id";
-      sql += " ORDER BY f.name ASC";
+      sql += " ORDER BY fts.score ASC, f.name ASC";
 
       const rows = await this.db.query<any>(sql, params);
       return rows.map((row) => this.mapRowToFile(row));
@@ -623,6 +784,46 @@ export class FileRepositoryImplementation implements FileRepository {
     }
   }
 
+  /**
+   * Búsqueda multicriterio paginada.
+   * Devuelve la página pedida y el total de coincidencias sin paginar.
+   */
+  async searchWithParams(params: SearchParams): Promise<FileSearchPage> {
+    try {
+      const from = buildFileSearchFrom(params.filters);
+      const where = buildFileSearchWhere(params.filters);
+
+      const [countRow] = await this.db.query<{ total: number }>(
+        `SELECT COUNT(*) as total FROM ${from.sql} WHERE ${where.sql}`,
+        [...from.params, ...where.params],
+      );
+
+      const rows = await this.db.query<any>(
+        `SELECT f.*, GROUP_CONCAT(DISTINCT ft.tag_id) as tag_ids
+         FROM ${from.sql}
+         LEFT JOIN file_tags ft ON f.id = ft.file_id
+         WHERE ${where.sql}
+         GROUP BY f.id
+         ORDER BY ${buildFileSearchOrderBy(params.sort, params.filters)}
+         LIMIT ? OFFSET ?`,
+        [
+          ...from.params,
+          ...where.params,
+          params.pagination.limit,
+          params.pagination.offset,
+        ],
+      );
+
+      return {
+        items: rows.map((row) => this.mapRowToFile(row)),
+        total: countRow?.total ?? 0,
+      };
+    } catch (error) {
+      console.error("Error searching files with params:", error);
+      throw new Error(`Error al buscar archivos: ${error}`);
+    }
+  }
+
   /**
    * Mapear fila de base de datos a objeto File
    */
@@ -645,6 +846,9 @@ export class FileRepositoryImplementation implements FileRepository {
       size: row.metadata_size,
       ...(row.metadata_mime_type && { mimeType: row.metadata_mime_type }),
       ...(row.metadata_checksum && { checksum: row.metadata_checksum }),
+      ...(row.metadata_perceptual_hash && {
+        perceptualHash: row.metadata_perceptual_hash,
+      }),
       ...(row.metadata_image_width && {
         imageMetadata: {
           width: row.metadata_image_width,
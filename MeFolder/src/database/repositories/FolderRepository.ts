@@ -16,7 +16,16 @@ import {
   FolderLocationUpdate,
   FileLocationUpdate,
 } from "../../types/repositories/folder";
+import { SearchFilters, SortOptions } from "../../types/ui/search";
 import { ROOT_FOLDER_ID } from "../seeds/systemFolders";
+import {
+  buildFolderSearchFrom,
+  buildFolderSearchOrderBy,
+  buildFolderSearchWhere,
+  buildFtsJoin,
+  buildFtsMatchQuery,
+  NAME_DESCRIPTION_FTS_WEIGHTS,
+} from "./searchQueryBuilder";
 
 /**
  * Implementación del repositorio de carpetas.
@@ -594,12 +603,24 @@ export class FolderRepositoryImplementation implements FolderRepository {
    */
   async search(query: string, filters?: any): Promise<Folder[]> {
     try {
+      const matchQuery = buildFtsMatchQuery(query);
+      if (!matchQuery) {
+        return [];
+      }
+
+      const ftsJoin = buildFtsJoin(
+        "folders_fts",
+        "folders",
+        NAME_DESCRIPTION_FTS_WEIGHTS,
+        matchQuery,
+      );
+
       let sql = `
-        SELECT * FROM folders 
-        WHERE status != 'deleted' 
-        AND (name LIKE ? OR description LIKE ?)
+        SELECT folders.* FROM folders
+        ${ftsJoin.sql}
+        WHERE status != 'deleted'
       `;
-      const params: any[] = [`%${query}%`, `%${query}%`];
+      const params: any[] = [...ftsJoin.params];
 
       if (filters) {
         if (filters.parentId) {
@@ -616,7 +637,7 @@ export class FolderRepositoryImplementation implements FolderRepository {
         }
       }
 
-      sql += " ORDER BY name ASC";
+      sql += " ORDER BY fts.score ASC, name ASC";
 
       const rows = await this.db.query<any>(sql, params);
       return rows.map((row) => this.mapRowToFolder(row));
@@ -626,6 +647,30 @@ export class FolderRepositoryImplementation implements FolderRepository {
     }
   }
 
+  /**
+   * Búsqueda de carpetas con los criterios de SearchFilters aplicables a carpetas
+   */
+  async searchWithFilters(
+    filters: SearchFilters,
+    sort: SortOptions,
+  ): Promise<Folder[]> {
+    try {
+      const from = buildFolderSearchFrom(filters);
+      const where = buildFolderSearchWhere(filters);
+
+      const rows = await this.db.query<any>(
+        `SELECT folders.* FROM ${from.sql}
+         WHERE ${where.sql}
+         ORDER BY ${buildFolderSearchOrderBy(sort, filters)}`,
+        [...from.params, ...where.params],
+      );
+      return rows.map((row) => this.mapRowToFolder(row));
+    } catch (error) {
+      console.error("Error searching folders with filters:", error);
+      throw new Error(`Error al buscar carpetas: ${error}`);
+    }
+  }
+
   /**
    * Mapear fila de base de datos a objeto Folder
    */
@@ -0,0 +1,285 @@
+import { Database } from "../sqlite/Database";
+import {
+  Job,
+  CreateJobInput,
+  UpdateJobInput,
+  JobStatus,
+} from "../../types/entities/job";
+import { UUID } from "../../types/common/base";
+import { JobRepository } from "../../types/repositories/job";
+
+const FINISHED_STATUSES: JobStatus[] = [
+  "completed",
+  "failed",
+  "cancelled",
+  "interrupted",
+];
+
+/**
+ * Implementación del repositorio de tareas en segundo plano.
+ * Maneja operaciones CRUD para la tabla jobs
+ */
+export class JobRepositoryImplementation implements JobRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async findById(id: UUID): Promise<Job | null> {
+    try {
+      const [row] = await this.db.query<any>(
+        "SELECT * FROM jobs WHERE id = ?",
+        [id],
+      );
+      return row ? this.mapRowToJob(row) : null;
+    } catch (error) {
+      console.error("Error finding job by id:", error);
+      throw new Error(`Error al buscar tarea: ${error}`);
+    }
+  }
+
+  /**
+   * Historial de tareas, de la más reciente a la más antigua
+   */
+  async findAll(): Promise<Job[]> {
+    try {
+      const rows = await this.db.query<any>(
+        "SELECT * FROM jobs ORDER BY created_at DESC",
+      );
+      return rows.map((row) => this.mapRowToJob(row));
+    } catch (error) {
+      console.error("Error finding all jobs:", error);
+      throw new Error(`Error al buscar tareas: ${error}`);
+    }
+  }
+
+  async findUnfinished(): Promise<Job[]> {
+    try {
+      const rows = await this.db.query<any>(
+        "SELECT * FROM jobs WHERE status IN ('queued', 'running') ORDER BY created_at ASC",
+      );
+      return rows.map((row) => this.mapRowToJob(row));
+    } catch (error) {
+      console.error("Error finding unfinished jobs:", error);
+      throw new Error(`Error al buscar tareas pendientes: ${error}`);
+    }
+  }
+
+  async create(input: CreateJobInput): Promise<Job> {
+    try {
+      const now = new Date();
+      const job: Job = {
+        id: this.generateId(),
+        createdAt: now,
+        updatedAt: now,
+        type: input.type,
+        status: "queued",
+        title: input.title,
+        params: input.params,
+        progress: { completed: 0, total: 0 },
+      };
+
+      await this.db.execute(
+        `
+        INSERT INTO jobs (
+          id, created_at, updated_at, type, status, title, params_json
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      `,
+        [
+          job.id,
+          now.getTime(),
+          now.getTime(),
+          job.type,
+          job.status,
+          job.title,
+          JSON.stringify(job.params),
+        ],
+      );
+
+      return job;
+    } catch (error) {
+      console.error("Error creating job:", error);
+      throw new Error(`Error al crear tarea: ${error}`);
+    }
+  }
+
+  /**
+   * Los campos a `null` se borran; los que no se indican se conservan
+   */
+  async update(id: UUID, input: UpdateJobInput): Promise<Job> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new Error("Tarea no encontrada");
+      }
+
+      const updated: Job = {
+        ...existing,
+        updatedAt: new Date(),
+        ...(input.status && { status: input.status }),
+        ...(input.progress && { progress: input.progress }),
+      };
+
+      if (input.resultMessage !== undefined) {
+        if (input.resultMessage) {
+          updated.resultMessage = input.resultMessage;
+        } else {
+          delete updated.resultMessage;
+        }
+      }
+      if (input.error !== undefined) {
+        if (input.error) {
+          updated.error = input.error;
+        } else {
+          delete updated.error;
+        }
+      }
+      if (input.startedAt !== undefined) {
+        if (input.startedAt) {
+          updated.startedAt = input.startedAt;
+        } else {
+          delete updated.startedAt;
+        }
+      }
+      if (input.finishedAt !== undefined) {
+        if (input.finishedAt) {
+          updated.finishedAt = input.finishedAt;
+        } else {
+          delete updated.finishedAt;
+        }
+      }
+
+      await this.db.execute(
+        `
+        UPDATE jobs SET
+          updated_at = ?,
+          status = ?,
+          progress_completed = ?,
+          progress_total = ?,
+          progress_completed_bytes = ?,
+          progress_total_bytes = ?,
+          progress_current_item = ?,
+          result_message = ?,
+          error_code = ?,
+          error_message = ?,
+          started_at = ?,
+          finished_at = ?
+        WHERE id = ?
+      `,
+        [
+          updated.updatedAt.getTime(),
+          updated.status,
+          updated.progress.completed,
+          updated.progress.total,
+          updated.progress.completedBytes ?? null,
+          updated.progress.totalBytes ?? null,
+          updated.progress.currentItemName ?? null,
+          updated.resultMessage ?? null,
+          updated.error?.code ?? null,
+          updated.error?.message ?? null,
+          updated.startedAt?.getTime() ?? null,
+          updated.finishedAt?.getTime() ?? null,
+          id,
+        ],
+      );
+
+      return updated;
+    } catch (error) {
+      console.error("Error updating job:", error);
+      throw new Error(`Error al actualizar tarea: ${error}`);
+    }
+  }
+
+  async delete(id: UUID): Promise<boolean> {
+    try {
+      const result = await this.db.execute("DELETE FROM jobs WHERE id = ?", [
+        id,
+      ]);
+      return result.changes > 0;
+    } catch (error) {
+      console.error("Error deleting job:", error);
+      throw new Error(`Error al eliminar tarea: ${error}`);
+    }
+  }
+
+  async deleteFinished(): Promise<number> {
+    try {
+      const placeholders = FINISHED_STATUSES.map(() => "?").join(", ");
+      const result = await this.db.execute(
+        `DELETE FROM jobs WHERE status IN (${placeholders})`,
+        FINISHED_STATUSES,
+      );
+      return result.changes;
+    } catch (error) {
+      console.error("Error deleting finished jobs:", error);
+      throw new Error(`Error al limpiar el historial de tareas: ${error}`);
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      const [row] = await this.db.query<{ total: number }>(
+        "SELECT COUNT(*) as total FROM jobs",
+      );
+      return row?.total ?? 0;
+    } catch (error) {
+      console.error("Error counting jobs:", error);
+      throw new Error(`Error al contar tareas: ${error}`);
+    }
+  }
+
+  async exists(id: UUID): Promise<boolean> {
+    try {
+      const [row] = await this.db.query<any>(
+        "SELECT 1 FROM jobs WHERE id = ?",
+        [id],
+      );
+      return !!row;
+    } catch (error) {
+      console.error("Error checking job existence:", error);
+      return false;
+    }
+  }
+
+  private mapRowToJob(row: any): Job {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      type: row.type as Job["type"],
+      status: row.status as JobStatus,
+      title: row.title,
+      params: row.params_json ? JSON.parse(row.params_json) : {},
+      progress: {
+        completed: row.progress_completed ?? 0,
+        total: row.progress_total ?? 0,
+        ...(row.progress_current_item && {
+          currentItemName: row.progress_current_item,
+        }),
+        ...(row.progress_completed_bytes != null && {
+          completedBytes: row.progress_completed_bytes,
+        }),
+        ...(row.progress_total_bytes != null && {
+          totalBytes: row.progress_total_bytes,
+        }),
+      },
+
+      ...(row.result_message && { resultMessage: row.result_message }),
+      ...(row.error_message && {
+        error: {
+          code: row.error_code ?? "unknown",
+          message: row.error_message,
+        },
+      }),
+      ...(row.started_at != null && { startedAt: new Date(row.started_at) }),
+      ...(row.finished_at != null && {
+        finishedAt: new Date(row.finished_at),
+      }),
+    };
+  }
+
+  private generateId(): UUID {
+    return `job_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+  }
+}
@@ -0,0 +1,381 @@
+import { Database } from "../sqlite/Database";
+import { SmartFolderFactory } from "../../models/smartFolder";
+import {
+  SmartFolder,
+  CreateSmartFolderInput,
+  UpdateSmartFolderInput,
+} from "../../types/entities/smartFolder";
+import { ViewSettings } from "../../types/entities/folder";
+import { UUID } from "../../types/common/base";
+import { ColorInfo } from "../../types/common/colors";
+import { SmartFolderRepository } from "../../types/repositories/smartFolder";
+import { SearchFilters, SortOptions } from "../../types/ui/search";
+
+/** Los filtros se guardan en JSON; las fechas viajan como milisegundos */
+const serializeFilters = (filters: SearchFilters): string =>
+  JSON.stringify({
+    ...filters,
+    ...(filters.dateRange && {
+      dateRange: {
+        start: filters.dateRange.start?.getTime(),
+        end: filters.dateRange.end?.getTime(),
+      },
+    }),
+  });
+
+const parseFilters = (json: string | null): SearchFilters => {
+  if (!json) {
+    return {};
+  }
+
+  const { dateRange, ...filters } = JSON.parse(json);
+
+  return {
+    ...filters,
+    ...(dateRange && {
+      dateRange: {
+        ...(dateRange.start != null && { start: new Date(dateRange.start) }),
+        ...(dateRange.end != null && { end: new Date(dateRange.end) }),
+      },
+    }),
+  };
+};
+
+/**
+ * Implementación del repositorio de carpetas inteligentes.
+ * Maneja operaciones CRUD para la tabla smart_folders
+ */
+export class SmartFolderRepositoryImplementation implements SmartFolderRepository {
+  private db: Database;
+
+  constructor() {
+    this.db = Database.getInstance();
+  }
+
+  async findById(id: UUID): Promise<SmartFolder | null> {
+    try {
+      const [row] = await this.db.query<any>(
+        "SELECT * FROM smart_folders WHERE id = ?",
+        [id],
+      );
+      return row ? this.mapRowToSmartFolder(row) : null;
+    } catch (error) {
+      console.error("Error finding smart folder by id:", error);
+      throw new Error(`Error al buscar carpeta inteligente: ${error}`);
+    }
+  }
+
+  async findAll(): Promise<SmartFolder[]> {
+    try {
+      const rows = await this.db.query<any>(
+        "SELECT * FROM smart_folders ORDER BY name ASC",
+      );
+      return rows.map((row) => this.mapRowToSmartFolder(row));
+    } catch (error) {
+      console.error("Error finding all smart folders:", error);
+      throw new Error(`Error al buscar carpetas inteligentes: ${error}`);
+    }
+  }
+
+  /**
+   * Carpetas inteligentes que se muestran dentro de una carpeta
+   */
+  async findByParentId(parentId: UUID): Promise<SmartFolder[]> {
+    try {
+      const rows = await this.db.query<any>(
+        "SELECT * FROM smart_folders WHERE parent_id = ? ORDER BY name ASC",
+        [parentId],
+      );
+      return rows.map((row) => this.mapRowToSmartFolder(row));
+    } catch (error) {
+      console.error("Error finding smart folders by parent:", error);
+      throw new Error(`Error al buscar carpetas inteligentes: ${error}`);
+    }
+  }
+
+  async create(input: CreateSmartFolderInput): Promise<SmartFolder> {
+    try {
+      const smartFolderModel = SmartFolderFactory.create(input);
+
+      const validation = smartFolderModel.validate();
+      if (!validation.isValid) {
+        throw new Error(
+          `Validación fallida: ${validation.errors.map((e) => e.message).join(", ")}`,
+        );
+      }
+
+      const smartFolder = smartFolderModel.toSmartFolderJSON();
+
+      await this.db.execute(
+        `
+        INSERT INTO smart_folders (
+          id, created_at, updated_at,
+          name, description, parent_id,
+          color_hex, color_rgb_r, color_rgb_g, color_rgb_b, icon,
+          filters_json, sort_field, sort_order,
+          view_settings_sort_by, view_settings_sort_order,
+          view_settings_view_mode, view_settings_show_hidden_files,
+          view_settings_show_extension
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+        [
+          smartFolder.id,
+          smartFolder.createdAt.getTime(),
+          smartFolder.updatedAt.getTime(),
+          smartFolder.name,
+          smartFolder.description ?? null,
+          smartFolder.parentId,
+          smartFolder.color?.hex ?? null,
+          smartFolder.color?.rgb.r ?? null,
+          smartFolder.color?.rgb.g ?? null,
+          smartFolder.color?.rgb.b ?? null,
+          smartFolder.icon ?? null,
+          serializeFilters(smartFolder.filters),
+          smartFolder.sort.field,
+          smartFolder.sort.order,
+          smartFolder.viewSettings.sortBy,
+          smartFolder.viewSettings.sortOrder,
+          smartFolder.viewSettings.viewMode,
+          smartFolder.viewSettings.options.showHiddenFiles,
+          smartFolder.viewSettings.options.showExtension,
+        ],
+      );
+
+      return smartFolder;
+    } catch (error) {
+      console.error("Error creating smart folder:", error);
+      throw new Error(`Error al crear carpeta inteligente: ${error}`);
+    }
+  }
+
+  async update(id: UUID, input: UpdateSmartFolderInput): Promise<SmartFolder> {
+    try {
+      const existing = await this.findById(id);
+      if (!existing) {
+        throw new Error("Carpeta inteligente no encontrada");
+      }
+
+      const updatedAt = new Date().getTime();
+
+      const updated: SmartFolder = {
+        ...existing,
+        updatedAt: new Date(updatedAt),
+        ...(input.name !== undefined && { name: input.name.trim() }),
+        ...(input.color && { color: input.color }),
+        ...(input.icon && { icon: input.icon }),
+        ...(input.filters && { filters: input.filters }),
+        ...(input.sort && { sort: input.sort }),
+        ...(input.viewSettings && {
+          viewSettings: { ...existing.viewSettings, ...input.viewSettings },
+        }),
+      };
+
+      if (input.description !== undefined) {
+        if (input.description.trim()) {
+          updated.description = input.description.trim();
+        } else {
+          delete updated.description;
+        }
+      }
+
+      const validation = SmartFolderFactory.fromJSON(updated).validate();
+      if (!validation.isValid) {
+        throw new Error(
+          `Validación fallida: ${validation.errors.map((e) => e.message).join(", ")}`,
+        );
+      }
+
+      await this.db.execute(
+        `
+        UPDATE smart_folders SET
+          updated_at = ?,
+          name = ?,
+          description = ?,
+          color_hex = ?,
+          color_rgb_r = ?,
+          color_rgb_g = ?,
+          color_rgb_b = ?,
+          icon = ?,
+          filters_json = ?,
+          sort_field = ?,
+          sort_order = ?,
+          view_settings_sort_by = ?,
+          view_settings_sort_order = ?,
+          view_settings_view_mode = ?,
+          view_settings_show_hidden_files = ?,
+          view_settings_show_extension = ?
+        WHERE id = ?
+      `,
+        [
+          updatedAt,
+          updated.name,
+          updated.description ?? null,
+          updated.color?.hex ?? null,
+          updated.color?.rgb.r ?? null,
+          updated.color?.rgb.g ?? null,
+          updated.color?.rgb.b ?? null,
+          updated.icon ?? null,
+          serializeFilters(updated.filters),
+          updated.sort.field,
+          updated.sort.order,
+          updated.viewSettings.sortBy,
+          updated.viewSettings.sortOrder,
+          updated.viewSettings.viewMode,
+          updated.viewSettings.options.showHiddenFiles,
+          updated.viewSettings.options.showExtension,
+          id,
+        ],
+      );
+
+      return updated;
+    } catch (error) {
+      console.error("Error updating smart folder:", error);
+      throw new Error(`Error al actualizar carpeta inteligente: ${error}`);
+    }
+  }
+
+  /**
+   * Eliminación física: la carpeta inteligente no tiene contenido propio que enviar a la papelera
+   */
+  async delete(id: UUID): Promise<boolean> {
+    try {
+      const result = await this.db.execute(
+        "DELETE FROM smart_folders WHERE id = ?",
+        [id],
+      );
+      return result.changes > 0;
+    } catch (error) {
+      console.error("Error deleting smart folder:", error);
+      throw new Error(`Error al eliminar carpeta inteligente: ${error}`);
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      const [row] = await this.db.query<{ total: number }>(
+        "SELECT COUNT(*) as total FROM smart_folders",
+      );
+      return row?.total ?? 0;
+    } catch (error) {
+      console.error("Error counting smart folders:", error);
+      throw new Error(`Error al contar carpetas inteligentes: ${error}`);
+    }
+  }
+
+  async exists(id: UUID): Promise<boolean> {
+    try {
+      const [row] = await this.db.query<any>(
+        "SELECT 1 FROM smart_folders WHERE id = ?",
+        [id],
+      );
+      return !!row;
+    } catch (error) {
+      console.error("Error checking smart folder existence:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Obtiene la configuración de vista de una carpeta inteligente
+   */
+  async getViewConfig(smartFolderId: UUID): Promise<ViewSettings | null> {
+    try {
+      const [row] = await this.db.query<any>(
+        "SELECT view_settings_sort_by, view_settings_sort_order, view_settings_view_mode, view_settings_show_hidden_files, view_settings_show_extension FROM smart_folders WHERE id = ?",
+        [smartFolderId],
+      );
+
+      return row ? this.mapRowToViewSettings(row) : null;
+    } catch (error) {
+      console.error("Error getting smart folder view config:", error);
+      throw new Error(
+        `Error al obtener configuración de vista de la carpeta inteligente: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Actualizar configuración de vista de una carpeta inteligente
+   */
+  async updateViewConfig(
+    smartFolderId: UUID,
+    viewSettings: Partial<ViewSettings>,
+  ): Promise<void> {
+    try {
+      const existing = await this.getViewConfig(smartFolderId);
+      if (!existing) {
+        throw new Error("Carpeta inteligente no encontrada");
+      }
+
+      const updated = { ...existing, ...viewSettings };
+
+      await this.db.execute(
+        `UPDATE smart_folders SET
+          view_settings_sort_by = ?,
+          view_settings_sort_order = ?,
+          view_settings_view_mode = ?,
+          view_settings_show_hidden_files = ?,
+          view_settings_show_extension = ?,
+          updated_at = ?
+        WHERE id = ?`,
+        [
+          updated.sortBy,
+          updated.sortOrder,
+          updated.viewMode,
+          updated.options?.showHiddenFiles,
+          updated.options?.showExtension,
+          new Date().getTime(),
+          smartFolderId,
+        ],
+      );
+    } catch (error) {
+      console.error("Error updating smart folder view settings:", error);
+      throw new Error(
+        `Error al actualizar configuración de vista de la carpeta inteligente: ${error}`,
+      );
+    }
+  }
+
+  private mapRowToViewSettings(row: any): ViewSettings {
+    return {
+      sortBy: row.view_settings_sort_by || "name",
+      sortOrder: row.view_settings_sort_order || "asc",
+      viewMode: row.view_settings_view_mode || "list",
+      options: {
+        showHiddenFiles: Boolean(row.view_settings_show_hidden_files),
+        showExtension: Boolean(row.view_settings_show_extension),
+      },
+    };
+  }
+
+  private mapRowToSmartFolder(row: any): SmartFolder {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      name: row.name,
+      parentId: row.parent_id,
+      filters: parseFilters(row.filters_json),
+      sort: {
+        field: row.sort_field as SortOptions["field"],
+        order: row.sort_order as SortOptions["order"],
+      },
+      viewSettings: this.mapRowToViewSettings(row),
+
+      ...(row.description && { description: row.description }),
+      ...(row.color_hex && {
+        color: {
+          hex: row.color_hex,
+          rgb: {
+            r: row.color_rgb_r,
+            g: row.color_rgb_g,
+            b: row.color_rgb_b,
+          },
+          isSystem: false,
+          isFavorite: false,
+        } as ColorInfo,
+      }),
+      ...(row.icon && { icon: row.icon }),
+    };
+  }
+}
@@ -337,6 +337,9 @@ export class TagAssignmentRepositoryImplementation implements TagAssignmentRepos
       size: row.metadata_size,
       ...(row.metadata_mime_type && { mimeType: row.metadata_mime_type }),
       ...(row.metadata_checksum && { checksum: row.metadata_checksum }),
+      ...(row.metadata_perceptual_hash && {
+        perceptualHash: row.metadata_perceptual_hash,
+      }),
       ...(row.metadata_image_width && {
         imageMetadata: {
           width: row.metadata_image_width,
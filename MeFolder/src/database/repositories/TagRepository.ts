@@ -11,6 +11,11 @@ import { UUID } from "../../types/common/base";
 import { ColorInfo } from "../../types/common/colors";
 import { TagRepository, TagTreeNode } from "../../types/repositories/tag";
 import { ViewSettings } from "../../types/entities/folder";
+import {
+  buildFtsJoin,
+  buildFtsMatchQuery,
+  NAME_DESCRIPTION_FTS_WEIGHTS,
+} from "./searchQueryBuilder";
 
 const ACTIVE_USAGE_COUNT_SQL = `(
   SELECT COUNT(*)
@@ -323,19 +328,31 @@ export class TagRepositoryImplementation implements TagRepository {
    */
   async search(query: string, filters?: any): Promise<Tag[]> {
     try {
+      const matchQuery = buildFtsMatchQuery(query);
+      if (!matchQuery) {
+        return [];
+      }
+
+      const ftsJoin = buildFtsJoin(
+        "tags_fts",
+        "tags",
+        NAME_DESCRIPTION_FTS_WEIGHTS,
+        matchQuery,
+      );
+
       let sql = `
-        SELECT tags.*, ${ACTIVE_USAGE_COUNT_SQL} as usage_count FROM tags 
-        WHERE is_active = ? 
-        AND (name LIKE ? OR description LIKE ?)
+        SELECT tags.*, ${ACTIVE_USAGE_COUNT_SQL} as usage_count FROM tags
+        ${ftsJoin.sql}
+        WHERE is_active = ?
       `;
-      const params: any[] = [true, `%${query}%`, `%${query}%`];
+      const params: any[] = [...ftsJoin.params, true];
 
       if (filters?.type) {
         sql += " AND type = ?";
         params.push(filters.type);
       }
 
-      sql += " ORDER BY usage_count DESC, name ASC";
+      sql += " ORDER BY fts.score ASC, usage_count DESC, name ASC";
 
       const rows = await this.db.query<any>(sql, params);
       return rows.map((row) => this.mapRowToTag(row));
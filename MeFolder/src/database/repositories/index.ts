@@ -1,5 +1,7 @@
 export { FileRepositoryImplementation as FileRepository } from './FileRepository';
 export { FolderRepositoryImplementation as FolderRepository } from './FolderRepository';
+export { JobRepositoryImplementation as JobRepository } from './JobRepository';
+export { SmartFolderRepositoryImplementation as SmartFolderRepository } from './SmartFolderRepository';
 export { TagRepositoryImplementation as TagRepository } from './TagRepository';
 export { TagAssignmentRepositoryImplementation as TagAssignmentRepository } from './TagAssignmentRepository';
 export { UserColorRepositoryImplementation as UserColorRepository } from './UserColorRepository';
\ No newline at end of file
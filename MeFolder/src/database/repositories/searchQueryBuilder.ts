@@ -0,0 +1,321 @@
+import { SearchFilters, SortOptions } from "../../types/ui/search";
+import { UUID } from "../../types/common/base";
+
+/** Fragmento WHERE parametrizado */
+export interface SqlClause {
+  sql: string;
+  params: any[];
+}
+
+const FILE_SORT_COLUMNS: Record<SortOptions["field"], string> = {
+  relevance: "fts.score",
+  name: "f.name COLLATE NOCASE",
+  createdAt: "f.created_at",
+  updatedAt: "f.updated_at",
+  size: "f.metadata_size",
+  lastAccessedAt: "f.last_accessed_at",
+};
+
+const FOLDER_SORT_COLUMNS: Record<SortOptions["field"], string> = {
+  relevance: "fts.score",
+  name: "name COLLATE NOCASE",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+  size: "name COLLATE NOCASE",
+  lastAccessedAt: "last_accessed_at",
+};
+
+const placeholders = (values: readonly unknown[]): string =>
+  values.map(() => "?").join(",");
+
+/**
+ * Convierte el texto del usuario en una consulta MATCH de FTS5.
+ * Cada palabra se entrecomilla (neutraliza la sintaxis de FTS5) y se busca por prefijo;
+ * el texto entre comillas se busca como frase exacta. Los términos se combinan con AND.
+ * Devuelve null si no hay palabras.
+ */
+export const buildFtsMatchQuery = (text: string): string | null => {
+  const terms = (text.match(/"[^"]*"?|[^\s"]+/g) ?? []).flatMap((term) => {
+    if (!term.startsWith('"')) {
+      return [`"${term}"*`];
+    }
+
+    const phrase = term.replace(/"/g, "").trim();
+    return phrase ? [`"${phrase}"`] : [];
+  });
+
+  return terms.length > 0 ? terms.join(" ") : null;
+};
+
+/**
+ * JOIN con las coincidencias de una tabla FTS ordenables por relevancia (bm25).
+ * Expone `fts.score`: cuanto menor, más relevante.
+ * El `LIMIT -1` impide que SQLite aplane la subconsulta en el JOIN, porque
+ * bm25() solo puede evaluarse dentro de una consulta directa a la tabla FTS.
+ * @param ftsTable - Tabla FTS (files_fts, folders_fts o tags_fts)
+ * @param sourceAlias - Alias o nombre de la tabla origen, cuyo rowid coincide con el de la FTS
+ * @param weights - Peso de cada columna de la tabla FTS en el ranking, en orden
+ */
+export const buildFtsJoin = (
+  ftsTable: string,
+  sourceAlias: string,
+  weights: readonly number[],
+  matchQuery: string,
+): SqlClause => ({
+  sql: `JOIN (
+    SELECT rowid AS fts_rowid, bm25(${ftsTable}, ${weights.join(", ")}) AS score
+    FROM ${ftsTable}
+    WHERE ${ftsTable} MATCH ?
+    LIMIT -1
+  ) fts ON fts.fts_rowid = ${sourceAlias}.rowid`,
+  params: [matchQuery],
+});
+
+/** Pesos bm25 de files_fts: id, name, original_name, tags */
+export const FILES_FTS_WEIGHTS = [0, 10, 4, 6] as const;
+
+/** Pesos bm25 de folders_fts y tags_fts: id, name, description */
+export const NAME_DESCRIPTION_FTS_WEIGHTS = [0, 10, 3] as const;
+
+/**
+ * FROM de la búsqueda de archivos (alias `f`).
+ * Con texto de búsqueda añade el JOIN con files_fts, que filtra y aporta la relevancia.
+ */
+export const buildFileSearchFrom = (filters: SearchFilters): SqlClause => {
+  const matchQuery = buildFtsMatchQuery(filters.query ?? "");
+  if (!matchQuery) {
+    return { sql: "files f", params: [] };
+  }
+
+  const join = buildFtsJoin("files_fts", "f", FILES_FTS_WEIGHTS, matchQuery);
+  return { sql: `files f ${join.sql}`, params: join.params };
+};
+
+/**
+ * FROM de la búsqueda de carpetas. Con texto de búsqueda añade el JOIN con folders_fts.
+ */
+export const buildFolderSearchFrom = (filters: SearchFilters): SqlClause => {
+  const matchQuery = buildFtsMatchQuery(filters.query ?? "");
+  if (!matchQuery) {
+    return { sql: "folders", params: [] };
+  }
+
+  const join = buildFtsJoin(
+    "folders_fts",
+    "folders",
+    NAME_DESCRIPTION_FTS_WEIGHTS,
+    matchQuery,
+  );
+  return { sql: `folders ${join.sql}`, params: join.params };
+};
+
+/**
+ * Condición de ámbito por carpetas.
+ * Con includeSubfolders usa un CTE recursivo sobre parent_id para abarcar todo el subárbol.
+ * @param column - Columna con el id de la carpeta (f.folder_id para archivos, id/parent_id para carpetas)
+ */
+export const buildFolderScopeClause = (
+  column: string,
+  folderIds: UUID[],
+  includeSubfolders: boolean,
+): SqlClause => {
+  if (!includeSubfolders) {
+    return {
+      sql: `${column} IN (${placeholders(folderIds)})`,
+      params: [...folderIds],
+    };
+  }
+
+  return {
+    sql: `${column} IN (
+      WITH RECURSIVE scope(id) AS (
+        SELECT id FROM folders WHERE id IN (${placeholders(folderIds)})
+        UNION
+        SELECT child.id FROM folders child JOIN scope ON child.parent_id = scope.id
+      )
+      SELECT id FROM scope
+    )`,
+    params: [...folderIds],
+  };
+};
+
+/**
+ * Construye el WHERE de la búsqueda de archivos a partir de SearchFilters.
+ * La tabla files debe tener el alias `f`. El texto no se filtra aquí sino en
+ * el JOIN con files_fts de buildFileSearchFrom.
+ *
+ * `hasDescription` no se aplica: la tabla files no tiene columna de descripción.
+ */
+export const buildFileSearchWhere = (filters: SearchFilters): SqlClause => {
+  const conditions: string[] = [];
+  const params: any[] = [];
+
+  const statuses =
+    filters.statuses && filters.statuses.length > 0
+      ? filters.statuses
+      : ["active"];
+  conditions.push(`f.status IN (${placeholders(statuses)})`);
+  params.push(...statuses);
+
+  if (filters.extensions && filters.extensions.length > 0) {
+    conditions.push(`f.extension IN (${placeholders(filters.extensions)})`);
+    params.push(...filters.extensions);
+  }
+
+  if (filters.categories && filters.categories.length > 0) {
+    conditions.push(`f.category IN (${placeholders(filters.categories)})`);
+    params.push(...filters.categories);
+  }
+
+  if (filters.sizeRange?.min !== undefined) {
+    conditions.push("f.metadata_size >= ?");
+    params.push(filters.sizeRange.min);
+  }
+  if (filters.sizeRange?.max !== undefined) {
+    conditions.push("f.metadata_size <= ?");
+    params.push(filters.sizeRange.max);
+  }
+
+  if (filters.dateRange?.start) {
+    conditions.push("f.created_at >= ?");
+    params.push(filters.dateRange.start.getTime());
+  }
+  if (filters.dateRange?.end) {
+    conditions.push("f.created_at <= ?");
+    params.push(filters.dateRange.end.getTime());
+  }
+
+  if (filters.tagIds && filters.tagIds.length > 0) {
+    if (filters.tagMode === "all") {
+      conditions.push(
+        `f.id IN (
+          SELECT file_id FROM file_tags
+          WHERE tag_id IN (${placeholders(filters.tagIds)})
+          GROUP BY file_id
+          HAVING COUNT(DISTINCT tag_id) = ?
+        )`,
+      );
+      params.push(...filters.tagIds, new Set(filters.tagIds).size);
+    } else {
+      conditions.push(
+        `f.id IN (SELECT file_id FROM file_tags WHERE tag_id IN (${placeholders(filters.tagIds)}))`,
+      );
+      params.push(...filters.tagIds);
+    }
+  }
+
+  if (filters.excludedTagIds && filters.excludedTagIds.length > 0) {
+    conditions.push(
+      `f.id NOT IN (SELECT file_id FROM file_tags WHERE tag_id IN (${placeholders(filters.excludedTagIds)}))`,
+    );
+    params.push(...filters.excludedTagIds);
+  }
+
+  if (filters.folderIds && filters.folderIds.length > 0) {
+    const scope = buildFolderScopeClause(
+      "f.folder_id",
+      filters.folderIds,
+      filters.includeSubfolders ?? false,
+    );
+    conditions.push(scope.sql);
+    params.push(...scope.params);
+  }
+
+  if (filters.hasColor !== undefined) {
+    conditions.push(
+      filters.hasColor ? "f.color_hex IS NOT NULL" : "f.color_hex IS NULL",
+    );
+  }
+
+  if (filters.hasTags !== undefined) {
+    conditions.push(
+      `${filters.hasTags ? "" : "NOT "}EXISTS (SELECT 1 FROM file_tags hft WHERE hft.file_id = f.id)`,
+    );
+  }
+
+  return { sql: conditions.join(" AND "), params };
+};
+
+/**
+ * Construye el WHERE de la búsqueda de carpetas.
+ * Solo usa los criterios que tienen sentido para una carpeta: estado, ámbito,
+ * color y descripción; el texto se filtra en el JOIN de buildFolderSearchFrom.
+ * Las carpetas del sistema nunca se devuelven.
+ */
+export const buildFolderSearchWhere = (filters: SearchFilters): SqlClause => {
+  const conditions: string[] = ["is_system_folder = 0"];
+  const params: any[] = [];
+
+  const statuses =
+    filters.statuses && filters.statuses.length > 0
+      ? filters.statuses
+      : ["active"];
+  conditions.push(`status IN (${placeholders(statuses)})`);
+  params.push(...statuses);
+
+  if (filters.folderIds && filters.folderIds.length > 0) {
+    const scope = buildFolderScopeClause(
+      "parent_id",
+      filters.folderIds,
+      filters.includeSubfolders ?? false,
+    );
+    conditions.push(scope.sql);
+    params.push(...scope.params);
+  }
+
+  if (filters.hasColor !== undefined) {
+    conditions.push(
+      filters.hasColor ? "color_hex IS NOT NULL" : "color_hex IS NULL",
+    );
+  }
+
+  if (filters.hasDescription !== undefined) {
+    conditions.push(
+      filters.hasDescription
+        ? "(description IS NOT NULL AND TRIM(description) != '')"
+        : "(description IS NULL OR TRIM(description) = '')",
+    );
+  }
+
+  return { sql: conditions.join(" AND "), params };
+};
+
+/**
+ * Resuelve el orden efectivo: la relevancia solo existe cuando hay texto de búsqueda,
+ * sin él se ordena por nombre. La relevancia siempre va de más a menos relevante.
+ */
+const resolveSort = (
+  sort: SortOptions,
+  filters: SearchFilters,
+): { field: SortOptions["field"]; direction: "ASC" | "DESC" } => {
+  if (sort.field === "relevance") {
+    return buildFtsMatchQuery(filters.query ?? "")
+      ? { field: "relevance", direction: "ASC" }
+      : { field: "name", direction: "ASC" };
+  }
+
+  return {
+    field: sort.field,
+    direction: sort.order === "desc" ? "DESC" : "ASC",
+  };
+};
+
+/** ORDER BY para archivos (alias `f`), con el id como desempate estable para paginar */
+export const buildFileSearchOrderBy = (
+  sort: SortOptions,
+  filters: SearchFilters,
+): string => {
+  const { field, direction } = resolveSort(sort, filters);
+  const tieBreaker = field === "relevance" ? "f.name COLLATE NOCASE ASC, " : "";
+  return `${FILE_SORT_COLUMNS[field]} ${direction}, ${tieBreaker}f.id ASC`;
+};
+
+/** ORDER BY para carpetas. Las carpetas no tienen tamaño: se ordenan por nombre */
+export const buildFolderSearchOrderBy = (
+  sort: SortOptions,
+  filters: SearchFilters,
+): string => {
+  const { field, direction } = resolveSort(sort, filters);
+  const tieBreaker = field === "relevance" ? "name COLLATE NOCASE ASC, " : "";
+  return `${FOLDER_SORT_COLUMNS[field]} ${direction}, ${tieBreaker}id ASC`;
+};
@@ -141,6 +141,25 @@ export class Database {
     });
   }
 
+  /**
+   * Ejecuta una tarea asíncrona dentro de una transacción atómica.
+   * Todas las consultas que se lancen sobre esta conexión mientras dura la tarea
+   * forman parte de la transacción; si la tarea lanza, se revierten.
+   * @param task - Tarea a ejecutar
+   * @returns El valor devuelto por la tarea
+   * @throws Error si la tarea falla
+   */
+  async withTransaction<T>(task: () => Promise<T>): Promise<T> {
+    const db = this.getConnection();
+    let result: T | undefined;
+
+    await db.withTransactionAsync(async () => {
+      result = await task();
+    });
+
+    return result as T;
+  }
+
   /**
    * Cierra la conexión a la base de datos y limpia los recursos.
    * Debe llamarse al cerrar la aplicación para evitar memory leaks.
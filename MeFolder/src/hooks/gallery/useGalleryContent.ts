@@ -93,6 +93,7 @@ export const useGalleryContent = ({ tagId }: { tagId: string }) => {
   return {
     items,
     loadMore,
+    refresh,
     isLoading,
     isLoadingMore,
     hasMore: hasMore.current,
@@ -15,8 +15,13 @@ export * from "./useViewSettings";
 export * from "./usePinchColumns";
 export * from "./usePagination";
 export * from "./useSearch";
+export * from "./useSearchSuggestions";
+export * from "./useSearchQueryTokens";
+export * from "./useRecentSearches";
 export * from "./gallery";
 export * from "./tags";
 export * from "./library";
 export * from "./trash";
+export * from "./jobs";
+export * from "./notes";
 export * from "./useTutorial";
@@ -0,0 +1,6 @@
+export {
+  useJobs,
+  getJobProgressRatio,
+  isJobActive,
+  JOB_STATUS_LABELS,
+} from "./useJobs";
@@ -0,0 +1,105 @@
+import { useCallback, useMemo } from "react";
+import { useAlert, useServices } from "@/providers";
+import { useJobsStore } from "@/stores/useJobsStore";
+import type { Job, JobProgress, JobStatus } from "@/types/entities/job";
+import type { UUID } from "@/types/common/base";
+
+export const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "En cola",
+  running: "En curso",
+  completed: "Completada",
+  failed: "Error",
+  cancelled: "Cancelada",
+  interrupted: "Interrumpida",
+};
+
+/** Fracción completada, por bytes si se conocen y si no por elementos */
+export const getJobProgressRatio = (progress: JobProgress): number => {
+  const ratio =
+    progress.totalBytes && progress.totalBytes > 0
+      ? (progress.completedBytes ?? 0) / progress.totalBytes
+      : progress.total > 0
+        ? progress.completed / progress.total
+        : 0;
+
+  return Math.min(Math.max(ratio, 0), 1);
+};
+
+export const isJobActive = (job: Job): boolean =>
+  job.status === "queued" || job.status === "running";
+
+/** Historial de la cola de tareas y acciones del panel de tareas */
+export const useJobs = () => {
+  const { services } = useServices();
+  const { showAlert } = useAlert();
+  const jobs = useJobsStore((state) => state.jobs);
+
+  const activeJobs = useMemo(() => jobs.filter(isJobActive), [jobs]);
+  const interruptedJobs = useMemo(
+    () => jobs.filter((job) => job.status === "interrupted"),
+    [jobs],
+  );
+
+  const cancelJob = useCallback(
+    async (jobId: UUID) => {
+      try {
+        await services.jobService.cancel(jobId);
+      } catch (error) {
+        console.warn("Error al cancelar la tarea:", error);
+        showAlert({
+          title: "No se pudo cancelar",
+          message: "La tarea no se ha podido cancelar. Inténtalo de nuevo.",
+        });
+      }
+    },
+    [services.jobService, showAlert],
+  );
+
+  /**
+   * Reintenta con los parámetros guardados. Las opciones que solo vivían en
+   * memoria (contraseña, preguntar en conflictos) no se recuperan.
+   */
+  const retryJob = useCallback(
+    async (jobId: UUID) => {
+      try {
+        const { completion } = await services.jobService.retry(jobId);
+        const outcome = await completion;
+
+        if (!outcome.success && outcome.error?.code !== "cancelled") {
+          showAlert({
+            title: "La tarea ha fallado",
+            message: outcome.error?.message ?? "No se pudo completar la tarea.",
+          });
+        }
+      } catch (error) {
+        console.warn("Error al reintentar la tarea:", error);
+        showAlert({
+          title: "No se pudo reintentar",
+          message: "La tarea no se ha podido volver a poner en cola.",
+        });
+      }
+    },
+    [services.jobService, showAlert],
+  );
+
+  const clearFinishedJobs = useCallback(async () => {
+    try {
+      await services.jobService.clearFinished();
+    } catch (error) {
+      console.warn("Error al limpiar el historial de tareas:", error);
+      showAlert({
+        title: "No se pudo limpiar",
+        message: "No se ha podido borrar el historial de tareas.",
+      });
+    }
+  }, [services.jobService, showAlert]);
+
+  return {
+    jobs,
+    activeJobs,
+    interruptedJobs,
+    cancelJob,
+    retryJob,
+    clearFinishedJobs,
+  };
+};
@@ -1,3 +1,4 @@
 export { useLibraryContent } from "./useLibraryContent";
 export { useLibraryActions } from "./useLibraryActions";
 export { useLibraryArchiveActions } from "./useLibraryArchiveActions";
+export { useArchiveBrowser } from "./useArchiveBrowser";
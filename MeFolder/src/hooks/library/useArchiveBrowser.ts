@@ -0,0 +1,217 @@
+import { useCallback, useState } from "react";
+import * as Sharing from "expo-sharing";
+import {
+  ArchiveFileEntryModel,
+  buildArchiveEntryId,
+  FileModel,
+} from "@/models";
+import { useAlert, useServices } from "@/providers";
+import { useNavigationStore } from "@/stores";
+import type { MediaHostItem } from "@/types/media/viewers";
+import { resolveMediaHostCategory } from "@/components/media/MediaHost/mediaHostModel";
+import { openExternal } from "@/utils/other/sharing";
+
+interface ArchivePasswordPromptState {
+  isVisible: boolean;
+  archiveName: string;
+  password: string;
+  error: string | null;
+}
+
+/**
+ * Navegación por el interior de un comprimido como si fuera una carpeta de
+ * solo lectura. Las entradas se extraen a la caché solo al abrirlas o
+ * compartirlas.
+ */
+export const useArchiveBrowser = () => {
+  const { services } = useServices();
+  const { showAlert } = useAlert();
+  const { navigateTo } = useNavigationStore();
+  const [pendingArchive, setPendingArchive] = useState<FileModel | null>(null);
+  const [password, setPassword] = useState("");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [isPreparingEntry, setIsPreparingEntry] = useState(false);
+
+  const closeArchivePasswordPrompt = useCallback(() => {
+    setPendingArchive(null);
+    setPassword("");
+    setPasswordError(null);
+  }, []);
+
+  /** Abre el comprimido y navega a su raíz; si está cifrado pide la contraseña. */
+  const openArchive = useCallback(
+    async (file: FileModel, archivePassword?: string) => {
+      try {
+        const result = await services.archiveService.browseArchive({
+          archiveFileId: file.id,
+          ...(archivePassword ? { password: archivePassword } : {}),
+        });
+
+        if (
+          result.error?.code === "password_required" ||
+          result.error?.code === "wrong_password"
+        ) {
+          setPendingArchive(file);
+          setPassword("");
+          setPasswordError(
+            result.error.code === "wrong_password"
+              ? "Contraseña incorrecta"
+              : null,
+          );
+          return;
+        }
+
+        if (!result.success) {
+          showAlert({
+            title: "No se pudo abrir el archivo",
+            message:
+              result.error?.message ??
+              "No se pudo leer el contenido del archivo comprimido.",
+          });
+          return;
+        }
+
+        closeArchivePasswordPrompt();
+        navigateTo(buildArchiveEntryId(file.id), file.name);
+      } catch {
+        showAlert({
+          title: "No se pudo abrir el archivo",
+          message: "Ha ocurrido un error inesperado al leer el archivo.",
+        });
+      }
+    },
+    [
+      closeArchivePasswordPrompt,
+      navigateTo,
+      services.archiveService,
+      showAlert,
+    ],
+  );
+
+  const changeArchivePassword = useCallback((value: string) => {
+    setPassword(value);
+    setPasswordError(null);
+  }, []);
+
+  const submitArchivePassword = useCallback(async () => {
+    if (!pendingArchive) return;
+
+    if (!password) {
+      setPasswordError("Escribe una contraseña");
+      return;
+    }
+
+    await openArchive(pendingArchive, password);
+  }, [openArchive, password, pendingArchive]);
+
+  /** Extrae la entrada a la caché y devuelve su URI temporal. */
+  const extractEntryToCache = useCallback(
+    async (entry: ArchiveFileEntryModel): Promise<string | null> => {
+      setIsPreparingEntry(true);
+      try {
+        const result = await services.archiveService.extractEntryToCache({
+          archiveFileId: entry.archiveFileId,
+          path: entry.entryPath,
+        });
+
+        if (!result.success || !result.data) {
+          showAlert({
+            title: "No se pudo abrir el archivo",
+            message:
+              result.error?.message ??
+              "No se pudo extraer el archivo del comprimido.",
+          });
+          return null;
+        }
+
+        return result.data.uri;
+      } catch {
+        showAlert({
+          title: "No se pudo abrir el archivo",
+          message: "Ha ocurrido un error inesperado al extraer el archivo.",
+        });
+        return null;
+      } finally {
+        setIsPreparingEntry(false);
+      }
+    },
+    [services.archiveService, showAlert],
+  );
+
+  /**
+   * Abre una entrada del comprimido. Lo que tiene visor propio (imágenes,
+   * vídeos, audios, PDF, texto y código) devuelve el elemento para
+   * `MediaHost`; el resto se abre con una app externa.
+   */
+  const openArchiveEntry = useCallback(
+    async (entry: ArchiveFileEntryModel): Promise<MediaHostItem | null> => {
+      const uri = await extractEntryToCache(entry);
+      if (!uri) return null;
+
+      const category = resolveMediaHostCategory(entry);
+      if (!category) {
+        void openExternal(uri, entry.metadata.mimeType);
+        return null;
+      }
+
+      return {
+        uri,
+        ...(entry.metadata.mimeType != null && {
+          mimeType: entry.metadata.mimeType,
+        }),
+        displayName: entry.name,
+        category,
+        extension: entry.extension,
+      };
+    },
+    [extractEntryToCache],
+  );
+
+  const shareArchiveEntry = useCallback(
+    async (entry: ArchiveFileEntryModel) => {
+      if (!(await Sharing.isAvailableAsync())) {
+        showAlert({
+          title: "Compartir no disponible",
+          message:
+            "La función de compartir no está disponible en este dispositivo.",
+        });
+        return;
+      }
+
+      const uri = await extractEntryToCache(entry);
+      if (!uri) return;
+
+      try {
+        await Sharing.shareAsync(uri, {
+          ...(entry.metadata.mimeType
+            ? { mimeType: entry.metadata.mimeType }
+            : {}),
+        });
+      } catch {
+        showAlert({
+          title: "Error",
+          message: "No se pudo compartir el archivo.",
+        });
+      }
+    },
+    [extractEntryToCache, showAlert],
+  );
+
+  const archivePasswordPrompt: ArchivePasswordPromptState = {
+    isVisible: pendingArchive !== null,
+    archiveName: pendingArchive?.name ?? "",
+    password,
+    error: passwordError,
+  };
+
+  return {
+    archivePasswordPrompt,
+    changeArchivePassword,
+    closeArchivePasswordPrompt,
+    isPreparingEntry,
+    openArchive,
+    openArchiveEntry,
+    shareArchiveEntry,
+    submitArchivePassword,
+  };
+};
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { FileModel, FolderModel } from "@/models";
+import { FileModel, FolderModel, SmartFolderModel } from "@/models";
 import { useLibraryStore } from "@/stores/useLibraryStore";
 import { useClipboardStore, useNavigationStore } from "@/stores";
 import { useAlert, useServices } from "@/providers";
@@ -7,6 +7,7 @@ import { useFileSystem } from "@/hooks/useFileSystem";
 import * as Sharing from "expo-sharing";
 import type { NewFile } from "@/components/ItemCreator/FileCreator";
 import type { NewFolder } from "@/components/ItemCreator/FolderCreator";
+import type { NewSmartFolder } from "@/components/ItemCreator/SmartFolderCreator";
 import { FileService, FolderService } from "@/services";
 import { getFriendlyErrorMessage, getFriendlyImportError } from "@/utils";
 
@@ -27,11 +28,10 @@ export const useLibraryActions = ({
   clearSelection,
   setIsRenaming,
 }: UseLibraryActionsParams) => {
-  const [isPasting, setIsPasting] = useState(false);
   const items = useLibraryStore((state) => state.items);
   const { setItems, addItem, updateItem } = useLibraryStore();
-  const { currentFolderId } = useNavigationStore();
-  const { copy, cut, paste, hasItems, clearIfContainsIds } =
+  const { currentFolderId, renameSegment } = useNavigationStore();
+  const { copy, cut, clear, hasItems, clearIfContainsIds } =
     useClipboardStore();
   const { services } = useServices();
   const { showAlert } = useAlert();
@@ -100,8 +100,14 @@ export const useLibraryActions = ({
           text: "Eliminar",
           style: "destructive",
           onPress: async () => {
+            const smartFolderIdsToDelete = targetItems
+              .filter((i) => i instanceof SmartFolderModel)
+              .map((f) => f.id);
             const folderIdsToDelete = targetItems
-              .filter((i) => i instanceof FolderModel)
+              .filter(
+                (i) =>
+                  i instanceof FolderModel && !(i instanceof SmartFolderModel),
+              )
               .map((f) => f.id);
             const fileIdsToDelete = targetItems
               .filter((i) => i instanceof FileModel)
@@ -116,10 +122,16 @@ export const useLibraryActions = ({
               const successFiles = await Promise.all(
                 fileIdsToDelete.map((fileId) => fileService.deleteFile(fileId)),
               );
+              const successSmartFolders = await Promise.all(
+                smartFolderIdsToDelete.map((smartFolderId) =>
+                  services.smartFolderService.deleteSmartFolder(smartFolderId),
+                ),
+              );
 
               if (
                 successFolders.every((s) => s) &&
-                successFiles.every((s) => s)
+                successFiles.every((s) => s) &&
+                successSmartFolders.every((s) => s)
               ) {
                 clearIfContainsIds([...folderIdsToDelete, ...fileIdsToDelete]);
                 const newItems = items.filter(
@@ -239,6 +251,67 @@ export const useLibraryActions = ({
     }
   };
 
+  const handleSaveSmartFolder = async (data: NewSmartFolder): Promise<void> => {
+    const { name, description, color, icon, parentId, filters, sort } = data;
+    const resolvedParentId = parentId || currentFolderId;
+
+    try {
+      const smartFolder = await services.smartFolderService.createSmartFolder({
+        name,
+        filters,
+        sort,
+        ...(description && { description }),
+        ...(color && { color }),
+        ...(icon && { icon }),
+        ...(resolvedParentId && { parentId: resolvedParentId }),
+      });
+
+      addItem(smartFolder);
+    } catch (error) {
+      showAlert({
+        title: "Error",
+        message: getFriendlyErrorMessage(
+          error,
+          "No se pudo crear la carpeta inteligente",
+        ),
+      });
+    }
+  };
+
+  const handleUpdateSmartFolder = async (
+    smartFolderId: string,
+    data: NewSmartFolder,
+  ): Promise<boolean> => {
+    const { name, description, color, icon, filters, sort } = data;
+
+    try {
+      const smartFolder = await services.smartFolderService.updateSmartFolder(
+        smartFolderId,
+        {
+          name,
+          description: description ?? "",
+          filters,
+          sort,
+          ...(color && { color }),
+          ...(icon && { icon }),
+        },
+      );
+
+      updateItem(smartFolder);
+      renameSegment(smartFolder.id, smartFolder.name);
+      return true;
+    } catch (error) {
+      showAlert({
+        title: "Error",
+        message: getFriendlyErrorMessage(
+          error,
+          "No se pudo guardar la carpeta inteligente",
+        ),
+      });
+      return false;
+    }
+  };
+
   const handleRename = (newName: string) => {
     showAlert({
       title: "Renombrar archivo",
@@ -314,14 +387,67 @@ export const useLibraryActions = ({
       });
       return;
     }
-    setIsPasting(true);
+
+    const { clipboardItems, clipboardMode } = useClipboardStore.getState();
+    if (!clipboardMode) return;
+
+    const destinationFolderId = currentFolderId;
     try {
-      const { createdFolders, createdFiles } = await paste(currentFolderId);
+      const exists = await Promise.all(
+        clipboardItems.map((item) =>
+          item instanceof FolderModel
+            ? folderService.folderExists(item.id)
+            : fileService.fileExists(item.id),
+        ),
+      );
+      if (exists.some((itemExists) => !itemExists)) {
+        clear();
+        throw new Error(
+          "El portapapeles contiene elementos que ya no existen o fueron eliminados.",
+        );
+      }
+
+      const { completion } = await services.jobService.enqueue(
+        "paste",
+        clipboardMode === "copy"
+          ? `Copiando ${clipboardItems.length} elementos`
+          : `Moviendo ${clipboardItems.length} elementos`,
+        {
+          mode: clipboardMode,
+          destinationFolderId,
+          items: clipboardItems.map((item) => {
+            const sourceFolderId =
+              item instanceof FolderModel ? item.parentId : item.folderId;
+            return {
+              type: item instanceof FolderModel ? "folder" : "file",
+              id: item.id,
+              name: item.name,
+              ...(sourceFolderId ? { sourceFolderId } : {}),
+            };
+          }),
+        },
+      );
+      // Lo cortado solo se puede pegar una vez, aunque la tarea siga en cola.
+      if (clipboardMode === "cut") clear();
 
+      const outcome = await completion;
+      if (outcome.error?.code === "cancelled") return;
+      if (!outcome.success || !outcome.data) {
+        throw new Error(outcome.error?.message);
+      }
+
+      if (
+        useNavigationStore.getState().currentFolderId !== destinationFolderId
+      ) {
+        return;
+      }
+
+      const { createdFolders, createdFiles } = outcome.data;
+      const currentItems = useLibraryStore.getState().items;
       const newItems = [
-        ...items.filter((i) => i instanceof FolderModel),
+        ...currentItems.filter((i) => i instanceof FolderModel),
         ...createdFolders,
-        ...items.filter((i) => i instanceof FileModel),
+        ...currentItems.filter((i) => i instanceof FileModel),
         ...createdFiles,
       ];
       setItems(newItems);
@@ -333,8 +459,6 @@ export const useLibraryActions = ({
           "No se pudieron pegar los elementos.",
         ),
       });
-    } finally {
-      setIsPasting(false);
     }
   };
 
@@ -343,13 +467,14 @@ export const useLibraryActions = ({
     handleDeleteElements,
     handleSaveFile,
     handleSaveFolder,
+    handleSaveSmartFolder,
+    handleUpdateSmartFolder,
     handleRename,
     handleCopy,
     handleCut,
     handlePaste,
     handleMakeFavorite,
     hasItems,
-    isPasting,
     isImporting,
   };
 };
@@ -1,13 +1,34 @@
-import { useCallback, useState } from "react";
-import { FileModel, FolderModel } from "@/models";
+import { useCallback, useRef, useState } from "react";
+import { ROOT_FOLDER_ID } from "@/database/seeds/systemFolders";
+import {
+  type ArchiveFileEntryModel,
+  type ArchiveFolderEntryModel,
+  FileModel,
+  FolderModel,
+} from "@/models";
 import { useAlert, useServices } from "@/providers";
 import { useNavigationStore } from "@/stores";
 import { useLibraryStore } from "@/stores/useLibraryStore";
 import type {
-  ArchiveOperationError,
+  ArchiveConflictAction,
+  ArchiveConflictResolution,
+  ArchiveEncryptionMethod,
+  ArchiveEntryConflict,
+  ArchiveEntryDescriptor,
+  ArchiveOverwriteMode,
   ArchiveProgress,
   ArchiveSourceFile,
+  JobError,
+  SupportedArchiveFormat,
 } from "@/types";
+import { formatCompressionSummary } from "@/utils/format";
+
+/**
+ * Las tareas de la cola pueden terminar cuando el usuario ya está en otra
+ * carpeta: solo se añaden a la vista los elementos de la carpeta abierta.
+ */
+const isCurrentFolder = (folderId: string | null | undefined) =>
+  folderId === useNavigationStore.getState().currentFolderId;
 
 type PendingArchiveAction =
   | {
@@ -25,6 +46,40 @@ interface ArchiveDialogState {
   action: "compress" | "extract" | null;
   item: FileModel | FolderModel | null;
   extractHere: boolean;
+  /** Al comprimir: formato del archivo que se va a generar */
+  format: SupportedArchiveFormat;
+  /** Al comprimir: tamaño máximo de cada parte; null no divide */
+  volumeSize: number | null;
+  /** Al comprimir: el usuario ha marcado "Proteger con contraseña" */
+  protectWithPassword: boolean;
+  /** Al extraer: el ZIP está cifrado y hay que pedir la contraseña */
+  passwordRequired: boolean;
+  password: string;
+  encryption: ArchiveEncryptionMethod;
+  passwordError: string | null;
+  /** Al extraer: qué hacer con los elementos que ya existen en destino */
+  overwriteMode: ArchiveOverwriteMode;
+}
+
+interface ArchiveConflictPromptState {
+  isVisible: boolean;
+  conflict: ArchiveEntryConflict | null;
+  applyToAll: boolean;
+}
+
+interface ExtractItemOptions {
+  extractHere: boolean;
+  overwriteMode: ArchiveOverwriteMode;
+  password?: string | undefined;
+  partialEntries?: string[] | undefined;
+  /** Carpeta destino; por defecto la carpeta actual */
+  parentFolderId?: string | undefined;
+}
+
+interface ArchiveEntryPickerState {
+  isVisible: boolean;
+  archiveName: string;
+  entries: ArchiveEntryDescriptor[];
 }
 
 interface ArchiveLoadingState {
@@ -39,10 +94,30 @@ export const useLibraryArchiveActions = () => {
   const { services } = useServices();
   const { showAlert } = useAlert();
   const { currentFolderId } = useNavigationStore();
-  const { addItem } = useLibraryStore();
+  const { addItem, removeItem } = useLibraryStore();
   const [pendingAction, setPendingAction] =
     useState<PendingArchiveAction>(null);
   const [extractHere, setExtractHere] = useState(false);
+  const [format, setFormat] = useState<SupportedArchiveFormat>("zip");
+  const [volumeSize, setVolumeSize] = useState<number | null>(null);
+  const [protectWithPassword, setProtectWithPassword] = useState(false);
+  const [passwordRequired, setPasswordRequired] = useState(false);
+  const [password, setPassword] = useState("");
+  const [encryption, setEncryption] =
+    useState<ArchiveEncryptionMethod>("aes256");
+  const [passwordError, setPasswordError] = useState<string | null>(null);
+  const [pickerEntries, setPickerEntries] = useState<
+    ArchiveEntryDescriptor[] | null
+  >(null);
+  const [overwriteMode, setOverwriteMode] =
+    useState<ArchiveOverwriteMode>("ask");
+  const [pendingConflict, setPendingConflict] =
+    useState<ArchiveEntryConflict | null>(null);
+  const [applyToAllConflicts, setApplyToAllConflicts] = useState(false);
+  // Resuelve la promesa que el servicio espera mientras el usuario decide.
+  const conflictResolverRef = useRef<
+    ((resolution: ArchiveConflictResolution) => void) | null
+  >(null);
   const [archiveLoading, setArchiveLoading] = useState<ArchiveLoadingState>({
     isVisible: false,
     title: "",
@@ -52,7 +127,7 @@ export const useLibraryArchiveActions = () => {
   });
 
   const showArchiveError = useCallback(
-    (error: ArchiveOperationError | undefined, title: string) => {
+    (error: JobError | undefined, title: string) => {
       showAlert({
         title,
         message:
@@ -78,11 +153,6 @@ export const useLibraryArchiveActions = () => {
     [],
   );
 
-  const removeExtension = useCallback((name: string): string => {
-    const dotIndex = name.lastIndexOf(".");
-    return dotIndex > 0 ? name.slice(0, dotIndex) : name;
-  }, []);
-
   const hideLoading = useCallback(() => {
     setArchiveLoading({
       isVisible: false,
@@ -93,21 +163,6 @@ export const useLibraryArchiveActions = () => {
     });
   }, []);
 
-  const updateLoading = useCallback(
-    (title: string, progress: ArchiveProgress, fallbackMessage: string) => {
-      const detail = progress.currentEntryName ?? fallbackMessage;
-
-      setArchiveLoading({
-        isVisible: true,
-        title,
-        message: progress.totalEntries > 0 ? detail : fallbackMessage,
-        progress,
-        showProgress: true,
-      });
-    },
-    [],
-  );
-
   const addExtractedRootItems = useCallback(
     async (createdFolderIds: string[], createdFileIds: string[]) => {
       const [folders, files] = await Promise.all([
@@ -122,136 +177,196 @@ export const useLibraryArchiveActions = () => {
       ]);
 
       folders
-        .filter((folder) => folder.parentId === currentFolderId)
+        .filter((folder) => isCurrentFolder(folder.parentId))
         .forEach((folder) => addItem(folder));
 
       files
-        .filter((file) => file.folderId === currentFolderId)
+        .filter((file) => isCurrentFolder(file.folderId))
         .forEach((file) => addItem(file));
     },
-    [addItem, currentFolderId, services.fileService, services.folderService],
+    [addItem, services.fileService, services.folderService],
   );
 
   const handleCompressItem = useCallback(
-    async (item: FileModel | FolderModel | null) => {
+    async (
+      item: FileModel | FolderModel | null,
+      archiveFormat: SupportedArchiveFormat,
+      archiveVolumeSize: number | null,
+      encryptionOptions?: {
+        password: string;
+        encryption: ArchiveEncryptionMethod;
+      },
+    ) => {
       if (!item) return;
 
-      setArchiveLoading({
-        isVisible: true,
-        title: "Comprimiendo",
-        message: "Preparando los archivos para crear el ZIP...",
-        progress: null,
-        showProgress: false,
-      });
-
       try {
-        const result =
-          item instanceof FolderModel
-            ? await services.archiveService.createArchiveFromFolder({
-                sourceFolderId: item.id,
-                destinationFolderId: currentFolderId,
-              })
-            : await services.archiveService.createArchiveFromFiles({
-                files: [toArchiveSourceFile(item)],
-                outputName: removeExtension(item.name),
-                destinationFolderId: currentFolderId,
-              });
-
-        if (!result.success || !result.data) {
-          showArchiveError(result.error, "No se pudo comprimir");
+        const { completion } = await services.jobService.enqueue(
+          "compress",
+          `Comprimiendo ${item.name}`,
+          {
+            sourceType: item instanceof FolderModel ? "folder" : "file",
+            sourceId: item.id,
+            destinationFolderId: currentFolderId,
+            format: archiveFormat,
+            ...(archiveVolumeSize ? { volumeSize: archiveVolumeSize } : {}),
+            ...(encryptionOptions
+              ? { encryption: encryptionOptions.encryption }
+              : {}),
+          },
+          encryptionOptions ? { password: encryptionOptions.password } : {},
+        );
+        const outcome = await completion;
+
+        if (outcome.error?.code === "cancelled") return;
+        if (!outcome.success || !outcome.data) {
+          showArchiveError(outcome.error, "No se pudo comprimir");
           return;
         }
 
-        const createdArchive = await services.fileService.getFile(
-          result.data.archiveFile.id,
+        const { archiveFile, volumes } = outcome.data;
+        const createdFiles = await Promise.all(
+          (volumes ?? [archiveFile]).map((record) =>
+            services.fileService.getFile(record.id),
+          ),
         );
-        addItem(createdArchive);
+        createdFiles
+          .filter((file) => isCurrentFolder(file.folderId))
+          .forEach((file) => addItem(file));
+
+        const createdArchive = createdFiles[0] ?? null;
+        if (!createdArchive) return;
 
         showAlert({
           title: "Compresión completada",
-          message: `Se ha creado ${createdArchive.name} correctamente.`,
+          message: volumes
+            ? `Se ha dividido el comprimido en ${volumes.length} partes (${createdArchive.name}...).\n${formatCompressionSummary(outcome.data.originalSize, outcome.data.archiveSize)}`
+            : `Se ha creado ${createdArchive.name} correctamente.\n${formatCompressionSummary(outcome.data.originalSize, outcome.data.archiveSize)}`,
         });
       } catch {
         showAlert({
           title: "No se pudo comprimir",
           message: "Ha ocurrido un error inesperado al comprimir el elemento.",
         });
-      } finally {
-        hideLoading();
       }
     },
     [
       addItem,
       currentFolderId,
-      hideLoading,
-      removeExtension,
-      services.archiveService,
       services.fileService,
+      services.jobService,
       showAlert,
       showArchiveError,
-      toArchiveSourceFile,
     ],
   );
 
   const handleExtractItem = useCallback(
     async (
       item: FileModel | FolderModel | null,
-      shouldExtractHere: boolean,
+      options: ExtractItemOptions,
     ) => {
       if (!(item instanceof FileModel)) return;
 
-      const extractionMode = shouldExtractHere
+      const extractionMode = options.extractHere
         ? "extract_here"
         : "create_folder";
-
-      setArchiveLoading({
-        isVisible: true,
-        title: "Descomprimiendo",
-        message: "Preparando el contenido del ZIP...",
-        progress: null,
-        showProgress: true,
-      });
+      const parentFolderId = options.parentFolderId ?? currentFolderId;
 
       try {
-        const result = await services.archiveService.extractArchive({
-          archiveFile: toArchiveSourceFile(item),
-          parentFolderId: currentFolderId,
-          mode: extractionMode,
-          onProgress: (progress) => {
-            updateLoading(
-              "Descomprimiendo",
-              progress,
-              "Extrayendo archivos...",
-            );
+        const { completion } = await services.jobService.enqueue(
+          "extract",
+          `Descomprimiendo ${item.name}`,
+          {
+            archiveFileId: item.id,
+            parentFolderId,
+            mode: extractionMode,
+            overwriteMode: options.overwriteMode,
+            ...(options.partialEntries
+              ? { partialEntries: options.partialEntries }
+              : {}),
           },
-        });
+          {
+            ...(options.password ? { password: options.password } : {}),
+            onConflict: (conflict) =>
+              new Promise<ArchiveConflictResolution>((resolve) => {
+                conflictResolverRef.current = resolve;
+                setPendingConflict(conflict);
+              }),
+          },
+        );
+        const outcome = await completion;
+
+        if (
+          outcome.error?.code === "password_required" ||
+          outcome.error?.code === "wrong_password"
+        ) {
+          // Reabrimos el diálogo pidiendo la contraseña en lugar de fallar.
+          setExtractHere(options.extractHere);
+          setOverwriteMode(options.overwriteMode);
+          setPasswordRequired(true);
+          setPassword("");
+          setPasswordError(
+            outcome.error.code === "wrong_password"
+              ? "Contraseña incorrecta"
+              : null,
+          );
+          setPendingAction({ type: "extract", item });
+          return;
+        }
 
-        if (!result.success || !result.data) {
-          showArchiveError(result.error, "No se pudo descomprimir");
+        if (outcome.error?.code === "cancelled") return;
+        if (!outcome.success || !outcome.data) {
+          showArchiveError(outcome.error, "No se pudo descomprimir");
           return;
         }
 
+        const summary = outcome.data;
+        summary.replacedFiles.forEach((file) => removeItem(file.id));
+
+        const skippedCount = summary.skippedEntries.length;
+        const skippedMessage =
+          skippedCount > 0
+            ? ` Se han omitido ${skippedCount} elementos que ya existían.`
+            : "";
+        const restored = summary.restoredMetadata;
+        const restoredMessage =
+          restored &&
+          restored.restoredFolderCount + restored.restoredFileCount > 0
+            ? restored.createdTagNames.length > 0
+              ? ` Se han recuperado las etiquetas y ajustes de MeFolder (etiquetas nuevas: ${restored.createdTagNames.join(", ")}).`
+              : " Se han recuperado las etiquetas y ajustes de MeFolder."
+            : "";
+
         if (extractionMode === "create_folder") {
-          const createdFolder = await services.folderService.getFolder(
-            result.data.destinationFolder.id,
+          const destinationMerged = summary.mergedFolders.some(
+            (folder) => folder.id === summary.destinationFolder.id,
           );
-          addItem(createdFolder);
+          if (!destinationMerged) {
+            const createdFolder = await services.folderService.getFolder(
+              summary.destinationFolder.id,
+            );
+            if (isCurrentFolder(createdFolder.parentId)) {
+              addItem(createdFolder);
+            }
+          }
 
           showAlert({
             title: "Extracción completada",
-            message: `Se ha extraído el contenido en ${createdFolder.name}.`,
+            message: `Se ha extraído el contenido en ${summary.destinationFolder.name}.${skippedMessage}${restoredMessage}`,
           });
           return;
         }
 
         await addExtractedRootItems(
-          result.data.createdFolders.map((folder) => folder.id),
-          result.data.createdFiles.map((file) => file.id),
+          summary.createdFolders.map((folder) => folder.id),
+          summary.createdFiles.map((file) => file.id),
         );
 
         showAlert({
           title: "Extracción completada",
-          message: `Se ha extraído el contenido de ${item.name} en la carpeta actual.`,
+          message:
+            parentFolderId === currentFolderId
+              ? `Se ha extraído el contenido de ${item.name} en la carpeta actual.${skippedMessage}${restoredMessage}`
+              : `Se ha extraído el contenido junto a ${item.name}.${skippedMessage}${restoredMessage}`,
         });
       } catch {
         showAlert({
@@ -260,23 +375,47 @@ export const useLibraryArchiveActions = () => {
             "Ha ocurrido un error inesperado al descomprimir el archivo.",
         });
       } finally {
-        hideLoading();
+        conflictResolverRef.current = null;
+        setPendingConflict(null);
+        setApplyToAllConflicts(false);
       }
     },
     [
       addExtractedRootItems,
       addItem,
       currentFolderId,
-      hideLoading,
-      services.archiveService,
+      removeItem,
       services.folderService,
+      services.jobService,
       showAlert,
       showArchiveError,
-      toArchiveSourceFile,
-      updateLoading,
     ],
   );
 
+  /** Extrae una entrada del comprimido que se está explorando junto al propio comprimido. */
+  const extractArchiveEntry = useCallback(
+    async (entry: ArchiveFileEntryModel | ArchiveFolderEntryModel) => {
+      try {
+        const archiveFile = await services.fileService.getFile(
+          entry.archiveFileId,
+        );
+
+        await handleExtractItem(archiveFile, {
+          extractHere: true,
+          overwriteMode: "ask",
+          partialEntries: [entry.entryPath],
+          parentFolderId: archiveFile.folderId ?? ROOT_FOLDER_ID,
+        });
+      } catch {
+        showAlert({
+          title: "No se pudo descomprimir",
+          message: "No se ha encontrado el archivo comprimido.",
+        });
+      }
+    },
+    [handleExtractItem, services.fileService, showAlert],
+  );
+
   const requestCompressItem = useCallback(
     (item: FileModel | FolderModel | null) => {
       if (!item) return;
@@ -291,6 +430,7 @@ export const useLibraryArchiveActions = () => {
       if (!(item instanceof FileModel)) return;
 
       setExtractHere(false);
+      setOverwriteMode("ask");
       setPendingAction({ type: "extract", item });
     },
     [],
@@ -298,44 +438,252 @@ export const useLibraryArchiveActions = () => {
 
   const closeArchiveDialog = useCallback(() => {
     setPendingAction(null);
+    setPickerEntries(null);
     setExtractHere(false);
+    setFormat("zip");
+    setVolumeSize(null);
+    setProtectWithPassword(false);
+    setPasswordRequired(false);
+    setPassword("");
+    setEncryption("aes256");
+    setPasswordError(null);
+    setOverwriteMode("ask");
+  }, []);
+
+  /** Responde al conflicto que la extracción en curso está esperando. */
+  const resolveConflict = useCallback(
+    (action: ArchiveConflictAction) => {
+      conflictResolverRef.current?.({
+        action,
+        applyToAll: applyToAllConflicts,
+      });
+      conflictResolverRef.current = null;
+      setPendingConflict(null);
+      setApplyToAllConflicts(false);
+    },
+    [applyToAllConflicts],
+  );
+
+  const toggleApplyToAllConflicts = useCallback(() => {
+    setApplyToAllConflicts((current) => !current);
+  }, []);
+
+  const changePassword = useCallback((value: string) => {
+    setPassword(value);
+    setPasswordError(null);
+  }, []);
+
+  const toggleProtectWithPassword = useCallback(() => {
+    setProtectWithPassword((current) => !current);
+    setPasswordError(null);
+  }, []);
+
+  /** Solo el ZIP admite contraseña: al cambiar a TAR se desmarca la protección. */
+  const changeFormat = useCallback((value: SupportedArchiveFormat) => {
+    setFormat(value);
+    if (value !== "zip") {
+      setProtectWithPassword(false);
+      setPasswordError(null);
+    }
   }, []);
 
   const confirmArchiveAction = useCallback(async () => {
     if (!pendingAction) return;
 
+    const needsPassword =
+      pendingAction.type === "compress"
+        ? protectWithPassword
+        : passwordRequired;
+    if (needsPassword && !password) {
+      setPasswordError("Escribe una contraseña");
+      return;
+    }
+
     const action = pendingAction;
+    const archiveFormat = format;
+    const archiveVolumeSize = volumeSize;
     const shouldExtractHere = extractHere;
+    const archivePassword = needsPassword ? password : undefined;
+    const encryptionMethod = encryption;
+    const conflictMode = overwriteMode;
     closeArchiveDialog();
 
     if (action.type === "compress") {
-      await handleCompressItem(action.item);
+      await handleCompressItem(
+        action.item,
+        archiveFormat,
+        archiveVolumeSize,
+        archivePassword
+          ? { password: archivePassword, encryption: encryptionMethod }
+          : undefined,
+      );
       return;
     }
 
-    await handleExtractItem(action.item, shouldExtractHere);
+    await handleExtractItem(action.item, {
+      extractHere: shouldExtractHere,
+      overwriteMode: conflictMode,
+      password: archivePassword,
+    });
   }, [
     closeArchiveDialog,
+    encryption,
     extractHere,
+    format,
     handleCompressItem,
     handleExtractItem,
+    overwriteMode,
+    password,
+    passwordRequired,
+    pendingAction,
+    protectWithPassword,
+    volumeSize,
+  ]);
+
+  /** Inspecciona el ZIP pendiente y abre el selector de entradas. */
+  const openEntryPicker = useCallback(async () => {
+    if (pendingAction?.type !== "extract") return;
+
+    if (passwordRequired && !password) {
+      setPasswordError("Escribe una contraseña");
+      return;
+    }
+
+    setArchiveLoading({
+      isVisible: true,
+      title: "Leyendo el ZIP",
+      message: "Cargando el contenido del archivo...",
+      progress: null,
+      showProgress: false,
+    });
+
+    try {
+      const result = await services.archiveService.inspectArchive({
+        archiveFile: toArchiveSourceFile(pendingAction.item),
+        parentFolderId: currentFolderId,
+        mode: extractHere ? "extract_here" : "create_folder",
+        ...(passwordRequired ? { futureOptions: { password } } : {}),
+      });
+
+      if (
+        result.error?.code === "password_required" ||
+        result.error?.code === "wrong_password"
+      ) {
+        setPasswordRequired(true);
+        setPassword("");
+        setPasswordError(
+          result.error.code === "wrong_password"
+            ? "Contraseña incorrecta"
+            : null,
+        );
+        return;
+      }
+
+      if (!result.success || !result.data) {
+        showArchiveError(result.error, "No se pudo leer el ZIP");
+        return;
+      }
+
+      setPickerEntries(result.data.entries);
+    } catch {
+      showAlert({
+        title: "No se pudo leer el ZIP",
+        message: "Ha ocurrido un error inesperado al leer el archivo.",
+      });
+    } finally {
+      hideLoading();
+    }
+  }, [
+    currentFolderId,
+    extractHere,
+    hideLoading,
+    password,
+    passwordRequired,
     pendingAction,
+    services.archiveService,
+    showAlert,
+    showArchiveError,
+    toArchiveSourceFile,
   ]);
 
+  const closeEntryPicker = useCallback(() => {
+    setPickerEntries(null);
+  }, []);
+
+  const confirmEntrySelection = useCallback(
+    async (selectedPaths: string[]) => {
+      if (pendingAction?.type !== "extract") return;
+
+      const item = pendingAction.item;
+      const options: ExtractItemOptions = {
+        extractHere,
+        overwriteMode,
+        password: passwordRequired ? password : undefined,
+        partialEntries: selectedPaths,
+      };
+      closeArchiveDialog();
+
+      await handleExtractItem(item, options);
+    },
+    [
+      closeArchiveDialog,
+      extractHere,
+      handleExtractItem,
+      overwriteMode,
+      password,
+      passwordRequired,
+      pendingAction,
+    ],
+  );
+
   const archiveDialog: ArchiveDialogState = {
-    isVisible: pendingAction !== null,
+    isVisible: pendingAction !== null && pickerEntries === null,
     action: pendingAction?.type ?? null,
     item: pendingAction?.item ?? null,
     extractHere,
+    format,
+    volumeSize,
+    protectWithPassword,
+    passwordRequired,
+    password,
+    encryption,
+    passwordError,
+    overwriteMode,
+  };
+
+  const conflictPrompt: ArchiveConflictPromptState = {
+    isVisible: pendingConflict !== null,
+    conflict: pendingConflict,
+    applyToAll: applyToAllConflicts,
+  };
+
+  const entryPicker: ArchiveEntryPickerState = {
+    isVisible: pickerEntries !== null,
+    archiveName: pendingAction?.item.name ?? "",
+    entries: pickerEntries ?? [],
   };
 
   return {
     archiveDialog,
     archiveLoading,
+    changeFormat,
+    changePassword,
     closeArchiveDialog,
+    closeEntryPicker,
     confirmArchiveAction,
+    confirmEntrySelection,
+    conflictPrompt,
+    entryPicker,
+    extractArchiveEntry,
+    openEntryPicker,
+    resolveConflict,
     requestCompressItem,
     requestExtractItem,
+    setEncryption,
     setExtractHere,
+    setOverwriteMode,
+    setVolumeSize,
+    toggleApplyToAllConflicts,
+    toggleProtectWithPassword,
   };
 };
@@ -5,11 +5,19 @@ import { useAlert, useServices } from "@/providers";
 import { useFocusEffect } from "expo-router";
 import { sortItems } from "@/utils";
 import { useViewSettings } from "@/hooks/useViewSettings";
+import {
+  ArchiveEntryFactory,
+  isArchiveEntryId,
+  isSmartFolderId,
+  parseArchiveEntryId,
+} from "@/models";
 
 export const useLibraryContent = () => {
   const { services } = useServices();
   const folderService = services?.folderService;
   const fileService = services?.fileService;
+  const smartFolderService = services?.smartFolderService;
+  const archiveService = services?.archiveService;
 
   const items = useLibraryStore((state) => state.items);
   const { setItems } = useLibraryStore();
@@ -17,6 +25,8 @@ export const useLibraryContent = () => {
   const { showAlert } = useAlert();
 
   const [loading, setLoading] = useState(true);
+  const isSmartFolder = isSmartFolderId(currentFolderId);
+  const isArchiveFolder = isArchiveEntryId(currentFolderId);
 
   const {
     selectedView,
@@ -28,7 +38,14 @@ export const useLibraryContent = () => {
     handleSortItems,
     handleViewModeChange,
     handleViewOptionsChange,
-  } = useViewSettings({ source: "folder", sourceId: currentFolderId });
+  } = useViewSettings({
+    source: isArchiveFolder
+      ? "archive"
+      : isSmartFolder
+        ? "smartFolder"
+        : "folder",
+    sourceId: currentFolderId,
+  });
 
   const sortedItems = useMemo(
     () => sortItems(items, orderBy, sortValue),
@@ -43,16 +60,58 @@ export const useLibraryContent = () => {
         try {
           await loadViewConfig();
 
-          const [folders, files] = await Promise.all([
+          // El interior de un comprimido se lista sin extraerlo
+          const archiveLocation = parseArchiveEntryId(currentFolderId);
+          if (archiveLocation) {
+            const [archiveFile, result] = await Promise.all([
+              fileService.getFile(archiveLocation.archiveFileId),
+              archiveService.browseArchive({
+                archiveFileId: archiveLocation.archiveFileId,
+                path: archiveLocation.entryPath,
+              }),
+            ]);
+            if (!result.success || !result.data) {
+              showAlert({
+                title: "Error",
+                message:
+                  result.error?.message ??
+                  "No se pudo leer el contenido del archivo comprimido",
+              });
+              return;
+            }
+
+            setItems(
+              result.data.map((entry) =>
+                ArchiveEntryFactory.fromDescriptor(archiveFile, entry),
+              ),
+            );
+            return;
+          }
+
+          // Al salir del comprimido se libera de memoria
+          archiveService.closeArchiveBrowser();
+
+          // El contenido de una carpeta inteligente es el resultado de su búsqueda
+          if (isSmartFolder) {
+            setItems(
+              await smartFolderService.getSmartFolderContents(currentFolderId),
+            );
+            return;
+          }
+
+          const [folders, smartFolders, files] = await Promise.all([
             currentFolderId
               ? folderService.getSubfolders(currentFolderId)
               : folderService.getSubfolders(),
+            currentFolderId
+              ? smartFolderService.getSmartFoldersInFolder(currentFolderId)
+              : smartFolderService.getSmartFoldersInFolder(),
             currentFolderId
               ? fileService.getFilesInFolder(currentFolderId)
               : fileService.getFilesInFolder(),
           ]);
 
-          setItems([...folders, ...files]);
+          setItems([...folders, ...smartFolders, ...files]);
         } catch {
           showAlert({
             title: "Error",
@@ -76,8 +135,11 @@ export const useLibraryContent = () => {
     sortValue,
     viewOptions,
     gridConfig,
+    isSmartFolder,
+    isArchiveFolder,
     folderService,
     fileService,
+    smartFolderService,
     handleSortItems,
     handleViewModeChange,
     handleViewOptionsChange,
@@ -2,9 +2,11 @@ import { useCallback, useMemo, useState } from "react";
 import { Platform } from "react-native";
 import * as MediaLibrary from "expo-media-library";
 import { useServices } from "@/providers";
+import { useNavigationStore } from "@/stores";
 import { useLibraryStore } from "@/stores/useLibraryStore";
 import { useTagsStore } from "@/stores/useTagsStore";
 import type {
+  MediaImportDuplicatePolicy,
   MediaImportFailure,
   MediaImportFile,
   MediaImportProgress,
@@ -18,6 +20,8 @@ import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
 interface UseMediaLibraryImportParams {
   folderId?: string;
   albumId?: string;
+  /** Qué hacer con los archivos que ya están en la biblioteca */
+  duplicatePolicy?: MediaImportDuplicatePolicy;
 }
 
 const ALBUM_PAGE_SIZE = 100;
@@ -25,13 +29,15 @@ const ALBUM_PAGE_SIZE = 100;
 export function useMediaLibraryImport({
   folderId,
   albumId,
+  duplicatePolicy = "skip",
 }: UseMediaLibraryImportParams) {
   const { services } = useServices();
   const addLibraryItem = useLibraryStore((state) => state.addItem);
+  const updateLibraryItem = useLibraryStore((state) => state.updateItem);
   const addAlbum = useTagsStore((state) => state.addAlbum);
 
   const [isImporting, setIsImporting] = useState(false);
-  const [progressTitle, setProgressTitle] = useState("Importando archivos");
+  const [progressTitle, setProgressTitle] = useState("Preparando archivos");
   const [progress, setProgress] = useState<MediaImportProgress>({
     completed: 0,
     total: 0,
@@ -39,22 +45,78 @@ export function useMediaLibraryImport({
 
   const resetProgress = useCallback(() => {
     setIsImporting(false);
-    setProgressTitle("Importando archivos");
+    setProgressTitle("Preparando archivos");
     setProgress({ completed: 0, total: 0 });
   }, []);
 
   const persistImportedFiles = useCallback(
     (filesResult: ImportMediaFilesResult) => {
       filesResult.importedFiles.forEach((fileItem) => addLibraryItem(fileItem));
+      filesResult.linkedFiles.forEach((fileItem) =>
+        updateLibraryItem(fileItem),
+      );
       return filesResult;
     },
-    [addLibraryItem],
+    [addLibraryItem, updateLibraryItem],
+  );
+
+  /**
+   * Pone en cola la importación de archivos ya preparados. Devuelve null si
+   * el usuario cancela la tarea desde el panel de tareas.
+   */
+  const runImportJob = useCallback(
+    async (
+      title: string,
+      files: MediaImportFile[],
+      onQueued?: () => void,
+    ): Promise<ImportMediaFilesResult | null> => {
+      const startFolderId = useNavigationStore.getState().currentFolderId;
+      const { completion } = await services.jobService.enqueue(
+        "media_import",
+        title,
+        {
+          files,
+          ...(folderId ? { folderId } : {}),
+          ...(albumId ? { tagIds: [albumId] } : {}),
+          duplicatePolicy,
+        },
+      );
+      resetProgress();
+      onQueued?.();
+
+      const outcome = await completion;
+      if (outcome.error?.code === "cancelled") return null;
+      if (!outcome.success || !outcome.data) {
+        throw new Error(
+          outcome.error?.message ?? "No se pudieron importar los archivos",
+        );
+      }
+
+      // Si el usuario ha cambiado de carpeta mientras tanto, la vista se
+      // recargará al volver.
+      if (useNavigationStore.getState().currentFolderId === startFolderId) {
+        persistImportedFiles(outcome.data);
+      }
+      return outcome.data;
+    },
+    [
+      albumId,
+      duplicatePolicy,
+      folderId,
+      persistImportedFiles,
+      resetProgress,
+      services.jobService,
+    ],
   );
 
   const importSelectedAssets = useCallback(
-    async (assets: MediaLibrary.Asset[]): Promise<ImportMediaFilesResult> => {
+    async (
+      assets: MediaLibrary.Asset[],
+      onQueued?: () => void,
+    ): Promise<ImportMediaFilesResult | null> => {
       setIsImporting(true);
-      setProgressTitle("Importando archivos");
+      setProgressTitle("Preparando archivos");
+      setProgress({ completed: 0, total: assets.length });
 
       try {
         const settled = await mapWithConcurrencySettled(
@@ -64,32 +126,26 @@ export function useMediaLibraryImport({
         );
         const { files, preFailures } = partitionSettled(assets, settled);
 
-        const result = await services.mediaImportService.importFiles({
+        const result = await runImportJob(
+          `Importando ${files.length} archivos de la galería`,
           files,
-          ...(folderId ? { folderId } : {}),
-          ...(albumId ? { tagIds: [albumId] } : {}),
-          onProgress: setProgress,
-        });
+          onQueued,
+        );
+        if (!result) return null;
 
-        return persistImportedFiles({
-          ...result,
-          failed: [...preFailures, ...result.failed],
-        });
+        return { ...result, failed: [...preFailures, ...result.failed] };
       } finally {
         resetProgress();
       }
     },
-    [
-      folderId,
-      albumId,
-      persistImportedFiles,
-      resetProgress,
-      services.mediaImportService,
-    ],
+    [resetProgress, runImportJob],
   );
 
   const importAlbum = useCallback(
-    async (album: MediaLibrary.Album): Promise<ImportMediaAlbumResult> => {
+    async (
+      album: MediaLibrary.Album,
+      onQueued?: () => void,
+    ): Promise<ImportMediaAlbumResult | null> => {
       setIsImporting(true);
       setProgressTitle(`Preparando álbum: ${album.title}`);
 
@@ -99,20 +155,12 @@ export function useMediaLibraryImport({
           setProgress,
         );
 
-        setProgressTitle(`Importando álbum: ${album.title}`);
-
-        const importResult = albumId
-          ? await services.mediaImportService.importFiles({
-              files,
-              ...(folderId ? { folderId } : {}),
-              tagIds: [albumId],
-              onProgress: setProgress,
-            })
-          : await services.mediaImportService.importFiles({
-              files,
-              ...(folderId ? { folderId } : {}),
-              onProgress: setProgress,
-            });
+        const importResult = await runImportJob(
+          `Importando el álbum ${album.title}`,
+          files,
+          onQueued,
+        );
+        if (!importResult) return null;
 
         const result: ImportMediaAlbumResult = {
           album: null,
@@ -120,7 +168,6 @@ export function useMediaLibraryImport({
           failed: [...albumPreFailures, ...importResult.failed],
         };
 
-        persistImportedFiles(result);
         if (result.album) {
           addAlbum(result.album);
         }
@@ -130,14 +177,7 @@ export function useMediaLibraryImport({
         resetProgress();
       }
     },
-    [
-      addAlbum,
-      albumId,
-      folderId,
-      persistImportedFiles,
-      resetProgress,
-      services.mediaImportService,
-    ],
+    [addAlbum, resetProgress, runImportJob],
   );
 
   return useMemo(
@@ -0,0 +1,2 @@
+export { useNoteEditor } from "./useNoteEditor";
+export type { NoteDraft } from "./useNoteEditor";
@@ -0,0 +1,244 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { FileModel } from "@/models";
+import { useServices } from "@/providers";
+import { FileSystemService } from "@/services";
+import { useNavigationStore } from "@/stores";
+import { useLibraryStore } from "@/stores/useLibraryStore";
+import type { NoteExtension } from "@/types/entities/file";
+
+const NOTE_DRAFT_STORAGE_PREFIX = "mefolder:note-draft:";
+/** Pausa de escritura tras la que se guarda el borrador */
+const DRAFT_AUTOSAVE_DELAY_MS = 800;
+
+export interface NoteDraft {
+  name: string;
+  extension: NoteExtension;
+  content: string;
+  savedAt: number;
+}
+
+interface UseNoteEditorOptions {
+  /** Nota existente que se edita; sin él se crea una nueva */
+  fileId?: string;
+  /** Carpeta donde se crea la nota nueva */
+  folderId?: string;
+}
+
+/** Un borrador por nota; las nuevas, por carpeta hasta que se guardan */
+const buildDraftKey = (fileId: string | undefined, folderId?: string) =>
+  `${NOTE_DRAFT_STORAGE_PREFIX}${fileId ?? `new:${folderId ?? "root"}`}`;
+
+const isNoteExtension = (extension: string): extension is NoteExtension =>
+  extension === "txt" || extension === "md";
+
+const readDraft = async (key: string): Promise<NoteDraft | null> => {
+  try {
+    const rawValue = await AsyncStorage.getItem(key);
+    if (!rawValue) return null;
+
+    const parsed: unknown = JSON.parse(rawValue);
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      typeof (parsed as NoteDraft).content !== "string" ||
+      typeof (parsed as NoteDraft).name !== "string" ||
+      !isNoteExtension(String((parsed as NoteDraft).extension))
+    ) {
+      return null;
+    }
+    return parsed as NoteDraft;
+  } catch (error) {
+    console.warn("No se pudo leer el borrador de la nota", error);
+    return null;
+  }
+};
+
+const writeDraft = async (key: string, draft: NoteDraft): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(draft));
+  } catch (error) {
+    console.warn("No se pudo guardar el borrador de la nota", error);
+  }
+};
+
+const removeDraft = async (key: string): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(key);
+  } catch (error) {
+    console.warn("No se pudo borrar el borrador de la nota", error);
+  }
+};
+
+/**
+ * Estado del editor de notas de texto y Markdown: carga el contenido, guarda
+ * borradores en segundo plano mientras se escribe y persiste la nota en disco.
+ * Si al abrir hay un borrador sin guardar distinto del archivo, se expone en
+ * `pendingDraft` para que la pantalla ofrezca recuperarlo.
+ */
+export const useNoteEditor = ({ fileId, folderId }: UseNoteEditorOptions) => {
+  const { services } = useServices();
+  const { addItem, updateItem } = useLibraryStore();
+  const fsRef = useRef(new FileSystemService());
+
+  const [file, setFile] = useState<FileModel | null>(null);
+  const [name, setName] = useState("");
+  const [extension, setExtension] = useState<NoteExtension>("txt");
+  const [content, setContent] = useState("");
+  const [savedContent, setSavedContent] = useState("");
+  const [pendingDraft, setPendingDraft] = useState<NoteDraft | null>(null);
+  const [isLoading, setIsLoading] = useState(Boolean(fileId));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isNew = file === null;
+  const draftKey = buildDraftKey(file?.id ?? fileId, folderId);
+  const isDirty = isNew
+    ? content.length > 0 || name.trim().length > 0
+    : content !== savedContent;
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void (async () => {
+      let loadedContent = "";
+
+      if (fileId) {
+        try {
+          const loadedFile = await services.fileService.getFile(fileId);
+          if (!isNoteExtension(loadedFile.extension)) {
+            throw new Error("Solo se pueden editar notas .txt o .md");
+          }
+
+          const result = await fsRef.current.readAsText(
+            loadedFile.storageUrl ?? fsRef.current.resolveUri(loadedFile.path),
+          );
+          if (!result.success || result.data === undefined) {
+            throw new Error(result.error ?? "No se pudo leer la nota");
+          }
+          if (isCancelled) return;
+
+          loadedContent = result.data;
+          setFile(loadedFile);
+          setName(loadedFile.name);
+          setExtension(loadedFile.extension);
+          setContent(loadedContent);
+          setSavedContent(loadedContent);
+        } catch (loadError) {
+          if (isCancelled) return;
+          setError(
+            loadError instanceof Error
+              ? loadError.message
+              : "No se pudo abrir la nota",
+          );
+          setIsLoading(false);
+          return;
+        }
+      }
+
+      const draft = await readDraft(buildDraftKey(fileId, folderId));
+      if (isCancelled) return;
+      if (draft && draft.content !== loadedContent) {
+        setPendingDraft(draft);
+      }
+      setIsLoading(false);
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [fileId, folderId, services.fileService]);
+
+  // Autoguardado del borrador: solo tras una pausa y mientras haya cambios
+  useEffect(() => {
+    if (isLoading || pendingDraft || !isDirty) return;
+
+    const timeout = setTimeout(() => {
+      void writeDraft(draftKey, {
+        name,
+        extension,
+        content,
+        savedAt: Date.now(),
+      });
+    }, DRAFT_AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [content, draftKey, extension, isDirty, isLoading, name, pendingDraft]);
+
+  const restoreDraft = useCallback(() => {
+    if (!pendingDraft) return;
+    setContent(pendingDraft.content);
+    if (!fileId) {
+      setName(pendingDraft.name);
+      setExtension(pendingDraft.extension);
+    }
+    setPendingDraft(null);
+  }, [fileId, pendingDraft]);
+
+  const discardDraft = useCallback(() => {
+    setPendingDraft(null);
+    void removeDraft(draftKey);
+  }, [draftKey]);
+
+  /**
+   * Crea la nota o sobrescribe la existente. Tras crearla, el editor pasa a
+   * editar el archivo recién creado.
+   */
+  const save = useCallback(async (): Promise<FileModel> => {
+    setIsSaving(true);
+    try {
+      let saved: FileModel;
+      if (file) {
+        saved = await services.fileService.updateTextContent(file.id, content);
+        updateItem(saved);
+      } else {
+        saved = await services.fileService.createNote({
+          name,
+          extension,
+          content,
+          ...(folderId ? { folderId } : {}),
+        });
+        // La biblioteca solo lista la carpeta abierta
+        if (saved.folderId === useNavigationStore.getState().currentFolderId) {
+          addItem(saved);
+        }
+      }
+
+      await removeDraft(draftKey);
+      setFile(saved);
+      setSavedContent(content);
+      return saved;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [
+    addItem,
+    content,
+    draftKey,
+    extension,
+    file,
+    folderId,
+    name,
+    services.fileService,
+    updateItem,
+  ]);
+
+  return {
+    file,
+    isNew,
+    name,
+    setName,
+    extension,
+    setExtension,
+    content,
+    setContent,
+    isDirty,
+    isLoading,
+    isSaving,
+    error,
+    pendingDraft,
+    restoreDraft,
+    discardDraft,
+    save,
+  };
+};
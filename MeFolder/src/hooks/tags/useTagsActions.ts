@@ -1,35 +1,24 @@
-import { useState } from "react";
 import { NewTag } from "@/components/TagCreator";
 import { useAlert, useServices } from "@/providers";
 import { getDocumentAsync } from "expo-document-picker";
-import type { ArchiveProgress } from "@/types";
 import { CreateTagInput } from "@/types/entities/tag";
-import type { MediaImportProgress } from "@/types/media";
 import { useTagsStore } from "@/stores/useTagsStore";
 import { TagModel } from "@/models";
+import type {
+  ImportAlbumArchiveSource,
+  ImportAlbumArchiveSummary,
+  UUID,
+} from "@/types";
 
 export const useTagsActions = () => {
   const { services } = useServices();
   const tagService = services?.tagService;
   const { showAlert } = useAlert();
   const { addItem, addAlbum } = useTagsStore();
-  const [zipImportProgress, setZipImportProgress] =
-    useState<MediaImportProgress | null>(null);
-
-  const mapArchiveProgress = (
-    progress: ArchiveProgress,
-  ): MediaImportProgress => ({
-    completed: progress.processedEntries,
-    total: Math.max(progress.totalEntries, 1),
-    ...(progress.currentEntryName
-      ? { currentFileName: progress.currentEntryName }
-      : {}),
-  });
-
-  const handleImportZipAlbum = async (): Promise<TagModel | null> => {
-    if (!tagService) return null;
 
-    try {
+  /** Pide al usuario el ZIP de un álbum; null si cancela o no es accesible */
+  const pickAlbumArchive =
+    async (): Promise<ImportAlbumArchiveSource | null> => {
       const selection = await getDocumentAsync({
         multiple: false,
         copyToCacheDirectory: true,
@@ -49,26 +38,111 @@ export const useTagsActions = () => {
         return null;
       }
 
-      setZipImportProgress({
-        completed: 0,
-        total: 1,
-        currentFileName: selectedArchive.name || "Preparando importación...",
+      return {
+        name: selectedArchive.name || `album_${Date.now()}.zip`,
+        uri: selectedArchive.uri,
+        ...(selectedArchive.mimeType
+          ? { mimeType: selectedArchive.mimeType }
+          : {}),
+      };
+    };
+
+  /**
+   * Añade al álbum `albumId` los archivos del ZIP que aún no tiene. Los que ya
+   * están (mismo contenido, o mismo nombre y tamaño) se omiten.
+   */
+  const mergeArchiveIntoAlbum = async (
+    archiveFile: ImportAlbumArchiveSource,
+    albumId: UUID,
+    albumName: string,
+    onQueued?: () => void,
+  ): Promise<ImportAlbumArchiveSummary | null> => {
+    const { completion } = await services.jobService.enqueue(
+      "album_import",
+      `Añadiendo ${archiveFile.name} al álbum ${albumName}`,
+      { archiveFile, targetAlbumId: albumId },
+    );
+    onQueued?.();
+
+    const mergeResult = await completion;
+    if (mergeResult.error?.code === "cancelled") return null;
+    if (!mergeResult.success || !mergeResult.data) {
+      showAlert({
+        title: "Error al importar álbum",
+        message:
+          mergeResult.error?.message ??
+          "No se pudo añadir el ZIP seleccionado al álbum.",
       });
+      return null;
+    }
+
+    const { importedFileCount, skippedFileCount } = mergeResult.data;
+    showAlert({
+      title: "Álbum actualizado",
+      message:
+        skippedFileCount > 0
+          ? `Se han añadido ${importedFileCount} archivos a ${albumName}; ${skippedFileCount} ya estaban en el álbum.`
+          : `Se han añadido ${importedFileCount} archivos a ${albumName}.`,
+    });
+    return mergeResult.data;
+  };
+
+  /**
+   * Importa un álbum desde un ZIP en la cola de tareas. `onQueued` se llama
+   * en cuanto la tarea entra en la cola, antes de que termine. Si ya existe un
+   * álbum con el nombre del ZIP se ofrece fusionarlo con él.
+   */
+  const handleImportZipAlbum = async (
+    onQueued?: () => void,
+  ): Promise<TagModel | null> => {
+    if (!tagService) return null;
+
+    try {
+      const archiveFile = await pickAlbumArchive();
+      if (!archiveFile) return null;
 
-      const importResult =
-        await services.albumArchiveService.importAlbumArchive({
-          archiveFile: {
-            name: selectedArchive.name || `album_${Date.now()}.zip`,
-            uri: selectedArchive.uri,
-            ...(selectedArchive.mimeType
-              ? { mimeType: selectedArchive.mimeType }
-              : {}),
-          },
-          onProgress: (progress: ArchiveProgress) => {
-            setZipImportProgress(mapArchiveProgress(progress));
-          },
+      const existingAlbum = await tagService.getTagByName(
+        archiveFile.name.replace(/\.zip$/i, "").trim(),
+      );
+      if (existingAlbum?.isAlbum()) {
+        showAlert({
+          title: "El álbum ya existe",
+          message: `Ya tienes un álbum llamado "${existingAlbum.name}". ¿Añadir a él los archivos del ZIP que todavía no tiene?`,
+          buttons: [
+            { text: "Cancelar", style: "cancel" },
+            {
+              text: "Fusionar",
+              onPress: async () => {
+                try {
+                  await mergeArchiveIntoAlbum(
+                    archiveFile,
+                    existingAlbum.id,
+                    existingAlbum.name,
+                    onQueued,
+                  );
+                } catch (error) {
+                  console.warn("Error al fusionar el ZIP en el álbum:", error);
+                  showAlert({
+                    title: "Error al importar álbum",
+                    message: "No se pudo añadir el ZIP seleccionado al álbum.",
+                  });
+                }
+              },
+            },
+          ],
         });
+        return null;
+      }
+
+      const { completion } = await services.jobService.enqueue(
+        "album_import",
+        `Importando el álbum ${archiveFile.name}`,
+        { archiveFile },
+      );
+      onQueued?.();
 
+      const importResult = await completion;
+      if (importResult.error?.code === "cancelled") return null;
       if (!importResult.success || !importResult.data) {
         showAlert({
           title: "Error al importar álbum",
@@ -89,8 +163,26 @@ export const useTagsActions = () => {
         message: "No se pudo importar el álbum desde el ZIP seleccionado.",
       });
       return null;
-    } finally {
-      setZipImportProgress(null);
+    }
+  };
+
+  /** Elige un ZIP y lo fusiona con el álbum `albumId` */
+  const handleMergeZipIntoAlbum = async (
+    albumId: UUID,
+    albumName: string,
+  ): Promise<ImportAlbumArchiveSummary | null> => {
+    try {
+      const archiveFile = await pickAlbumArchive();
+      if (!archiveFile) return null;
+
+      return await mergeArchiveIntoAlbum(archiveFile, albumId, albumName);
+    } catch (error) {
+      console.warn("Error al fusionar el ZIP en el álbum:", error);
+      showAlert({
+        title: "Error al importar álbum",
+        message: "No se pudo añadir el ZIP seleccionado al álbum.",
+      });
+      return null;
     }
   };
 
@@ -130,7 +222,7 @@ export const useTagsActions = () => {
 
   return {
     handleImportZipAlbum,
+    handleMergeZipIntoAlbum,
     handleSaveTag,
-    zipImportProgress,
   };
 };
@@ -0,0 +1,109 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { RECENT_SEARCHES_LIMIT } from "@/constants/search";
+
+const RECENT_SEARCHES_STORAGE_KEY = "mefolder:recent-searches";
+
+const readRecentSearches = async (): Promise<string[]> => {
+  try {
+    const rawValue = await AsyncStorage.getItem(RECENT_SEARCHES_STORAGE_KEY);
+    if (!rawValue) {
+      return [];
+    }
+
+    const parsedValue: unknown = JSON.parse(rawValue);
+    if (!Array.isArray(parsedValue)) {
+      return [];
+    }
+
+    return parsedValue
+      .filter((value): value is string => typeof value === "string")
+      .slice(0, RECENT_SEARCHES_LIMIT);
+  } catch (error) {
+    console.warn("No se pudieron leer las búsquedas recientes", error);
+    return [];
+  }
+};
+
+const writeRecentSearches = async (queries: string[]): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(
+      RECENT_SEARCHES_STORAGE_KEY,
+      JSON.stringify(queries),
+    );
+  } catch (error) {
+    console.warn("No se pudieron guardar las búsquedas recientes", error);
+  }
+};
+
+/**
+ * Historial de búsquedas recientes persistido entre sesiones.
+ * La más reciente va primero y no se repiten consultas (sin distinguir mayúsculas).
+ */
+export const useRecentSearches = () => {
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const recentSearchesRef = useRef<string[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    void readRecentSearches().then((queries) => {
+      if (!isCancelled) {
+        recentSearchesRef.current = queries;
+        setRecentSearches(queries);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const updateRecentSearches = useCallback((queries: string[]) => {
+    recentSearchesRef.current = queries;
+    setRecentSearches(queries);
+    void writeRecentSearches(queries);
+  }, []);
+
+  const addRecentSearch = useCallback(
+    (query: string) => {
+      const trimmed = query.trim();
+      if (!trimmed) {
+        return;
+      }
+
+      const normalized = trimmed.toLocaleLowerCase();
+      updateRecentSearches(
+        [
+          trimmed,
+          ...recentSearchesRef.current.filter(
+            (item) => item.toLocaleLowerCase() !== normalized,
+          ),
+        ].slice(0, RECENT_SEARCHES_LIMIT),
+      );
+    },
+    [updateRecentSearches],
+  );
+
+  const removeRecentSearch = useCallback(
+    (query: string) => {
+      updateRecentSearches(
+        recentSearchesRef.current.filter((item) => item !== query),
+      );
+    },
+    [updateRecentSearches],
+  );
+
+  const clearRecentSearches = useCallback(() => {
+    recentSearchesRef.current = [];
+    setRecentSearches([]);
+    void AsyncStorage.removeItem(RECENT_SEARCHES_STORAGE_KEY).catch(() => {});
+  }, []);
+
+  return {
+    recentSearches,
+    addRecentSearch,
+    removeRecentSearch,
+    clearRecentSearches,
+  };
+};
@@ -1,90 +1,235 @@
 import { FileModel, FolderModel } from "@/models";
 import { useServices } from "@/providers/AppBootstrap";
 import { useLibraryStore } from "@/stores/useLibraryStore";
-import { useCallback, useRef, useState } from "react";
+import { useCallback, useMemo, useRef, useState } from "react";
+import { SearchService } from "@/services/search/SearchService";
+import type { SearchFilters, SortOptions } from "@/types/ui/search";
+import { DEFAULT_SEARCH_SORT, SEARCH_PAGE_SIZE } from "@/constants/search";
+
+interface UseSearchOptions {
+  /** Orden con el que se piden las páginas de resultados */
+  sort?: SortOptions;
+  pageSize?: number;
+}
+
+/** Cuenta los criterios activos de un SearchFilters, sin contar el texto */
+export const countActiveSearchFilters = (filters: SearchFilters): number =>
+  [
+    filters.extensions?.length,
+    filters.categories?.length,
+    filters.sizeRange?.min !== undefined ||
+      filters.sizeRange?.max !== undefined,
+    filters.dateRange?.start || filters.dateRange?.end || filters.datePreset,
+    filters.tagIds?.length || filters.excludedTagIds?.length,
+    filters.folderIds?.length,
+    filters.statuses?.length,
+    filters.hasColor !== undefined,
+    filters.hasTags !== undefined,
+    filters.hasDescription !== undefined,
+  ].filter(Boolean).length;
+
+export const useSearch = (query: string, options: UseSearchOptions = {}) => {
+  const { sort = DEFAULT_SEARCH_SORT, pageSize = SEARCH_PAGE_SIZE } = options;
 
-export const useSearch = (query: string) => {
   const [searchQuery, setSearchQuery] = useState(query);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>({});
   const [searchResults, setSearchResults] = useState<
     (FileModel | FolderModel)[]
   >([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
   const [isSearching, setIsSearching] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isSearchActive, setIsSearchActive] = useState(false);
 
   const setItems = useLibraryStore((state) => state.setItems);
   const originalItemsRef = useRef<(FileModel | FolderModel)[]>([]);
   const isSearchActiveRef = useRef(false);
+  const searchQueryRef = useRef(query);
+  const searchFiltersRef = useRef<SearchFilters>({});
+  const searchResultsRef = useRef<(FileModel | FolderModel)[]>([]);
+  const fileOffsetRef = useRef(0);
+  const requestIdRef = useRef(0);
 
   const { services } = useServices();
-  const fileService = services?.fileService;
-  const folderService = services?.folderService;
+  const searchService = services?.searchService;
 
-  const clearSearch = useCallback(() => {
-    setSearchQuery("");
+  const activeFilterCount = useMemo(
+    () => countActiveSearchFilters(searchFilters),
+    [searchFilters],
+  );
+
+  const resetResults = useCallback(() => {
+    searchResultsRef.current = [];
+    fileOffsetRef.current = 0;
     setSearchResults([]);
+    setTotalResults(0);
+    setHasMoreResults(false);
+  }, []);
+
+  const deactivateSearch = useCallback(() => {
+    requestIdRef.current++;
+    resetResults();
 
     if (isSearchActiveRef.current) {
       setItems(originalItemsRef.current);
       isSearchActiveRef.current = false;
       setIsSearchActive(false);
     }
-  }, [setItems]);
+  }, [resetResults, setItems]);
 
-  const handleSearch = useCallback(
-    async (newQuery: string): Promise<(FileModel | FolderModel)[]> => {
-      const trimmedQuery = newQuery.trim();
-      setSearchQuery(newQuery);
+  const clearSearch = useCallback(() => {
+    searchQueryRef.current = "";
+    searchFiltersRef.current = {};
+    setSearchQuery("");
+    setSearchFilters({});
+    deactivateSearch();
+  }, [deactivateSearch]);
+
+  /** Lanza la primera página de la búsqueda con el texto y filtros actuales */
+  const runSearch = useCallback(async (): Promise<
+    (FileModel | FolderModel)[]
+  > => {
+    const filters: SearchFilters = {
+      ...searchFiltersRef.current,
+      query: searchQueryRef.current.trim(),
+    };
 
-      if (!trimmedQuery) {
-        clearSearch();
-        return [];
+    if (SearchService.isEmptyFilters(filters)) {
+      deactivateSearch();
+      return [];
+    }
+
+    if (!searchService) {
+      return [];
+    }
+
+    const requestId = ++requestIdRef.current;
+    setIsSearching(true);
+
+    try {
+      if (!isSearchActiveRef.current) {
+        originalItemsRef.current = useLibraryStore.getState().items;
+        isSearchActiveRef.current = true;
+        setIsSearchActive(true);
       }
 
-      setIsSearching(true);
+      const result = await searchService.search({
+        filters,
+        sort,
+        pagination: { limit: pageSize, offset: 0 },
+      });
 
-      if (!fileService || !folderService) {
-        setIsSearching(false);
-        return [];
+      if (requestId !== requestIdRef.current) {
+        return searchResultsRef.current;
       }
 
-      try {
-        if (!isSearchActiveRef.current) {
-          originalItemsRef.current = useLibraryStore.getState().items;
-          isSearchActiveRef.current = true;
-          setIsSearchActive(true);
-        }
-
-        const [fileResults, folderResults] = await Promise.all([
-          fileService.searchFiles(trimmedQuery),
-          folderService.searchFolders(trimmedQuery),
-        ]);
-
-        const combinedResults = [...folderResults, ...fileResults];
-
-        setSearchResults(combinedResults);
-        setItems(combinedResults);
-
-        return combinedResults;
-      } catch (error) {
-        console.error("Error during search:", error);
-        if (isSearchActiveRef.current && searchResults.length === 0) {
-          isSearchActiveRef.current = false;
-          setIsSearchActive(false);
-        }
-        return [];
-      } finally {
+      searchResultsRef.current = result.items;
+      fileOffsetRef.current = result.items.filter(
+        (item) => item instanceof FileModel,
+      ).length;
+
+      setSearchResults(result.items);
+      setTotalResults(result.total);
+      setHasMoreResults(result.hasMore);
+      setItems(result.items);
+
+      return result.items;
+    } catch (error) {
+      console.error("Error during search:", error);
+      if (searchResultsRef.current.length === 0) {
+        deactivateSearch();
+      }
+      return [];
+    } finally {
+      if (requestId === requestIdRef.current) {
         setIsSearching(false);
       }
+    }
+  }, [deactivateSearch, pageSize, searchService, setItems, sort]);
+
+  const handleSearch = useCallback(
+    async (newQuery: string): Promise<(FileModel | FolderModel)[]> => {
+      searchQueryRef.current = newQuery;
+      setSearchQuery(newQuery);
+
+      return runSearch();
+    },
+    [runSearch],
+  );
+
+  /** Sustituye los filtros y repite la búsqueda con el texto actual */
+  const applyFilters = useCallback(
+    async (filters: SearchFilters): Promise<(FileModel | FolderModel)[]> => {
+      const nextFilters = { ...filters };
+      delete nextFilters.query;
+
+      searchFiltersRef.current = nextFilters;
+      setSearchFilters(nextFilters);
+
+      return runSearch();
     },
-    [clearSearch, fileService, folderService, setItems, searchResults.length],
+    [runSearch],
   );
 
+  /** Carga la siguiente página de archivos y la añade a los resultados */
+  const loadMoreResults = useCallback(async (): Promise<void> => {
+    if (!searchService || !hasMoreResults || isLoadingMore || isSearching) {
+      return;
+    }
+
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+
+    try {
+      const result = await searchService.searchFiles({
+        filters: {
+          ...searchFiltersRef.current,
+          query: searchQueryRef.current.trim(),
+        },
+        sort,
+        pagination: { limit: pageSize, offset: fileOffsetRef.current },
+      });
+
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      const merged = [...searchResultsRef.current, ...result.items];
+      searchResultsRef.current = merged;
+      fileOffsetRef.current += result.items.length;
+
+      setSearchResults(merged);
+      setHasMoreResults(result.hasMore);
+      setItems(merged);
+    } catch (error) {
+      console.error("Error loading more search results:", error);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [
+    hasMoreResults,
+    isLoadingMore,
+    isSearching,
+    pageSize,
+    searchService,
+    setItems,
+    sort,
+  ]);
+
   return {
     searchQuery,
+    searchFilters,
     searchResults,
+    totalResults,
+    hasMoreResults,
+    activeFilterCount,
     handleSearch,
+    applyFilters,
+    loadMoreResults,
     clearSearch,
     isSearching,
+    isLoadingMore,
     isSearchActive,
   };
 };
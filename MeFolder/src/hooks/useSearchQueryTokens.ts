@@ -0,0 +1,58 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useServices } from "@/providers/AppBootstrap";
+import { parseSearchQuery } from "@/services/search/queryLanguage";
+import type { SearchQueryToken } from "@/types/ui/search";
+import { SEARCH_SUGGESTION_DEBOUNCE_MS } from "@/constants/search";
+
+/**
+ * Tokens del lenguaje de búsqueda para el texto que se está escribiendo.
+ * Los errores de sintaxis se muestran al instante; las etiquetas y carpetas
+ * que no existen se marcan cuando el usuario deja de teclear.
+ */
+export const useSearchQueryTokens = (query: string) => {
+  const [resolved, setResolved] = useState<{
+    query: string;
+    tokens: SearchQueryToken[];
+  } | null>(null);
+  const requestIdRef = useRef(0);
+
+  const { services } = useServices();
+  const searchService = services?.searchService;
+
+  const parsedTokens = useMemo(() => parseSearchQuery(query).tokens, [query]);
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    const needsLookup = parsedTokens.some(
+      (token) => (token.kind === "tag" || token.kind === "in") && !token.error,
+    );
+
+    if (!needsLookup || !searchService) {
+      setResolved(null);
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      void searchService
+        .parseQuery(query)
+        .then((result) => {
+          if (requestId === requestIdRef.current) {
+            setResolved({ query, tokens: result.tokens });
+          }
+        })
+        .catch((error) => {
+          console.error("Error parsing search query:", error);
+        });
+    }, SEARCH_SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [query, parsedTokens, searchService]);
+
+  const queryTokens =
+    resolved?.query === query ? resolved.tokens : parsedTokens;
+  const hasQueryErrors = queryTokens.some((token) => token.error);
+
+  return { queryTokens, hasQueryErrors };
+};
@@ -0,0 +1,57 @@
+import { useEffect, useRef, useState } from "react";
+import { useServices } from "@/providers/AppBootstrap";
+import type { SearchSuggestion } from "@/types/ui/search";
+import { SEARCH_SUGGESTION_DEBOUNCE_MS } from "@/constants/search";
+
+/**
+ * Sugerencias de búsqueda para el texto que se está escribiendo.
+ * Espera a que el usuario deje de teclear y descarta respuestas de textos anteriores.
+ */
+export const useSearchSuggestions = (query: string) => {
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const { services } = useServices();
+  const searchService = services?.searchService;
+
+  useEffect(() => {
+    const requestId = ++requestIdRef.current;
+    const text = query.trim();
+
+    if (!text || !searchService) {
+      setSuggestions([]);
+      setIsLoadingSuggestions(false);
+      return;
+    }
+
+    setIsLoadingSuggestions(true);
+
+    const timeout = setTimeout(() => {
+      void searchService
+        .getSuggestions(text)
+        .then((result) => {
+          if (requestId === requestIdRef.current) {
+            setSuggestions(result);
+          }
+        })
+        .catch((error) => {
+          console.error("Error loading search suggestions:", error);
+          if (requestId === requestIdRef.current) {
+            setSuggestions([]);
+          }
+        })
+        .finally(() => {
+          if (requestId === requestIdRef.current) {
+            setIsLoadingSuggestions(false);
+          }
+        });
+    }, SEARCH_SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [query, searchService]);
+
+  return { suggestions, isLoadingSuggestions };
+};
@@ -11,7 +11,8 @@ import type {
 } from "@/types";
 import type { UUID } from "@/types/common/base";
 
-type ViewSettingsSource = "folder" | "tag";
+/** "archive": el interior de un comprimido usa la vista por defecto y no se guarda */
+type ViewSettingsSource = "folder" | "smartFolder" | "tag" | "archive";
 
 interface UseViewSettingsParams {
   source: ViewSettingsSource;
@@ -37,7 +38,7 @@ export const useViewSettings = ({
   const gridConfig = getGridConfig(selectedView as ViewMode, width);
 
   const loadViewConfig = async () => {
-    if (!sourceId) return;
+    if (!sourceId || source === "archive") return;
 
     try {
       let viewConfig: ViewSettings | null = null;
@@ -45,6 +46,9 @@ export const useViewSettings = ({
       if (source === "folder") {
         viewConfig =
           await services?.folderService.getFolderViewConfig(sourceId);
+      } else if (source === "smartFolder") {
+        viewConfig =
+          await services?.smartFolderService.getSmartFolderViewConfig(sourceId);
       } else {
         viewConfig = await services?.tagService.getTagViewConfig(sourceId);
       }
@@ -63,7 +67,7 @@ export const useViewSettings = ({
   };
 
   const updateViewConfig = async (settings: Partial<ViewSettings>) => {
-    if (!sourceId) return;
+    if (!sourceId || source === "archive") return;
 
     try {
       if (source === "folder") {
@@ -71,6 +75,11 @@ export const useViewSettings = ({
           sourceId,
           settings,
         );
+      } else if (source === "smartFolder") {
+        await services?.smartFolderService.updateSmartFolderViewConfig(
+          sourceId,
+          settings,
+        );
       } else {
         await services?.tagService.updateTagViewConfig(sourceId, settings);
       }
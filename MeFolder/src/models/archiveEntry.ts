@@ -0,0 +1,152 @@
+import type { ArchiveEntryDescriptor } from "../types/archive";
+import { UUID } from "../types/common/base";
+import {
+  EXTENSION_MIME_MAP,
+  FILE_CATEGORY_MAP,
+  type FileExtension,
+} from "../types/common/file-extensions";
+import { FileModel } from "./file";
+import { FolderModel } from "./folder";
+
+/** Prefijo de los IDs de entradas de un comprimido; las distingue de los elementos reales en la navegación */
+export const ARCHIVE_ENTRY_ID_PREFIX = "archive_";
+
+/**
+ * ID de navegación de una entrada del comprimido: `archive_<archivo>:<ruta>`.
+ * La ruta vacía representa la raíz del comprimido.
+ */
+export const buildArchiveEntryId = (
+  archiveFileId: UUID,
+  entryPath = "",
+): UUID => `${ARCHIVE_ENTRY_ID_PREFIX}${archiveFileId}:${entryPath}`;
+
+/** Indica si un ID de la navegación corresponde al interior de un comprimido */
+export const isArchiveEntryId = (id: UUID | null | undefined): boolean =>
+  Boolean(id?.startsWith(ARCHIVE_ENTRY_ID_PREFIX));
+
+/** Separa un ID de entrada en el archivo comprimido y la ruta dentro de él */
+export const parseArchiveEntryId = (
+  id: UUID,
+): { archiveFileId: UUID; entryPath: string } | null => {
+  if (!isArchiveEntryId(id)) return null;
+
+  const separatorIndex = id.indexOf(":", ARCHIVE_ENTRY_ID_PREFIX.length);
+  if (separatorIndex === -1) return null;
+
+  return {
+    archiveFileId: id.slice(ARCHIVE_ENTRY_ID_PREFIX.length, separatorIndex),
+    entryPath: id.slice(separatorIndex + 1),
+  };
+};
+
+const getParentEntryPath = (entryPath: string): string =>
+  entryPath.includes("/") ? entryPath.slice(0, entryPath.lastIndexOf("/")) : "";
+
+/**
+ * Carpeta dentro de un comprimido. Se navega como una carpeta normal, pero es
+ * de solo lectura: no existe en la base de datos ni en disco.
+ */
+export class ArchiveFolderEntryModel extends FolderModel {
+  readonly archiveFileId: UUID;
+  readonly entryPath: string;
+
+  constructor(archiveFile: FileModel, entry: ArchiveEntryDescriptor) {
+    super({
+      id: buildArchiveEntryId(archiveFile.id, entry.path),
+      createdAt: archiveFile.createdAt,
+      updatedAt: archiveFile.updatedAt,
+      name: entry.name,
+      parentId: buildArchiveEntryId(
+        archiveFile.id,
+        getParentEntryPath(entry.path),
+      ),
+      path: entry.path,
+      level: entry.depth,
+      status: "active",
+      type: "regular",
+      visibility: "private",
+      viewSettings: {
+        sortBy: "name",
+        sortOrder: "asc",
+        viewMode: "list",
+        options: {
+          showHiddenFiles: false,
+          showExtension: true,
+        },
+      },
+      isFavorite: false,
+      isProtected: true,
+      isSystemFolder: false,
+    });
+    this.archiveFileId = archiveFile.id;
+    this.entryPath = entry.path;
+  }
+
+  canBeRenamed(): boolean {
+    return false;
+  }
+
+  canBeMoved(): boolean {
+    return false;
+  }
+}
+
+/** Archivo dentro de un comprimido; para abrirlo hay que extraerlo antes a la caché */
+export class ArchiveFileEntryModel extends FileModel {
+  readonly archiveFileId: UUID;
+  readonly entryPath: string;
+
+  constructor(archiveFile: FileModel, entry: ArchiveEntryDescriptor) {
+    const dotIndex = entry.name.lastIndexOf(".");
+    const extension = (
+      dotIndex > 0 ? entry.name.slice(dotIndex + 1).toLowerCase() : ""
+    ) as FileExtension;
+
+    super({
+      id: buildArchiveEntryId(archiveFile.id, entry.path),
+      createdAt: archiveFile.createdAt,
+      updatedAt: archiveFile.updatedAt,
+      name: entry.name,
+      originalName: entry.name,
+      extension,
+      category: FILE_CATEGORY_MAP[extension] ?? "other",
+      folderId: buildArchiveEntryId(
+        archiveFile.id,
+        getParentEntryPath(entry.path),
+      ),
+      path: entry.path,
+      status: "active",
+      visibility: "private",
+      metadata: {
+        size: entry.size ?? 0,
+        mimeType: EXTENSION_MIME_MAP[extension] ?? "application/octet-stream",
+      },
+      tagIds: [],
+    });
+    this.archiveFileId = archiveFile.id;
+    this.entryPath = entry.path;
+  }
+
+  canBeDeleted(): boolean {
+    return false;
+  }
+}
+
+/** Indica si un elemento de la biblioteca vive dentro de un comprimido */
+export const isArchiveEntryModel = (
+  item: FileModel | FolderModel | null | undefined,
+): item is ArchiveFileEntryModel | ArchiveFolderEntryModel =>
+  item instanceof ArchiveFileEntryModel ||
+  item instanceof ArchiveFolderEntryModel;
+
+export class ArchiveEntryFactory {
+  /** Crea el modelo de carpeta o archivo que representa una entrada del comprimido */
+  static fromDescriptor(
+    archiveFile: FileModel,
+    entry: ArchiveEntryDescriptor,
+  ): ArchiveFileEntryModel | ArchiveFolderEntryModel {
+    return entry.type === "directory"
+      ? new ArchiveFolderEntryModel(archiveFile, entry)
+      : new ArchiveFileEntryModel(archiveFile, entry);
+  }
+}
@@ -1,4 +1,6 @@
 export * from './base';
 export * from './tag';
 export * from './file';
-export * from './folder';
\ No newline at end of file
+export * from './folder';
+export * from './smartFolder';
+export * from './archiveEntry';
@@ -0,0 +1,156 @@
+import {
+  SmartFolder,
+  CreateSmartFolderInput,
+} from "../types/entities/smartFolder";
+import { Folder } from "../types/entities/folder";
+import { UUID } from "../types/common/base";
+import type { SearchFilters, SortOptions } from "../types/ui/search";
+import { ValidationResult, ValidationUtils } from "./base";
+import { FolderModel } from "./folder";
+import { ROOT_FOLDER_ID } from "../database/seeds/systemFolders";
+import { SYSTEM_COLORS } from "@/constants/themes/colors";
+import { DEFAULT_SEARCH_SORT } from "@/constants/search";
+import {
+  MAX_ITEM_DESCRIPTION_LENGTH,
+  MAX_WINDOWS_ITEM_NAME_LENGTH,
+} from "@/constants/validation";
+import { sanitizeFolderName } from "@/utils/format/name";
+
+/** Prefijo de los IDs de carpetas inteligentes; las distingue de las carpetas reales en la navegación */
+export const SMART_FOLDER_ID_PREFIX = "smart_";
+
+/** Indica si un ID de la navegación corresponde a una carpeta inteligente */
+export const isSmartFolderId = (id: UUID | null | undefined): boolean =>
+  Boolean(id?.startsWith(SMART_FOLDER_ID_PREFIX));
+
+/** Representa la carpeta inteligente con la forma de una carpeta normal para listados y breadcrumb */
+const toFolderData = (smartFolder: SmartFolder): Folder => ({
+  id: smartFolder.id,
+  createdAt: smartFolder.createdAt,
+  updatedAt: smartFolder.updatedAt,
+  name: smartFolder.name,
+  parentId: smartFolder.parentId,
+  path: smartFolder.id,
+  level: 0,
+  status: "active",
+  type: "regular",
+  visibility: "private",
+  viewSettings: smartFolder.viewSettings,
+  isFavorite: false,
+  isProtected: false,
+  isSystemFolder: false,
+  ...(smartFolder.description && { description: smartFolder.description }),
+  ...(smartFolder.color && { color: smartFolder.color }),
+  ...(smartFolder.icon && { icon: smartFolder.icon }),
+});
+
+/**
+ * Carpeta inteligente. Se comporta como un FolderModel en la biblioteca,
+ * pero su contenido es el resultado de la búsqueda guardada.
+ */
+export class SmartFolderModel extends FolderModel {
+  private smartFolder: SmartFolder;
+
+  constructor(data: SmartFolder) {
+    super(toFolderData(data));
+    this.smartFolder = { ...data };
+  }
+
+  get filters(): SearchFilters {
+    return { ...this.smartFolder.filters };
+  }
+
+  get sort(): SortOptions {
+    return { ...this.smartFolder.sort };
+  }
+
+  /** Datos de la búsqueda guardada */
+  toSmartFolderJSON(): SmartFolder {
+    return { ...this.smartFolder };
+  }
+
+  validate(): ValidationResult {
+    const errors = [];
+
+    const nameError = ValidationUtils.required(this.smartFolder.name, "name");
+    if (nameError) errors.push(nameError);
+
+    const nameMaxLengthError = ValidationUtils.maxLength(
+      this.smartFolder.name,
+      MAX_WINDOWS_ITEM_NAME_LENGTH,
+      "name",
+    );
+    if (nameMaxLengthError) errors.push(nameMaxLengthError);
+
+    if (this.smartFolder.description) {
+      const descMaxLengthError = ValidationUtils.maxLength(
+        this.smartFolder.description,
+        MAX_ITEM_DESCRIPTION_LENGTH,
+        "description",
+      );
+      if (descMaxLengthError) errors.push(descMaxLengthError);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+    };
+  }
+
+  clone(): SmartFolderModel {
+    return new SmartFolderModel({ ...this.smartFolder });
+  }
+
+  canBeRenamed(): boolean {
+    return false;
+  }
+
+  canBeMoved(): boolean {
+    return false;
+  }
+}
+
+export class SmartFolderFactory {
+  /** Crea nueva carpeta inteligente con orden y vista por defecto */
+  static create(input: CreateSmartFolderInput): SmartFolderModel {
+    const now = new Date();
+
+    const smartFolder: SmartFolder = {
+      id: this.generateId(),
+      name: sanitizeFolderName(input.name),
+      parentId: input.parentId || ROOT_FOLDER_ID,
+      filters: input.filters,
+      sort: input.sort ?? DEFAULT_SEARCH_SORT,
+      viewSettings: {
+        sortBy: "name",
+        sortOrder: "asc",
+        viewMode: "list",
+        options: {
+          showHiddenFiles: false,
+          showExtension: true,
+        },
+        ...input.viewSettings,
+      },
+      createdAt: now,
+      updatedAt: now,
+      icon: input.icon ?? "sparkles",
+      color: input.color ?? SYSTEM_COLORS.purple,
+
+      ...(input.description?.trim() && {
+        description: input.description.trim(),
+      }),
+    };
+
+    return new SmartFolderModel(smartFolder);
+  }
+
+  /** Crea modelo desde datos JSON */
+  static fromJSON(data: SmartFolder): SmartFolderModel {
+    return new SmartFolderModel(data);
+  }
+
+  /** Genera ID único para carpeta inteligente */
+  private static generateId(): UUID {
+    return `${SMART_FOLDER_ID_PREFIX}${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
@@ -9,22 +9,33 @@ import { useDatabase } from "./DatabaseProvider";
 import {
   AlbumArchiveService,
   ArchiveService,
+  DuplicateService,
   FileService,
   FolderService,
   TagService,
   UserColorService,
   FileSystemService,
+  JobService,
+  LibraryBackupService,
   MediaImportService,
+  SearchService,
+  SmartFolderService,
 } from "@/services";
+import { useJobsStore } from "@/stores/useJobsStore";
 
 interface Services {
   albumArchiveService: AlbumArchiveService;
   archiveService: ArchiveService;
+  duplicateService: DuplicateService;
   fileService: FileService;
   folderService: FolderService;
+  jobService: JobService;
+  libraryBackupService: LibraryBackupService;
   tagService: TagService;
   userColorService: UserColorService;
   mediaImportService: MediaImportService;
+  searchService: SearchService;
+  smartFolderService: SmartFolderService;
 }
 
 interface AppBootstrapContextType {
@@ -76,24 +87,49 @@ const createServices = (): Services => {
   const folderService = new FolderService();
   const tagService = new TagService();
   const userColorService = new UserColorService();
-  const mediaImportService = new MediaImportService(fileService, tagService);
-  const archiveService = new ArchiveService(fileService, folderService, mediaImportService);
+  const duplicateService = new DuplicateService(fileService, folderService);
+  const mediaImportService = new MediaImportService(
+    fileService,
+    tagService,
+    duplicateService,
+  );
+  const searchService = new SearchService();
+  const smartFolderService = new SmartFolderService(searchService);
+  const archiveService = new ArchiveService(
+    fileService,
+    folderService,
+    mediaImportService,
+    tagService,
+  );
   const albumArchiveService = new AlbumArchiveService(
     archiveService,
     tagService,
     fileService,
   );
+  const libraryBackupService = new LibraryBackupService();
+  const jobService = new JobService(
+    archiveService,
+    albumArchiveService,
+    mediaImportService,
+    fileService,
+    folderService,
+  );
 
   console.log(`${APP_BOOT_LOG_PREFIX} Servicios creados`);
 
   return {
     albumArchiveService,
     archiveService,
+    duplicateService,
     fileService,
     folderService,
+    jobService,
+    libraryBackupService,
     tagService,
     userColorService,
     mediaImportService,
+    searchService,
+    smartFolderService,
   };
 };
 
@@ -119,8 +155,9 @@ const ensureRootDirectory = (): void => {
  * Orquesta la secuencia de inicialización:
  * 1. Espera a que la base de datos esté lista (DatabaseProvider)
  * 2. Instancia los servicios (FileService, FolderService, TagService)
- * 3. Expone los servicios via contexto a toda la app
- * 4. Muestra loading/error fallbacks según el estado
+ * 3. Recupera la cola de tareas en segundo plano (JobService)
+ * 4. Expone los servicios via contexto a toda la app
+ * 5. Muestra loading/error fallbacks según el estado
  *
  * DEBE estar dentro de un DatabaseProvider.
  *
@@ -186,6 +223,24 @@ export const AppBootstrap: React.FC<AppBootstrapProps> = ({
     }
   }, [isDbReady, dbError]);
 
+  // La cola de tareas se recupera en segundo plano: las que no terminaron en
+  // la sesión anterior aparecen como interrumpidas en el panel de tareas.
+  useEffect(() => {
+    if (!services) return;
+
+    const unsubscribe = services.jobService.subscribe(
+      useJobsStore.getState().setJobs,
+    );
+    services.jobService.initialize().catch((err) => {
+      console.error(
+        `${APP_BOOT_LOG_PREFIX} Error al recuperar la cola de tareas:`,
+        err,
+      );
+    });
+
+    return unsubscribe;
+  }, [services]);
+
   if (error) {
     if (errorFallback) {
       return <>{errorFallback(error, retryDb)}</>;
@@ -7,10 +7,7 @@ import React, {
   ReactNode,
 } from "react";
 import { Database } from "@/database/sqlite/Database";
-import { createFilesTable } from "@/database/migrations/files";
-import { createFoldersTable } from "@/database/migrations/folders";
-import { createTagsTable } from "@/database/migrations/tags";
-import { createUserColorsTable } from "@/database/migrations/userColors";
+import { MIGRATIONS, runMigrations } from "@/database/migrations";
 import { seedSystemFolders } from "@/database/seeds/systemFolders";
 import { seedSystemTags } from "@/database/seeds/systemTags";
 
@@ -51,26 +48,22 @@ export const useDatabase = (): DatabaseContextType => {
 };
 
 /**
- * Ejecuta todas las migraciones de base de datos en orden.
+ * Aplica las migraciones pendientes del esquema y después los seeds del sistema.
+ * Los seeds son idempotentes (INSERT OR IGNORE) y se ejecutan en cada arranque.
  */
-const runMigrations = async (): Promise<void> => {
+const migrateDatabase = async (): Promise<void> => {
   console.log(`${DATABASE_MIGRATIONS_LOG_PREFIX} Ejecutando migraciones...`);
 
-  const migrationSteps = [
-    createFoldersTable,
-    createFilesTable,
-    createTagsTable,
-    createUserColorsTable,
-    seedSystemTags,
-    seedSystemFolders,
-  ];
+  const schemaVersion = await runMigrations(MIGRATIONS);
 
-  for (const step of migrationSteps) {
+  const seedSteps = [seedSystemTags, seedSystemFolders];
+
+  for (const step of seedSteps) {
     await step();
   }
 
   console.log(
-    `${DATABASE_MIGRATIONS_LOG_PREFIX} Migraciones completadas exitosamente`,
+    `${DATABASE_MIGRATIONS_LOG_PREFIX} Migraciones completadas exitosamente (versión ${schemaVersion})`,
   );
 };
 
@@ -79,7 +72,7 @@ const runMigrations = async (): Promise<void> => {
  *
  * Responsabilidades:
  * - Inicializa la conexión a la base de datos al montar el componente
- * - Ejecuta las migraciones (creación de tablas)
+ * - Aplica las migraciones versionadas pendientes y los seeds del sistema
  * - Expone el estado de inicialización (isReady, error)
  * - Proporciona un mecanismo de reintento en caso de fallo
  *
@@ -108,7 +101,7 @@ export const DatabaseProvider: React.FC<DatabaseProviderProps> = ({
       );
 
       await database.initialize();
-      await runMigrations();
+      await migrateDatabase();
 
       setIsReady(true);
       console.log(`${DATABASE_PROVIDER_LOG_PREFIX} Base de datos lista`);
@@ -86,6 +86,7 @@ export const useLibraryStyles = () => {
     iconColor: {
       color: theme.colors.textPrimary,
       primaryColor: theme.colors.primary,
+      mutedColor: theme.colors.textMuted,
     },
     volverButton: {
       ...cardShadow(theme),
@@ -122,6 +123,9 @@ export const useLibraryStyles = () => {
       gap: 10,
       padding: 16,
     },
+    smartFolderEditorContent: {
+      paddingBottom: 4 * theme.spacing.xxl,
+    },
     popupMessage: {
       fontFamily: theme.typography.fontFamily.primary.regular,
       fontSize: 14,
@@ -140,6 +144,58 @@ export const useLibraryStyles = () => {
       fontSize: 14,
       color: theme.colors.textPrimary,
     },
+    popupPasswordInput: {
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      fontSize: 14,
+      color: theme.colors.textPrimary,
+      paddingVertical: theme.spacing.sm,
+      paddingHorizontal: theme.spacing.md,
+      marginTop: theme.spacing.sm,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderColor: theme.colors.borderSoft,
+      backgroundColor: theme.colors.surface,
+    },
+    popupPasswordInputError: {
+      borderColor: theme.colors.error,
+    },
+    popupErrorText: {
+      fontFamily: theme.typography.fontFamily.primary.regular,
+      fontSize: 13,
+      color: theme.colors.error,
+      marginTop: theme.spacing.xs,
+    },
+    popupSectionLabel: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+      marginTop: theme.spacing.sm,
+    },
+    popupChipRow: {
+      flexDirection: "row",
+      flexWrap: "wrap",
+      gap: theme.spacing.xs,
+      marginTop: theme.spacing.sm,
+    },
+    popupChip: {
+      paddingVertical: theme.spacing.xs,
+      paddingHorizontal: theme.spacing.sm,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: theme.colors.borderSoft,
+    },
+    popupChipSelected: {
+      backgroundColor: theme.colors.primary,
+      borderColor: theme.colors.primary,
+    },
+    popupChipText: {
+      fontFamily: theme.typography.fontFamily.primary.semiBold,
+      fontSize: 13,
+      color: theme.colors.textSecondary,
+    },
+    popupChipTextSelected: {
+      color: theme.colors.textOnColor,
+    },
     popupFooterButtons: {
       flexDirection: "row",
       justifyContent: "flex-end",
@@ -0,0 +1,453 @@
+import { BaseService } from "./base/BaseService";
+import { File } from "../types/entities/file";
+import { UUID } from "../types/common/base";
+import { FileModel, FileFactory } from "../models/file";
+import { FileSystemService } from "./filesystem/FileSystemService";
+import { MediaService } from "./media/MediaService";
+import { FileService } from "./FileService";
+import { FolderService } from "./FolderService";
+import { hammingDistance } from "../utils/image";
+
+/**
+ * Bits distintos (de 64) que se toleran entre dos dHash para considerar
+ * parecidas dos fotos. Cubre recompresión y redimensionado sin agrupar
+ * fotos distintas con composición parecida.
+ */
+export const SIMILAR_PHOTO_MAX_DISTANCE = 10;
+
+/** Copia de un archivo duplicado y la ruta de carpetas donde está */
+export interface DuplicateFileCopy {
+  file: FileModel;
+  /** Nombres de las carpetas desde la raíz de la biblioteca */
+  folderPath: string[];
+}
+
+/** Archivos con el mismo contenido (mismo checksum) */
+export interface DuplicateGroup {
+  checksum: string;
+  /** Tamaño de cada copia en bytes */
+  size: number;
+  /** Bytes que se recuperan conservando una sola copia */
+  wastedBytes: number;
+  /** Copias ordenadas de la más antigua a la más reciente */
+  copies: DuplicateFileCopy[];
+}
+
+/** Fotos que parecen la misma imagen (ráfagas, copias recomprimidas...) */
+export interface SimilarPhotoGroup {
+  /** ID de la foto más antigua del grupo, estable entre búsquedas */
+  id: UUID;
+  /** Mayor distancia Hamming entre la primera foto y el resto */
+  maxDistance: number;
+  /** Fotos ordenadas de la más antigua a la más reciente */
+  photos: DuplicateFileCopy[];
+}
+
+/** Progreso del cálculo de checksums o hashes perceptuales pendientes */
+export interface DuplicateScanProgress {
+  processed: number;
+  total: number;
+}
+
+/**
+ * DuplicateService - Detección y limpieza de archivos duplicados
+ *
+ * Funciones incluidas:
+ * - Agrupar archivos idénticos por el checksum guardado en metadata_checksum
+ * - Calcular bajo demanda el checksum de los archivos que no lo tienen
+ * - Conservar una copia, fusionar en ella los tags del resto y mover las demás a la papelera
+ * - Agrupar fotos parecidas por hash perceptual (dHash) calculado desde su thumbnail
+ */
+export class DuplicateService extends BaseService {
+  private fs = new FileSystemService();
+  private media = new MediaService();
+
+  constructor(
+    private readonly fileService: FileService = new FileService(),
+    private readonly folderService: FolderService = new FolderService(),
+  ) {
+    super();
+  }
+
+  /**
+   * Busca grupos de archivos duplicados.
+   * Solo se comparan archivos que comparten tamaño con otro; a los que no tienen
+   * checksum se les calcula y se guarda para próximas búsquedas.
+   * Los grupos se devuelven de más a menos espacio recuperable.
+   */
+  async findDuplicateGroups(
+    onProgress?: (progress: DuplicateScanProgress) => void,
+  ): Promise<DuplicateGroup[]> {
+    try {
+      this.ensureDbInitialized();
+
+      const candidates = await this.fileRepo.findDuplicateCandidates();
+      await this.fillMissingChecksums(candidates, onProgress);
+
+      const filesByChecksum = new Map<string, File[]>();
+      for (const file of candidates) {
+        const checksum = file.metadata.checksum;
+        if (!checksum) continue;
+
+        filesByChecksum.set(checksum, [
+          ...(filesByChecksum.get(checksum) ?? []),
+          file,
+        ]);
+      }
+
+      const folderPaths = new Map<UUID, string[]>();
+      const groups: DuplicateGroup[] = [];
+
+      for (const [checksum, files] of filesByChecksum) {
+        if (files.length < 2) continue;
+
+        const copies: DuplicateFileCopy[] = [];
+        for (const file of files) {
+          copies.push({
+            file: FileFactory.fromJSON(file),
+            folderPath: await this.resolveFolderPath(
+              file.folderId,
+              folderPaths,
+            ),
+          });
+        }
+
+        const size = files[0]!.metadata.size;
+        groups.push({
+          checksum,
+          size,
+          wastedBytes: size * (files.length - 1),
+          copies,
+        });
+      }
+
+      return groups.sort((a, b) => b.wastedBytes - a.wastedBytes);
+    } catch (error) {
+      return this.handleError(error, "buscar archivos duplicados");
+    }
+  }
+
+  /**
+   * Busca en la biblioteca archivos con el mismo contenido que uno dado.
+   * Se filtra primero por tamaño: `getChecksum` solo se llama si hay archivos
+   * de ese tamaño, y de ellos solo se calcula el checksum de los que aún no
+   * lo tienen.
+   * @returns Copias existentes, de la más antigua a la más reciente
+   */
+  async findCopiesOf(
+    size: number,
+    getChecksum: () => Promise<string | null>,
+  ): Promise<FileModel[]> {
+    try {
+      this.ensureDbInitialized();
+
+      const sameSize = await this.fileRepo.findBySize(size);
+      if (sameSize.length === 0) {
+        return [];
+      }
+
+      const checksum = await getChecksum();
+      if (!checksum) {
+        return [];
+      }
+
+      await this.fillMissingChecksums(sameSize);
+
+      return sameSize
+        .filter((file) => file.metadata.checksum === checksum)
+        .map((file) => FileFactory.fromJSON(file));
+    } catch (error) {
+      return this.handleError(error, "buscar copias del archivo");
+    }
+  }
+
+  /**
+   * Conserva un archivo de un grupo de duplicados y mueve el resto a la papelera.
+   * Los tags de las copias eliminadas se añaden al archivo conservado.
+   * @returns El archivo conservado con sus tags actualizados
+   */
+  async resolveDuplicates(
+    keepFileId: UUID,
+    duplicateFileIds: UUID[],
+  ): Promise<FileModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const keptFile = await this.fileRepo.findById(keepFileId);
+      if (!keptFile) throw new Error("Archivo no encontrado");
+
+      const duplicates: File[] = [];
+      for (const fileId of duplicateFileIds) {
+        if (fileId === keepFileId) continue;
+
+        const file = await this.fileRepo.findById(fileId);
+        if (!file) throw new Error("Archivo no encontrado");
+        if (
+          !file.metadata.checksum ||
+          file.metadata.checksum !== keptFile.metadata.checksum
+        ) {
+          throw new Error(
+            `"${file.name}" no es una copia del archivo conservado`,
+          );
+        }
+        duplicates.push(file);
+      }
+
+      const [result] = await this.keepAndTrash([keptFile], duplicates);
+      return result!;
+    } catch (error) {
+      return this.handleError(error, "resolver archivos duplicados");
+    }
+  }
+
+  /**
+   * Busca grupos de fotos parecidas comparando su hash perceptual.
+   * A las fotos sin hash se les calcula desde su thumbnail (generándolo si
+   * falta) y se guarda para próximas búsquedas.
+   * @param maxDistance Bits distintos tolerados entre dos fotos del grupo
+   */
+  async findSimilarPhotoGroups(
+    maxDistance: number = SIMILAR_PHOTO_MAX_DISTANCE,
+    onProgress?: (progress: DuplicateScanProgress) => void,
+  ): Promise<SimilarPhotoGroup[]> {
+    try {
+      this.ensureDbInitialized();
+
+      const candidates = await this.fileRepo.findSimilarPhotoCandidates();
+      await this.fillMissingPerceptualHashes(candidates, onProgress);
+
+      const photos = candidates.filter((file) => file.metadata.perceptualHash);
+      const clusters = await this.clusterByPerceptualHash(photos, maxDistance);
+
+      const folderPaths = new Map<UUID, string[]>();
+      const groups: SimilarPhotoGroup[] = [];
+
+      for (const files of clusters) {
+        const first = files[0]!;
+        const copies: DuplicateFileCopy[] = [];
+        for (const file of files) {
+          copies.push({
+            file: FileFactory.fromJSON(file),
+            folderPath: await this.resolveFolderPath(
+              file.folderId,
+              folderPaths,
+            ),
+          });
+        }
+
+        groups.push({
+          id: first.id,
+          maxDistance: Math.max(
+            ...files.map((file) =>
+              hammingDistance(
+                first.metadata.perceptualHash!,
+                file.metadata.perceptualHash!,
+              ),
+            ),
+          ),
+          photos: copies,
+        });
+      }
+
+      return groups.sort((a, b) => b.photos.length - a.photos.length);
+    } catch (error) {
+      return this.handleError(error, "buscar fotos parecidas");
+    }
+  }
+
+  /**
+   * Mueve a la papelera las fotos descartadas de un grupo de fotos parecidas.
+   * Sus tags se añaden a las fotos conservadas.
+   * @returns Las fotos conservadas con sus tags actualizados
+   */
+  async resolveSimilarPhotos(
+    keepFileIds: UUID[],
+    removeFileIds: UUID[],
+  ): Promise<FileModel[]> {
+    try {
+      this.ensureDbInitialized();
+
+      if (keepFileIds.length === 0) {
+        throw new Error("Hay que conservar al menos una foto");
+      }
+
+      const keptFiles: File[] = [];
+      for (const fileId of keepFileIds) {
+        const file = await this.fileRepo.findById(fileId);
+        if (!file) throw new Error("Archivo no encontrado");
+        keptFiles.push(file);
+      }
+
+      const removedFiles: File[] = [];
+      for (const fileId of removeFileIds) {
+        if (keepFileIds.includes(fileId)) continue;
+
+        const file = await this.fileRepo.findById(fileId);
+        if (!file) throw new Error("Archivo no encontrado");
+        removedFiles.push(file);
+      }
+
+      return await this.keepAndTrash(keptFiles, removedFiles);
+    } catch (error) {
+      return this.handleError(error, "eliminar fotos parecidas");
+    }
+  }
+
+  /**
+   * Añade a los archivos conservados los tags de los descartados que no
+   * tengan y mueve los descartados a la papelera.
+   */
+  private async keepAndTrash(
+    keptFiles: File[],
+    removedFiles: File[],
+  ): Promise<FileModel[]> {
+    const removedTagIds = [
+      ...new Set(removedFiles.flatMap((file) => file.tagIds)),
+    ];
+
+    const results: FileModel[] = [];
+    for (const keptFile of keptFiles) {
+      const missingTagIds = removedTagIds.filter(
+        (tagId) => !keptFile.tagIds.includes(tagId),
+      );
+
+      results.push(
+        missingTagIds.length > 0
+          ? await this.fileService.addTagsToFile(keptFile.id, missingTagIds)
+          : FileFactory.fromJSON(keptFile),
+      );
+    }
+
+    for (const file of removedFiles) {
+      await this.fileService.deleteFile(file.id);
+    }
+
+    return results;
+  }
+
+  /**
+   * Calcula y guarda el checksum de los candidatos que no lo tienen.
+   * Cede el hilo entre archivos para que la UI pueda pintar el progreso; los
+   * archivos grandes se leen por bloques y también lo ceden entre bloques.
+   */
+  private async fillMissingChecksums(
+    files: File[],
+    onProgress?: (progress: DuplicateScanProgress) => void,
+  ): Promise<void> {
+    const pending = files.filter((file) => !file.metadata.checksum);
+
+    for (const [index, file] of pending.entries()) {
+      onProgress?.({ processed: index, total: pending.length });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const uri = file.storageUrl ?? this.fs.resolveUri(file.path);
+      const result = await this.fs.getFileChecksum(uri);
+      if (!result.success || !result.data) {
+        console.warn(
+          `No se pudo calcular el checksum de ${file.name}: ${result.error}`,
+        );
+        continue;
+      }
+
+      await this.fileRepo.updateChecksum(file.id, result.data);
+      file.metadata.checksum = result.data;
+    }
+
+    if (pending.length > 0) {
+      onProgress?.({ processed: pending.length, total: pending.length });
+    }
+  }
+
+  /**
+   * Calcula y guarda el hash perceptual de las fotos que no lo tienen,
+   * generando antes el thumbnail si aún no existe.
+   */
+  private async fillMissingPerceptualHashes(
+    files: File[],
+    onProgress?: (progress: DuplicateScanProgress) => void,
+  ): Promise<void> {
+    const pending = files.filter((file) => !file.metadata.perceptualHash);
+
+    for (const [index, file] of pending.entries()) {
+      onProgress?.({ processed: index, total: pending.length });
+
+      const thumbnailUrl =
+        file.thumbnailUrl ??
+        (await this.fileService.ensureThumbnail(FileFactory.fromJSON(file)))
+          .thumbnailUrl;
+      if (!thumbnailUrl) continue;
+
+      const result = await this.media.computePerceptualHash(thumbnailUrl);
+      if (!result.success || !result.data) {
+        console.warn(
+          `No se pudo calcular el hash perceptual de ${file.name}: ${result.error}`,
+        );
+        continue;
+      }
+
+      await this.fileRepo.updatePerceptualHash(file.id, result.data);
+      file.metadata.perceptualHash = result.data;
+    }
+
+    if (pending.length > 0) {
+      onProgress?.({ processed: pending.length, total: pending.length });
+    }
+  }
+
+  /**
+   * Agrupa las fotos cuyo hash está a `maxDistance` bits o menos de otra foto
+   * del grupo (componentes conexas). Compara todas las parejas, cediendo el
+   * hilo entre filas para no bloquear la UI en bibliotecas grandes.
+   */
+  private async clusterByPerceptualHash(
+    files: File[],
+    maxDistance: number,
+  ): Promise<File[][]> {
+    const parent = files.map((_, index) => index);
+    const findRoot = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]!]!;
+        index = parent[index]!;
+      }
+      return index;
+    };
+
+    for (let i = 0; i < files.length; i++) {
+      if (i % 200 === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+
+      for (let j = i + 1; j < files.length; j++) {
+        const distance = hammingDistance(
+          files[i]!.metadata.perceptualHash!,
+          files[j]!.metadata.perceptualHash!,
+        );
+        if (distance <= maxDistance) {
+          parent[findRoot(j)] = findRoot(i);
+        }
+      }
+    }
+
+    const clusters = new Map<number, File[]>();
+    files.forEach((file, index) => {
+      const root = findRoot(index);
+      clusters.set(root, [...(clusters.get(root) ?? []), file]);
+    });
+
+    return [...clusters.values()].filter((cluster) => cluster.length > 1);
+  }
+
+  private async resolveFolderPath(
+    folderId: UUID | undefined,
+    cache: Map<UUID, string[]>,
+  ): Promise<string[]> {
+    if (!folderId) return [];
+
+    const cached = cache.get(folderId);
+    if (cached) return cached;
+
+    const path = await this.folderService.getFolderPath(folderId);
+    cache.set(folderId, path);
+    return path;
+  }
+}
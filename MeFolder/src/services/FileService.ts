@@ -1,5 +1,11 @@
 import { BaseService } from "./base/BaseService";
-import { File, CreateFileInput, FileStatus } from "../types/entities/file";
+import {
+  File,
+  CreateFileInput,
+  CreateNoteInput,
+  FileStatus,
+  UpdateFileInput,
+} from "../types/entities/file";
 import { UUID } from "../types/common/base";
 import { FileModel, FileFactory } from "../models/file";
 import { ROOT_FOLDER_ID } from "../database/seeds/systemFolders";
@@ -7,10 +13,15 @@ import { FileSystemService } from "./filesystem/FileSystemService";
 import { SYSTEM_TAG_IDS } from "@/database/seeds/systemTags";
 import { dropFilesTable } from "@/database/migrations/files";
 import { dropFoldersTable } from "@/database/migrations/folders";
+import { dropJobsTable } from "@/database/migrations/jobs";
 import { dropTagsSystem } from "@/database/migrations/tags";
+import { dropSearchIndex } from "@/database/migrations/search";
+import { dropSmartFoldersTable } from "@/database/migrations/smartFolders";
 import { dropUserColorsTable } from "@/database/migrations/userColors";
+import { resetSchemaVersion } from "@/database/migrations";
 import { MediaService } from "./media/MediaService";
 import { MAX_WINDOWS_ITEM_NAME_LENGTH } from "@/constants/validation";
+import { EXTENSION_MIME_MAP } from "@/types/common/file-extensions";
 
 type StorageUsageGroup = "image" | "video" | "audio" | "documents" | "other";
 
@@ -61,6 +72,83 @@ export class FileService extends BaseService {
     }
   }
 
+  /**
+   * Crea una nota de texto (.txt o .md) en la carpeta indicada: escribe el
+   * archivo en disco y lo registra. Falla si ya hay un archivo con ese nombre.
+   */
+  async createNote(input: CreateNoteInput): Promise<FileModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const trimmedName = input.name.trim();
+      if (!trimmedName) {
+        throw new Error("El nombre de la nota no puede estar vacío");
+      }
+
+      const fileName = `${trimmedName}.${input.extension}`;
+      if (fileName.length > MAX_WINDOWS_ITEM_NAME_LENGTH) {
+        throw new Error(
+          `El nombre del archivo no puede superar ${MAX_WINDOWS_ITEM_NAME_LENGTH} caracteres`,
+        );
+      }
+
+      const folderId = input.folderId || ROOT_FOLDER_ID;
+      const folder = await this.validateTargetFolder(folderId);
+      await this.validateUniqueFileName(fileName, folderId);
+
+      const uri = this.fs.resolveUri(`${folder.path}/${fileName}`);
+      const written = this.fs.writeFile({ uri, content: input.content ?? "" });
+      if (!written.success) {
+        throw new Error(written.error ?? "No se pudo escribir la nota");
+      }
+
+      try {
+        return await this.createFile({
+          name: fileName,
+          originalName: fileName,
+          extension: input.extension,
+          folderId,
+          visibility: "public",
+          metadata: {
+            size: this.fs.getFileInfo(uri).data?.size ?? 0,
+            mimeType: EXTENSION_MIME_MAP[input.extension],
+          },
+          storageUrl: uri,
+        });
+      } catch (error) {
+        this.fs.deleteFile(uri);
+        throw error;
+      }
+    } catch (error) {
+      return this.handleError(error, "crear nota");
+    }
+  }
+
+  /**
+   * Sobrescribe el contenido de un archivo de texto y actualiza su tamaño y
+   * fecha de modificación en la base de datos.
+   */
+  async updateTextContent(fileId: UUID, content: string): Promise<FileModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const file = await this.fileRepo.findById(fileId);
+      if (!file) throw new Error("Archivo no encontrado");
+
+      const uri = file.storageUrl ?? this.fs.resolveUri(file.path);
+      const written = this.fs.writeFile({ uri, content });
+      if (!written.success) {
+        throw new Error(written.error ?? "No se pudo guardar el archivo");
+      }
+
+      const size = this.fs.getFileInfo(uri).data?.size ?? 0;
+      const updated = await this.fileRepo.updateContentInfo(fileId, size);
+      return FileFactory.fromJSON(updated);
+    } catch (error) {
+      return this.handleError(error, "guardar archivo");
+    }
+  }
+
   /**
    * Genera y persiste el thumbnail de un archivo si no lo tiene.
    * Devuelve el FileModel actualizado (con thumbnailUrl) o el original si falla.
@@ -120,6 +208,20 @@ export class FileService extends BaseService {
     }
   }
 
+  /**
+   * Actualizar visibilidad, color o estado de un archivo
+   */
+  async updateFile(fileId: UUID, input: UpdateFileInput): Promise<FileModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const updated = await this.fileRepo.update(fileId, input);
+      return FileFactory.fromJSON(updated);
+    } catch (error) {
+      return this.handleError(error, "actualizar archivo");
+    }
+  }
+
   async fileExists(fileId: UUID): Promise<boolean> {
     try {
       this.ensureDbInitialized();
@@ -234,6 +336,56 @@ export class FileService extends BaseService {
     }
   }
 
+  /**
+   * Envía a la papelera un archivo que va a ser sustituido por otro con el
+   * mismo nombre. Antes del borrado lógico se renombra (en BD y en disco) con
+   * el sufijo "(reemplazado)" para liberar su ruta; al restaurarlo desde la
+   * papelera conserva ese nombre y no choca con el archivo nuevo.
+   */
+  async trashFileForReplacement(fileId: UUID): Promise<boolean> {
+    try {
+      this.ensureDbInitialized();
+
+      const file = await this.fileRepo.findById(fileId);
+      if (!file) throw new Error("Archivo no encontrado");
+
+      const folderPath = this.removeLastPathSegment(file.path);
+      const { baseName, extensionSuffix } = this.splitFileName(file.name);
+      let replacedName = `${baseName} (reemplazado)${extensionSuffix}`;
+      for (
+        let index = 2;
+        this.fs.fileExists(this.fs.resolveUri(`${folderPath}/${replacedName}`));
+        index++
+      ) {
+        replacedName = `${baseName} (reemplazado ${index})${extensionSuffix}`;
+      }
+
+      const replacedPath = `${folderPath}/${replacedName}`;
+      const moveResult = this.fs.moveFile({
+        from: file.storageUrl ?? this.fs.resolveUri(file.path),
+        to: this.fs.resolveUri(replacedPath),
+      });
+      if (!moveResult.success || !moveResult.toUri) {
+        throw new Error(
+          moveResult.error ?? "No se pudo apartar el archivo reemplazado",
+        );
+      }
+
+      await this.fileRepo.renameFile(fileId, replacedName, replacedPath);
+      await this.fileRepo.updateLocation(
+        fileId,
+        file.folderId || ROOT_FOLDER_ID,
+        replacedPath,
+        moveResult.toUri,
+      );
+      await this.fileRepo.delete(fileId);
+
+      return true;
+    } catch (error) {
+      return this.handleError(error, "reemplazar archivo");
+    }
+  }
+
   /**
    *  Marca un archivo como favorito
    */
@@ -348,10 +500,14 @@ export class FileService extends BaseService {
     try {
       this.ensureDbInitialized();
 
+      await dropSearchIndex();
+      await dropJobsTable();
+      await dropSmartFoldersTable();
       await dropTagsSystem();
       await dropFilesTable();
       await dropFoldersTable();
       await dropUserColorsTable();
+      await resetSchemaVersion();
 
       const directoryCandidates = [
         this.fs.resolveUri("root"),
@@ -69,6 +69,20 @@ export class TagService extends BaseService {
     }
   }
 
+  /**
+   * Obtener un tag activo por su nombre exacto; null si no existe
+   */
+  async getTagByName(name: string): Promise<TagModel | null> {
+    try {
+      this.ensureDbInitialized();
+
+      const tag = await this.tagRepo.findByName(sanitizeTagName(name));
+      return tag ? TagFactory.fromJSON(tag) : null;
+    } catch (error) {
+      return this.handleError(error, "obtener tag por nombre");
+    }
+  }
+
   /**
    * Obtener tags por IDs
    */
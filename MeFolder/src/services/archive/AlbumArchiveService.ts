@@ -4,6 +4,7 @@ import {
   SYSTEM_GALLERY_FOLDER_ID,
 } from "@/database/seeds/systemFolders";
 import { FileModel } from "@/models/file";
+import type { FolderModel } from "@/models/folder";
 import type {
   ArchiveCreatedRecord,
   ArchiveOperationError,
@@ -29,16 +30,19 @@ import {
 } from "../media/MediaImportService";
 import { TagService } from "../TagService";
 import { ArchiveService } from "./ArchiveService";
+import { OperationCancelledError, throwIfCancelled } from "@/utils/errors";
 import { sanitizeFileName } from "@/utils/format/name";
 import {
-  buildArchiveEntries,
+  type ArchiveContent,
+  buildArchiveEntriesFromDeclared,
   getParentArchivePath,
-  indexZipFiles,
   joinArchivePath,
-  loadZipFromUri,
   normalizeArchivePath,
+  openZipArchiveContent,
   validateArchiveFutureOptions,
+  writeArchiveEntryToFile,
 } from "./archiveUtils";
+import { isFolderManifestPath } from "./folderManifest";
 
 const LEGACY_ALBUM_MANIFEST_FILE_NAME = ".album.json";
 
@@ -81,6 +85,8 @@ export class AlbumArchiveService {
           ? { futureOptions: params.futureOptions }
           : {}),
         ...(params.onProgress ? { onProgress: params.onProgress } : {}),
+        ...(params.signal ? { signal: params.signal } : {}),
+        ...(params.volumeSize ? { volumeSize: params.volumeSize } : {}),
         ...(params.visibility ? { visibility: params.visibility } : {}),
       });
 
@@ -103,6 +109,14 @@ export class AlbumArchiveService {
       const archiveUri =
         archiveFile.storageUrl ?? this.fs.resolveUri(archiveFile.path);
 
+      const volumeUris: string[] = [];
+      for (const volume of archiveResult.data.volumes ?? []) {
+        const volumeFile = await this.fileService.getFile(volume.id);
+        volumeUris.push(
+          volumeFile.storageUrl ?? this.fs.resolveUri(volumeFile.path),
+        );
+      }
+
       return {
         success: true,
         data: {
@@ -110,6 +124,7 @@ export class AlbumArchiveService {
           albumId: params.albumId,
           albumName: album.name,
           archiveUri,
+          ...(volumeUris.length > 0 ? { volumeUris } : {}),
         },
       };
     } catch (error) {
@@ -127,7 +142,12 @@ export class AlbumArchiveService {
     params: ImportAlbumArchiveParams,
   ): Promise<ArchiveOperationResult<ImportAlbumArchiveSummary>> {
     let createdAlbumId: UUID | null = null;
-    let createdFolderId: UUID | null = null;
+    // Carpetas y archivos nuevos, para deshacer solo lo de esta importación
+    // cuando se fusiona en un álbum que ya tenía contenido.
+    const createdFolderIds: UUID[] = [];
+    const writtenUris: string[] = [];
+    const registeredFileIds: UUID[] = [];
+    let archive: ArchiveContent | undefined;
 
     try {
       const optionError = validateArchiveFutureOptions(params.futureOptions);
@@ -135,7 +155,20 @@ export class AlbumArchiveService {
         return this.fail(optionError);
       }
 
-      const albumName = this.removeExtension(params.archiveFile.name).trim();
+      const targetAlbum = params.targetAlbumId
+        ? await this.tagService.getTag(params.targetAlbumId)
+        : null;
+      if (targetAlbum && !targetAlbum.isAlbum()) {
+        return this.fail({
+          code: "invalid_archive",
+          message: "Solo se puede fusionar el ZIP en un álbum",
+        });
+      }
+
+      const merging = targetAlbum !== null;
+      const albumName =
+        targetAlbum?.name ??
+        this.removeExtension(params.archiveFile.name).trim();
       const destinationParentId =
         params.destinationFolderId ?? SYSTEM_GALLERY_FOLDER_ID;
 
@@ -146,27 +179,34 @@ export class AlbumArchiveService {
         currentEntryName: params.archiveFile.name,
       });
 
-      const availabilityError = await this.ensureImportAvailability(
-        albumName,
-        destinationParentId,
-      );
-      if (availabilityError) {
-        return this.fail(availabilityError);
+      if (!merging) {
+        const availabilityError = await this.ensureImportAvailability(
+          albumName,
+          destinationParentId,
+        );
+        if (availabilityError) {
+          return this.fail(availabilityError);
+        }
       }
 
-      const zipResult = await loadZipFromUri(this.fs, params.archiveFile.uri);
-      if (!zipResult.success || !zipResult.data) {
+      const archiveResult = await openZipArchiveContent(
+        this.fs,
+        params.archiveFile.uri,
+        params.futureOptions?.password,
+      );
+      if (!archiveResult.success || !archiveResult.data) {
         return this.fail(
-          zipResult.error ?? {
+          archiveResult.error ?? {
             code: "invalid_archive",
             message: "No se pudo leer el ZIP del álbum",
           },
         );
       }
 
-      const zip = zipResult.data;
-      const entries = buildArchiveEntries(zip, (path) =>
-        this.shouldSkipImportEntry(path),
+      archive = archiveResult.data;
+      const entries = buildArchiveEntriesFromDeclared(
+        archive.declaredEntries,
+        (path) => this.shouldSkipImportEntry(path),
       );
       const directoryEntries = entries.filter(
         (entry) => entry.type === "directory",
@@ -180,36 +220,45 @@ export class AlbumArchiveService {
         });
       }
 
-      const destinationFolder = await this.folderService.createFolder({
-        name: albumName,
-        parentId: destinationParentId,
-      });
-      createdFolderId = destinationFolder.id;
+      const destinationFolder = await this.resolveImportFolder(
+        albumName,
+        destinationParentId,
+        merging,
+        createdFolderIds,
+      );
 
-      const destinationFolderUri = this.fs.resolveUri(destinationFolder.path);
-      const ensureRootResult = this.fs.ensureDirectory(destinationFolderUri);
-      if (!ensureRootResult.success) {
-        throw new Error(
-          ensureRootResult.error ??
-            "No se pudo preparar la carpeta destino del álbum importado",
-        );
+      const album =
+        targetAlbum ??
+        (await this.tagService.createAlbum({
+          name: albumName,
+          color: this.pickRandomSystemColor(),
+        }));
+      if (!targetAlbum) {
+        createdAlbumId = album.id;
       }
 
-      const album = await this.tagService.createAlbum({
-        name: albumName,
-        color: this.pickRandomSystemColor(),
-      });
-      createdAlbumId = album.id;
+      const albumIndex = merging
+        ? await this.buildAlbumContentIndex(album.id)
+        : null;
+      const usedNamesByFolder = new Map<UUID, Set<string>>();
+      const getUsedNames = async (folderId: UUID) => {
+        let usedNames = usedNamesByFolder.get(folderId);
+        if (!usedNames) {
+          const files = await this.fileService.getFilesInFolder(folderId);
+          usedNames = new Set(files.map((file) => file.name));
+          usedNamesByFolder.set(folderId, usedNames);
+        }
+        return usedNames;
+      };
 
       const folderMap = new Map<string, ArchiveCreatedRecord>();
-      const indexedFiles = indexZipFiles(zip, (path) =>
-        this.shouldSkipImportEntry(path),
-      );
       const extractedFiles: RegisterExistingMediaFile[] = [];
       const totalEntries = directoryEntries.length + fileEntries.length * 2;
       let processedEntries = 0;
+      let skippedFileCount = 0;
 
       for (const directoryEntry of directoryEntries) {
+        throwIfCancelled(params.signal);
         const parentArchivePath = getParentArchivePath(directoryEntry.path);
         const parentFolderId = parentArchivePath
           ? folderMap.get(parentArchivePath)?.id
@@ -221,19 +270,12 @@ export class AlbumArchiveService {
           );
         }
 
-        const createdFolder = await this.folderService.createFolder({
-          name: directoryEntry.name,
-          parentId: parentFolderId,
-        });
-
-        const createdFolderUri = this.fs.resolveUri(createdFolder.path);
-        const ensureResult = this.fs.ensureDirectory(createdFolderUri);
-        if (!ensureResult.success) {
-          throw new Error(
-            ensureResult.error ??
-              `No se pudo crear el directorio ${directoryEntry.name}`,
-          );
-        }
+        const createdFolder = await this.resolveImportFolder(
+          directoryEntry.name,
+          parentFolderId,
+          merging,
+          createdFolderIds,
+        );
 
         folderMap.set(directoryEntry.path, {
           id: createdFolder.id,
@@ -251,8 +293,8 @@ export class AlbumArchiveService {
       }
 
       for (const fileEntry of fileEntries) {
-        const zipEntry = indexedFiles.get(fileEntry.path);
-        if (!zipEntry) {
+        throwIfCancelled(params.signal);
+        if (!archive.hasFile(fileEntry.path)) {
           throw new Error(
             `No se encontró la entrada ${fileEntry.path} dentro del ZIP`,
           );
@@ -272,21 +314,51 @@ export class AlbumArchiveService {
           );
         }
 
-        const safeFileName = sanitizeFileName(fileEntry.name);
+        const reportFileProgress = () => {
+          processedEntries += 1;
+          params.onProgress?.({
+            phase: "extract",
+            processedEntries,
+            totalEntries,
+            currentEntryName: fileEntry.path,
+          });
+        };
+
+        if (
+          albumIndex &&
+          fileEntry.size !== undefined &&
+          albumIndex.hasNameAndSize(fileEntry.name, fileEntry.size)
+        ) {
+          skippedFileCount += 1;
+          reportFileProgress();
+          continue;
+        }
+
+        const safeFileName = merging
+          ? this.ensureUniqueArchivePath(
+              sanitizeFileName(fileEntry.name),
+              await getUsedNames(parentFolderId),
+            )
+          : sanitizeFileName(fileEntry.name);
         const targetUri = this.fs.resolveUri(
           joinArchivePath(parentFolderPath, safeFileName),
         );
-        const base64Content = await zipEntry.async("base64");
-        const writeResult = this.fs.writeFile({
-          uri: targetUri,
-          content: base64Content,
-          encoding: "base64",
-        });
-
-        if (!writeResult.success) {
-          throw new Error(
-            writeResult.error ?? `No se pudo escribir ${fileEntry.name}`,
-          );
+        await writeArchiveEntryToFile(
+          this.fs,
+          archive,
+          fileEntry.path,
+          targetUri,
+          () => throwIfCancelled(params.signal),
+        );
+        writtenUris.push(targetUri);
+
+        if (albumIndex && (await albumIndex.hasContent(targetUri))) {
+          this.fs.deleteFile(targetUri);
+          writtenUris.pop();
+          (await getUsedNames(parentFolderId)).delete(safeFileName);
+          skippedFileCount += 1;
+          reportFileProgress();
+          continue;
         }
 
         extractedFiles.push({
@@ -300,15 +372,10 @@ export class AlbumArchiveService {
           tagIds: [album.id],
         });
 
-        processedEntries += 1;
-        params.onProgress?.({
-          phase: "extract",
-          processedEntries,
-          totalEntries,
-          currentEntryName: fileEntry.path,
-        });
+        reportFileProgress();
       }
 
+      throwIfCancelled(params.signal);
       const persistedFiles =
         await this.mediaImportService.registerExistingFiles({
           files: extractedFiles,
@@ -326,6 +393,9 @@ export class AlbumArchiveService {
             });
           },
         });
+      registeredFileIds.push(
+        ...persistedFiles.importedFiles.map((file) => file.id),
+      );
 
       if (persistedFiles.failed.length > 0) {
         throw new Error(
@@ -352,19 +422,19 @@ export class AlbumArchiveService {
             path: destinationFolder.path,
           },
           importedFileCount: persistedFiles.importedFiles.length,
+          skippedFileCount,
+          merged: merging,
           thumbnailCount: persistedFiles.importedFiles.filter((file) =>
             Boolean(file.thumbnailUrl),
           ).length,
         },
       };
     } catch (error) {
-      if (createdFolderId) {
-        try {
-          await this.folderService.permanentDeleteFolder(createdFolderId);
-        } catch {
-          // Ignorado: el rollback es best-effort.
-        }
-      }
+      await this.rollbackImport(
+        registeredFileIds,
+        writtenUris,
+        createdFolderIds,
+      );
 
       if (createdAlbumId) {
         try {
@@ -375,12 +445,131 @@ export class AlbumArchiveService {
       }
 
       return this.fail({
-        code: "unknown",
+        code:
+          error instanceof OperationCancelledError ? "cancelled" : "unknown",
         message:
           error instanceof Error
             ? error.message
             : "No se pudo importar el álbum desde ZIP",
       });
+    } finally {
+      archive?.close();
+    }
+  }
+
+  /**
+   * Devuelve la carpeta `name` dentro de `parentId`. Al fusionar se reutiliza
+   * si ya existe; las que se crean se anotan en `createdFolderIds`.
+   */
+  private async resolveImportFolder(
+    name: string,
+    parentId: UUID,
+    reuseExisting: boolean,
+    createdFolderIds: UUID[],
+  ): Promise<FolderModel> {
+    if (reuseExisting) {
+      const subfolders = await this.folderService.getSubfolders(parentId);
+      const existing = subfolders.find((folder) => folder.name === name);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    const folder = await this.folderService.createFolder({ name, parentId });
+    createdFolderIds.push(folder.id);
+
+    const ensureResult = this.fs.ensureDirectory(
+      this.fs.resolveUri(folder.path),
+    );
+    if (!ensureResult.success) {
+      throw new Error(
+        ensureResult.error ?? `No se pudo crear el directorio ${name}`,
+      );
+    }
+
+    return folder;
+  }
+
+  /**
+   * Índice de lo que ya tiene un álbum para detectar repetidos al fusionar.
+   * Los checksums solo se calculan para los archivos del mismo tamaño que el
+   * candidato y se recuerdan para el resto de la importación.
+   */
+  private async buildAlbumContentIndex(albumId: UUID) {
+    const files = await this.tagService.getFilesInTag(albumId);
+    const toNameSizeKey = (name: string, size: number) =>
+      `${name.toLowerCase()}:${size}`;
+    const nameSizeKeys = new Set(
+      files.map((file) => toNameSizeKey(file.name, file.metadata.size)),
+    );
+    const filesBySize = new Map<number, FileModel[]>();
+    for (const file of files) {
+      filesBySize.set(file.metadata.size, [
+        ...(filesBySize.get(file.metadata.size) ?? []),
+        file,
+      ]);
+    }
+    const checksums = new Map<UUID, string | null>();
+    const getChecksum = async (file: FileModel) => {
+      if (file.metadata.checksum) return file.metadata.checksum;
+      if (!checksums.has(file.id)) {
+        const result = await this.fs.getFileChecksum(
+          file.storageUrl ?? this.fs.resolveUri(file.path),
+        );
+        checksums.set(file.id, result.data ?? null);
+      }
+      return checksums.get(file.id) ?? null;
+    };
+
+    return {
+      hasNameAndSize: (name: string, size: number) =>
+        nameSizeKeys.has(toNameSizeKey(sanitizeFileName(name), size)),
+      /** Compara el contenido de `uri` con los del álbum de su mismo tamaño */
+      hasContent: async (uri: string) => {
+        const info = this.fs.getFileInfo(uri);
+        const candidates = info.data
+          ? (filesBySize.get(info.data.size) ?? [])
+          : [];
+        if (candidates.length === 0) return false;
+
+        const checksum =
+          info.data?.md5 ?? (await this.fs.getFileChecksum(uri)).data;
+        if (checksum === undefined) return false;
+        for (const file of candidates) {
+          if ((await getChecksum(file)) === checksum) return true;
+        }
+        return false;
+      },
+    };
+  }
+
+  /** Deshace una importación fallida o cancelada; es best-effort. */
+  private async rollbackImport(
+    registeredFileIds: UUID[],
+    writtenUris: string[],
+    createdFolderIds: UUID[],
+  ): Promise<void> {
+    for (const fileId of registeredFileIds) {
+      try {
+        await this.fileService.permanentDeleteFile(fileId);
+      } catch {
+        // Ignorado: el rollback es best-effort.
+      }
+    }
+
+    for (const uri of writtenUris) {
+      if (this.fs.fileExists(uri)) {
+        this.fs.deleteFile(uri);
+      }
+    }
+
+    // De las más profundas a la raíz, para no borrar un padre antes que sus hijas.
+    for (const folderId of [...createdFolderIds].reverse()) {
+      try {
+        await this.folderService.permanentDeleteFolder(folderId);
+      } catch {
+        // Ignorado: el rollback es best-effort.
+      }
     }
   }
 
@@ -461,6 +650,7 @@ export class AlbumArchiveService {
     return (
       normalizedPath === LEGACY_ALBUM_MANIFEST_FILE_NAME ||
       normalizedPath.endsWith(`/${LEGACY_ALBUM_MANIFEST_FILE_NAME}`) ||
+      isFolderManifestPath(normalizedPath) ||
       normalizedPath.startsWith(".thumbnails/") ||
       normalizedPath.includes("/.thumbnails/")
     );
@@ -1,25 +1,33 @@
-import JSZip from "jszip";
 import { ROOT_FOLDER_ID } from "@/database/seeds/systemFolders";
 import { FileModel, FolderModel } from "@/models";
 import type {
   ArchiveConflict,
+  ArchiveConflictAction,
   ArchiveCreatedRecord,
   ArchiveCreationSummary,
+  ArchiveEncryptionMethod,
+  ArchiveEntryConflict,
   ArchiveEntryDescriptor,
+  ArchiveEntryPreview,
   ArchiveExtractMode,
   ArchiveExtractionSummary,
   ArchiveFormat,
   ArchiveInspection,
   ArchiveOperationError,
   ArchiveOperationResult,
+  ArchiveOverwriteMode,
   ArchiveSourceFile,
   ArchiveVirtualEntry,
+  BrowseArchiveParams,
   CreateArchiveFromFilesParams,
   CreateArchiveFromFolderParams,
   CreateFileInput,
+  ExtractArchiveEntryToCacheParams,
   ExtractArchiveParams,
   FileMetadata,
   FileVisibility,
+  FolderArchiveManifest,
+  FolderManifestRestoreSummary,
   FolderVisibility,
   InspectArchiveParams,
   SupportedArchiveFormat,
@@ -30,22 +38,52 @@ import {
   FILE_CATEGORY_MAP,
   type FileExtension,
 } from "@/types/common/file-extensions";
+import { OperationCancelledError, throwIfCancelled } from "@/utils/errors";
 import { sanitizeFileName, sanitizeFolderName } from "@/utils/format/name";
 import { FileService } from "../FileService";
 import { FolderService } from "../FolderService";
 import { FileSystemService } from "../filesystem/FileSystemService";
 import { MediaImportService } from "../media/MediaImportService";
+import { TagService } from "../TagService";
 import {
-  buildArchiveEntries,
+  type ArchiveContent,
+  type ArchiveDeclaredEntry,
+  buildArchiveEntriesFromDeclared,
   getParentArchivePath,
-  indexZipFiles,
+  isArchivePathWithin,
   joinArchivePath,
-  loadZipFromUri,
   normalizeArchivePath,
+  openTarArchiveContent,
+  openZipArchiveContent,
+  resolveArchiveEntryLevel,
+  selectArchiveEntries,
   validateArchiveFutureOptions,
+  writeArchiveEntryToFile,
 } from "./archiveUtils";
-
-const SUPPORTED_FORMATS: readonly SupportedArchiveFormat[] = ["zip"];
+import {
+  buildArchiveVolumeName,
+  joinVolumes,
+  parseArchiveVolumeName,
+  splitIntoVolumes,
+} from "./archiveVolumes";
+import {
+  FOLDER_MANIFEST_FORMAT,
+  FOLDER_MANIFEST_VERSION,
+  buildFolderManifestPath,
+  findFolderManifestEntry,
+  parseFolderManifest,
+  withoutFolderManifest,
+} from "./folderManifest";
+import { GzipStreamWriter } from "./gzip";
+import { TarStreamWriter } from "./tarArchive";
+import { ZipEncryptionError } from "./zipEncryption";
+import { type ZipStreamEncryption, ZipStreamWriter } from "./zipStream";
+
+const SUPPORTED_FORMATS: readonly SupportedArchiveFormat[] = [
+  "zip",
+  "tar",
+  "gz",
+];
 
 /**
  * Límites defensivos frente a "ZIP bombs" (archivos maliciosos que se expanden
@@ -79,23 +117,60 @@ interface PreparedArchiveFileEntry {
   sourceFile: ArchiveSourceFile;
 }
 
+/** Archivo que se va a añadir al comprimido, ya resuelto a su URI física */
+interface ArchiveOutputSource {
+  zipPath: string;
+  uri: string;
+  name: string;
+  size: number;
+}
+
 interface CollectedArchiveFiles {
   directories: string[];
   files: PreparedArchiveFileEntry[];
+  /** Modelos recorridos, con su ruta en el comprimido, para el manifiesto */
+  folderModels: { zipPath: string; folder: FolderModel }[];
+  fileModels: { zipPath: string; file: FileModel }[];
 }
 
 interface CreatedFolderContext {
   record: ArchiveCreatedRecord;
+  /** false si la entrada se ha fusionado con una carpeta que ya existía */
+  created: boolean;
   parentArchivePath?: string | undefined;
 }
 
+/** Contenido conocido de una carpeta destino durante la extracción. */
+interface DestinationListing {
+  folders: Map<string, FolderModel>;
+  files: Map<string, FileModel>;
+}
+
+/** Comprimido abierto en el explorador; se conserva para no releerlo en cada carpeta. */
+interface BrowsedArchive {
+  archiveFileId: UUID;
+  archive: ArchiveContent;
+  entries: ArchiveEntryDescriptor[];
+  password?: string | undefined;
+}
+
+/** Estado compartido para resolver conflictos a lo largo de una extracción. */
+interface ExtractionConflictContext {
+  listings: Map<UUID, DestinationListing>;
+  resolve: (conflict: ArchiveEntryConflict) => Promise<ArchiveConflictAction>;
+  mergedFolders: ArchiveCreatedRecord[];
+  replacedFiles: ArchiveCreatedRecord[];
+}
+
 export class ArchiveService {
   private readonly fs = new FileSystemService();
+  private browsedArchive: BrowsedArchive | null = null;
 
   constructor(
     private readonly fileService: FileService = new FileService(),
     private readonly folderService: FolderService = new FolderService(),
     private readonly mediaImportService: MediaImportService = new MediaImportService(),
+    private readonly tagService: TagService = new TagService(),
   ) {}
 
   /** Crea un ZIP a partir de una carpeta completa y lo registra en la BD. */
@@ -120,9 +195,16 @@ export class ArchiveService {
         params.destinationFolderId ?? sourceFolder.parentId ?? ROOT_FOLDER_ID;
 
       const collected = await this.collectFolderFiles(
-        sourceFolder.id,
+        sourceFolder,
         sourceFolder.name,
       );
+      const manifestPath = buildFolderManifestPath(sourceFolder.name);
+      // Si la carpeta ya trae un archivo con ese nombre, se respeta el suyo.
+      const manifest = collected.files.some(
+        (entry) => entry.zipPath === manifestPath,
+      )
+        ? null
+        : await this.buildFolderManifest(sourceFolder.name, collected);
 
       return this.createArchiveFromPreparedEntries({
         format,
@@ -130,9 +212,27 @@ export class ArchiveService {
         destinationFolderId,
         visibility: params.visibility ?? "private",
         compressionLevel: params.compressionLevel,
+        ...(params.futureOptions?.password
+          ? {
+              password: params.futureOptions.password,
+              encryption: params.futureOptions.encryption ?? "aes256",
+            }
+          : {}),
         ...(params.onProgress ? { onProgress: params.onProgress } : {}),
+        ...(params.signal ? { signal: params.signal } : {}),
+        ...(params.volumeSize ? { volumeSize: params.volumeSize } : {}),
         directories: collected.directories,
         files: collected.files,
+        ...(manifest
+          ? {
+              virtualEntries: [
+                {
+                  path: manifestPath,
+                  content: JSON.stringify(manifest, null, 2),
+                },
+              ],
+            }
+          : {}),
       });
     } catch (error) {
       return this.fail(this.toOperationError(error, "No se pudo crear el ZIP"));
@@ -163,7 +263,15 @@ export class ArchiveService {
         destinationFolderId,
         visibility: params.visibility ?? "private",
         compressionLevel: params.compressionLevel,
+        ...(params.futureOptions?.password
+          ? {
+              password: params.futureOptions.password,
+              encryption: params.futureOptions.encryption ?? "aes256",
+            }
+          : {}),
         ...(params.onProgress ? { onProgress: params.onProgress } : {}),
+        ...(params.signal ? { signal: params.signal } : {}),
+        ...(params.volumeSize ? { volumeSize: params.volumeSize } : {}),
         directories: params.rootFolderName ? [params.rootFolderName] : [],
         files: this.prepareArchiveFileEntries(
           params.files,
@@ -194,32 +302,52 @@ export class ArchiveService {
       const parentFolder = await this.folderService.getFolder(
         params.parentFolderId,
       );
-      const zip = await this.loadArchiveZip(params.archiveFile);
-      if (!zip.success || !zip.data) {
+      const archive = await this.openArchiveContent(
+        params.archiveFile,
+        format,
+        params.futureOptions?.password,
+      );
+      if (!archive.success || !archive.data) {
         return this.fail(
-          zip.error ?? {
+          archive.error ?? {
             code: "invalid_archive",
             message: "No se pudo abrir el archivo comprimido",
           },
         );
       }
 
+      // Para inspeccionar basta con el directorio; no se lee ningún contenido.
+      archive.data.close();
+
       // Rechazamos archivos peligrosos antes de exponer su estructura.
-      const safetyError = this.detectArchiveSafetyError(zip.data);
+      const safetyError = this.detectArchiveSafetyError(
+        archive.data.declaredEntries,
+      );
       if (safetyError) {
         return this.fail(safetyError);
       }
 
       const inspection = await this.buildInspection({
-        zip: zip.data,
+        declaredEntries: archive.data.declaredEntries,
+        encrypted: archive.data.encrypted,
         format,
         parentFolder,
         mode: params.mode,
         createFolderName: params.createFolderName,
         archiveFile: params.archiveFile,
+        partialEntries: params.futureOptions?.partialEntries,
+        overwriteMode: params.futureOptions?.overwriteMode,
       });
+      if (!inspection.success || !inspection.data) {
+        return this.fail(
+          inspection.error ?? {
+            code: "invalid_archive",
+            message: "No se pudo inspeccionar el archivo ZIP",
+          },
+        );
+      }
 
-      return { success: true, data: inspection };
+      return { success: true, data: inspection.data };
     } catch (error) {
       return this.fail(
         this.toOperationError(error, "No se pudo inspeccionar el archivo ZIP"),
@@ -235,6 +363,7 @@ export class ArchiveService {
     const rootCreatedFileIds: UUID[] = [];
     const createdFolders: ArchiveCreatedRecord[] = [];
     const createdFiles: ArchiveCreatedRecord[] = [];
+    let archive: ArchiveContent | undefined;
 
     try {
       const optionError = validateArchiveFutureOptions(params.futureOptions);
@@ -242,6 +371,15 @@ export class ArchiveService {
         return this.fail(optionError);
       }
 
+      if (params.futureOptions?.overwriteMode === "ask" && !params.onConflict) {
+        return this.fail({
+          code: "unsupported_option",
+          message:
+            'El modo de conflictos "preguntar" necesita un manejador onConflict',
+          unsupportedFeatures: ["advanced_overwrite_mode"],
+        });
+      }
+
       const format = this.resolveArchiveFormat(params.archiveFile);
       if (!this.isSupportedFormat(format)) {
         return this.failUnsupportedFormat(format);
@@ -250,34 +388,51 @@ export class ArchiveService {
       const parentFolder = await this.folderService.getFolder(
         params.parentFolderId,
       );
-      const zipResult = await this.loadArchiveZip(params.archiveFile);
-      if (!zipResult.success || !zipResult.data) {
+      const archiveResult = await this.openArchiveContent(
+        params.archiveFile,
+        format,
+        params.futureOptions?.password,
+      );
+      if (!archiveResult.success || !archiveResult.data) {
         return this.fail(
-          zipResult.error ?? {
+          archiveResult.error ?? {
             code: "invalid_archive",
             message: "No se pudo abrir el ZIP para extraerlo",
           },
         );
       }
 
-      const zip = zipResult.data;
+      archive = archiveResult.data;
+      const { encrypted, declaredEntries } = archive;
 
       // Primera barrera anti ZIP bomb / Zip Slip: validamos los tamaños y rutas
       // declarados en las cabeceras del ZIP antes de descomprimir nada.
-      const safetyError = this.detectArchiveSafetyError(zip);
+      const safetyError = this.detectArchiveSafetyError(declaredEntries);
       if (safetyError) {
         return this.fail(safetyError);
       }
 
-      const inspection = await this.buildInspection({
-        zip,
+      const inspectionResult = await this.buildInspection({
+        declaredEntries,
+        encrypted,
         format,
         parentFolder,
         mode: params.mode,
         createFolderName: params.createFolderName,
         archiveFile: params.archiveFile,
+        partialEntries: params.futureOptions?.partialEntries,
+        overwriteMode: params.futureOptions?.overwriteMode,
       });
+      if (!inspectionResult.success || !inspectionResult.data) {
+        return this.fail(
+          inspectionResult.error ?? {
+            code: "invalid_archive",
+            message: "No se pudo inspeccionar el ZIP antes de extraerlo",
+          },
+        );
+      }
 
+      const inspection = inspectionResult.data;
       if (!inspection.canExtract) {
         const firstConflict = inspection.conflicts[0];
         return this.fail({
@@ -289,34 +444,55 @@ export class ArchiveService {
       }
 
       const folderMap = new Map<string, CreatedFolderContext>();
+      // Archivos extraídos por ruta del comprimido, para aplicar el manifiesto.
+      const extractedFileIds = new Map<string, UUID>();
+      const conflictContext: ExtractionConflictContext = {
+        listings: new Map(),
+        resolve: this.createConflictResolver(
+          params.futureOptions?.overwriteMode,
+          params.onConflict,
+        ),
+        mergedFolders: [],
+        replacedFiles: [],
+      };
+      const skippedEntries: string[] = [];
       let destinationFolder = this.toRecord(parentFolder);
       let destinationFolderId = parentFolder.id;
       let destinationFolderPath = parentFolder.path;
+      let destinationCreated = false;
 
       if (params.mode === "create_folder") {
-        const containerFolder = await this.folderService.createFolder({
-          name: inspection.suggestedContainerName,
+        const container = await this.placeDirectoryEntry(conflictContext, {
           parentId: parentFolder.id,
+          parentPath: parentFolder.path,
+          name: inspection.suggestedContainerName,
+          archivePath: inspection.suggestedContainerName,
           visibility: parentFolder.visibility as FolderVisibility,
         });
 
-        const destinationUri = this.fs.resolveUri(containerFolder.path);
-        const dirResult = this.fs.ensureDirectory(destinationUri);
-        if (!dirResult.success) {
-          await this.folderService.permanentDeleteFolder(containerFolder.id);
-          return this.fail({
-            code: "unknown",
-            message:
-              dirResult.error ??
-              "No se pudo preparar la carpeta contenedora para extraer",
-          });
+        if (!container) {
+          return {
+            success: true,
+            data: {
+              destinationFolder,
+              createdFolders,
+              createdFiles,
+              mergedFolders: conflictContext.mergedFolders,
+              replacedFiles: conflictContext.replacedFiles,
+              skippedEntries: inspection.rootEntries.map((entry) => entry.path),
+              inspection,
+            },
+          };
         }
 
-        destinationFolder = this.toRecord(containerFolder);
-        destinationFolderId = containerFolder.id;
-        destinationFolderPath = containerFolder.path;
-        rootCreatedFolderIds.push(containerFolder.id);
-        createdFolders.push(destinationFolder);
+        destinationFolder = container.record;
+        destinationFolderId = container.record.id;
+        destinationFolderPath = container.record.path;
+        destinationCreated = container.created;
+        if (container.created) {
+          rootCreatedFolderIds.push(container.record.id);
+          createdFolders.push(container.record);
+        }
       }
 
       const directoryEntries = inspection.entries.filter(
@@ -325,60 +501,95 @@ export class ArchiveService {
       const fileEntries = inspection.entries.filter(
         (entry) => entry.type === "file",
       );
-      const zipEntries = this.indexZipFiles(zip);
       const totalEntries = directoryEntries.length + fileEntries.length;
+      const totalBytes = fileEntries.reduce(
+        (total, entry) => total + (entry.size ?? 0),
+        0,
+      );
       let processedEntries = 0;
+      let processedBytes = 0;
       // Segunda barrera anti ZIP bomb: contabiliza los bytes REALMENTE escritos.
       // Cubre el caso en que las cabeceras del ZIP mientan sobre el tamaño.
       let extractedBytes = 0;
 
+      const isInsideSkippedEntry = (path: string) =>
+        skippedEntries.some((skippedPath) =>
+          isArchivePathWithin(path, skippedPath),
+        );
+      const notifyProgress = (currentEntryName: string) =>
+        params.onProgress?.({
+          phase: "extract",
+          processedEntries,
+          totalEntries,
+          currentEntryName,
+          processedBytes,
+          totalBytes,
+        });
+      const reportProgress = (currentEntryName: string) => {
+        processedEntries += 1;
+        notifyProgress(currentEntryName);
+      };
+
       for (const directoryEntry of directoryEntries) {
+        throwIfCancelled(params.signal);
+        if (isInsideSkippedEntry(directoryEntry.path)) {
+          reportProgress(directoryEntry.path);
+          continue;
+        }
+
         const parentArchivePath = getParentArchivePath(directoryEntry.path);
-        const folderParentId = parentArchivePath
-          ? folderMap.get(parentArchivePath)?.record.id
-          : destinationFolderId;
+        const parentContext = parentArchivePath
+          ? folderMap.get(parentArchivePath)
+          : undefined;
 
-        if (!folderParentId) {
+        if (parentArchivePath && !parentContext) {
           throw new Error(
             `No se pudo resolver la carpeta padre para ${directoryEntry.path}`,
           );
         }
 
-        const createdFolder = await this.folderService.createFolder({
+        const placed = await this.placeDirectoryEntry(conflictContext, {
+          parentId: parentContext?.record.id ?? destinationFolderId,
+          parentPath: parentContext?.record.path ?? destinationFolderPath,
           name: this.normalizeFolderName(directoryEntry.name),
-          parentId: folderParentId,
+          archivePath: directoryEntry.path,
           visibility: parentFolder.visibility as FolderVisibility,
         });
 
-        const createdFolderUri = this.fs.resolveUri(createdFolder.path);
-        const ensureResult = this.fs.ensureDirectory(createdFolderUri);
-        if (!ensureResult.success) {
-          throw new Error(
-            ensureResult.error ??
-              `No se pudo crear el directorio ${directoryEntry.name}`,
-          );
+        if (!placed) {
+          skippedEntries.push(directoryEntry.path);
+          reportProgress(directoryEntry.path);
+          continue;
         }
 
-        const record = this.toRecord(createdFolder);
         folderMap.set(directoryEntry.path, {
-          record,
+          record: placed.record,
+          created: placed.created,
           ...(parentArchivePath ? { parentArchivePath } : {}),
         });
-        createdFolders.push(record);
-        if (!parentArchivePath) {
-          rootCreatedFolderIds.push(createdFolder.id);
+        if (placed.created) {
+          createdFolders.push(placed.record);
+          // Solo se deshace lo creado dentro de carpetas que ya existían: lo
+          // que cuelga de una carpeta nueva cae con ella en el rollback.
+          const parentCreated = parentContext
+            ? parentContext.created
+            : destinationCreated;
+          if (!parentCreated) {
+            rootCreatedFolderIds.push(placed.record.id);
+          }
         }
 
-        processedEntries += 1;
-        params.onProgress?.({
-          phase: "extract",
-          processedEntries,
-          totalEntries,
-          currentEntryName: directoryEntry.path,
-        });
+        reportProgress(directoryEntry.path);
       }
 
       for (const fileEntry of fileEntries) {
+        throwIfCancelled(params.signal);
+        if (isInsideSkippedEntry(fileEntry.path)) {
+          processedBytes += fileEntry.size ?? 0;
+          reportProgress(fileEntry.path);
+          continue;
+        }
+
         const parentArchivePath = getParentArchivePath(fileEntry.path);
         const parentContext = parentArchivePath
           ? folderMap.get(parentArchivePath)
@@ -386,42 +597,54 @@ export class ArchiveService {
         const fileFolderId = parentContext?.record.id ?? destinationFolderId;
         const fileFolderPath =
           parentContext?.record.path ?? destinationFolderPath;
-        const zipFile = zipEntries.get(fileEntry.path);
-
-        if (!zipFile) {
+        const parentCreated = parentContext
+          ? parentContext.created
+          : destinationCreated;
+        if (!archive.hasFile(fileEntry.path)) {
           throw new Error(
             `No se encontro la entrada ${fileEntry.path} en el ZIP`,
           );
         }
 
-        const safeFileName = sanitizeFileName(fileEntry.name);
+        const safeFileName = await this.resolveFileEntryName(conflictContext, {
+          parentId: fileFolderId,
+          parentPath: fileFolderPath,
+          name: sanitizeFileName(fileEntry.name),
+          archivePath: fileEntry.path,
+        });
+        if (!safeFileName) {
+          skippedEntries.push(fileEntry.path);
+          processedBytes += fileEntry.size ?? 0;
+          reportProgress(fileEntry.path);
+          continue;
+        }
+
         const targetUri = this.fs.resolveUri(
           joinArchivePath(fileFolderPath, safeFileName),
         );
-        const base64Content = await zipFile.async("base64");
-
-        // Tope acumulado por el tamaño real ya descomprimido. Si lo superamos,
-        // abortamos: el catch dispara el rollback de lo escrito hasta ahora.
-        extractedBytes += this.approximateBase64Bytes(base64Content);
-        if (
-          extractedBytes > ARCHIVE_EXTRACTION_LIMITS.maxTotalUncompressedBytes
-        ) {
-          throw new Error(
-            "La extracción supera el tamaño máximo permitido; se aborta por posible ZIP bomb",
-          );
-        }
-
-        const writeResult = this.fs.writeFile({
-          uri: targetUri,
-          content: base64Content,
-          encoding: "base64",
-        });
-
-        if (!writeResult.success) {
-          throw new Error(
-            writeResult.error ?? `No se pudo escribir ${fileEntry.name}`,
-          );
-        }
+        await writeArchiveEntryToFile(
+          this.fs,
+          archive,
+          fileEntry.path,
+          targetUri,
+          (count) => {
+            throwIfCancelled(params.signal);
+            // Tope acumulado por el tamaño real ya descomprimido. Si lo
+            // superamos, abortamos: el catch dispara el rollback de lo escrito.
+            extractedBytes += count;
+            if (
+              extractedBytes >
+              ARCHIVE_EXTRACTION_LIMITS.maxTotalUncompressedBytes
+            ) {
+              throw new Error(
+                "La extracción supera el tamaño máximo permitido; se aborta por posible ZIP bomb",
+              );
+            }
+
+            processedBytes += count;
+            notifyProgress(fileEntry.path);
+          },
+        );
 
         const fileInfo = this.fs.getFileInfo(targetUri);
         if (!fileInfo.success || !fileInfo.data) {
@@ -468,28 +691,41 @@ export class ArchiveService {
 
         const extractedFile = registered[0];
 
+        conflictContext.listings
+          .get(fileFolderId)
+          ?.files.set(extractedFile.name, extractedFile);
+
         const record = this.toRecord(extractedFile);
         createdFiles.push(record);
-        if (!parentArchivePath) {
+        extractedFileIds.set(fileEntry.path, extractedFile.id);
+        if (!parentCreated) {
           rootCreatedFileIds.push(extractedFile.id);
         }
 
-        processedEntries += 1;
-        params.onProgress?.({
-          phase: "extract",
-          processedEntries,
-          totalEntries,
-          currentEntryName: fileEntry.path,
-        });
+        reportProgress(fileEntry.path);
       }
 
+      const manifestEntry = findFolderManifestEntry(declaredEntries);
+      const restoredMetadata = manifestEntry
+        ? await this.restoreFolderManifest(
+            archive,
+            normalizeArchivePath(manifestEntry.name),
+            folderMap,
+            extractedFileIds,
+          )
+        : null;
+
       return {
         success: true,
         data: {
           destinationFolder,
           createdFolders,
           createdFiles,
+          mergedFolders: conflictContext.mergedFolders,
+          replacedFiles: conflictContext.replacedFiles,
+          skippedEntries,
           inspection,
+          ...(restoredMetadata ? { restoredMetadata } : {}),
         },
       };
     } catch (error) {
@@ -497,19 +733,156 @@ export class ArchiveService {
       return this.fail(
         this.toOperationError(error, "No se pudo extraer el archivo ZIP"),
       );
+    } finally {
+      archive?.close();
+    }
+  }
+
+  /**
+   * Lista las entradas directas de una carpeta del comprimido sin extraer nada.
+   * El archivo queda abierto hasta `closeArchiveBrowser`, de modo que navegar
+   * por sus carpetas no vuelve a leer su índice ni a comprobar la contraseña.
+   */
+  async browseArchive(
+    params: BrowseArchiveParams,
+  ): Promise<ArchiveOperationResult<ArchiveEntryDescriptor[]>> {
+    try {
+      const browsed = await this.openBrowsedArchive(
+        params.archiveFileId,
+        params.password,
+      );
+      if (!browsed.success || !browsed.data) {
+        return this.fail(
+          browsed.error ?? {
+            code: "invalid_archive",
+            message: "No se pudo abrir el archivo comprimido",
+          },
+        );
+      }
+
+      const path = normalizeArchivePath(params.path ?? "");
+      const { entries } = browsed.data;
+      if (
+        path &&
+        !entries.some(
+          (entry) => entry.path === path && entry.type === "directory",
+        )
+      ) {
+        return this.fail({
+          code: "invalid_archive",
+          message: `El archivo comprimido no contiene la carpeta ${path}`,
+        });
+      }
+
+      return {
+        success: true,
+        data: entries.filter(
+          (entry) => (getParentArchivePath(entry.path) ?? "") === path,
+        ),
+      };
+    } catch (error) {
+      return this.fail(
+        this.toOperationError(error, "No se pudo abrir el archivo comprimido"),
+      );
+    }
+  }
+
+  /**
+   * Extrae un único archivo del comprimido a la caché de la app para
+   * previsualizarlo o compartirlo. No se registra en la biblioteca.
+   */
+  async extractEntryToCache(
+    params: ExtractArchiveEntryToCacheParams,
+  ): Promise<ArchiveOperationResult<ArchiveEntryPreview>> {
+    try {
+      const browsed = await this.openBrowsedArchive(
+        params.archiveFileId,
+        params.password,
+      );
+      if (!browsed.success || !browsed.data) {
+        return this.fail(
+          browsed.error ?? {
+            code: "invalid_archive",
+            message: "No se pudo abrir el archivo comprimido",
+          },
+        );
+      }
+
+      const path = normalizeArchivePath(params.path);
+      const entry = browsed.data.entries.find(
+        (candidate) => candidate.path === path && candidate.type === "file",
+      );
+      if (!entry || !browsed.data.archive.hasFile(path)) {
+        return this.fail({
+          code: "invalid_archive",
+          message: `El archivo comprimido no contiene el archivo ${path}`,
+        });
+      }
+
+      const uri = this.fs.joinPath(
+        this.getArchivePreviewDirectory(params.archiveFileId),
+        path,
+      );
+      await writeArchiveEntryToFile(this.fs, browsed.data.archive, path, uri);
+
+      return { success: true, data: { uri, entry } };
+    } catch (error) {
+      return this.fail(
+        this.toOperationError(
+          error,
+          "No se pudo extraer la entrada del archivo comprimido",
+        ),
+      );
+    }
+  }
+
+  /** Libera el comprimido abierto y borra las entradas extraídas a la caché. */
+  closeArchiveBrowser(): void {
+    if (!this.browsedArchive) {
+      return;
+    }
+
+    const previewDirectory = this.getArchivePreviewDirectory(
+      this.browsedArchive.archiveFileId,
+    );
+    this.browsedArchive.archive.close();
+    this.browsedArchive = null;
+    if (this.fs.directoryExists(previewDirectory)) {
+      this.fs.deleteDirectory(previewDirectory);
     }
   }
 
-  /** Construye el resultado de inspección a partir del ZIP y el destino solicitado. */
+  /**
+   * Construye el resultado de inspección a partir del ZIP y el destino solicitado.
+   * Con `partialEntries` la inspección (y sus conflictos) se limita a la selección.
+   * Con `overwriteMode` los conflictos se informan pero ya no bloquean.
+   */
   private async buildInspection(args: {
-    zip: JSZip;
+    declaredEntries: ArchiveDeclaredEntry[];
+    encrypted: boolean;
     format: ArchiveFormat;
     parentFolder: FolderModel;
     mode: ArchiveExtractMode;
     createFolderName?: string | undefined;
     archiveFile: ArchiveSourceFile;
-  }): Promise<ArchiveInspection> {
-    const entries = buildArchiveEntries(args.zip);
+    partialEntries?: string[] | undefined;
+    overwriteMode?: ArchiveOverwriteMode | undefined;
+  }): Promise<ArchiveOperationResult<ArchiveInspection>> {
+    let entries = buildArchiveEntriesFromDeclared(
+      withoutFolderManifest(args.declaredEntries),
+    );
+
+    if (args.partialEntries && args.partialEntries.length > 0) {
+      const selection = selectArchiveEntries(entries, args.partialEntries);
+      if (selection.missingPaths.length > 0) {
+        return this.fail({
+          code: "invalid_archive",
+          message: `El ZIP no contiene la entrada seleccionada ${selection.missingPaths[0]}`,
+        });
+      }
+      entries = selection.entries;
+    }
+
     const rootEntries = entries.filter((entry) => entry.depth === 1);
     const hasSingleRootDirectory =
       rootEntries.length === 1 && rootEntries[0]?.type === "directory";
@@ -534,16 +907,20 @@ export class ArchiveService {
     });
 
     return {
-      format: args.format,
-      supported: this.isSupportedFormat(args.format),
-      hasSingleRootDirectory,
-      suggestedContainerName,
-      ...(rootDirectoryName ? { rootDirectoryName } : {}),
-      rootEntries,
-      entries,
-      conflicts,
-      unsupportedFeatures: [],
-      canExtract: conflicts.length === 0,
+      success: true,
+      data: {
+        format: args.format,
+        supported: this.isSupportedFormat(args.format),
+        hasSingleRootDirectory,
+        encrypted: args.encrypted,
+        suggestedContainerName,
+        ...(rootDirectoryName ? { rootDirectoryName } : {}),
+        rootEntries,
+        entries,
+        conflicts,
+        unsupportedFeatures: [],
+        canExtract: conflicts.length === 0 || args.overwriteMode !== undefined,
+      },
     };
   }
 
@@ -611,33 +988,292 @@ export class ArchiveService {
     return conflicts;
   }
 
+  /**
+   * Traduce la política de conflictos a una función que decide cada caso.
+   * En modo "ask" pregunta al llamador y recuerda la respuesta si se pide
+   * aplicarla al resto.
+   */
+  private createConflictResolver(
+    overwriteMode: ArchiveOverwriteMode | undefined,
+    onConflict: ExtractArchiveParams["onConflict"],
+  ): ExtractionConflictContext["resolve"] {
+    let rememberedAction = overwriteMode === "ask" ? undefined : overwriteMode;
+
+    return async (conflict) => {
+      if (rememberedAction) {
+        return rememberedAction;
+      }
+
+      if (!onConflict) {
+        throw new Error(`Ya existe ${conflict.name} en la carpeta destino`);
+      }
+
+      const resolution = await onConflict(conflict);
+      if (resolution.applyToAll) {
+        rememberedAction = resolution.action;
+      }
+      return resolution.action;
+    };
+  }
+
+  /** Devuelve (y cachea) las carpetas y archivos activos de una carpeta destino. */
+  private async getDestinationListing(
+    context: ExtractionConflictContext,
+    folderId: UUID,
+  ): Promise<DestinationListing> {
+    const cached = context.listings.get(folderId);
+    if (cached) {
+      return cached;
+    }
+
+    const [folders, files] = await Promise.all([
+      this.folderService.getSubfolders(folderId),
+      this.fileService.getFilesInFolder(folderId),
+    ]);
+    const listing: DestinationListing = {
+      folders: new Map(folders.map((folder) => [folder.name, folder])),
+      files: new Map(files.map((file) => [file.name, file])),
+    };
+    context.listings.set(folderId, listing);
+    return listing;
+  }
+
+  /**
+   * Coloca una carpeta del ZIP en destino: se fusiona con una carpeta del
+   * mismo nombre o se crea aplicando la política si choca con un archivo.
+   * Devuelve `null` si la política decide omitirla.
+   */
+  private async placeDirectoryEntry(
+    context: ExtractionConflictContext,
+    args: {
+      parentId: UUID;
+      parentPath: string;
+      name: string;
+      archivePath: string;
+      visibility: FolderVisibility;
+    },
+  ): Promise<{ record: ArchiveCreatedRecord; created: boolean } | null> {
+    const listing = await this.getDestinationListing(context, args.parentId);
+    const existingFolder = listing.folders.get(args.name);
+
+    if (existingFolder) {
+      const record = this.toRecord(existingFolder);
+      context.mergedFolders.push(record);
+      return { record, created: false };
+    }
+
+    let folderName = args.name;
+    const existingFile = listing.files.get(args.name);
+    if (existingFile) {
+      const action = await context.resolve({
+        path: args.archivePath,
+        name: args.name,
+        entryType: "directory",
+        existingType: "file",
+      });
+
+      if (action === "skip") {
+        return null;
+      }
+
+      if (action === "overwrite") {
+        await this.replaceExistingFile(context, listing, existingFile);
+      } else {
+        folderName = this.resolveAvailableName(
+          listing,
+          args.parentPath,
+          args.name,
+          "directory",
+        );
+      }
+    }
+
+    const createdFolder = await this.folderService.createFolder({
+      name: folderName,
+      parentId: args.parentId,
+      visibility: args.visibility,
+    });
+
+    const ensureResult = this.fs.ensureDirectory(
+      this.fs.resolveUri(createdFolder.path),
+    );
+    if (!ensureResult.success) {
+      throw new Error(
+        ensureResult.error ?? `No se pudo crear el directorio ${folderName}`,
+      );
+    }
+
+    listing.folders.set(createdFolder.name, createdFolder);
+    context.listings.set(createdFolder.id, {
+      folders: new Map(),
+      files: new Map(),
+    });
+    return { record: this.toRecord(createdFolder), created: true };
+  }
+
+  /**
+   * Decide el nombre final de un archivo del ZIP según la política de
+   * conflictos. Un archivo no puede sobrescribir una carpeta: en ese caso
+   * "overwrite" se resuelve renombrando. Devuelve `null` si se omite.
+   */
+  private async resolveFileEntryName(
+    context: ExtractionConflictContext,
+    args: {
+      parentId: UUID;
+      parentPath: string;
+      name: string;
+      archivePath: string;
+    },
+  ): Promise<string | null> {
+    const listing = await this.getDestinationListing(context, args.parentId);
+    const existingFile = listing.files.get(args.name);
+    const existingFolder = listing.folders.get(args.name);
+
+    if (!existingFile && !existingFolder) {
+      return args.name;
+    }
+
+    const action = await context.resolve({
+      path: args.archivePath,
+      name: args.name,
+      entryType: "file",
+      existingType: existingFile ? "file" : "directory",
+    });
+
+    if (action === "skip") {
+      return null;
+    }
+
+    if (action === "overwrite" && existingFile) {
+      await this.replaceExistingFile(context, listing, existingFile);
+      return args.name;
+    }
+
+    return this.resolveAvailableName(
+      listing,
+      args.parentPath,
+      args.name,
+      "file",
+    );
+  }
+
+  /** Manda a la papelera un archivo que va a ser sustituido por uno del ZIP. */
+  private async replaceExistingFile(
+    context: ExtractionConflictContext,
+    listing: DestinationListing,
+    existingFile: FileModel,
+  ): Promise<void> {
+    await this.fileService.trashFileForReplacement(existingFile.id);
+    listing.files.delete(existingFile.name);
+    context.replacedFiles.push(this.toRecord(existingFile));
+  }
+
+  /** Busca el primer nombre libre con sufijo " (1)", " (2)"... en una carpeta destino. */
+  private resolveAvailableName(
+    listing: DestinationListing,
+    parentPath: string,
+    name: string,
+    entryType: ArchiveEntryDescriptor["type"],
+  ): string {
+    const extensionIndex = entryType === "file" ? name.lastIndexOf(".") : -1;
+    const baseName = extensionIndex > 0 ? name.slice(0, extensionIndex) : name;
+    const extensionSuffix =
+      extensionIndex > 0 ? name.slice(extensionIndex) : "";
+
+    for (let index = 1; ; index += 1) {
+      const candidate = `${baseName} (${index})${extensionSuffix}`;
+      const isTaken =
+        listing.files.has(candidate) ||
+        listing.folders.has(candidate) ||
+        // Los elementos en la papelera conservan su ruta en disco.
+        this.fs.fileExists(
+          this.fs.resolveUri(joinArchivePath(parentPath, candidate)),
+        );
+
+      if (!isTaken) {
+        return candidate;
+      }
+    }
+  }
+
   /** Recorre una carpeta recursivamente y prepara sus rutas para el ZIP. */
   private async collectFolderFiles(
-    folderId: UUID,
+    folder: FolderModel,
     archiveRootPath: string,
   ): Promise<CollectedArchiveFiles> {
     const directories = [archiveRootPath];
     const files: CollectedArchiveFiles["files"] = [];
+    const folderModels: CollectedArchiveFiles["folderModels"] = [
+      { zipPath: archiveRootPath, folder },
+    ];
+    const fileModels: CollectedArchiveFiles["fileModels"] = [];
     const [subfolders, folderFiles] = await Promise.all([
-      this.folderService.getSubfolders(folderId),
-      this.fileService.getFilesInFolder(folderId),
+      this.folderService.getSubfolders(folder.id),
+      this.fileService.getFilesInFolder(folder.id),
     ]);
 
     for (const folderFile of folderFiles) {
+      const zipPath = joinArchivePath(archiveRootPath, folderFile.name);
       files.push({
-        zipPath: joinArchivePath(archiveRootPath, folderFile.name),
+        zipPath,
         sourceFile: this.toArchiveSourceFile(folderFile),
       });
+      fileModels.push({ zipPath, file: folderFile });
     }
 
     for (const subfolder of subfolders) {
       const subfolderPath = joinArchivePath(archiveRootPath, subfolder.name);
-      const nested = await this.collectFolderFiles(subfolder.id, subfolderPath);
+      const nested = await this.collectFolderFiles(subfolder, subfolderPath);
       directories.push(...nested.directories);
       files.push(...nested.files);
+      folderModels.push(...nested.folderModels);
+      fileModels.push(...nested.fileModels);
     }
 
-    return { directories, files };
+    return { directories, files, folderModels, fileModels };
+  }
+
+  /** Describe los datos de MeFolder de la carpeta recorrida para el manifiesto. */
+  private async buildFolderManifest(
+    rootPath: string,
+    collected: CollectedArchiveFiles,
+  ): Promise<FolderArchiveManifest> {
+    const toRelativePath = (zipPath: string) =>
+      zipPath === rootPath ? "" : zipPath.slice(rootPath.length + 1);
+    const tagIds = new Set(
+      collected.fileModels.flatMap(({ file }) => file.tagIds),
+    );
+    const tags = await this.tagService.getTagsByIds([...tagIds]);
+
+    return {
+      format: FOLDER_MANIFEST_FORMAT,
+      version: FOLDER_MANIFEST_VERSION,
+      createdAt: Date.now(),
+      tags: tags.map((tag) => ({
+        id: tag.id,
+        name: tag.name,
+        type: tag.type,
+        color: tag.color,
+        ...(tag.description ? { description: tag.description } : {}),
+      })),
+      folders: collected.folderModels.map(({ zipPath, folder }) => ({
+        path: toRelativePath(zipPath),
+        visibility: folder.visibility,
+        viewSettings: folder.viewSettings,
+        isFavorite: folder.isFavorite,
+        ...(folder.description ? { description: folder.description } : {}),
+        ...(folder.color ? { color: folder.color } : {}),
+        ...(folder.icon ? { icon: folder.icon } : {}),
+      })),
+      files: collected.fileModels.map(({ zipPath, file }) => ({
+        path: toRelativePath(zipPath),
+        visibility: file.visibility,
+        tagIds: file.tagIds.filter((tagId) =>
+          tags.some((tag) => tag.id === tagId),
+        ),
+        ...(file.color ? { color: file.color } : {}),
+      })),
+    };
   }
 
   /** Prepara rutas definitivas del ZIP para una colección explícita de archivos. */
@@ -654,14 +1290,23 @@ export class ArchiveService {
     }));
   }
 
-  /** Genera y persiste un ZIP a partir de entradas ya normalizadas. */
+  /**
+   * Genera y persiste el comprimido a partir de entradas ya normalizadas.
+   * Cada archivo se lee y se escribe por bloques, así que la memoria usada no
+   * depende del tamaño de lo que se comprime, tampoco con contraseña: cada
+   * entrada se cifra a medida que se escribe.
+   */
   private async createArchiveFromPreparedEntries(args: {
     format: SupportedArchiveFormat;
     outputName: string;
     destinationFolderId: UUID;
     visibility: FileVisibility;
     compressionLevel?: CreateArchiveFromFilesParams["compressionLevel"];
+    password?: string;
+    encryption?: ArchiveEncryptionMethod;
     onProgress?: CreateArchiveFromFilesParams["onProgress"];
+    signal?: AbortSignal;
+    volumeSize?: number;
     directories?: string[];
     files: PreparedArchiveFileEntry[];
     virtualEntries?: ArchiveVirtualEntry[];
@@ -675,132 +1320,170 @@ export class ArchiveService {
       });
     }
 
+    if (args.password && args.format !== "zip") {
+      return this.fail({
+        code: "unsupported_option",
+        message: "Solo los archivos ZIP se pueden proteger con contraseña",
+      });
+    }
+
     const outputName = this.ensureArchiveFileName(args.outputName, args.format);
     const conflict = await this.checkOutputArchiveConflict(
       args.destinationFolderId,
       outputName,
+      args.volumeSize !== undefined,
     );
     if (conflict) {
       return this.fail({ code: conflict.type, message: conflict.message });
     }
 
-    const destinationPath = await this.fileService.resolveStoragePath(
-      args.destinationFolderId,
-    );
-    const zip = new JSZip();
     const usedZipPaths = new Set<string>();
-
-    for (const directory of args.directories ?? []) {
-      zip.file(this.ensureDirectoryEntryPath(directory), "", { dir: true });
-    }
-
-    const totalEntries = args.files.length + virtualEntries.length;
-
-    for (const [index, entry] of args.files.entries()) {
+    const virtualZipPaths = virtualEntries.map((virtualEntry) =>
+      normalizeArchivePath(virtualEntry.path),
+    );
+    for (const zipPath of [
+      ...args.files.map((entry) => entry.zipPath),
+      ...virtualZipPaths,
+    ]) {
       const duplicatePathError = this.ensureUniqueArchiveEntryPath(
         usedZipPaths,
-        entry.zipPath,
+        zipPath,
       );
       if (duplicatePathError) {
         return this.fail(duplicatePathError);
       }
+    }
 
-      args.onProgress?.({
-        phase: "compress",
-        processedEntries: index,
-        totalEntries,
-        currentEntryName: entry.sourceFile.name,
-      });
-
-      const fileContent = await this.readSourceFileAsBase64(entry.sourceFile);
-      if (!fileContent.success || !fileContent.data) {
-        return this.fail(
-          fileContent.error ?? {
-            code: "unknown",
-            message: `No se pudo leer ${entry.sourceFile.name}`,
-          },
-        );
-      }
-
-      zip.file(entry.zipPath, fileContent.data, { base64: true });
+    const destinationPath = await this.fileService.resolveStoragePath(
+      args.destinationFolderId,
+    );
+    const archiveUri = this.fs.resolveUri(`${destinationPath}/${outputName}`);
+    const stagingUri = this.fs.joinPath(
+      this.fs.cacheDir.uri,
+      "archive-staging",
+      `${Date.now()}`,
+    );
+    let originalSize = 0;
+    let volumeNames: string[] = [];
 
-      args.onProgress?.({
-        phase: "compress",
-        processedEntries: index + 1,
-        totalEntries,
-        currentEntryName: entry.sourceFile.name,
-      });
-    }
+    try {
+      // Las entradas virtuales se vuelcan a la caché para leerlas igual que
+      // cualquier otro archivo de origen.
+      const sources: ArchiveOutputSource[] = args.files.map((entry) => ({
+        zipPath: entry.zipPath,
+        uri: this.resolveSourceFileUri(entry.sourceFile),
+        name: entry.sourceFile.name,
+        size: entry.sourceFile.metadata.size ?? 0,
+      }));
+      for (const [index, virtualEntry] of virtualEntries.entries()) {
+        const uri = this.fs.joinPath(stagingUri, `virtual-${index}`);
+        this.fs.ensureDirectory(stagingUri);
+        const writeResult = this.fs.writeFile({
+          uri,
+          content: virtualEntry.content,
+          encoding: virtualEntry.encoding === "base64" ? "base64" : "utf8",
+        });
+        if (!writeResult.success) {
+          throw new Error(
+            writeResult.error ?? `No se pudo preparar ${virtualEntry.path}`,
+          );
+        }
 
-    for (const [index, virtualEntry] of virtualEntries.entries()) {
-      const zipPath = normalizeArchivePath(virtualEntry.path);
-      const duplicatePathError = this.ensureUniqueArchiveEntryPath(
-        usedZipPaths,
-        zipPath,
-      );
-      if (duplicatePathError) {
-        return this.fail(duplicatePathError);
+        sources.push({
+          zipPath: virtualZipPaths[index] ?? virtualEntry.path,
+          uri,
+          name: virtualEntry.path,
+          size: this.fs.getFileInfo(uri).data?.size ?? 0,
+        });
       }
 
-      args.onProgress?.({
-        phase: "compress",
-        processedEntries: args.files.length + index,
-        totalEntries,
-        currentEntryName: virtualEntry.path,
-      });
+      originalSize = sources.reduce((total, source) => total + source.size, 0);
 
-      zip.file(zipPath, virtualEntry.content, {
-        base64: virtualEntry.encoding === "base64",
+      await this.writeArchiveOutput({
+        format: args.format,
+        uri: archiveUri,
+        level: this.resolveDeflateLevel(args.compressionLevel),
+        directories: this.collectArchiveDirectories(
+          args.directories ?? [],
+          sources,
+        ),
+        sources,
+        ...(args.password
+          ? {
+              encryption: {
+                password: args.password,
+                method: args.encryption ?? "aes256",
+              },
+            }
+          : {}),
+        ...(args.onProgress ? { onProgress: args.onProgress } : {}),
+        ...(args.signal ? { signal: args.signal } : {}),
       });
 
-      args.onProgress?.({
-        phase: "compress",
-        processedEntries: args.files.length + index + 1,
-        totalEntries,
-        currentEntryName: virtualEntry.path,
-      });
+      const archiveSize = this.fs.getFileInfo(archiveUri).data?.size ?? 0;
+      if (args.volumeSize && archiveSize > args.volumeSize) {
+        volumeNames = await this.splitArchiveOutput(
+          archiveUri,
+          destinationPath,
+          outputName,
+          args.volumeSize,
+          args.signal,
+        );
+      }
+    } catch (error) {
+      // No dejamos un comprimido a medias en la carpeta destino.
+      if (this.fs.fileExists(archiveUri)) {
+        this.fs.deleteFile(archiveUri);
+      }
+      throw error;
+    } finally {
+      if (this.fs.directoryExists(stagingUri)) {
+        this.fs.deleteDirectory(stagingUri);
+      }
     }
 
-    const zipBase64 = await zip.generateAsync(
-      this.buildZipGenerationOptions(args.compressionLevel),
-    );
-
-    const archiveUri = this.fs.resolveUri(`${destinationPath}/${outputName}`);
-    const writeResult = this.fs.writeFile({
-      uri: archiveUri,
-      content: zipBase64,
-      encoding: "base64",
-    });
+    const outputNames = volumeNames.length > 0 ? volumeNames : [outputName];
+    const outputFiles: FileModel[] = [];
+    for (const name of outputNames) {
+      const uri = this.fs.resolveUri(`${destinationPath}/${name}`);
+      const fileInfo = this.fs.getFileInfo(uri);
+      if (!fileInfo.success || !fileInfo.data) {
+        return this.fail({
+          code: "unknown",
+          message:
+            fileInfo.error ?? "No se pudo obtener metadata del ZIP generado",
+        });
+      }
 
-    if (!writeResult.success) {
-      return this.fail({
-        code: "unknown",
-        message: writeResult.error ?? "No se pudo escribir el ZIP generado",
-      });
+      outputFiles.push(
+        await this.fileService.createFile({
+          name,
+          originalName: name,
+          extension: args.format as CreateFileInput["extension"],
+          folderId: args.destinationFolderId,
+          visibility: args.visibility,
+          metadata: this.buildExtractedFileMetadata(
+            fileInfo.data.size,
+            args.format,
+          ),
+          storageUrl: uri,
+        }),
+      );
     }
 
-    const fileInfo = this.fs.getFileInfo(archiveUri);
-    if (!fileInfo.success || !fileInfo.data) {
+    const [archiveFile] = outputFiles;
+    if (!archiveFile) {
       return this.fail({
         code: "unknown",
-        message:
-          fileInfo.error ?? "No se pudo obtener metadata del ZIP generado",
+        message: "No se pudo registrar el archivo comprimido",
       });
     }
 
-    const archiveFile = await this.fileService.createFile({
-      name: outputName,
-      originalName: outputName,
-      extension: args.format as CreateFileInput["extension"],
-      folderId: args.destinationFolderId,
-      visibility: args.visibility,
-      metadata: this.buildExtractedFileMetadata(
-        fileInfo.data.size,
-        args.format,
-      ),
-      storageUrl: archiveUri,
-    });
-
+    const archiveSize = outputFiles.reduce(
+      (total, file) => total + (file.metadata.size ?? 0),
+      0,
+    );
+    const totalEntries = args.files.length + virtualEntries.length;
     args.onProgress?.({
       phase: "compress",
       processedEntries: totalEntries,
@@ -814,24 +1497,177 @@ export class ArchiveService {
         archiveFile: this.toRecord(archiveFile),
         entryCount: totalEntries,
         format: args.format,
+        originalSize,
+        archiveSize,
+        compressionRatio: originalSize > 0 ? archiveSize / originalSize : 1,
+        ...(volumeNames.length > 0
+          ? { volumes: outputFiles.map((file) => this.toRecord(file)) }
+          : {}),
       },
     };
   }
 
-  /** Lee un archivo de origen y lo devuelve codificado en base64. */
-  private async readSourceFileAsBase64(
-    file: ArchiveSourceFile,
-  ): Promise<ArchiveOperationResult<string>> {
-    const fileUri = this.resolveSourceFileUri(file);
-    const readResult = await this.fs.readAsBase64(fileUri);
-    if (!readResult.success || !readResult.data) {
-      return this.fail({
-        code: "unknown",
-        message: readResult.error ?? `No se pudo leer ${file.name}`,
+  /**
+   * Divide el comprimido recién creado en partes junto a él y borra el
+   * original. Devuelve los nombres de las partes en orden.
+   */
+  private async splitArchiveOutput(
+    archiveUri: string,
+    destinationPath: string,
+    outputName: string,
+    volumeSize: number,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const volumeUris = await splitIntoVolumes(
+      this.fs,
+      archiveUri,
+      volumeSize,
+      (index) =>
+        this.fs.resolveUri(
+          `${destinationPath}/${buildArchiveVolumeName(outputName, index)}`,
+        ),
+      signal,
+    );
+    this.fs.deleteFile(archiveUri);
+
+    return volumeUris.map((_, index) =>
+      buildArchiveVolumeName(outputName, index + 1),
+    );
+  }
+
+  /**
+   * Escribe el ZIP o TAR en `uri` leyendo cada archivo de origen por bloques.
+   * Informa del progreso por entrada y por bytes leídos.
+   */
+  private async writeArchiveOutput(args: {
+    format: SupportedArchiveFormat;
+    uri: string;
+    level: number;
+    directories: string[];
+    sources: ArchiveOutputSource[];
+    encryption?: ZipStreamEncryption;
+    onProgress?: CreateArchiveFromFilesParams["onProgress"];
+    signal?: AbortSignal;
+  }): Promise<void> {
+    const output = this.fs.openFileStream(args.uri, { create: true });
+    if (!output.success || !output.data) {
+      throw new Error(output.error ?? "No se pudo crear el archivo comprimido");
+    }
+
+    const stream = output.data;
+    const totalEntries = args.sources.length;
+    const totalBytes = args.sources.reduce(
+      (total, source) => total + source.size,
+      0,
+    );
+    let processedBytes = 0;
+    const reportProgress = (
+      processedEntries: number,
+      currentEntryName: string,
+    ) =>
+      args.onProgress?.({
+        phase: "compress",
+        processedEntries,
+        totalEntries,
+        currentEntryName,
+        processedBytes,
+        totalBytes,
       });
+
+    try {
+      const zipWriter =
+        args.format === "zip"
+          ? new ZipStreamWriter(stream, args.level, args.encryption)
+          : null;
+      const gzipWriter =
+        args.format === "gz"
+          ? new GzipStreamWriter((bytes) => stream.write(bytes), args.level)
+          : null;
+      const tarWriter = zipWriter
+        ? null
+        : new TarStreamWriter((bytes) =>
+            gzipWriter ? gzipWriter.write(bytes) : stream.write(bytes),
+          );
+
+      for (const directory of args.directories) {
+        zipWriter?.addDirectory(directory);
+        tarWriter?.addDirectory(directory);
+      }
+
+      for (const [index, source] of args.sources.entries()) {
+        throwIfCancelled(args.signal);
+        reportProgress(index, source.name);
+
+        const input = this.fs.openFileStream(source.uri);
+        if (!input.success || !input.data) {
+          throw new Error(input.error ?? `No se pudo leer ${source.name}`);
+        }
+
+        const onBytes = (count: number) => {
+          throwIfCancelled(args.signal);
+          processedBytes += count;
+          reportProgress(index, source.name);
+        };
+        try {
+          if (zipWriter) {
+            await zipWriter.addFile(source.zipPath, input.data, {
+              level: resolveArchiveEntryLevel(source.zipPath, args.level),
+              onBytes,
+            });
+          } else {
+            await tarWriter?.addFile(
+              source.zipPath,
+              input.data.size,
+              input.data,
+              { onBytes },
+            );
+          }
+        } finally {
+          input.data.close();
+        }
+
+        reportProgress(index + 1, source.name);
+      }
+
+      zipWriter?.finish();
+      tarWriter?.finish();
+      gzipWriter?.finish();
+    } finally {
+      stream.close();
     }
+  }
 
-    return { success: true, data: readResult.data };
+  /**
+   * Carpetas del comprimido: las indicadas más las que contienen cada archivo,
+   * para que cualquier lector recree la estructura aunque esté vacía.
+   */
+  private collectArchiveDirectories(
+    directories: string[],
+    sources: ArchiveOutputSource[],
+  ): string[] {
+    const collected = new Set<string>();
+    const addWithParents = (path: string) => {
+      const parentPath = getParentArchivePath(path);
+      if (parentPath) {
+        addWithParents(parentPath);
+      }
+      collected.add(path);
+    };
+
+    for (const directory of directories) {
+      const normalized = normalizeArchivePath(directory);
+      if (normalized) {
+        addWithParents(normalized);
+      }
+    }
+    for (const source of sources) {
+      const parentPath = getParentArchivePath(source.zipPath);
+      if (parentPath) {
+        addWithParents(parentPath);
+      }
+    }
+
+    return [...collected];
   }
 
   /** Resuelve la ruta final de una entrada dentro del ZIP, aplicando la carpeta raíz si existe. */
@@ -862,19 +1698,16 @@ export class ArchiveService {
 
   /**
    * Aplica los límites anti "ZIP bomb" y anti "Zip Slip" sobre el contenido
-   * declarado en las cabeceras del ZIP, sin descomprimir nada todavía.
+   * declarado en las cabeceras del ZIP o del TAR, sin descomprimir nada todavía.
    * Devuelve el primer error encontrado o `null` si el archivo es seguro.
    */
-  private detectArchiveSafetyError(zip: JSZip): ArchiveOperationError | null {
+  private detectArchiveSafetyError(
+    entries: ArchiveDeclaredEntry[],
+  ): ArchiveOperationError | null {
     let entryCount = 0;
     let totalUncompressedBytes = 0;
 
-    for (const entryName of Object.keys(zip.files)) {
-      const entry = zip.files[entryName];
-      if (!entry) {
-        continue;
-      }
-
+    for (const entry of entries) {
       entryCount += 1;
       if (entryCount > ARCHIVE_EXTRACTION_LIMITS.maxEntries) {
         return {
@@ -904,7 +1737,7 @@ export class ArchiveService {
         continue;
       }
 
-      const sizes = this.readEntryDeclaredSizes(entry);
+      const sizes = entry.sizes;
       if (!sizes) {
         continue;
       }
@@ -948,31 +1781,6 @@ export class ArchiveService {
     return null;
   }
 
-  /**
-   * Lee los tamaños declarados (comprimido/descomprimido) de una entrada JSZip.
-   * Esta información vive en el campo interno `_data`, no expuesto en los tipos
-   * públicos, por eso accedemos a él de forma defensiva.
-   */
-  private readEntryDeclaredSizes(
-    entry: JSZip.JSZipObject,
-  ): { compressedSize: number; uncompressedSize: number } | null {
-    const data = (
-      entry as unknown as {
-        _data?: { compressedSize?: number; uncompressedSize?: number };
-      }
-    )._data;
-
-    if (!data || typeof data.uncompressedSize !== "number") {
-      return null;
-    }
-
-    return {
-      compressedSize:
-        typeof data.compressedSize === "number" ? data.compressedSize : 0,
-      uncompressedSize: data.uncompressedSize,
-    };
-  }
-
   /** Detecta rutas absolutas, con unidad de Windows o con segmentos "..". */
   private isUnsafeArchivePath(name: string): boolean {
     if (!name) {
@@ -996,36 +1804,366 @@ export class ArchiveService {
       .filter((segment) => segment.length > 0).length;
   }
 
-  /** Aproxima los bytes reales representados por una cadena base64. */
-  private approximateBase64Bytes(base64: string): number {
-    if (!base64) {
-      return 0;
+  /**
+   * Aplica el manifiesto de MeFolder a lo recién extraído: solo a carpetas
+   * creadas en esta extracción, nunca a las existentes con las que se fusiona.
+   * Los tags se buscan por nombre y se crean si faltan. Es un extra: si el
+   * manifiesto no se entiende o falla, la extracción sigue siendo válida.
+   */
+  private async restoreFolderManifest(
+    archive: ArchiveContent,
+    manifestPath: string,
+    folderMap: Map<string, CreatedFolderContext>,
+    extractedFileIds: Map<string, UUID>,
+  ): Promise<FolderManifestRestoreSummary | null> {
+    try {
+      const manifest = parseFolderManifest(
+        await this.readArchiveEntryText(archive, manifestPath),
+      );
+      if (!manifest) {
+        return null;
+      }
+
+      const rootPath = getParentArchivePath(manifestPath) ?? "";
+      const toArchivePath = (path: string) =>
+        path ? joinArchivePath(rootPath, path) : rootPath;
+      const summary: FolderManifestRestoreSummary = {
+        restoredFolderCount: 0,
+        restoredFileCount: 0,
+        createdTagNames: [],
+      };
+
+      for (const entry of manifest.folders) {
+        const context = folderMap.get(toArchivePath(entry.path));
+        if (!context?.created) continue;
+
+        await this.folderService.updateFolder(context.record.id, {
+          visibility: entry.visibility,
+          viewSettings: entry.viewSettings,
+          isFavorite: entry.isFavorite,
+          ...(entry.description ? { description: entry.description } : {}),
+          ...(entry.color ? { color: entry.color } : {}),
+          ...(entry.icon ? { icon: entry.icon } : {}),
+        });
+        summary.restoredFolderCount += 1;
+      }
+
+      const localTagIds = new Map<UUID, UUID | null>();
+      const resolveTagId = async (tagId: UUID): Promise<UUID | null> => {
+        const cached = localTagIds.get(tagId);
+        if (cached !== undefined) return cached;
+
+        const tag = manifest.tags.find((candidate) => candidate.id === tagId);
+        let localTagId: UUID | null = null;
+        if (tag) {
+          const existing = await this.tagService.getTagByName(tag.name);
+          if (existing) {
+            localTagId = existing.id;
+          } else if (tag.type !== "system") {
+            const input = {
+              name: tag.name,
+              color: tag.color,
+              ...(tag.description ? { description: tag.description } : {}),
+            };
+            const created =
+              tag.type === "album"
+                ? await this.tagService.createAlbum(input)
+                : await this.tagService.createTag({ ...input, type: "user" });
+            localTagId = created.id;
+            summary.createdTagNames.push(created.name);
+          }
+        }
+
+        localTagIds.set(tagId, localTagId);
+        return localTagId;
+      };
+
+      for (const entry of manifest.files) {
+        const fileId = extractedFileIds.get(toArchivePath(entry.path));
+        if (!fileId) continue;
+
+        await this.fileService.updateFile(fileId, {
+          visibility: entry.visibility,
+          ...(entry.color ? { color: entry.color } : {}),
+        });
+
+        const tagIds: UUID[] = [];
+        for (const tagId of entry.tagIds) {
+          const localTagId = await resolveTagId(tagId);
+          if (localTagId) tagIds.push(localTagId);
+        }
+        if (tagIds.length > 0) {
+          await this.tagService.addTagsToFile(fileId, tagIds);
+        }
+        summary.restoredFileCount += 1;
+      }
+
+      return summary;
+    } catch (error) {
+      console.warn("No se pudo aplicar el manifiesto de la carpeta:", error);
+      return null;
     }
+  }
+
+  /** Lee una entrada pequeña del comprimido como texto UTF-8. */
+  private async readArchiveEntryText(
+    archive: ArchiveContent,
+    path: string,
+  ): Promise<string> {
+    const chunks: Uint8Array[] = [];
+    await archive.readFile(path, (chunk) => {
+      chunks.push(chunk.slice());
+    });
 
-    const padding = base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0;
-    return Math.max(0, Math.floor((base64.length * 3) / 4) - padding);
+    const bytes = new Uint8Array(
+      chunks.reduce((total, chunk) => total + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return new TextDecoder().decode(bytes);
   }
 
-  /** Abre un archivo comprimido y lo carga como instancia de JSZip. */
-  private async loadArchiveZip(
+  /**
+   * Abre un archivo comprimido para leerlo por bloques desde el disco, sin
+   * cargarlo en memoria; un TAR.GZ se descomprime antes a la caché.
+   * Sin contraseña se usa la del mismo archivo abierto en el explorador.
+   * Quien lo abre debe cerrarlo con `close`.
+   */
+  private async openArchiveContent(
     archiveFile: ArchiveSourceFile,
-  ): Promise<ArchiveOperationResult<JSZip>> {
+    format: SupportedArchiveFormat,
+    password?: string,
+  ): Promise<ArchiveOperationResult<ArchiveContent>> {
+    if (parseArchiveVolumeName(archiveFile.name)) {
+      return this.openVolumeArchiveContent(archiveFile, format, password);
+    }
+
     const archiveUri = this.resolveSourceFileUri(archiveFile);
-    return loadZipFromUri(this.fs, archiveUri);
+    if (format === "zip") {
+      return openZipArchiveContent(
+        this.fs,
+        archiveUri,
+        password ??
+          (this.browsedArchive?.archiveFileId === archiveFile.id
+            ? this.browsedArchive.password
+            : undefined),
+      );
+    }
+
+    return openTarArchiveContent(this.fs, archiveUri, {
+      gzipped: format === "gz",
+      singleFileName: this.removeExtension(archiveFile.name),
+      maxUncompressedBytes: ARCHIVE_EXTRACTION_LIMITS.maxTotalUncompressedBytes,
+    });
   }
 
-  /** Indexa solo los archivos del ZIP por su ruta normalizada. */
-  private indexZipFiles(zip: JSZip): Map<string, JSZip.JSZipObject> {
-    return indexZipFiles(zip);
+  /**
+   * Devuelve el comprimido del explorador, abriéndolo si es otro archivo.
+   * Sin contraseña se reutiliza la del archivo ya abierto.
+   */
+  private async openBrowsedArchive(
+    archiveFileId: UUID,
+    password?: string,
+  ): Promise<ArchiveOperationResult<BrowsedArchive>> {
+    const current = this.browsedArchive;
+    if (
+      current?.archiveFileId === archiveFileId &&
+      (password === undefined || password === current.password)
+    ) {
+      return { success: true, data: current };
+    }
+
+    const archiveFile = this.toArchiveSourceFile(
+      await this.fileService.getFile(archiveFileId),
+    );
+    const format = this.resolveArchiveFormat(archiveFile);
+    if (!this.isSupportedFormat(format)) {
+      return this.failUnsupportedFormat(format);
+    }
+
+    const resolvedPassword =
+      password ??
+      (current?.archiveFileId === archiveFileId ? current.password : undefined);
+    const archiveResult = await this.openArchiveContent(
+      archiveFile,
+      format,
+      resolvedPassword,
+    );
+    if (!archiveResult.success || !archiveResult.data) {
+      return this.fail(
+        archiveResult.error ?? {
+          code: "invalid_archive",
+          message: "No se pudo abrir el archivo comprimido",
+        },
+      );
+    }
+
+    const safetyError = this.detectArchiveSafetyError(
+      archiveResult.data.declaredEntries,
+    );
+    if (safetyError) {
+      archiveResult.data.close();
+      return this.fail(safetyError);
+    }
+
+    this.closeArchiveBrowser();
+    this.browsedArchive = {
+      archiveFileId,
+      archive: archiveResult.data,
+      entries: buildArchiveEntriesFromDeclared(
+        withoutFolderManifest(archiveResult.data.declaredEntries),
+      ),
+      ...(resolvedPassword ? { password: resolvedPassword } : {}),
+    };
+    return { success: true, data: this.browsedArchive };
   }
 
-  /** Comprueba si ya existe el archivo ZIP de salida en la carpeta destino. */
+  /**
+   * Abre un comprimido dividido a partir de cualquiera de sus partes: reúne
+   * todas las de la misma carpeta en un archivo temporal de la caché, que se
+   * borra al cerrar el contenido.
+   */
+  private async openVolumeArchiveContent(
+    archiveFile: ArchiveSourceFile,
+    format: SupportedArchiveFormat,
+    password?: string,
+  ): Promise<ArchiveOperationResult<ArchiveContent>> {
+    const volumeName = parseArchiveVolumeName(archiveFile.name);
+    if (!volumeName) {
+      return this.fail({
+        code: "invalid_archive",
+        message: "El archivo no es una parte de un comprimido dividido",
+      });
+    }
+
+    const siblings = await this.fileService.getFilesInFolder(
+      archiveFile.folderId ?? ROOT_FOLDER_ID,
+    );
+    const volumes = siblings
+      .map((file) => ({ file, volume: parseArchiveVolumeName(file.name) }))
+      .filter(({ volume }) => volume?.baseName === volumeName.baseName)
+      .sort((a, b) => (a.volume?.index ?? 0) - (b.volume?.index ?? 0))
+      .map(({ file }) => this.toArchiveSourceFile(file));
+
+    // Las partes deben ir seguidas desde la 001 y, salvo la última, medir lo
+    // mismo que la primera; si no, falta alguna o se ha copiado a medias.
+    const firstSize = volumes[0]?.metadata.size;
+    for (let position = 0; position < volumes.length; position++) {
+      const volume = volumes[position];
+      const index = volume ? parseArchiveVolumeName(volume.name)?.index : 0;
+      if (!volume || index !== position + 1) {
+        return this.fail({
+          code: "missing_volume",
+          message: `Falta la parte ${buildArchiveVolumeName(volumeName.baseName, position + 1)}. Copia todas las partes en la misma carpeta`,
+        });
+      }
+
+      const isLast = position === volumes.length - 1;
+      if (!isLast && volume.metadata.size !== firstSize) {
+        return this.fail({
+          code: "missing_volume",
+          message: `La parte ${volume.name} está incompleta. Vuelve a copiarla`,
+        });
+      }
+    }
+
+    const joinedDirectory = this.fs.joinPath(
+      this.fs.cacheDir.uri,
+      "archive-volumes",
+      `${Date.now()}`,
+    );
+    const joinedUri = this.fs.joinPath(joinedDirectory, volumeName.baseName);
+    const cleanUp = () => {
+      if (this.fs.directoryExists(joinedDirectory)) {
+        this.fs.deleteDirectory(joinedDirectory);
+      }
+    };
+
+    try {
+      this.fs.ensureDirectory(joinedDirectory);
+      await joinVolumes(
+        this.fs,
+        volumes.map((volume) => this.resolveSourceFileUri(volume)),
+        joinedUri,
+      );
+    } catch (error) {
+      cleanUp();
+      return this.fail(
+        this.toOperationError(
+          error,
+          "No se pudieron reunir las partes del comprimido",
+        ),
+      );
+    }
+
+    const result = await this.openArchiveContent(
+      {
+        ...archiveFile,
+        name: volumeName.baseName,
+        storageUrl: joinedUri,
+      },
+      format,
+      password,
+    );
+    if (!result.success || !result.data) {
+      cleanUp();
+
+      // Si la última parte mide lo mismo que las demás, puede que haya más.
+      const lastVolume = volumes[volumes.length - 1];
+      if (
+        result.error?.code === "invalid_archive" &&
+        lastVolume?.metadata.size === firstSize
+      ) {
+        return this.fail({
+          code: "missing_volume",
+          message: `No se pudo abrir el comprimido; puede que falte la parte ${buildArchiveVolumeName(volumeName.baseName, volumes.length + 1)}`,
+        });
+      }
+      return result;
+    }
+
+    const content = result.data;
+    return {
+      success: true,
+      data: {
+        ...content,
+        hasFile: (path) => content.hasFile(path),
+        readFile: (path, onChunk) => content.readFile(path, onChunk),
+        close: () => {
+          content.close();
+          cleanUp();
+        },
+      },
+    };
+  }
+
+  private getArchivePreviewDirectory(archiveFileId: UUID): string {
+    return this.fs.joinPath(
+      this.fs.cacheDir.uri,
+      "archive-preview",
+      archiveFileId,
+    );
+  }
+
+  /**
+   * Comprueba si ya existe el archivo ZIP de salida en la carpeta destino.
+   * Si se va a dividir, también choca con las partes de otro con el mismo nombre.
+   */
   private async checkOutputArchiveConflict(
     destinationFolderId: UUID,
     outputName: string,
+    withVolumes = false,
   ): Promise<ArchiveConflict | null> {
     const files = await this.fileService.getFilesInFolder(destinationFolderId);
-    const existing = files.find((file) => file.name === outputName);
+    const existing = files.find(
+      (file) =>
+        file.name === outputName ||
+        (withVolumes &&
+          parseArchiveVolumeName(file.name)?.baseName === outputName),
+    );
     if (!existing) {
       return null;
     }
@@ -1067,7 +2205,15 @@ export class ArchiveService {
 
   /** Intenta deducir el formato del comprimido desde el nombre o la extensión persistida. */
   private resolveArchiveFormat(archiveFile: ArchiveSourceFile): ArchiveFormat {
-    const inferredExtension = this.getExtensionFromName(archiveFile.name);
+    // "fotos.zip.001" es una parte de "fotos.zip".
+    const inferredExtension = this.getExtensionFromName(
+      parseArchiveVolumeName(archiveFile.name)?.baseName ?? archiveFile.name,
+    );
+
+    // ".tgz" es la abreviatura habitual de ".tar.gz".
+    if (inferredExtension === "tgz") {
+      return "gz";
+    }
 
     if (this.isArchiveFormat(inferredExtension)) {
       return inferredExtension;
@@ -1112,6 +2258,14 @@ export class ArchiveService {
     error: unknown,
     fallbackMessage: string,
   ): ArchiveOperationError {
+    if (error instanceof OperationCancelledError) {
+      return { code: "cancelled", message: error.message };
+    }
+
+    if (error instanceof ZipEncryptionError) {
+      return { code: error.code, message: error.message };
+    }
+
     if (error instanceof Error) {
       return { code: "unknown", message: error.message };
     }
@@ -1119,45 +2273,20 @@ export class ArchiveService {
     return { code: "unknown", message: fallbackMessage };
   }
 
-  /** Traduce el nivel de compresión lógico a opciones concretas de JSZip. */
-  private buildZipGenerationOptions(
+  /** Traduce el nivel de compresión lógico a un nivel DEFLATE; 0 es sin comprimir. */
+  private resolveDeflateLevel(
     compressionLevel?: CreateArchiveFromFilesParams["compressionLevel"],
-  ): JSZip.JSZipGeneratorOptions<"base64"> {
-    if (!compressionLevel) {
-      return {
-        type: "base64",
-        compression: "DEFLATE",
-        compressionOptions: { level: 3 },
-      };
-    }
-
+  ): number {
     switch (compressionLevel) {
       case "none":
-        return { type: "base64", compression: "STORE" };
-      case "fast":
-        return {
-          type: "base64",
-          compression: "DEFLATE",
-          compressionOptions: { level: 3 },
-        };
-      case "best":
-        return {
-          type: "base64",
-          compression: "DEFLATE",
-          compressionOptions: { level: 9 },
-        };
+        return 0;
       case "normal":
-        return {
-          type: "base64",
-          compression: "DEFLATE",
-          compressionOptions: { level: 6 },
-        };
+        return 6;
+      case "best":
+        return 9;
+      case "fast":
       default:
-        return {
-          type: "base64",
-          compression: "DEFLATE",
-          compressionOptions: { level: 3 },
-        };
+        return 3;
     }
   }
 
@@ -1195,16 +2324,14 @@ export class ArchiveService {
       throw new Error("El nombre del archivo ZIP no puede estar vacio");
     }
 
-    const expectedSuffix = `.${format}`;
-    return trimmedName.toLowerCase().endsWith(expectedSuffix)
+    // Los gzip que generamos siempre envuelven un TAR.
+    const acceptedSuffixes =
+      format === "gz" ? [".tar.gz", ".tgz"] : [`.${format}`];
+    return acceptedSuffixes.some((suffix) =>
+      trimmedName.toLowerCase().endsWith(suffix),
+    )
       ? trimmedName
-      : `${trimmedName}${expectedSuffix}`;
-  }
-
-  /** Fuerza el formato de carpeta que espera JSZip para entradas de directorio. */
-  private ensureDirectoryEntryPath(path: string): string {
-    const normalized = normalizeArchivePath(path);
-    return normalized.endsWith("/") ? normalized : `${normalized}/`;
+      : `${trimmedName}${acceptedSuffixes[0]}`;
   }
 
   /** Extrae la extensión de un nombre de archivo en minúsculas. */
@@ -1220,13 +2347,18 @@ export class ArchiveService {
 
   /** Elimina la extensión final de un nombre para reutilizarlo como carpeta base. */
   private removeExtension(name: string): string {
-    const trimmedName = name.trim();
+    const trimmedName = (parseArchiveVolumeName(name)?.baseName ?? name).trim();
     const dotIndex = trimmedName.lastIndexOf(".");
     if (dotIndex <= 0) {
       return trimmedName;
     }
 
-    return trimmedName.slice(0, dotIndex);
+    // "fotos.tar.gz" debe quedar como "fotos", no como "fotos.tar".
+    const baseName = trimmedName.slice(0, dotIndex);
+    return this.getExtensionFromName(trimmedName) === "gz" &&
+      baseName.toLowerCase().endsWith(".tar")
+      ? baseName.slice(0, -".tar".length)
+      : baseName;
   }
 
   /** Valida y limpia nombres de carpeta generados o introducidos por el usuario. */
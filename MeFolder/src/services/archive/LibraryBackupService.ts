@@ -0,0 +1,1130 @@
+import { getSchemaVersion } from "@/database/migrations/runner";
+import { ROOT_FOLDER_ID } from "@/database/seeds/systemFolders";
+import { Database } from "@/database/sqlite/Database";
+import type {
+  ArchiveOperationError,
+  ArchiveOperationResult,
+  CreateLibraryBackupParams,
+  FSFileStream,
+  LibraryBackupFileEntry,
+  LibraryBackupManifest,
+  LibraryBackupProgress,
+  LibraryBackupSummary,
+  LibraryBackupTable,
+  LibraryRestoreMode,
+  LibraryRestoreSummary,
+  RestoreLibraryBackupParams,
+  UUID,
+} from "@/types";
+import { FileSystemService } from "../filesystem/FileSystemService";
+import { joinArchivePath, resolveArchiveEntryLevel } from "./archiveUtils";
+import {
+  bytesSource,
+  ZipFormatError,
+  type ZipStreamEntry,
+  ZipStreamReader,
+  ZipStreamWriter,
+} from "./zipStream";
+
+const BACKUP_FORMAT = "mefolder-backup" as const;
+const BACKUP_FORMAT_VERSION = 1;
+const BACKUP_EXTENSION = "mefolder";
+const MANIFEST_FILE_NAME = "manifest.json";
+/** Nivel DEFLATE de las entradas que sí se comprimen (tablas, documentos) */
+const BACKUP_DEFLATE_LEVEL = 6;
+
+/** Orden de inserción: cada tabla solo referencia a tablas anteriores */
+const BACKUP_TABLES: readonly LibraryBackupTable[] = [
+  "user_colors",
+  "folders",
+  "tags",
+  "files",
+  "file_tags",
+  "smart_folders",
+];
+
+type BackupRow = Record<string, unknown>;
+type BackupTables = Record<LibraryBackupTable, BackupRow[]>;
+
+/** Contenido físico que hay que llevar a su ubicación tras restaurar */
+interface RestorePayload {
+  entry: LibraryBackupFileEntry;
+  targetUri: string;
+  thumbnailUri?: string | undefined;
+}
+
+interface RestorePlan {
+  tables: BackupTables;
+  payloads: RestorePayload[];
+  reusedCount: number;
+  remappedCount: number;
+}
+
+/** Copia abierta para leerla por bloques; quien la abre debe cerrarla */
+interface BackupArchive {
+  reader: ZipStreamReader;
+  /** Entradas de archivo por su ruta dentro de la copia */
+  entries: Map<string, ZipStreamEntry>;
+  close(): void;
+}
+
+interface ValidatedBackup {
+  archive: BackupArchive;
+  manifest: LibraryBackupManifest;
+  tables: BackupTables;
+}
+
+/**
+ * Copia de seguridad completa de la biblioteca en un único archivo .mefolder.
+ *
+ * El archivo es un ZIP con:
+ * - manifest.json: manifiesto versionado (formato, versión del esquema, recuento de filas)
+ * - data/<tabla>.json: filas de SQLite (carpetas, archivos, tags, colores, carpetas inteligentes)
+ * - files/<fileId>/<nombre>: contenido de cada archivo almacenado
+ * - thumbnails/<fileId>.jpg: miniaturas generadas
+ *
+ * La restauración valida el archivo antes de tocar nada y puede reemplazar la
+ * biblioteca actual o combinarse con ella, asignando IDs nuevos cuando colisionan.
+ *
+ * Tanto la copia como la restauración pasan cada archivo por bloques entre el
+ * disco y el ZIP, así que la memoria usada no depende del tamaño de la biblioteca.
+ */
+export class LibraryBackupService {
+  private readonly database = Database.getInstance();
+  private readonly backupDirectoryName = ".backups";
+  private readonly stagingDirectoryName = ".restore-staging";
+  private readonly thumbnailsDirectoryName = ".thumbnails";
+
+  constructor(
+    private readonly fs: FileSystemService = new FileSystemService(),
+  ) {}
+
+  /**
+   * Genera una copia de seguridad de toda la biblioteca.
+   * Solo se conserva la copia más reciente en el directorio de copias.
+   */
+  async createBackup(
+    params: CreateLibraryBackupParams = {},
+  ): Promise<ArchiveOperationResult<LibraryBackupSummary>> {
+    let backupUri: string | undefined;
+    let output: FSFileStream | undefined;
+
+    try {
+      this.ensureDbInitialized();
+
+      params.onProgress?.({
+        phase: "collect",
+        processedEntries: 0,
+        totalEntries: 1,
+      });
+      const tables = await this.readTables();
+      const createdAt = Date.now();
+      const backupDirectoryUri = this.fs.resolveUri(this.backupDirectoryName);
+      const backupFileName = `MeFolder-${this.buildBackupStamp(new Date(createdAt))}.${BACKUP_EXTENSION}`;
+      backupUri = `${backupDirectoryUri}/${backupFileName}`;
+
+      const opened = this.fs.openFileStream(backupUri, { create: true });
+      if (!opened.success || !opened.data) {
+        return this.fail({
+          code: "unknown",
+          message: opened.error ?? "No se pudo escribir la copia de seguridad",
+        });
+      }
+      output = opened.data;
+
+      const writer = new ZipStreamWriter(output, BACKUP_DEFLATE_LEVEL);
+      const entries: LibraryBackupFileEntry[] = [];
+      const missingFileIds: UUID[] = [];
+      const fileRows = tables.files;
+
+      for (const [index, row] of fileRows.entries()) {
+        const fileId = String(row.id);
+        const name = String(row.name);
+        params.onProgress?.({
+          phase: "compress",
+          processedEntries: index,
+          totalEntries: fileRows.length,
+          currentEntryName: name,
+        });
+
+        const archivePath = joinArchivePath("files", fileId, name);
+        const added = await this.addFileToBackup(
+          writer,
+          archivePath,
+          this.fs.resolveUri(String(row.storage_url ?? row.path)),
+          // Fotos y vídeos ya van comprimidos: se guardan tal cual.
+          resolveArchiveEntryLevel(archivePath, BACKUP_DEFLATE_LEVEL),
+        );
+        if (!added) {
+          missingFileIds.push(fileId);
+          continue;
+        }
+
+        let thumbnailPath: string | undefined;
+        if (typeof row.thumbnail_url === "string") {
+          const candidatePath = joinArchivePath("thumbnails", `${fileId}.jpg`);
+          if (
+            await this.addFileToBackup(
+              writer,
+              candidatePath,
+              row.thumbnail_url,
+              0,
+            )
+          ) {
+            thumbnailPath = candidatePath;
+          }
+        }
+
+        entries.push({
+          fileId,
+          archivePath,
+          size: Number(row.metadata_size ?? 0),
+          ...(thumbnailPath ? { thumbnailPath } : {}),
+        });
+      }
+
+      const manifest: LibraryBackupManifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: await getSchemaVersion(),
+        createdAt,
+        documentBaseUri: this.fs.baseUri,
+        tables: this.countRows(tables),
+        files: entries,
+        missingFileIds,
+      };
+
+      const encoder = new TextEncoder();
+      for (const table of BACKUP_TABLES) {
+        await writer.addFile(
+          this.getTableArchivePath(table),
+          bytesSource(encoder.encode(JSON.stringify(tables[table]))),
+        );
+      }
+      await writer.addFile(
+        MANIFEST_FILE_NAME,
+        bytesSource(encoder.encode(JSON.stringify(manifest, null, 2))),
+      );
+      writer.finish();
+      output.close();
+      output = undefined;
+
+      this.removePreviousBackups(backupDirectoryUri, backupUri);
+
+      return {
+        success: true,
+        data: { backupUri, backupFileName, manifest },
+      };
+    } catch (error) {
+      // No dejamos una copia a medias que luego parezca la más reciente.
+      output?.close();
+      if (backupUri && this.fs.fileExists(backupUri)) {
+        this.fs.deleteFile(backupUri);
+      }
+      return this.fail({
+        code: "unknown",
+        message:
+          error instanceof Error
+            ? error.message
+            : "No se pudo crear la copia de seguridad",
+      });
+    }
+  }
+
+  /**
+   * Restaura una copia de seguridad .mefolder.
+   *
+   * El contenido se extrae primero a un directorio temporal y las filas se
+   * insertan en una única transacción: si algo falla, la biblioteca actual
+   * queda intacta. Tras una restauración es necesario reiniciar la app.
+   */
+  async restoreBackup(
+    params: RestoreLibraryBackupParams,
+  ): Promise<ArchiveOperationResult<LibraryRestoreSummary>> {
+    const stagingUri = this.fs.resolveUri(
+      this.fs.joinPath(this.backupDirectoryName, this.stagingDirectoryName),
+    );
+    let archive: BackupArchive | undefined;
+
+    try {
+      this.ensureDbInitialized();
+
+      params.onProgress?.({
+        phase: "validate",
+        processedEntries: 0,
+        totalEntries: 1,
+      });
+
+      const validated = await this.validateBackup(params.backupUri);
+      if (!validated.success || !validated.data) {
+        return this.fail(
+          validated.error ?? {
+            code: "invalid_archive",
+            message: "La copia de seguridad no es válida",
+          },
+        );
+      }
+
+      archive = validated.data.archive;
+      const { manifest } = validated.data;
+      const plan =
+        params.mode === "replace"
+          ? this.buildReplacePlan(validated.data)
+          : await this.buildMergePlan(validated.data);
+
+      this.fs.deleteDirectory(stagingUri);
+      const stagingReady = this.fs.ensureDirectory(stagingUri);
+      if (!stagingReady.success) {
+        throw new Error(
+          stagingReady.error ?? "No se pudo preparar el directorio temporal",
+        );
+      }
+
+      const stagedPayloads = await this.stagePayloads(
+        archive,
+        plan.payloads,
+        stagingUri,
+        params.onProgress,
+      );
+
+      await this.database.withTransaction(async () => {
+        if (params.mode === "replace") {
+          await this.clearTables();
+        }
+        await this.insertTables(plan.tables, params.mode);
+      });
+
+      if (params.mode === "replace") {
+        this.removeStoredContent();
+      }
+
+      this.placeStagedPayloads(plan, stagedPayloads);
+      this.fs.deleteDirectory(stagingUri);
+
+      return {
+        success: true,
+        data: {
+          mode: params.mode,
+          manifest,
+          restoredFolderCount: plan.tables.folders.length,
+          restoredFileCount: plan.tables.files.length,
+          restoredTagCount: plan.tables.tags.length,
+          reusedCount: plan.reusedCount,
+          remappedCount: plan.remappedCount,
+        },
+      };
+    } catch (error) {
+      this.fs.deleteDirectory(stagingUri);
+      return this.fail({
+        code: "unknown",
+        message:
+          error instanceof Error
+            ? error.message
+            : "No se pudo restaurar la copia de seguridad",
+      });
+    } finally {
+      archive?.close();
+    }
+  }
+
+  /**
+   * Comprueba que el archivo es una copia de MeFolder compatible y completa:
+   * manifiesto reconocido, esquema no más reciente que el local, tablas
+   * legibles y todo el contenido listado presente en el ZIP.
+   */
+  private async validateBackup(
+    backupUri: string,
+  ): Promise<ArchiveOperationResult<ValidatedBackup>> {
+    const opened = this.openBackupArchive(backupUri);
+    if (!opened.success || !opened.data) {
+      return this.fail(
+        opened.error ?? {
+          code: "invalid_archive",
+          message: "No se pudo leer la copia de seguridad",
+        },
+      );
+    }
+
+    const archive = opened.data;
+    try {
+      const validated = await this.readBackupContents(archive);
+      if (!validated.success) {
+        archive.close();
+      }
+      return validated;
+    } catch (error) {
+      archive.close();
+      throw error;
+    }
+  }
+
+  /** Abre la copia y lee su directorio central, sin descomprimir nada todavía */
+  private openBackupArchive(
+    backupUri: string,
+  ): ArchiveOperationResult<BackupArchive> {
+    const opened = this.fs.openFileStream(backupUri);
+    if (!opened.success || !opened.data) {
+      return this.fail({
+        code: "invalid_archive",
+        message: opened.error ?? "No se pudo leer la copia de seguridad",
+      });
+    }
+
+    const input = opened.data;
+    try {
+      const reader = ZipStreamReader.open(input);
+      const entries = new Map<string, ZipStreamEntry>();
+      for (const entry of reader.entries) {
+        if (!entry.dir) {
+          entries.set(entry.name, entry);
+        }
+      }
+      return {
+        success: true,
+        data: { reader, entries, close: () => input.close() },
+      };
+    } catch (error) {
+      input.close();
+      return this.fail({
+        code: "invalid_archive",
+        message:
+          error instanceof ZipFormatError
+            ? error.message
+            : "La copia de seguridad no es válida o está dañada",
+      });
+    }
+  }
+
+  /** Lee y comprueba el manifiesto y las tablas de una copia ya abierta */
+  private async readBackupContents(
+    archive: BackupArchive,
+  ): Promise<ArchiveOperationResult<ValidatedBackup>> {
+    const manifestEntry = archive.entries.get(MANIFEST_FILE_NAME);
+    if (!manifestEntry) {
+      return this.fail({
+        code: "invalid_archive",
+        message: "El archivo no es una copia de seguridad de MeFolder",
+      });
+    }
+
+    let manifest: LibraryBackupManifest;
+    try {
+      manifest = JSON.parse(await this.readEntryText(archive, manifestEntry));
+    } catch {
+      return this.fail({
+        code: "invalid_archive",
+        message: "El manifiesto de la copia está dañado",
+      });
+    }
+
+    if (manifest?.format !== BACKUP_FORMAT || !Array.isArray(manifest.files)) {
+      return this.fail({
+        code: "invalid_archive",
+        message: "El archivo no es una copia de seguridad de MeFolder",
+      });
+    }
+
+    if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+      return this.fail({
+        code: "unsupported_version",
+        message:
+          "La copia se creó con una versión más reciente de MeFolder. Actualiza la app para restaurarla",
+      });
+    }
+
+    const localSchemaVersion = await getSchemaVersion();
+    if (manifest.schemaVersion > localSchemaVersion) {
+      return this.fail({
+        code: "unsupported_version",
+        message: `La copia usa la versión ${manifest.schemaVersion} de la base de datos y esta app solo admite hasta la ${localSchemaVersion}. Actualiza la app para restaurarla`,
+      });
+    }
+
+    const tables = {} as BackupTables;
+    for (const table of BACKUP_TABLES) {
+      const tableEntry = archive.entries.get(this.getTableArchivePath(table));
+      let rows: unknown;
+      try {
+        rows = tableEntry
+          ? JSON.parse(await this.readEntryText(archive, tableEntry))
+          : null;
+      } catch {
+        rows = null;
+      }
+
+      if (!Array.isArray(rows) || rows.length !== manifest.tables?.[table]) {
+        return this.fail({
+          code: "invalid_archive",
+          message: `La tabla ${table} de la copia falta o está incompleta`,
+        });
+      }
+      tables[table] = rows as BackupRow[];
+    }
+
+    const missingEntry = manifest.files.find(
+      (entry) =>
+        !archive.entries.has(entry.archivePath) ||
+        (entry.thumbnailPath && !archive.entries.has(entry.thumbnailPath)),
+    );
+    if (missingEntry) {
+      return this.fail({
+        code: "invalid_archive",
+        message: `Falta el contenido del archivo ${missingEntry.fileId} en la copia`,
+      });
+    }
+
+    return { success: true, data: { archive, manifest, tables } };
+  }
+
+  /** Lee una entrada pequeña de la copia (manifiesto, tablas) como texto UTF-8 */
+  private async readEntryText(
+    archive: BackupArchive,
+    entry: ZipStreamEntry,
+  ): Promise<string> {
+    const bytes = new Uint8Array(entry.uncompressedSize);
+    let offset = 0;
+    await archive.reader.readEntry(entry, (chunk) => {
+      bytes.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return new TextDecoder().decode(bytes);
+  }
+
+  /**
+   * Plan de reemplazo: se conservan los IDs y solo se trasladan las URIs
+   * absolutas al directorio de documentos de este dispositivo.
+   */
+  private buildReplacePlan(backup: ValidatedBackup): RestorePlan {
+    const { manifest, tables } = backup;
+    const entriesById = new Map(
+      manifest.files.map((entry) => [entry.fileId, entry]),
+    );
+    const payloads: RestorePayload[] = [];
+
+    const folders = tables.folders.map((row) => ({
+      ...row,
+      path: this.rebaseUri(String(row.path), manifest.documentBaseUri),
+    }));
+
+    const files = tables.files.map((row) => {
+      const path = this.rebaseUri(String(row.path), manifest.documentBaseUri);
+      const storageUrl =
+        typeof row.storage_url === "string"
+          ? this.rebaseUri(row.storage_url, manifest.documentBaseUri)
+          : null;
+      const entry = entriesById.get(String(row.id));
+      const thumbnailUri = entry?.thumbnailPath
+        ? this.getThumbnailUri(String(row.id))
+        : undefined;
+
+      if (entry) {
+        payloads.push({
+          entry,
+          targetUri: this.fs.resolveUri(storageUrl ?? path),
+          ...(thumbnailUri ? { thumbnailUri } : {}),
+        });
+      }
+
+      return {
+        ...row,
+        path,
+        storage_url: storageUrl,
+        thumbnail_url: thumbnailUri ?? null,
+      };
+    });
+
+    return {
+      tables: { ...tables, folders, files },
+      payloads,
+      reusedCount: 0,
+      remappedCount: 0,
+    };
+  }
+
+  /**
+   * Plan de combinación con la biblioteca actual:
+   * - Carpetas y tags del sistema se asocian a los locales
+   * - Carpetas con el mismo nombre en la misma carpeta padre se reutilizan
+   * - Tags con el mismo nombre y colores con el mismo hex se reutilizan
+   * - Archivos con el mismo ID y checksum se consideran el mismo archivo
+   * - Cualquier otra colisión de ID recibe un ID nuevo
+   */
+  private async buildMergePlan(backup: ValidatedBackup): Promise<RestorePlan> {
+    const { manifest, tables } = backup;
+    const base = manifest.documentBaseUri;
+    let reusedCount = 0;
+    let remappedCount = 0;
+
+    const assignId = (id: string, takenIds: Set<string>): string => {
+      if (!takenIds.has(id)) {
+        takenIds.add(id);
+        return id;
+      }
+      remappedCount += 1;
+      const newId = this.generateId(id);
+      takenIds.add(newId);
+      return newId;
+    };
+
+    // Colores de usuario
+    const localColors = await this.database.query<{
+      id: string;
+      color_hex: string;
+    }>("SELECT id, color_hex FROM user_colors");
+    const colorIds = new Set(localColors.map((color) => color.id));
+    const colorHexes = new Set(
+      localColors.map((color) => color.color_hex.toLowerCase()),
+    );
+    const userColors: BackupRow[] = [];
+
+    tables.user_colors.forEach((row) => {
+      const hex = String(row.color_hex).toLowerCase();
+      if (colorHexes.has(hex)) {
+        reusedCount += 1;
+        return;
+      }
+      colorHexes.add(hex);
+      userColors.push({ ...row, id: assignId(String(row.id), colorIds) });
+    });
+
+    // Carpetas: se procesan por nivel para resolver antes al padre
+    const localFolders = await this.database.query<{
+      id: string;
+      name: string;
+      parent_id: string | null;
+      path: string;
+      level: number;
+    }>("SELECT id, name, parent_id, path, level FROM folders");
+    const folderIds = new Set(localFolders.map((folder) => folder.id));
+    const folderById = new Map(
+      localFolders.map((folder) => [folder.id, folder]),
+    );
+    const folderByParentAndName = new Map(
+      localFolders.map((folder) => [
+        this.folderKey(folder.parent_id, folder.name),
+        folder.id,
+      ]),
+    );
+    const folderIdMap = new Map<string, string>();
+    const folders: BackupRow[] = [];
+
+    [...tables.folders]
+      .sort((left, right) => Number(left.level) - Number(right.level))
+      .forEach((row) => {
+        const sourceId = String(row.id);
+        const isSystem =
+          sourceId.startsWith("sys_") ||
+          row.type === "system" ||
+          Boolean(row.is_system_folder);
+
+        if (isSystem && folderById.has(sourceId)) {
+          folderIdMap.set(sourceId, sourceId);
+          reusedCount += 1;
+          return;
+        }
+
+        const parentId =
+          typeof row.parent_id === "string"
+            ? (folderIdMap.get(row.parent_id) ?? ROOT_FOLDER_ID)
+            : null;
+        const name = String(row.name);
+        const existingId = folderByParentAndName.get(
+          this.folderKey(parentId, name),
+        );
+
+        if (existingId) {
+          folderIdMap.set(sourceId, existingId);
+          reusedCount += 1;
+          return;
+        }
+
+        const id = assignId(sourceId, folderIds);
+        const parent = parentId ? folderById.get(parentId) : undefined;
+        const folder = {
+          id,
+          name,
+          parent_id: parentId,
+          path: `${parent?.path ?? this.fs.getParentUri(this.rebaseUri(String(row.path), base))}/${id}`,
+          level: parent ? parent.level + 1 : 0,
+        };
+
+        folderIdMap.set(sourceId, id);
+        folderById.set(id, folder);
+        folderByParentAndName.set(this.folderKey(parentId, name), id);
+        folders.push({ ...row, ...folder });
+      });
+
+    // Tags: los padres se procesan antes que sus hijos
+    const localTags = await this.database.query<{ id: string; name: string }>(
+      "SELECT id, name FROM tags",
+    );
+    const tagIds = new Set(localTags.map((tag) => tag.id));
+    const tagIdByName = new Map(localTags.map((tag) => [tag.name, tag.id]));
+    const tagIdMap = new Map<string, string>();
+    const tags: BackupRow[] = [];
+
+    this.sortByParent(tables.tags).forEach((row) => {
+      const sourceId = String(row.id);
+      const name = String(row.name);
+      const isSystem = sourceId.startsWith("sys_") || row.type === "system";
+      const existingId =
+        isSystem && tagIds.has(sourceId) ? sourceId : tagIdByName.get(name);
+
+      if (existingId) {
+        tagIdMap.set(sourceId, existingId);
+        reusedCount += 1;
+        return;
+      }
+
+      const id = assignId(sourceId, tagIds);
+      tagIdMap.set(sourceId, id);
+      tagIdByName.set(name, id);
+      tags.push({
+        ...row,
+        id,
+        parent_id:
+          typeof row.parent_id === "string"
+            ? (tagIdMap.get(row.parent_id) ?? null)
+            : null,
+      });
+    });
+
+    // Archivos
+    const localFiles = await this.database.query<{
+      id: string;
+      path: string;
+      metadata_checksum: string | null;
+    }>("SELECT id, path, metadata_checksum FROM files");
+    const fileIds = new Set(localFiles.map((file) => file.id));
+    const checksumById = new Map(
+      localFiles.map((file) => [file.id, file.metadata_checksum]),
+    );
+    const usedPaths = new Set(localFiles.map((file) => file.path));
+    const entriesById = new Map(
+      manifest.files.map((entry) => [entry.fileId, entry]),
+    );
+    const fileIdMap = new Map<string, string>();
+    const files: BackupRow[] = [];
+    const payloads: RestorePayload[] = [];
+
+    tables.files.forEach((row) => {
+      const sourceId = String(row.id);
+      const localChecksum = checksumById.get(sourceId);
+
+      if (localChecksum && localChecksum === row.metadata_checksum) {
+        fileIdMap.set(sourceId, sourceId);
+        reusedCount += 1;
+        return;
+      }
+
+      const id = assignId(sourceId, fileIds);
+      const folderId =
+        typeof row.folder_id === "string"
+          ? (folderIdMap.get(row.folder_id) ?? ROOT_FOLDER_ID)
+          : null;
+      const folderPath = folderId
+        ? folderById.get(folderId)?.path
+        : this.fs.getParentUri(this.rebaseUri(String(row.path), base));
+      const { name, path } = this.resolveUniqueFilePath(
+        folderPath ?? this.fs.resolveUri(ROOT_FOLDER_ID),
+        String(row.name),
+        usedPaths,
+      );
+      const entry = entriesById.get(sourceId);
+      const thumbnailUri = entry?.thumbnailPath
+        ? this.getThumbnailUri(id)
+        : undefined;
+
+      if (entry) {
+        payloads.push({
+          entry,
+          targetUri: path,
+          ...(thumbnailUri ? { thumbnailUri } : {}),
+        });
+      }
+
+      fileIdMap.set(sourceId, id);
+      files.push({
+        ...row,
+        id,
+        name,
+        folder_id: folderId,
+        path,
+        storage_url: row.storage_url == null ? null : path,
+        thumbnail_url: thumbnailUri ?? null,
+      });
+    });
+
+    const fileTags = tables.file_tags.flatMap((row) => {
+      const fileId = fileIdMap.get(String(row.file_id));
+      const tagId = tagIdMap.get(String(row.tag_id));
+      return fileId && tagId
+        ? [{ ...row, file_id: fileId, tag_id: tagId }]
+        : [];
+    });
+
+    // Carpetas inteligentes: se remapean también los IDs de sus filtros
+    const localSmartFolders = await this.database.query<{ id: string }>(
+      "SELECT id FROM smart_folders",
+    );
+    const smartFolderIds = new Set(localSmartFolders.map((row) => row.id));
+    const smartFolders = tables.smart_folders.map((row) => ({
+      ...row,
+      id: assignId(String(row.id), smartFolderIds),
+      parent_id: folderIdMap.get(String(row.parent_id)) ?? ROOT_FOLDER_ID,
+      filters_json: this.remapSmartFolderFilters(
+        String(row.filters_json ?? "{}"),
+        tagIdMap,
+        folderIdMap,
+      ),
+    }));
+
+    return {
+      tables: {
+        user_colors: userColors,
+        folders,
+        tags,
+        files,
+        file_tags: fileTags,
+        smart_folders: smartFolders,
+      },
+      payloads,
+      reusedCount,
+      remappedCount,
+    };
+  }
+
+  /** Extrae al directorio temporal el contenido y las miniaturas del plan */
+  private async stagePayloads(
+    archive: BackupArchive,
+    payloads: RestorePayload[],
+    stagingUri: string,
+    onProgress?: (progress: LibraryBackupProgress) => void,
+  ): Promise<string[]> {
+    const stagedUris: string[] = [];
+
+    for (const [index, payload] of payloads.entries()) {
+      onProgress?.({
+        phase: "restore",
+        processedEntries: index,
+        totalEntries: payloads.length,
+        currentEntryName: this.fs.getFileName(payload.targetUri),
+      });
+
+      const stagedUri = `${stagingUri}/${index}`;
+      await this.extractEntry(archive, payload.entry.archivePath, stagedUri);
+
+      if (payload.entry.thumbnailPath) {
+        await this.extractEntry(
+          archive,
+          payload.entry.thumbnailPath,
+          `${stagedUri}.thumb`,
+        );
+      }
+
+      stagedUris.push(stagedUri);
+    }
+
+    return stagedUris;
+  }
+
+  /** Vuelca una entrada de la copia en `targetUri` bloque a bloque */
+  private async extractEntry(
+    archive: BackupArchive,
+    archivePath: string,
+    targetUri: string,
+  ): Promise<void> {
+    const entry = archive.entries.get(archivePath);
+    if (!entry) {
+      throw new Error(`Falta ${archivePath} en la copia de seguridad`);
+    }
+
+    const output = this.fs.openFileStream(targetUri, { create: true });
+    if (!output.success || !output.data) {
+      throw new Error(output.error ?? `No se pudo extraer ${archivePath}`);
+    }
+
+    const stream = output.data;
+    try {
+      await archive.reader.readEntry(entry, (chunk) => stream.write(chunk));
+    } catch (error) {
+      stream.close();
+      this.fs.deleteFile(targetUri);
+      throw error;
+    }
+    stream.close();
+  }
+
+  /**
+   * Añade a la copia el archivo de `sourceUri` leyéndolo por bloques.
+   * Devuelve false si el archivo no existe o no se puede abrir.
+   */
+  private async addFileToBackup(
+    writer: ZipStreamWriter,
+    archivePath: string,
+    sourceUri: string,
+    level: number,
+  ): Promise<boolean> {
+    const input = this.fs.openFileStream(sourceUri);
+    if (!input.success || !input.data) {
+      return false;
+    }
+
+    try {
+      await writer.addFile(archivePath, input.data, { level });
+    } finally {
+      input.data.close();
+    }
+    return true;
+  }
+
+  /** Mueve el contenido extraído a las rutas definitivas de la biblioteca */
+  private placeStagedPayloads(plan: RestorePlan, stagedUris: string[]): void {
+    plan.tables.folders.forEach((folder) => {
+      this.fs.ensureDirectory(String(folder.path));
+    });
+
+    plan.payloads.forEach((payload, index) => {
+      const stagedUri = stagedUris[index];
+      if (!stagedUri) return;
+
+      this.moveReplacing(stagedUri, payload.targetUri);
+      if (payload.thumbnailUri) {
+        this.moveReplacing(`${stagedUri}.thumb`, payload.thumbnailUri);
+      }
+    });
+  }
+
+  private moveReplacing(fromUri: string, toUri: string): void {
+    if (this.fs.fileExists(toUri)) {
+      this.fs.deleteFile(toUri);
+    }
+    this.fs.ensureDirectory(this.fs.getParentUri(toUri));
+
+    const moved = this.fs.moveFile({ from: fromUri, to: toUri });
+    if (!moved.success) {
+      console.warn(`No se pudo restaurar ${toUri}: ${moved.error}`);
+    }
+  }
+
+  private async readTables(): Promise<BackupTables> {
+    const tables = {} as BackupTables;
+    for (const table of BACKUP_TABLES) {
+      tables[table] = await this.database.query<BackupRow>(
+        `SELECT * FROM ${table}`,
+      );
+    }
+    return tables;
+  }
+
+  /** Vacía todas las tablas de la biblioteca, de dependientes a referenciadas */
+  private async clearTables(): Promise<void> {
+    for (const table of [...BACKUP_TABLES].reverse()) {
+      await this.database.execute(`DELETE FROM ${table}`);
+    }
+  }
+
+  /**
+   * Inserta las filas de la copia. Solo se usan las columnas que existen en el
+   * esquema local, de modo que las copias de esquemas anteriores toman los
+   * valores por defecto de las columnas añadidas después.
+   */
+  private async insertTables(
+    tables: BackupTables,
+    mode: LibraryRestoreMode,
+  ): Promise<void> {
+    for (const table of BACKUP_TABLES) {
+      const rows =
+        table === "folders" || table === "tags"
+          ? this.sortByParent(tables[table])
+          : tables[table];
+      if (rows.length === 0) continue;
+
+      const columnInfo = await this.database.query<{ name: string }>(
+        `PRAGMA table_info(${table})`,
+      );
+      const localColumns = new Set(columnInfo.map((column) => column.name));
+      const verb =
+        mode === "merge" && table === "file_tags"
+          ? "INSERT OR IGNORE"
+          : "INSERT";
+
+      for (const row of rows) {
+        const columns = Object.keys(row).filter((column) =>
+          localColumns.has(column),
+        );
+        await this.database.execute(
+          `${verb} INTO ${table} (${columns.join(", ")}) VALUES (${columns.map(() => "?").join(", ")})`,
+          columns.map((column) => row[column] ?? null),
+        );
+      }
+    }
+  }
+
+  /** Elimina el contenido físico de la biblioteca reemplazada */
+  private removeStoredContent(): void {
+    [
+      this.fs.resolveUri("root"),
+      this.fs.resolveUri(ROOT_FOLDER_ID),
+      this.fs.resolveUri(this.thumbnailsDirectoryName),
+    ].forEach((uri) => {
+      const result = this.fs.deleteDirectory(uri);
+      if (!result.success) {
+        console.warn(
+          `No se pudo eliminar el directorio ${uri}: ${result.error}`,
+        );
+      }
+    });
+  }
+
+  private removePreviousBackups(
+    backupDirectoryUri: string,
+    latestBackupUri: string,
+  ): void {
+    const listing = this.fs.listDirectory(backupDirectoryUri);
+    listing.data
+      ?.filter(
+        (entry) =>
+          !entry.isDirectory &&
+          entry.uri !== latestBackupUri &&
+          entry.name.endsWith(`.${BACKUP_EXTENSION}`),
+      )
+      .forEach((entry) => this.fs.deleteFile(entry.uri));
+  }
+
+  /** Ordena filas con parent_id para que cada padre preceda a sus hijos */
+  private sortByParent(rows: BackupRow[]): BackupRow[] {
+    const rowsById = new Map(rows.map((row) => [String(row.id), row]));
+    const sorted: BackupRow[] = [];
+    const visited = new Set<string>();
+
+    const visit = (row: BackupRow) => {
+      const id = String(row.id);
+      if (visited.has(id)) return;
+      visited.add(id);
+
+      const parent =
+        typeof row.parent_id === "string"
+          ? rowsById.get(row.parent_id)
+          : undefined;
+      if (parent) visit(parent);
+      sorted.push(row);
+    };
+
+    rows.forEach(visit);
+    return sorted;
+  }
+
+  private remapSmartFolderFilters(
+    filtersJson: string,
+    tagIdMap: Map<string, string>,
+    folderIdMap: Map<string, string>,
+  ): string {
+    try {
+      const filters = JSON.parse(filtersJson) as Record<string, unknown>;
+      const remap = (value: unknown, idMap: Map<string, string>) =>
+        Array.isArray(value)
+          ? value.map((id: string) => idMap.get(id) ?? id)
+          : value;
+
+      return JSON.stringify({
+        ...filters,
+        ...(filters.tagIds ? { tagIds: remap(filters.tagIds, tagIdMap) } : {}),
+        ...(filters.excludedTagIds
+          ? { excludedTagIds: remap(filters.excludedTagIds, tagIdMap) }
+          : {}),
+        ...(filters.folderIds
+          ? { folderIds: remap(filters.folderIds, folderIdMap) }
+          : {}),
+      });
+    } catch {
+      return filtersJson;
+    }
+  }
+
+  /** Devuelve un nombre libre en la carpeta: "foto.jpg", "foto (2).jpg"... */
+  private resolveUniqueFilePath(
+    folderPath: string,
+    fileName: string,
+    usedPaths: Set<string>,
+  ): { name: string; path: string } {
+    const dotIndex = fileName.lastIndexOf(".");
+    const baseName = dotIndex > 0 ? fileName.slice(0, dotIndex) : fileName;
+    const extension = dotIndex > 0 ? fileName.slice(dotIndex) : "";
+    let name = fileName;
+    let suffix = 2;
+
+    while (usedPaths.has(`${folderPath}/${name}`)) {
+      name = `${baseName} (${suffix})${extension}`;
+      suffix += 1;
+    }
+
+    const path = `${folderPath}/${name}`;
+    usedPaths.add(path);
+    return { name, path };
+  }
+
+  /** Traslada una URI absoluta del dispositivo de origen a este dispositivo */
+  private rebaseUri(uri: string, sourceBaseUri: string): string {
+    const normalizedSource = sourceBaseUri.replace(/\/+$/, "");
+    if (normalizedSource && uri.startsWith(`${normalizedSource}/`)) {
+      return this.fs.joinPath(
+        this.fs.baseUri,
+        uri.slice(normalizedSource.length + 1),
+      );
+    }
+    return uri;
+  }
+
+  private getThumbnailUri(fileId: string): string {
+    return this.fs.resolveUri(
+      this.fs.joinPath(this.thumbnailsDirectoryName, `${fileId}.jpg`),
+    );
+  }
+
+  private getTableArchivePath(table: LibraryBackupTable): string {
+    return joinArchivePath("data", `${table}.json`);
+  }
+
+  private countRows(tables: BackupTables): Record<LibraryBackupTable, number> {
+    return Object.fromEntries(
+      BACKUP_TABLES.map((table) => [table, tables[table].length]),
+    ) as Record<LibraryBackupTable, number>;
+  }
+
+  private folderKey(parentId: string | null, name: string): string {
+    return `${parentId ?? ""}/${name.toLowerCase()}`;
+  }
+
+  /** Genera un ID nuevo conservando el prefijo del original (file_, folder_...) */
+  private generateId(sourceId: string): string {
+    const separatorIndex = sourceId.indexOf("_");
+    const prefix =
+      separatorIndex > 0 ? sourceId.slice(0, separatorIndex) : "item";
+    return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private buildBackupStamp(date: Date): string {
+    const pad = (value: number): string => String(value).padStart(2, "0");
+
+    return [
+      date.getFullYear(),
+      pad(date.getMonth() + 1),
+      pad(date.getDate()),
+      "-",
+      pad(date.getHours()),
+      pad(date.getMinutes()),
+      pad(date.getSeconds()),
+    ].join("");
+  }
+
+  private ensureDbInitialized(): void {
+    if (!this.database.isInitialized()) {
+      throw new Error("La base de datos no está inicializada todavía.");
+    }
+  }
+
+  private fail<T>(error: ArchiveOperationError): ArchiveOperationResult<T> {
+    return { success: false, error };
+  }
+}
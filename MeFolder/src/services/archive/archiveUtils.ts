@@ -1,12 +1,54 @@
-import JSZip from "jszip";
 import type {
   ArchiveEntryDescriptor,
   ArchiveFutureOptions,
   ArchiveOperationError,
   ArchiveOperationResult,
-  ArchiveUnsupportedFeature,
+  FSFileStream,
 } from "@/types";
+import {
+  FILE_CATEGORY_MAP,
+  type FileCategory,
+} from "@/types/common/file-extensions";
 import { FileSystemService } from "../filesystem/FileSystemService";
+import { gunzipStream } from "./gzip";
+import {
+  isTarArchive,
+  readTarEntries,
+  readTarEntryContent,
+  type TarStreamEntry,
+} from "./tarArchive";
+import { ZipEncryptionError } from "./zipEncryption";
+import {
+  ZipFormatError,
+  type ZipStreamEntry,
+  ZipStreamReader,
+} from "./zipStream";
+
+export interface ArchiveDeclaredEntry {
+  name: string;
+  dir: boolean;
+  sizes: { compressedSize: number; uncompressedSize: number } | null;
+}
+
+/**
+ * Comprimido abierto para inspeccionarlo o extraerlo. El contenido de cada
+ * archivo se lee bajo demanda y llega por bloques de tamaño acotado.
+ */
+export interface ArchiveContent {
+  /** El archivo original tenía entradas cifradas con contraseña */
+  encrypted: boolean;
+  /** Entradas tal y como las declara el contenedor, para las comprobaciones de seguridad */
+  declaredEntries: ArchiveDeclaredEntry[];
+  /** Indica si existe un archivo con la ruta normalizada `path` */
+  hasFile(path: string): boolean;
+  /** Entrega por bloques el contenido del archivo con la ruta normalizada `path` */
+  readFile(
+    path: string,
+    onChunk: (chunk: Uint8Array) => void | Promise<void>,
+  ): Promise<void>;
+  /** Libera el archivo abierto; después no se puede seguir leyendo */
+  close(): void;
+}
 
 export function normalizeArchivePath(path: string): string {
   const segments: string[] = [];
@@ -43,14 +85,77 @@ export function getParentArchivePath(path: string): string | undefined {
   return normalizedPath.split("/").slice(0, -1).join("/");
 }
 
-export function buildArchiveEntries(
-  zip: JSZip,
+/** Categorías cuyos formatos ya van comprimidos */
+const PRECOMPRESSED_CATEGORIES = new Set<FileCategory>([
+  "image",
+  "video",
+  "audio",
+  "archive",
+]);
+
+/** Formatos de esas categorías que se guardan sin comprimir y sí ganan con DEFLATE */
+const UNCOMPRESSED_MEDIA_EXTENSIONS = new Set(["bmp", "svg", "wav", "tar"]);
+
+/** Otros formatos comprimidos: contenedores ZIP de ofimática y los que la app no clasifica */
+const EXTRA_PRECOMPRESSED_EXTENSIONS = new Set([
+  "docx",
+  "xlsx",
+  "pptx",
+  "odt",
+  "ods",
+  "epub",
+  "apk",
+  "jar",
+  "avif",
+  "ogg",
+  "opus",
+  "3gp",
+  "xz",
+  "bz2",
+  "zst",
+  "tgz",
+]);
+
+/**
+ * Nivel DEFLATE de una entrada concreta del ZIP. Fotos, vídeos, audio y otros
+ * comprimidos se guardan tal cual (STORE): DEFLATE apenas reduce su tamaño y
+ * cuesta mucha CPU. Texto, código y documentos usan el nivel pedido.
+ */
+export function resolveArchiveEntryLevel(path: string, level: number): number {
+  if (level === 0) {
+    return 0;
+  }
+
+  const fileName = path.slice(path.lastIndexOf("/") + 1);
+  const dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex <= 0) {
+    return level;
+  }
+
+  const extension = fileName.slice(dotIndex + 1).toLowerCase();
+  if (EXTRA_PRECOMPRESSED_EXTENSIONS.has(extension)) {
+    return 0;
+  }
+
+  const category = (FILE_CATEGORY_MAP as Partial<Record<string, FileCategory>>)[
+    extension
+  ];
+  return category &&
+    PRECOMPRESSED_CATEGORIES.has(category) &&
+    !UNCOMPRESSED_MEDIA_EXTENSIONS.has(extension)
+    ? 0
+    : level;
+}
+
+/** Árbol de carpetas y archivos a partir de las entradas que declara el contenedor */
+export function buildArchiveEntriesFromDeclared(
+  declaredEntries: ArchiveDeclaredEntry[],
   shouldSkipEntry?: (path: string) => boolean,
 ): ArchiveEntryDescriptor[] {
   const directories = new Map<string, ArchiveEntryDescriptor>();
   const files: ArchiveEntryDescriptor[] = [];
 
-  for (const zipEntry of Object.values(zip.files)) {
+  for (const zipEntry of declaredEntries) {
     const normalizedPath = normalizeArchivePath(zipEntry.name);
     if (!normalizedPath || shouldSkipEntry?.(normalizedPath)) {
       continue;
@@ -81,12 +186,26 @@ export function buildArchiveEntries(
       continue;
     }
 
+    const size = zipEntry.sizes?.uncompressedSize;
     files.push({
       path: normalizedPath,
       name: segments[segments.length - 1] ?? normalizedPath,
       type: "file",
       depth: segments.length,
+      ...(size !== undefined ? { size } : {}),
     });
+
+    // Las carpetas acumulan el tamaño de todo su subárbol.
+    if (size !== undefined) {
+      for (let index = 0; index < segments.length - 1; index += 1) {
+        const directory = directories.get(
+          segments.slice(0, index + 1).join("/"),
+        );
+        if (directory) {
+          directory.size = (directory.size ?? 0) + size;
+        }
+      }
+    }
   }
 
   return [...directories.values(), ...files].sort((left, right) => {
@@ -98,26 +217,56 @@ export function buildArchiveEntries(
   });
 }
 
-export function indexZipFiles(
-  zip: JSZip,
-  shouldSkipEntry?: (path: string) => boolean,
-): Map<string, JSZip.JSZipObject> {
-  const indexedEntries = new Map<string, JSZip.JSZipObject>();
+/** Indica si `path` es la propia ruta seleccionada o cuelga de ella. */
+export function isArchivePathWithin(
+  path: string,
+  selectedPath: string,
+): boolean {
+  return path === selectedPath || path.startsWith(`${selectedPath}/`);
+}
 
-  for (const entry of Object.values(zip.files)) {
-    if (entry.dir) {
-      continue;
-    }
+/**
+ * Reduce el árbol de entradas a la selección del usuario. Seleccionar una
+ * carpeta incluye todo su subárbol y, para poder recrear la estructura, se
+ * conservan también las carpetas ancestro de cada entrada elegida.
+ * Devuelve las rutas seleccionadas que no existen en el ZIP en `missingPaths`.
+ */
+export function selectArchiveEntries(
+  entries: ArchiveEntryDescriptor[],
+  selectedPaths: string[],
+): { entries: ArchiveEntryDescriptor[]; missingPaths: string[] } {
+  const normalizedSelection = [
+    ...new Set(selectedPaths.map((path) => normalizeArchivePath(path))),
+  ].filter(Boolean);
+  const knownPaths = new Set(entries.map((entry) => entry.path));
+  const missingPaths = normalizedSelection.filter(
+    (path) => !knownPaths.has(path),
+  );
 
-    const normalizedPath = normalizeArchivePath(entry.name);
-    if (!normalizedPath || shouldSkipEntry?.(normalizedPath)) {
+  const includedPaths = new Set<string>();
+  for (const entry of entries) {
+    if (
+      !normalizedSelection.some((selectedPath) =>
+        isArchivePathWithin(entry.path, selectedPath),
+      )
+    ) {
       continue;
     }
 
-    indexedEntries.set(normalizedPath, entry);
+    includedPaths.add(entry.path);
+    for (
+      let parentPath = getParentArchivePath(entry.path);
+      parentPath;
+      parentPath = getParentArchivePath(parentPath)
+    ) {
+      includedPaths.add(parentPath);
+    }
   }
 
-  return indexedEntries;
+  return {
+    entries: entries.filter((entry) => includedPaths.has(entry.path)),
+    missingPaths,
+  };
 }
 
 export function validateArchiveFutureOptions(
@@ -127,57 +276,289 @@ export function validateArchiveFutureOptions(
     return null;
   }
 
-  const unsupported: ArchiveUnsupportedFeature[] = [];
-
-  if (options.password) {
-    unsupported.push("password");
+  if (options.encryption && !options.password) {
+    return {
+      code: "unsupported_option",
+      message: "Indica una contraseña para cifrar el ZIP",
+    };
   }
-  if (options.encryption) {
-    unsupported.push("encryption");
+
+  return null;
+}
+
+/**
+ * Abre un ZIP para leerlo por bloques directamente del disco. Las entradas
+ * cifradas se descifran según se leen; sin `password` se devuelve
+ * `password_required` y con una incorrecta, `wrong_password`.
+ */
+export async function openZipArchiveContent(
+  fs: FileSystemService,
+  archiveUri: string,
+  password?: string,
+): Promise<ArchiveOperationResult<ArchiveContent>> {
+  const stream = fs.openFileStream(archiveUri);
+  if (!stream.success || !stream.data) {
+    return {
+      success: false,
+      error: {
+        code: "invalid_archive",
+        message: stream.error ?? "No se pudo leer el ZIP",
+      },
+    };
   }
-  if (options.partialEntries && options.partialEntries.length > 0) {
-    unsupported.push("partial_extraction");
+
+  let reader: ZipStreamReader;
+  try {
+    reader = ZipStreamReader.open(stream.data);
+  } catch (error) {
+    stream.data.close();
+    return {
+      success: false,
+      error: {
+        code: "invalid_archive",
+        message:
+          error instanceof ZipFormatError
+            ? error.message
+            : "El archivo ZIP no es valido o esta corrupto",
+      },
+    };
   }
-  if (options.overwriteMode) {
-    unsupported.push("advanced_overwrite_mode");
+
+  if (reader.encrypted) {
+    if (!password) {
+      stream.data.close();
+      return {
+        success: false,
+        error: {
+          code: "password_required",
+          message: "El ZIP está protegido con contraseña",
+        },
+      };
+    }
+
+    try {
+      reader.unlock(password);
+    } catch (error) {
+      stream.data.close();
+      return {
+        success: false,
+        error:
+          error instanceof ZipEncryptionError
+            ? { code: error.code, message: error.message }
+            : {
+                code: "invalid_archive",
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : "El archivo ZIP no es valido o esta corrupto",
+              },
+      };
+    }
   }
 
-  if (unsupported.length === 0) {
-    return null;
+  const input = stream.data;
+  const files = new Map<string, ZipStreamEntry>();
+  for (const entry of reader.entries) {
+    const normalizedPath = normalizeArchivePath(entry.name);
+    if (!entry.dir && normalizedPath) {
+      files.set(normalizedPath, entry);
+    }
   }
 
   return {
-    code: "unsupported_option",
-    message:
-      "Se han indicado opciones reservadas para futuras iteraciones y aun no estan soportadas",
-    unsupportedFeatures: unsupported,
+    success: true,
+    data: {
+      encrypted: reader.encrypted,
+      declaredEntries: reader.entries.map((entry) => ({
+        name: entry.name,
+        dir: entry.dir,
+        sizes: entry.dir
+          ? null
+          : {
+              compressedSize: entry.compressedSize,
+              uncompressedSize: entry.uncompressedSize,
+            },
+      })),
+      hasFile: (path) => files.has(path),
+      readFile: async (path, onChunk) => {
+        const entry = files.get(path);
+        if (!entry) {
+          throw new Error(`No se encontro la entrada ${path} en el ZIP`);
+        }
+        await reader.readEntry(entry, onChunk);
+      },
+      close: () => input.close(),
+    },
   };
 }
 
-export async function loadZipFromUri(
+/**
+ * Vuelca un archivo del comprimido en `targetUri` bloque a bloque. Si algo
+ * falla, incluido `onBytes`, se borra lo que se haya escrito.
+ */
+export async function writeArchiveEntryToFile(
+  fs: FileSystemService,
+  archive: ArchiveContent,
+  path: string,
+  targetUri: string,
+  onBytes?: (count: number) => void,
+): Promise<void> {
+  const output = fs.openFileStream(targetUri, { create: true });
+  if (!output.success || !output.data) {
+    throw new Error(output.error ?? `No se pudo escribir ${path}`);
+  }
+
+  const stream = output.data;
+  try {
+    await archive.readFile(path, (chunk) => {
+      stream.write(chunk);
+      onBytes?.(chunk.length);
+    });
+  } catch (error) {
+    stream.close();
+    fs.deleteFile(targetUri);
+    throw error;
+  }
+  stream.close();
+}
+
+/**
+ * Abre un TAR, comprimido o no con gzip, para leerlo por bloques igual que un
+ * ZIP. Un TAR.GZ se descomprime por bloques a un archivo de la caché, que se
+ * borra al cerrar, y luego se recorren sus cabeceras. Un `.gz` que no contiene
+ * un TAR se expone como un único archivo llamado `singleFileName`.
+ */
+export async function openTarArchiveContent(
   fs: FileSystemService,
   archiveUri: string,
-): Promise<ArchiveOperationResult<JSZip>> {
-  const archiveBase64 = await fs.readAsBase64(archiveUri);
-  if (!archiveBase64.success || !archiveBase64.data) {
+  options: {
+    gzipped: boolean;
+    singleFileName: string;
+    /** Límite de tamaño descomprimido; se corta la descompresión al superarlo */
+    maxUncompressedBytes: number;
+  },
+): Promise<ArchiveOperationResult<ArchiveContent>> {
+  const source = fs.openFileStream(archiveUri);
+  if (!source.success || !source.data) {
     return {
       success: false,
       error: {
         code: "invalid_archive",
-        message: archiveBase64.error ?? "No se pudo leer el ZIP",
+        message: source.error ?? "No se pudo leer el archivo comprimido",
       },
     };
   }
 
+  const compressedSize = source.data.size;
+  let input: FSFileStream | undefined = source.data;
+  let stagingDirectory: string | undefined;
+  const cleanUp = () => {
+    input?.close();
+    input = undefined;
+    if (stagingDirectory && fs.directoryExists(stagingDirectory)) {
+      fs.deleteDirectory(stagingDirectory);
+    }
+  };
+
   try {
-    const zip = await JSZip.loadAsync(archiveBase64.data, { base64: true });
-    return { success: true, data: zip };
-  } catch {
+    if (options.gzipped) {
+      stagingDirectory = fs.joinPath(
+        fs.cacheDir.uri,
+        "archive-staging",
+        `${Date.now()}`,
+      );
+      const tarUri = fs.joinPath(stagingDirectory, "content.tar");
+      fs.ensureDirectory(stagingDirectory);
+      const staging = fs.openFileStream(tarUri, { create: true });
+      if (!staging.success || !staging.data) {
+        throw new Error(staging.error ?? "No se pudo descomprimir el archivo");
+      }
+
+      const stagingStream = staging.data;
+      try {
+        await gunzipStream(
+          input,
+          (bytes) => stagingStream.write(bytes),
+          options.maxUncompressedBytes,
+        );
+      } finally {
+        stagingStream.close();
+      }
+      input.close();
+      input = undefined;
+
+      const tar = fs.openFileStream(tarUri);
+      if (!tar.success || !tar.data) {
+        throw new Error(tar.error ?? "No se pudo descomprimir el archivo");
+      }
+      input = tar.data;
+    }
+
+    const tarInput = input;
+    tarInput.position = 0;
+    const tarEntries: TarStreamEntry[] =
+      options.gzipped && !isTarArchive(tarInput.read(512))
+        ? [
+            {
+              path: options.singleFileName,
+              type: "file",
+              size: tarInput.size,
+              dataOffset: 0,
+              modifiedAt: new Date(),
+            },
+          ]
+        : readTarEntries(tarInput);
+
+    // gzip comprime el TAR entero: repartimos el tamaño comprimido de forma
+    // proporcional para que el ratio de cada entrada sea el del archivo completo.
+    const compressionRatio = compressedSize / Math.max(tarInput.size, 1);
+    const files = new Map<string, TarStreamEntry>();
+    for (const entry of tarEntries) {
+      const normalizedPath = normalizeArchivePath(entry.path);
+      if (entry.type === "file" && normalizedPath) {
+        files.set(normalizedPath, entry);
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        encrypted: false,
+        declaredEntries: tarEntries.map((entry) => ({
+          name: entry.path,
+          dir: entry.type === "directory",
+          sizes:
+            entry.type === "directory"
+              ? null
+              : {
+                  compressedSize: Math.max(
+                    1,
+                    Math.round(entry.size * compressionRatio),
+                  ),
+                  uncompressedSize: entry.size,
+                },
+        })),
+        hasFile: (path) => files.has(path),
+        readFile: async (path, onChunk) => {
+          const entry = files.get(path);
+          if (!entry) {
+            throw new Error(`No se encontro la entrada ${path} en el TAR`);
+          }
+          await readTarEntryContent(tarInput, entry, onChunk);
+        },
+        close: cleanUp,
+      },
+    };
+  } catch (error) {
+    cleanUp();
     return {
       success: false,
       error: {
         code: "invalid_archive",
-        message: "El archivo ZIP no es valido o esta corrupto",
+        message:
+          error instanceof Error
+            ? error.message
+            : "El archivo TAR no es valido o esta corrupto",
       },
     };
   }
@@ -0,0 +1,147 @@
+import { throwIfCancelled } from "@/utils/errors";
+import type { FileSystemService } from "../filesystem/FileSystemService";
+import { ZIP_STREAM_CHUNK_SIZE } from "./zipStream";
+
+/**
+ * Comprimidos divididos en partes ("volúmenes") de tamaño fijo, para poder
+ * compartirlos por apps que limitan el tamaño de los adjuntos.
+ *
+ * Cada parte es un trozo consecutivo del archivo original y se llama como él
+ * seguido de ".001", ".002"... (el mismo esquema que 7-Zip o HJSplit), así que
+ * el original se recupera concatenando las partes en orden.
+ */
+
+const VOLUME_NAME_PATTERN = /^(.+)\.(\d{3})$/;
+const MAX_VOLUMES = 999;
+
+export interface ArchiveVolumeName {
+  /** Nombre del comprimido original: "fotos.zip" para "fotos.zip.001" */
+  baseName: string;
+  /** Número de la parte, empezando en 1 */
+  index: number;
+}
+
+/** Reconoce el nombre de una parte; null si no lo es */
+export function parseArchiveVolumeName(name: string): ArchiveVolumeName | null {
+  const match = VOLUME_NAME_PATTERN.exec(name.trim());
+  if (!match?.[1] || !match[2]) {
+    return null;
+  }
+
+  const index = Number(match[2]);
+  return index > 0 ? { baseName: match[1], index } : null;
+}
+
+export function buildArchiveVolumeName(
+  baseName: string,
+  index: number,
+): string {
+  return `${baseName}.${String(index).padStart(3, "0")}`;
+}
+
+/**
+ * Divide `sourceUri` en partes de `volumeSize` bytes como mucho. Las URIs de
+ * cada parte las decide `resolveVolumeUri`. Si algo falla se borran las partes
+ * ya escritas y el original queda intacto.
+ */
+export async function splitIntoVolumes(
+  fs: FileSystemService,
+  sourceUri: string,
+  volumeSize: number,
+  resolveVolumeUri: (index: number) => string,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const input = fs.openFileStream(sourceUri);
+  if (!input.success || !input.data) {
+    throw new Error(input.error ?? "No se pudo leer el archivo comprimido");
+  }
+
+  const source = input.data;
+  const volumeUris: string[] = [];
+  try {
+    const volumeCount = Math.max(1, Math.ceil(source.size / volumeSize));
+    if (volumeCount > MAX_VOLUMES) {
+      throw new Error(
+        `El archivo necesitaría más de ${MAX_VOLUMES} partes; elige un tamaño de parte mayor`,
+      );
+    }
+
+    for (let index = 1; index <= volumeCount; index++) {
+      const volumeUri = resolveVolumeUri(index);
+      const output = fs.openFileStream(volumeUri, { create: true });
+      if (!output.success || !output.data) {
+        throw new Error(output.error ?? "No se pudo crear la parte");
+      }
+      volumeUris.push(volumeUri);
+
+      try {
+        let written = 0;
+        while (written < volumeSize) {
+          throwIfCancelled(signal);
+          const chunk = source.read(
+            Math.min(ZIP_STREAM_CHUNK_SIZE, volumeSize - written),
+          );
+          if (chunk.length === 0) break;
+
+          output.data.write(chunk);
+          written += chunk.length;
+          await yieldToEventLoop();
+        }
+      } finally {
+        output.data.close();
+      }
+    }
+
+    return volumeUris;
+  } catch (error) {
+    volumeUris.forEach((uri) => {
+      if (fs.fileExists(uri)) {
+        fs.deleteFile(uri);
+      }
+    });
+    throw error;
+  } finally {
+    source.close();
+  }
+}
+
+/** Concatena las partes en orden en `outputUri` */
+export async function joinVolumes(
+  fs: FileSystemService,
+  volumeUris: string[],
+  outputUri: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  const output = fs.openFileStream(outputUri, { create: true });
+  if (!output.success || !output.data) {
+    throw new Error(output.error ?? "No se pudo reunir las partes");
+  }
+
+  try {
+    for (const volumeUri of volumeUris) {
+      const input = fs.openFileStream(volumeUri);
+      if (!input.success || !input.data) {
+        throw new Error(input.error ?? "No se pudo leer una de las partes");
+      }
+
+      try {
+        for (;;) {
+          throwIfCancelled(signal);
+          const chunk = input.data.read(ZIP_STREAM_CHUNK_SIZE);
+          if (chunk.length === 0) break;
+
+          output.data.write(chunk);
+          await yieldToEventLoop();
+        }
+      } finally {
+        input.data.close();
+      }
+    }
+  } finally {
+    output.data.close();
+  }
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
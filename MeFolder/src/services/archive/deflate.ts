@@ -0,0 +1,1113 @@
+/**
+ * DEFLATE crudo (RFC 1951) por bloques.
+ *
+ * JSZip solo comprime y descomprime buffers completos, lo que obliga a tener
+ * cada archivo entero en memoria (y en base64). Estas clases procesan el flujo
+ * a trozos con un estado acotado, la ventana de 32 KB del formato más unos
+ * búferes de tamaño fijo, para que comprimir o extraer un vídeo de varios GB
+ * no dependa de la memoria del dispositivo.
+ */
+
+const WINDOW_SIZE = 32768;
+const WINDOW_MASK = WINDOW_SIZE - 1;
+const MIN_MATCH = 3;
+const MAX_MATCH = 258;
+/** Datos que deben quedar por delante para buscar la coincidencia más larga */
+const MIN_LOOKAHEAD = MAX_MATCH + MIN_MATCH + 1;
+const HASH_BITS = 15;
+const HASH_SIZE = 1 << HASH_BITS;
+const HASH_MASK = HASH_SIZE - 1;
+const END_OF_BLOCK = 256;
+const LITERAL_LENGTH_CODES = 286;
+const DISTANCE_CODES = 30;
+const CODE_LENGTH_CODES = 19;
+const MAX_CODE_BITS = 15;
+const MAX_CODE_LENGTH_BITS = 7;
+const MAX_STORED_BLOCK = 0xffff;
+/** Un bloque se cierra al llegar a este número de símbolos... */
+const MAX_BLOCK_SYMBOLS = 16384;
+/** ...o a estos bytes sin comprimir, que se guardan por si conviene un bloque "stored" */
+const MAX_BLOCK_BYTES = 128 * 1024;
+/** Bytes que se piden de cada vez al descomprimir un flujo zlib completo */
+const ZLIB_READ_CHUNK_SIZE = 64 * 1024;
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+/** Orden en que se transmiten las longitudes del código de longitudes */
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+/** Búsqueda de coincidencias según el nivel 1-9: más intentos, mejor ratio */
+const MATCH_CHAIN_BY_LEVEL = [0, 4, 8, 16, 32, 64, 128, 256, 512, 1024];
+
+export class DeflateFormatError extends Error {}
+
+// ---------------------------------------------------------------------------
+// Tablas compartidas
+// ---------------------------------------------------------------------------
+
+/** Código de longitud (257-285) para cada longitud de coincidencia 3-258 */
+const LENGTH_CODE_BY_LENGTH = (() => {
+  const table = new Uint16Array(MAX_MATCH + 1);
+  for (let code = 0; code < LENGTH_BASE.length; code++) {
+    const start = LENGTH_BASE[code]!;
+    const end =
+      code === LENGTH_BASE.length - 1
+        ? MAX_MATCH
+        : start + (1 << LENGTH_EXTRA[code]!) - 1;
+    for (let length = start; length <= end; length++) {
+      table[length] = code;
+    }
+  }
+  return table;
+})();
+
+function distanceCode(distance: number): number {
+  let code = DISTANCE_CODES - 1;
+  while (DISTANCE_BASE[code]! > distance) {
+    code--;
+  }
+  return code;
+}
+
+function fixedLiteralLengths(): Uint8Array {
+  const lengths = new Uint8Array(288);
+  lengths.fill(8, 0, 144);
+  lengths.fill(9, 144, 256);
+  lengths.fill(7, 256, 280);
+  lengths.fill(8, 280, 288);
+  return lengths;
+}
+
+function fixedDistanceLengths(): Uint8Array {
+  return new Uint8Array(DISTANCE_CODES).fill(5);
+}
+
+/** Códigos canónicos ya invertidos: DEFLATE escribe los códigos Huffman del bit alto al bajo */
+function buildReversedCodes(lengths: Uint8Array): Uint16Array {
+  const counts = new Uint16Array(MAX_CODE_BITS + 1);
+  lengths.forEach((length) => {
+    if (length > 0) counts[length] = counts[length]! + 1;
+  });
+
+  const nextCode = new Uint16Array(MAX_CODE_BITS + 1);
+  let code = 0;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    code = (code + counts[bits - 1]!) << 1;
+    nextCode[bits] = code;
+  }
+
+  const codes = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length === 0) return;
+    codes[symbol] = reverseBits(nextCode[length]!, length);
+    nextCode[length] = nextCode[length]! + 1;
+  });
+  return codes;
+}
+
+function reverseBits(value: number, length: number): number {
+  let reversed = 0;
+  for (let i = 0; i < length; i++) {
+    reversed = (reversed << 1) | ((value >>> i) & 1);
+  }
+  return reversed;
+}
+
+// ---------------------------------------------------------------------------
+// Compresión
+// ---------------------------------------------------------------------------
+
+/**
+ * Longitudes de un código Huffman limitado a `maxBits`. Si el árbol óptimo es
+ * demasiado profundo se aplanan las frecuencias hasta que cabe; pierde algo de
+ * ratio en casos extremos pero es simple y siempre termina.
+ */
+function buildCodeLengths(
+  frequencies: Uint32Array,
+  maxBits: number,
+): Uint8Array {
+  const lengths = new Uint8Array(frequencies.length);
+  const weights = Array.from(frequencies);
+
+  // Un código necesita al menos dos símbolos para que los lectores lo acepten.
+  let used = weights.filter((weight) => weight > 0).length;
+  for (let symbol = 0; used < 2 && symbol < weights.length; symbol++) {
+    if (weights[symbol] === 0) {
+      weights[symbol] = 1;
+      used++;
+    }
+  }
+
+  for (;;) {
+    interface HuffmanNode {
+      weight: number;
+      symbol: number;
+      left?: HuffmanNode;
+      right?: HuffmanNode;
+    }
+
+    const queue: HuffmanNode[] = [];
+    weights.forEach((weight, symbol) => {
+      if (weight > 0) queue.push({ weight, symbol });
+    });
+    queue.sort((left, right) => left.weight - right.weight);
+
+    while (queue.length > 1) {
+      const left = queue.shift()!;
+      const right = queue.shift()!;
+      const parent: HuffmanNode = {
+        weight: left.weight + right.weight,
+        symbol: -1,
+        left,
+        right,
+      };
+      let index = queue.findIndex((node) => node.weight > parent.weight);
+      if (index === -1) index = queue.length;
+      queue.splice(index, 0, parent);
+    }
+
+    lengths.fill(0);
+    let maxDepth = 0;
+    const stack: { node: HuffmanNode; depth: number }[] = [
+      { node: queue[0]!, depth: 0 },
+    ];
+    while (stack.length > 0) {
+      const { node, depth } = stack.pop()!;
+      if (node.symbol >= 0) {
+        lengths[node.symbol] = depth;
+        maxDepth = Math.max(maxDepth, depth);
+        continue;
+      }
+      stack.push({ node: node.left!, depth: depth + 1 });
+      stack.push({ node: node.right!, depth: depth + 1 });
+    }
+
+    if (maxDepth <= maxBits) {
+      return lengths;
+    }
+
+    for (let symbol = 0; symbol < weights.length; symbol++) {
+      if (weights[symbol]! > 0) {
+        weights[symbol] = (weights[symbol]! >>> 1) | 1;
+      }
+    }
+  }
+}
+
+/** Escritor de bits LSB primero sobre un búfer que crece según haga falta */
+class BitWriter {
+  private buffer = new Uint8Array(64 * 1024);
+  private length = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  writeBits(value: number, count: number): void {
+    this.bitBuffer |= value << this.bitCount;
+    this.bitCount += count;
+    while (this.bitCount >= 8) {
+      this.writeByte(this.bitBuffer & 0xff);
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+    }
+  }
+
+  alignToByte(): void {
+    if (this.bitCount > 0) {
+      this.writeByte(this.bitBuffer & 0xff);
+    }
+    this.bitBuffer = 0;
+    this.bitCount = 0;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.ensureCapacity(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  /** Devuelve los bytes completos escritos hasta ahora y vacía el búfer */
+  take(): Uint8Array {
+    const output = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return output;
+  }
+
+  private writeByte(byte: number): void {
+    this.ensureCapacity(1);
+    this.buffer[this.length++] = byte;
+  }
+
+  private ensureCapacity(extra: number): void {
+    if (this.length + extra <= this.buffer.length) return;
+
+    const grown = new Uint8Array(
+      Math.max(this.buffer.length * 2, this.length + extra),
+    );
+    grown.set(this.buffer.subarray(0, this.length));
+    this.buffer = grown;
+  }
+}
+
+/**
+ * Compresor DEFLATE incremental: LZ77 con cadenas hash y, para cada bloque, el
+ * más pequeño de Huffman dinámico, Huffman fijo o sin comprimir ("stored").
+ * Los datos ya comprimidos (fotos, vídeos) acaban en bloques "stored", así que
+ * nunca crecen más de unos pocos bytes por bloque.
+ */
+export class RawDeflater {
+  /** Dos ventanas: la mitad baja es el historial y la alta los datos por procesar */
+  private readonly window = new Uint8Array(2 * WINDOW_SIZE);
+  private readonly head = new Int32Array(HASH_SIZE).fill(-1);
+  private readonly previous = new Int32Array(WINDOW_SIZE).fill(-1);
+  private windowEnd = 0;
+  private position = 0;
+  private readonly maxChain: number;
+
+  private readonly symbolLengths = new Uint16Array(MAX_BLOCK_SYMBOLS);
+  private readonly symbolValues = new Uint16Array(MAX_BLOCK_SYMBOLS);
+  private symbolCount = 0;
+  private readonly blockBytes = new Uint8Array(MAX_BLOCK_BYTES);
+  private blockLength = 0;
+  private readonly writer = new BitWriter();
+  private finished = false;
+
+  constructor(level: number) {
+    this.maxChain =
+      MATCH_CHAIN_BY_LEVEL[Math.min(Math.max(Math.round(level), 1), 9)]!;
+  }
+
+  /** Añade datos sin comprimir y devuelve la salida comprimida que ya está lista */
+  push(data: Uint8Array): Uint8Array {
+    if (this.finished) {
+      throw new Error("El compresor ya se ha cerrado");
+    }
+
+    let offset = 0;
+    while (offset < data.length) {
+      if (this.windowEnd === this.window.length) {
+        this.slideWindow();
+      }
+
+      const count = Math.min(
+        this.window.length - this.windowEnd,
+        data.length - offset,
+      );
+      this.window.set(data.subarray(offset, offset + count), this.windowEnd);
+      this.windowEnd += count;
+      offset += count;
+      this.processInput(false);
+    }
+
+    return this.writer.take();
+  }
+
+  /** Procesa lo pendiente, escribe el bloque final y devuelve el resto de la salida */
+  finish(): Uint8Array {
+    if (!this.finished) {
+      this.processInput(true);
+      this.flushBlock(true);
+      this.writer.alignToByte();
+      this.finished = true;
+    }
+    return this.writer.take();
+  }
+
+  private processInput(flush: boolean): void {
+    const window = this.window;
+
+    while (this.windowEnd - this.position >= (flush ? 1 : MIN_LOOKAHEAD)) {
+      const available = this.windowEnd - this.position;
+      let matchLength = 0;
+      let matchDistance = 0;
+
+      if (available >= MIN_MATCH) {
+        const hash = this.hashAt(this.position);
+        const candidate = this.head[hash]!;
+        this.previous[this.position & WINDOW_MASK] = candidate;
+        this.head[hash] = this.position;
+
+        if (candidate >= 0) {
+          ({ length: matchLength, distance: matchDistance } = this.findMatch(
+            candidate,
+            Math.min(available, MAX_MATCH),
+          ));
+        }
+      }
+
+      if (this.blockLength + Math.max(matchLength, 1) > MAX_BLOCK_BYTES) {
+        this.flushBlock(false);
+      }
+
+      if (matchLength >= MIN_MATCH) {
+        this.symbolLengths[this.symbolCount] = matchLength;
+        this.symbolValues[this.symbolCount] = matchDistance;
+        this.blockBytes.set(
+          window.subarray(this.position, this.position + matchLength),
+          this.blockLength,
+        );
+        this.blockLength += matchLength;
+
+        // Indexamos también las posiciones que cubre la coincidencia.
+        const matchEnd = this.position + matchLength;
+        for (
+          let position = this.position + 1;
+          position < matchEnd && this.windowEnd - position >= MIN_MATCH;
+          position++
+        ) {
+          const hash = this.hashAt(position);
+          this.previous[position & WINDOW_MASK] = this.head[hash]!;
+          this.head[hash] = position;
+        }
+        this.position = matchEnd;
+      } else {
+        this.symbolLengths[this.symbolCount] = 0;
+        this.symbolValues[this.symbolCount] = window[this.position]!;
+        this.blockBytes[this.blockLength++] = window[this.position]!;
+        this.position++;
+      }
+
+      this.symbolCount++;
+      if (this.symbolCount === MAX_BLOCK_SYMBOLS) {
+        this.flushBlock(false);
+      }
+    }
+  }
+
+  private findMatch(
+    firstCandidate: number,
+    maxLength: number,
+  ): { length: number; distance: number } {
+    const window = this.window;
+    const position = this.position;
+    let candidate = firstCandidate;
+    let chain = this.maxChain;
+    let bestLength = MIN_MATCH - 1;
+    let bestDistance = 0;
+
+    while (candidate >= 0 && chain-- > 0) {
+      const distance = position - candidate;
+      if (distance > WINDOW_SIZE || distance <= 0) break;
+
+      if (window[candidate + bestLength] === window[position + bestLength]) {
+        let length = 0;
+        while (
+          length < maxLength &&
+          window[candidate + length] === window[position + length]
+        ) {
+          length++;
+        }
+
+        if (length > bestLength) {
+          bestLength = length;
+          bestDistance = distance;
+          if (length >= maxLength) break;
+        }
+      }
+
+      candidate = this.previous[candidate & WINDOW_MASK]!;
+    }
+
+    return bestLength >= MIN_MATCH
+      ? { length: bestLength, distance: bestDistance }
+      : { length: 0, distance: 0 };
+  }
+
+  private hashAt(position: number): number {
+    const window = this.window;
+    return (
+      ((window[position]! << 10) ^
+        (window[position + 1]! << 5) ^
+        window[position + 2]!) &
+      HASH_MASK
+    );
+  }
+
+  /** Descarta la mitad antigua de la ventana y corrige las posiciones del índice */
+  private slideWindow(): void {
+    this.window.copyWithin(0, WINDOW_SIZE, this.windowEnd);
+    this.windowEnd -= WINDOW_SIZE;
+    this.position -= WINDOW_SIZE;
+
+    const rebase = (table: Int32Array) => {
+      for (let i = 0; i < table.length; i++) {
+        const value = table[i]!;
+        table[i] = value >= WINDOW_SIZE ? value - WINDOW_SIZE : -1;
+      }
+    };
+    rebase(this.head);
+    rebase(this.previous);
+  }
+
+  private flushBlock(final: boolean): void {
+    const literalFrequencies = new Uint32Array(LITERAL_LENGTH_CODES);
+    const distanceFrequencies = new Uint32Array(DISTANCE_CODES);
+    literalFrequencies[END_OF_BLOCK] = 1;
+
+    for (let i = 0; i < this.symbolCount; i++) {
+      const length = this.symbolLengths[i]!;
+      if (length === 0) {
+        literalFrequencies[this.symbolValues[i]!]!++;
+      } else {
+        literalFrequencies[257 + LENGTH_CODE_BY_LENGTH[length]!]!++;
+        distanceFrequencies[distanceCode(this.symbolValues[i]!)]!++;
+      }
+    }
+
+    const dynamicLiteralLengths = buildCodeLengths(
+      literalFrequencies,
+      MAX_CODE_BITS,
+    );
+    const dynamicDistanceLengths = buildCodeLengths(
+      distanceFrequencies,
+      MAX_CODE_BITS,
+    );
+    const header = this.buildDynamicHeader(
+      dynamicLiteralLengths,
+      dynamicDistanceLengths,
+    );
+
+    const fixedLiterals = fixedLiteralLengths();
+    const fixedDistances = fixedDistanceLengths();
+    const dynamicCost =
+      3 +
+      header.bits +
+      this.symbolCost(
+        literalFrequencies,
+        distanceFrequencies,
+        dynamicLiteralLengths,
+        dynamicDistanceLengths,
+      );
+    const fixedCost =
+      3 +
+      this.symbolCost(
+        literalFrequencies,
+        distanceFrequencies,
+        fixedLiterals,
+        fixedDistances,
+      );
+    const storedBlocks = Math.max(
+      1,
+      Math.ceil(this.blockLength / MAX_STORED_BLOCK),
+    );
+    const storedCost = storedBlocks * (3 + 7 + 32) + this.blockLength * 8;
+
+    if (storedCost <= Math.min(dynamicCost, fixedCost)) {
+      this.writeStoredBlocks(final);
+    } else if (dynamicCost < fixedCost) {
+      this.writer.writeBits(final ? 1 : 0, 1);
+      this.writer.writeBits(2, 2);
+      header.write(this.writer);
+      this.writeSymbols(dynamicLiteralLengths, dynamicDistanceLengths);
+    } else {
+      this.writer.writeBits(final ? 1 : 0, 1);
+      this.writer.writeBits(1, 2);
+      this.writeSymbols(fixedLiterals, fixedDistances);
+    }
+
+    this.symbolCount = 0;
+    this.blockLength = 0;
+  }
+
+  private writeStoredBlocks(final: boolean): void {
+    let offset = 0;
+    do {
+      const length = Math.min(MAX_STORED_BLOCK, this.blockLength - offset);
+      const last = offset + length >= this.blockLength;
+      this.writer.writeBits(final && last ? 1 : 0, 1);
+      this.writer.writeBits(0, 2);
+      this.writer.alignToByte();
+      this.writer.writeBits(length, 16);
+      this.writer.writeBits(~length & 0xffff, 16);
+      this.writer.writeBytes(this.blockBytes.subarray(offset, offset + length));
+      offset += length;
+    } while (offset < this.blockLength);
+  }
+
+  private writeSymbols(
+    literalLengths: Uint8Array,
+    distanceLengths: Uint8Array,
+  ): void {
+    const literalCodes = buildReversedCodes(literalLengths);
+    const distanceCodes = buildReversedCodes(distanceLengths);
+    const writer = this.writer;
+
+    for (let i = 0; i < this.symbolCount; i++) {
+      const length = this.symbolLengths[i]!;
+      const value = this.symbolValues[i]!;
+      if (length === 0) {
+        writer.writeBits(literalCodes[value]!, literalLengths[value]!);
+        continue;
+      }
+
+      const lengthCode = LENGTH_CODE_BY_LENGTH[length]!;
+      const lengthSymbol = 257 + lengthCode;
+      writer.writeBits(
+        literalCodes[lengthSymbol]!,
+        literalLengths[lengthSymbol]!,
+      );
+      writer.writeBits(
+        length - LENGTH_BASE[lengthCode]!,
+        LENGTH_EXTRA[lengthCode]!,
+      );
+
+      const code = distanceCode(value);
+      writer.writeBits(distanceCodes[code]!, distanceLengths[code]!);
+      writer.writeBits(value - DISTANCE_BASE[code]!, DISTANCE_EXTRA[code]!);
+    }
+
+    writer.writeBits(
+      literalCodes[END_OF_BLOCK]!,
+      literalLengths[END_OF_BLOCK]!,
+    );
+  }
+
+  private symbolCost(
+    literalFrequencies: Uint32Array,
+    distanceFrequencies: Uint32Array,
+    literalLengths: Uint8Array,
+    distanceLengths: Uint8Array,
+  ): number {
+    let bits = 0;
+    literalFrequencies.forEach((frequency, symbol) => {
+      bits += frequency * literalLengths[symbol]!;
+      if (symbol > END_OF_BLOCK) {
+        bits += frequency * LENGTH_EXTRA[symbol - 257]!;
+      }
+    });
+    distanceFrequencies.forEach((frequency, code) => {
+      bits += frequency * (distanceLengths[code]! + DISTANCE_EXTRA[code]!);
+    });
+    return bits;
+  }
+
+  /** Cabecera de un bloque dinámico: longitudes de ambos códigos comprimidas con RLE */
+  private buildDynamicHeader(
+    literalLengths: Uint8Array,
+    distanceLengths: Uint8Array,
+  ): { bits: number; write: (writer: BitWriter) => void } {
+    let literalCount = LITERAL_LENGTH_CODES;
+    while (literalCount > 257 && literalLengths[literalCount - 1] === 0) {
+      literalCount--;
+    }
+    let distanceCount = DISTANCE_CODES;
+    while (distanceCount > 1 && distanceLengths[distanceCount - 1] === 0) {
+      distanceCount--;
+    }
+
+    const lengths = [
+      ...literalLengths.subarray(0, literalCount),
+      ...distanceLengths.subarray(0, distanceCount),
+    ];
+    const runs: { symbol: number; extra: number; extraBits: number }[] = [];
+
+    for (let i = 0; i < lengths.length;) {
+      const length = lengths[i]!;
+      let run = 1;
+      while (i + run < lengths.length && lengths[i + run] === length) {
+        run++;
+      }
+
+      if (length === 0 && run >= 3) {
+        const count = Math.min(run, 138);
+        runs.push(
+          count >= 11
+            ? { symbol: 18, extra: count - 11, extraBits: 7 }
+            : { symbol: 17, extra: count - 3, extraBits: 3 },
+        );
+        i += count;
+      } else if (length !== 0 && run >= 4) {
+        const count = Math.min(run - 1, 6);
+        runs.push({ symbol: length, extra: 0, extraBits: 0 });
+        runs.push({ symbol: 16, extra: count - 3, extraBits: 2 });
+        i += count + 1;
+      } else {
+        runs.push({ symbol: length, extra: 0, extraBits: 0 });
+        i++;
+      }
+    }
+
+    const codeLengthFrequencies = new Uint32Array(CODE_LENGTH_CODES);
+    runs.forEach((run) => {
+      codeLengthFrequencies[run.symbol]!++;
+    });
+    const codeLengthLengths = buildCodeLengths(
+      codeLengthFrequencies,
+      MAX_CODE_LENGTH_BITS,
+    );
+    const codeLengthCodes = buildReversedCodes(codeLengthLengths);
+
+    let codeLengthCount = CODE_LENGTH_CODES;
+    while (
+      codeLengthCount > 4 &&
+      codeLengthLengths[CODE_LENGTH_ORDER[codeLengthCount - 1]!] === 0
+    ) {
+      codeLengthCount--;
+    }
+
+    let bits = 5 + 5 + 4 + codeLengthCount * 3;
+    runs.forEach((run) => {
+      bits += codeLengthLengths[run.symbol]! + run.extraBits;
+    });
+
+    return {
+      bits,
+      write: (writer) => {
+        writer.writeBits(literalCount - 257, 5);
+        writer.writeBits(distanceCount - 1, 5);
+        writer.writeBits(codeLengthCount - 4, 4);
+        for (let i = 0; i < codeLengthCount; i++) {
+          writer.writeBits(codeLengthLengths[CODE_LENGTH_ORDER[i]!]!, 3);
+        }
+        runs.forEach((run) => {
+          writer.writeBits(
+            codeLengthCodes[run.symbol]!,
+            codeLengthLengths[run.symbol]!,
+          );
+          if (run.extraBits > 0) {
+            writer.writeBits(run.extra, run.extraBits);
+          }
+        });
+      },
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Descompresión
+// ---------------------------------------------------------------------------
+
+interface HuffmanTable {
+  /** Entrada por cada combinación de `maxBits` bits: (símbolo << 4) | longitud */
+  entries: Uint32Array;
+  maxBits: number;
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  const counts = new Uint16Array(MAX_CODE_BITS + 1);
+  let maxBits = 0;
+  for (let i = 0; i < lengths.length; i++) {
+    const length = lengths[i]!;
+    if (length > 0) {
+      counts[length] = counts[length]! + 1;
+      maxBits = Math.max(maxBits, length);
+    }
+  }
+  if (maxBits === 0) {
+    throw new DeflateFormatError(
+      "Código Huffman vacío en los datos comprimidos",
+    );
+  }
+
+  let left = 1;
+  for (let bits = 1; bits <= MAX_CODE_BITS; bits++) {
+    left = (left << 1) - counts[bits]!;
+    if (left < 0) {
+      throw new DeflateFormatError(
+        "Código Huffman no válido en los datos comprimidos",
+      );
+    }
+  }
+
+  const codes = buildReversedCodes(Uint8Array.from(lengths));
+  const entries = new Uint32Array(1 << maxBits);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol]!;
+    if (length === 0) continue;
+
+    const entry = (symbol << 4) | length;
+    for (
+      let index = codes[symbol]!;
+      index < entries.length;
+      index += 1 << length
+    ) {
+      entries[index] = entry;
+    }
+  }
+
+  return { entries, maxBits };
+}
+
+let fixedTables: { literals: HuffmanTable; distances: HuffmanTable } | null =
+  null;
+
+function getFixedTables() {
+  fixedTables ??= {
+    literals: buildHuffmanTable(fixedLiteralLengths()),
+    distances: buildHuffmanTable(fixedDistanceLengths()),
+  };
+  return fixedTables;
+}
+
+/** Señal interna: faltan datos de entrada para decodificar el siguiente elemento */
+class NeedInputSignal {}
+const NEED_INPUT = new NeedInputSignal();
+
+/**
+ * Descompresor DEFLATE incremental. Se le van dando los datos comprimidos con
+ * `push` y se extrae la salida con `read`, en trozos de tamaño acotado. Así un
+ * archivo muy comprimido (o una bomba de compresión) nunca produce de golpe
+ * más memoria de la que pide quien lee.
+ */
+export class RawInflater {
+  private input: Uint8Array = new Uint8Array(0);
+  private inputPosition = 0;
+  private inputEnded = false;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  private readonly window = new Uint8Array(WINDOW_SIZE);
+  private windowPosition = 0;
+  private totalOutput = 0;
+
+  private mode: "header" | "stored" | "codes" | "done" = "header";
+  private lastBlock = false;
+  private storedRemaining = 0;
+  private literalTable: HuffmanTable | null = null;
+  private distanceTable: HuffmanTable | null = null;
+  private copyLength = 0;
+  private copyDistance = 0;
+
+  /** El flujo ha llegado a su bloque final */
+  get finished(): boolean {
+    return this.mode === "done" && this.copyLength === 0;
+  }
+
+  /** Añade datos comprimidos; `last` indica que no llegarán más */
+  push(data: Uint8Array, last = false): void {
+    const pending = this.input.subarray(this.inputPosition);
+    if (pending.length === 0) {
+      this.input = data;
+    } else {
+      const merged = new Uint8Array(pending.length + data.length);
+      merged.set(pending);
+      merged.set(data, pending.length);
+      this.input = merged;
+    }
+    this.inputPosition = 0;
+    this.inputEnded = last;
+  }
+
+  /**
+   * Descomprime hasta `maxBytes`. Devuelve un array vacío cuando necesita más
+   * entrada o cuando el flujo ha terminado (`finished`).
+   */
+  read(maxBytes: number): Uint8Array {
+    const output = new Uint8Array(maxBytes);
+    let produced = 0;
+
+    while (produced < maxBytes) {
+      if (this.copyLength > 0) {
+        const count = Math.min(this.copyLength, maxBytes - produced);
+        for (let i = 0; i < count; i++) {
+          const byte =
+            this.window[
+              (this.windowPosition - this.copyDistance) & WINDOW_MASK
+            ]!;
+          output[produced++] = byte;
+          this.emit(byte);
+        }
+        this.copyLength -= count;
+        continue;
+      }
+
+      if (this.mode === "done") break;
+
+      const snapshot = {
+        inputPosition: this.inputPosition,
+        bitBuffer: this.bitBuffer,
+        bitCount: this.bitCount,
+      };
+
+      try {
+        if (this.mode === "header") {
+          this.readBlockHeader();
+        } else if (this.mode === "stored") {
+          produced += this.readStored(output, produced, maxBytes - produced);
+        } else {
+          const symbol = this.decodeSymbol(this.literalTable!);
+          if (symbol < END_OF_BLOCK) {
+            output[produced++] = symbol;
+            this.emit(symbol);
+          } else if (symbol === END_OF_BLOCK) {
+            this.mode = this.lastBlock ? "done" : "header";
+          } else {
+            this.readMatch(symbol);
+          }
+        }
+      } catch (error) {
+        if (error !== NEED_INPUT) throw error;
+        this.inputPosition = snapshot.inputPosition;
+        this.bitBuffer = snapshot.bitBuffer;
+        this.bitCount = snapshot.bitCount;
+        break;
+      }
+    }
+
+    return output.subarray(0, produced);
+  }
+
+  private emit(byte: number): void {
+    this.window[this.windowPosition] = byte;
+    this.windowPosition = (this.windowPosition + 1) & WINDOW_MASK;
+    this.totalOutput++;
+  }
+
+  private readBlockHeader(): void {
+    const lastBlock = this.readBits(1) === 1;
+    const type = this.readBits(2);
+
+    if (type === 0) {
+      // Los bloques "stored" empiezan alineados a byte.
+      this.readBits(this.bitCount & 7);
+      const length = this.readBits(16);
+      const inverted = this.readBits(16);
+      if ((length ^ 0xffff) !== inverted) {
+        throw new DeflateFormatError("Bloque sin comprimir dañado");
+      }
+      this.storedRemaining = length;
+      this.mode = "stored";
+    } else if (type === 1) {
+      const tables = getFixedTables();
+      this.literalTable = tables.literals;
+      this.distanceTable = tables.distances;
+      this.mode = "codes";
+    } else if (type === 2) {
+      const tables = this.readDynamicTables();
+      this.literalTable = tables.literals;
+      this.distanceTable = tables.distances;
+      this.mode = "codes";
+    } else {
+      throw new DeflateFormatError("Tipo de bloque DEFLATE no válido");
+    }
+
+    this.lastBlock = lastBlock;
+  }
+
+  private readStored(
+    output: Uint8Array,
+    offset: number,
+    maxBytes: number,
+  ): number {
+    if (this.storedRemaining === 0) {
+      this.mode = this.lastBlock ? "done" : "header";
+      return 0;
+    }
+
+    let produced = 0;
+    const limit = Math.min(this.storedRemaining, maxBytes);
+
+    // Primero los bytes que ya estaban en el búfer de bits.
+    while (produced < limit && this.bitCount >= 8) {
+      const byte = this.bitBuffer & 0xff;
+      this.bitBuffer >>>= 8;
+      this.bitCount -= 8;
+      output[offset + produced++] = byte;
+      this.emit(byte);
+    }
+
+    const count = Math.min(
+      limit - produced,
+      this.input.length - this.inputPosition,
+    );
+    for (let i = 0; i < count; i++) {
+      const byte = this.input[this.inputPosition++]!;
+      output[offset + produced++] = byte;
+      this.emit(byte);
+    }
+
+    this.storedRemaining -= produced;
+    if (produced === 0) {
+      throw this.missingInput();
+    }
+    return produced;
+  }
+
+  private readMatch(symbol: number): void {
+    const lengthCode = symbol - 257;
+    if (lengthCode >= LENGTH_BASE.length) {
+      throw new DeflateFormatError(
+        "Longitud no válida en los datos comprimidos",
+      );
+    }
+    const length =
+      LENGTH_BASE[lengthCode]! + this.readBits(LENGTH_EXTRA[lengthCode]!);
+
+    const code = this.decodeSymbol(this.distanceTable!);
+    if (code >= DISTANCE_CODES) {
+      throw new DeflateFormatError(
+        "Distancia no válida en los datos comprimidos",
+      );
+    }
+    const distance =
+      DISTANCE_BASE[code]! + this.readBits(DISTANCE_EXTRA[code]!);
+    if (distance > Math.min(this.totalOutput, WINDOW_SIZE)) {
+      throw new DeflateFormatError(
+        "Los datos comprimidos hacen referencia a datos inexistentes",
+      );
+    }
+
+    this.copyLength = length;
+    this.copyDistance = distance;
+  }
+
+  private readDynamicTables(): {
+    literals: HuffmanTable;
+    distances: HuffmanTable;
+  } {
+    const literalCount = this.readBits(5) + 257;
+    const distanceCount = this.readBits(5) + 1;
+    const codeLengthCount = this.readBits(4) + 4;
+    if (literalCount > LITERAL_LENGTH_CODES || distanceCount > DISTANCE_CODES) {
+      throw new DeflateFormatError("Cabecera de bloque DEFLATE no válida");
+    }
+
+    const codeLengthLengths = new Uint8Array(CODE_LENGTH_CODES);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]!] = this.readBits(3);
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+
+      let value = 0;
+      let repeat: number;
+      if (symbol === 16) {
+        if (i === 0) {
+          throw new DeflateFormatError("Cabecera de bloque DEFLATE no válida");
+        }
+        value = lengths[i - 1]!;
+        repeat = 3 + this.readBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.readBits(3);
+      } else {
+        repeat = 11 + this.readBits(7);
+      }
+
+      if (i + repeat > lengths.length) {
+        throw new DeflateFormatError("Cabecera de bloque DEFLATE no válida");
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    if (lengths[END_OF_BLOCK] === 0) {
+      throw new DeflateFormatError("El bloque DEFLATE no tiene fin de bloque");
+    }
+
+    return {
+      literals: buildHuffmanTable(lengths.subarray(0, literalCount)),
+      distances: buildHuffmanTable(lengths.subarray(literalCount)),
+    };
+  }
+
+  private decodeSymbol(table: HuffmanTable): number {
+    while (this.bitCount < table.maxBits) {
+      if (this.inputPosition < this.input.length) {
+        this.bitBuffer |= this.input[this.inputPosition++]! << this.bitCount;
+        this.bitCount += 8;
+      } else if (this.inputEnded) {
+        break;
+      } else {
+        throw NEED_INPUT;
+      }
+    }
+
+    const entry = table.entries[this.bitBuffer & ((1 << table.maxBits) - 1)]!;
+    const length = entry & 15;
+    if (length === 0) {
+      throw new DeflateFormatError("Código no válido en los datos comprimidos");
+    }
+    if (length > this.bitCount) {
+      throw this.missingInput();
+    }
+
+    this.bitBuffer >>>= length;
+    this.bitCount -= length;
+    return entry >>> 4;
+  }
+
+  private readBits(count: number): number {
+    while (this.bitCount < count) {
+      if (this.inputPosition >= this.input.length) {
+        throw this.missingInput();
+      }
+      this.bitBuffer |= this.input[this.inputPosition++]! << this.bitCount;
+      this.bitCount += 8;
+    }
+
+    const value = this.bitBuffer & ((1 << count) - 1);
+    this.bitBuffer >>>= count;
+    this.bitCount -= count;
+    return value;
+  }
+
+  private missingInput(): unknown {
+    return this.inputEnded
+      ? new DeflateFormatError("Los datos comprimidos están incompletos")
+      : NEED_INPUT;
+  }
+}
+
+/**
+ * Descomprime de una vez un flujo zlib (RFC 1950): cabecera de 2 bytes, DEFLATE
+ * crudo y un adler32 final que no se comprueba. Es para flujos pequeños que ya
+ * están enteros en memoria, como los datos de un PNG o los de un PDF.
+ *
+ * Con `tolerateDamage`, un flujo dañado o truncado no lanza: se devuelve lo que
+ * se haya podido descomprimir hasta el error.
+ * @throws DeflateFormatError si no es un flujo zlib con DEFLATE o está dañado
+ */
+export function inflateZlib(
+  data: Uint8Array,
+  tolerateDamage = false,
+): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  try {
+    if (data.length < 2 || (data[0]! & 0x0f) !== 8 || data[1]! & 0x20) {
+      throw new DeflateFormatError("Flujo zlib no soportado");
+    }
+
+    const inflater = new RawInflater();
+    inflater.push(data.subarray(2), true);
+    while (!inflater.finished) {
+      const chunk = inflater.read(ZLIB_READ_CHUNK_SIZE);
+      if (chunk.length === 0) break;
+      chunks.push(chunk);
+      total += chunk.length;
+    }
+  } catch (error) {
+    if (!tolerateDamage || !(error instanceof DeflateFormatError)) throw error;
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
@@ -0,0 +1,77 @@
+import type { FolderArchiveManifest } from "@/types";
+import {
+  type ArchiveDeclaredEntry,
+  joinArchivePath,
+  normalizeArchivePath,
+} from "./archiveUtils";
+
+/**
+ * Manifiesto de MeFolder que viaja dentro de una carpeta comprimida con sus
+ * tags, colores, iconos, descripciones, vistas y visibilidad, para que la
+ * carpeta pase de una instalación a otra sin perder su organización.
+ *
+ * Va dentro de la carpeta raíz ("Fotos/.mefolder.json") para no cambiar la
+ * estructura que ven el resto de programas, y al extraer no se crea como
+ * archivo: se lee y se aplica sobre lo extraído.
+ */
+
+export const FOLDER_MANIFEST_FILE_NAME = ".mefolder.json";
+export const FOLDER_MANIFEST_FORMAT = "mefolder-folder";
+export const FOLDER_MANIFEST_VERSION = 1;
+
+/** Ruta del manifiesto dentro del comprimido de la carpeta `rootPath` */
+export function buildFolderManifestPath(rootPath: string): string {
+  return joinArchivePath(rootPath, FOLDER_MANIFEST_FILE_NAME);
+}
+
+/** Indica si `path` es el manifiesto de una carpeta raíz */
+export function isFolderManifestPath(path: string): boolean {
+  const segments = normalizeArchivePath(path).split("/");
+  return segments.length === 2 && segments[1] === FOLDER_MANIFEST_FILE_NAME;
+}
+
+export function findFolderManifestEntry(
+  entries: ArchiveDeclaredEntry[],
+): ArchiveDeclaredEntry | undefined {
+  return entries.find(
+    (entry) => !entry.dir && isFolderManifestPath(entry.name),
+  );
+}
+
+/** Quita el manifiesto de las entradas que se listan o se extraen */
+export function withoutFolderManifest(
+  entries: ArchiveDeclaredEntry[],
+): ArchiveDeclaredEntry[] {
+  const manifestEntry = findFolderManifestEntry(entries);
+  return manifestEntry
+    ? entries.filter((entry) => entry !== manifestEntry)
+    : entries;
+}
+
+/**
+ * Interpreta el contenido del manifiesto. Devuelve null si no lo es o si es de
+ * una versión posterior que esta app no sabe aplicar.
+ */
+export function parseFolderManifest(
+  content: string,
+): FolderArchiveManifest | null {
+  let manifest: Partial<FolderArchiveManifest> | null;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  if (
+    manifest?.format !== FOLDER_MANIFEST_FORMAT ||
+    typeof manifest.version !== "number" ||
+    manifest.version > FOLDER_MANIFEST_VERSION ||
+    !Array.isArray(manifest.tags) ||
+    !Array.isArray(manifest.folders) ||
+    !Array.isArray(manifest.files)
+  ) {
+    return null;
+  }
+
+  return manifest as FolderArchiveManifest;
+}
@@ -0,0 +1,204 @@
+import { Crc32 } from "@/utils/crypto";
+import { DeflateFormatError, RawDeflater, RawInflater } from "./deflate";
+
+/**
+ * Compresión y descompresión gzip (RFC 1952).
+ *
+ * Un miembro gzip es un flujo DEFLATE crudo entre una cabecera y un trailer con
+ * CRC-32 y tamaño original, exactamente lo mismo que guarda una entrada ZIP,
+ * así que se apoya en el mismo motor DEFLATE por bloques que los ZIP.
+ */
+
+const GZIP_ID1 = 0x1f;
+const GZIP_ID2 = 0x8b;
+const GZIP_METHOD_DEFLATE = 8;
+const GZIP_HEADER_LENGTH = 10;
+const GZIP_TRAILER_LENGTH = 8;
+const GZIP_OS_UNKNOWN = 255;
+
+const FLAG_HEADER_CRC = 0x02;
+const FLAG_EXTRA = 0x04;
+const FLAG_NAME = 0x08;
+const FLAG_COMMENT = 0x10;
+
+/** Bytes que se leen del gzip y se descomprimen de cada vez */
+const STREAM_CHUNK_SIZE = 256 * 1024;
+
+/**
+ * Compresor gzip incremental: recibe el contenido por bloques con `write` y
+ * entrega en `sink` el resultado a medida que se genera.
+ */
+export class GzipStreamWriter {
+  private readonly deflater: RawDeflater;
+  private readonly crc = new Crc32();
+  private size = 0;
+
+  constructor(
+    private readonly sink: (bytes: Uint8Array) => void,
+    level: number,
+  ) {
+    this.deflater = new RawDeflater(level);
+
+    const header = new Uint8Array(GZIP_HEADER_LENGTH);
+    header[0] = GZIP_ID1;
+    header[1] = GZIP_ID2;
+    header[2] = GZIP_METHOD_DEFLATE;
+    toDataView(header).setUint32(4, Math.floor(Date.now() / 1000), true);
+    header[9] = GZIP_OS_UNKNOWN;
+    this.sink(header);
+  }
+
+  write(data: Uint8Array): void {
+    this.crc.update(data);
+    this.size += data.length;
+    this.emit(this.deflater.push(data));
+  }
+
+  finish(): void {
+    this.emit(this.deflater.finish());
+
+    const trailer = new Uint8Array(GZIP_TRAILER_LENGTH);
+    const view = toDataView(trailer);
+    view.setUint32(0, this.crc.digest(), true);
+    // El formato guarda el tamaño original módulo 2^32.
+    view.setUint32(4, this.size % 0x100000000, true);
+    this.sink(trailer);
+  }
+
+  private emit(bytes: Uint8Array): void {
+    if (bytes.length > 0) {
+      this.sink(bytes);
+    }
+  }
+}
+
+/**
+ * Descomprime el primer miembro de un gzip leyéndolo de `source` por bloques y
+ * entregando el resultado a `sink`, sin tenerlo entero en memoria. Se corta en
+ * cuanto supera `maxBytes` y al final se comprueban el CRC-32 y el tamaño del
+ * trailer, así que un archivo dañado se rechaza. Devuelve el tamaño original.
+ */
+export async function gunzipStream(
+  source: { readonly size: number; read(length: number): Uint8Array },
+  sink: (bytes: Uint8Array) => void,
+  maxBytes: number,
+): Promise<number> {
+  const trailerStart = source.size - GZIP_TRAILER_LENGTH;
+  let consumed = 0;
+  const readInput = () => {
+    const chunk = source.read(
+      Math.min(STREAM_CHUNK_SIZE, trailerStart - consumed),
+    );
+    if (chunk.length === 0) {
+      throw new Error("El archivo gzip está incompleto");
+    }
+    consumed += chunk.length;
+    return chunk;
+  };
+
+  if (trailerStart < GZIP_HEADER_LENGTH) {
+    throw new Error("El archivo no es un gzip válido");
+  }
+
+  // Los campos opcionales pueden hacer que la cabecera no quepa en un bloque.
+  let input = readInput();
+  if (
+    input[0] !== GZIP_ID1 ||
+    input[1] !== GZIP_ID2 ||
+    input[2] !== GZIP_METHOD_DEFLATE
+  ) {
+    throw new Error("El archivo no es un gzip válido");
+  }
+  let headerLength = readHeaderLength(input);
+  while (headerLength === -1) {
+    input = concatChunks([input, readInput()]);
+    headerLength = readHeaderLength(input);
+  }
+  input = input.subarray(headerLength);
+
+  const inflater = new RawInflater();
+  const crc = new Crc32();
+  let size = 0;
+  try {
+    for (;;) {
+      const last = consumed === trailerStart;
+      inflater.push(input, last);
+      for (
+        let chunk = inflater.read(STREAM_CHUNK_SIZE);
+        chunk.length > 0;
+        chunk = inflater.read(STREAM_CHUNK_SIZE)
+      ) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          throw new Error(
+            "El contenido descomprimido supera el tamaño total permitido (posible bomba de compresión)",
+          );
+        }
+        crc.update(chunk);
+        sink(chunk);
+        await new Promise((resolve) => setTimeout(resolve, 0));
+      }
+      if (last) break;
+      input = readInput();
+    }
+  } catch (error) {
+    // El mensaje del descompresor habla de bloques DEFLATE, no del archivo.
+    if (error instanceof DeflateFormatError) {
+      throw new Error("El archivo gzip está dañado o incompleto");
+    }
+    throw error;
+  }
+
+  const trailer = source.read(GZIP_TRAILER_LENGTH);
+  const view = toDataView(trailer);
+  if (
+    trailer.length !== GZIP_TRAILER_LENGTH ||
+    !inflater.finished ||
+    crc.digest() !== view.getUint32(0, true) ||
+    size % 0x100000000 !== view.getUint32(4, true)
+  ) {
+    throw new Error("El archivo gzip está dañado o incompleto");
+  }
+  return size;
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(
+    chunks.reduce((total, chunk) => total + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+/** Longitud de la cabecera con sus campos opcionales; -1 si `bytes` no la contiene entera */
+function readHeaderLength(bytes: Uint8Array): number {
+  const flags = bytes[3]!;
+  let offset = GZIP_HEADER_LENGTH;
+  if (bytes.length < offset) return -1;
+
+  if (flags & FLAG_EXTRA) {
+    if (bytes.length < offset + 2) return -1;
+    offset += 2 + toDataView(bytes).getUint16(offset, true);
+  }
+  if (flags & FLAG_NAME) {
+    offset = bytes.indexOf(0, offset) + 1;
+    if (offset === 0) return -1;
+  }
+  if (flags & FLAG_COMMENT) {
+    offset = bytes.indexOf(0, offset) + 1;
+    if (offset === 0) return -1;
+  }
+  if (flags & FLAG_HEADER_CRC) {
+    offset += 2;
+  }
+
+  return offset <= bytes.length ? offset : -1;
+}
+
+function toDataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
@@ -0,0 +1,459 @@
+import type { FSFileStream } from "@/types";
+
+/**
+ * Lectura y escritura de archivos TAR (POSIX ustar).
+ *
+ * Un TAR es una secuencia de bloques de 512 bytes: una cabecera por entrada
+ * seguida de su contenido rellenado hasta el siguiente bloque, y dos bloques
+ * vacíos al final. Además de ustar se entienden las extensiones habituales
+ * para rutas largas: cabeceras pax (`x`) y nombres largos de GNU tar (`L`).
+ * Enlaces, dispositivos y demás tipos especiales se ignoran al leer.
+ *
+ * Al leer se recorren las cabeceras directamente en el archivo, saltando el
+ * contenido de cada entrada, que después se lee bajo demanda por bloques.
+ */
+
+const TAR_BLOCK_SIZE = 512;
+const NAME_FIELD_LENGTH = 100;
+const PREFIX_FIELD_LENGTH = 155;
+/** Mayor tamaño representable en los 11 dígitos octales del campo "size" */
+const MAX_OCTAL_SIZE = 0o77777777777;
+
+const TYPE_FILE = "0";
+const TYPE_FILE_LEGACY = "\0";
+const TYPE_CONTIGUOUS_FILE = "7";
+const TYPE_DIRECTORY = "5";
+const TYPE_PAX_HEADER = "x";
+const TYPE_PAX_GLOBAL_HEADER = "g";
+const TYPE_GNU_LONG_NAME = "L";
+
+const USTAR_MAGIC = "ustar\u000000";
+const DEFAULT_FILE_MODE = 0o644;
+const DEFAULT_DIRECTORY_MODE = 0o755;
+/** Tamaño de los bloques que se leen y se escriben del contenido de cada archivo */
+const STREAM_CHUNK_SIZE = 256 * 1024;
+
+/** Entrada de un TAR en disco: su contenido empieza en `dataOffset` */
+export interface TarStreamEntry {
+  path: string;
+  type: "file" | "directory";
+  size: number;
+  dataOffset: number;
+  modifiedAt: Date;
+}
+
+/** Error de formato al leer un TAR corrupto o truncado */
+export class TarFormatError extends Error {}
+
+/** Comprueba la firma ustar y la suma de control de la primera cabecera */
+export function isTarArchive(bytes: Uint8Array): boolean {
+  if (bytes.length < TAR_BLOCK_SIZE) return false;
+
+  const header = bytes.subarray(0, TAR_BLOCK_SIZE);
+  return readString(header, 257, 5) === "ustar" && hasValidChecksum(header);
+}
+
+/**
+ * Lee las cabeceras de un TAR sin comprimir bloque a bloque. Solo se cargan
+ * en memoria las cabeceras y las extensiones pax o GNU con rutas largas.
+ */
+export function readTarEntries(input: FSFileStream): TarStreamEntry[] {
+  const entries: TarStreamEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+  let paxRecords: Record<string, string> = {};
+
+  while (offset + TAR_BLOCK_SIZE <= input.size) {
+    input.position = offset;
+    const header = input.read(TAR_BLOCK_SIZE);
+    if (header.length !== TAR_BLOCK_SIZE) {
+      throw new TarFormatError("El TAR está incompleto o truncado");
+    }
+    if (isZeroBlock(header)) {
+      break;
+    }
+
+    if (!hasValidChecksum(header)) {
+      throw new TarFormatError(
+        "La cabecera del TAR está dañada (suma de control incorrecta)",
+      );
+    }
+
+    const typeFlag = String.fromCharCode(header[156]!);
+    const paxSize = paxRecords.size ? Number(paxRecords.size) : NaN;
+    const size = Number.isFinite(paxSize) ? paxSize : readSize(header);
+    const dataOffset = offset + TAR_BLOCK_SIZE;
+    if (dataOffset + size > input.size) {
+      throw new TarFormatError("El TAR está incompleto o truncado");
+    }
+    offset = dataOffset + Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+
+    switch (typeFlag) {
+      case TYPE_GNU_LONG_NAME: {
+        const data = input.read(size);
+        longName = readString(data, 0, data.length);
+        continue;
+      }
+      case TYPE_PAX_HEADER:
+        paxRecords = parsePaxRecords(input.read(size));
+        continue;
+      case TYPE_PAX_GLOBAL_HEADER:
+        continue;
+    }
+
+    const path = paxRecords.path ?? longName ?? readHeaderPath(header);
+    const paxMtime = paxRecords.mtime ? Number(paxRecords.mtime) : NaN;
+    const modifiedAt = new Date(
+      (Number.isFinite(paxMtime) ? paxMtime : readOctal(header, 136, 12)) *
+        1000,
+    );
+    longName = undefined;
+    paxRecords = {};
+
+    if (typeFlag === TYPE_DIRECTORY) {
+      entries.push({
+        path: path.endsWith("/") ? path : `${path}/`,
+        type: "directory",
+        size: 0,
+        dataOffset,
+        modifiedAt,
+      });
+    } else if (
+      typeFlag === TYPE_FILE ||
+      typeFlag === TYPE_FILE_LEGACY ||
+      typeFlag === TYPE_CONTIGUOUS_FILE
+    ) {
+      entries.push({ path, type: "file", size, dataOffset, modifiedAt });
+    }
+  }
+
+  return entries;
+}
+
+/** Entrega el contenido de `entry` en bloques de tamaño acotado */
+export async function readTarEntryContent(
+  input: FSFileStream,
+  entry: TarStreamEntry,
+  onChunk: (chunk: Uint8Array) => void | Promise<void>,
+): Promise<void> {
+  // La posición se guarda aparte: otra lectura del mismo TAR puede moverla
+  // mientras esta espera a quien consume los bloques.
+  let position = entry.dataOffset;
+  const end = entry.dataOffset + entry.size;
+
+  while (position < end) {
+    input.position = position;
+    const chunk = input.read(Math.min(STREAM_CHUNK_SIZE, end - position));
+    if (chunk.length === 0) {
+      throw new TarFormatError("El TAR está incompleto o truncado");
+    }
+
+    position += chunk.length;
+    await onChunk(chunk);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+}
+
+/**
+ * Escribe un TAR entrada a entrada en `sink` sin tenerlo entero en memoria.
+ * El contenido de cada archivo se lee por bloques de `source`, así que su
+ * tamaño tiene que conocerse de antemano: va en la cabecera.
+ */
+export class TarStreamWriter {
+  constructor(private readonly sink: (bytes: Uint8Array) => void) {}
+
+  addDirectory(path: string, modifiedAt = new Date()): void {
+    buildEntryHeaders(path, "directory", 0, modifiedAt).forEach((block) =>
+      this.sink(block),
+    );
+  }
+
+  async addFile(
+    path: string,
+    size: number,
+    source: { read(length: number): Uint8Array },
+    options: {
+      modifiedAt?: Date | undefined;
+      onBytes?: ((count: number) => void) | undefined;
+    } = {},
+  ): Promise<void> {
+    buildEntryHeaders(
+      path,
+      "file",
+      size,
+      options.modifiedAt ?? new Date(),
+    ).forEach((block) => this.sink(block));
+
+    let remaining = size;
+    while (remaining > 0) {
+      const chunk = source.read(Math.min(STREAM_CHUNK_SIZE, remaining));
+      if (chunk.length === 0) {
+        throw new Error(`${path} ha cambiado de tamaño mientras se comprimía`);
+      }
+
+      this.sink(chunk);
+      remaining -= chunk.length;
+      options.onBytes?.(chunk.length);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+
+    const padding = (TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE;
+    if (padding > 0) {
+      this.sink(new Uint8Array(padding));
+    }
+  }
+
+  finish(): void {
+    this.sink(new Uint8Array(TAR_BLOCK_SIZE * 2));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Cabeceras
+// ---------------------------------------------------------------------------
+
+interface TarHeaderFields {
+  name: Uint8Array;
+  prefix: Uint8Array;
+  mode: number;
+  size: number;
+  modifiedAt: Date;
+  typeFlag: string;
+}
+
+/** Cabecera de la entrada, precedida de una cabecera pax si la ruta no cabe en ustar */
+function buildEntryHeaders(
+  entryPath: string,
+  type: TarStreamEntry["type"],
+  size: number,
+  modifiedAt: Date,
+): Uint8Array[] {
+  const isDirectory = type === "directory";
+  const path =
+    isDirectory && !entryPath.endsWith("/") ? `${entryPath}/` : entryPath;
+  if (size > MAX_OCTAL_SIZE) {
+    throw new Error(`${path} es demasiado grande para un archivo TAR`);
+  }
+
+  const blocks: Uint8Array[] = [];
+  const pathFields = splitUstarPath(path);
+  if (!pathFields) {
+    const paxData = encodeText(formatPaxRecord("path", path));
+    blocks.push(
+      buildHeader({
+        name: encodeText("PaxHeader").subarray(0, NAME_FIELD_LENGTH),
+        prefix: new Uint8Array(0),
+        mode: DEFAULT_FILE_MODE,
+        size: paxData.length,
+        modifiedAt,
+        typeFlag: TYPE_PAX_HEADER,
+      }),
+      padToBlock(paxData),
+    );
+  }
+
+  blocks.push(
+    buildHeader({
+      name: pathFields?.name ?? truncateUtf8(path, NAME_FIELD_LENGTH),
+      prefix: pathFields?.prefix ?? new Uint8Array(0),
+      mode: isDirectory ? DEFAULT_DIRECTORY_MODE : DEFAULT_FILE_MODE,
+      size,
+      modifiedAt,
+      typeFlag: isDirectory ? TYPE_DIRECTORY : TYPE_FILE,
+    }),
+  );
+  return blocks;
+}
+
+function buildHeader(fields: TarHeaderFields): Uint8Array {
+  const header = new Uint8Array(TAR_BLOCK_SIZE);
+  header.set(fields.name, 0);
+  writeOctal(header, 100, 8, fields.mode);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, fields.size);
+  writeOctal(
+    header,
+    136,
+    12,
+    Math.max(0, Math.floor(fields.modifiedAt.getTime() / 1000)),
+  );
+  header[156] = fields.typeFlag.charCodeAt(0);
+  header.set(encodeText(USTAR_MAGIC), 257);
+  header.set(fields.prefix, 345);
+
+  // La suma de control se calcula con su propio campo relleno de espacios.
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeOctal(header, 148, 7, checksum);
+  return header;
+}
+
+/**
+ * Reparte la ruta entre los campos "prefix" y "name" de ustar.
+ * Devuelve `null` si no cabe y hace falta una cabecera pax.
+ */
+function splitUstarPath(
+  path: string,
+): { name: Uint8Array; prefix: Uint8Array } | null {
+  const encoded = encodeText(path);
+  if (encoded.length <= NAME_FIELD_LENGTH) {
+    return { name: encoded, prefix: new Uint8Array(0) };
+  }
+
+  // El corte tiene que caer en una "/" que no sea la final de una carpeta.
+  const searchEnd = path.endsWith("/") ? path.length - 2 : path.length - 1;
+  for (
+    let slash = path.lastIndexOf("/", searchEnd);
+    slash > 0;
+    slash = path.lastIndexOf("/", slash - 1)
+  ) {
+    const prefix = encodeText(path.slice(0, slash));
+    const name = encodeText(path.slice(slash + 1));
+    if (prefix.length > PREFIX_FIELD_LENGTH) continue;
+    if (name.length > NAME_FIELD_LENGTH) return null;
+    return { name, prefix };
+  }
+
+  return null;
+}
+
+function readHeaderPath(header: Uint8Array): string {
+  const name = readString(header, 0, NAME_FIELD_LENGTH);
+  // Solo el formato POSIX ("ustar\0" + "00") usa el campo prefix; GNU tar
+  // guarda otros datos en esa zona.
+  if (readString(header, 257, 8) !== "ustar") {
+    return name;
+  }
+
+  const prefix = readString(header, 345, PREFIX_FIELD_LENGTH);
+  return prefix ? `${prefix}/${name}` : name;
+}
+
+function readSize(header: Uint8Array): number {
+  // GNU tar codifica en base 256 los tamaños que no caben en octal.
+  if ((header[124]! & 0x80) !== 0) {
+    let value = header[124]! & 0x7f;
+    for (let i = 125; i < 136; i++) {
+      value = value * 256 + header[i]!;
+    }
+    return value;
+  }
+
+  return readOctal(header, 124, 12);
+}
+
+function hasValidChecksum(header: Uint8Array): boolean {
+  const stored = readOctal(header, 148, 8);
+  let sum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i]!;
+  }
+  return sum === stored;
+}
+
+/** Registros pax: "<longitud> <clave>=<valor>\n" */
+function parsePaxRecords(data: Uint8Array): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    let spaceIndex = offset;
+    while (spaceIndex < data.length && data[spaceIndex] !== 0x20) {
+      spaceIndex++;
+    }
+
+    const length = Number(readString(data, offset, spaceIndex - offset));
+    if (!Number.isInteger(length) || length <= 0) {
+      break;
+    }
+
+    const record = decodeText(
+      data.subarray(spaceIndex + 1, offset + length - 1),
+    );
+    const equalsIndex = record.indexOf("=");
+    if (equalsIndex > 0) {
+      records[record.slice(0, equalsIndex)] = record.slice(equalsIndex + 1);
+    }
+    offset += length;
+  }
+
+  return records;
+}
+
+/** El prefijo de longitud incluye sus propios dígitos, de ahí el bucle */
+function formatPaxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encodeText(body).length;
+  let length = bodyLength;
+  while (length !== bodyLength + String(length).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+// ---------------------------------------------------------------------------
+// Utilidades
+// ---------------------------------------------------------------------------
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  const field = bytes.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decodeText(end === -1 ? field : field.subarray(0, end));
+}
+
+function readOctal(bytes: Uint8Array, offset: number, length: number): number {
+  const text = readString(bytes, offset, length).trim();
+  return text ? parseInt(text, 8) || 0 : 0;
+}
+
+/** Escribe `value` en octal con ceros a la izquierda y un NUL final */
+function writeOctal(
+  bytes: Uint8Array,
+  offset: number,
+  length: number,
+  value: number,
+): void {
+  const text = value.toString(8).padStart(length - 1, "0");
+  for (let i = 0; i < length - 1; i++) {
+    bytes[offset + i] = text.charCodeAt(i);
+  }
+  bytes[offset + length - 1] = 0;
+}
+
+function isZeroBlock(block: Uint8Array): boolean {
+  return block.every((byte) => byte === 0);
+}
+
+function padToBlock(data: Uint8Array): Uint8Array {
+  const paddedLength = Math.ceil(data.length / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE;
+  if (paddedLength === data.length) {
+    return data;
+  }
+
+  const padded = new Uint8Array(paddedLength);
+  padded.set(data);
+  return padded;
+}
+
+/** Recorta a `maxBytes` sin partir un carácter UTF-8 multibyte */
+function truncateUtf8(text: string, maxBytes: number): Uint8Array {
+  const encoded = encodeText(text);
+  if (encoded.length <= maxBytes) {
+    return encoded;
+  }
+
+  let end = maxBytes;
+  while (end > 0 && (encoded[end]! & 0xc0) === 0x80) {
+    end--;
+  }
+  return encoded.subarray(0, end);
+}
+
+function encodeText(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+function decodeText(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,502 @@
+import type { ArchiveEncryptionMethod, ArchiveOperationError } from "@/types";
+import {
+  AES_BLOCK_SIZE,
+  AesCipher,
+  crc32UpdateByte,
+  HmacSha1,
+  getRandomBytes,
+  pbkdf2HmacSha1,
+} from "@/utils/crypto";
+
+/**
+ * Cifrado y descifrado de entradas ZIP.
+ *
+ * `ZipStreamWriter` y `ZipStreamReader` cifran y descifran el contenido
+ * comprimido de cada entrada a medida que lo escriben o lo leen, por bloques,
+ * con un `ZipEntryEncryptor` o un `ZipEntryDecryptor`. Formatos soportados:
+ * - ZipCrypto (cifrado tradicional de PKWARE), compatible con cualquier lector
+ * - WinZip AES (AE-1 al escribir, AE-1 y AE-2 al leer) de 128, 192 y 256 bits,
+ *   el estándar de 7-Zip y WinZip
+ */
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_STRONG_ENCRYPTION = 0x0040;
+
+const ZIPCRYPTO_HEADER_LENGTH = 12;
+
+const AES_COMPRESSION_METHOD = 99;
+const AES_EXTRA_FIELD_ID = 0x9901;
+const AES_EXTRA_FIELD_DATA_LENGTH = 7;
+const AES_VENDOR_VERSION_AE1 = 1;
+const AES_VENDOR_VERSION_AE2 = 2;
+const AES_VENDOR_ID = "AE";
+const AES_PBKDF2_ITERATIONS = 1000;
+const AES_PASSWORD_VERIFIER_LENGTH = 2;
+const AES_AUTHENTICATION_CODE_LENGTH = 10;
+const AES_VERSION_NEEDED = 51;
+const DEFAULT_VERSION_NEEDED = 20;
+
+/** Parámetros de WinZip AES indexados por el campo "strength" de la cabecera */
+const AES_STRENGTHS: Record<number, { keyLength: number; saltLength: number }> =
+  {
+    1: { keyLength: 16, saltLength: 8 },
+    2: { keyLength: 24, saltLength: 12 },
+    3: { keyLength: 32, saltLength: 16 },
+  };
+
+const AES_STRENGTH_BY_METHOD: Record<
+  Exclude<ArchiveEncryptionMethod, "zipcrypto">,
+  number
+> = {
+  aes128: 1,
+  aes256: 3,
+};
+
+/** Error de dominio que se traduce a ArchiveOperationError en el borde público */
+export class ZipEncryptionError extends Error {
+  constructor(
+    readonly code: ArchiveOperationError["code"],
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Cifra el contenido ya comprimido de una entrada conforme se escribe.
+ * El resultado es `header()`, cada `update()` en orden y `finish()`; las
+ * cabeceras de la entrada declaran `method`, `versionNeeded` y `extraField`.
+ */
+export interface ZipEntryEncryptor {
+  readonly method: number;
+  readonly versionNeeded: number;
+  /** Campo extra completo (identificador, longitud y datos) o vacío */
+  readonly extraField: Uint8Array;
+  header(): Uint8Array;
+  update(chunk: Uint8Array): Uint8Array;
+  finish(): Uint8Array;
+}
+
+/**
+ * Descifra el contenido de una entrada conforme se lee. Los datos de la
+ * entrada son `headerLength` bytes para `start()`, el contenido cifrado para
+ * `update()` y `trailerLength` bytes para `finish()`.
+ */
+export interface ZipEntryDecryptor {
+  /** Método de compresión real del contenido descifrado */
+  readonly method: number;
+  readonly headerLength: number;
+  readonly trailerLength: number;
+  /** El CRC declarado es válido; WinZip AE-2 lo deja a cero */
+  readonly hasCrc: boolean;
+  /** Comprueba la contraseña con la cabecera; lanza `wrong_password` si no es la correcta */
+  start(header: Uint8Array): void;
+  update(chunk: Uint8Array): Uint8Array;
+  /** Comprueba el código de autenticación, si el cifrado lo lleva */
+  finish(trailer: Uint8Array): void;
+}
+
+/** Campos de la entrada del directorio central que necesita el descifrado */
+export interface ZipEncryptedEntry {
+  flags: number;
+  method: number;
+  crc32: number;
+  dosTime: number;
+  extra: Uint8Array;
+}
+
+/**
+ * Prepara el cifrado de una entrada de archivo.
+ * @param entry Método de compresión real y hora DOS de la entrada; con
+ * ZipCrypto la hora hace de byte de comprobación porque el CRC va en el
+ * descriptor de datos, detrás del contenido.
+ */
+export function createZipEntryEncryptor(
+  password: string,
+  encryption: ArchiveEncryptionMethod,
+  entry: { method: number; dosTime: number },
+): ZipEntryEncryptor {
+  const passwordBytes = encodePassword(password);
+  if (encryption === "zipcrypto") {
+    return new ZipCryptoEntryEncryptor(
+      passwordBytes,
+      entry.method,
+      (entry.dosTime >>> 8) & 0xff,
+    );
+  }
+
+  return new AesEntryEncryptor(
+    passwordBytes,
+    AES_STRENGTH_BY_METHOD[encryption],
+    entry.method,
+  );
+}
+
+/** Prepara el descifrado de una entrada cifrada según su método y su campo extra */
+export function createZipEntryDecryptor(
+  password: string,
+  entry: ZipEncryptedEntry,
+): ZipEntryDecryptor {
+  if ((entry.flags & FLAG_STRONG_ENCRYPTION) !== 0) {
+    throw new ZipEncryptionError(
+      "invalid_archive",
+      "El ZIP usa un cifrado fuerte de PKWARE que no está soportado",
+    );
+  }
+
+  const passwordBytes = encodePassword(password);
+  if (entry.method !== AES_COMPRESSION_METHOD) {
+    // Con descriptor de datos el CRC aún no se conoce al escribir la cabecera
+    // y el byte de comprobación sale de la hora de modificación.
+    const checkByte =
+      (entry.flags & FLAG_DATA_DESCRIPTOR) !== 0
+        ? (entry.dosTime >>> 8) & 0xff
+        : entry.crc32 >>> 24;
+    return new ZipCryptoEntryDecryptor(passwordBytes, entry.method, checkByte);
+  }
+
+  const extra = findExtraField(entry.extra, AES_EXTRA_FIELD_ID);
+  const vendorVersion = extra ? extra[0]! | (extra[1]! << 8) : 0;
+  if (
+    !extra ||
+    extra.length < AES_EXTRA_FIELD_DATA_LENGTH ||
+    !AES_STRENGTHS[extra[4]!] ||
+    (vendorVersion !== AES_VENDOR_VERSION_AE1 &&
+      vendorVersion !== AES_VENDOR_VERSION_AE2)
+  ) {
+    throw new ZipEncryptionError(
+      "invalid_archive",
+      "La cabecera de cifrado AES del ZIP no es válida",
+    );
+  }
+
+  return new AesEntryDecryptor(
+    passwordBytes,
+    extra[4]!,
+    extra[5]! | (extra[6]! << 8),
+    vendorVersion === AES_VENDOR_VERSION_AE1,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// ZipCrypto
+// ---------------------------------------------------------------------------
+
+/** Estado de las tres claves del cifrado tradicional de PKWARE */
+class ZipCryptoKeys {
+  private key0 = 0x12345678;
+  private key1 = 0x23456789;
+  private key2 = 0x34567890;
+
+  constructor(password: Uint8Array) {
+    password.forEach((byte) => this.update(byte));
+  }
+
+  encrypt(data: Uint8Array): void {
+    for (let i = 0; i < data.length; i++) {
+      const plain = data[i]!;
+      data[i] = plain ^ this.streamByte();
+      this.update(plain);
+    }
+  }
+
+  decrypt(data: Uint8Array): void {
+    for (let i = 0; i < data.length; i++) {
+      const plain = data[i]! ^ this.streamByte();
+      data[i] = plain;
+      this.update(plain);
+    }
+  }
+
+  private streamByte(): number {
+    const temp = (this.key2 | 2) & 0xffff;
+    return (Math.imul(temp, temp ^ 1) >>> 8) & 0xff;
+  }
+
+  private update(byte: number): void {
+    this.key0 = crc32UpdateByte(this.key0, byte);
+    this.key1 = (this.key1 + (this.key0 & 0xff)) >>> 0;
+    this.key1 = (Math.imul(this.key1, 134775813) + 1) >>> 0;
+    this.key2 = crc32UpdateByte(this.key2, this.key1 >>> 24);
+  }
+}
+
+class ZipCryptoEntryEncryptor implements ZipEntryEncryptor {
+  readonly versionNeeded = DEFAULT_VERSION_NEEDED;
+  readonly extraField = new Uint8Array(0);
+  private readonly keys: ZipCryptoKeys;
+
+  constructor(
+    password: Uint8Array,
+    readonly method: number,
+    private readonly checkByte: number,
+  ) {
+    this.keys = new ZipCryptoKeys(password);
+  }
+
+  header(): Uint8Array {
+    const header = new Uint8Array(ZIPCRYPTO_HEADER_LENGTH);
+    header.set(getRandomBytes(ZIPCRYPTO_HEADER_LENGTH - 1));
+    // El último byte de la cabecera permite comprobar la contraseña al descifrar
+    header[ZIPCRYPTO_HEADER_LENGTH - 1] = this.checkByte;
+    this.keys.encrypt(header);
+    return header;
+  }
+
+  update(chunk: Uint8Array): Uint8Array {
+    // Se copia: el bloque puede ser memoria de quien lo entrega
+    const encrypted = chunk.slice();
+    this.keys.encrypt(encrypted);
+    return encrypted;
+  }
+
+  finish(): Uint8Array {
+    return new Uint8Array(0);
+  }
+}
+
+class ZipCryptoEntryDecryptor implements ZipEntryDecryptor {
+  readonly headerLength = ZIPCRYPTO_HEADER_LENGTH;
+  readonly trailerLength = 0;
+  readonly hasCrc = true;
+  private readonly keys: ZipCryptoKeys;
+
+  constructor(
+    password: Uint8Array,
+    readonly method: number,
+    private readonly checkByte: number,
+  ) {
+    this.keys = new ZipCryptoKeys(password);
+  }
+
+  start(header: Uint8Array): void {
+    const decrypted = header.slice();
+    this.keys.decrypt(decrypted);
+    if (decrypted[ZIPCRYPTO_HEADER_LENGTH - 1] !== this.checkByte) {
+      throw wrongPasswordError();
+    }
+  }
+
+  update(chunk: Uint8Array): Uint8Array {
+    const decrypted = chunk.slice();
+    this.keys.decrypt(decrypted);
+    return decrypted;
+  }
+
+  finish(): void {}
+}
+
+// ---------------------------------------------------------------------------
+// WinZip AES
+// ---------------------------------------------------------------------------
+
+interface AesKeys {
+  encryptionKey: Uint8Array;
+  authenticationKey: Uint8Array;
+  passwordVerifier: Uint8Array;
+}
+
+function deriveAesKeys(
+  password: Uint8Array,
+  salt: Uint8Array,
+  keyLength: number,
+): AesKeys {
+  const derived = pbkdf2HmacSha1(
+    password,
+    salt,
+    AES_PBKDF2_ITERATIONS,
+    keyLength * 2 + AES_PASSWORD_VERIFIER_LENGTH,
+  );
+
+  return {
+    encryptionKey: derived.subarray(0, keyLength),
+    authenticationKey: derived.subarray(keyLength, keyLength * 2),
+    passwordVerifier: derived.subarray(keyLength * 2),
+  };
+}
+
+/**
+ * AES en modo CTR tal y como lo define WinZip: contador little-endian de 128
+ * bits que empieza en 1. Cifrar y descifrar son la misma operación, y se puede
+ * aplicar por bloques de cualquier tamaño.
+ */
+class AesCtr {
+  private readonly cipher: AesCipher;
+  private readonly counter = new Uint8Array(AES_BLOCK_SIZE);
+  private readonly keystream = new Uint8Array(AES_BLOCK_SIZE);
+  private keystreamOffset = AES_BLOCK_SIZE;
+
+  constructor(key: Uint8Array) {
+    this.cipher = new AesCipher(key);
+  }
+
+  apply(data: Uint8Array): Uint8Array {
+    const output = new Uint8Array(data.length);
+
+    for (let i = 0; i < data.length; i++) {
+      if (this.keystreamOffset === AES_BLOCK_SIZE) {
+        for (let j = 0; j < AES_BLOCK_SIZE; j++) {
+          this.counter[j] = (this.counter[j]! + 1) & 0xff;
+          if (this.counter[j] !== 0) break;
+        }
+        this.cipher.encryptBlock(this.counter, this.keystream);
+        this.keystreamOffset = 0;
+      }
+      output[i] = data[i]! ^ this.keystream[this.keystreamOffset++]!;
+    }
+
+    return output;
+  }
+}
+
+/** Cabecera: sal y verificador de contraseña. Cola: 10 bytes del HMAC del cifrado. */
+class AesEntryEncryptor implements ZipEntryEncryptor {
+  readonly method = AES_COMPRESSION_METHOD;
+  readonly versionNeeded = AES_VERSION_NEEDED;
+  readonly extraField: Uint8Array;
+  private readonly salt: Uint8Array;
+  private readonly passwordVerifier: Uint8Array;
+  private readonly ctr: AesCtr;
+  private readonly hmac: HmacSha1;
+
+  constructor(
+    password: Uint8Array,
+    strength: number,
+    compressionMethod: number,
+  ) {
+    const { keyLength, saltLength } = AES_STRENGTHS[strength]!;
+    this.salt = getRandomBytes(saltLength);
+    const keys = deriveAesKeys(password, this.salt, keyLength);
+    this.passwordVerifier = keys.passwordVerifier;
+    this.ctr = new AesCtr(keys.encryptionKey);
+    this.hmac = new HmacSha1(keys.authenticationKey);
+    this.extraField = buildAesExtraField(strength, compressionMethod);
+  }
+
+  header(): Uint8Array {
+    const header = new Uint8Array(
+      this.salt.length + AES_PASSWORD_VERIFIER_LENGTH,
+    );
+    header.set(this.salt, 0);
+    header.set(this.passwordVerifier, this.salt.length);
+    return header;
+  }
+
+  update(chunk: Uint8Array): Uint8Array {
+    const encrypted = this.ctr.apply(chunk);
+    this.hmac.update(encrypted);
+    return encrypted;
+  }
+
+  finish(): Uint8Array {
+    return this.hmac.digest().slice(0, AES_AUTHENTICATION_CODE_LENGTH);
+  }
+}
+
+/** Las claves se derivan en `start`, cuando ya se ha leído la sal */
+class AesEntryDecryptor implements ZipEntryDecryptor {
+  readonly headerLength: number;
+  readonly trailerLength = AES_AUTHENTICATION_CODE_LENGTH;
+  private ctr: AesCtr | null = null;
+  private hmac: HmacSha1 | null = null;
+
+  constructor(
+    private readonly password: Uint8Array,
+    private readonly strength: number,
+    readonly method: number,
+    readonly hasCrc: boolean,
+  ) {
+    this.headerLength =
+      AES_STRENGTHS[strength]!.saltLength + AES_PASSWORD_VERIFIER_LENGTH;
+  }
+
+  start(header: Uint8Array): void {
+    const { keyLength, saltLength } = AES_STRENGTHS[this.strength]!;
+    const keys = deriveAesKeys(
+      this.password,
+      header.subarray(0, saltLength),
+      keyLength,
+    );
+    if (!bytesEqual(keys.passwordVerifier, header.subarray(saltLength))) {
+      throw wrongPasswordError();
+    }
+
+    this.ctr = new AesCtr(keys.encryptionKey);
+    this.hmac = new HmacSha1(keys.authenticationKey);
+  }
+
+  update(chunk: Uint8Array): Uint8Array {
+    if (!this.ctr || !this.hmac) {
+      throw new Error("El descifrado AES no se ha iniciado");
+    }
+    this.hmac.update(chunk);
+    return this.ctr.apply(chunk);
+  }
+
+  finish(trailer: Uint8Array): void {
+    const authenticationCode = this.hmac
+      ?.digest()
+      .subarray(0, AES_AUTHENTICATION_CODE_LENGTH);
+    if (!authenticationCode || !bytesEqual(authenticationCode, trailer)) {
+      throw new ZipEncryptionError(
+        "invalid_archive",
+        "El contenido cifrado del ZIP está dañado o la contraseña no es correcta",
+      );
+    }
+  }
+}
+
+function buildAesExtraField(strength: number, method: number): Uint8Array {
+  const field = new Uint8Array(4 + AES_EXTRA_FIELD_DATA_LENGTH);
+  const view = new DataView(field.buffer);
+  view.setUint16(0, AES_EXTRA_FIELD_ID, true);
+  view.setUint16(2, AES_EXTRA_FIELD_DATA_LENGTH, true);
+  view.setUint16(4, AES_VENDOR_VERSION_AE1, true);
+  field[6] = AES_VENDOR_ID.charCodeAt(0);
+  field[7] = AES_VENDOR_ID.charCodeAt(1);
+  field[8] = strength;
+  view.setUint16(9, method, true);
+  return field;
+}
+
+// ---------------------------------------------------------------------------
+// Utilidades
+// ---------------------------------------------------------------------------
+
+/** Datos del campo extra `id`, sin su cabecera de identificador y longitud */
+function findExtraField(extra: Uint8Array, id: number): Uint8Array | undefined {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength);
+  let offset = 0;
+
+  while (offset + 4 <= extra.length) {
+    const fieldId = view.getUint16(offset, true);
+    const fieldLength = view.getUint16(offset + 2, true);
+    if (fieldId === id) {
+      return extra.subarray(offset + 4, offset + 4 + fieldLength);
+    }
+    offset += 4 + fieldLength;
+  }
+
+  return undefined;
+}
+
+function encodePassword(password: string): Uint8Array {
+  return new TextEncoder().encode(password);
+}
+
+function bytesEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < left.length; i++) {
+    difference |= left[i]! ^ right[i]!;
+  }
+  return difference === 0;
+}
+
+function wrongPasswordError(): ZipEncryptionError {
+  return new ZipEncryptionError(
+    "wrong_password",
+    "La contraseña del ZIP no es correcta",
+  );
+}
@@ -0,0 +1,654 @@
+import type { ArchiveEncryptionMethod, FSFileStream } from "@/types";
+import { Crc32 } from "@/utils/crypto";
+import { RawDeflater, RawInflater } from "./deflate";
+import {
+  createZipEntryDecryptor,
+  createZipEntryEncryptor,
+  ZipEncryptionError,
+  type ZipEntryDecryptor,
+} from "./zipEncryption";
+
+/**
+ * Lectura y escritura de ZIP directamente sobre disco, entrada a entrada y por
+ * bloques de tamaño fijo. A diferencia de JSZip, ni el archivo comprimido ni
+ * sus entradas llegan a estar completos en memoria.
+ *
+ * El escritor genera ZIP estándar con descriptor de datos (CRC y tamaños tras
+ * el contenido), así no hay que volver atrás en el archivo de salida. Con
+ * contraseña cifra cada entrada según se comprime (ZipCrypto o WinZip AES).
+ * El lector parte del directorio central, admite ZIP64, descifra las entradas
+ * bloque a bloque y comprueba el CRC de cada una.
+ */
+
+/** Tamaño de los bloques que se leen del disco y se entregan a quien consume */
+export const ZIP_STREAM_CHUNK_SIZE = 256 * 1024;
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06064b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50;
+const LOCAL_HEADER_LENGTH = 30;
+const CENTRAL_HEADER_LENGTH = 46;
+const END_OF_CENTRAL_DIRECTORY_LENGTH = 22;
+const ZIP64_LOCATOR_LENGTH = 20;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH = 56;
+const DATA_DESCRIPTOR_LENGTH = 16;
+const MAX_ZIP_COMMENT_LENGTH = 0xffff;
+const ZIP64_EXTRA_FIELD_ID = 0x0001;
+const MAX_UINT32 = 0xffffffff;
+const MAX_UINT16 = 0xffff;
+
+const FLAG_ENCRYPTED = 0x0001;
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8 = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_NEEDED = 20;
+const DOS_DIRECTORY_ATTRIBUTE = 0x10;
+
+export class ZipFormatError extends Error {}
+
+/** Origen de datos que se lee por bloques, como un `FSFileStream` */
+export interface ZipByteSource {
+  read(length: number): Uint8Array;
+}
+
+export interface ZipStreamEntry {
+  name: string;
+  dir: boolean;
+  encrypted: boolean;
+  flags: number;
+  method: number;
+  dosTime: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  /** Campo extra del directorio central; lleva los parámetros de WinZip AES */
+  extra: Uint8Array;
+}
+
+/** Contraseña y cifrado con los que el escritor protege cada archivo */
+export interface ZipStreamEncryption {
+  password: string;
+  method: ArchiveEncryptionMethod;
+}
+
+interface CentralDirectoryRecord {
+  nameBytes: Uint8Array;
+  extra: Uint8Array;
+  versionNeeded: number;
+  flags: number;
+  method: number;
+  dosTime: number;
+  dosDate: number;
+  crc32: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  externalAttributes: number;
+  localHeaderOffset: number;
+}
+
+/** Envuelve un bloque de bytes ya en memoria para añadirlo como entrada */
+export function bytesSource(bytes: Uint8Array): ZipByteSource {
+  let offset = 0;
+  return {
+    read(length) {
+      const chunk = bytes.subarray(offset, offset + length);
+      offset += chunk.length;
+      return chunk;
+    },
+  };
+}
+
+export class ZipStreamWriter {
+  private readonly records: CentralDirectoryRecord[] = [];
+  private offset = 0;
+
+  /**
+   * @param output Archivo de salida, ya abierto y vacío
+   * @param level Nivel DEFLATE 1-9; 0 guarda las entradas sin comprimir
+   * @param encryption Si se indica, cifra los archivos; las carpetas no llevan contenido
+   */
+  constructor(
+    private readonly output: FSFileStream,
+    private readonly level: number,
+    private readonly encryption?: ZipStreamEncryption,
+  ) {}
+
+  addDirectory(path: string, modifiedAt = new Date()): void {
+    const name = path.endsWith("/") ? path : `${path}/`;
+    const nameBytes = encodeName(name);
+    const record: CentralDirectoryRecord = {
+      nameBytes,
+      extra: new Uint8Array(0),
+      versionNeeded: VERSION_NEEDED,
+      flags: nameFlags(name),
+      method: METHOD_STORE,
+      ...toDosDateTime(modifiedAt),
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      externalAttributes: DOS_DIRECTORY_ATTRIBUTE,
+      localHeaderOffset: this.offset,
+    };
+
+    this.write(buildLocalHeader(record));
+    this.records.push(record);
+  }
+
+  /**
+   * Añade un archivo leyendo `source` por bloques hasta que se agota.
+   * `level` sustituye al nivel del escritor para esta entrada y `onBytes`
+   * recibe cuántos bytes sin comprimir se acaban de procesar.
+   */
+  async addFile(
+    path: string,
+    source: ZipByteSource,
+    options: {
+      modifiedAt?: Date | undefined;
+      level?: number | undefined;
+      onBytes?: ((count: number) => void) | undefined;
+    } = {},
+  ): Promise<void> {
+    const level = options.level ?? this.level;
+    const method = level > 0 ? METHOD_DEFLATE : METHOD_STORE;
+    const dosDateTime = toDosDateTime(options.modifiedAt ?? new Date());
+    const encryptor = this.encryption
+      ? createZipEntryEncryptor(
+          this.encryption.password,
+          this.encryption.method,
+          { method, dosTime: dosDateTime.dosTime },
+        )
+      : null;
+    const record: CentralDirectoryRecord = {
+      nameBytes: encodeName(path),
+      extra: encryptor?.extraField ?? new Uint8Array(0),
+      versionNeeded: encryptor?.versionNeeded ?? VERSION_NEEDED,
+      flags:
+        nameFlags(path) |
+        FLAG_DATA_DESCRIPTOR |
+        (encryptor ? FLAG_ENCRYPTED : 0),
+      method: encryptor?.method ?? method,
+      ...dosDateTime,
+      crc32: 0,
+      compressedSize: 0,
+      uncompressedSize: 0,
+      externalAttributes: 0,
+      localHeaderOffset: this.offset,
+    };
+    this.write(buildLocalHeader(record));
+
+    // El tamaño comprimido incluye la cabecera y la cola del cifrado
+    const writeData = (bytes: Uint8Array) => {
+      this.write(bytes);
+      record.compressedSize += bytes.length;
+    };
+    const writeCompressed = (bytes: Uint8Array) =>
+      writeData(encryptor ? encryptor.update(bytes) : bytes);
+
+    if (encryptor) writeData(encryptor.header());
+
+    const crc = new Crc32();
+    const deflater = method === METHOD_DEFLATE ? new RawDeflater(level) : null;
+
+    for (;;) {
+      const chunk = source.read(ZIP_STREAM_CHUNK_SIZE);
+      if (chunk.length === 0) break;
+
+      crc.update(chunk);
+      record.uncompressedSize += chunk.length;
+      writeCompressed(deflater ? deflater.push(chunk) : chunk);
+      options.onBytes?.(chunk.length);
+      await yieldToEventLoop();
+    }
+
+    if (deflater) writeCompressed(deflater.finish());
+    if (encryptor) writeData(encryptor.finish());
+
+    if (
+      record.compressedSize > MAX_UINT32 ||
+      record.uncompressedSize > MAX_UINT32
+    ) {
+      throw new ZipFormatError(
+        `${path} supera los 4 GB que admite una entrada ZIP`,
+      );
+    }
+
+    record.crc32 = crc.digest();
+    const descriptor = new Uint8Array(DATA_DESCRIPTOR_LENGTH);
+    const view = toDataView(descriptor);
+    view.setUint32(0, DATA_DESCRIPTOR_SIGNATURE, true);
+    view.setUint32(4, record.crc32, true);
+    view.setUint32(8, record.compressedSize, true);
+    view.setUint32(12, record.uncompressedSize, true);
+    this.write(descriptor);
+    this.records.push(record);
+  }
+
+  /** Escribe el directorio central. El archivo de salida lo cierra quien lo abrió */
+  finish(): void {
+    const centralOffset = this.offset;
+    if (centralOffset > MAX_UINT32 || this.records.length > MAX_UINT16) {
+      throw new ZipFormatError(
+        "El ZIP supera los 4 GB o las 65.535 entradas que admite el formato",
+      );
+    }
+
+    for (const record of this.records) {
+      const header = new Uint8Array(
+        CENTRAL_HEADER_LENGTH + record.nameBytes.length + record.extra.length,
+      );
+      const view = toDataView(header);
+      view.setUint32(0, CENTRAL_HEADER_SIGNATURE, true);
+      view.setUint16(4, record.versionNeeded, true);
+      view.setUint16(6, record.versionNeeded, true);
+      view.setUint16(8, record.flags, true);
+      view.setUint16(10, record.method, true);
+      view.setUint16(12, record.dosTime, true);
+      view.setUint16(14, record.dosDate, true);
+      view.setUint32(16, record.crc32, true);
+      view.setUint32(20, record.compressedSize, true);
+      view.setUint32(24, record.uncompressedSize, true);
+      view.setUint16(28, record.nameBytes.length, true);
+      view.setUint16(30, record.extra.length, true);
+      view.setUint32(38, record.externalAttributes, true);
+      view.setUint32(42, record.localHeaderOffset, true);
+      header.set(record.nameBytes, CENTRAL_HEADER_LENGTH);
+      header.set(record.extra, CENTRAL_HEADER_LENGTH + record.nameBytes.length);
+      this.write(header);
+    }
+
+    const end = new Uint8Array(END_OF_CENTRAL_DIRECTORY_LENGTH);
+    const view = toDataView(end);
+    view.setUint32(0, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(8, this.records.length, true);
+    view.setUint16(10, this.records.length, true);
+    view.setUint32(12, this.offset - centralOffset, true);
+    view.setUint32(16, centralOffset, true);
+    this.write(end);
+  }
+
+  private write(bytes: Uint8Array): void {
+    if (bytes.length === 0) return;
+    this.output.write(bytes);
+    this.offset += bytes.length;
+  }
+}
+
+export class ZipStreamReader {
+  private password: string | undefined;
+
+  private constructor(
+    private readonly input: FSFileStream,
+    readonly entries: ZipStreamEntry[],
+  ) {}
+
+  /** Lee el directorio central del ZIP; el contenido se lee luego bajo demanda */
+  static open(input: FSFileStream): ZipStreamReader {
+    const size = input.size;
+    const tailLength = Math.min(
+      size,
+      END_OF_CENTRAL_DIRECTORY_LENGTH + MAX_ZIP_COMMENT_LENGTH,
+    );
+    const tail = readAt(input, size - tailLength, tailLength);
+    const endOffset = findEndOfCentralDirectory(tail);
+    if (endOffset === -1) {
+      throw new ZipFormatError("El archivo ZIP no es válido o está dañado");
+    }
+
+    const endView = toDataView(tail);
+    let entryCount = endView.getUint16(endOffset + 10, true);
+    let centralSize = endView.getUint32(endOffset + 12, true);
+    let centralOffset = endView.getUint32(endOffset + 16, true);
+
+    const locatorOffset = endOffset - ZIP64_LOCATOR_LENGTH;
+    if (
+      locatorOffset >= 0 &&
+      endView.getUint32(locatorOffset, true) === ZIP64_LOCATOR_SIGNATURE
+    ) {
+      const zip64End = readAt(
+        input,
+        readUint64(endView, locatorOffset + 8),
+        ZIP64_END_OF_CENTRAL_DIRECTORY_LENGTH,
+      );
+      const zip64View = toDataView(zip64End);
+      if (
+        zip64View.getUint32(0, true) !==
+        ZIP64_END_OF_CENTRAL_DIRECTORY_SIGNATURE
+      ) {
+        throw new ZipFormatError("El directorio ZIP64 está dañado");
+      }
+      entryCount = readUint64(zip64View, 32);
+      centralSize = readUint64(zip64View, 40);
+      centralOffset = readUint64(zip64View, 48);
+    }
+
+    if (centralOffset + centralSize > size) {
+      throw new ZipFormatError("El archivo ZIP está incompleto");
+    }
+
+    const central = readAt(input, centralOffset, centralSize);
+    return new ZipStreamReader(
+      input,
+      parseCentralDirectory(central, entryCount),
+    );
+  }
+
+  /** El ZIP tiene entradas cifradas con contraseña */
+  get encrypted(): boolean {
+    return this.entries.some((entry) => entry.encrypted);
+  }
+
+  /**
+   * Comprueba `password` con la cabecera de cifrado de la primera entrada
+   * cifrada, sin leer su contenido, y la guarda para leer las demás. Lanza
+   * `ZipEncryptionError` con `wrong_password` si no es la correcta.
+   */
+  unlock(password: string): void {
+    const entry = this.entries.find((item) => item.encrypted && !item.dir);
+    if (entry) {
+      const decryptor = createZipEntryDecryptor(password, entry);
+      decryptor.start(
+        readAt(this.input, this.findEntryData(entry), decryptor.headerLength),
+      );
+    }
+    this.password = password;
+  }
+
+  /**
+   * Entrega el contenido descomprimido de `entry` en bloques de como mucho
+   * `ZIP_STREAM_CHUNK_SIZE` bytes. Falla si el contenido no coincide con el
+   * tamaño o el CRC declarados, de modo que unas cabeceras falsas no sirven
+   * para colar más datos de los validados antes de extraer. Las entradas
+   * cifradas necesitan haber pasado antes por `unlock`.
+   */
+  async readEntry(
+    entry: ZipStreamEntry,
+    onChunk: (chunk: Uint8Array) => void | Promise<void>,
+  ): Promise<void> {
+    if (entry.dir) return;
+
+    let decryptor: ZipEntryDecryptor | null = null;
+    if (entry.encrypted) {
+      if (this.password === undefined) {
+        throw new ZipEncryptionError(
+          "password_required",
+          "El ZIP está protegido con contraseña",
+        );
+      }
+      decryptor = createZipEntryDecryptor(this.password, entry);
+    }
+
+    const method = decryptor?.method ?? entry.method;
+    if (method !== METHOD_STORE && method !== METHOD_DEFLATE) {
+      throw new ZipFormatError(
+        `${entry.name} usa un método de compresión no soportado`,
+      );
+    }
+
+    // La posición se guarda aparte porque otra lectura del mismo ZIP puede
+    // mover la del archivo mientras esta espera a quien consume los bloques.
+    let position = this.findEntryData(entry);
+    let remainingInput = entry.compressedSize;
+    if (decryptor) {
+      remainingInput -= decryptor.headerLength + decryptor.trailerLength;
+      if (remainingInput < 0) {
+        throw new ZipFormatError(
+          `El contenido de ${entry.name} está incompleto`,
+        );
+      }
+      decryptor.start(readAt(this.input, position, decryptor.headerLength));
+      position += decryptor.headerLength;
+    }
+
+    const crc = new Crc32();
+    const inflater = method === METHOD_DEFLATE ? new RawInflater() : null;
+    let produced = 0;
+
+    const deliver = async (chunk: Uint8Array) => {
+      produced += chunk.length;
+      if (produced > entry.uncompressedSize) {
+        throw new ZipFormatError(
+          `${entry.name} ocupa más de lo que declara el ZIP`,
+        );
+      }
+      crc.update(chunk);
+      await onChunk(chunk);
+    };
+
+    for (;;) {
+      if (inflater) {
+        const output = inflater.read(ZIP_STREAM_CHUNK_SIZE);
+        if (output.length > 0) {
+          await deliver(output);
+          continue;
+        }
+        if (inflater.finished) break;
+      } else if (remainingInput === 0) {
+        break;
+      }
+
+      this.input.position = position;
+      const read = this.input.read(
+        Math.min(ZIP_STREAM_CHUNK_SIZE, remainingInput),
+      );
+      position += read.length;
+      if (read.length === 0) {
+        throw new ZipFormatError(
+          `El contenido de ${entry.name} está incompleto`,
+        );
+      }
+      remainingInput -= read.length;
+      const chunk = decryptor ? decryptor.update(read) : read;
+
+      if (inflater) {
+        inflater.push(chunk, remainingInput === 0);
+      } else {
+        await deliver(chunk);
+      }
+      await yieldToEventLoop();
+    }
+
+    // El código de autenticación de AES va tras el contenido cifrado
+    decryptor?.finish(readAt(this.input, position, decryptor.trailerLength));
+    if (
+      produced !== entry.uncompressedSize ||
+      (decryptor?.hasCrc !== false && crc.digest() !== entry.crc32)
+    ) {
+      throw new ZipFormatError(`El contenido de ${entry.name} está dañado`);
+    }
+  }
+
+  /** Posición donde empiezan los datos de `entry`, tras su cabecera local */
+  private findEntryData(entry: ZipStreamEntry): number {
+    const header = readAt(
+      this.input,
+      entry.localHeaderOffset,
+      LOCAL_HEADER_LENGTH,
+    );
+    const headerView = toDataView(header);
+    if (headerView.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipFormatError(`La cabecera de ${entry.name} está dañada`);
+    }
+    return (
+      entry.localHeaderOffset +
+      LOCAL_HEADER_LENGTH +
+      headerView.getUint16(26, true) +
+      headerView.getUint16(28, true)
+    );
+  }
+}
+
+function parseCentralDirectory(
+  bytes: Uint8Array,
+  entryCount: number,
+): ZipStreamEntry[] {
+  const view = toDataView(bytes);
+  const entries: ZipStreamEntry[] = [];
+  let offset = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (
+      offset + CENTRAL_HEADER_LENGTH > bytes.length ||
+      view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE
+    ) {
+      throw new ZipFormatError("El directorio central del ZIP está dañado");
+    }
+
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const nameStart = offset + CENTRAL_HEADER_LENGTH;
+    const extraStart = nameStart + nameLength;
+    const name = decodeName(bytes.subarray(nameStart, extraStart));
+
+    let compressedSize = view.getUint32(offset + 20, true);
+    let uncompressedSize = view.getUint32(offset + 24, true);
+    let localHeaderOffset = view.getUint32(offset + 42, true);
+
+    // En ZIP64 los campos desbordados valen 0xFFFFFFFF y el valor real va en
+    // el campo extra, en este orden y solo para los que han desbordado.
+    const extra = bytes.subarray(extraStart, extraStart + extraLength);
+    const zip64 = findExtraField(extra, ZIP64_EXTRA_FIELD_ID);
+    if (zip64) {
+      const zip64View = toDataView(zip64);
+      let zip64Offset = 0;
+      const next = () => {
+        if (zip64Offset + 8 > zip64.length) {
+          throw new ZipFormatError("El campo ZIP64 de una entrada está dañado");
+        }
+        const value = readUint64(zip64View, zip64Offset);
+        zip64Offset += 8;
+        return value;
+      };
+      if (uncompressedSize === MAX_UINT32) uncompressedSize = next();
+      if (compressedSize === MAX_UINT32) compressedSize = next();
+      if (localHeaderOffset === MAX_UINT32) localHeaderOffset = next();
+    }
+
+    entries.push({
+      name,
+      dir: name.endsWith("/"),
+      encrypted: (flags & FLAG_ENCRYPTED) !== 0,
+      flags,
+      method: view.getUint16(offset + 10, true),
+      dosTime: view.getUint16(offset + 12, true),
+      crc32: view.getUint32(offset + 16, true),
+      compressedSize,
+      uncompressedSize,
+      localHeaderOffset,
+      extra,
+    });
+    offset = extraStart + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+function buildLocalHeader(record: CentralDirectoryRecord): Uint8Array {
+  const header = new Uint8Array(
+    LOCAL_HEADER_LENGTH + record.nameBytes.length + record.extra.length,
+  );
+  const view = toDataView(header);
+  view.setUint32(0, LOCAL_HEADER_SIGNATURE, true);
+  view.setUint16(4, record.versionNeeded, true);
+  view.setUint16(6, record.flags, true);
+  view.setUint16(8, record.method, true);
+  view.setUint16(10, record.dosTime, true);
+  view.setUint16(12, record.dosDate, true);
+  view.setUint16(26, record.nameBytes.length, true);
+  view.setUint16(28, record.extra.length, true);
+  header.set(record.nameBytes, LOCAL_HEADER_LENGTH);
+  header.set(record.extra, LOCAL_HEADER_LENGTH + record.nameBytes.length);
+  return header;
+}
+
+function findEndOfCentralDirectory(tail: Uint8Array): number {
+  const view = toDataView(tail);
+  for (
+    let offset = tail.length - END_OF_CENTRAL_DIRECTORY_LENGTH;
+    offset >= 0;
+    offset--
+  ) {
+    if (
+      view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE &&
+      offset +
+        END_OF_CENTRAL_DIRECTORY_LENGTH +
+        view.getUint16(offset + 20, true) ===
+        tail.length
+    ) {
+      return offset;
+    }
+  }
+  return -1;
+}
+
+function findExtraField(extra: Uint8Array, id: number): Uint8Array | undefined {
+  const view = toDataView(extra);
+  for (let offset = 0; offset + 4 <= extra.length;) {
+    const fieldId = view.getUint16(offset, true);
+    const length = view.getUint16(offset + 2, true);
+    if (fieldId === id) {
+      return extra.subarray(offset + 4, offset + 4 + length);
+    }
+    offset += 4 + length;
+  }
+  return undefined;
+}
+
+function readAt(
+  input: FSFileStream,
+  offset: number,
+  length: number,
+): Uint8Array {
+  input.position = offset;
+  const bytes = input.read(length);
+  if (bytes.length !== length) {
+    throw new ZipFormatError("El archivo ZIP está incompleto");
+  }
+  return bytes;
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return (
+    view.getUint32(offset, true) +
+    view.getUint32(offset + 4, true) * 0x100000000
+  );
+}
+
+function toDosDateTime(date: Date): { dosTime: number; dosDate: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    dosTime:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      (date.getSeconds() >> 1),
+    dosDate:
+      ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+function nameFlags(name: string): number {
+  return /^[\x00-\x7f]*$/.test(name) ? 0 : FLAG_UTF8;
+}
+
+function encodeName(name: string): Uint8Array {
+  return new TextEncoder().encode(name);
+}
+
+/** Como JSZip, se asume UTF-8 aunque la entrada no lo marque */
+function decodeName(bytes: Uint8Array): string {
+  return new TextDecoder().decode(bytes);
+}
+
+function toDataView(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
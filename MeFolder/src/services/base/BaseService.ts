@@ -2,6 +2,8 @@ import { Database } from '@/database/sqlite/Database';
 import { 
   FileRepository,
   FolderRepository, 
+  JobRepository,
+  SmartFolderRepository,
   TagRepository,
   TagAssignmentRepository,
   UserColorRepository
@@ -13,6 +15,8 @@ import {
 export abstract class BaseService {
   protected fileRepo: FileRepository;
   protected folderRepo: FolderRepository;
+  protected jobRepo: JobRepository;
+  protected smartFolderRepo: SmartFolderRepository;
   protected tagRepo: TagRepository;
   protected tagAssignmentRepo: TagAssignmentRepository;
   protected userColorRepo: UserColorRepository;
@@ -22,6 +26,8 @@ export abstract class BaseService {
     this.db = Database.getInstance();
     this.fileRepo = new FileRepository();
     this.folderRepo = new FolderRepository();
+    this.jobRepo = new JobRepository();
+    this.smartFolderRepo = new SmartFolderRepository();
     this.tagRepo = new TagRepository();
     this.tagAssignmentRepo = new TagAssignmentRepository();
     this.userColorRepo = new UserColorRepository();
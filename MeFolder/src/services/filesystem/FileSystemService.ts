@@ -16,9 +16,12 @@ import type {
   FSTransferResult,
   FSBatchResult,
   FSWriteOptions,
+  FSFileStream,
 } from "@/types/filesystem";
+import { Md5 } from "@/utils/crypto";
 
 const MAX_MD5_FILE_SIZE_BYTES = 16 * 1024 * 1024;
+const CHECKSUM_CHUNK_SIZE = 1024 * 1024;
 
 /**
  * FileSystemService — Servicio puro para operaciones sobre el sistema de archivos.
@@ -105,6 +108,49 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Calcula el MD5 de un archivo sin el límite de tamaño de getFileInfo.
+   * Por encima de ese límite el archivo se lee por bloques y se cede el hilo
+   * entre uno y otro, para que un vídeo de varios GB no bloquee la UI.
+   */
+  async getFileChecksum(uri: string): Promise<FSOperationResult<string>> {
+    try {
+      const file = new FSFile(uri);
+      if (!file.exists) {
+        return { success: false, uri, error: "El archivo no existe" };
+      }
+
+      if ((file.size ?? 0) <= MAX_MD5_FILE_SIZE_BYTES) {
+        const md5 = file.md5;
+        if (!md5) {
+          return {
+            success: false,
+            uri,
+            error: "No se pudo calcular el checksum",
+          };
+        }
+        return { success: true, uri, data: md5 };
+      }
+
+      const md5 = new Md5();
+      const handle = file.open();
+      try {
+        for (;;) {
+          const chunk = handle.readBytes(CHECKSUM_CHUNK_SIZE);
+          if (chunk.length === 0) break;
+          md5.update(chunk);
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      } finally {
+        handle.close();
+      }
+
+      return { success: true, uri, data: md5.digest() };
+    } catch (error) {
+      return this.failResult(uri, error, "calcular el checksum del archivo");
+    }
+  }
+
   /**
    * Obtiene información de un directorio.
    */
@@ -477,6 +523,22 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Lee el contenido binario de un archivo.
+   */
+  async readAsBytes(uri: string): Promise<FSOperationResult<Uint8Array>> {
+    try {
+      const file = new FSFile(uri);
+      if (!file.exists) {
+        return { success: false, uri, error: "Archivo no existe" };
+      }
+      const content = await file.bytes();
+      return { success: true, uri, data: content };
+    } catch (error) {
+      return this.failResult(uri, error, "leer archivo como bytes");
+    }
+  }
+
   /**
    * Escribe contenido en un archivo.
    * Crea el archivo si no existe. Sobreescribe si existe.
@@ -505,6 +567,49 @@ export class FileSystemService {
     }
   }
 
+  /**
+   * Abre un archivo para leerlo o escribirlo por bloques.
+   * Con `create` se crea vacío (sustituyendo el existente) antes de abrirlo.
+   */
+  openFileStream(
+    uri: string,
+    options?: { create?: boolean },
+  ): FSOperationResult<FSFileStream> {
+    try {
+      const file = new FSFile(uri);
+
+      if (options?.create) {
+        this.ensureDirectory(this.getParentUri(uri));
+        file.create({ intermediates: true, overwrite: true });
+      } else if (!file.exists) {
+        return { success: false, uri, error: "Archivo no existe" };
+      }
+
+      const handle = file.open();
+      return {
+        success: true,
+        uri,
+        data: {
+          uri,
+          get size() {
+            return handle.size ?? 0;
+          },
+          get position() {
+            return handle.offset ?? 0;
+          },
+          set position(value: number) {
+            handle.offset = value;
+          },
+          read: (length) => handle.readBytes(length),
+          write: (bytes) => handle.writeBytes(bytes),
+          close: () => handle.close(),
+        },
+      };
+    } catch (error) {
+      return this.failResult(uri, error, "abrir archivo");
+    }
+  }
+
   /**
    * Descarga un archivo desde una URL.
    */
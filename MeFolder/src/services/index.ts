@@ -1,6 +1,8 @@
 export { BaseService } from "./base/BaseService";
 export { AlbumArchiveService } from "./archive/AlbumArchiveService";
 export { ArchiveService } from "./archive/ArchiveService";
+export { LibraryBackupService } from "./archive/LibraryBackupService";
+export { DuplicateService } from "./DuplicateService";
 export { FileService } from "./FileService";
 export { FolderService } from "./FolderService";
 export { TagService } from "./TagService";
@@ -8,3 +10,6 @@ export { UserColorService } from "./UserColorService";
 export { FileSystemService } from "./filesystem/FileSystemService";
 export { MediaService } from "./media/MediaService";
 export { MediaImportService } from "./media/MediaImportService";
+export { SearchService } from "./search/SearchService";
+export { SmartFolderService } from "./search/SmartFolderService";
+export { JobService } from "./jobs/JobService";
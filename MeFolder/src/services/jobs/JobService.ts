@@ -0,0 +1,388 @@
+import { BaseService } from "../base/BaseService";
+import { FileService } from "../FileService";
+import { FolderService } from "../FolderService";
+import { AlbumArchiveService } from "../archive/AlbumArchiveService";
+import { ArchiveService } from "../archive/ArchiveService";
+import { MediaImportService } from "../media/MediaImportService";
+import {
+  createJobHandlers,
+  type JobContext,
+  type JobHandlers,
+  type JobParams,
+  type JobResult,
+  type JobRunResult,
+  type JobRuntime,
+} from "./jobHandlers";
+import {
+  Job,
+  JobError,
+  JobProgress,
+  JobType,
+  UpdateJobInput,
+} from "../../types/entities/job";
+import { UUID } from "../../types/common/base";
+import { OperationCancelledError } from "@/utils/errors";
+
+/** Cada cuánto se avisa a la UI del progreso de la tarea en curso */
+const PROGRESS_NOTIFY_INTERVAL_MS = 100;
+/** Cada cuánto se guarda en la BD el progreso de la tarea en curso */
+const PROGRESS_PERSIST_INTERVAL_MS = 1000;
+
+export interface JobOutcome<T> {
+  job: Job;
+  success: boolean;
+  data?: T | undefined;
+  error?: JobError | undefined;
+}
+
+export interface EnqueuedJob<T> {
+  job: Job;
+  /** Se resuelve cuando la tarea termina, se cancela o falla; nunca se rechaza */
+  completion: Promise<JobOutcome<T>>;
+}
+
+export type JobsListener = (jobs: Job[]) => void;
+
+interface QueueEntry {
+  jobId: UUID;
+  runtime: object;
+  resolve: (outcome: JobOutcome<unknown>) => void;
+}
+
+type AnyJobHandler = (
+  params: unknown,
+  context: JobContext,
+  runtime: object,
+) => Promise<JobRunResult<unknown>>;
+
+/**
+ * JobService - Cola de tareas largas en segundo plano
+ *
+ * Funciones incluidas:
+ * - Ejecutar de una en una, en orden, compresiones, extracciones,
+ *   importaciones/exportaciones de álbumes, importaciones de la galería y pegados
+ * - Progreso por tarea y cancelación con rollback mediante AbortSignal
+ * - Historial persistido en la BD: al arrancar, las tareas que no terminaron
+ *   se marcan como interrumpidas y se pueden reintentar
+ *
+ * Las opciones que no se pueden guardar (contraseñas, callbacks de la UI) viven
+ * solo en memoria mientras la tarea está en cola.
+ */
+export class JobService extends BaseService {
+  private readonly handlers: JobHandlers;
+  private jobs: Job[] = [];
+  private readonly queue: QueueEntry[] = [];
+  private readonly listeners = new Set<JobsListener>();
+  private running: { jobId: UUID; controller: AbortController } | null = null;
+  private processing = false;
+  private initialization: Promise<void> | null = null;
+
+  constructor(
+    archiveService: ArchiveService = new ArchiveService(),
+    albumArchiveService: AlbumArchiveService = new AlbumArchiveService(),
+    mediaImportService: MediaImportService = new MediaImportService(),
+    fileService: FileService = new FileService(),
+    folderService: FolderService = new FolderService(),
+  ) {
+    super();
+    this.handlers = createJobHandlers({
+      archiveService,
+      albumArchiveService,
+      mediaImportService,
+      fileService,
+      folderService,
+    });
+  }
+
+  /**
+   * Carga el historial y marca como interrumpidas las tareas que la app no
+   * llegó a terminar. Se puede llamar varias veces: solo se ejecuta una.
+   */
+  initialize(): Promise<void> {
+    this.initialization ??= this.recoverUnfinishedJobs();
+    return this.initialization;
+  }
+
+  /** Historial de tareas, de la más reciente a la más antigua */
+  getJobs(): Job[] {
+    return this.jobs;
+  }
+
+  /** Avisa de cada cambio del historial; devuelve la función para darse de baja */
+  subscribe(listener: JobsListener): () => void {
+    this.listeners.add(listener);
+    listener(this.jobs);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Añade una tarea al final de la cola.
+   * `runtime` solo vive en memoria: no se guarda ni sobrevive a un reinicio.
+   */
+  async enqueue<K extends JobType>(
+    type: K,
+    title: string,
+    params: JobParams<K>,
+    runtime?: JobRuntime<K>,
+  ): Promise<EnqueuedJob<JobResult<K>>> {
+    try {
+      this.ensureDbInitialized();
+      await this.initialize();
+
+      const job = await this.jobRepo.create({
+        type,
+        title,
+        params: params as unknown as Record<string, unknown>,
+      });
+      this.jobs = [job, ...this.jobs];
+
+      return { job, completion: this.schedule<JobResult<K>>(job, runtime) };
+    } catch (error) {
+      return this.handleError(error, "añadir tarea a la cola");
+    }
+  }
+
+  /**
+   * Vuelve a poner en cola una tarea fallida, cancelada o interrumpida con
+   * los mismos parámetros guardados.
+   */
+  async retry<K extends JobType>(
+    jobId: UUID,
+    runtime?: JobRuntime<K>,
+  ): Promise<EnqueuedJob<JobResult<K>>> {
+    try {
+      this.ensureDbInitialized();
+
+      const job = this.jobs.find((item) => item.id === jobId);
+      if (!job) throw new Error("Tarea no encontrada");
+      if (job.status === "queued" || job.status === "running") {
+        throw new Error("La tarea todavía no ha terminado");
+      }
+
+      const queuedJob = await this.saveJob(jobId, {
+        status: "queued",
+        progress: { completed: 0, total: 0 },
+        resultMessage: null,
+        error: null,
+        startedAt: null,
+        finishedAt: null,
+      });
+
+      return {
+        job: queuedJob,
+        completion: this.schedule<JobResult<K>>(queuedJob, runtime),
+      };
+    } catch (error) {
+      return this.handleError(error, "reintentar tarea");
+    }
+  }
+
+  /**
+   * Cancela una tarea. Si está en cola se descarta; si está en ejecución se
+   * le pide que pare, y termina como cancelada en cuanto deshace lo que llevaba.
+   */
+  async cancel(jobId: UUID): Promise<void> {
+    try {
+      if (this.running?.jobId === jobId) {
+        this.running.controller.abort();
+        return;
+      }
+
+      const queueIndex = this.queue.findIndex((entry) => entry.jobId === jobId);
+      if (queueIndex < 0) return;
+
+      const [entry] = this.queue.splice(queueIndex, 1);
+      const error = toJobError(new OperationCancelledError());
+      const job = await this.saveJob(jobId, {
+        status: "cancelled",
+        error,
+        finishedAt: new Date(),
+      });
+      entry?.resolve({ job, success: false, error });
+    } catch (error) {
+      this.handleError(error, "cancelar tarea");
+    }
+  }
+
+  /** Borra del historial las tareas terminadas */
+  async clearFinished(): Promise<void> {
+    try {
+      this.ensureDbInitialized();
+
+      await this.jobRepo.deleteFinished();
+      this.jobs = this.jobs.filter(
+        (job) => job.status === "queued" || job.status === "running",
+      );
+      this.notify();
+    } catch (error) {
+      this.handleError(error, "limpiar historial de tareas");
+    }
+  }
+
+  private async recoverUnfinishedJobs(): Promise<void> {
+    const unfinishedJobs = await this.jobRepo.findUnfinished();
+
+    for (const job of unfinishedJobs) {
+      await this.jobRepo.update(job.id, {
+        status: "interrupted",
+        error: {
+          code: "interrupted",
+          message: "La app se cerró antes de que terminara la tarea",
+        },
+        finishedAt: new Date(),
+      });
+    }
+
+    this.jobs = await this.jobRepo.findAll();
+    this.notify();
+  }
+
+  private schedule<T>(job: Job, runtime?: object): Promise<JobOutcome<T>> {
+    const completion = new Promise<JobOutcome<T>>((resolve) => {
+      this.queue.push({
+        jobId: job.id,
+        runtime: runtime ?? {},
+        resolve: resolve as (outcome: JobOutcome<unknown>) => void,
+      });
+    });
+
+    this.notify();
+    void this.processQueue();
+    return completion;
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let entry = this.queue.shift();
+      while (entry) {
+        entry.resolve(await this.runJob(entry));
+        entry = this.queue.shift();
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async runJob(entry: QueueEntry): Promise<JobOutcome<unknown>> {
+    const controller = new AbortController();
+    this.running = { jobId: entry.jobId, controller };
+
+    let lastNotifyAt = 0;
+    let lastPersistAt = 0;
+    let pendingProgressWrite: Promise<unknown> = Promise.resolve();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: (progress: JobProgress) => {
+        this.patchJob(entry.jobId, { progress });
+
+        const now = Date.now();
+        if (now - lastNotifyAt >= PROGRESS_NOTIFY_INTERVAL_MS) {
+          lastNotifyAt = now;
+          this.notify();
+        }
+        if (now - lastPersistAt >= PROGRESS_PERSIST_INTERVAL_MS) {
+          lastPersistAt = now;
+          pendingProgressWrite = this.jobRepo
+            .update(entry.jobId, { progress })
+            .catch((error) =>
+              console.warn(
+                "No se pudo guardar el progreso de la tarea:",
+                error,
+              ),
+            );
+        }
+      },
+    };
+
+    let result: JobRunResult<unknown>;
+    try {
+      const job = await this.saveJob(entry.jobId, {
+        status: "running",
+        startedAt: new Date(),
+      });
+      const handler = this.handlers[job.type] as unknown as AnyJobHandler;
+      result = await handler(job.params, context, entry.runtime);
+    } catch (error) {
+      result = { success: false, error: toJobError(error) };
+    }
+
+    await pendingProgressWrite;
+
+    const status = result.success
+      ? "completed"
+      : result.error?.code === "cancelled"
+        ? "cancelled"
+        : "failed";
+
+    let finishedJob: Job;
+    try {
+      finishedJob = await this.saveJob(entry.jobId, {
+        status,
+        finishedAt: new Date(),
+        ...(result.resultMessage
+          ? { resultMessage: result.resultMessage }
+          : {}),
+        ...(result.error ? { error: result.error } : {}),
+      });
+    } catch (error) {
+      console.error("Error saving finished job:", error);
+      finishedJob = this.patchJob(entry.jobId, { status });
+    } finally {
+      this.running = null;
+    }
+
+    this.notify();
+    return {
+      job: finishedJob,
+      success: result.success,
+      ...(result.data !== undefined ? { data: result.data } : {}),
+      ...(result.error ? { error: result.error } : {}),
+    };
+  }
+
+  /** Guarda los cambios en la BD y en el historial en memoria */
+  private async saveJob(jobId: UUID, input: UpdateJobInput): Promise<Job> {
+    const job = await this.jobRepo.update(jobId, input);
+    this.jobs = this.jobs.map((item) => (item.id === jobId ? job : item));
+    this.notify();
+    return job;
+  }
+
+  /** Cambia la tarea solo en memoria, sin escribir en la BD */
+  private patchJob(jobId: UUID, changes: Partial<Job>): Job {
+    let patched: Job | undefined;
+    this.jobs = this.jobs.map((item) => {
+      if (item.id !== jobId) return item;
+      patched = { ...item, ...changes };
+      return patched;
+    });
+
+    if (!patched) throw new Error("Tarea no encontrada");
+    return patched;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener(this.jobs));
+  }
+}
+
+const toJobError = (error: unknown): JobError => {
+  if (error instanceof OperationCancelledError) {
+    return { code: "cancelled", message: error.message };
+  }
+
+  return {
+    code: "unknown",
+    message:
+      error instanceof Error
+        ? error.message
+        : "Ha ocurrido un error inesperado durante la tarea",
+  };
+};
@@ -0,0 +1,480 @@
+import { FileModel, FolderModel } from "@/models";
+import type {
+  ArchiveCreationSummary,
+  ArchiveEncryptionMethod,
+  ArchiveExtractMode,
+  ArchiveExtractionSummary,
+  ArchiveOperationResult,
+  ArchiveOverwriteMode,
+  ArchiveProgress,
+  ArchiveSourceFile,
+  ExportAlbumArchiveSummary,
+  ExtractArchiveParams,
+  ImportAlbumArchiveSource,
+  ImportAlbumArchiveSummary,
+  JobError,
+  JobProgress,
+  JobType,
+  SupportedArchiveFormat,
+  UUID,
+} from "@/types";
+import type {
+  MediaImportDuplicatePolicy,
+  MediaImportFile,
+  MediaImportProgress,
+} from "@/types/media";
+import { OperationCancelledError, throwIfCancelled } from "@/utils/errors";
+import { formatCompressionSummary } from "@/utils/format";
+import { FileService } from "../FileService";
+import { FolderService } from "../FolderService";
+import { AlbumArchiveService } from "../archive/AlbumArchiveService";
+import { ArchiveService } from "../archive/ArchiveService";
+import {
+  MediaImportService,
+  type ImportMediaFilesResult,
+} from "../media/MediaImportService";
+
+/** Lo que recibe una tarea mientras se ejecuta */
+export interface JobContext {
+  readonly signal: AbortSignal;
+  reportProgress(progress: JobProgress): void;
+}
+
+export interface JobRunResult<T> {
+  success: boolean;
+  data?: T | undefined;
+  error?: JobError | undefined;
+  /** Resumen que se guarda con la tarea y se muestra en el panel */
+  resultMessage?: string | undefined;
+}
+
+/**
+ * La contraseña no se guarda en la BD: si falta al reintentar la tarea
+ * después de un reinicio, la tarea falla pidiendo que se vuelva a lanzar.
+ */
+export interface CompressJobParams {
+  sourceType: "file" | "folder";
+  sourceId: UUID;
+  destinationFolderId: UUID;
+  format: SupportedArchiveFormat;
+  /** Solo cuando el ZIP se protege con contraseña */
+  encryption?: ArchiveEncryptionMethod;
+  /** Tamaño máximo de cada parte en bytes si se divide el comprimido */
+  volumeSize?: number;
+}
+
+export interface CompressJobRuntime {
+  password?: string;
+}
+
+export interface ExtractJobParams {
+  archiveFileId: UUID;
+  parentFolderId: UUID;
+  mode: ArchiveExtractMode;
+  overwriteMode: ArchiveOverwriteMode;
+  partialEntries?: string[];
+}
+
+/**
+ * Sin `onConflict` (por ejemplo, al reintentar tras un reinicio) el modo
+ * "preguntar" se ejecuta como "renombrar".
+ */
+export interface ExtractJobRuntime {
+  password?: string;
+  onConflict?: ExtractArchiveParams["onConflict"];
+}
+
+export interface AlbumImportJobParams {
+  archiveFile: ImportAlbumArchiveSource;
+  /** Álbum existente en el que fusionar el ZIP en lugar de crear otro */
+  targetAlbumId?: UUID;
+}
+
+export interface AlbumExportJobParams {
+  albumId: UUID;
+  volumeSize?: number;
+}
+
+export interface MediaImportJobParams {
+  files: MediaImportFile[];
+  folderId?: UUID;
+  tagIds?: UUID[];
+  duplicatePolicy: MediaImportDuplicatePolicy;
+}
+
+export interface PasteJobItem {
+  type: "file" | "folder";
+  id: UUID;
+  name: string;
+  /** Carpeta de origen, para devolver el elemento si se cancela al cortar */
+  sourceFolderId?: UUID;
+}
+
+export interface PasteJobParams {
+  mode: "copy" | "cut";
+  destinationFolderId: UUID;
+  items: PasteJobItem[];
+}
+
+export interface PasteJobResult {
+  createdFolders: FolderModel[];
+  createdFiles: FileModel[];
+}
+
+/** Parámetros, opciones en memoria y resultado de cada tipo de tarea */
+export interface JobDefinitions {
+  compress: {
+    params: CompressJobParams;
+    runtime: CompressJobRuntime;
+    result: ArchiveCreationSummary;
+  };
+  extract: {
+    params: ExtractJobParams;
+    runtime: ExtractJobRuntime;
+    result: ArchiveExtractionSummary;
+  };
+  album_import: {
+    params: AlbumImportJobParams;
+    runtime: Record<string, never>;
+    result: ImportAlbumArchiveSummary;
+  };
+  album_export: {
+    params: AlbumExportJobParams;
+    runtime: Record<string, never>;
+    result: ExportAlbumArchiveSummary;
+  };
+  media_import: {
+    params: MediaImportJobParams;
+    runtime: Record<string, never>;
+    result: ImportMediaFilesResult;
+  };
+  paste: {
+    params: PasteJobParams;
+    runtime: Record<string, never>;
+    result: PasteJobResult;
+  };
+}
+
+export type JobParams<K extends JobType> = JobDefinitions[K]["params"];
+export type JobRuntime<K extends JobType> = JobDefinitions[K]["runtime"];
+export type JobResult<K extends JobType> = JobDefinitions[K]["result"];
+
+export type JobHandler<K extends JobType> = (
+  params: JobParams<K>,
+  context: JobContext,
+  runtime: Partial<JobRuntime<K>>,
+) => Promise<JobRunResult<JobResult<K>>>;
+
+export type JobHandlers = { [K in JobType]: JobHandler<K> };
+
+export interface JobHandlerServices {
+  archiveService: ArchiveService;
+  albumArchiveService: AlbumArchiveService;
+  mediaImportService: MediaImportService;
+  fileService: FileService;
+  folderService: FolderService;
+}
+
+/** Crea el ejecutor de cada tipo de tarea sobre los servicios de la app */
+export const createJobHandlers = ({
+  archiveService,
+  albumArchiveService,
+  mediaImportService,
+  fileService,
+  folderService,
+}: JobHandlerServices): JobHandlers => ({
+  compress: async (params, context, runtime) => {
+    if (params.encryption && !runtime.password) {
+      return {
+        success: false,
+        error: {
+          code: "password_required",
+          message:
+            "La contraseña no se conserva al cerrar la app. Vuelve a comprimir el elemento para indicarla.",
+        },
+      };
+    }
+
+    const commonParams = {
+      destinationFolderId: params.destinationFolderId,
+      format: params.format,
+      ...(params.encryption && runtime.password
+        ? {
+            futureOptions: {
+              password: runtime.password,
+              encryption: params.encryption,
+            },
+          }
+        : {}),
+      ...(params.volumeSize ? { volumeSize: params.volumeSize } : {}),
+      onProgress: (progress: ArchiveProgress) =>
+        context.reportProgress(toJobProgress(progress)),
+      signal: context.signal,
+    };
+
+    let result: ArchiveOperationResult<ArchiveCreationSummary>;
+    if (params.sourceType === "folder") {
+      result = await archiveService.createArchiveFromFolder({
+        sourceFolderId: params.sourceId,
+        ...commonParams,
+      });
+    } else {
+      const file = await fileService.getFile(params.sourceId);
+      result = await archiveService.createArchiveFromFiles({
+        files: [toArchiveSourceFile(file)],
+        outputName: removeExtension(file.name),
+        ...commonParams,
+      });
+    }
+
+    return toRunResult(result, (data) =>
+      data.volumes
+        ? `Se ha creado ${data.archiveFile.name} y ${data.volumes.length - 1} partes más: ${formatCompressionSummary(data.originalSize, data.archiveSize)}`
+        : `Se ha creado ${data.archiveFile.name}: ${formatCompressionSummary(data.originalSize, data.archiveSize)}`,
+    );
+  },
+
+  extract: async (params, context, runtime) => {
+    const archiveFile = await fileService.getFile(params.archiveFileId);
+    const askConflict = runtime.onConflict;
+    const overwriteMode =
+      params.overwriteMode === "ask" && !askConflict
+        ? "rename"
+        : params.overwriteMode;
+
+    const result = await archiveService.extractArchive({
+      archiveFile: toArchiveSourceFile(archiveFile),
+      parentFolderId: params.parentFolderId,
+      mode: params.mode,
+      futureOptions: {
+        overwriteMode,
+        ...(runtime.password ? { password: runtime.password } : {}),
+        ...(params.partialEntries
+          ? { partialEntries: params.partialEntries }
+          : {}),
+      },
+      ...(askConflict
+        ? {
+            onConflict: (conflict) =>
+              untilCancelled(askConflict(conflict), context.signal),
+          }
+        : {}),
+      onProgress: (progress) => context.reportProgress(toJobProgress(progress)),
+      signal: context.signal,
+    });
+
+    return toRunResult(result, (data) => {
+      const skippedCount = data.skippedEntries.length;
+      return skippedCount > 0
+        ? `Se ha extraído ${archiveFile.name}; se han omitido ${skippedCount} elementos`
+        : `Se ha extraído ${archiveFile.name} en ${data.destinationFolder.name}`;
+    });
+  },
+
+  album_import: async (params, context) => {
+    const result = await albumArchiveService.importAlbumArchive({
+      archiveFile: params.archiveFile,
+      ...(params.targetAlbumId ? { targetAlbumId: params.targetAlbumId } : {}),
+      onProgress: (progress) => context.reportProgress(toJobProgress(progress)),
+      signal: context.signal,
+    });
+
+    return toRunResult(result, (data) =>
+      data.merged
+        ? `Se han añadido ${data.importedFileCount} archivos al álbum ${data.albumName}; ${data.skippedFileCount} ya estaban`
+        : `Se ha importado el álbum ${data.albumName} con ${data.importedFileCount} archivos`,
+    );
+  },
+
+  album_export: async (params, context) => {
+    const result = await albumArchiveService.exportAlbum({
+      albumId: params.albumId,
+      ...(params.volumeSize ? { volumeSize: params.volumeSize } : {}),
+      onProgress: (progress) => context.reportProgress(toJobProgress(progress)),
+      signal: context.signal,
+    });
+
+    return toRunResult(
+      result,
+      (data) => `Se ha exportado el álbum ${data.albumName}`,
+    );
+  },
+
+  media_import: async (params, context) => {
+    const result = await mediaImportService.importFiles({
+      files: params.files,
+      ...(params.folderId ? { folderId: params.folderId } : {}),
+      ...(params.tagIds ? { tagIds: params.tagIds } : {}),
+      duplicatePolicy: params.duplicatePolicy,
+      onProgress: (progress) =>
+        context.reportProgress(mediaToJobProgress(progress)),
+      signal: context.signal,
+    });
+
+    const failedMessage =
+      result.failed.length > 0 ? `; ${result.failed.length} con errores` : "";
+    return {
+      success: true,
+      data: result,
+      resultMessage: `Se han importado ${result.importedFiles.length} de ${params.files.length} archivos${failedMessage}`,
+    };
+  },
+
+  paste: async (params, context) => {
+    const createdFolders: FolderModel[] = [];
+    const createdFiles: FileModel[] = [];
+    const total = params.items.length;
+
+    try {
+      for (const [index, item] of params.items.entries()) {
+        throwIfCancelled(context.signal);
+        context.reportProgress({
+          completed: index,
+          total,
+          currentItemName: item.name,
+        });
+
+        if (item.type === "folder") {
+          createdFolders.push(
+            params.mode === "copy"
+              ? await folderService.copyFolder(
+                  item.id,
+                  params.destinationFolderId,
+                )
+              : await folderService.moveFolder(
+                  item.id,
+                  params.destinationFolderId,
+                ),
+          );
+        } else {
+          createdFiles.push(
+            params.mode === "copy"
+              ? await fileService.copyFile(item.id, params.destinationFolderId)
+              : await fileService.moveFile(item.id, params.destinationFolderId),
+          );
+        }
+      }
+    } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        await rollbackPaste(params, createdFolders, createdFiles, {
+          fileService,
+          folderService,
+        });
+      }
+      throw error;
+    }
+
+    context.reportProgress({ completed: total, total });
+    return {
+      success: true,
+      data: { createdFolders, createdFiles },
+      resultMessage:
+        params.mode === "copy"
+          ? `Se han copiado ${total} elementos`
+          : `Se han movido ${total} elementos`,
+    };
+  },
+});
+
+/**
+ * Deshace un pegado cancelado: borra las copias creadas o devuelve a su
+ * carpeta de origen lo que ya se había movido. Es best-effort.
+ */
+const rollbackPaste = async (
+  params: PasteJobParams,
+  createdFolders: FolderModel[],
+  createdFiles: FileModel[],
+  services: Pick<JobHandlerServices, "fileService" | "folderService">,
+): Promise<void> => {
+  const sourceFolderIds = new Map(
+    params.items.map((item) => [item.id, item.sourceFolderId]),
+  );
+
+  for (const file of [...createdFiles].reverse()) {
+    try {
+      const sourceFolderId = sourceFolderIds.get(file.id);
+      if (params.mode === "copy") {
+        await services.fileService.permanentDeleteFile(file.id);
+      } else if (sourceFolderId) {
+        await services.fileService.moveFile(file.id, sourceFolderId);
+      }
+    } catch {
+      // Ignorado: el rollback es best-effort.
+    }
+  }
+
+  for (const folder of [...createdFolders].reverse()) {
+    try {
+      const sourceFolderId = sourceFolderIds.get(folder.id);
+      if (params.mode === "copy") {
+        await services.folderService.permanentDeleteFolder(folder.id);
+      } else if (sourceFolderId) {
+        await services.folderService.moveFolder(folder.id, sourceFolderId);
+      }
+    } catch {
+      // Ignorado: el rollback es best-effort.
+    }
+  }
+};
+
+/** Deja de esperar la respuesta del usuario si la tarea se cancela mientras tanto */
+const untilCancelled = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new OperationCancelledError());
+      return;
+    }
+
+    const onAbort = () => reject(new OperationCancelledError());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+
+const toRunResult = <T>(
+  result: ArchiveOperationResult<T>,
+  describe: (data: T) => string,
+): JobRunResult<T> =>
+  result.success && result.data
+    ? { success: true, data: result.data, resultMessage: describe(result.data) }
+    : {
+        success: false,
+        error: result.error ?? {
+          code: "unknown",
+          message: "La operación no ha terminado correctamente",
+        },
+      };
+
+const toJobProgress = (progress: ArchiveProgress): JobProgress => ({
+  completed: progress.processedEntries,
+  total: progress.totalEntries,
+  currentItemName: progress.currentEntryName,
+  completedBytes: progress.processedBytes,
+  totalBytes: progress.totalBytes,
+});
+
+const mediaToJobProgress = (progress: MediaImportProgress): JobProgress => ({
+  completed: progress.completed,
+  total: progress.total,
+  currentItemName: progress.currentFileName,
+  completedBytes: progress.completedBytes,
+  totalBytes: progress.totalBytes,
+});
+
+const toArchiveSourceFile = (file: FileModel): ArchiveSourceFile => ({
+  id: file.id,
+  name: file.name,
+  originalName: file.originalName,
+  extension: file.extension,
+  path: file.path,
+  metadata: file.metadata,
+  ...(file.folderId ? { folderId: file.folderId } : {}),
+  ...(file.visibility ? { visibility: file.visibility } : {}),
+  ...(file.storageUrl ? { storageUrl: file.storageUrl } : {}),
+});
+
+const removeExtension = (name: string): string => {
+  const dotIndex = name.lastIndexOf(".");
+  return dotIndex > 0 ? name.slice(0, dotIndex) : name;
+};
@@ -12,12 +12,16 @@ import type { ColorInfo } from "@/types/common/colors";
 import { FILE_CATEGORY_MAP } from "@/types/common/file-extensions";
 import type { FileExtension } from "@/types/common/file-extensions";
 import type {
+  MediaImportDuplicate,
+  MediaImportDuplicatePolicy,
   MediaImportFailure,
   MediaImportFile,
   MediaImportProgress,
 } from "@/types/media";
 import type { UUID } from "@/types/common/base";
+import { throwIfCancelled } from "@/utils/errors";
 import { sanitizeFileName } from "@/utils/format/name";
+import { DuplicateService } from "../DuplicateService";
 import { FileService } from "../FileService";
 import { TagService } from "../TagService";
 import { FileSystemService } from "../filesystem/FileSystemService";
@@ -37,11 +41,22 @@ export interface ImportMediaFilesParams {
   files: MediaImportFile[];
   folderId?: UUID;
   tagIds?: UUID[];
+  /** Qué hacer con archivos que ya existen en la biblioteca (por defecto keepBoth) */
+  duplicatePolicy?: MediaImportDuplicatePolicy;
   onProgress?: (progress: MediaImportProgress) => void;
+  /**
+   * Al activarse se detiene la importación, se eliminan los archivos ya
+   * importados y se lanza OperationCancelledError
+   */
+  signal?: AbortSignal;
 }
 
 export interface ImportMediaFilesResult {
   importedFiles: FileModel[];
+  /** Archivos existentes a los que se añadieron los tags destino (política link) */
+  linkedFiles: FileModel[];
+  /** Archivos no importados por existir ya (política skip) */
+  skipped: MediaImportDuplicate[];
   failed: MediaImportFailure[];
 }
 
@@ -82,22 +97,29 @@ export class MediaImportService {
   constructor(
     private readonly fileService: FileService = new FileService(),
     private readonly tagService: TagService = new TagService(),
+    private readonly duplicateService: DuplicateService = new DuplicateService(
+      fileService,
+    ),
   ) {}
 
   async importFiles({
     files,
     folderId,
     tagIds = [],
+    duplicatePolicy = "keepBoth",
     onProgress,
+    signal,
   }: ImportMediaFilesParams): Promise<ImportMediaFilesResult> {
     const importedFiles: FileModel[] = [];
+    const linkedFiles: FileModel[] = [];
+    const skipped: MediaImportDuplicate[] = [];
     const failed: MediaImportFailure[] = [];
     const total = files.length;
 
     onProgress?.({ completed: 0, total });
 
     if (files.length === 0) {
-      return { importedFiles, failed };
+      return { importedFiles, linkedFiles, skipped, failed };
     }
 
     const targetPath = await this.fileService.resolveStoragePath(folderId);
@@ -111,18 +133,38 @@ export class MediaImportService {
     }
 
     for (const [index, file] of files.entries()) {
+      if (signal?.aborted) {
+        await this.rollbackImportedFiles(importedFiles);
+        throwIfCancelled(signal);
+      }
+
       let preparedFile: RegisterExistingMediaFile | null = null;
 
       try {
-        preparedFile = this.prepareImportedFile({
-          file,
-          targetPath,
-          tagIds,
-          ...(folderId ? { folderId } : {}),
-        });
-
-        const createdFile = await this.persistPreparedFile(preparedFile);
-        importedFiles.push(createdFile);
+        const existingFile =
+          duplicatePolicy === "keepBoth"
+            ? null
+            : await this.findExistingCopy(file);
+
+        if (existingFile && duplicatePolicy === "link") {
+          linkedFiles.push(await this.linkExistingFile(existingFile, tagIds));
+        } else if (existingFile) {
+          skipped.push({
+            id: file.id,
+            name: file.name,
+            existingFileId: existingFile.id,
+          });
+        } else {
+          preparedFile = this.prepareImportedFile({
+            file,
+            targetPath,
+            tagIds,
+            ...(folderId ? { folderId } : {}),
+          });
+
+          const createdFile = await this.persistPreparedFile(preparedFile);
+          importedFiles.push(createdFile);
+        }
       } catch (error) {
         if (preparedFile?.uri) {
           this.fs.deleteFile(preparedFile.uri);
@@ -142,7 +184,54 @@ export class MediaImportService {
       });
     }
 
-    return { importedFiles, failed };
+    return { importedFiles, linkedFiles, skipped, failed };
+  }
+
+  /** Deshace una importación cancelada. Es best-effort, como el resto de rollbacks */
+  private async rollbackImportedFiles(importedFiles: FileModel[]) {
+    for (const importedFile of [...importedFiles].reverse()) {
+      try {
+        await this.fileService.permanentDeleteFile(importedFile.id);
+      } catch {
+        // Ignorado: el rollback es best-effort.
+      }
+    }
+  }
+
+  /**
+   * Busca en la biblioteca un archivo con el mismo contenido que el de origen.
+   * Solo se calcula el checksum del origen si hay archivos del mismo tamaño.
+   */
+  private async findExistingCopy(
+    file: MediaImportFile,
+  ): Promise<FileModel | null> {
+    const info = this.fs.getFileInfo(file.uri);
+    if (!info.success || !info.data?.exists || !info.data.size) {
+      return null;
+    }
+
+    const { md5, size } = info.data;
+    const copies = await this.duplicateService.findCopiesOf(
+      size,
+      async () => md5 ?? (await this.fs.getFileChecksum(file.uri)).data ?? null,
+    );
+    return copies[0] ?? null;
+  }
+
+  /** Añade al archivo existente los tags destino que aún no tiene */
+  private async linkExistingFile(
+    existingFile: FileModel,
+    tagIds: UUID[],
+  ): Promise<FileModel> {
+    const missingTagIds = tagIds.filter(
+      (tagId) => !existingFile.tagIds.includes(tagId),
+    );
+
+    if (missingTagIds.length === 0) {
+      return existingFile;
+    }
+
+    return await this.fileService.addTagsToFile(existingFile.id, missingTagIds);
   }
 
   private prepareImportedFile(args: {
@@ -229,7 +318,7 @@ export class MediaImportService {
       });
     }
 
-    return { importedFiles, failed };
+    return { importedFiles, linkedFiles: [], skipped: [], failed };
   }
 
   async importAlbum({
@@ -238,12 +327,15 @@ export class MediaImportService {
     files,
     folderId,
     tagIds = [],
+    duplicatePolicy,
     onProgress,
   }: ImportMediaAlbumParams): Promise<ImportMediaAlbumResult> {
     if (files.length === 0) {
       return {
         album: null,
         importedFiles: [],
+        linkedFiles: [],
+        skipped: [],
         failed: [],
       };
     }
@@ -258,10 +350,16 @@ export class MediaImportService {
       files,
       tagIds: [...tagIds, album.id],
       ...(folderId ? { folderId } : {}),
+      ...(duplicatePolicy ? { duplicatePolicy } : {}),
       ...(onProgress ? { onProgress } : {}),
     });
 
-    if (result.importedFiles.length === 0 && result.failed.length > 0) {
+    // Álbum vacío: todo falló o ya estaba en la biblioteca y se omitió
+    if (
+      result.importedFiles.length === 0 &&
+      result.linkedFiles.length === 0 &&
+      (result.failed.length > 0 || result.skipped.length > 0)
+    ) {
       await this.tagService.deleteTag(album.id);
       return {
         ...result,
@@ -14,6 +14,12 @@ import type {
   MediaAudioMetadata,
   MediaImageMetadata,
 } from "@/types/media";
+import {
+  computeDHash,
+  decodePngGrayscale,
+  DHASH_GRID_HEIGHT,
+  DHASH_GRID_WIDTH,
+} from "@/utils/image";
 
 /**
  * MediaService — Servicio para obtener metadatos de archivos multimedia.
@@ -229,6 +235,35 @@ export class MediaService {
     return result.success && result.data ? result.data : null;
   }
 
+  /**
+   * Calcula el hash perceptual (dHash) de una imagen, normalmente su thumbnail.
+   * La imagen se reduce de forma nativa a la rejilla del hash y los píxeles
+   * se leen decodificando el PNG resultante en JavaScript.
+   * @returns dHash de 64 bits en hexadecimal
+   */
+  async computePerceptualHash(
+    sourceUri: string,
+  ): Promise<MediaOperationResult<string>> {
+    try {
+      const image = ImageManipulator.manipulate(sourceUri);
+      const resized = image.resize({
+        width: DHASH_GRID_WIDTH,
+        height: DHASH_GRID_HEIGHT,
+      });
+      const result = await resized.renderAsync();
+      const saved = await result.saveAsync({ format: SaveFormat.PNG });
+
+      const pngFile = new FSFile(saved.uri);
+      const bytes = await pngFile.bytes();
+      pngFile.delete();
+
+      const hash = computeDHash(decodePngGrayscale(bytes));
+      return { success: true, uri: sourceUri, data: hash };
+    } catch (error) {
+      return this.failResult(sourceUri, error, "calcular hash perceptual");
+    }
+  }
+
   /**
    * Obtiene la URI de un thumbnail dado un fileId.
    */
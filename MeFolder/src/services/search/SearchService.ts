@@ -0,0 +1,423 @@
+import { BaseService } from "../base/BaseService";
+import { FileModel, FileFactory } from "../../models/file";
+import { FolderModel, FolderFactory } from "../../models/folder";
+import type {
+  ParsedSearchQuery,
+  SearchDatePreset,
+  SearchFilters,
+  SearchParams,
+  SearchQueryToken,
+  SearchResult,
+  SearchSuggestion,
+} from "../../types/ui/search";
+import type { FileCategory } from "../../types/common/file-extensions";
+import {
+  DEFAULT_SEARCH_SORT,
+  SEARCH_PAGE_SIZE,
+  SEARCH_SUGGESTION_LIMITS,
+} from "@/constants/search";
+import { hasSearchQueryFilters, parseSearchQuery } from "./queryLanguage";
+
+/** Icono de cada categoría en las sugerencias de archivos */
+const CATEGORY_SUGGESTION_ICONS: Record<FileCategory, string> = {
+  document: "document-text-outline",
+  image: "image-outline",
+  video: "videocam-outline",
+  audio: "musical-notes-outline",
+  code: "code-slash-outline",
+  archive: "archive-outline",
+  spreadsheet: "grid-outline",
+  other: "document-outline",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * SearchService - Búsqueda multicriterio sobre la biblioteca
+ *
+ * Funciones incluidas:
+ * - Buscar archivos con SearchParams completos (filtros, orden, paginación)
+ * - Búsqueda combinada de carpetas y archivos para la biblioteca
+ * - Normalizar filtros vacíos para no aplicar criterios sin valor
+ * - Sugerencias de búsqueda (texto, etiquetas, carpetas y archivos) mientras se escribe
+ * - Lenguaje de búsqueda en el texto (tag:, ext:, type:, size, date:, in:, -tag:)
+ */
+export class SearchService extends BaseService {
+  /**
+   * Buscar archivos con filtros, orden y paginación
+   */
+  async searchFiles(params: SearchParams): Promise<SearchResult<FileModel>> {
+    const startedAt = Date.now();
+
+    try {
+      this.ensureDbInitialized();
+
+      const normalizedParams = SearchService.normalizeParams({
+        ...params,
+        filters: await this.applyQueryLanguage(params.filters),
+      });
+      const page = await this.fileRepo.searchWithParams(normalizedParams);
+      const { offset } = normalizedParams.pagination;
+
+      return {
+        items: page.items.map((file) => FileFactory.fromJSON(file)),
+        total: page.total,
+        hasMore: offset + page.items.length < page.total,
+        searchTime: Date.now() - startedAt,
+        filters: normalizedParams.filters,
+      };
+    } catch (error) {
+      return this.handleError(error, "buscar archivos");
+    }
+  }
+
+  /**
+   * Búsqueda para la biblioteca: carpetas y archivos.
+   *
+   * Las carpetas solo se incluyen cuando los filtros no contienen criterios
+   * exclusivos de archivos (extensión, tamaño, tags...) y se devuelven completas
+   * en la primera página, delante de los archivos. La paginación se aplica a los archivos.
+   */
+  async search(
+    params: SearchParams,
+  ): Promise<SearchResult<FileModel | FolderModel>> {
+    const startedAt = Date.now();
+
+    try {
+      this.ensureDbInitialized();
+
+      const normalizedParams = SearchService.normalizeParams({
+        ...params,
+        filters: await this.applyQueryLanguage(params.filters),
+      });
+      const includeFolders =
+        normalizedParams.pagination.offset === 0 &&
+        !SearchService.hasFileOnlyFilters(normalizedParams.filters);
+
+      const [fileResult, folders] = await Promise.all([
+        this.searchFiles(normalizedParams),
+        includeFolders
+          ? this.folderRepo.searchWithFilters(
+              normalizedParams.filters,
+              normalizedParams.sort,
+            )
+          : Promise.resolve([]),
+      ]);
+
+      const folderModels = folders.map((folder) =>
+        FolderFactory.fromJSON(folder),
+      );
+
+      return {
+        items: [...folderModels, ...fileResult.items],
+        total: fileResult.total + folderModels.length,
+        hasMore: fileResult.hasMore,
+        searchTime: Date.now() - startedAt,
+        filters: normalizedParams.filters,
+      };
+    } catch (error) {
+      return this.handleError(error, "buscar en la biblioteca");
+    }
+  }
+
+  /**
+   * Sugerencias para el texto escrito: la propia búsqueda con su número de
+   * resultados, seguida de las etiquetas, carpetas y archivos más relevantes.
+   */
+  async getSuggestions(query: string): Promise<SearchSuggestion[]> {
+    try {
+      this.ensureDbInitialized();
+
+      const text = query.trim();
+      // Con filtros escritos las sugerencias por texto no corresponden a la búsqueda
+      if (!text || hasSearchQueryFilters(parseSearchQuery(text))) {
+        return [];
+      }
+
+      const [filePage, folders, tags] = await Promise.all([
+        this.fileRepo.searchWithParams({
+          filters: { query: text },
+          sort: DEFAULT_SEARCH_SORT,
+          pagination: { limit: SEARCH_SUGGESTION_LIMITS.files, offset: 0 },
+        }),
+        this.folderRepo.search(text),
+        this.tagRepo.search(text),
+      ]);
+
+      const visibleFolders = folders.filter(
+        (folder) => !folder.isSystemFolder && folder.status === "active",
+      );
+
+      const querySuggestion: SearchSuggestion = {
+        type: "query",
+        value: text,
+        label: text,
+        metadata: {
+          count: filePage.total + visibleFolders.length,
+          icon: "search-outline",
+        },
+      };
+
+      const tagSuggestions = tags
+        .slice(0, SEARCH_SUGGESTION_LIMITS.tags)
+        .map<SearchSuggestion>((tag) => ({
+          type: "tag",
+          value: tag.id,
+          label: tag.name,
+          metadata: { count: tag.usageCount, icon: "pricetag-outline" },
+        }));
+
+      const folderSuggestions = visibleFolders
+        .slice(0, SEARCH_SUGGESTION_LIMITS.folders)
+        .map<SearchSuggestion>((folder) => ({
+          type: "folder",
+          value: folder.id,
+          label: folder.name,
+          metadata: { icon: "folder-outline" },
+        }));
+
+      const fileSuggestions = filePage.items.map<SearchSuggestion>((file) => ({
+        type: "file",
+        value: file.id,
+        label: file.name,
+        metadata: { icon: CATEGORY_SUGGESTION_ICONS[file.category] },
+      }));
+
+      return [
+        querySuggestion,
+        ...tagSuggestions,
+        ...folderSuggestions,
+        ...fileSuggestions,
+      ];
+    } catch (error) {
+      return this.handleError(error, "obtener sugerencias de búsqueda");
+    }
+  }
+
+  /**
+   * Interpreta el lenguaje de búsqueda del texto y resuelve por nombre
+   * (sin distinguir mayúsculas) las etiquetas y carpetas que menciona.
+   * Los tokens que no se pueden aplicar se devuelven con su pista en `error`
+   * y no aportan criterios. Varias etiquetas deben cumplirse todas.
+   */
+  async parseQuery(text: string): Promise<ParsedSearchQuery> {
+    try {
+      this.ensureDbInitialized();
+
+      const parsed = parseSearchQuery(text);
+      const filters: SearchFilters = { ...parsed.filters };
+      const tokens: SearchQueryToken[] = [];
+      const sameName = (name: string, value: string): boolean =>
+        name.toLocaleLowerCase() === value.toLocaleLowerCase();
+
+      const tags = parsed.tokens.some(
+        (token) => token.kind === "tag" && !token.error,
+      )
+        ? await this.tagRepo.findAll()
+        : [];
+
+      for (const token of parsed.tokens) {
+        if (token.error) {
+          tokens.push(token);
+          continue;
+        }
+
+        if (token.kind === "tag") {
+          const tag = tags.find((candidate) =>
+            sameName(candidate.name, token.value),
+          );
+          if (!tag) {
+            tokens.push({
+              ...token,
+              error: `No existe la etiqueta "${token.value}"`,
+            });
+            continue;
+          }
+
+          const key = token.negated ? "excludedTagIds" : "tagIds";
+          filters[key] = [...new Set([...(filters[key] ?? []), tag.id])];
+        } else if (token.kind === "in") {
+          const folders = (
+            await this.folderRepo.findAll({ name: token.value })
+          ).filter((folder) => sameName(folder.name, token.value));
+          if (folders.length === 0) {
+            tokens.push({
+              ...token,
+              error: `No existe la carpeta "${token.value}"`,
+            });
+            continue;
+          }
+
+          filters.folderIds = [
+            ...new Set([
+              ...(filters.folderIds ?? []),
+              ...folders.map((folder) => folder.id),
+            ]),
+          ];
+          filters.includeSubfolders = true;
+        }
+
+        tokens.push(token);
+      }
+
+      if (filters.tagIds && filters.tagIds.length > 1) {
+        filters.tagMode = "all";
+      }
+
+      return { tokens, filters };
+    } catch (error) {
+      return this.handleError(error, "interpretar la búsqueda");
+    }
+  }
+
+  /**
+   * Sustituye el texto de búsqueda por los criterios que expresa.
+   * Los criterios escritos prevalecen sobre los mismos criterios de los filtros.
+   */
+  private async applyQueryLanguage(
+    filters: SearchFilters,
+  ): Promise<SearchFilters> {
+    if (!filters.query?.trim()) {
+      return filters;
+    }
+
+    const { filters: queryFilters } = await this.parseQuery(filters.query);
+    const merged: SearchFilters = { ...filters, ...queryFilters };
+
+    if (!queryFilters.query) {
+      delete merged.query;
+    }
+    if (queryFilters.dateRange) {
+      delete merged.datePreset;
+    }
+    if (queryFilters.datePreset) {
+      delete merged.dateRange;
+    }
+
+    return merged;
+  }
+
+  /** Indica si hay algún criterio que solo tenga sentido para archivos */
+  static hasFileOnlyFilters(filters: SearchFilters): boolean {
+    return Boolean(
+      filters.extensions?.length ||
+      filters.categories?.length ||
+      filters.sizeRange?.min !== undefined ||
+      filters.sizeRange?.max !== undefined ||
+      filters.dateRange?.start ||
+      filters.dateRange?.end ||
+      filters.datePreset ||
+      filters.tagIds?.length ||
+      filters.excludedTagIds?.length ||
+      filters.hasTags !== undefined,
+    );
+  }
+
+  /** Indica si los filtros no contienen ningún criterio de búsqueda */
+  static isEmptyFilters(filters: SearchFilters): boolean {
+    return (
+      !filters.query?.trim() &&
+      !filters.folderIds?.length &&
+      !filters.statuses?.length &&
+      filters.hasColor === undefined &&
+      filters.hasDescription === undefined &&
+      !SearchService.hasFileOnlyFilters(filters)
+    );
+  }
+
+  /**
+   * Convierte un periodo relativo en un rango que termina ahora.
+   * Se calcula en cada búsqueda para que las búsquedas guardadas no se queden fijas en una fecha.
+   */
+  static resolveDatePreset(
+    preset: SearchDatePreset,
+    now: Date = new Date(),
+  ): NonNullable<SearchFilters["dateRange"]> {
+    switch (preset) {
+      case "today": {
+        const start = new Date(now);
+        start.setHours(0, 0, 0, 0);
+        return { start };
+      }
+      case "week":
+        return { start: new Date(now.getTime() - 7 * DAY_MS) };
+      case "month":
+        return { start: new Date(now.getTime() - 30 * DAY_MS) };
+      case "year":
+        return { start: new Date(now.getFullYear(), 0, 1) };
+    }
+  }
+
+  /**
+   * Completa orden y paginación por defecto y elimina listas y rangos vacíos
+   */
+  private static normalizeParams(params: SearchParams): SearchParams {
+    const { filters } = params;
+    const normalized: SearchFilters = {};
+
+    const query = filters.query?.trim();
+    if (query) {
+      normalized.query = query;
+    }
+    if (filters.extensions?.length) {
+      normalized.extensions = filters.extensions;
+    }
+    if (filters.categories?.length) {
+      normalized.categories = filters.categories;
+    }
+
+    if (
+      filters.sizeRange &&
+      (filters.sizeRange.min !== undefined ||
+        filters.sizeRange.max !== undefined)
+    ) {
+      normalized.sizeRange = filters.sizeRange;
+    }
+
+    if (filters.datePreset) {
+      normalized.dateRange = SearchService.resolveDatePreset(
+        filters.datePreset,
+      );
+    } else if (
+      filters.dateRange &&
+      (filters.dateRange.start || filters.dateRange.end)
+    ) {
+      normalized.dateRange = filters.dateRange;
+    }
+
+    if (filters.tagIds?.length) {
+      normalized.tagIds = filters.tagIds;
+      normalized.tagMode = filters.tagMode ?? "any";
+    }
+    if (filters.excludedTagIds?.length) {
+      normalized.excludedTagIds = filters.excludedTagIds;
+    }
+
+    if (filters.folderIds?.length) {
+      normalized.folderIds = filters.folderIds;
+      normalized.includeSubfolders = filters.includeSubfolders ?? false;
+    }
+
+    if (filters.statuses?.length) {
+      normalized.statuses = filters.statuses;
+    }
+    if (filters.hasColor !== undefined) {
+      normalized.hasColor = filters.hasColor;
+    }
+    if (filters.hasTags !== undefined) {
+      normalized.hasTags = filters.hasTags;
+    }
+    if (filters.hasDescription !== undefined) {
+      normalized.hasDescription = filters.hasDescription;
+    }
+
+    return {
+      filters: normalized,
+      sort: params.sort ?? DEFAULT_SEARCH_SORT,
+      pagination: {
+        limit: Math.max(1, params.pagination?.limit ?? SEARCH_PAGE_SIZE),
+        offset: Math.max(0, params.pagination?.offset ?? 0),
+      },
+    };
+  }
+}
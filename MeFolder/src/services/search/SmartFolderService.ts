@@ -0,0 +1,193 @@
+import { BaseService } from "../base/BaseService";
+import { SearchService } from "./SearchService";
+import { FileModel } from "../../models/file";
+import { FolderModel } from "../../models/folder";
+import { SmartFolderModel, SmartFolderFactory } from "../../models/smartFolder";
+import {
+  CreateSmartFolderInput,
+  UpdateSmartFolderInput,
+} from "../../types/entities/smartFolder";
+import { ViewSettings } from "../../types/entities/folder";
+import { UUID } from "../../types/common/base";
+import { ROOT_FOLDER_ID } from "../../database/seeds/systemFolders";
+import { SMART_FOLDER_ITEM_LIMIT } from "@/constants/search";
+
+/**
+ * SmartFolderService - Búsquedas guardadas como carpetas inteligentes
+ *
+ * Funciones incluidas:
+ * - Crear, editar y eliminar carpetas inteligentes
+ * - Listar las carpetas inteligentes de una carpeta
+ * - Calcular su contenido ejecutando la búsqueda guardada
+ * - Configuración de vista propia de cada carpeta inteligente
+ */
+export class SmartFolderService extends BaseService {
+  constructor(
+    private readonly searchService: SearchService = new SearchService(),
+  ) {
+    super();
+  }
+
+  /**
+   * Crear carpeta inteligente dentro de una carpeta real
+   */
+  async createSmartFolder(
+    input: CreateSmartFolderInput,
+  ): Promise<SmartFolderModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const parentId = input.parentId || ROOT_FOLDER_ID;
+      if (!(await this.folderRepo.exists(parentId))) {
+        throw new Error("Carpeta padre no encontrada");
+      }
+
+      this.validateFilters(input.filters);
+
+      const smartFolder = await this.smartFolderRepo.create({
+        ...input,
+        parentId,
+      });
+      return SmartFolderFactory.fromJSON(smartFolder);
+    } catch (error) {
+      return this.handleError(error, "crear carpeta inteligente");
+    }
+  }
+
+  /**
+   * Obtener carpeta inteligente por ID
+   */
+  async getSmartFolder(smartFolderId: UUID): Promise<SmartFolderModel> {
+    try {
+      this.ensureDbInitialized();
+
+      const smartFolder = await this.smartFolderRepo.findById(smartFolderId);
+      if (!smartFolder) {
+        throw new Error("Carpeta inteligente no encontrada");
+      }
+
+      return SmartFolderFactory.fromJSON(smartFolder);
+    } catch (error) {
+      return this.handleError(error, "obtener carpeta inteligente");
+    }
+  }
+
+  /**
+   * Carpetas inteligentes que se muestran dentro de una carpeta
+   */
+  async getSmartFoldersInFolder(
+    parentId: UUID = ROOT_FOLDER_ID,
+  ): Promise<SmartFolderModel[]> {
+    try {
+      this.ensureDbInitialized();
+
+      const smartFolders = await this.smartFolderRepo.findByParentId(parentId);
+      return smartFolders.map((smartFolder) =>
+        SmartFolderFactory.fromJSON(smartFolder),
+      );
+    } catch (error) {
+      return this.handleError(error, "obtener carpetas inteligentes");
+    }
+  }
+
+  /**
+   * Actualizar nombre, apariencia o búsqueda guardada
+   */
+  async updateSmartFolder(
+    smartFolderId: UUID,
+    input: UpdateSmartFolderInput,
+  ): Promise<SmartFolderModel> {
+    try {
+      this.ensureDbInitialized();
+
+      if (input.filters) {
+        this.validateFilters(input.filters);
+      }
+
+      const smartFolder = await this.smartFolderRepo.update(
+        smartFolderId,
+        input,
+      );
+      return SmartFolderFactory.fromJSON(smartFolder);
+    } catch (error) {
+      return this.handleError(error, "actualizar carpeta inteligente");
+    }
+  }
+
+  /**
+   * Eliminar carpeta inteligente. Los archivos que mostraba no se tocan
+   */
+  async deleteSmartFolder(smartFolderId: UUID): Promise<boolean> {
+    try {
+      this.ensureDbInitialized();
+
+      return await this.smartFolderRepo.delete(smartFolderId);
+    } catch (error) {
+      return this.handleError(error, "eliminar carpeta inteligente");
+    }
+  }
+
+  /**
+   * Contenido actual de la carpeta inteligente: ejecuta la búsqueda guardada
+   */
+  async getSmartFolderContents(
+    smartFolderId: UUID,
+  ): Promise<(FileModel | FolderModel)[]> {
+    try {
+      const smartFolder = await this.getSmartFolder(smartFolderId);
+
+      const result = await this.searchService.search({
+        filters: smartFolder.filters,
+        sort: smartFolder.sort,
+        pagination: { limit: SMART_FOLDER_ITEM_LIMIT, offset: 0 },
+      });
+
+      return result.items;
+    } catch (error) {
+      return this.handleError(
+        error,
+        "obtener contenido de carpeta inteligente",
+      );
+    }
+  }
+
+  /** Obtiene la configuración de vista de una carpeta inteligente */
+  async getSmartFolderViewConfig(
+    smartFolderId: UUID,
+  ): Promise<ViewSettings | null> {
+    try {
+      this.ensureDbInitialized();
+
+      return await this.smartFolderRepo.getViewConfig(smartFolderId);
+    } catch (error) {
+      return this.handleError(
+        error,
+        "obtener configuración de vista de carpeta inteligente",
+      );
+    }
+  }
+
+  /** Actualizar configuración de vista de una carpeta inteligente */
+  async updateSmartFolderViewConfig(
+    smartFolderId: UUID,
+    viewSettings: Partial<ViewSettings>,
+  ): Promise<void> {
+    try {
+      this.ensureDbInitialized();
+
+      await this.smartFolderRepo.updateViewConfig(smartFolderId, viewSettings);
+    } catch (error) {
+      return this.handleError(
+        error,
+        "actualizar configuración de vista de carpeta inteligente",
+      );
+    }
+  }
+
+  /** Una carpeta inteligente sin criterios mostraría toda la biblioteca */
+  private validateFilters(filters: CreateSmartFolderInput["filters"]): void {
+    if (SearchService.isEmptyFilters(filters)) {
+      throw new Error("La búsqueda guardada debe tener al menos un criterio");
+    }
+  }
+}
@@ -0,0 +1,530 @@
+import type {
+  ParsedSearchQuery,
+  SearchDatePreset,
+  SearchFilters,
+  SearchQueryToken,
+  SearchQueryTokenKind,
+} from "@/types/ui/search";
+import {
+  CATEGORY_LABELS,
+  isFileExtension,
+  type FileCategory,
+  type FileExtension,
+} from "@/types/common/file-extensions";
+
+type FilterTokenKind = Exclude<SearchQueryTokenKind, "text" | "phrase">;
+type FilterOperator = ":" | ">" | ">=" | "<" | "<=";
+
+/** Claves del lenguaje de búsqueda, con sus alias en español */
+const FILTER_KEYS: Record<string, FilterTokenKind> = {
+  tag: "tag",
+  etiqueta: "tag",
+  ext: "ext",
+  extension: "ext",
+  extensión: "ext",
+  type: "type",
+  tipo: "type",
+  size: "size",
+  tamaño: "size",
+  tamano: "size",
+  date: "date",
+  fecha: "date",
+  in: "in",
+  en: "in",
+};
+
+/** Nombres aceptados en type:, además de los identificadores de FileCategory */
+const CATEGORY_ALIASES: Record<string, FileCategory> = {
+  documento: "document",
+  documentos: "document",
+  imagen: "image",
+  imagenes: "image",
+  imágenes: "image",
+  foto: "image",
+  fotos: "image",
+  videos: "video",
+  vídeo: "video",
+  vídeos: "video",
+  musica: "audio",
+  música: "audio",
+  codigo: "code",
+  código: "code",
+  comprimido: "archive",
+  comprimidos: "archive",
+  hoja: "spreadsheet",
+  hojas: "spreadsheet",
+  otro: "other",
+  otros: "other",
+};
+
+const DATE_PRESETS: Record<string, SearchDatePreset> = {
+  today: "today",
+  hoy: "today",
+  week: "week",
+  semana: "week",
+  month: "month",
+  mes: "month",
+  year: "year",
+  año: "year",
+};
+
+const DATE_PRESET_LABELS: Record<SearchDatePreset, string> = {
+  today: "hoy",
+  week: "última semana",
+  month: "último mes",
+  year: "este año",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  "": 1,
+  b: 1,
+  k: 1024,
+  kb: 1024,
+  m: 1024 ** 2,
+  mb: 1024 ** 2,
+  g: 1024 ** 3,
+  gb: 1024 ** 3,
+  t: 1024 ** 4,
+  tb: 1024 ** 4,
+};
+
+const FILTER_PATTERN = /^([^\s:<>"]+)(>=|<=|:|>|<)([\s\S]*)$/;
+const SIZE_PATTERN = /^(\d+(?:[.,]\d+)?)\s*([a-z]*)$/i;
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/;
+const RANGE_SEPARATOR = "..";
+
+const DATE_FORMAT_HINT = "Usa AAAA, AAAA-MM o AAAA-MM-DD";
+
+interface RawToken {
+  raw: string;
+  start: number;
+  end: number;
+  unterminatedQuote: boolean;
+}
+
+/** Resultado de interpretar el valor de un token de filtro */
+type FilterValueResult =
+  | { error: string }
+  | { label: string; apply: (filters: SearchFilters) => void };
+
+/**
+ * Divide el texto en tokens separados por espacios.
+ * Los espacios dentro de comillas no separan, de modo que `in:"Mis fotos"` es un solo token.
+ */
+const tokenize = (text: string): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    if (/\s/.test(text.charAt(index))) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuotes = false;
+    while (
+      index < text.length &&
+      (inQuotes || !/\s/.test(text.charAt(index)))
+    ) {
+      if (text.charAt(index) === '"') {
+        inQuotes = !inQuotes;
+      }
+      index++;
+    }
+
+    tokens.push({
+      raw: text.slice(start, index),
+      start,
+      end: index,
+      unterminatedQuote: inQuotes,
+    });
+  }
+
+  return tokens;
+};
+
+/** Quita las comillas que rodean un valor */
+const unquote = (value: string): string =>
+  value.startsWith('"') ? value.slice(1).replace(/"$/, "") : value;
+
+/** Separa los valores de una lista `a,b,c`, sin vacíos */
+const splitList = (value: string): string[] =>
+  value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+
+/** Convierte `5mb`, `1.5 GB` o `300` (bytes) en bytes */
+const parseSize = (value: string): number | null => {
+  const match = SIZE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const multiplier = SIZE_UNITS[match[2]!.toLowerCase()];
+  if (multiplier === undefined) {
+    return null;
+  }
+
+  return Math.round(Number(match[1]!.replace(",", ".")) * multiplier);
+};
+
+/**
+ * Convierte `2025`, `2025-03` o `2025-03-14` en el periodo que representan,
+ * desde su primer hasta su último milisegundo en hora local.
+ */
+const parseDatePeriod = (value: string): { start: Date; end: Date } | null => {
+  const match = DATE_PATTERN.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] !== undefined ? Number(match[2]) - 1 : undefined;
+  const day = match[3] !== undefined ? Number(match[3]) : undefined;
+
+  if (month === undefined) {
+    return {
+      start: new Date(year, 0, 1),
+      end: new Date(new Date(year + 1, 0, 1).getTime() - 1),
+    };
+  }
+
+  if (month < 0 || month > 11) {
+    return null;
+  }
+
+  if (day === undefined) {
+    return {
+      start: new Date(year, month, 1),
+      end: new Date(new Date(year, month + 1, 1).getTime() - 1),
+    };
+  }
+
+  const start = new Date(year, month, day);
+  // Descarta días que no existen, como el 2025-02-30
+  if (start.getMonth() !== month || start.getDate() !== day) {
+    return null;
+  }
+
+  return {
+    start,
+    end: new Date(new Date(year, month, day + 1).getTime() - 1),
+  };
+};
+
+const parseTagValue = (value: string, negated: boolean): FilterValueResult => {
+  if (!value) {
+    return { error: "Falta el nombre de la etiqueta" };
+  }
+
+  // Las etiquetas se resuelven por nombre en SearchService
+  return {
+    label: `${negated ? "Sin etiqueta" : "Etiqueta"}: ${value}`,
+    apply: () => {},
+  };
+};
+
+const parseExtensionValue = (value: string): FilterValueResult => {
+  const extensions = splitList(value).map((ext) => ext.replace(/^\./, ""));
+  if (extensions.length === 0) {
+    return { error: "Falta la extensión, por ejemplo ext:pdf" };
+  }
+
+  const unknown = extensions.find((ext) => !isFileExtension(ext));
+  if (unknown !== undefined) {
+    return { error: `Extensión desconocida: "${unknown}"` };
+  }
+
+  return {
+    label: `Extensión: ${extensions.join(", ")}`,
+    apply: (filters) => {
+      filters.extensions = [
+        ...new Set([
+          ...(filters.extensions ?? []),
+          ...(extensions as FileExtension[]),
+        ]),
+      ];
+    },
+  };
+};
+
+const parseCategoryValue = (value: string): FilterValueResult => {
+  const names = splitList(value);
+  if (names.length === 0) {
+    return { error: "Falta el tipo, por ejemplo type:video" };
+  }
+
+  const categories: FileCategory[] = [];
+  for (const name of names) {
+    const category = Object.prototype.hasOwnProperty.call(CATEGORY_LABELS, name)
+      ? (name as FileCategory)
+      : CATEGORY_ALIASES[name];
+    if (!category) {
+      return { error: `Tipo desconocido: "${name}"` };
+    }
+    categories.push(category);
+  }
+
+  return {
+    label: `Tipo: ${categories.map((category) => CATEGORY_LABELS[category]).join(", ")}`,
+    apply: (filters) => {
+      filters.categories = [
+        ...new Set([...(filters.categories ?? []), ...categories]),
+      ];
+    },
+  };
+};
+
+const parseSizeValue = (
+  operator: FilterOperator,
+  value: string,
+): FilterValueResult => {
+  const sizeHint = "Usa size>5mb, size<1gb o size:1mb..10mb";
+
+  if (operator === ":") {
+    if (!value.includes(RANGE_SEPARATOR)) {
+      return { error: sizeHint };
+    }
+
+    const [minText = "", maxText = ""] = value.split(RANGE_SEPARATOR);
+    const min = minText ? parseSize(minText) : undefined;
+    const max = maxText ? parseSize(maxText) : undefined;
+    if (
+      min === null ||
+      max === null ||
+      (min === undefined && max === undefined)
+    ) {
+      return { error: sizeHint };
+    }
+    if (min !== undefined && max !== undefined && min > max) {
+      return { error: "El tamaño mínimo es mayor que el máximo" };
+    }
+
+    return {
+      label: `Tamaño: ${value}`,
+      apply: (filters) => {
+        filters.sizeRange = {
+          ...filters.sizeRange,
+          ...(min !== undefined && { min }),
+          ...(max !== undefined && { max }),
+        };
+      },
+    };
+  }
+
+  const bytes = parseSize(value);
+  if (bytes === null) {
+    return { error: sizeHint };
+  }
+
+  return {
+    label: `Tamaño ${operator} ${value}`,
+    apply: (filters) => {
+      filters.sizeRange = {
+        ...filters.sizeRange,
+        ...(operator === ">" && { min: bytes + 1 }),
+        ...(operator === ">=" && { min: bytes }),
+        ...(operator === "<" && { max: Math.max(0, bytes - 1) }),
+        ...(operator === "<=" && { max: bytes }),
+      };
+    },
+  };
+};
+
+const parseDateValue = (
+  operator: FilterOperator,
+  value: string,
+): FilterValueResult => {
+  const preset = DATE_PRESETS[value.toLowerCase()];
+  if (preset && operator === ":") {
+    return {
+      label: `Fecha: ${DATE_PRESET_LABELS[preset]}`,
+      apply: (filters) => {
+        filters.datePreset = preset;
+        delete filters.dateRange;
+      },
+    };
+  }
+
+  let start: Date | undefined;
+  let end: Date | undefined;
+
+  if (operator === ":" && value.includes(RANGE_SEPARATOR)) {
+    const [startText = "", endText = ""] = value.split(RANGE_SEPARATOR);
+    const startPeriod = startText ? parseDatePeriod(startText) : undefined;
+    const endPeriod = endText ? parseDatePeriod(endText) : undefined;
+    if (
+      startPeriod === null ||
+      endPeriod === null ||
+      (!startPeriod && !endPeriod)
+    ) {
+      return { error: `Rango de fechas no válido. ${DATE_FORMAT_HINT}` };
+    }
+
+    start = startPeriod?.start;
+    end = endPeriod?.end;
+    if (start && end && start > end) {
+      return { error: "La fecha inicial es posterior a la final" };
+    }
+  } else {
+    const period = parseDatePeriod(value);
+    if (!period) {
+      return { error: `Fecha no válida. ${DATE_FORMAT_HINT}` };
+    }
+
+    switch (operator) {
+      case ":":
+        ({ start, end } = period);
+        break;
+      case ">":
+        start = new Date(period.end.getTime() + 1);
+        break;
+      case ">=":
+        start = period.start;
+        break;
+      case "<":
+        end = new Date(period.start.getTime() - 1);
+        break;
+      case "<=":
+        end = period.end;
+        break;
+    }
+  }
+
+  return {
+    label: operator === ":" ? `Fecha: ${value}` : `Fecha ${operator} ${value}`,
+    apply: (filters) => {
+      filters.dateRange = {
+        ...filters.dateRange,
+        ...(start && { start }),
+        ...(end && { end }),
+      };
+      delete filters.datePreset;
+    },
+  };
+};
+
+const parseFolderValue = (value: string): FilterValueResult => {
+  if (!value) {
+    return { error: 'Falta el nombre de la carpeta, por ejemplo in:"Fotos"' };
+  }
+
+  // Las carpetas se resuelven por nombre en SearchService
+  return { label: `En: ${value}`, apply: () => {} };
+};
+
+const parseFilterValue = (
+  kind: FilterTokenKind,
+  operator: FilterOperator,
+  value: string,
+  negated: boolean,
+): FilterValueResult => {
+  if (operator !== ":" && kind !== "size" && kind !== "date") {
+    return { error: `Usa ${kind}:valor` };
+  }
+  if (negated && kind !== "tag") {
+    return { error: "Solo se pueden excluir etiquetas, con -tag:nombre" };
+  }
+
+  switch (kind) {
+    case "tag":
+      return parseTagValue(value, negated);
+    case "ext":
+      return parseExtensionValue(value);
+    case "type":
+      return parseCategoryValue(value);
+    case "size":
+      return parseSizeValue(operator, value);
+    case "date":
+      return parseDateValue(operator, value);
+    case "in":
+      return parseFolderValue(value);
+  }
+};
+
+/**
+ * Interpreta el lenguaje de búsqueda de la barra de búsqueda.
+ *
+ * Reconoce `tag:nombre`, `-tag:nombre`, `ext:pdf`, `type:video`, `size>5mb`,
+ * `size:1mb..10mb`, `date:2025-01..2025-06`, `date:week`, `in:"Carpeta"` y
+ * frases entre comillas; el resto del texto se busca como palabras sueltas.
+ * Un token con `error` no aporta criterios a los filtros.
+ *
+ * Las etiquetas y carpetas se devuelven solo como tokens: convertirlas en ids
+ * requiere la base de datos (SearchService.parseQuery).
+ */
+export const parseSearchQuery = (text: string): ParsedSearchQuery => {
+  const tokens: SearchQueryToken[] = [];
+  const filters: SearchFilters = {};
+  const freeText: string[] = [];
+
+  for (const { raw, start, end, unterminatedQuote } of tokenize(text)) {
+    const negated = raw.length > 1 && raw.startsWith("-");
+    const match = FILTER_PATTERN.exec(negated ? raw.slice(1) : raw);
+    const kind = match ? FILTER_KEYS[match[1]!.toLowerCase()] : undefined;
+
+    // Clave desconocida: se trata como texto, por ejemplo "http://..." o "10:30"
+    if (!match || !kind) {
+      const isPhrase = raw.startsWith('"');
+      const token: SearchQueryToken = {
+        kind: isPhrase ? "phrase" : "text",
+        raw,
+        value: unquote(raw),
+        negated: false,
+        start,
+        end,
+        label: raw,
+      };
+
+      if (unterminatedQuote) {
+        token.error = "Faltan las comillas de cierre";
+      } else if (isPhrase && !token.value.trim()) {
+        token.error = "La frase entre comillas está vacía";
+      } else {
+        freeText.push(raw);
+      }
+
+      tokens.push(token);
+      continue;
+    }
+
+    const operator = match[2] as FilterOperator;
+    const value = unquote(match[3]!).trim();
+    const token: SearchQueryToken = {
+      kind,
+      raw,
+      value,
+      negated,
+      start,
+      end,
+      label: raw,
+    };
+
+    const result = unterminatedQuote
+      ? { error: "Faltan las comillas de cierre" }
+      : parseFilterValue(kind, operator, value, negated);
+
+    if ("error" in result) {
+      token.error = result.error;
+    } else {
+      token.label = result.label;
+      result.apply(filters);
+    }
+
+    tokens.push(token);
+  }
+
+  if (freeText.length > 0) {
+    filters.query = freeText.join(" ");
+  }
+
+  return { tokens, filters };
+};
+
+/** Indica si el texto usa algún filtro del lenguaje de búsqueda (no solo palabras y frases) */
+export const hasSearchQueryFilters = (parsed: ParsedSearchQuery): boolean =>
+  parsed.tokens.some(
+    (token) => token.kind !== "text" && token.kind !== "phrase",
+  );
@@ -4,3 +4,4 @@ export { useClipboardStore } from "./useClipboard";
 export { useCaptureStore } from "./useCaptureStore";
 export { useTagContentStore } from "./useTagContentStore";
 export { useTrashStore } from "./useTrashStore";
+export { useJobsStore } from "./useJobsStore";
@@ -1,7 +1,6 @@
 import { create } from "zustand";
 import { FileModel, FolderModel } from "@/models";
 import { UUID } from "@/types/common/base";
-import { FileService, FolderService } from "@/services";
 
 type ClipboardMode = "copy" | "cut" | null;
 
@@ -13,9 +12,6 @@ interface ClipboardState {
 interface ClipboardActions {
   copy: (items: (FileModel | FolderModel)[]) => void;
   cut: (items: (FileModel | FolderModel)[]) => void;
-  paste: (
-    destinationFolderId: UUID,
-  ) => Promise<{ createdFolders: FolderModel[]; createdFiles: FileModel[] }>;
   clear: () => void;
   clearIfContainsIds: (itemIds: UUID[]) => void;
   hasItems: () => boolean;
@@ -45,81 +41,6 @@ export const useClipboardStore = create<ClipboardStore>((set, get) => ({
       clipboardMode: "cut",
     }),
 
-  paste: async (
-    destinationFolderId: UUID,
-  ): Promise<{ createdFolders: FolderModel[]; createdFiles: FileModel[] }> => {
-    const { clipboardItems, clipboardMode } = get();
-
-    let createdFolders: FolderModel[] = [];
-    let createdFiles: FileModel[] = [];
-
-    if (clipboardItems.length === 0 || !clipboardMode)
-      return { createdFolders: [], createdFiles: [] };
-
-    const fileService = new FileService();
-    const folderService = new FolderService();
-
-    const folderItems = clipboardItems.filter(
-      (item) => item instanceof FolderModel,
-    ) as FolderModel[];
-    const fileItems = clipboardItems.filter(
-      (item) => item instanceof FileModel,
-    ) as FileModel[];
-
-    const [existingFolders, existingFiles] = await Promise.all([
-      Promise.all(
-        folderItems.map((folder) => folderService.folderExists(folder.id)),
-      ),
-      Promise.all(fileItems.map((file) => fileService.fileExists(file.id))),
-    ]);
-
-    if (
-      existingFolders.some((exists) => !exists) ||
-      existingFiles.some((exists) => !exists)
-    ) {
-      set(initialState);
-      throw new Error(
-        "El portapapeles contiene elementos que ya no existen o fueron eliminados.",
-      );
-    }
-
-    if (clipboardMode === "copy") {
-      if (folderItems.length > 0)
-        createdFolders = await Promise.all(
-          folderItems.map((folder) =>
-            folderService.copyFolder(folder.id, destinationFolderId),
-          ),
-        );
-
-      if (fileItems.length > 0)
-        createdFiles = await Promise.all(
-          fileItems.map((file) =>
-            fileService.copyFile(file.id, destinationFolderId),
-          ),
-        );
-
-      return { createdFolders, createdFiles };
-    } else {
-      if (folderItems.length > 0)
-        createdFolders = await Promise.all(
-          folderItems.map((folder) =>
-            folderService.moveFolder(folder.id, destinationFolderId),
-          ),
-        );
-
-      if (fileItems.length > 0)
-        createdFiles = await Promise.all(
-          fileItems.map((file) =>
-            fileService.moveFile(file.id, destinationFolderId),
-          ),
-        );
-
-      set(initialState);
-
-      return { createdFolders, createdFiles };
-    }
-  },
-
   clear: () => set(initialState),
 
   clearIfContainsIds: (itemIds) => {
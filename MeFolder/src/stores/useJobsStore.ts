@@ -0,0 +1,24 @@
+import { create } from "zustand";
+import type { Job } from "@/types/entities/job";
+
+interface JobsState {
+  /** Historial de la cola de tareas, de la más reciente a la más antigua */
+  jobs: Job[];
+}
+
+interface JobsActions {
+  setJobs: (jobs: Job[]) => void;
+}
+
+type JobsStore = JobsState & JobsActions;
+
+const initialState: JobsState = {
+  jobs: [],
+};
+
+/** Copia del historial de JobService para que la UI se repinte con cada cambio */
+export const useJobsStore = create<JobsStore>((set) => ({
+  ...initialState,
+
+  setJobs: (jobs) => set({ jobs }),
+}));
@@ -1,13 +1,16 @@
 import type { UUID } from "../common/base";
+import type { ColorInfo } from "../common/colors";
 import type { FileExtension } from "../common/file-extensions";
 import type { FileMetadata, FileVisibility } from "../entities/file";
+import type { FolderVisibility, ViewSettings } from "../entities/folder";
+import type { TagType } from "../entities/tag";
 
 export type ArchiveFormat = Extract<
   FileExtension,
   "zip" | "rar" | "7z" | "tar" | "gz"
 >;
 
-export type SupportedArchiveFormat = "zip";
+export type SupportedArchiveFormat = "zip" | "tar" | "gz";
 
 export type ArchiveCompressionLevel = "none" | "fast" | "normal" | "best";
 
@@ -25,17 +28,39 @@ export type ArchiveConflictType =
   | "unsupported_format"
   | "unsupported_option";
 
-export type ArchiveUnsupportedFeature =
-  | "password"
-  | "encryption"
-  | "partial_extraction"
-  | "advanced_overwrite_mode";
+export type ArchiveUnsupportedFeature = "advanced_overwrite_mode";
+
+/**
+ * Qué hacer con una entrada del ZIP cuyo nombre ya existe en destino:
+ * - overwrite: el existente va a la papelera y se escribe el nuevo
+ * - rename: se extrae con un sufijo " (1)", " (2)"...
+ * - skip: no se extrae la entrada (ni su contenido si es carpeta)
+ * Las carpetas que coinciden con otra carpeta se fusionan siempre.
+ */
+export type ArchiveConflictAction = "overwrite" | "rename" | "skip";
+
+/** Política de conflictos de una extracción; "ask" consulta cada conflicto */
+export type ArchiveOverwriteMode = ArchiveConflictAction | "ask";
+
+/**
+ * Cifrado de las entradas del ZIP:
+ * - zipcrypto: cifrado tradicional, débil pero compatible con cualquier lector
+ * - aes128 / aes256: WinZip AES, compatible con 7-Zip, WinZip y la mayoría de lectores actuales
+ */
+export type ArchiveEncryptionMethod = "zipcrypto" | "aes128" | "aes256";
 
 export interface ArchiveFutureOptions {
+  /** Contraseña para cifrar al comprimir o para descifrar al inspeccionar/extraer */
   password?: string | undefined;
-  encryption?: "zipcrypto" | "aes128" | "aes256" | undefined;
+  /** Método de cifrado al comprimir. Por defecto aes256 si se indica contraseña */
+  encryption?: ArchiveEncryptionMethod | undefined;
+  /**
+   * Rutas del ZIP a extraer. Una carpeta incluye todo su subárbol.
+   * Vacío o sin definir extrae el archivo completo.
+   */
   partialEntries?: string[] | undefined;
-  overwriteMode?: "overwrite" | "rename" | "skip" | undefined;
+  /** Sin definir, cualquier conflicto en la raíz bloquea la extracción */
+  overwriteMode?: ArchiveOverwriteMode | undefined;
 }
 
 export interface ArchiveProgress {
@@ -43,6 +68,9 @@ export interface ArchiveProgress {
   processedEntries: number;
   totalEntries: number;
   currentEntryName?: string | undefined;
+  /** Bytes sin comprimir ya leídos o escritos, para el progreso dentro de archivos grandes */
+  processedBytes?: number | undefined;
+  totalBytes?: number | undefined;
 }
 
 export interface ArchiveSourceFile {
@@ -80,7 +108,15 @@ export interface ArchiveConflict {
 }
 
 export interface ArchiveOperationError {
-  code: ArchiveConflictType | "invalid_archive" | "unknown";
+  code:
+    | ArchiveConflictType
+    | "invalid_archive"
+    | "password_required"
+    | "wrong_password"
+    | "unsupported_version"
+    | "missing_volume"
+    | "cancelled"
+    | "unknown";
   message: string;
   unsupportedFeatures?: ArchiveUnsupportedFeature[] | undefined;
 }
@@ -96,6 +132,13 @@ export interface ArchiveBaseParams {
   compressionLevel?: ArchiveCompressionLevel | undefined;
   futureOptions?: ArchiveFutureOptions | undefined;
   onProgress?: ((progress: ArchiveProgress) => void) | undefined;
+  /** Al activarse se detiene la operación y se deshace lo que llevaba hecho */
+  signal?: AbortSignal | undefined;
+  /**
+   * Al crear: si el comprimido supera este tamaño en bytes se divide en partes
+   * "nombre.zip.001", "nombre.zip.002"... de este tamaño como mucho
+   */
+  volumeSize?: number | undefined;
 }
 
 export interface CreateArchiveFromFolderParams extends ArchiveBaseParams {
@@ -131,6 +174,12 @@ export interface ImportAlbumArchiveParams extends ArchiveBaseParams {
   archiveFile: ImportAlbumArchiveSource;
   destinationFolderId?: UUID | undefined;
   visibility?: FileVisibility | undefined;
+  /**
+   * Álbum existente en el que fusionar el ZIP en vez de crear uno nuevo. Solo
+   * se añaden los archivos que el álbum no tiene ya (mismo checksum o mismo
+   * nombre y tamaño).
+   */
+  targetAlbumId?: UUID | undefined;
 }
 
 export interface InspectArchiveParams {
@@ -141,14 +190,58 @@ export interface InspectArchiveParams {
   futureOptions?: ArchiveFutureOptions | undefined;
 }
 
+export interface BrowseArchiveParams {
+  archiveFileId: UUID;
+  /** Carpeta del comprimido a listar; vacío o sin definir es la raíz */
+  path?: string | undefined;
+  password?: string | undefined;
+}
+
+export interface ExtractArchiveEntryToCacheParams {
+  archiveFileId: UUID;
+  /** Ruta del archivo dentro del comprimido */
+  path: string;
+  password?: string | undefined;
+}
+
+/** Entrada extraída temporalmente a la caché para previsualizarla o compartirla */
+export interface ArchiveEntryPreview {
+  uri: string;
+  entry: ArchiveEntryDescriptor;
+}
+
+/** Conflicto concreto que se consulta en el modo "ask" */
+export interface ArchiveEntryConflict {
+  /** Ruta de la entrada dentro del ZIP */
+  path: string;
+  name: string;
+  entryType: ArchiveEntryType;
+  /** Tipo del elemento que ya existe en destino con ese nombre */
+  existingType: ArchiveEntryType;
+}
+
+export interface ArchiveConflictResolution {
+  action: ArchiveConflictAction;
+  /** Aplica la misma acción al resto de conflictos sin volver a preguntar */
+  applyToAll?: boolean | undefined;
+}
+
 export interface ExtractArchiveParams extends InspectArchiveParams {
   onProgress?: ((progress: ArchiveProgress) => void) | undefined;
+  /** Al activarse se detiene la extracción y se deshace lo extraído */
+  signal?: AbortSignal | undefined;
+  /** Obligatorio con `overwriteMode: "ask"` */
+  onConflict?:
+    | ((conflict: ArchiveEntryConflict) => Promise<ArchiveConflictResolution>)
+    | undefined;
 }
 
 export interface ArchiveInspection {
   format: ArchiveFormat;
   supported: boolean;
   hasSingleRootDirectory: boolean;
+  /** El ZIP tiene entradas protegidas con contraseña */
+  encrypted: boolean;
   suggestedContainerName: string;
   rootDirectoryName?: string | undefined;
   rootEntries: ArchiveEntryDescriptor[];
@@ -168,25 +261,99 @@ export interface ArchiveCreationSummary {
   archiveFile: ArchiveCreatedRecord;
   entryCount: number;
   format: ArchiveFormat;
+  /** Suma de los tamaños de los archivos de origen, en bytes */
+  originalSize: number;
+  /** Tamaño del comprimido generado, en bytes */
+  archiveSize: number;
+  /** `archiveSize / originalSize`; 1 cuando no hay nada con qué comparar */
+  compressionRatio: number;
+  /** Partes en orden cuando se ha dividido; `archiveFile` es la primera */
+  volumes?: ArchiveCreatedRecord[] | undefined;
 }
 
 export interface ExportAlbumArchiveSummary extends ArchiveCreationSummary {
   albumId: UUID;
   albumName: string;
   archiveUri: string;
+  /** URIs de todas las partes, en orden, cuando el ZIP se ha dividido */
+  volumeUris?: string[] | undefined;
 }
 
 export interface ImportAlbumArchiveSummary {
   albumId: UUID;
   albumName: string;
   destinationFolder: ArchiveCreatedRecord;
+  /** Archivos añadidos al álbum */
   importedFileCount: number;
+  /** Archivos del ZIP que el álbum ya tenía; solo al fusionar */
+  skippedFileCount: number;
+  /** Se ha fusionado en un álbum existente */
+  merged: boolean;
   thumbnailCount: number;
 }
 
+/**
+ * Manifiesto que acompaña a una carpeta comprimida con los datos de MeFolder
+ * que no caben en el propio ZIP. Las rutas son relativas a la carpeta raíz;
+ * "" es la propia raíz.
+ */
+export interface FolderArchiveManifest {
+  format: "mefolder-folder";
+  /** Versión del formato del manifiesto */
+  version: number;
+  /** Fecha de creación (timestamp en ms) */
+  createdAt: number;
+  tags: FolderArchiveManifestTag[];
+  folders: FolderArchiveManifestFolder[];
+  files: FolderArchiveManifestFile[];
+}
+
+/** Tag usado en la carpeta; al importar se busca por nombre y si no existe se crea */
+export interface FolderArchiveManifestTag {
+  id: UUID;
+  name: string;
+  type: TagType;
+  color: ColorInfo;
+  description?: string | undefined;
+}
+
+export interface FolderArchiveManifestFolder {
+  path: string;
+  visibility: FolderVisibility;
+  viewSettings: ViewSettings;
+  isFavorite: boolean;
+  description?: string | undefined;
+  color?: ColorInfo | undefined;
+  icon?: string | undefined;
+}
+
+export interface FolderArchiveManifestFile {
+  path: string;
+  visibility: FileVisibility;
+  /** IDs de `FolderArchiveManifest.tags` */
+  tagIds: UUID[];
+  color?: ColorInfo | undefined;
+}
+
+/** Lo que se ha recuperado del manifiesto al extraer */
+export interface FolderManifestRestoreSummary {
+  restoredFolderCount: number;
+  restoredFileCount: number;
+  /** Nombres de los tags que no existían en esta biblioteca y se han creado */
+  createdTagNames: string[];
+}
+
 export interface ArchiveExtractionSummary {
   destinationFolder: ArchiveCreatedRecord;
   createdFolders: ArchiveCreatedRecord[];
   createdFiles: ArchiveCreatedRecord[];
+  /** Carpetas existentes en las que se ha fusionado contenido del ZIP */
+  mergedFolders: ArchiveCreatedRecord[];
+  /** Archivos existentes que se han sustituido y enviado a la papelera */
+  replacedFiles: ArchiveCreatedRecord[];
+  /** Rutas del ZIP que no se han extraído por la política de conflictos */
+  skippedEntries: string[];
   inspection: ArchiveInspection;
+  /** Solo si el comprimido traía un manifiesto de MeFolder */
+  restoredMetadata?: FolderManifestRestoreSummary | undefined;
 }
@@ -0,0 +1,81 @@
+import type { UUID } from "../common/base";
+
+/** Identificador del formato de las copias de seguridad completas */
+export type LibraryBackupFormat = "mefolder-backup";
+
+/** Tablas de SQLite incluidas en una copia de seguridad */
+export type LibraryBackupTable =
+  "user_colors" | "folders" | "tags" | "files" | "file_tags" | "smart_folders";
+
+/**
+ * Forma de restaurar una copia:
+ * - replace: elimina la biblioteca actual y la sustituye por la de la copia
+ * - merge: añade el contenido de la copia a la biblioteca actual
+ */
+export type LibraryRestoreMode = "replace" | "merge";
+
+export type LibraryBackupPhase =
+  "collect" | "compress" | "validate" | "restore";
+
+export interface LibraryBackupProgress {
+  phase: LibraryBackupPhase;
+  processedEntries: number;
+  totalEntries: number;
+  currentEntryName?: string | undefined;
+}
+
+/** Archivo físico guardado dentro de la copia */
+export interface LibraryBackupFileEntry {
+  fileId: UUID;
+  /** Ruta del contenido dentro del archivo .mefolder */
+  archivePath: string;
+  /** Ruta de la miniatura dentro del archivo .mefolder (si existía) */
+  thumbnailPath?: string | undefined;
+  size: number;
+}
+
+/** Manifiesto versionado que describe el contenido de la copia */
+export interface LibraryBackupManifest {
+  format: LibraryBackupFormat;
+  /** Versión del formato del archivo .mefolder */
+  formatVersion: number;
+  /** Versión del esquema de SQLite con la que se creó la copia */
+  schemaVersion: number;
+  /** Fecha de creación (timestamp en ms) */
+  createdAt: number;
+  /** URI del directorio de documentos del dispositivo de origen */
+  documentBaseUri: string;
+  /** Número de filas exportadas por tabla */
+  tables: Record<LibraryBackupTable, number>;
+  files: LibraryBackupFileEntry[];
+  /** Archivos registrados cuyo contenido físico no se encontró al exportar */
+  missingFileIds: UUID[];
+}
+
+export interface CreateLibraryBackupParams {
+  onProgress?: ((progress: LibraryBackupProgress) => void) | undefined;
+}
+
+export interface LibraryBackupSummary {
+  backupUri: string;
+  backupFileName: string;
+  manifest: LibraryBackupManifest;
+}
+
+export interface RestoreLibraryBackupParams {
+  backupUri: string;
+  mode: LibraryRestoreMode;
+  onProgress?: ((progress: LibraryBackupProgress) => void) | undefined;
+}
+
+export interface LibraryRestoreSummary {
+  mode: LibraryRestoreMode;
+  manifest: LibraryBackupManifest;
+  restoredFolderCount: number;
+  restoredFileCount: number;
+  restoredTagCount: number;
+  /** Elementos que ya existían en la biblioteca y se reutilizaron (merge) */
+  reusedCount: number;
+  /** Elementos que recibieron un ID nuevo por colisión (merge) */
+  remappedCount: number;
+}
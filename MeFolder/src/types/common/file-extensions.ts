@@ -286,3 +286,18 @@ export const EXTENSION_LABELS: Record<FileExtensionWithoutVideo, string> = {
   csv: "Archivo CSV",
   xlsx: "Hoja de cálculo Excel",
 };
+
+export const CATEGORY_LABELS: Record<FileCategory, string> = {
+  document: "Documentos",
+  image: "Imágenes",
+  video: "Videos",
+  audio: "Audio",
+  code: "Código",
+  archive: "Comprimidos",
+  spreadsheet: "Hojas de cálculo",
+  other: "Otros",
+};
+
+/** Comprueba si una cadena es una extensión conocida */
+export const isFileExtension = (value: string): value is FileExtension =>
+  Object.prototype.hasOwnProperty.call(FILE_CATEGORY_MAP, value);
@@ -10,6 +10,8 @@ export interface FileMetadata {
   size: number;             
   mimeType?: string;        
   checksum?: string;        
+  /** dHash de 64 bits en hexadecimal (solo imágenes) */
+  perceptualHash?: string;
   
   imageMetadata?: {
     width: number;
@@ -69,6 +71,17 @@ export interface CreateFileInput {
   thumbnailUrl?: string;
 }
 
+/** Formatos en los que se pueden crear notas desde la app */
+export type NoteExtension = Extract<FileExtension, 'txt' | 'md'>;
+
+export interface CreateNoteInput {
+  /** Nombre de la nota sin extensión */
+  name: string;
+  extension: NoteExtension;
+  folderId?: UUID;
+  content?: string;
+}
+
 export interface UpdateFileInput {
   name?: string;
   folderId?: UUID;
@@ -1,4 +1,6 @@
 export * from './tag';
 export * from './file';
 export * from './folder';
-export * from './userColor';
\ No newline at end of file
+export * from './smartFolder';
+export * from './userColor';
+export * from './job';
\ No newline at end of file
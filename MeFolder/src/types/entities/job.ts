@@ -0,0 +1,66 @@
+import { BaseEntity } from "../common/base";
+
+/** Operaciones largas que se ejecutan en la cola de tareas */
+export type JobType =
+  | "compress"
+  | "extract"
+  | "album_import"
+  | "album_export"
+  | "media_import"
+  | "paste";
+
+/**
+ * Estado de una tarea:
+ * - queued: en cola, esperando a que termine la anterior
+ * - running: en ejecución
+ * - completed / failed / cancelled: terminada
+ * - interrupted: la app se cerró antes de que terminara; se puede reintentar
+ */
+export type JobStatus =
+  "queued" | "running" | "completed" | "failed" | "cancelled" | "interrupted";
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  currentItemName?: string | undefined;
+  /** Con tamaño total, la barra avanza por bytes y no por elementos */
+  completedBytes?: number | undefined;
+  totalBytes?: number | undefined;
+}
+
+export interface JobError {
+  code: string;
+  message: string;
+}
+
+/**
+ * Tarea en segundo plano. Los parámetros se guardan en JSON para poder
+ * reintentarla después de un reinicio de la app.
+ */
+export interface Job extends BaseEntity {
+  type: JobType;
+  status: JobStatus;
+  title: string;
+  params: Record<string, unknown>;
+  progress: JobProgress;
+  /** Resumen del resultado que se muestra en el panel al terminar */
+  resultMessage?: string;
+  error?: JobError;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface CreateJobInput {
+  type: JobType;
+  title: string;
+  params: Record<string, unknown>;
+}
+
+export interface UpdateJobInput {
+  status?: JobStatus;
+  progress?: JobProgress;
+  resultMessage?: string | null;
+  error?: JobError | null;
+  startedAt?: Date | null;
+  finishedAt?: Date | null;
+}
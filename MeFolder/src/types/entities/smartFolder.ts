@@ -0,0 +1,44 @@
+import { BaseEntity, UUID } from "../common/base";
+import { ColorInfo } from "../common/colors";
+import type { SearchFilters, SortOptions } from "../ui/search";
+import type { ViewSettings } from "./folder";
+
+/**
+ * Carpeta inteligente: una búsqueda guardada que se muestra como una carpeta más
+ * dentro de su carpeta padre. Su contenido se calcula al abrirla.
+ */
+export interface SmartFolder extends BaseEntity {
+  name: string;
+  description?: string;
+
+  parentId: UUID;
+
+  color?: ColorInfo;
+  icon?: string;
+
+  filters: SearchFilters;
+  sort: SortOptions;
+
+  viewSettings: ViewSettings;
+}
+
+export interface CreateSmartFolderInput {
+  name: string;
+  description?: string;
+  parentId?: UUID;
+  color?: ColorInfo;
+  icon?: string;
+  filters: SearchFilters;
+  sort?: SortOptions;
+  viewSettings?: Partial<ViewSettings>;
+}
+
+export interface UpdateSmartFolderInput {
+  name?: string;
+  description?: string;
+  color?: ColorInfo;
+  icon?: string;
+  filters?: SearchFilters;
+  sort?: SortOptions;
+  viewSettings?: Partial<ViewSettings>;
+}
@@ -139,3 +139,19 @@ export interface FSWriteOptions {
   content: string | Uint8Array;
   encoding?: FSEncoding | undefined;
 }
+
+/**
+ * Archivo abierto para leerlo o escribirlo por bloques sin cargarlo entero en
+ * memoria. Tanto `read` como `write` avanzan `position`.
+ */
+export interface FSFileStream {
+  uri: string;
+  /** Tamaño actual en bytes */
+  readonly size: number;
+  /** Posición de lectura/escritura en bytes */
+  position: number;
+  /** Lee hasta `length` bytes; devuelve menos al llegar al final */
+  read(length: number): Uint8Array;
+  write(bytes: Uint8Array): void;
+  close(): void;
+}
@@ -1,5 +1,6 @@
 export * from "./common";
 export * from "./archive";
+export * from "./backup";
 export * from "./entities";
 export * from "./filesystem";
 export * from "./media";
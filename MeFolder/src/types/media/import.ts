@@ -22,6 +22,9 @@ export interface MediaImportProgress {
   completed: number;
   total: number;
   currentFileName?: string;
+  /** Con tamaño total, la barra avanza por bytes y no por elementos */
+  completedBytes?: number;
+  totalBytes?: number;
 }
 
 export interface MediaImportFailure {
@@ -29,3 +32,19 @@ export interface MediaImportFailure {
   name: string;
   error: string;
 }
+
+/**
+ * Qué hacer cuando un archivo importado ya existe en la biblioteca
+ * (mismo tamaño y checksum):
+ * - skip: no se importa
+ * - keepBoth: se crea una copia nueva
+ * - link: no se copia, pero se añaden al existente el álbum/tags destino
+ */
+export type MediaImportDuplicatePolicy = "skip" | "keepBoth" | "link";
+
+/** Archivo omitido por existir ya en la biblioteca */
+export interface MediaImportDuplicate {
+  id: string;
+  name: string;
+  existingFileId: string;
+}
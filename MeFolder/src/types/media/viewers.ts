@@ -1,5 +1,5 @@
 import { UUID } from "../common/base";
-import type { FileCategory } from "../common/file-extensions";
+import type { FileCategory, FileExtension } from "../common/file-extensions";
 import type { SharedValue } from "react-native-reanimated";
 
 /** Estado base compartido por todos los reproductores */
@@ -23,12 +23,16 @@ export interface MediaSource {
 
 export type MediaHostCategory = Extract<
   FileCategory,
-  "image" | "video" | "audio"
+  "image" | "video" | "audio" | "document" | "code" | "spreadsheet"
 >;
 
 export interface MediaHostItem extends MediaSource {
   /** Categoría del archivo usada para resolver el viewer apropiado */
   category: MediaHostCategory;
+  /** Extensión del archivo; dentro de una categoría decide el viewer (PDF o texto) */
+  extension?: FileExtension;
+  /** El archivo está en la biblioteca y puede modificarse (no en papelera ni en un comprimido) */
+  isEditable?: boolean;
   /** Miniatura ligera para previews inactivos, especialmente útil en video */
   thumbnailUrl?: string;
   /** Ancho intrínseco del media cuando se conoce */
@@ -81,6 +85,70 @@ export interface ImageViewerState extends ViewerBaseState {
   zoomScale: number;
 }
 
+export interface PdfViewerProps {
+  /** Fuente del PDF; `fileId` se usa para recordar la última página leída */
+  source: MediaSource;
+  /** Callback al cerrar el visor */
+  onClose: () => void;
+  /** Ancho visible del viewport del host */
+  viewportWidth: number;
+  /** Alto visible del viewport del host */
+  viewportHeight: number;
+}
+
+/** Página renderizada a imagen por el renderizador nativo */
+export interface PdfPageImage {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+/** Resultado de buscar texto en un PDF */
+export interface PdfSearchResult {
+  /** Página de la coincidencia, empezando en 0 */
+  pageIndex: number;
+  /** Texto alrededor de la coincidencia */
+  snippet: string;
+}
+
+export interface TextViewerProps {
+  /** Fuente del archivo de texto, Markdown o código */
+  source: MediaSource;
+  /** Extensión del archivo: decide el formato de Markdown y el resaltado */
+  extension: string;
+  /** Muestra el acceso al editor de notas para archivos .txt y .md */
+  isEditable?: boolean;
+  /** Callback al cerrar el visor */
+  onClose: () => void;
+}
+
+/** Coincidencia de la búsqueda dentro de un archivo de texto */
+export interface TextFindMatch {
+  /** Línea de la coincidencia, empezando en 0 */
+  lineIndex: number;
+  /** Columna de inicio dentro de la línea */
+  start: number;
+  /** Columna de fin (excluida) dentro de la línea */
+  end: number;
+}
+
+export interface SpreadsheetViewerProps {
+  /** Fuente del CSV o del libro XLSX */
+  source: MediaSource;
+  /** Extensión del archivo: decide si se lee como CSV o como XLSX */
+  extension: string;
+  /** Callback al cerrar el visor */
+  onClose: () => void;
+}
+
+/** Celda que coincide con la búsqueda dentro de una hoja */
+export interface SpreadsheetFindMatch {
+  /** Fila de la hoja, empezando en 0 (la 0 es la cabecera) */
+  rowIndex: number;
+  /** Columna de la hoja, empezando en 0 */
+  columnIndex: number;
+}
+
 export type VideoPlaybackStatus =
   | "idle"
   | "playing"
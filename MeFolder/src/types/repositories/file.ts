@@ -1,7 +1,15 @@
 import type { FileCategory, FileExtension, UUID } from "../common";
 import { File, CreateFileInput, UpdateFileInput } from "../entities/file";
+import type { SearchParams } from "../ui/search";
 import { BaseRepository } from "./base";
 
+/** Página de resultados de una búsqueda multicriterio de archivos */
+export interface FileSearchPage {
+  items: File[];
+  /** Total de coincidencias sin paginar */
+  total: number;
+}
+
 export interface FileRepository extends BaseRepository<
   File,
   CreateFileInput,
@@ -16,11 +24,17 @@ export interface FileRepository extends BaseRepository<
   findByStatus(status: string): Promise<File[]>;
   findAll(filters?: any, includeDeleted?: boolean): Promise<File[]>;
   search(query: string, filters?: any): Promise<File[]>;
+  searchWithParams(params: SearchParams): Promise<FileSearchPage>;
+  findDuplicateCandidates(): Promise<File[]>;
+  findBySize(size: number): Promise<File[]>;
+  findSimilarPhotoCandidates(): Promise<File[]>;
 
   create(input: CreateFileInput, folderPath?: string): Promise<File>;
   update(id: UUID, input: UpdateFileInput): Promise<File>;
   updateTags(fileId: UUID, tagIds: UUID[]): Promise<void>;
   updateStatus(fileId: UUID, status: string): Promise<void>;
+  updateChecksum(id: UUID, checksum: string): Promise<void>;
+  updatePerceptualHash(id: UUID, perceptualHash: string): Promise<void>;
   updateLocation(
     fileId: UUID,
     folderId: UUID,
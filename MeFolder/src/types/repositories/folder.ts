@@ -4,6 +4,7 @@ import {
   CreateFolderInput,
   UpdateFolderInput,
 } from "../entities/folder";
+import type { SearchFilters, SortOptions } from "../ui/search";
 import { BaseRepository } from "./base";
 
 export interface FolderLocationUpdate {
@@ -32,6 +33,10 @@ export interface FolderRepository extends BaseRepository<
   findAll(filters?: any, includeDeleted?: boolean): Promise<Folder[]>;
   getFolderViewConfig(folderId: UUID): Promise<Folder["viewSettings"] | null>;
   search(query: string, filters?: any): Promise<Folder[]>;
+  searchWithFilters(
+    filters: SearchFilters,
+    sort: SortOptions,
+  ): Promise<Folder[]>;
 
   updateStatus(folderId: UUID, status: string): Promise<void>;
   updateViewConfig(
@@ -1,5 +1,7 @@
 export * from './base';
 export * from './file';
 export * from './folder';
+export * from './smartFolder';
 export * from './tag';
-export * from './userColor';
\ No newline at end of file
+export * from './userColor';
+export * from './job';
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Job, CreateJobInput, UpdateJobInput } from "../entities/job";
+import { BaseRepository } from "./base";
+
+/**
+ * Repositorio para el historial de la cola de tareas
+ */
+export interface JobRepository extends BaseRepository<
+  Job,
+  CreateJobInput,
+  UpdateJobInput
+> {
+  /** Tareas que no llegaron a terminar (en cola o en ejecución) */
+  findUnfinished(): Promise<Job[]>;
+  /** Borra las tareas terminadas del historial; devuelve cuántas se borraron */
+  deleteFinished(): Promise<number>;
+}
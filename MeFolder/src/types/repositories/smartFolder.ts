@@ -0,0 +1,24 @@
+import type { UUID } from "../common";
+import {
+  SmartFolder,
+  CreateSmartFolderInput,
+  UpdateSmartFolderInput,
+} from "../entities/smartFolder";
+import type { ViewSettings } from "../entities/folder";
+import { BaseRepository } from "./base";
+
+/**
+ * Repositorio para las búsquedas guardadas como carpetas inteligentes
+ */
+export interface SmartFolderRepository extends BaseRepository<
+  SmartFolder,
+  CreateSmartFolderInput,
+  UpdateSmartFolderInput
+> {
+  findByParentId(parentId: UUID): Promise<SmartFolder[]>;
+  getViewConfig(smartFolderId: UUID): Promise<ViewSettings | null>;
+  updateViewConfig(
+    smartFolderId: UUID,
+    viewSettings: Partial<ViewSettings>,
+  ): Promise<void>;
+}
@@ -1,6 +1,9 @@
 import { UUID } from "../common/base";
 import { FileExtension, FileCategory } from "../common/file-extensions";
 
+// Periodos de fecha relativos al momento de la búsqueda
+export type SearchDatePreset = "today" | "week" | "month" | "year";
+
 // Tipos de filtros disponibles
 export interface SearchFilters {
   // Filtros de texto
@@ -19,10 +22,12 @@ export interface SearchFilters {
     start?: Date;
     end?: Date;
   };
+  datePreset?: SearchDatePreset; // Se resuelve al buscar; prevalece sobre dateRange
 
   // Filtros de tags
   tagIds?: UUID[];
   tagMode?: "any" | "all"; // Si debe tener cualquier tag o todos
+  excludedTagIds?: UUID[]; // No debe tener ninguno de estos tags
 
   // Filtros de ubicación
   folderIds?: UUID[]; // Buscar solo en estas carpetas
@@ -39,7 +44,13 @@ export interface SearchFilters {
 
 // Opciones de ordenamiento
 export interface SortOptions {
-  field: "name" | "createdAt" | "updatedAt" | "size" | "lastAccessedAt";
+  field:
+    | "relevance" // Ranking FTS; sin texto de búsqueda equivale a "name"
+    | "name"
+    | "createdAt"
+    | "updatedAt"
+    | "size"
+    | "lastAccessedAt";
   order: "asc" | "desc";
 }
 
@@ -72,3 +83,32 @@ export interface SearchSuggestion {
     icon?: string; // icono sugerido
   };
 }
+
+// Clase de cada token del lenguaje de búsqueda de la barra de búsqueda
+export type SearchQueryTokenKind =
+  | "text" // Palabra suelta
+  | "phrase" // Frase entre comillas
+  | "tag" // tag:nombre, -tag:nombre
+  | "ext" // ext:pdf
+  | "type" // type:video
+  | "size" // size>5mb, size:1mb..10mb
+  | "date" // date:2025-01..2025-06, date:week
+  | "in"; // in:"Carpeta"
+
+// Token reconocido en el texto de búsqueda
+export interface SearchQueryToken {
+  kind: SearchQueryTokenKind;
+  raw: string; // Texto original del token
+  value: string; // Valor sin clave ni comillas
+  negated: boolean;
+  start: number; // Posición en el texto de búsqueda
+  end: number;
+  label: string; // Texto del chip
+  error?: string; // Pista cuando el token no se puede aplicar
+}
+
+// Resultado de interpretar el texto de búsqueda
+export interface ParsedSearchQuery {
+  tokens: SearchQueryToken[];
+  filters: SearchFilters; // Criterios del texto; query contiene las palabras y frases libres
+}
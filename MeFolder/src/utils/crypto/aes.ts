@@ -0,0 +1,184 @@
+/** Tamaño de bloque de AES en bytes */
+export const AES_BLOCK_SIZE = 16;
+
+interface AesTables {
+  sbox: Uint8Array;
+  t0: Uint32Array;
+  t1: Uint32Array;
+  t2: Uint32Array;
+  t3: Uint32Array;
+}
+
+let cachedTables: AesTables | null = null;
+
+/**
+ * Genera la S-box y las tablas T de cifrado a partir de la aritmética en GF(2^8),
+ * en lugar de incrustar 5 KB de constantes.
+ */
+function getTables(): AesTables {
+  if (cachedTables) return cachedTables;
+
+  const sbox = new Uint8Array(256);
+  const tables = [
+    new Uint32Array(256),
+    new Uint32Array(256),
+    new Uint32Array(256),
+    new Uint32Array(256),
+  ] as const;
+  const double = new Uint8Array(256);
+  const third = new Uint8Array(256);
+
+  for (let i = 0; i < 256; i++) {
+    double[i] = (i << 1) ^ ((i >> 7) * 0x11b);
+    third[double[i]! ^ i] = i;
+  }
+
+  for (
+    let x = 0, xInv = 0;
+    !sbox[x];
+    x ^= double[x] || 1, xInv = third[xInv] || 1
+  ) {
+    let s = xInv ^ (xInv << 1) ^ (xInv << 2) ^ (xInv << 3) ^ (xInv << 4);
+    s = (s >> 8) ^ (s & 0xff) ^ 0x63;
+    sbox[x] = s;
+
+    let t = (double[s]! * 0x101) ^ (s * 0x1010100);
+    for (let i = 0; i < 4; i++) {
+      t = (t << 24) ^ (t >>> 8);
+      tables[i]![x] = t;
+    }
+  }
+
+  cachedTables = {
+    sbox,
+    t0: tables[0],
+    t1: tables[1],
+    t2: tables[2],
+    t3: tables[3],
+  };
+  return cachedTables;
+}
+
+/**
+ * Cifrado de bloque AES (128, 192 o 256 bits según la longitud de la clave).
+ * Solo implementa la dirección de cifrado, suficiente para el modo CTR.
+ */
+export class AesCipher {
+  private readonly roundKeys: Uint32Array;
+
+  constructor(key: Uint8Array) {
+    if (key.length !== 16 && key.length !== 24 && key.length !== 32) {
+      throw new Error("La clave AES debe tener 16, 24 o 32 bytes");
+    }
+    this.roundKeys = this.expandKey(key);
+  }
+
+  /** Cifra un bloque de 16 bytes de `input` y lo escribe en `output` */
+  encryptBlock(input: Uint8Array, output: Uint8Array): void {
+    const { sbox, t0, t1, t2, t3 } = getTables();
+    const key = this.roundKeys;
+    const innerRounds = key.length / 4 - 2;
+
+    let a = readWord(input, 0) ^ key[0]!;
+    let b = readWord(input, 4) ^ key[1]!;
+    let c = readWord(input, 8) ^ key[2]!;
+    let d = readWord(input, 12) ^ key[3]!;
+    let keyIndex = 4;
+
+    for (let round = 0; round < innerRounds; round++) {
+      const a2 =
+        t0[a >>> 24]! ^
+        t1[(b >> 16) & 0xff]! ^
+        t2[(c >> 8) & 0xff]! ^
+        t3[d & 0xff]! ^
+        key[keyIndex]!;
+      const b2 =
+        t0[b >>> 24]! ^
+        t1[(c >> 16) & 0xff]! ^
+        t2[(d >> 8) & 0xff]! ^
+        t3[a & 0xff]! ^
+        key[keyIndex + 1]!;
+      const c2 =
+        t0[c >>> 24]! ^
+        t1[(d >> 16) & 0xff]! ^
+        t2[(a >> 8) & 0xff]! ^
+        t3[b & 0xff]! ^
+        key[keyIndex + 2]!;
+      d =
+        t0[d >>> 24]! ^
+        t1[(a >> 16) & 0xff]! ^
+        t2[(b >> 8) & 0xff]! ^
+        t3[c & 0xff]! ^
+        key[keyIndex + 3]!;
+      a = a2;
+      b = b2;
+      c = c2;
+      keyIndex += 4;
+    }
+
+    for (let i = 0; i < 4; i++) {
+      writeWord(
+        output,
+        i * 4,
+        (sbox[a >>> 24]! << 24) ^
+          (sbox[(b >> 16) & 0xff]! << 16) ^
+          (sbox[(c >> 8) & 0xff]! << 8) ^
+          sbox[d & 0xff]! ^
+          key[keyIndex++]!,
+      );
+      const previousA = a;
+      a = b;
+      b = c;
+      c = d;
+      d = previousA;
+    }
+  }
+
+  private expandKey(key: Uint8Array): Uint32Array {
+    const { sbox } = getTables();
+    const keyWords = key.length / 4;
+    const roundKeys = new Uint32Array(4 * keyWords + 28);
+    let rcon = 1;
+
+    for (let i = 0; i < keyWords; i++) {
+      roundKeys[i] = readWord(key, i * 4);
+    }
+
+    for (let i = keyWords; i < roundKeys.length; i++) {
+      let temp = roundKeys[i - 1]!;
+
+      if (i % keyWords === 0 || (keyWords === 8 && i % keyWords === 4)) {
+        temp =
+          (sbox[temp >>> 24]! << 24) ^
+          (sbox[(temp >> 16) & 0xff]! << 16) ^
+          (sbox[(temp >> 8) & 0xff]! << 8) ^
+          sbox[temp & 0xff]!;
+
+        if (i % keyWords === 0) {
+          temp = (temp << 8) ^ (temp >>> 24) ^ (rcon << 24);
+          rcon = (rcon << 1) ^ ((rcon >> 7) * 0x11b);
+        }
+      }
+
+      roundKeys[i] = roundKeys[i - keyWords]! ^ temp;
+    }
+
+    return roundKeys;
+  }
+}
+
+function readWord(bytes: Uint8Array, offset: number): number {
+  return (
+    (bytes[offset]! << 24) |
+    (bytes[offset + 1]! << 16) |
+    (bytes[offset + 2]! << 8) |
+    bytes[offset + 3]!
+  );
+}
+
+function writeWord(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
@@ -0,0 +1,42 @@
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Avanza un CRC-32 con un byte, sin el complemento inicial ni final.
+ * Es la operación que usa ZipCrypto para actualizar sus claves.
+ */
+export function crc32UpdateByte(crc: number, byte: number): number {
+  return (CRC32_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)) >>> 0;
+}
+
+/** CRC-32 incremental (IEEE 802.3), el que guardan ZIP y gzip de cada entrada */
+export class Crc32 {
+  private value = 0xffffffff;
+
+  update(data: Uint8Array): this {
+    let crc = this.value;
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC32_TABLE[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+    }
+    this.value = crc >>> 0;
+    return this;
+  }
+
+  digest(): number {
+    return (this.value ^ 0xffffffff) >>> 0;
+  }
+}
+
+/** Calcula el CRC-32 de un bloque de bytes */
+export function crc32(data: Uint8Array): number {
+  return new Crc32().update(data).digest();
+}
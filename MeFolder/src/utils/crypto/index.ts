@@ -0,0 +1,5 @@
+export * from "./aes";
+export * from "./crc32";
+export * from "./md5";
+export * from "./random";
+export * from "./sha1";
@@ -0,0 +1,130 @@
+/** Tamaño de bloque de MD5 en bytes */
+const MD5_BLOCK_SIZE = 64;
+
+const MD5_INITIAL_STATE = [
+  0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476,
+] as const;
+
+/** Rotaciones de cada paso, en grupos de cuatro por ronda */
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 5, 9, 14, 20, 4, 11, 16, 23, 6, 10, 15, 21,
+] as const;
+
+/** Constantes de cada paso: floor(|sin(i + 1)| * 2^32) */
+const MD5_CONSTANTS = Uint32Array.from({ length: 64 }, (_, i) =>
+  Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000),
+);
+
+/**
+ * MD5 incremental. Permite calcular el checksum de un archivo por bloques, sin
+ * tenerlo entero en memoria; el resultado coincide con el `md5` en hexadecimal
+ * de expo-file-system.
+ */
+export class Md5 {
+  private readonly h = new Uint32Array(MD5_INITIAL_STATE);
+  private readonly block = new Uint8Array(MD5_BLOCK_SIZE);
+  private readonly words = new Uint32Array(16);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.totalLength += data.length;
+
+    while (offset < data.length) {
+      const chunk = Math.min(
+        MD5_BLOCK_SIZE - this.blockLength,
+        data.length - offset,
+      );
+      this.block.set(data.subarray(offset, offset + chunk), this.blockLength);
+      this.blockLength += chunk;
+      offset += chunk;
+
+      if (this.blockLength === MD5_BLOCK_SIZE) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+
+    return this;
+  }
+
+  /** Resumen en hexadecimal en minúsculas */
+  digest(): string {
+    const bitLength = this.totalLength * 8;
+    this.block[this.blockLength++] = 0x80;
+
+    if (this.blockLength > MD5_BLOCK_SIZE - 8) {
+      this.block.fill(0, this.blockLength);
+      this.compress();
+      this.blockLength = 0;
+    }
+
+    this.block.fill(0, this.blockLength);
+    const view = new DataView(this.block.buffer);
+    view.setUint32(MD5_BLOCK_SIZE - 8, bitLength >>> 0, true);
+    view.setUint32(
+      MD5_BLOCK_SIZE - 4,
+      Math.floor(bitLength / 0x100000000),
+      true,
+    );
+    this.compress();
+
+    const output = new Uint8Array(16);
+    const outputView = new DataView(output.buffer);
+    this.h.forEach((value, index) =>
+      outputView.setUint32(index * 4, value, true),
+    );
+    return Array.from(output, (byte) =>
+      byte.toString(16).padStart(2, "0"),
+    ).join("");
+  }
+
+  private compress(): void {
+    const w = this.words;
+    const block = this.block;
+
+    for (let i = 0; i < 16; i++) {
+      w[i] =
+        block[i * 4]! |
+        (block[i * 4 + 1]! << 8) |
+        (block[i * 4 + 2]! << 16) |
+        (block[i * 4 + 3]! << 24);
+    }
+
+    let a = this.h[0]!;
+    let b = this.h[1]!;
+    let c = this.h[2]!;
+    let d = this.h[3]!;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const shift = MD5_SHIFTS[(i >> 4) * 4 + (i % 4)]!;
+      const sum = (a + f + MD5_CONSTANTS[i]! + w[g]!) | 0;
+      a = d;
+      d = c;
+      c = b;
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) | 0;
+    }
+
+    this.h[0] = this.h[0]! + a;
+    this.h[1] = this.h[1]! + b;
+    this.h[2] = this.h[2]! + c;
+    this.h[3] = this.h[3]! + d;
+  }
+}
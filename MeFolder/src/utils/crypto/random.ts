@@ -0,0 +1,10 @@
+import { getRandomValues } from "expo-crypto";
+
+/**
+ * Genera bytes aleatorios criptográficamente seguros para sales y cabeceras de
+ * cifrado. Hermes no expone `crypto.getRandomValues`, así que se piden al
+ * generador nativo de expo-crypto.
+ */
+export function getRandomBytes(length: number): Uint8Array {
+  return getRandomValues(new Uint8Array(length));
+}
@@ -0,0 +1,207 @@
+/** Tamaño de bloque de SHA-1 en bytes */
+const SHA1_BLOCK_SIZE = 64;
+/** Tamaño del resumen de SHA-1 en bytes */
+export const SHA1_DIGEST_SIZE = 20;
+
+const SHA1_INITIAL_STATE = [
+  0x67452301, 0xefcdab89, 0x98badcfe, 0x10325476, 0xc3d2e1f0,
+] as const;
+
+/**
+ * Estado incremental de SHA-1.
+ * Se usa directamente en HMAC para reutilizar el estado tras procesar las
+ * claves de relleno, que es lo que hace viable PBKDF2 en JS puro.
+ */
+class Sha1State {
+  private readonly h = new Uint32Array(SHA1_INITIAL_STATE);
+  private readonly block = new Uint8Array(SHA1_BLOCK_SIZE);
+  private readonly words = new Uint32Array(80);
+  private blockLength = 0;
+  private totalLength = 0;
+
+  clone(): Sha1State {
+    const copy = new Sha1State();
+    copy.h.set(this.h);
+    copy.block.set(this.block);
+    copy.blockLength = this.blockLength;
+    copy.totalLength = this.totalLength;
+    return copy;
+  }
+
+  update(data: Uint8Array): this {
+    let offset = 0;
+    this.totalLength += data.length;
+
+    while (offset < data.length) {
+      const chunk = Math.min(
+        SHA1_BLOCK_SIZE - this.blockLength,
+        data.length - offset,
+      );
+      this.block.set(data.subarray(offset, offset + chunk), this.blockLength);
+      this.blockLength += chunk;
+      offset += chunk;
+
+      if (this.blockLength === SHA1_BLOCK_SIZE) {
+        this.compress();
+        this.blockLength = 0;
+      }
+    }
+
+    return this;
+  }
+
+  digest(): Uint8Array {
+    const bitLength = this.totalLength * 8;
+    this.block[this.blockLength++] = 0x80;
+
+    if (this.blockLength > SHA1_BLOCK_SIZE - 8) {
+      this.block.fill(0, this.blockLength);
+      this.compress();
+      this.blockLength = 0;
+    }
+
+    this.block.fill(0, this.blockLength);
+    const view = new DataView(this.block.buffer);
+    view.setUint32(SHA1_BLOCK_SIZE - 8, Math.floor(bitLength / 0x100000000));
+    view.setUint32(SHA1_BLOCK_SIZE - 4, bitLength >>> 0);
+    this.compress();
+
+    const output = new Uint8Array(SHA1_DIGEST_SIZE);
+    const outputView = new DataView(output.buffer);
+    this.h.forEach((value, index) => outputView.setUint32(index * 4, value));
+    return output;
+  }
+
+  private compress(): void {
+    const w = this.words;
+    const block = this.block;
+
+    for (let i = 0; i < 16; i++) {
+      w[i] =
+        (block[i * 4]! << 24) |
+        (block[i * 4 + 1]! << 16) |
+        (block[i * 4 + 2]! << 8) |
+        block[i * 4 + 3]!;
+    }
+    for (let i = 16; i < 80; i++) {
+      const value = w[i - 3]! ^ w[i - 8]! ^ w[i - 14]! ^ w[i - 16]!;
+      w[i] = (value << 1) | (value >>> 31);
+    }
+
+    let a = this.h[0]!;
+    let b = this.h[1]!;
+    let c = this.h[2]!;
+    let d = this.h[3]!;
+    let e = this.h[4]!;
+
+    for (let i = 0; i < 80; i++) {
+      let f: number;
+      let k: number;
+      if (i < 20) {
+        f = (b & c) | (~b & d);
+        k = 0x5a827999;
+      } else if (i < 40) {
+        f = b ^ c ^ d;
+        k = 0x6ed9eba1;
+      } else if (i < 60) {
+        f = (b & c) | (b & d) | (c & d);
+        k = 0x8f1bbcdc;
+      } else {
+        f = b ^ c ^ d;
+        k = 0xca62c1d6;
+      }
+
+      const temp = (((a << 5) | (a >>> 27)) + f + e + k + w[i]!) | 0;
+      e = d;
+      d = c;
+      c = (b << 30) | (b >>> 2);
+      b = a;
+      a = temp;
+    }
+
+    this.h[0] = this.h[0]! + a;
+    this.h[1] = this.h[1]! + b;
+    this.h[2] = this.h[2]! + c;
+    this.h[3] = this.h[3]! + d;
+    this.h[4] = this.h[4]! + e;
+  }
+}
+
+/** Calcula el SHA-1 de un bloque de bytes */
+export function sha1(data: Uint8Array): Uint8Array {
+  return new Sha1State().update(data).digest();
+}
+
+/**
+ * HMAC-SHA1 con los estados de relleno precalculados.
+ * Permite calcular muchos MAC con la misma clave (PBKDF2) o un MAC incremental
+ * sobre datos grandes (código de autenticación de WinZip AES).
+ */
+export class HmacSha1 {
+  private readonly innerState: Sha1State;
+  private readonly outerState: Sha1State;
+  private current: Sha1State;
+
+  constructor(key: Uint8Array) {
+    const normalizedKey = key.length > SHA1_BLOCK_SIZE ? sha1(key) : key;
+    const innerPad = new Uint8Array(SHA1_BLOCK_SIZE).fill(0x36);
+    const outerPad = new Uint8Array(SHA1_BLOCK_SIZE).fill(0x5c);
+
+    normalizedKey.forEach((byte, index) => {
+      innerPad[index] = innerPad[index]! ^ byte;
+      outerPad[index] = outerPad[index]! ^ byte;
+    });
+
+    this.innerState = new Sha1State().update(innerPad);
+    this.outerState = new Sha1State().update(outerPad);
+    this.current = this.innerState.clone();
+  }
+
+  update(data: Uint8Array): this {
+    this.current.update(data);
+    return this;
+  }
+
+  /** Devuelve el MAC y deja la instancia lista para un mensaje nuevo */
+  digest(): Uint8Array {
+    const innerDigest = this.current.digest();
+    this.current = this.innerState.clone();
+    return this.outerState.clone().update(innerDigest).digest();
+  }
+}
+
+/** Deriva una clave con PBKDF2-HMAC-SHA1 (RFC 2898) */
+export function pbkdf2HmacSha1(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  keyLength: number,
+): Uint8Array {
+  const hmac = new HmacSha1(password);
+  const output = new Uint8Array(keyLength);
+  const blockIndex = new Uint8Array(4);
+
+  for (
+    let block = 1, offset = 0;
+    offset < keyLength;
+    block++, offset += SHA1_DIGEST_SIZE
+  ) {
+    new DataView(blockIndex.buffer).setUint32(0, block);
+    let u = hmac.update(salt).update(blockIndex).digest();
+    const t = u.slice();
+
+    for (let i = 1; i < iterations; i++) {
+      u = hmac.update(u).digest();
+      for (let j = 0; j < SHA1_DIGEST_SIZE; j++) {
+        t[j] = t[j]! ^ u[j]!;
+      }
+    }
+
+    output.set(
+      t.subarray(0, Math.min(SHA1_DIGEST_SIZE, keyLength - offset)),
+      offset,
+    );
+  }
+
+  return output;
+}
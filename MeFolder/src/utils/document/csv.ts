@@ -0,0 +1,177 @@
+import { MAX_SPREADSHEET_ROWS, type SpreadsheetTable } from "./spreadsheet";
+
+export const CSV_DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ",": "Coma",
+  ";": "Punto y coma",
+  "\t": "Tabulador",
+  "|": "Barra vertical",
+};
+
+/** Caracteres del principio del archivo con los que se adivina el separador */
+const DELIMITER_SAMPLE_LENGTH = 64 * 1024;
+/** Registros de la muestra que se comparan */
+const DELIMITER_SAMPLE_ROWS = 50;
+
+/**
+ * Recorre `text` como CSV (RFC 4180): comillas dobles para campos con
+ * separadores o saltos de línea, `""` para una comilla dentro del campo y
+ * saltos de línea \n, \r\n o \r. `onRow` devuelve false para parar.
+ */
+function scanCsv(
+  text: string,
+  delimiter: string,
+  onRow: (row: string[]) => boolean,
+): void {
+  let row: string[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    let field: string;
+
+    if (text[index] === '"') {
+      // Campo entre comillas: se copia por tramos hasta la comilla de cierre
+      field = "";
+      let from = index + 1;
+      for (;;) {
+        const quote = text.indexOf('"', from);
+        if (quote < 0) {
+          field += text.slice(from);
+          index = text.length;
+          break;
+        }
+        field += text.slice(from, quote);
+        if (text[quote + 1] === '"') {
+          field += '"';
+          from = quote + 2;
+          continue;
+        }
+        index = quote + 1;
+        break;
+      }
+      // Lo que haya entre la comilla de cierre y el separador se conserva
+      let tail = index;
+      while (
+        tail < text.length &&
+        text[tail] !== delimiter &&
+        text[tail] !== "\n" &&
+        text[tail] !== "\r"
+      ) {
+        tail++;
+      }
+      field += text.slice(index, tail);
+      index = tail;
+    } else {
+      let end = index;
+      while (
+        end < text.length &&
+        text[end] !== delimiter &&
+        text[end] !== "\n" &&
+        text[end] !== "\r"
+      ) {
+        end++;
+      }
+      field = text.slice(index, end);
+      index = end;
+    }
+
+    row.push(field);
+
+    const char = text[index];
+    if (char === delimiter) {
+      index++;
+      // Un separador al final deja un último campo vacío
+      if (index === text.length) row.push("");
+      continue;
+    }
+
+    if (char === "\r" && text[index + 1] === "\n") index++;
+    index++;
+    const shouldContinue = onRow(row);
+    row = [];
+    if (!shouldContinue) return;
+  }
+
+  if (row.length > 0) onRow(row);
+}
+
+/**
+ * Adivina el separador comparando, para cada candidato, cuántas filas de la
+ * muestra tienen el mismo número de campos (y más de uno).
+ */
+export function detectCsvDelimiter(text: string): CsvDelimiter {
+  const sample = text.slice(0, DELIMITER_SAMPLE_LENGTH);
+  // Si la muestra corta el archivo, la última fila puede estar a medias
+  const isPartial = sample.length < text.length;
+
+  let best: CsvDelimiter = ",";
+  let bestScore = 0;
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const fieldCounts: number[] = [];
+    scanCsv(sample, delimiter, (row) => {
+      fieldCounts.push(row.length);
+      return fieldCounts.length < DELIMITER_SAMPLE_ROWS + 1;
+    });
+    if (isPartial || fieldCounts.length > DELIMITER_SAMPLE_ROWS) {
+      fieldCounts.pop();
+    }
+
+    const frequency = new Map<number, number>();
+    for (const count of fieldCounts) {
+      frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    }
+
+    let modeCount = 1;
+    let modeFrequency = 0;
+    for (const [count, times] of frequency) {
+      if (
+        times > modeFrequency ||
+        (times === modeFrequency && count > modeCount)
+      ) {
+        modeCount = count;
+        modeFrequency = times;
+      }
+    }
+    if (modeCount < 2) continue;
+
+    const score = modeFrequency * 1000 + modeCount;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+/** Lee un CSV completo; se corta en `maxRows` filas */
+export function parseCsv(
+  text: string,
+  delimiter: CsvDelimiter,
+  maxRows = MAX_SPREADSHEET_ROWS,
+): SpreadsheetTable {
+  const rows: string[][] = [];
+  let columnCount = 0;
+  let isTruncated = false;
+
+  scanCsv(text, delimiter, (row) => {
+    if (rows.length >= maxRows) {
+      isTruncated = true;
+      return false;
+    }
+    rows.push(row);
+    if (row.length > columnCount) columnCount = row.length;
+    return true;
+  });
+
+  // Las líneas en blanco del final no son filas
+  while (rows.length > 0 && rows[rows.length - 1]!.join("") === "") {
+    rows.pop();
+  }
+
+  return { rows, columnCount, isTruncated };
+}
@@ -0,0 +1,9 @@
+export * from "./csv";
+export * from "./markdown";
+export * from "./pdf";
+export * from "./spreadsheet";
+export * from "./syntax";
+export * from "./textEncoding";
+export * from "./textLines";
+export * from "./textSearch";
+export * from "./xlsx";
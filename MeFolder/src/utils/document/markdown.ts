@@ -0,0 +1,377 @@
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "strong" | "emphasis" | "strike"; children: MarkdownInline[] }
+  | { type: "link"; href: string; children: MarkdownInline[] };
+
+interface MarkdownBlockBase {
+  /** Primera línea del texto original que ocupa el bloque */
+  startLine: number;
+  /** Última línea (incluida) del texto original que ocupa el bloque */
+  endLine: number;
+}
+
+export type MarkdownBlock = MarkdownBlockBase &
+  (
+    | { type: "heading"; level: number; content: MarkdownInline[] }
+    | { type: "paragraph"; content: MarkdownInline[] }
+    | { type: "quote"; content: MarkdownInline[] }
+    | {
+        type: "list-item";
+        /** Número del elemento en listas ordenadas; null en las de viñetas */
+        order: number | null;
+        depth: number;
+        /** Estado de la casilla en listas de tareas (`- [x]`) */
+        checked: boolean | null;
+        content: MarkdownInline[];
+      }
+    | { type: "code"; language: string; text: string }
+    | { type: "rule" }
+    | {
+        type: "table";
+        header: MarkdownInline[][];
+        rows: MarkdownInline[][][];
+      }
+  );
+
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])\s+(.*)$/;
+const TASK = /^\[([ xX])\]\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR =
+  /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$|^\s*\|\s*:?-+:?\s*\|\s*$/;
+
+const isBlank = (line: string) => line.trim() === "";
+
+function splitTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+  return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim());
+}
+
+/** ¿Empieza en `line` un bloque que corta un párrafo en curso? */
+function startsBlock(line: string, next: string | undefined): boolean {
+  return (
+    HEADING.test(line) ||
+    FENCE.test(line) ||
+    RULE.test(line) ||
+    LIST_ITEM.test(line) ||
+    QUOTE.test(line) ||
+    (line.includes("|") && next !== undefined && TABLE_SEPARATOR.test(next))
+  );
+}
+
+/**
+ * Convierte Markdown en bloques listos para pintar. Cubre lo habitual en
+ * notas y README (encabezados, párrafos, listas, citas, bloques de código,
+ * tablas y separadores); el HTML incrustado se deja como texto.
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.split(/\r\n|\r|\n/);
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index]!;
+
+    if (isBlank(line)) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const marker = fence[1]!;
+      const body: string[] = [];
+      let end = index + 1;
+      while (end < lines.length && !lines[end]!.trim().startsWith(marker)) {
+        body.push(lines[end]!);
+        end++;
+      }
+      blocks.push({
+        type: "code",
+        language: fence[2] ?? "",
+        text: body.join("\n"),
+        startLine: index,
+        endLine: Math.min(end, lines.length - 1),
+      });
+      index = end + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({
+        type: "heading",
+        level: heading[1]!.length,
+        content: parseMarkdownInline(heading[2] ?? ""),
+        startLine: index,
+        endLine: index,
+      });
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: "rule", startLine: index, endLine: index });
+      index++;
+      continue;
+    }
+
+    const next = lines[index + 1];
+    if (
+      line.includes("|") &&
+      next !== undefined &&
+      TABLE_SEPARATOR.test(next)
+    ) {
+      const header = splitTableRow(line).map(parseMarkdownInline);
+      const rows: MarkdownInline[][][] = [];
+      let end = index + 2;
+      while (
+        end < lines.length &&
+        !isBlank(lines[end]!) &&
+        lines[end]!.includes("|")
+      ) {
+        rows.push(splitTableRow(lines[end]!).map(parseMarkdownInline));
+        end++;
+      }
+      blocks.push({
+        type: "table",
+        header,
+        rows,
+        startLine: index,
+        endLine: end - 1,
+      });
+      index = end;
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const task = TASK.exec(listItem[4]!);
+      const body = [task ? task[2]! : listItem[4]!];
+      let end = index + 1;
+      // Líneas de continuación sangradas que no abren otro elemento
+      while (
+        end < lines.length &&
+        !isBlank(lines[end]!) &&
+        /^\s{2,}\S/.test(lines[end]!) &&
+        !startsBlock(lines[end]!, lines[end + 1])
+      ) {
+        body.push(lines[end]!.trim());
+        end++;
+      }
+      blocks.push({
+        type: "list-item",
+        order: listItem[3] !== undefined ? Number(listItem[3]) : null,
+        depth: Math.floor(listItem[1]!.replace(/\t/g, "    ").length / 2),
+        checked: task ? task[1] !== " " : null,
+        content: parseMarkdownInline(body.join(" ")),
+        startLine: index,
+        endLine: end - 1,
+      });
+      index = end;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      let end = index;
+      let match: RegExpExecArray | null;
+      while (end < lines.length && (match = QUOTE.exec(lines[end]!))) {
+        body.push(match[1]!);
+        end++;
+      }
+      blocks.push({
+        type: "quote",
+        content: parseMarkdownInline(body.join(" ").trim()),
+        startLine: index,
+        endLine: end - 1,
+      });
+      index = end;
+      continue;
+    }
+
+    const body = [line.trim()];
+    let end = index + 1;
+    while (
+      end < lines.length &&
+      !isBlank(lines[end]!) &&
+      !startsBlock(lines[end]!, lines[end + 1])
+    ) {
+      // Dos espacios al final o una barra invertida fuerzan salto de línea
+      const previous = lines[end - 1]!;
+      const hardBreak = / {2,}$/.test(previous) || previous.endsWith("\\");
+      if (hardBreak && body[body.length - 1]!.endsWith("\\")) {
+        body[body.length - 1] = body[body.length - 1]!.slice(0, -1);
+      }
+      body.push(hardBreak ? `\n${lines[end]!.trim()}` : lines[end]!.trim());
+      end++;
+    }
+    blocks.push({
+      type: "paragraph",
+      content: parseMarkdownInline(body.join(" ").replace(/ \n/g, "\n")),
+      startLine: index,
+      endLine: end - 1,
+    });
+    index = end;
+  }
+
+  return blocks;
+}
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+
+/** Añade texto plano a la lista, juntándolo con el nodo anterior si también lo es */
+function pushText(nodes: MarkdownInline[], text: string): void {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === "text") {
+    last.text += text;
+  } else {
+    nodes.push({ type: "text", text });
+  }
+}
+
+/** Posición del `]` que cierra el `[` de `open`, respetando corchetes anidados */
+function findClosingBracket(text: string, open: number): number {
+  let depth = 0;
+  for (let index = open; index < text.length; index++) {
+    const char = text[index];
+    if (char === "\\") {
+      index++;
+    } else if (char === "[") {
+      depth++;
+    } else if (char === "]" && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/** Formato en línea: código, negrita, cursiva, tachado, enlaces e imágenes */
+export function parseMarkdownInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index]!;
+    const rest = text.slice(index);
+
+    if (char === "\\" && ESCAPABLE.test(text[index + 1] ?? "")) {
+      pushText(nodes, text[index + 1]!);
+      index += 2;
+      continue;
+    }
+
+    if (char === "`") {
+      const ticks = /^`+/.exec(rest)![0];
+      const close = text.indexOf(ticks, index + ticks.length);
+      if (close > 0) {
+        nodes.push({
+          type: "code",
+          text: text.slice(index + ticks.length, close).trim(),
+        });
+        index = close + ticks.length;
+        continue;
+      }
+    }
+
+    // Imagen: no se descarga, se muestra su texto alternativo como enlace
+    const isImage = char === "!" && text[index + 1] === "[";
+    if (char === "[" || isImage) {
+      const open = isImage ? index + 1 : index;
+      const close = findClosingBracket(text, open);
+      const target =
+        close > 0
+          ? /^\(\s*<?([^)\s>]*)>?(?:\s+"[^"]*")?\s*\)/.exec(
+              text.slice(close + 1),
+            )
+          : null;
+      if (close > 0 && target) {
+        const label = text.slice(open + 1, close);
+        nodes.push({
+          type: "link",
+          href: target[1]!,
+          children: parseMarkdownInline(label || target[1]!),
+        });
+        index = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = /^<((?:https?|mailto):[^>\s]+)>/.exec(rest);
+    if (autolink) {
+      nodes.push({
+        type: "link",
+        href: autolink[1]!,
+        children: [{ type: "text", text: autolink[1]! }],
+      });
+      index += autolink[0].length;
+      continue;
+    }
+
+    const bareUrl = /^https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"]/.exec(rest);
+    if (bareUrl && !/\w/.test(text[index - 1] ?? "")) {
+      nodes.push({
+        type: "link",
+        href: bareUrl[0],
+        children: [{ type: "text", text: bareUrl[0] }],
+      });
+      index += bareUrl[0].length;
+      continue;
+    }
+
+    const emphasis = /^(\*\*|__|~~|\*|_)/.exec(rest);
+    if (emphasis) {
+      const marker = emphasis[1]!;
+      const before = text[index - 1] ?? "";
+      const after = text[index + marker.length] ?? "";
+      // `_` dentro de palabras (snake_case) no es cursiva
+      const canOpen =
+        after !== "" &&
+        !/\s/.test(after) &&
+        !(marker[0] === "_" && /\w/.test(before));
+      const close = canOpen ? findClosingMarker(text, marker, index) : -1;
+      if (close > 0) {
+        const inner = text.slice(index + marker.length, close);
+        nodes.push({
+          type:
+            marker === "~~"
+              ? "strike"
+              : marker.length === 2
+                ? "strong"
+                : "emphasis",
+          children: parseMarkdownInline(inner),
+        });
+        index = close + marker.length;
+        continue;
+      }
+    }
+
+    pushText(nodes, char);
+    index++;
+  }
+
+  return nodes;
+}
+
+/** Posición del marcador que cierra el énfasis abierto en `open`; -1 si no hay */
+function findClosingMarker(text: string, marker: string, open: number): number {
+  let index = open + marker.length + 1;
+  while (index < text.length) {
+    const found = text.indexOf(marker, index);
+    if (found < 0) return -1;
+
+    const before = text[found - 1]!;
+    const after = text[found + marker.length] ?? "";
+    const closesWord = !/\s/.test(before);
+    const isDoubled =
+      marker.length === 1 && (after === marker || before === marker);
+    const insideWord = marker === "_" && /\w/.test(after);
+    if (closesWord && !isDoubled && !insideWord) return found;
+    index = found + 1;
+  }
+  return -1;
+}
@@ -0,0 +1,1355 @@
+import { inflateZlib } from "@/services/archive/deflate";
+import { unfilterScanlines } from "@/utils/image/png";
+import { WIN_ANSI_HIGH } from "./textEncoding";
+
+/**
+ * Lector mínimo de PDF en JavaScript puro, para contar páginas y buscar texto
+ * dentro del visor. No dibuja nada: de eso se encarga el renderizador nativo.
+ *
+ * Localiza los objetos con las tablas de referencias cruzadas (o, si están
+ * dañadas, recorriendo el archivo), recorre el árbol de páginas y saca el texto
+ * de los operadores de contenido. Soporta objetos sueltos y dentro de "object
+ * streams", flujos sin comprimir o con FlateDecode, y fuentes con ToUnicode o
+ * con codificación WinAnsi y /Differences. Los PDF cifrados no se pueden leer.
+ */
+
+export class PdfFormatError extends Error {}
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(
+    readonly num: number,
+    readonly gen: number,
+  ) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: Uint8Array) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+class PdfStream {
+  constructor(
+    readonly dict: PdfDict,
+    readonly raw: Uint8Array,
+  ) {}
+}
+
+type PdfDict = Map<string, PdfValue>;
+type PdfValue =
+  | number
+  | boolean
+  | null
+  | PdfName
+  | PdfRef
+  | PdfString
+  | PdfDict
+  | PdfValue[]
+  | PdfStream
+  | PdfOperator;
+
+const MAX_FORM_DEPTH = 4;
+/** Desplazamiento de TJ a partir del cual se considera que hay un espacio */
+const TJ_SPACE_THRESHOLD = 200;
+const CHUNK = 64 * 1024;
+/** Bytes que se recorren entre cesiones del hilo al buscar objetos a mano */
+const SCAN_YIELD_INTERVAL = 1024 * 1024;
+
+const enum Char {
+  Tab = 0x09,
+  LineFeed = 0x0a,
+  FormFeed = 0x0c,
+  CarriageReturn = 0x0d,
+  Space = 0x20,
+  Percent = 0x25,
+  ParenOpen = 0x28,
+  ParenClose = 0x29,
+  Slash = 0x2f,
+  Less = 0x3c,
+  Greater = 0x3e,
+  BracketOpen = 0x5b,
+  Backslash = 0x5c,
+  BracketClose = 0x5d,
+  BraceOpen = 0x7b,
+  BraceClose = 0x7d,
+}
+
+function isWhitespace(byte: number | undefined): boolean {
+  return (
+    byte === Char.Space ||
+    byte === Char.LineFeed ||
+    byte === Char.CarriageReturn ||
+    byte === Char.Tab ||
+    byte === Char.FormFeed ||
+    byte === 0
+  );
+}
+
+function isDelimiter(byte: number | undefined): boolean {
+  return (
+    byte === Char.ParenOpen ||
+    byte === Char.ParenClose ||
+    byte === Char.Less ||
+    byte === Char.Greater ||
+    byte === Char.BracketOpen ||
+    byte === Char.BracketClose ||
+    byte === Char.BraceOpen ||
+    byte === Char.BraceClose ||
+    byte === Char.Slash ||
+    byte === Char.Percent
+  );
+}
+
+function isRegular(byte: number | undefined): boolean {
+  return byte !== undefined && !isWhitespace(byte) && !isDelimiter(byte);
+}
+
+function hexValue(byte: number): number {
+  if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+  if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+  if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+  return -1;
+}
+
+function latin1(bytes: Uint8Array, start = 0, end = bytes.length): string {
+  let result = "";
+  for (let i = start; i < end; i += CHUNK) {
+    result += String.fromCharCode(
+      ...bytes.subarray(i, Math.min(i + CHUNK, end)),
+    );
+  }
+  return result;
+}
+
+/** Busca `pattern` (ASCII) en `bytes` desde `from` */
+function indexOfAscii(bytes: Uint8Array, pattern: string, from = 0): number {
+  const first = pattern.charCodeAt(0);
+  outer: for (let i = from; i <= bytes.length - pattern.length; i++) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function lastIndexOfAscii(bytes: Uint8Array, pattern: string): number {
+  const first = pattern.charCodeAt(0);
+  outer: for (let i = bytes.length - pattern.length; i >= 0; i--) {
+    if (bytes[i] !== first) continue;
+    for (let j = 1; j < pattern.length; j++) {
+      if (bytes[i + j] !== pattern.charCodeAt(j)) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Analizador léxico y sintáctico de objetos PDF. Sirve tanto para el cuerpo
+ * del archivo como para los flujos de contenido, donde los operadores llegan
+ * como `PdfOperator`.
+ */
+class PdfParser {
+  position: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    position = 0,
+  ) {
+    this.position = position;
+  }
+
+  get atEnd(): boolean {
+    this.skipWhitespace();
+    return this.position >= this.bytes.length;
+  }
+
+  skipWhitespace(): void {
+    const { bytes } = this;
+    while (this.position < bytes.length) {
+      const byte = bytes[this.position];
+      if (isWhitespace(byte)) {
+        this.position++;
+      } else if (byte === Char.Percent) {
+        while (
+          this.position < bytes.length &&
+          bytes[this.position] !== Char.LineFeed &&
+          bytes[this.position] !== Char.CarriageReturn
+        ) {
+          this.position++;
+        }
+      } else {
+        break;
+      }
+    }
+  }
+
+  /** Lee el siguiente objeto; `stream` solo se interpreta si se pide */
+  readValue(resolveLength?: (value: PdfValue) => number | null): PdfValue {
+    const value = this.readPlainValue();
+
+    if (resolveLength && value instanceof Map) {
+      const saved = this.position;
+      this.skipWhitespace();
+      if (this.peekKeyword() === "stream") {
+        return this.readStream(value, resolveLength);
+      }
+      this.position = saved;
+    }
+
+    return value;
+  }
+
+  private readPlainValue(): PdfValue {
+    this.skipWhitespace();
+    const { bytes } = this;
+    const byte = bytes[this.position];
+
+    if (byte === undefined) {
+      throw new PdfFormatError("Fin de datos inesperado");
+    }
+
+    if (byte === Char.Less && bytes[this.position + 1] === Char.Less) {
+      this.position += 2;
+      return this.readDict();
+    }
+    if (byte === Char.Less) {
+      return this.readHexString();
+    }
+    if (byte === Char.BracketOpen) {
+      this.position++;
+      return this.readArray();
+    }
+    if (byte === Char.ParenOpen) {
+      return this.readLiteralString();
+    }
+    if (byte === Char.Slash) {
+      return this.readName();
+    }
+
+    const token = this.readRegularToken();
+    if (token === "") {
+      // Delimitador suelto (">>" o "]" fuera de sitio): se salta.
+      this.position++;
+      return new PdfOperator(String.fromCharCode(byte));
+    }
+
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) {
+      const number = Number(token);
+      if (/^\d+$/.test(token)) {
+        const reference = this.tryReadReference(number);
+        if (reference) return reference;
+      }
+      return number;
+    }
+
+    if (token === "true") return true;
+    if (token === "false") return false;
+    if (token === "null") return null;
+    return new PdfOperator(token);
+  }
+
+  private tryReadReference(num: number): PdfRef | null {
+    const saved = this.position;
+    this.skipWhitespace();
+    const gen = this.readRegularToken();
+    if (/^\d+$/.test(gen)) {
+      this.skipWhitespace();
+      if (this.readRegularToken() === "R") {
+        return new PdfRef(num, Number(gen));
+      }
+    }
+    this.position = saved;
+    return null;
+  }
+
+  readRegularToken(): string {
+    const start = this.position;
+    while (isRegular(this.bytes[this.position])) {
+      this.position++;
+    }
+    return latin1(this.bytes, start, this.position);
+  }
+
+  private peekKeyword(): string {
+    const saved = this.position;
+    const token = this.readRegularToken();
+    this.position = saved;
+    return token;
+  }
+
+  private readDict(): PdfDict {
+    const dict: PdfDict = new Map();
+    for (;;) {
+      this.skipWhitespace();
+      const byte = this.bytes[this.position];
+      if (byte === undefined) return dict;
+      if (
+        byte === Char.Greater &&
+        this.bytes[this.position + 1] === Char.Greater
+      ) {
+        this.position += 2;
+        return dict;
+      }
+
+      const key = this.readPlainValue();
+      if (!(key instanceof PdfName)) continue;
+      dict.set(key.name, this.readPlainValue());
+    }
+  }
+
+  private readArray(): PdfValue[] {
+    const array: PdfValue[] = [];
+    for (;;) {
+      this.skipWhitespace();
+      const byte = this.bytes[this.position];
+      if (byte === undefined) return array;
+      if (byte === Char.BracketClose) {
+        this.position++;
+        return array;
+      }
+      array.push(this.readPlainValue());
+    }
+  }
+
+  private readName(): PdfName {
+    this.position++;
+    const start = this.position;
+    while (isRegular(this.bytes[this.position])) {
+      this.position++;
+    }
+    const raw = latin1(this.bytes, start, this.position);
+    return new PdfName(
+      raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      ),
+    );
+  }
+
+  private readHexString(): PdfString {
+    this.position++;
+    const output: number[] = [];
+    let high = -1;
+    while (this.position < this.bytes.length) {
+      const byte = this.bytes[this.position++]!;
+      if (byte === Char.Greater) break;
+      const value = hexValue(byte);
+      if (value < 0) continue;
+      if (high < 0) {
+        high = value;
+      } else {
+        output.push((high << 4) | value);
+        high = -1;
+      }
+    }
+    if (high >= 0) output.push(high << 4);
+    return new PdfString(Uint8Array.from(output));
+  }
+
+  private readLiteralString(): PdfString {
+    this.position++;
+    const { bytes } = this;
+    const output: number[] = [];
+    let depth = 1;
+
+    while (this.position < bytes.length) {
+      const byte = bytes[this.position++]!;
+      if (byte === Char.ParenOpen) {
+        depth++;
+      } else if (byte === Char.ParenClose) {
+        depth--;
+        if (depth === 0) break;
+      } else if (byte === Char.Backslash) {
+        const next = bytes[this.position++];
+        switch (next) {
+          case 0x6e: // n
+            output.push(Char.LineFeed);
+            continue;
+          case 0x72: // r
+            output.push(Char.CarriageReturn);
+            continue;
+          case 0x74: // t
+            output.push(Char.Tab);
+            continue;
+          case 0x62: // b
+            output.push(0x08);
+            continue;
+          case 0x66: // f
+            output.push(Char.FormFeed);
+            continue;
+          case Char.CarriageReturn:
+            if (bytes[this.position] === Char.LineFeed) this.position++;
+            continue;
+          case Char.LineFeed:
+            continue;
+          case undefined:
+            continue;
+        }
+        if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2; i++) {
+            const digit = bytes[this.position];
+            if (digit === undefined || digit < 0x30 || digit > 0x37) break;
+            octal = octal * 8 + (digit - 0x30);
+            this.position++;
+          }
+          output.push(octal & 0xff);
+          continue;
+        }
+        output.push(next);
+        continue;
+      }
+      output.push(byte);
+    }
+
+    return new PdfString(Uint8Array.from(output));
+  }
+
+  private readStream(
+    dict: PdfDict,
+    resolveLength: (value: PdfValue) => number | null,
+  ): PdfStream {
+    const { bytes } = this;
+    this.position += "stream".length;
+    if (bytes[this.position] === Char.CarriageReturn) this.position++;
+    if (bytes[this.position] === Char.LineFeed) this.position++;
+
+    const start = this.position;
+    const declaredLength = resolveLength(dict.get("Length") ?? null);
+    let end =
+      declaredLength !== null && declaredLength >= 0
+        ? start + declaredLength
+        : -1;
+
+    // La longitud declarada no siempre es de fiar: se comprueba que detrás
+    // venga "endstream" y si no se busca la palabra.
+    if (end >= 0) {
+      const check = new PdfParser(bytes, end);
+      check.skipWhitespace();
+      if (check.peekKeyword() !== "endstream") end = -1;
+    }
+    if (end < 0) {
+      end = indexOfAscii(bytes, "endstream", start);
+      if (end < 0) end = bytes.length;
+    }
+
+    this.position = end;
+    return new PdfStream(dict, bytes.subarray(start, end));
+  }
+
+  /** Salta los datos binarios de una imagen en línea (BI … ID datos EI) */
+  skipInlineImageData(): void {
+    const { bytes } = this;
+    this.position++;
+    while (this.position < bytes.length) {
+      if (
+        bytes[this.position] === 0x45 && // E
+        bytes[this.position + 1] === 0x49 && // I
+        isWhitespace(bytes[this.position - 1]) &&
+        !isRegular(bytes[this.position + 2])
+      ) {
+        this.position += 2;
+        return;
+      }
+      this.position++;
+    }
+  }
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+function decodeUtf16BE(bytes: Uint8Array): string {
+  let result = "";
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    result += String.fromCharCode((bytes[i]! << 8) | bytes[i + 1]!);
+  }
+  return result;
+}
+
+/** Nombres de glifo habituales en /Differences que no son una sola letra */
+const GLYPH_NAMES: Record<string, string> = {
+  space: " ",
+  exclam: "!",
+  quotedbl: '"',
+  numbersign: "#",
+  dollar: "$",
+  percent: "%",
+  ampersand: "&",
+  quotesingle: "'",
+  quoteright: "’",
+  quoteleft: "‘",
+  quotedblleft: "“",
+  quotedblright: "”",
+  quotesinglbase: "‚",
+  quotedblbase: "„",
+  parenleft: "(",
+  parenright: ")",
+  asterisk: "*",
+  plus: "+",
+  comma: ",",
+  hyphen: "-",
+  minus: "-",
+  period: ".",
+  slash: "/",
+  zero: "0",
+  one: "1",
+  two: "2",
+  three: "3",
+  four: "4",
+  five: "5",
+  six: "6",
+  seven: "7",
+  eight: "8",
+  nine: "9",
+  colon: ":",
+  semicolon: ";",
+  less: "<",
+  equal: "=",
+  greater: ">",
+  question: "?",
+  at: "@",
+  bracketleft: "[",
+  backslash: "\\",
+  bracketright: "]",
+  underscore: "_",
+  braceleft: "{",
+  bar: "|",
+  braceright: "}",
+  exclamdown: "¡",
+  questiondown: "¿",
+  endash: "–",
+  emdash: "—",
+  bullet: "•",
+  ellipsis: "…",
+  degree: "°",
+  ordfeminine: "ª",
+  ordmasculine: "º",
+  germandbls: "ß",
+  euro: "€",
+  Euro: "€",
+  fi: "fi",
+  fl: "fl",
+  ff: "ff",
+  ffi: "ffi",
+  ffl: "ffl",
+};
+
+const GLYPH_ACCENTS: Record<string, string> = {
+  acute: "\u0301",
+  grave: "\u0300",
+  circumflex: "\u0302",
+  dieresis: "\u0308",
+  tilde: "\u0303",
+  cedilla: "\u0327",
+  ring: "\u030a",
+};
+
+function glyphNameToText(name: string): string | undefined {
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const known = GLYPH_NAMES[name];
+  if (known !== undefined) return known;
+
+  const unicode =
+    /^uni([0-9A-Fa-f]{4})$/.exec(name) ?? /^u([0-9A-Fa-f]{4,6})$/.exec(name);
+  if (unicode?.[1]) return String.fromCodePoint(parseInt(unicode[1], 16));
+
+  const accented =
+    /^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|cedilla|ring)$/.exec(
+      name,
+    );
+  if (accented?.[1] && accented[2]) {
+    return (accented[1] + GLYPH_ACCENTS[accented[2]]).normalize("NFC");
+  }
+  return undefined;
+}
+
+interface FontDecoder {
+  decode(bytes: Uint8Array): string;
+}
+
+const WIN_ANSI_DECODER: FontDecoder = {
+  decode: (bytes) => {
+    let result = "";
+    for (const byte of bytes) {
+      result += WIN_ANSI_HIGH[byte] ?? String.fromCharCode(byte);
+    }
+    return result;
+  },
+};
+
+/** Decodificador a partir de una CMap ToUnicode (bfchar y bfrange) */
+function buildToUnicodeDecoder(
+  cmap: Uint8Array,
+  defaultCodeLength: number,
+): FontDecoder {
+  const mapping = new Map<number, string>();
+  const parser = new PdfParser(cmap);
+  let codeLength = 0;
+  const operands: PdfValue[] = [];
+
+  const codeOf = (value: PdfValue): number | null => {
+    if (!(value instanceof PdfString)) return null;
+    if (!codeLength) codeLength = value.bytes.length;
+    let code = 0;
+    for (const byte of value.bytes) code = code * 256 + byte;
+    return code;
+  };
+
+  while (!parser.atEnd) {
+    let value: PdfValue;
+    try {
+      value = parser.readValue();
+    } catch {
+      break;
+    }
+    if (!(value instanceof PdfOperator)) {
+      operands.push(value);
+      continue;
+    }
+
+    if (value.op === "endcodespacerange") {
+      const first = operands[0];
+      if (first instanceof PdfString) codeLength = first.bytes.length;
+    } else if (value.op === "endbfchar") {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const code = codeOf(operands[i]!);
+        const target = operands[i + 1];
+        if (code !== null && target instanceof PdfString) {
+          mapping.set(code, decodeUtf16BE(target.bytes));
+        }
+      }
+    } else if (value.op === "endbfrange") {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const low = codeOf(operands[i]!);
+        const high = codeOf(operands[i + 1]!);
+        const target = operands[i + 2];
+        if (low === null || high === null || high < low) continue;
+        // Rangos absurdos en CMaps rotas: se limitan para no agotar memoria.
+        const last = Math.min(high, low + 0xffff);
+
+        if (target instanceof PdfString) {
+          const base = decodeUtf16BE(target.bytes);
+          const lastChar = base.charCodeAt(base.length - 1);
+          for (let code = low; code <= last; code++) {
+            mapping.set(
+              code,
+              base.slice(0, -1) + String.fromCharCode(lastChar + code - low),
+            );
+          }
+        } else if (Array.isArray(target)) {
+          target.forEach((entry, index) => {
+            if (entry instanceof PdfString && low + index <= last) {
+              mapping.set(low + index, decodeUtf16BE(entry.bytes));
+            }
+          });
+        }
+      }
+    }
+
+    if (value.op.startsWith("end") || value.op.startsWith("begin")) {
+      operands.length = 0;
+    }
+  }
+
+  const length = codeLength || defaultCodeLength;
+  return {
+    decode: (bytes) => {
+      let result = "";
+      for (let i = 0; i + length <= bytes.length; i += length) {
+        let code = 0;
+        for (let j = 0; j < length; j++) code = code * 256 + bytes[i + j]!;
+        const text = mapping.get(code);
+        if (text !== undefined) {
+          result += text;
+        } else if (length === 1) {
+          result += WIN_ANSI_HIGH[code] ?? String.fromCharCode(code);
+        }
+      }
+      return result;
+    },
+  };
+}
+
+interface PdfPage {
+  dict: PdfDict;
+  resources: PdfDict | null;
+}
+
+/**
+ * Documento PDF abierto en memoria. `pageCount` está disponible en cuanto se
+ * abre; el texto se extrae página a página bajo demanda.
+ */
+export class PdfDocument {
+  private readonly offsets = new Map<number, number>();
+  private readonly compressed = new Map<
+    number,
+    { stream: number; index: number }
+  >();
+  private readonly objectCache = new Map<number, PdfValue>();
+  private readonly objectStreamCache = new Map<
+    number,
+    { data: Uint8Array; offsets: number[] }
+  >();
+  private readonly fontCache = new Map<PdfDict, FontDecoder>();
+  private readonly pages: PdfPage[] = [];
+
+  private constructor(private readonly bytes: Uint8Array) {}
+
+  /**
+   * Indexa los objetos y carga el árbol de páginas. Con tablas de referencias
+   * legibles no hace falta recorrer el archivo; si faltan o no llevan a
+   * ninguna página, se recorre entero cediendo el hilo cada poco.
+   */
+  static async open(bytes: Uint8Array): Promise<PdfDocument> {
+    if (indexOfAscii(bytes.subarray(0, 1024), "%PDF-") < 0) {
+      throw new PdfFormatError("El archivo no es un PDF");
+    }
+
+    const indexed = new PdfDocument(bytes);
+    const trailer = indexed.readCrossReferences();
+    if (trailer && indexed.loadPages(trailer) && indexed.pageCount > 0) {
+      return indexed;
+    }
+
+    const scanned = new PdfDocument(bytes);
+    await scanned.scanObjects();
+    if (!scanned.loadPages(scanned.readTrailer())) {
+      throw new PdfFormatError("El PDF no tiene catálogo");
+    }
+    return scanned;
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Extrae el texto de la página `pageIndex` (empezando en 0) */
+  getPageText(pageIndex: number): string {
+    const page = this.pages[pageIndex];
+    if (!page) return "";
+
+    const contents = this.resolve(page.dict.get("Contents") ?? null);
+    const streams = Array.isArray(contents)
+      ? contents.map((item) => this.resolve(item))
+      : [contents];
+    const parts = streams
+      .filter((stream): stream is PdfStream => stream instanceof PdfStream)
+      .map((stream) => this.decodeStream(stream));
+
+    const output: string[] = [];
+    for (const part of parts) {
+      this.extractText(part, page.resources, output, 0);
+      output.push("\n");
+    }
+    return output
+      .join("")
+      .replace(/[ \t]+\n/g, "\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+  }
+
+  /** Carga las páginas del catálogo del trailer; false si no hay catálogo */
+  private loadPages(trailer: PdfDict): boolean {
+    if (trailer.has("Encrypt")) {
+      throw new PdfFormatError("El PDF está cifrado");
+    }
+
+    const catalog = this.resolve(trailer.get("Root") ?? null);
+    if (!(catalog instanceof Map)) return false;
+
+    this.collectPages(catalog.get("Pages") ?? null, null, new Set());
+    return true;
+  }
+
+  /**
+   * Índice de objetos a partir de las tablas de referencias cruzadas, desde la
+   * que señala "startxref" hacia las anteriores por /Prev. Las más recientes
+   * mandan (actualizaciones incrementales). Devuelve el trailer más reciente o
+   * `null` si las tablas no se pueden leer.
+   */
+  private readCrossReferences(): PdfDict | null {
+    const { bytes } = this;
+    const tailStart = Math.max(0, bytes.length - 1024);
+    const startIndex = lastIndexOfAscii(bytes.subarray(tailStart), "startxref");
+    if (startIndex < 0) return null;
+
+    const parser = new PdfParser(
+      bytes,
+      tailStart + startIndex + "startxref".length,
+    );
+    parser.skipWhitespace();
+    let offset: number | null = Number(parser.readRegularToken());
+    let trailer: PdfDict | null = null;
+    const seen = new Set<number>();
+    const visited = new Set<number>();
+
+    try {
+      while (offset !== null) {
+        if (
+          !Number.isInteger(offset) ||
+          offset < 0 ||
+          offset >= bytes.length ||
+          visited.has(offset)
+        ) {
+          return null;
+        }
+        visited.add(offset);
+
+        const section = this.readCrossReferenceSection(offset, seen);
+        if (!section) return null;
+        trailer ??= section;
+
+        // Archivos híbridos: el trailer clásico apunta además a un flujo
+        const hybridOffset = section.get("XRefStm");
+        if (typeof hybridOffset === "number" && !visited.has(hybridOffset)) {
+          visited.add(hybridOffset);
+          this.readCrossReferenceSection(hybridOffset, seen);
+        }
+
+        const previous = section.get("Prev");
+        offset = typeof previous === "number" ? previous : null;
+      }
+    } catch {
+      return null;
+    }
+
+    return this.offsets.size > 0 ? trailer : null;
+  }
+
+  /** Lee una tabla "xref" clásica o un flujo /XRef y devuelve su trailer */
+  private readCrossReferenceSection(
+    offset: number,
+    seen: Set<number>,
+  ): PdfDict | null {
+    const parser = new PdfParser(this.bytes, offset);
+    parser.skipWhitespace();
+    const start = parser.position;
+    if (parser.readRegularToken() !== "xref") {
+      parser.position = start;
+      return this.readCrossReferenceStream(offset, seen);
+    }
+
+    for (;;) {
+      parser.skipWhitespace();
+      const token = parser.readRegularToken();
+      if (token === "trailer") {
+        const value = parser.readValue();
+        return value instanceof Map ? value : null;
+      }
+
+      const first = Number(token);
+      parser.skipWhitespace();
+      const count = Number(parser.readRegularToken());
+      if (!Number.isInteger(first) || !Number.isInteger(count)) return null;
+
+      for (let i = 0; i < count; i++) {
+        parser.skipWhitespace();
+        const objectOffset = Number(parser.readRegularToken());
+        parser.skipWhitespace();
+        parser.readRegularToken();
+        parser.skipWhitespace();
+        const type = parser.readRegularToken();
+        if (Number.isNaN(objectOffset)) return null;
+
+        const num = first + i;
+        if (seen.has(num)) continue;
+        seen.add(num);
+        if (type === "n" && objectOffset > 0) {
+          this.offsets.set(num, objectOffset);
+        }
+      }
+    }
+  }
+
+  /** Flujo de referencias cruzadas (PDF 1.5+): registros binarios de anchos /W */
+  private readCrossReferenceStream(
+    offset: number,
+    seen: Set<number>,
+  ): PdfDict | null {
+    const stream = this.openObjectAt(offset).readValue((length) =>
+      typeof length === "number" ? length : null,
+    );
+    if (!(stream instanceof PdfStream)) return null;
+
+    const type = stream.dict.get("Type");
+    const widths = stream.dict.get("W");
+    const size = stream.dict.get("Size");
+    if (
+      !(type instanceof PdfName) ||
+      type.name !== "XRef" ||
+      !Array.isArray(widths) ||
+      widths.length < 3 ||
+      !widths.every((width) => typeof width === "number") ||
+      typeof size !== "number"
+    ) {
+      return null;
+    }
+
+    const data = this.decodeXrefStream(stream);
+    if (!data) return null;
+
+    const [typeWidth, offsetWidth, indexWidth] = widths as number[];
+    const index = stream.dict.get("Index");
+    const ranges = Array.isArray(index) ? index : [0, size];
+    const readField = (position: number, width: number) => {
+      let value = 0;
+      for (let i = 0; i < width; i++) {
+        value = value * 256 + data[position + i]!;
+      }
+      return value;
+    };
+
+    const entryLength = typeWidth! + offsetWidth! + indexWidth!;
+    let position = 0;
+    for (let range = 0; range + 1 < ranges.length; range += 2) {
+      const first = ranges[range];
+      const count = ranges[range + 1];
+      if (typeof first !== "number" || typeof count !== "number") return null;
+
+      for (let i = 0; i < count; i++) {
+        if (position + entryLength > data.length) return stream.dict;
+        // Sin campo de tipo, las entradas son objetos sueltos (tipo 1).
+        const entryType = typeWidth ? readField(position, typeWidth) : 1;
+        const field2 = readField(position + typeWidth!, offsetWidth!);
+        const field3 = readField(
+          position + typeWidth! + offsetWidth!,
+          indexWidth!,
+        );
+        position += entryLength;
+
+        const num = first + i;
+        if (seen.has(num)) continue;
+        seen.add(num);
+        if (entryType === 1) {
+          this.offsets.set(num, field2);
+        } else if (entryType === 2) {
+          this.compressed.set(num, { stream: field2, index: field3 });
+        }
+      }
+    }
+
+    return stream.dict;
+  }
+
+  /** Descomprime un flujo /XRef deshaciendo el predictor PNG que suele llevar */
+  private decodeXrefStream(stream: PdfStream): Uint8Array | null {
+    const data = this.decodeStream(stream);
+    const params = stream.dict.get("DecodeParms");
+    const predictor = params instanceof Map ? params.get("Predictor") : null;
+    if (typeof predictor !== "number" || predictor === 1) return data;
+    if (predictor < 10) return null;
+
+    const columns = params instanceof Map ? params.get("Columns") : null;
+    if (typeof columns !== "number") return null;
+    // Cada fila de `columns` bytes va precedida del tipo de filtro aplicado.
+    const rows = Math.floor(data.length / (columns + 1));
+    return unfilterScanlines(data, rows, columns, 1);
+  }
+
+  /**
+   * Recorre el archivo buscando las cabeceras "n g obj", para PDF sin tablas
+   * de referencias legibles. Los objetos posteriores mandan.
+   */
+  private async scanObjects(): Promise<void> {
+    const { bytes } = this;
+    for (let i = 0; i < bytes.length - 3; i++) {
+      if (i > 0 && i % SCAN_YIELD_INTERVAL === 0) await yieldToEventLoop();
+      if (bytes[i] !== 0x6f || bytes[i + 1] !== 0x62 || bytes[i + 2] !== 0x6a)
+        continue; // "obj"
+      if (isRegular(bytes[i + 3])) continue;
+
+      let cursor = i - 1;
+      if (!isWhitespace(bytes[cursor])) continue;
+      while (isWhitespace(bytes[cursor])) cursor--;
+      const genEnd = cursor + 1;
+      while (bytes[cursor]! >= 0x30 && bytes[cursor]! <= 0x39) cursor--;
+      if (cursor + 1 === genEnd || !isWhitespace(bytes[cursor])) continue;
+      while (isWhitespace(bytes[cursor])) cursor--;
+      const numEnd = cursor + 1;
+      while (cursor >= 0 && bytes[cursor]! >= 0x30 && bytes[cursor]! <= 0x39)
+        cursor--;
+      if (cursor + 1 === numEnd) continue;
+
+      const num = Number(latin1(bytes, cursor + 1, numEnd));
+      this.offsets.set(num, cursor + 1);
+    }
+
+    // Objetos guardados dentro de "object streams" (PDF 1.5+)
+    for (const [num, offset] of this.offsets) {
+      if (indexOfAscii(bytes.subarray(offset, offset + 512), "/ObjStm") < 0)
+        continue;
+      const stream = this.getObject(num);
+      if (!(stream instanceof PdfStream)) continue;
+
+      const header = this.readObjectStream(num);
+      header?.offsets.forEach((_, index) => {
+        const containedNum = header.numbers[index]!;
+        if (!this.offsets.has(containedNum)) {
+          this.compressed.set(containedNum, { stream: num, index });
+        }
+      });
+      await yieldToEventLoop();
+    }
+  }
+
+  /** Parser situado tras la cabecera "n g obj" del objeto que empieza en `offset` */
+  private openObjectAt(offset: number, expectedNum?: number): PdfParser {
+    const parser = new PdfParser(this.bytes, offset);
+    const header = [0, 1, 2].map(() => {
+      parser.skipWhitespace();
+      return parser.readRegularToken();
+    });
+    if (
+      header[2] !== "obj" ||
+      (expectedNum !== undefined && Number(header[0]) !== expectedNum)
+    ) {
+      throw new PdfFormatError(`No hay ningún objeto en la posición ${offset}`);
+    }
+    return parser;
+  }
+
+  private readObjectStream(
+    num: number,
+  ): { numbers: number[]; offsets: number[]; data: Uint8Array } | null {
+    const stream = this.getObject(num);
+    if (!(stream instanceof PdfStream)) return null;
+
+    const data = this.decodeStream(stream);
+    const count = stream.dict.get("N");
+    const first = stream.dict.get("First");
+    if (typeof count !== "number" || typeof first !== "number") return null;
+
+    const parser = new PdfParser(data);
+    const numbers: number[] = [];
+    const offsets: number[] = [];
+    for (let i = 0; i < count; i++) {
+      parser.skipWhitespace();
+      const objectNumber = Number(parser.readRegularToken());
+      parser.skipWhitespace();
+      const offset = Number(parser.readRegularToken());
+      if (Number.isNaN(objectNumber) || Number.isNaN(offset)) break;
+      numbers.push(objectNumber);
+      offsets.push(first + offset);
+    }
+
+    this.objectStreamCache.set(num, { data, offsets });
+    return { numbers, offsets, data };
+  }
+
+  private readTrailer(): PdfDict {
+    const { bytes } = this;
+    const trailerIndex = lastIndexOfAscii(bytes, "trailer");
+    if (trailerIndex >= 0) {
+      const value = new PdfParser(
+        bytes,
+        trailerIndex + "trailer".length,
+      ).readValue();
+      if (value instanceof Map && value.has("Root")) return value;
+    }
+
+    // Con "cross-reference streams" el diccionario del trailer es el del flujo.
+    const rootIndex = lastIndexOfAscii(bytes, "/Root");
+    if (rootIndex < 0) {
+      throw new PdfFormatError("No se encontró el catálogo del PDF");
+    }
+    let start = rootIndex;
+    while (
+      start > 0 &&
+      !(bytes[start] === Char.Less && bytes[start - 1] === Char.Less)
+    ) {
+      start--;
+    }
+    const value = new PdfParser(bytes, Math.max(0, start - 1)).readValue();
+    if (!(value instanceof Map)) {
+      throw new PdfFormatError("No se encontró el catálogo del PDF");
+    }
+    return value;
+  }
+
+  private getObject(num: number): PdfValue {
+    if (this.objectCache.has(num)) return this.objectCache.get(num)!;
+    // Marca provisional para cortar referencias circulares
+    this.objectCache.set(num, null);
+
+    let value: PdfValue = null;
+    const offset = this.offsets.get(num);
+    const compressed = this.compressed.get(num);
+    try {
+      if (offset !== undefined) {
+        value = this.openObjectAt(offset, num).readValue((length) => {
+          const resolved = this.resolve(length);
+          return typeof resolved === "number" ? resolved : null;
+        });
+      } else if (compressed) {
+        const container =
+          this.objectStreamCache.get(compressed.stream) ??
+          this.readObjectStream(compressed.stream);
+        const objectOffset = container?.offsets[compressed.index];
+        if (container && objectOffset !== undefined) {
+          value = new PdfParser(container.data, objectOffset).readValue();
+        }
+      }
+    } catch {
+      value = null;
+    }
+
+    this.objectCache.set(num, value);
+    return value;
+  }
+
+  private resolve(value: PdfValue): PdfValue {
+    return value instanceof PdfRef ? this.getObject(value.num) : value;
+  }
+
+  private decodeStream(stream: PdfStream): Uint8Array {
+    const filter = this.resolve(stream.dict.get("Filter") ?? null);
+    const filters = (Array.isArray(filter) ? filter : [filter])
+      .map((item) => this.resolve(item))
+      .filter((item): item is PdfName => item instanceof PdfName)
+      .map((item) => item.name);
+
+    let data = stream.raw;
+    for (const name of filters) {
+      if (name === "FlateDecode" || name === "Fl") {
+        // Un flujo truncado o dañado aún deja aprovechar lo que se haya leído.
+        data = inflateZlib(data, true);
+      } else {
+        // Filtros de imagen o poco habituales en texto: no se decodifican.
+        return new Uint8Array(0);
+      }
+    }
+    return data;
+  }
+
+  private collectPages(
+    node: PdfValue,
+    inheritedResources: PdfDict | null,
+    visited: Set<PdfValue>,
+  ): void {
+    const dict = this.resolve(node);
+    if (!(dict instanceof Map) || visited.has(dict)) return;
+    visited.add(dict);
+
+    const ownResources = this.resolve(dict.get("Resources") ?? null);
+    const resources =
+      ownResources instanceof Map ? ownResources : inheritedResources;
+    const kids = this.resolve(dict.get("Kids") ?? null);
+
+    if (Array.isArray(kids)) {
+      kids.forEach((kid) => this.collectPages(kid, resources, visited));
+    } else {
+      this.pages.push({ dict, resources });
+    }
+  }
+
+  private getFontDecoder(
+    resources: PdfDict | null,
+    fontName: string,
+  ): FontDecoder {
+    const fonts = resources
+      ? this.resolve(resources.get("Font") ?? null)
+      : null;
+    const font =
+      fonts instanceof Map ? this.resolve(fonts.get(fontName) ?? null) : null;
+    if (!(font instanceof Map)) return WIN_ANSI_DECODER;
+
+    const cached = this.fontCache.get(font);
+    if (cached) return cached;
+
+    const subtype = this.resolve(font.get("Subtype") ?? null);
+    const isComposite = subtype instanceof PdfName && subtype.name === "Type0";
+    const toUnicode = this.resolve(font.get("ToUnicode") ?? null);
+
+    let decoder: FontDecoder;
+    if (toUnicode instanceof PdfStream) {
+      decoder = buildToUnicodeDecoder(
+        this.decodeStream(toUnicode),
+        isComposite ? 2 : 1,
+      );
+    } else if (isComposite) {
+      // Sin ToUnicode los códigos de una fuente compuesta no se pueden traducir.
+      decoder = { decode: () => "" };
+    } else {
+      decoder = this.buildSimpleFontDecoder(font);
+    }
+
+    this.fontCache.set(font, decoder);
+    return decoder;
+  }
+
+  private buildSimpleFontDecoder(font: PdfDict): FontDecoder {
+    const encoding = this.resolve(font.get("Encoding") ?? null);
+    const differences =
+      encoding instanceof Map
+        ? this.resolve(encoding.get("Differences") ?? null)
+        : null;
+    if (!Array.isArray(differences)) return WIN_ANSI_DECODER;
+
+    const overrides = new Map<number, string>();
+    let code = 0;
+    for (const entry of differences) {
+      const value = this.resolve(entry);
+      if (typeof value === "number") {
+        code = value;
+      } else if (value instanceof PdfName) {
+        const text = glyphNameToText(value.name);
+        if (text !== undefined) overrides.set(code, text);
+        code++;
+      }
+    }
+
+    return {
+      decode: (bytes) => {
+        let result = "";
+        for (const byte of bytes) {
+          result +=
+            overrides.get(byte) ??
+            WIN_ANSI_HIGH[byte] ??
+            String.fromCharCode(byte);
+        }
+        return result;
+      },
+    };
+  }
+
+  private extractText(
+    content: Uint8Array,
+    resources: PdfDict | null,
+    output: string[],
+    depth: number,
+  ): void {
+    const parser = new PdfParser(content);
+    const operands: PdfValue[] = [];
+    let decoder = WIN_ANSI_DECODER;
+    let lastLineY: number | null = null;
+
+    const append = (text: string) => {
+      if (text) output.push(text);
+    };
+    const separate = (separator: " " | "\n") => {
+      const last = output[output.length - 1];
+      if (last === undefined || last.endsWith("\n")) return;
+      if (separator === " " && last.endsWith(" ")) return;
+      output.push(separator);
+    };
+    const show = (value: PdfValue | undefined) => {
+      if (value instanceof PdfString) append(decoder.decode(value.bytes));
+    };
+
+    while (!parser.atEnd) {
+      let value: PdfValue;
+      try {
+        value = parser.readValue();
+      } catch {
+        break;
+      }
+      if (!(value instanceof PdfOperator)) {
+        operands.push(value);
+        continue;
+      }
+
+      switch (value.op) {
+        case "Tf": {
+          const name = operands[0];
+          if (name instanceof PdfName)
+            decoder = this.getFontDecoder(resources, name.name);
+          break;
+        }
+        case "Tj":
+          show(operands[operands.length - 1]);
+          break;
+        case "'":
+        case '"':
+          separate("\n");
+          show(operands[operands.length - 1]);
+          break;
+        case "TJ": {
+          const items = operands[operands.length - 1];
+          if (Array.isArray(items)) {
+            for (const item of items) {
+              if (typeof item === "number") {
+                if (item < -TJ_SPACE_THRESHOLD) separate(" ");
+              } else {
+                show(item);
+              }
+            }
+          }
+          break;
+        }
+        case "Td":
+        case "TD": {
+          const ty = operands[1];
+          separate(typeof ty === "number" && ty !== 0 ? "\n" : " ");
+          break;
+        }
+        case "Tm": {
+          const y = operands[5];
+          if (typeof y === "number") {
+            separate(
+              lastLineY !== null && Math.abs(y - lastLineY) > 1 ? "\n" : " ",
+            );
+            lastLineY = y;
+          }
+          break;
+        }
+        case "T*":
+          separate("\n");
+          break;
+        case "ET":
+          separate(" ");
+          break;
+        case "ID":
+          parser.skipInlineImageData();
+          break;
+        case "Do": {
+          const name = operands[0];
+          if (depth >= MAX_FORM_DEPTH || !(name instanceof PdfName)) break;
+          const xObjects = resources
+            ? this.resolve(resources.get("XObject") ?? null)
+            : null;
+          const xObject =
+            xObjects instanceof Map
+              ? this.resolve(xObjects.get(name.name) ?? null)
+              : null;
+          const subtype =
+            xObject instanceof PdfStream ? xObject.dict.get("Subtype") : null;
+          if (
+            xObject instanceof PdfStream &&
+            subtype instanceof PdfName &&
+            subtype.name === "Form"
+          ) {
+            const formResources = this.resolve(
+              xObject.dict.get("Resources") ?? null,
+            );
+            this.extractText(
+              this.decodeStream(xObject),
+              formResources instanceof Map ? formResources : resources,
+              output,
+              depth + 1,
+            );
+          }
+          break;
+        }
+      }
+      operands.length = 0;
+    }
+  }
+}
+
+/**
+ * Abre un PDF a partir de sus bytes.
+ * @throws PdfFormatError si no es un PDF, está cifrado o no tiene catálogo
+ */
+export function openPdfDocument(bytes: Uint8Array): Promise<PdfDocument> {
+  return PdfDocument.open(bytes);
+}
@@ -0,0 +1,135 @@
+/**
+ * Tabla leída de un CSV o de una hoja de un XLSX, lista para pintarse como
+ * rejilla. Las filas pueden tener distinto número de celdas; las que faltan
+ * se tratan como vacías.
+ */
+export interface SpreadsheetTable {
+  rows: string[][];
+  /** Celdas de la fila más larga */
+  columnCount: number;
+  /** La fuente tenía más de `MAX_SPREADSHEET_ROWS` filas y se cortó */
+  isTruncated: boolean;
+}
+
+/** Filas que se cargan como máximo: más no caben en memoria con holgura */
+export const MAX_SPREADSHEET_ROWS = 50_000;
+
+export type SortDirection = "asc" | "desc";
+
+/** Nombre de columna al estilo de las hojas de cálculo: A, B, …, Z, AA, AB… */
+export function getColumnLabel(columnIndex: number): string {
+  let label = "";
+  let index = columnIndex + 1;
+  while (index > 0) {
+    const remainder = (index - 1) % 26;
+    label = String.fromCharCode(65 + remainder) + label;
+    index = Math.floor((index - 1) / 26);
+  }
+  return label;
+}
+
+/** Índice de columna (desde 0) de una referencia tipo "AB12" o "AB" */
+export function parseColumnLabel(reference: string): number {
+  let index = 0;
+  for (const char of reference.toUpperCase()) {
+    const code = char.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+const CURRENCY_AND_SPACES = /[\s €$£%]/g;
+const EUROPEAN_NUMBER = /^[-+]?\d{1,3}(\.\d{3})*(,\d+)?$|^[-+]?\d+,\d+$/;
+const PLAIN_NUMBER =
+  /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$|^[-+]?\d{1,3}(,\d{3})+(\.\d+)?$/i;
+const DAY_FIRST_DATE =
+  /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})(?:\s+(\d{1,2}):(\d{2}))?/;
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2}))?/;
+
+/**
+ * Número que representa una celda, si lo es: admite "1.234,56" y "1,234.56",
+ * símbolos de moneda y porcentaje, y fechas dd/mm/aaaa o aaaa-mm-dd.
+ */
+export function parseCellNumber(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const dayFirst = DAY_FIRST_DATE.exec(trimmed);
+  if (dayFirst) {
+    return Date.UTC(
+      Number(dayFirst[3]),
+      Number(dayFirst[2]) - 1,
+      Number(dayFirst[1]),
+      Number(dayFirst[4] ?? 0),
+      Number(dayFirst[5] ?? 0),
+    );
+  }
+  const iso = ISO_DATE.exec(trimmed);
+  if (iso) {
+    return Date.UTC(
+      Number(iso[1]),
+      Number(iso[2]) - 1,
+      Number(iso[3]),
+      Number(iso[4] ?? 0),
+      Number(iso[5] ?? 0),
+    );
+  }
+
+  const compact = trimmed.replace(CURRENCY_AND_SPACES, "");
+  if (!compact) return null;
+  if (PLAIN_NUMBER.test(compact)) {
+    return Number(compact.replace(/,/g, ""));
+  }
+  if (EUROPEAN_NUMBER.test(compact)) {
+    return Number(compact.replace(/\./g, "").replace(",", "."));
+  }
+  return null;
+}
+
+const collator = new Intl.Collator("es", {
+  numeric: true,
+  sensitivity: "base",
+});
+
+/**
+ * Orden de las filas `rowIndexes` por la columna indicada. Los números y
+ * fechas van antes que el texto y las celdas vacías siempre al final; a
+ * igualdad se conserva el orden original.
+ */
+export function sortRowIndexes(
+  rows: string[][],
+  rowIndexes: number[],
+  columnIndex: number,
+  direction: SortDirection,
+): number[] {
+  const sign = direction === "asc" ? 1 : -1;
+  const keyed = rowIndexes.map((rowIndex, position) => {
+    const value = rows[rowIndex]?.[columnIndex] ?? "";
+    return {
+      rowIndex,
+      position,
+      value,
+      number: parseCellNumber(value),
+      isEmpty: value.trim() === "",
+    };
+  });
+
+  keyed.sort((a, b) => {
+    if (a.isEmpty !== b.isEmpty) return a.isEmpty ? 1 : -1;
+    if (!a.isEmpty) {
+      let result: number;
+      if (a.number !== null && b.number !== null) {
+        result = a.number - b.number;
+      } else if (a.number !== null || b.number !== null) {
+        result = a.number !== null ? -1 : 1;
+      } else {
+        result = collator.compare(a.value, b.value);
+      }
+      if (result !== 0) return result * sign;
+    }
+    return a.position - b.position;
+  });
+
+  return keyed.map((entry) => entry.rowIndex);
+}
@@ -0,0 +1,504 @@
+export type SyntaxTokenType =
+  | "plain"
+  | "keyword"
+  | "literal"
+  | "type"
+  | "function"
+  | "string"
+  | "number"
+  | "comment"
+  | "tag"
+  | "attribute";
+
+export interface SyntaxToken {
+  type: SyntaxTokenType;
+  text: string;
+}
+
+/**
+ * Construcción que sigue abierta al terminar una línea (comentario de bloque,
+ * cadena multilínea o etiqueta de marcado); null si la línea acaba limpia.
+ */
+export type SyntaxState = {
+  type: "comment" | "string" | "tag";
+  close: string;
+} | null;
+
+interface CodeLanguage {
+  kind: "code";
+  keywords: ReadonlySet<string>;
+  literals: ReadonlySet<string>;
+  types: ReadonlySet<string>;
+  lineComments: readonly string[];
+  blockComment?: readonly [string, string];
+  /** Comillas de cadenas que terminan en la misma línea */
+  quotes: readonly string[];
+  /** Delimitadores de cadenas que pueden ocupar varias líneas */
+  multilineQuotes: readonly string[];
+  /** Caracteres extra con los que puede empezar una palabra (`@`, `$`, `#`) */
+  wordPrefixes: string;
+  /** Si las palabras pueden llevar guiones, como las propiedades de CSS */
+  hyphenatedWords?: boolean;
+}
+
+interface MarkupLanguage {
+  kind: "markup";
+}
+
+export type SyntaxLanguage = CodeLanguage | MarkupLanguage;
+
+const words = (list: string): ReadonlySet<string> =>
+  new Set(list.split(/\s+/).filter(Boolean));
+
+const C_LIKE_LITERALS = words("true false null");
+
+const JS_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    abstract as async await break case catch class const continue debugger
+    declare default delete do else enum export extends finally for from
+    function get if implements import in instanceof interface keyof let new
+    of private protected public readonly return satisfies set static super
+    switch this throw try type typeof var void while with yield
+  `),
+  literals: words("true false null undefined NaN Infinity"),
+  types: words(
+    "any boolean never number object string symbol unknown bigint void",
+  ),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  multilineQuotes: ["`"],
+  wordPrefixes: "$",
+};
+
+const JAVA_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    abstract assert break case catch class const continue default do else enum
+    extends final finally for goto if implements import instanceof interface
+    native new package private protected public record return static strictfp
+    super switch synchronized this throw throws transient try var void
+    volatile while yield
+  `),
+  literals: C_LIKE_LITERALS,
+  types: words("boolean byte char double float int long short String Object"),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  multilineQuotes: ['"""'],
+  wordPrefixes: "@",
+};
+
+const C_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    auto break case catch class const constexpr continue default delete do
+    else enum explicit extern for friend goto if inline namespace new
+    noexcept operator private protected public register return sizeof static
+    struct switch template this throw try typedef typename union using
+    virtual volatile while #include #define #ifdef #ifndef #endif #else #if
+    #pragma #undef
+  `),
+  literals: words("true false NULL nullptr"),
+  types: words(`
+    bool char double float int long short signed unsigned void size_t
+    uint8_t uint16_t uint32_t uint64_t int8_t int16_t int32_t int64_t auto
+  `),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  multilineQuotes: [],
+  wordPrefixes: "#",
+};
+
+const PYTHON_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    and as assert async await break class continue def del elif else except
+    finally for from global if import in is lambda match case nonlocal not or
+    pass raise return try while with yield
+  `),
+  literals: words("True False None"),
+  types: words("bool bytes dict float int list object set str tuple"),
+  lineComments: ["#"],
+  quotes: ['"', "'"],
+  multilineQuotes: ['"""', "'''"],
+  wordPrefixes: "@",
+};
+
+const GO_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    break case chan const continue default defer else fallthrough for func go
+    goto if import interface map package range return select struct switch
+    type var
+  `),
+  literals: words("true false nil iota"),
+  types: words(`
+    bool byte complex64 complex128 error float32 float64 int int8 int16 int32
+    int64 rune string uint uint8 uint16 uint32 uint64 uintptr any
+  `),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  multilineQuotes: ["`"],
+  wordPrefixes: "",
+};
+
+const RUST_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    as async await break const continue crate dyn else enum extern fn for if
+    impl in let loop match mod move mut pub ref return self Self static struct
+    super trait type unsafe use where while
+  `),
+  literals: words("true false None Some Ok Err"),
+  types: words(`
+    bool char f32 f64 i8 i16 i32 i64 i128 isize str u8 u16 u32 u64 u128 usize
+    String Vec Option Result Box
+  `),
+  lineComments: ["//"],
+  blockComment: ["/*", "*/"],
+  quotes: ['"'],
+  multilineQuotes: [],
+  wordPrefixes: "#",
+};
+
+const PHP_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    abstract and as break case catch class clone const continue declare
+    default do echo else elseif empty enum extends final finally fn for
+    foreach function global if implements include include_once instanceof
+    interface isset list match namespace new or print private protected
+    public readonly require require_once return static switch throw trait try
+    unset use var while yield
+  `),
+  literals: words("true false null TRUE FALSE NULL"),
+  types: words(
+    "array bool callable float int iterable mixed object string void",
+  ),
+  lineComments: ["//", "#"],
+  blockComment: ["/*", "*/"],
+  quotes: ["'"],
+  multilineQuotes: ['"'],
+  wordPrefixes: "$",
+};
+
+const CSS_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(`
+    @media @import @use @forward @mixin @include @extend @if @else @each @for
+    @function @return @keyframes @font-face @supports !important
+  `),
+  literals: words("inherit initial unset none auto transparent"),
+  types: words(""),
+  lineComments: [],
+  blockComment: ["/*", "*/"],
+  quotes: ['"', "'"],
+  multilineQuotes: [],
+  wordPrefixes: "@$!",
+  hyphenatedWords: true,
+};
+
+const SCSS_LANGUAGE: CodeLanguage = { ...CSS_LANGUAGE, lineComments: ["//"] };
+
+const JSON_LANGUAGE: CodeLanguage = {
+  kind: "code",
+  keywords: words(""),
+  literals: C_LIKE_LITERALS,
+  types: words(""),
+  lineComments: [],
+  quotes: ['"'],
+  multilineQuotes: [],
+  wordPrefixes: "",
+};
+
+const MARKUP_LANGUAGE: MarkupLanguage = { kind: "markup" };
+
+const LANGUAGES_BY_EXTENSION: Record<string, SyntaxLanguage> = {
+  js: JS_LANGUAGE,
+  jsx: JS_LANGUAGE,
+  ts: JS_LANGUAGE,
+  tsx: JS_LANGUAGE,
+  java: JAVA_LANGUAGE,
+  c: C_LANGUAGE,
+  cpp: C_LANGUAGE,
+  py: PYTHON_LANGUAGE,
+  go: GO_LANGUAGE,
+  rs: RUST_LANGUAGE,
+  php: PHP_LANGUAGE,
+  css: CSS_LANGUAGE,
+  scss: SCSS_LANGUAGE,
+  json: JSON_LANGUAGE,
+  html: MARKUP_LANGUAGE,
+  xml: MARKUP_LANGUAGE,
+  svg: MARKUP_LANGUAGE,
+};
+
+/** Lenguaje con el que resaltar un archivo; null si se muestra sin colores */
+export const resolveSyntaxLanguage = (
+  extension: string,
+): SyntaxLanguage | null =>
+  LANGUAGES_BY_EXTENSION[extension.toLowerCase()] ?? null;
+
+const NUMBER_PATTERN =
+  /^(?:0[xX][\da-fA-F_]+|0[bB][01_]+|(?:\d[\d_]*)?\.?\d[\d_]*(?:[eE][+-]?\d+)?)[a-zA-Z%]*/;
+const WORD_CHAR = /[\w$]/;
+
+/** Añade `text` a la lista, juntándolo con el token anterior si es del mismo tipo */
+function pushToken(
+  tokens: SyntaxToken[],
+  type: SyntaxTokenType,
+  text: string,
+): void {
+  if (!text) return;
+  const last = tokens[tokens.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    tokens.push({ type, text });
+  }
+}
+
+/** Posición justo después de `close` desde `from`, saltando escapes; -1 si no está */
+function findClosing(line: string, close: string, from: number): number {
+  let index = from;
+  while (index < line.length) {
+    if (line[index] === "\\" && close !== "*/" && close !== "-->") {
+      index += 2;
+      continue;
+    }
+    if (line.startsWith(close, index)) return index + close.length;
+    index++;
+  }
+  return -1;
+}
+
+function isWordStart(char: string, prefixes: string): boolean {
+  return /[A-Za-z_]/.test(char) || prefixes.includes(char);
+}
+
+function tokenizeCodeLine(
+  line: string,
+  language: CodeLanguage,
+  initialState: SyntaxState,
+): { tokens: SyntaxToken[]; state: SyntaxState } {
+  const tokens: SyntaxToken[] = [];
+  let state = initialState;
+  let index = 0;
+
+  while (index < line.length) {
+    if (state) {
+      const end = findClosing(line, state.close, index);
+      const type = state.type === "comment" ? "comment" : "string";
+      if (end < 0) {
+        pushToken(tokens, type, line.slice(index));
+        return { tokens, state };
+      }
+      pushToken(tokens, type, line.slice(index, end));
+      index = end;
+      state = null;
+      continue;
+    }
+
+    const rest = line.slice(index);
+    const char = line[index]!;
+
+    if (language.lineComments.some((prefix) => rest.startsWith(prefix))) {
+      pushToken(tokens, "comment", rest);
+      break;
+    }
+
+    if (language.blockComment && rest.startsWith(language.blockComment[0])) {
+      const open = language.blockComment[0];
+      pushToken(tokens, "comment", open);
+      index += open.length;
+      state = { type: "comment", close: language.blockComment[1] };
+      continue;
+    }
+
+    const multiline = language.multilineQuotes.find((quote) =>
+      rest.startsWith(quote),
+    );
+    if (multiline) {
+      pushToken(tokens, "string", multiline);
+      index += multiline.length;
+      state = { type: "string", close: multiline };
+      continue;
+    }
+
+    if (language.quotes.includes(char)) {
+      const end = findClosing(line, char, index + 1);
+      const stop = end < 0 ? line.length : end;
+      pushToken(tokens, "string", line.slice(index, stop));
+      index = stop;
+      continue;
+    }
+
+    const previous = index > 0 ? line[index - 1]! : "";
+    if (/[\d.]/.test(char) && !WORD_CHAR.test(previous)) {
+      const number = NUMBER_PATTERN.exec(rest);
+      if (number && /\d/.test(number[0])) {
+        pushToken(tokens, "number", number[0]);
+        index += number[0].length;
+        continue;
+      }
+    }
+
+    if (isWordStart(char, language.wordPrefixes)) {
+      const word = (language.hyphenatedWords ? /^.[\w$-]*/ : /^.[\w$]*/).exec(
+        rest,
+      )![0];
+      const next = line.slice(index + word.length).trimStart();
+      let type: SyntaxTokenType = "plain";
+      if (language.keywords.has(word)) {
+        type = "keyword";
+      } else if (language.literals.has(word)) {
+        type = "literal";
+      } else if (language.types.has(word)) {
+        type = "type";
+      } else if (char === "@") {
+        type = "attribute";
+      } else if (language.hyphenatedWords && next.startsWith(":")) {
+        type = "attribute";
+      } else if (next.startsWith("(")) {
+        type = "function";
+      } else if (/^[A-Z][a-z]/.test(word)) {
+        type = "type";
+      }
+      pushToken(tokens, type, word);
+      index += word.length;
+      continue;
+    }
+
+    pushToken(tokens, "plain", char);
+    index++;
+  }
+
+  return { tokens, state };
+}
+
+function tokenizeMarkupLine(
+  line: string,
+  initialState: SyntaxState,
+): { tokens: SyntaxToken[]; state: SyntaxState } {
+  const tokens: SyntaxToken[] = [];
+  let state = initialState;
+  let index = 0;
+
+  while (index < line.length) {
+    if (state?.type === "comment" || state?.type === "string") {
+      const end = findClosing(line, state.close, index);
+      const type = state.type;
+      if (end < 0) {
+        pushToken(tokens, type, line.slice(index));
+        return { tokens, state };
+      }
+      pushToken(tokens, type, line.slice(index, end));
+      index = end;
+      // Una cadena abierta solo puede estar dentro de una etiqueta
+      state = type === "string" ? { type: "tag", close: ">" } : null;
+      continue;
+    }
+
+    const rest = line.slice(index);
+    const char = line[index]!;
+
+    if (state?.type === "tag") {
+      if (rest.startsWith("/>") || char === ">") {
+        const close = char === ">" ? ">" : "/>";
+        pushToken(tokens, "tag", close);
+        index += close.length;
+        state = null;
+      } else if (char === '"' || char === "'") {
+        pushToken(tokens, "string", char);
+        index++;
+        state = { type: "string", close: char };
+      } else {
+        const name = /^[\w:.-]+/.exec(rest);
+        if (name) {
+          pushToken(tokens, "attribute", name[0]);
+          index += name[0].length;
+        } else {
+          pushToken(tokens, "plain", char);
+          index++;
+        }
+      }
+      continue;
+    }
+
+    if (rest.startsWith("<!--")) {
+      pushToken(tokens, "comment", "<!--");
+      index += 4;
+      state = { type: "comment", close: "-->" };
+      continue;
+    }
+
+    const tag = /^<[/!?]?[\w:.-]*/.exec(rest);
+    if (tag && tag[0].length > 1) {
+      pushToken(tokens, "tag", tag[0]);
+      index += tag[0].length;
+      state = { type: "tag", close: ">" };
+      continue;
+    }
+
+    const entity = /^&#?\w+;/.exec(rest);
+    if (entity) {
+      pushToken(tokens, "literal", entity[0]);
+      index += entity[0].length;
+      continue;
+    }
+
+    pushToken(tokens, "plain", char);
+    index++;
+  }
+
+  return { tokens, state };
+}
+
+/** Tokeniza una línea partiendo del estado en que terminó la anterior */
+export function tokenizeLine(
+  line: string,
+  language: SyntaxLanguage,
+  state: SyntaxState,
+): { tokens: SyntaxToken[]; state: SyntaxState } {
+  return language.kind === "markup"
+    ? tokenizeMarkupLine(line, state)
+    : tokenizeCodeLine(line, language, state);
+}
+
+/**
+ * Resaltado perezoso de un archivo entero. Solo guarda el estado con el que
+ * empieza cada línea y lo calcula hasta donde se haya pedido, así abrir un
+ * archivo grande no obliga a tokenizarlo todo antes de pintar la primera
+ * pantalla.
+ */
+export class SyntaxHighlighter {
+  private readonly lineStates: SyntaxState[] = [null];
+
+  constructor(
+    private readonly lines: readonly string[],
+    private readonly language: SyntaxLanguage,
+  ) {}
+
+  getLineTokens(lineIndex: number): SyntaxToken[] {
+    const line = this.lines[lineIndex] ?? "";
+    return tokenizeLine(line, this.language, this.getStartState(lineIndex))
+      .tokens;
+  }
+
+  private getStartState(lineIndex: number): SyntaxState {
+    while (this.lineStates.length <= lineIndex) {
+      const previous = this.lineStates.length - 1;
+      const { state } = tokenizeLine(
+        this.lines[previous] ?? "",
+        this.language,
+        this.lineStates[previous] ?? null,
+      );
+      this.lineStates.push(state);
+    }
+    return this.lineStates[lineIndex] ?? null;
+  }
+}
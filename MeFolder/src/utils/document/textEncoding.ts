@@ -0,0 +1,176 @@
+/**
+ * Detección de la codificación de archivos de texto sin metadatos, como los
+ * CSV exportados por hojas de cálculo: UTF-8 (con o sin BOM), UTF-16 y, si no
+ * es UTF-8 válido, Windows-1252, la habitual de Excel en español.
+ */
+
+export type TextEncodingName =
+  "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+export interface DecodedText {
+  text: string;
+  encoding: TextEncodingName;
+}
+
+export const TEXT_ENCODING_LABELS: Record<TextEncodingName, string> = {
+  "utf-8": "UTF-8",
+  "utf-16le": "UTF-16",
+  "utf-16be": "UTF-16 BE",
+  "windows-1252": "Windows-1252",
+};
+
+/** Caracteres de WinAnsiEncoding entre 0x80 y 0x9F; el resto coincide con Latin-1 */
+export const WIN_ANSI_HIGH: Record<number, string> = {
+  0x80: "€",
+  0x82: "‚",
+  0x83: "ƒ",
+  0x84: "„",
+  0x85: "…",
+  0x86: "†",
+  0x87: "‡",
+  0x88: "ˆ",
+  0x89: "‰",
+  0x8a: "Š",
+  0x8b: "‹",
+  0x8c: "Œ",
+  0x8e: "Ž",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x98: "˜",
+  0x99: "™",
+  0x9a: "š",
+  0x9b: "›",
+  0x9c: "œ",
+  0x9e: "ž",
+  0x9f: "Ÿ",
+};
+
+/** Bytes que se miran para adivinar UTF-16 sin BOM */
+const UTF16_SNIFF_LENGTH = 2048;
+/** Caracteres por llamada a `String.fromCharCode` al construir textos grandes */
+const CHAR_CODE_CHUNK = 8192;
+
+function charCodesToString(codes: Uint16Array): string {
+  let result = "";
+  for (let i = 0; i < codes.length; i += CHAR_CODE_CHUNK) {
+    result += String.fromCharCode(...codes.subarray(i, i + CHAR_CODE_CHUNK));
+  }
+  return result;
+}
+
+function decodeUtf16(bytes: Uint8Array, littleEndian: boolean): string {
+  const codes = new Uint16Array(bytes.length >> 1);
+  for (let i = 0; i < codes.length; i++) {
+    const first = bytes[i * 2]!;
+    const second = bytes[i * 2 + 1]!;
+    codes[i] = littleEndian ? first | (second << 8) : (first << 8) | second;
+  }
+  return charCodesToString(codes);
+}
+
+export function decodeWindows1252(bytes: Uint8Array): string {
+  const codes = new Uint16Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i]!;
+    codes[i] = WIN_ANSI_HIGH[byte]?.charCodeAt(0) ?? byte;
+  }
+  return charCodesToString(codes);
+}
+
+/** Comprueba que `bytes` sea UTF-8 bien formado (sin secuencias truncadas ni sobrelargas) */
+export function isValidUtf8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i]!;
+    if (byte < 0x80) {
+      i++;
+      continue;
+    }
+
+    let continuation: number;
+    let min: number;
+    if (byte >= 0xc2 && byte <= 0xdf) {
+      continuation = 1;
+      min = 0x80;
+    } else if (byte >= 0xe0 && byte <= 0xef) {
+      continuation = 2;
+      min = 0x800;
+    } else if (byte >= 0xf0 && byte <= 0xf4) {
+      continuation = 3;
+      min = 0x10000;
+    } else {
+      return false;
+    }
+
+    let codePoint = byte & (0xff >> (continuation + 2));
+    for (let k = 1; k <= continuation; k++) {
+      const next = bytes[i + k];
+      if (next === undefined || (next & 0xc0) !== 0x80) return false;
+      codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    if (
+      codePoint < min ||
+      codePoint > 0x10ffff ||
+      (codePoint >= 0xd800 && codePoint <= 0xdfff)
+    ) {
+      return false;
+    }
+    i += continuation + 1;
+  }
+  return true;
+}
+
+/**
+ * UTF-16 sin BOM: el texto occidental deja un byte nulo en casi todos los
+ * pares, en la posición impar (little endian) o en la par (big endian).
+ */
+function sniffUtf16(bytes: Uint8Array): TextEncodingName | null {
+  const length = Math.min(bytes.length, UTF16_SNIFF_LENGTH) & ~1;
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return "utf-16be";
+  return null;
+}
+
+/** Decodifica un archivo de texto detectando su codificación */
+export function decodeText(bytes: Uint8Array): DecodedText {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return {
+      text: new TextDecoder().decode(bytes.subarray(3)),
+      encoding: "utf-8",
+    };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: decodeUtf16(bytes.subarray(2), true), encoding: "utf-16le" };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return {
+      text: decodeUtf16(bytes.subarray(2), false),
+      encoding: "utf-16be",
+    };
+  }
+
+  const utf16 = sniffUtf16(bytes);
+  if (utf16) {
+    return { text: decodeUtf16(bytes, utf16 === "utf-16le"), encoding: utf16 };
+  }
+
+  if (isValidUtf8(bytes)) {
+    return { text: new TextDecoder().decode(bytes), encoding: "utf-8" };
+  }
+  return { text: decodeWindows1252(bytes), encoding: "windows-1252" };
+}
@@ -0,0 +1,41 @@
+/** Texto partido en líneas, con el desplazamiento en el original de cada una */
+export interface TextLines {
+  lines: string[];
+  lineStarts: number[];
+}
+
+/** Parte `text` en líneas aceptando finales `\n`, `\r\n` y `\r` */
+export function splitTextLines(text: string): TextLines {
+  const lines: string[] = [];
+  const lineStarts: number[] = [];
+  let start = 0;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text.charCodeAt(index);
+    if (char !== 10 && char !== 13) continue;
+
+    lines.push(text.slice(start, index));
+    lineStarts.push(start);
+    if (char === 13 && text.charCodeAt(index + 1) === 10) index++;
+    start = index + 1;
+  }
+
+  lines.push(text.slice(start));
+  lineStarts.push(start);
+  return { lines, lineStarts };
+}
+
+/** Índice de la línea que contiene la posición `offset` del texto original */
+export function findLineIndex(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle]! <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
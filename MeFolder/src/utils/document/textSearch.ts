@@ -0,0 +1,60 @@
+/** Coincidencia de una búsqueda dentro de un texto, con posiciones del original */
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+/** Minúsculas y sin acentos, para buscar "camion" y encontrar "Camión" */
+export const normalizeSearchText = (value: string): string =>
+  value.normalize("NFD").replace(COMBINING_MARKS, "").toLowerCase();
+
+/**
+ * Busca `query` en `text` sin distinguir mayúsculas ni acentos. Las posiciones
+ * devueltas son las del texto original, no las del normalizado.
+ */
+export function findTextMatches(
+  text: string,
+  query: string,
+  limit = Number.POSITIVE_INFINITY,
+): TextMatch[] {
+  const needle = normalizeSearchText(query.trim());
+  if (!needle) return [];
+
+  // Normaliza carácter a carácter guardando de qué posición viene cada uno
+  let haystack = "";
+  const sourceIndex: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const normalized = normalizeSearchText(text[index]!);
+    haystack += normalized;
+    for (let i = 0; i < normalized.length; i++) sourceIndex.push(index);
+  }
+
+  const matches: TextMatch[] = [];
+  let from = 0;
+  while (matches.length < limit) {
+    const found = haystack.indexOf(needle, from);
+    if (found < 0) break;
+
+    const last = found + needle.length - 1;
+    matches.push({
+      start: sourceIndex[found]!,
+      end: sourceIndex[last]! + 1,
+    });
+    from = found + needle.length;
+  }
+  return matches;
+}
+
+/** Fragmento de `text` alrededor de una coincidencia, en una sola línea */
+export function buildMatchSnippet(
+  text: string,
+  match: TextMatch,
+  context = 40,
+): string {
+  const start = Math.max(0, match.start - context);
+  const end = Math.min(text.length, match.end + context);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
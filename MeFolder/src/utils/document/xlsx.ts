@@ -0,0 +1,407 @@
+import {
+  ZipStreamReader,
+  type ZipStreamEntry,
+} from "@/services/archive/zipStream";
+import type { FSFileStream } from "@/types";
+import {
+  MAX_SPREADSHEET_ROWS,
+  parseColumnLabel,
+  type SpreadsheetTable,
+} from "./spreadsheet";
+
+/**
+ * Lector mínimo de libros XLSX (Office Open XML) para el visor de tablas.
+ * Saca los valores tal y como se muestran de forma aproximada: textos
+ * compartidos y en línea, booleanos, errores, números y fechas según el
+ * formato de la celda. No evalúa fórmulas: usa el último valor guardado.
+ *
+ * El zip se lee directamente del disco: solo se descomprimen las partes que
+ * hacen falta (libro, estilos, textos compartidos y la hoja que se muestra).
+ */
+
+export class XlsxFormatError extends Error {}
+
+export interface XlsxSheetInfo {
+  name: string;
+  /** Ruta de la hoja dentro del zip */
+  path: string;
+}
+
+/** Formatos de número integrados de Excel que son fechas u horas */
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+/** Días entre el 1900-01-00 de Excel (con su 29 de febrero ficticio) y 1970 */
+const EXCEL_EPOCH_OFFSET_1900 = 25569;
+/** Días entre el 1904-01-01 de los libros de Mac antiguos y 1970 */
+const EXCEL_EPOCH_OFFSET_1904 = 24107;
+const MS_PER_DAY = 86_400_000;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXmlText(value: string): string {
+  return (
+    value
+      .replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+        if (code[0] === "#") {
+          const point =
+            code[1] === "x" || code[1] === "X"
+              ? parseInt(code.slice(2), 16)
+              : parseInt(code.slice(1), 10);
+          return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+        }
+        return XML_ENTITIES[code] ?? entity;
+      })
+      // Caracteres que OOXML escapa como _xHHHH_ (saltos de línea, tabuladores…)
+      .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) =>
+        String.fromCharCode(parseInt(hex, 16)),
+      )
+  );
+}
+
+function parseAttributes(tag: string): Map<string, string> {
+  const attributes = new Map<string, string>();
+  const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag))) {
+    // También sin prefijo (r:id → id): el alias del espacio de nombres varía
+    const name = match[1]!;
+    const value = decodeXmlText(match[2] ?? match[3] ?? "");
+    attributes.set(name, value);
+    const colon = name.indexOf(":");
+    if (colon >= 0 && !attributes.has(name.slice(colon + 1))) {
+      attributes.set(name.slice(colon + 1), value);
+    }
+  }
+  return attributes;
+}
+
+/** Texto de todos los `<t>` de un fragmento, sin la guía fonética (`<rPh>`) */
+function collectText(xml: string): string {
+  const withoutPhonetic = xml.replace(
+    /<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g,
+    "",
+  );
+  let text = "";
+  const pattern = /<(?:\w+:)?t\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?t>)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(withoutPhonetic))) {
+    text += decodeXmlText(match[1] ?? "");
+  }
+  return text;
+}
+
+/** Resuelve el destino de una relación respecto a la carpeta `xl/` */
+function resolveTarget(target: string): string {
+  if (target.startsWith("/")) return target.slice(1);
+  const parts = ["xl"];
+  for (const part of target.split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+/** ¿Es de fecha u hora este código de formato? Quita textos literales y colores */
+function isDateFormatCode(code: string): boolean {
+  const cleaned = code
+    .replace(/"[^"]*"/g, "")
+    .replace(/\\./g, "")
+    .replace(/\[(?!h\]|m\]|s\])[^\]]*\]/gi, "");
+  return /[dmyhs]/i.test(cleaned) && !/general/i.test(cleaned);
+}
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/** Fecha de Excel (días desde la época del libro) en formato dd/mm/aaaa hh:mm */
+function formatExcelDate(serial: number, is1904: boolean): string {
+  const offset = is1904 ? EXCEL_EPOCH_OFFSET_1904 : EXCEL_EPOCH_OFFSET_1900;
+  const date = new Date(Math.round((serial - offset) * MS_PER_DAY));
+  if (Number.isNaN(date.getTime())) return String(serial);
+
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}`;
+  if (serial < 1) return time;
+
+  const day = `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+  return Number.isInteger(serial) ? day : `${day} ${time}`;
+}
+
+/** Número con 15 cifras significativas: evita los 0.30000000000000004 */
+function formatExcelNumber(value: string): string {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return value;
+  return String(Number(number.toPrecision(15)));
+}
+
+export class XlsxWorkbook {
+  private sharedStrings: string[] | null = null;
+  private dateStyles: Set<number> | null = null;
+
+  private constructor(
+    private readonly input: FSFileStream,
+    private readonly reader: ZipStreamReader,
+    private readonly entries: Map<string, ZipStreamEntry>,
+    readonly sheets: XlsxSheetInfo[],
+    private readonly is1904: boolean,
+  ) {}
+
+  /** Abre el libro; el archivo queda abierto hasta llamar a `close` */
+  static async open(input: FSFileStream): Promise<XlsxWorkbook> {
+    try {
+      return await XlsxWorkbook.read(input);
+    } catch (error) {
+      input.close();
+      throw error;
+    }
+  }
+
+  private static async read(input: FSFileStream): Promise<XlsxWorkbook> {
+    let reader: ZipStreamReader;
+    try {
+      reader = ZipStreamReader.open(input);
+    } catch {
+      throw new XlsxFormatError("El archivo no es un libro XLSX válido");
+    }
+
+    const entries = new Map<string, ZipStreamEntry>();
+    for (const entry of reader.entries) {
+      if (!entry.dir) entries.set(entry.name, entry);
+    }
+    const readText = (path: string) => readEntryText(reader, entries, path);
+
+    const workbookXml = await readText("xl/workbook.xml");
+    if (!workbookXml) {
+      throw new XlsxFormatError("El libro no tiene hojas");
+    }
+    const relsXml = await readText("xl/_rels/workbook.xml.rels");
+
+    const targets = new Map<string, string>();
+    for (const [tag] of relsXml.matchAll(/<(?:\w+:)?Relationship\b[^>]*>/g)) {
+      const attributes = parseAttributes(tag);
+      const id = attributes.get("Id");
+      const target = attributes.get("Target");
+      if (id && target) targets.set(id, resolveTarget(target));
+    }
+
+    const sheets: XlsxSheetInfo[] = [];
+    for (const [tag] of workbookXml.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)) {
+      const attributes = parseAttributes(tag);
+      const state = attributes.get("state");
+      if (state === "hidden" || state === "veryHidden") continue;
+
+      const path = targets.get(
+        attributes.get("r:id") ?? attributes.get("id") ?? "",
+      );
+      if (path && entries.has(path)) {
+        sheets.push({ name: attributes.get("name") ?? path, path });
+      }
+    }
+    if (sheets.length === 0) {
+      throw new XlsxFormatError("El libro no tiene hojas");
+    }
+
+    const workbookPr = /<(?:\w+:)?workbookPr\b[^>]*>/.exec(workbookXml);
+    const date1904 = workbookPr
+      ? parseAttributes(workbookPr[0]).get("date1904")
+      : undefined;
+
+    return new XlsxWorkbook(
+      input,
+      reader,
+      entries,
+      sheets,
+      date1904 === "1" || date1904 === "true",
+    );
+  }
+
+  private async loadSharedStrings(): Promise<string[]> {
+    if (this.sharedStrings) return this.sharedStrings;
+
+    const xml = await this.readText("xl/sharedStrings.xml");
+    const strings: string[] = [];
+    const pattern = /<(?:\w+:)?si\b[^>]*?(?:\/>|>([\s\S]*?)<\/(?:\w+:)?si>)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(xml))) {
+      strings.push(collectText(match[1] ?? ""));
+    }
+    this.sharedStrings = strings;
+    return strings;
+  }
+
+  /** Índices de estilo de celda (`s`) cuyo formato de número es una fecha */
+  private async loadDateStyles(): Promise<Set<number>> {
+    if (this.dateStyles) return this.dateStyles;
+
+    const xml = await this.readText("xl/styles.xml");
+    const customDateFormats = new Set<number>();
+    for (const [tag] of xml.matchAll(/<(?:\w+:)?numFmt\b[^>]*>/g)) {
+      const attributes = parseAttributes(tag);
+      const id = Number(attributes.get("numFmtId"));
+      if (isDateFormatCode(attributes.get("formatCode") ?? "")) {
+        customDateFormats.add(id);
+      }
+    }
+
+    const styles = new Set<number>();
+    const cellXfs =
+      /<(?:\w+:)?cellXfs\b[^>]*>([\s\S]*?)<\/(?:\w+:)?cellXfs>/.exec(xml);
+    if (cellXfs) {
+      let index = 0;
+      for (const [tag] of cellXfs[1]!.matchAll(/<(?:\w+:)?xf\b[^>]*>/g)) {
+        const formatId = Number(parseAttributes(tag).get("numFmtId") ?? 0);
+        if (
+          BUILTIN_DATE_FORMATS.has(formatId) ||
+          customDateFormats.has(formatId)
+        ) {
+          styles.add(index);
+        }
+        index++;
+      }
+    }
+    this.dateStyles = styles;
+    return styles;
+  }
+
+  /** Lee la hoja `index` completa; se corta en `maxRows` filas */
+  async readSheet(
+    index: number,
+    maxRows = MAX_SPREADSHEET_ROWS,
+  ): Promise<SpreadsheetTable> {
+    const sheet = this.sheets[index];
+    if (!sheet) throw new XlsxFormatError("Hoja no encontrada");
+
+    const [xml, sharedStrings, dateStyles] = await Promise.all([
+      this.readText(sheet.path),
+      this.loadSharedStrings(),
+      this.loadDateStyles(),
+    ]);
+
+    const rows: string[][] = [];
+    let columnCount = 0;
+    let isTruncated = false;
+    let nextRowNumber = 1;
+
+    const rowPattern =
+      /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+    const cellPattern =
+      /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+    let rowMatch: RegExpExecArray | null;
+
+    while ((rowMatch = rowPattern.exec(xml))) {
+      const rowNumber =
+        Number(parseAttributes(rowMatch[1]!).get("r")) || nextRowNumber;
+      nextRowNumber = rowNumber + 1;
+      if (rowNumber > maxRows) {
+        isTruncated = true;
+        break;
+      }
+
+      const cells: string[] = [];
+      let nextColumn = 0;
+      let cellMatch: RegExpExecArray | null;
+      cellPattern.lastIndex = 0;
+      const rowXml = rowMatch[2] ?? "";
+
+      while ((cellMatch = cellPattern.exec(rowXml))) {
+        const attributes = parseAttributes(cellMatch[1]!);
+        const reference = attributes.get("r");
+        const column = reference ? parseColumnLabel(reference) : nextColumn;
+        nextColumn = column + 1;
+
+        const value = this.readCellValue(
+          attributes,
+          cellMatch[2] ?? "",
+          sharedStrings,
+          dateStyles,
+        );
+        if (value === "") continue;
+
+        while (cells.length < column) cells.push("");
+        cells[column] = value;
+      }
+
+      // Las filas vacías que el XML se salta también existen en la rejilla
+      while (rows.length < rowNumber - 1) rows.push([]);
+      rows.push(cells);
+      if (cells.length > columnCount) columnCount = cells.length;
+    }
+
+    while (rows.length > 0 && rows[rows.length - 1]!.length === 0) {
+      rows.pop();
+    }
+
+    return { rows, columnCount, isTruncated };
+  }
+
+  /** Cierra el archivo del libro; después ya no se pueden leer hojas */
+  close(): void {
+    this.input.close();
+  }
+
+  private readText(path: string): Promise<string> {
+    return readEntryText(this.reader, this.entries, path);
+  }
+
+  private readCellValue(
+    attributes: Map<string, string>,
+    body: string,
+    sharedStrings: string[],
+    dateStyles: Set<number>,
+  ): string {
+    const type = attributes.get("t") ?? "n";
+
+    if (type === "inlineStr") {
+      return collectText(body);
+    }
+
+    const valueMatch = /<(?:\w+:)?v\b[^>]*>([\s\S]*?)<\/(?:\w+:)?v>/.exec(body);
+    const raw = valueMatch ? decodeXmlText(valueMatch[1]!) : "";
+    if (raw === "") return "";
+
+    switch (type) {
+      case "s":
+        return sharedStrings[Number(raw)] ?? "";
+      case "b":
+        return raw === "1" ? "VERDADERO" : "FALSO";
+      case "str":
+      case "e":
+      case "d":
+        return raw;
+      default: {
+        const style = Number(attributes.get("s") ?? 0);
+        const number = Number(raw);
+        if (dateStyles.has(style) && Number.isFinite(number)) {
+          return formatExcelDate(number, this.is1904);
+        }
+        return formatExcelNumber(raw);
+      }
+    }
+  }
+}
+
+/** Texto UTF-8 de una parte del libro; vacío si el zip no la incluye */
+async function readEntryText(
+  reader: ZipStreamReader,
+  entries: Map<string, ZipStreamEntry>,
+  path: string,
+): Promise<string> {
+  const entry = entries.get(path);
+  if (!entry) return "";
+
+  const bytes = new Uint8Array(entry.uncompressedSize);
+  let offset = 0;
+  await reader.readEntry(entry, (chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return new TextDecoder().decode(bytes);
+}
+
+export const openXlsxWorkbook = (input: FSFileStream) =>
+  XlsxWorkbook.open(input);
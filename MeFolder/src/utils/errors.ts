@@ -41,6 +41,10 @@ const EXACT_MESSAGES: [string, string][] = [
     "El nombre del archivo no puede estar vacío",
     "El nombre no puede estar vacío.",
   ],
+  [
+    "La búsqueda guardada debe tener al menos un criterio",
+    "Añade un texto de búsqueda o algún filtro a la carpeta inteligente.",
+  ],
   [
     "Error al copiar el archivo",
     "No se pudo copiar el archivo. Verifica que existe y que hay espacio suficiente.",
@@ -87,3 +91,18 @@ export function getFriendlyErrorMessage(
 export function getFriendlyImportError(errorStr: string): string {
   return mapRawMessage(errorStr) ?? errorStr;
 }
+
+/** Error con el que se interrumpe una operación cancelada por el usuario */
+export class OperationCancelledError extends Error {
+  constructor(message = "La operación se ha cancelado") {
+    super(message);
+    this.name = "OperationCancelledError";
+  }
+}
+
+/** Corta la operación en curso si su señal de cancelación ya se ha activado */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new OperationCancelledError();
+  }
+}
@@ -11,4 +11,13 @@ export const formatFileSize = (bytes?: number): string => {
     }
     
     return `${size.toFixed(1)} ${units[unitIndex]}`;
-  }
\ No newline at end of file
+  }
+
+/** Resume lo que ha ocupado un comprimido frente al original: "12.0 MB → 9.1 MB (76 %)" */
+export const formatCompressionSummary = (
+  originalSize: number,
+  archiveSize: number,
+): string => {
+  const ratio = originalSize > 0 ? archiveSize / originalSize : 1;
+  return `${formatFileSize(originalSize)} → ${formatFileSize(archiveSize)} (${Math.round(ratio * 100)} %)`;
+};
@@ -0,0 +1,96 @@
+import type { GrayscaleImage } from "./png";
+
+/** Ancho de la rejilla del dHash (una columna más para comparar vecinos) */
+export const DHASH_GRID_WIDTH = 9;
+/** Alto de la rejilla del dHash */
+export const DHASH_GRID_HEIGHT = 8;
+
+/**
+ * Calcula el dHash (difference hash) de 64 bits de una imagen.
+ *
+ * La imagen se reduce a una rejilla de 9x8 promediando píxeles y cada bit
+ * indica si un píxel es más claro que su vecino de la derecha. Las copias
+ * redimensionadas o recomprimidas producen hashes casi iguales.
+ * @returns Hash en hexadecimal (16 caracteres)
+ */
+export function computeDHash(image: GrayscaleImage): string {
+  const grid = resampleToGrid(image, DHASH_GRID_WIDTH, DHASH_GRID_HEIGHT);
+  let high = 0;
+  let low = 0;
+
+  for (let y = 0; y < DHASH_GRID_HEIGHT; y++) {
+    for (let x = 0; x < DHASH_GRID_WIDTH - 1; x++) {
+      const bitIndex = y * (DHASH_GRID_WIDTH - 1) + x;
+      const row = y * DHASH_GRID_WIDTH;
+      if (grid[row + x]! <= grid[row + x + 1]!) continue;
+
+      if (bitIndex < 32) {
+        high |= 1 << (31 - bitIndex);
+      } else {
+        low |= 1 << (63 - bitIndex);
+      }
+    }
+  }
+
+  return toHex32(high) + toHex32(low);
+}
+
+/**
+ * Número de bits distintos entre dos hashes perceptuales.
+ * 0 = idénticos, 64 = opuestos.
+ */
+export function hammingDistance(hashA: string, hashB: string): number {
+  return (
+    popCount32(
+      parseInt(hashA.slice(0, 8), 16) ^ parseInt(hashB.slice(0, 8), 16),
+    ) +
+    popCount32(
+      parseInt(hashA.slice(8, 16), 16) ^ parseInt(hashB.slice(8, 16), 16),
+    )
+  );
+}
+
+/** Reduce la imagen a una rejilla promediando los píxeles de cada celda */
+function resampleToGrid(
+  image: GrayscaleImage,
+  gridWidth: number,
+  gridHeight: number,
+): Float64Array {
+  const grid = new Float64Array(gridWidth * gridHeight);
+
+  for (let gy = 0; gy < gridHeight; gy++) {
+    const y0 = Math.floor((gy * image.height) / gridHeight);
+    const y1 = Math.max(
+      y0 + 1,
+      Math.floor(((gy + 1) * image.height) / gridHeight),
+    );
+
+    for (let gx = 0; gx < gridWidth; gx++) {
+      const x0 = Math.floor((gx * image.width) / gridWidth);
+      const x1 = Math.max(
+        x0 + 1,
+        Math.floor(((gx + 1) * image.width) / gridWidth),
+      );
+
+      let sum = 0;
+      for (let y = y0; y < y1; y++) {
+        for (let x = x0; x < x1; x++) {
+          sum += image.pixels[y * image.width + x] ?? 0;
+        }
+      }
+      grid[gy * gridWidth + gx] = sum / ((y1 - y0) * (x1 - x0));
+    }
+  }
+
+  return grid;
+}
+
+function toHex32(value: number): string {
+  return (value >>> 0).toString(16).padStart(8, "0");
+}
+
+function popCount32(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
@@ -0,0 +1,210 @@
+import { inflateZlib } from "@/services/archive/deflate";
+
+/**
+ * Decodificador PNG mínimo en JavaScript puro.
+ *
+ * Pensado para imágenes diminutas generadas por expo-image-manipulator
+ * (huellas perceptuales), donde no hay API nativa para leer píxeles.
+ * Soporta PNG no entrelazados de 8 bits (gris, RGB, paleta, con o sin alfa)
+ * y de 16 bits sin paleta.
+ */
+
+/** Imagen en escala de grises, un byte por píxel, fila a fila */
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  pixels: Uint8Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Canales por tipo de color PNG */
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // gris
+  2: 3, // RGB
+  3: 1, // paleta
+  4: 2, // gris + alfa
+  6: 4, // RGBA
+};
+
+/**
+ * Decodifica un PNG y lo convierte a escala de grises (luma BT.601).
+ * El canal alfa se ignora.
+ * @throws Error si el PNG no es válido o usa un formato no soportado
+ */
+export function decodePngGrayscale(bytes: Uint8Array): GrayscaleImage {
+  if (PNG_SIGNATURE.some((value, index) => bytes[index] !== value)) {
+    throw new Error("El archivo no es un PNG válido");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Uint8Array | null = null;
+  const dataChunks: Uint8Array[] = [];
+
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      bitDepth = data[8]!;
+      colorType = data[9]!;
+      if (data[12] !== 0) {
+        throw new Error("PNG entrelazado no soportado");
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "IDAT") {
+      dataChunks.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (
+    !width ||
+    !height ||
+    !channels ||
+    !(bitDepth === 8 || (bitDepth === 16 && colorType !== 3))
+  ) {
+    throw new Error("Formato PNG no soportado");
+  }
+  if (colorType === 3 && !palette) {
+    throw new Error("PNG con paleta sin chunk PLTE");
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const bytesPerPixel = channels * bytesPerSample;
+  const stride = width * bytesPerPixel;
+  const raw = inflateZlib(concatChunks(dataChunks));
+
+  if (raw.length < height * (stride + 1)) {
+    throw new Error("Datos PNG incompletos");
+  }
+
+  const rows = unfilterScanlines(raw, height, stride, bytesPerPixel);
+  const pixels = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const base = y * stride + x * bytesPerPixel;
+      // En 16 bits basta con el byte alto de cada muestra
+      const sample = (channel: number) =>
+        rows[base + channel * bytesPerSample]!;
+
+      let r: number;
+      let g: number;
+      let b: number;
+      if (colorType === 3) {
+        const entry = sample(0) * 3;
+        r = palette![entry] ?? 0;
+        g = palette![entry + 1] ?? 0;
+        b = palette![entry + 2] ?? 0;
+      } else if (channels >= 3) {
+        r = sample(0);
+        g = sample(1);
+        b = sample(2);
+      } else {
+        r = g = b = sample(0);
+      }
+
+      pixels[y * width + x] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset]! << 24) |
+      (bytes[offset + 1]! << 16) |
+      (bytes[offset + 2]! << 8) |
+      bytes[offset + 3]!) >>>
+    0
+  );
+}
+
+function concatChunks(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Deshace los filtros por fila de PNG (None, Sub, Up, Average, Paeth): cada
+ * una de las `height` filas de `stride` bytes va precedida de su tipo de filtro.
+ * También lo usan los predictores PNG de los flujos PDF.
+ */
+export function unfilterScanlines(
+  raw: Uint8Array,
+  height: number,
+  stride: number,
+  bytesPerPixel: number,
+): Uint8Array {
+  const out = new Uint8Array(height * stride);
+
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]!;
+    const src = y * (stride + 1) + 1;
+    const dst = y * stride;
+
+    for (let i = 0; i < stride; i++) {
+      const value = raw[src + i]!;
+      const left = i >= bytesPerPixel ? out[dst + i - bytesPerPixel]! : 0;
+      const up = y > 0 ? out[dst - stride + i]! : 0;
+      const upLeft =
+        y > 0 && i >= bytesPerPixel
+          ? out[dst - stride + i - bytesPerPixel]!
+          : 0;
+
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          throw new Error(`Filtro PNG desconocido: ${filter}`);
+      }
+
+      out[dst + i] = (value + predictor) & 0xff;
+    }
+  }
+
+  return out;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
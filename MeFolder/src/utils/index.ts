@@ -1,3 +1,6 @@
 export * from './format';
 export * from './ui';
-export * from './errors';
\ No newline at end of file
+export * from './errors';
+export * from './image';
+export * from './document';
+export * from './crypto';
\ No newline at end of file
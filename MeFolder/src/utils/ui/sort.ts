@@ -1,5 +1,6 @@
 import { FileModel, FolderModel } from "@/models";
 import { FolderSortBy, FolderSortOrder } from "@/types/entities/folder";
+import { SortOptions } from "@/types/ui/search";
 
 export const sortItems = (items: (FileModel | FolderModel)[], orderBy: FolderSortBy, sortValue: FolderSortOrder) => {
     const files = items.filter(item => item instanceof FileModel);
@@ -33,3 +34,15 @@ export const sortItems = (items: (FileModel | FolderModel)[], orderBy: FolderSor
     return [...sortedFolders, ...sortedFiles];
 
 }
+
+/** Traduce el orden de la vista de carpeta al orden de la búsqueda multicriterio */
+export const toSearchSortOptions = (orderBy: FolderSortBy, sortValue: FolderSortOrder): SortOptions => {
+    const fieldBySortBy: Record<FolderSortBy, SortOptions['field']> = {
+        name: 'name',
+        date: 'createdAt',
+        type: 'createdAt',
+        size: 'size',
+    };
+
+    return { field: fieldBySortBy[orderBy], order: sortValue };
+}